@@ -1,34 +0,0 @@
-/**
- * Clerk Middleware for ORION
- *
- * Protects routes and handles authentication.
- * Public routes: /sign-in, /sign-up, /api/health
- * Protected routes: Everything else
- */
-
-import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
-
-// Define public routes that don't require authentication
-const isPublicRoute = createRouteMatcher([
-  '/sign-in(.*)',
-  '/sign-up(.*)',
-  '/onboarding(.*)',
-  '/api/health',
-  '/api/v1/health',
-]);
-
-export default clerkMiddleware(async (auth, request) => {
-  // Protect all routes except public ones
-  if (!isPublicRoute(request)) {
-    await auth.protect();
-  }
-});
-
-export const config = {
-  matcher: [
-    // Skip Next.js internals and static files
-    '/((?!_next|[^?]*\\.(?:html?|css|js(?!on)|jpe?g|webp|png|gif|svg|ttf|woff2?|ico|csv|docx?|xlsx?|zip|webmanifest)).*)',
-    // Always run for API routes
-    '/(api|trpc)(.*)',
-  ],
-};
@@ -19,8 +19,16 @@ const nextConfig = {
       },
     ],
   },
-  // Proxy API requests to ORION backend
+  // Proxy API requests to ORION backend, or to the local mock backend
+  // (src/lib/mockBackend) when ORION_MOCK_BACKEND=true
   async rewrites() {
+    if (process.env.ORION_MOCK_BACKEND === 'true') {
+      return [
+        { source: '/api/v1/:path*', destination: '/api/mock/api/v1/:path*' },
+        { source: '/health', destination: '/api/mock/health' },
+        { source: '/ready', destination: '/api/mock/ready' },
+      ];
+    }
     return [
       {
         source: '/api/v1/:path*',
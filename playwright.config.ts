@@ -57,5 +57,10 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    // Serve /api/v1 from the local mock backend (same-origin) unless told otherwise
+    env:
+      process.env.ORION_MOCK_BACKEND === 'false'
+        ? {}
+        : { ORION_MOCK_BACKEND: 'true', NEXT_PUBLIC_API_URL: '' },
   },
 });
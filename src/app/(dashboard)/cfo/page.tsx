@@ -8,15 +8,15 @@
  */
 
 import { CFODashboard } from '@/components/cfo/CFODashboard';
-
-// Default tenant for development - in production this comes from auth context
-const DEFAULT_TENANT = 'oilserv-tenant-001';
+import { requireTenant } from '@/lib/tenant';
 
 export const metadata = {
   title: 'CFO Insights | ORION PMS',
   description: 'Executive financial dashboard with portfolio health metrics and SAP integration',
 };
 
-export default function CFOPage() {
-  return <CFODashboard tenantId={DEFAULT_TENANT} />;
+export default async function CFOPage() {
+  const { tenantId } = await requireTenant();
+
+  return <CFODashboard tenantId={tenantId} />;
 }
@@ -8,15 +8,15 @@
  */
 
 import { Dashboard } from '@/components/dashboard/Dashboard';
-
-// Default tenant for development - in production this comes from auth context
-const DEFAULT_TENANT = 'oilserv-tenant-001';
+import { requireTenant } from '@/lib/tenant';
 
 export const metadata = {
   title: 'Portfolio Overview | ORION PMS',
   description: 'Portfolio management dashboard with project health monitoring and sync status',
 };
 
-export default function DashboardPage() {
-  return <Dashboard tenantId={DEFAULT_TENANT} />;
+export default async function DashboardPage() {
+  const { tenantId } = await requireTenant();
+
+  return <Dashboard tenantId={tenantId} />;
 }
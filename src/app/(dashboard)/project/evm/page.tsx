@@ -8,9 +8,7 @@
  */
 
 import { EVMModule } from '@/components/evm/EVMModule';
-
-// Default tenant for development
-const DEFAULT_TENANT = 'oilserv-tenant-001';
+import { requireTenant } from '@/lib/tenant';
 
 export const metadata = {
   title: 'EVM Analysis | ORION PMS',
@@ -20,11 +18,12 @@ export const metadata = {
 export default async function EVMPage(props: {
   searchParams: Promise<{ project?: string }>;
 }) {
+  const { tenantId } = await requireTenant();
   const searchParams = await props.searchParams;
 
   return (
     <EVMModule
-      tenantId={DEFAULT_TENANT}
+      tenantId={tenantId}
       projectId={searchParams.project}
     />
   );
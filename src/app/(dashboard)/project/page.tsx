@@ -8,10 +8,10 @@
  */
 
 import { ProjectDashboard } from '@/components/project/ProjectDashboard';
+import { requireTenant } from '@/lib/tenant';
 
-// Default project and tenant for development
+// Default project for development
 const DEFAULT_PROJECT = '10481';
-const DEFAULT_TENANT = 'oilserv-tenant-001';
 
 export const metadata = {
   title: 'Project Dashboard | ORION PMS',
@@ -21,8 +21,9 @@ export const metadata = {
 export default async function ProjectPage(props: {
   searchParams: Promise<{ id?: string }>;
 }) {
+  const { tenantId } = await requireTenant();
   const searchParams = await props.searchParams;
   const projectId = searchParams.id || DEFAULT_PROJECT;
 
-  return <ProjectDashboard projectId={projectId} tenantId={DEFAULT_TENANT} />;
+  return <ProjectDashboard projectId={projectId} tenantId={tenantId} />;
 }
@@ -0,0 +1,23 @@
+/**
+ * Mock Backend API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * Serves the local mock backend (lib/mockBackend) when ORION_MOCK_BACKEND
+ * is true; 404s otherwise so it is never reachable in a real deployment.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockBackend, isMockBackendEnabled } from '@/lib/mockBackend';
+
+// Sync jobs and scenarios live in memory, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest): Promise<Response> {
+  if (!isMockBackendEnabled()) {
+    return NextResponse.json({ detail: 'Not found', code: 'NOT_FOUND' }, { status: 404 });
+  }
+  return getMockBackend().handleRequest(request);
+}
+
+export const GET = handle;
+export const POST = handle;
+export const DELETE = handle;
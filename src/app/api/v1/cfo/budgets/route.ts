@@ -0,0 +1,13 @@
+/**
+ * CFO Project Budgets API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/cfo/budgets - BAC, actual cost, earned value and EAC for
+ * every project with a snapshot.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getCfoBudgets } from '@/lib/bff/cfo';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => getCfoBudgets(ctx));
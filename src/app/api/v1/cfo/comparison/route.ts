@@ -0,0 +1,13 @@
+/**
+ * CFO Project Comparison API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/cfo/comparison - EVM comparison rows with the on_track,
+ * at_risk or critical rating for every project with a snapshot.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getCfoComparison } from '@/lib/bff/cfo';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => getCfoComparison(ctx));
@@ -0,0 +1,14 @@
+/**
+ * CFO Portfolio Financials API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/cfo/financials - total BAC and the SAP actual costs, open
+ * commitments, revenue received and net cash position; null before any SAP
+ * line has synced.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getCfoFinancials } from '@/lib/bff/cfo';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => getCfoFinancials(ctx));
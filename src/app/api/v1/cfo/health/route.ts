@@ -0,0 +1,13 @@
+/**
+ * CFO Portfolio Health API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/cfo/health - portfolio status, average SPI/CPI and the
+ * on-track, at-risk and critical project counts (lib/bff/cfo.ts).
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getCfoHealth } from '@/lib/bff/cfo';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => getCfoHealth(ctx));
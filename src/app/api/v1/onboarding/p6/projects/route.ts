@@ -0,0 +1,54 @@
+/**
+ * P6 Project Listing API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * Logs in to Primavera P6 Web Services with the onboarding P6 config and
+ * lists the projects the user can see, with the EPS nodes to group them by
+ * (lib/p6's readProjectCatalog).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { P6Client, P6Error, failureMessage, readProjectCatalog, type P6ProjectCatalog } from '@/lib/p6';
+
+interface P6ProjectsRequest {
+  wsdlBaseUrl: string;
+  databaseInstance: string;
+  username: string;
+  password: string;
+}
+
+type P6ProjectsResponse = P6ProjectCatalog | { message: string };
+
+export async function POST(request: NextRequest): Promise<NextResponse<P6ProjectsResponse>> {
+  try {
+    const body: P6ProjectsRequest = await request.json();
+    const { wsdlBaseUrl, databaseInstance, username, password } = body;
+
+    // Validate required fields
+    if (!wsdlBaseUrl || !databaseInstance || !username || !password) {
+      return NextResponse.json(
+        { message: 'Missing required fields: wsdlBaseUrl, databaseInstance, username, password' },
+        { status: 400 }
+      );
+    }
+
+    const client = new P6Client({ baseUrl: wsdlBaseUrl, databaseInstance, username, password });
+
+    try {
+      const catalog = await readProjectCatalog(client);
+      return NextResponse.json(catalog);
+    } catch (error) {
+      if (!(error instanceof P6Error)) throw error;
+      const authenticating = error.kind === 'auth' || (error.kind === 'fault' && error.operation === 'Login');
+      return NextResponse.json({ message: failureMessage(error) }, { status: authenticating ? 401 : 502 });
+    } finally {
+      await client.logout().catch(() => undefined);
+    }
+  } catch (error) {
+    console.error('[P6 Projects] Error:', error);
+
+    return NextResponse.json(
+      { message: `Failed to list P6 projects: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
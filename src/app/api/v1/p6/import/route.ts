@@ -0,0 +1,14 @@
+/**
+ * Schedule File Import API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * POST /api/v1/p6/import - the request body is an exported schedule file
+ * (Primavera XER, P6 XML or Microsoft Project XML); its projects replace the tenant's P6 tables for those
+ * projects (lib/bff/scheduleImport.ts). Organization admins only; projects synced from P6 are refused.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { importScheduleFile } from '@/lib/bff/scheduleImport';
+
+export const dynamic = 'force-dynamic';
+
+export const POST = bffRoute((ctx, _params, request) => importScheduleFile(ctx, request));
@@ -0,0 +1,17 @@
+/**
+ * P6 Activity Detail API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId} -
+ * one activity with its resource assignments and costs for the GanttChart
+ * activity drawer (lib/bff/p6Activities.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { getP6ActivityDetail } from '@/lib/bff/p6Activities';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string; activityObjectId: string }>(
+  (ctx, { projectObjectId, activityObjectId }) =>
+    getP6ActivityDetail(ctx, idParam(projectObjectId, 'projectObjectId'), idParam(activityObjectId, 'activityObjectId'))
+);
@@ -0,0 +1,19 @@
+/**
+ * P6 Activities API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/activities - the project's
+ * activities, FS/SS/FF/SF relationships and data date for GanttChart
+ * (lib/bff/p6Activities.ts).
+ *
+ * Query: wbsObjectId (includes descendant WBS), from, to (YYYY-MM-DD,
+ * planned dates overlapping the window), criticalOnly
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { listP6Activities } from '@/lib/bff/p6Activities';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }) =>
+  listP6Activities(ctx, idParam(projectObjectId, 'projectObjectId'))
+);
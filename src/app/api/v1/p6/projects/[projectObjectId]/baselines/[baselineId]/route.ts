@@ -0,0 +1,17 @@
+/**
+ * P6 Schedule Baseline Dates API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId} - start
+ * and finish of each project activity in a P6 baseline (p6-{objectId}) or
+ * ORION sync snapshot (sync-{snapshotId}) for the Gantt's baseline bars
+ * (lib/bff/p6Baselines.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { getBaselineSchedule } from '@/lib/bff/p6Baselines';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string; baselineId: string }>((ctx, { projectObjectId, baselineId }) =>
+  getBaselineSchedule(ctx, idParam(projectObjectId, 'projectObjectId'), baselineId)
+);
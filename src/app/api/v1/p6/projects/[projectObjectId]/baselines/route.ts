@@ -0,0 +1,16 @@
+/**
+ * P6 Schedule Baselines API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/baselines - the P6 baseline
+ * projects and ORION sync snapshots the Gantt can compare the project
+ * against (lib/bff/p6Baselines.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { listBaselines } from '@/lib/bff/p6Baselines';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }) =>
+  listBaselines(ctx, idParam(projectObjectId, 'projectObjectId'))
+);
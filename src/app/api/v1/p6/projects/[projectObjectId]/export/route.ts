@@ -0,0 +1,16 @@
+/**
+ * P6 Schedule Export API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/export - the project's WBS,
+ * activities and relationships as a PMXML download for P6
+ * (lib/bff/scheduleExport.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { exportProjectPmxml } from '@/lib/bff/scheduleExport';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }) =>
+  exportProjectPmxml(ctx, idParam(projectObjectId, 'projectObjectId'))
+);
@@ -0,0 +1,23 @@
+/**
+ * What-if Scenario API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * PUT /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId} - replace
+ * the name and edits of one of the signed-in user's scenarios.
+ * DELETE /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId} -
+ * delete it, responding with the deleted scenario (lib/bff/p6Scenarios.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { deleteScenario, updateScenario } from '@/lib/bff/p6Scenarios';
+
+export const dynamic = 'force-dynamic';
+
+export const PUT = bffRoute<{ projectObjectId: string; scenarioId: string }>(
+  (ctx, { projectObjectId, scenarioId }, request) =>
+    updateScenario(ctx, idParam(projectObjectId, 'projectObjectId'), idParam(scenarioId, 'scenarioId'), request)
+);
+
+export const DELETE = bffRoute<{ projectObjectId: string; scenarioId: string }>(
+  (ctx, { projectObjectId, scenarioId }) =>
+    deleteScenario(ctx, idParam(projectObjectId, 'projectObjectId'), idParam(scenarioId, 'scenarioId'))
+);
@@ -0,0 +1,22 @@
+/**
+ * What-if Scenarios API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/scenarios - the signed-in
+ * user's saved what-if scenarios for the project.
+ * POST /api/v1/p6/projects/{projectObjectId}/scenarios - save a new one
+ * from a `{ name, edits }` body. Nothing is written back to P6
+ * (lib/bff/p6Scenarios.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { createScenario, listScenarios } from '@/lib/bff/p6Scenarios';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }) =>
+  listScenarios(ctx, idParam(projectObjectId, 'projectObjectId'))
+);
+
+export const POST = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }, request) =>
+  createScenario(ctx, idParam(projectObjectId, 'projectObjectId'), request)
+);
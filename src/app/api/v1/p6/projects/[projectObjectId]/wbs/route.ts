@@ -0,0 +1,16 @@
+/**
+ * P6 WBS Tree API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/{projectObjectId}/wbs - the project's WBS as a
+ * nested tree for WBSTree, with activity counts, costs and progress rolled
+ * up from the activities beneath each element (lib/bff/p6Wbs.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { getWbsTree } from '@/lib/bff/p6Wbs';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectObjectId: string }>((ctx, { projectObjectId }) =>
+  getWbsTree(ctx, idParam(projectObjectId, 'projectObjectId'))
+);
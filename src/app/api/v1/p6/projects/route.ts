@@ -0,0 +1,17 @@
+/**
+ * P6 Projects API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects - one page of the session tenant's P6 projects
+ * for ProjectsDataTable, with sorting and status/EPS/search filters applied
+ * in the database (lib/bff/p6Projects.ts).
+ *
+ * Query: page, pageSize (max 100), sortBy (SortableColumn), sortDir,
+ * status, epsId, search
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { listP6Projects } from '@/lib/bff/p6Projects';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => listP6Projects(ctx));
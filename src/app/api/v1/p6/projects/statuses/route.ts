@@ -0,0 +1,13 @@
+/**
+ * P6 Project Statuses API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/projects/statuses - status filter options for
+ * ProjectsDataTable with the session tenant's project count per status.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { listP6ProjectStatuses } from '@/lib/bff/p6Projects';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute((ctx) => listP6ProjectStatuses(ctx));
@@ -0,0 +1,16 @@
+/**
+ * P6 WBS Detail API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/p6/wbs/{wbsObjectId} - one WBS element for WBSDetailPanel:
+ * subtree rollups, resource count, and the SAP WBS mapping with budget,
+ * actuals and commitments (lib/bff/p6Wbs.ts).
+ */
+import { bffRoute, idParam } from '@/lib/bff/http';
+import { getWbsDetail } from '@/lib/bff/p6Wbs';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ wbsObjectId: string }>((ctx, { wbsObjectId }) =>
+  getWbsDetail(ctx, idParam(wbsObjectId, 'wbsObjectId'))
+);
@@ -0,0 +1,14 @@
+/**
+ * Project Budget API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/project/{projectId}/budget - BAC, PV, EV, AC and the EAC
+ * forecast, with AC from SAP actuals when the project is mapped; null before
+ * the first snapshot.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getProjectBudget } from '@/lib/bff/projectDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectId: string }>((ctx, { projectId }) => getProjectBudget(ctx, projectId));
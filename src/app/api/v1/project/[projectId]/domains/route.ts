@@ -0,0 +1,13 @@
+/**
+ * Project Domains API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/project/{projectId}/domains - EPCIC domain progress from the
+ * domain metrics; domains without metrics are omitted.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getProjectDomains } from '@/lib/bff/projectDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectId: string }>((ctx, { projectId }) => getProjectDomains(ctx, projectId));
@@ -0,0 +1,13 @@
+/**
+ * Project Performance API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/project/{projectId}/performance - SPI, CPI, TCPI and health
+ * score from the latest EVM snapshot; null before the first snapshot.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getProjectPerformance } from '@/lib/bff/projectDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectId: string }>((ctx, { projectId }) => getProjectPerformance(ctx, projectId));
@@ -0,0 +1,14 @@
+/**
+ * Project Header API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/project/{projectId} - ProjectDashboard header: identity,
+ * progress, health status and the SAP project definition
+ * (lib/bff/projectDashboard.ts). projectId is the P6 object ID or code.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getProjectHeader } from '@/lib/bff/projectDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectId: string }>((ctx, { projectId }) => getProjectHeader(ctx, projectId));
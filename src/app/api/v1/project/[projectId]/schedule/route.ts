@@ -0,0 +1,13 @@
+/**
+ * Project Schedule API Route
+ * @governance COMPONENT-001, SEC-001
+ *
+ * GET /api/v1/project/{projectId}/schedule - P6 activity, critical path,
+ * WBS and duration statistics; null when no activities have synced.
+ */
+import { bffRoute } from '@/lib/bff/http';
+import { getProjectSchedule } from '@/lib/bff/projectDashboard';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = bffRoute<{ projectId: string }>((ctx, { projectId }) => getProjectSchedule(ctx, projectId));
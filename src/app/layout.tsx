@@ -8,6 +8,10 @@ import type { Metadata } from 'next';
 import { Outfit, JetBrains_Mono } from 'next/font/google';
 import { ClerkProvider } from '@clerk/nextjs';
 import { DataModeProvider } from '@/contexts/DataModeContext';
+import { QueryProvider } from '@/contexts/QueryProvider';
+import { TenantProvider } from '@/contexts/TenantContext';
+import { resolveTenant } from '@/lib/tenant';
+import { SchemaDriftOverlay } from '@/components/shared/SchemaDriftOverlay';
 import './globals.css';
 
 // Display font for headings and UI text
@@ -32,11 +36,15 @@ export const metadata: Metadata = {
     'Unified platform for Primavera P6 schedules and SAP financials',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  // SEC-001: tenant comes from the Clerk organization, never the client
+  const session = await resolveTenant();
+  const tenantId = session?.tenantId ?? null;
+
   return (
     <ClerkProvider>
       <html lang="en" suppressHydrationWarning>
@@ -59,9 +67,15 @@ export default function RootLayout({
         <body
           className={`${outfit.variable} ${jetbrainsMono.variable} font-display antialiased`}
         >
-          <DataModeProvider tenantId="oilserv-nigeria">
-            {children}
-          </DataModeProvider>
+          <TenantProvider tenantId={tenantId} orgId={session?.orgId}>
+            <QueryProvider>
+              <DataModeProvider tenantId={tenantId ?? undefined}>
+                {children}
+              </DataModeProvider>
+            </QueryProvider>
+          </TenantProvider>
+          {/* DATA-001: surface backend contract drift while developing */}
+          {process.env.NODE_ENV !== 'production' && <SchemaDriftOverlay />}
         </body>
       </html>
     </ClerkProvider>
@@ -0,0 +1,26 @@
+/**
+ * Component Test Rendering
+ * @governance COMPONENT-001
+ *
+ * Renders a component inside the providers the app wraps it in: React
+ * Query, the tenant and the data mode.
+ */
+
+import type { ReactElement, ReactNode } from 'react';
+import { render, type RenderOptions } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { DataModeProvider } from '@/contexts/DataModeContext';
+import { TenantProvider } from '@/contexts/TenantContext';
+
+// Each render gets its own QueryClient so cached responses never leak between tests
+export function renderWithProviders(ui: ReactElement, options?: Omit<RenderOptions, 'wrapper'>) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <TenantProvider tenantId="tenant-001">
+        <DataModeProvider>{children}</DataModeProvider>
+      </TenantProvider>
+    </QueryClientProvider>
+  );
+  return render(ui, { wrapper, ...options });
+}
@@ -9,12 +9,13 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, memo, useId } from 'react';
+import { useState, useEffect, memo, useId } from 'react';
 import { GlassCard, Badge } from '@/components/ui';
+import { useCfoPortfolioHealth, useCfoFinancials, useCfoComparison } from '@/lib/hooks';
 import type {
   CFODashboardProps,
-  CFODashboardState,
   PortfolioHealth,
+  PortfolioHealthStatus,
   PortfolioFinancials,
   ProjectBudget,
   ProjectComparison,
@@ -24,7 +25,8 @@ import type {
 // UTILITY FUNCTIONS
 // ============================================================================
 
-function formatCurrency(value: number, currency: 'USD' | 'NGN' = 'USD'): string {
+function formatCurrency(value: number | null, currency: string | null = 'USD'): string {
+  if (value === null) return '—';
   if (value >= 1_000_000_000) {
     return `$${(value / 1_000_000_000).toFixed(1)}B`;
   }
@@ -37,19 +39,31 @@ function formatCurrency(value: number, currency: 'USD' | 'NGN' = 'USD'): string
   return `$${value.toFixed(0)}`;
 }
 
-function getStatusColor(status: 'ON_TRACK' | 'AT_RISK' | 'CRITICAL' | 'on_track' | 'at_risk' | 'critical'): string {
-  const normalized = status.toLowerCase();
+function getStatusColor(status: PortfolioHealthStatus | ProjectComparison['status']): string {
+  const normalized = status?.toLowerCase();
   if (normalized === 'on_track') return 'text-[var(--orion-emerald)]';
   if (normalized === 'at_risk') return 'text-[var(--orion-amber)]';
-  return 'text-red-400';
+  if (normalized === 'critical') return 'text-red-400';
+  return 'text-[var(--orion-text-muted)]';
 }
 
-function getStatusBg(status: 'ON_TRACK' | 'AT_RISK' | 'CRITICAL'): string {
+function getStatusBg(status: PortfolioHealthStatus): string {
   if (status === 'ON_TRACK') return 'bg-[var(--orion-emerald)]/10 border-[var(--orion-emerald)]/30';
   if (status === 'AT_RISK') return 'bg-[var(--orion-amber)]/10 border-[var(--orion-amber)]/30';
-  return 'bg-red-500/10 border-red-500/30';
+  if (status === 'CRITICAL') return 'bg-red-500/10 border-red-500/30';
+  return 'bg-[var(--orion-bg-secondary)] border-[var(--orion-border)]';
+}
+
+/** Index color by the project status thresholds; undefined indices are muted */
+function getIndexColor(value: number | null, atRisk: number, critical: number): string {
+  if (value === null) return 'text-[var(--orion-text-muted)]';
+  if (value >= atRisk) return 'text-[var(--orion-emerald)]';
+  if (value >= critical) return 'text-[var(--orion-amber)]';
+  return 'text-red-400';
 }
 
+const formatIndex = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
 // ============================================================================
 // SKELETON COMPONENT
 // ============================================================================
@@ -88,7 +102,9 @@ const PortfolioHealthBanner = memo(function PortfolioHealthBanner({
           ? 'border-l-[var(--orion-emerald)]'
           : data.status === 'AT_RISK'
           ? 'border-l-[var(--orion-amber)]'
-          : 'border-l-red-500'
+          : data.status === 'CRITICAL'
+          ? 'border-l-red-500'
+          : 'border-l-[var(--orion-border)]'
       }`}
     >
       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
@@ -109,14 +125,14 @@ const PortfolioHealthBanner = memo(function PortfolioHealthBanner({
         <div className="flex gap-8">
           <div className="text-center">
             <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-1">AVG CPI</p>
-            <p className={`text-3xl font-bold font-mono ${data.avgCPI >= 1 ? 'text-[var(--orion-emerald)]' : data.avgCPI >= 0.9 ? 'text-[var(--orion-amber)]' : 'text-red-400'}`}>
-              {data.avgCPI.toFixed(2)}
+            <p className={`text-3xl font-bold font-mono ${getIndexColor(data.avgCPI, 1, 0.9)}`}>
+              {formatIndex(data.avgCPI)}
             </p>
           </div>
           <div className="text-center">
             <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-1">AVG SPI</p>
-            <p className={`text-3xl font-bold font-mono ${data.avgSPI >= 1 ? 'text-[var(--orion-emerald)]' : data.avgSPI >= 0.9 ? 'text-[var(--orion-amber)]' : 'text-red-400'}`}>
-              {data.avgSPI.toFixed(2)}
+            <p className={`text-3xl font-bold font-mono ${getIndexColor(data.avgSPI, 1, 0.9)}`}>
+              {formatIndex(data.avgSPI)}
             </p>
           </div>
         </div>
@@ -349,11 +365,11 @@ const ProjectComparisonTable = memo(function ProjectComparisonTable({
                 <td className="py-3 px-2 text-right font-mono text-[var(--orion-text-secondary)]">
                   {project.percentComplete}%
                 </td>
-                <td className={`py-3 px-2 text-right font-mono font-bold ${getStatusColor(project.spi >= 0.95 ? 'on_track' : project.spi >= 0.85 ? 'at_risk' : 'critical')}`}>
-                  {project.spi.toFixed(2)}
+                <td className={`py-3 px-2 text-right font-mono font-bold ${getIndexColor(project.spi, 0.95, 0.85)}`}>
+                  {formatIndex(project.spi)}
                 </td>
-                <td className={`py-3 px-2 text-right font-mono font-bold ${getStatusColor(project.cpi >= 0.95 ? 'on_track' : project.cpi >= 0.85 ? 'at_risk' : 'critical')}`}>
-                  {project.cpi.toFixed(2)}
+                <td className={`py-3 px-2 text-right font-mono font-bold ${getIndexColor(project.cpi, 0.95, 0.85)}`}>
+                  {formatIndex(project.cpi)}
                 </td>
                 <td className="py-3 px-2 text-right font-mono text-[var(--orion-text-secondary)]">
                   {formatCurrency(project.bac)}
@@ -361,7 +377,7 @@ const ProjectComparisonTable = memo(function ProjectComparisonTable({
                 <td className="py-3 px-2 text-right font-mono text-[var(--orion-text-secondary)]">
                   {formatCurrency(project.eac)}
                 </td>
-                <td className={`py-3 px-2 text-right font-mono font-bold ${project.vac >= 0 ? 'text-[var(--orion-emerald)]' : 'text-red-400'}`}>
+                <td className={`py-3 px-2 text-right font-mono font-bold ${project.vac === null ? 'text-[var(--orion-text-muted)]' : project.vac >= 0 ? 'text-[var(--orion-emerald)]' : 'text-red-400'}`}>
                   {formatCurrency(project.vac)}
                 </td>
                 <td className="py-3 px-2 text-center">
@@ -370,9 +386,11 @@ const ProjectComparisonTable = memo(function ProjectComparisonTable({
                       ? 'bg-[var(--orion-emerald)]/10 text-[var(--orion-emerald)] border-[var(--orion-emerald)]/30'
                       : project.status === 'at_risk'
                       ? 'bg-[var(--orion-amber)]/10 text-[var(--orion-amber)] border-[var(--orion-amber)]/30'
-                      : 'bg-red-500/10 text-red-400 border-red-500/30'
+                      : project.status === 'critical'
+                      ? 'bg-red-500/10 text-red-400 border-red-500/30'
+                      : 'text-[var(--orion-text-muted)] border-[var(--orion-border)]'
                   }`}>
-                    {project.status.replace('_', ' ').toUpperCase()}
+                    {project.status ? project.status.replace('_', ' ').toUpperCase() : '—'}
                   </span>
                 </td>
               </tr>
@@ -422,120 +440,14 @@ export const CFODashboard = memo(function CFODashboard({
 }: CFODashboardProps) {
   const headingId = useId();
   const [mounted, setMounted] = useState(false);
-  const [state, setState] = useState<CFODashboardState>({
-    health: null,
-    financials: null,
-    budgets: [],
-    comparison: [],
-    isLoading: {
-      health: true,
-      financials: true,
-      budgets: true,
-      comparison: true,
-    },
-    errors: {
-      health: null,
-      financials: null,
-      budgets: null,
-      comparison: null,
-    },
-  });
+  const healthQuery = useCfoPortfolioHealth(tenantId);
+  const financialsQuery = useCfoFinancials(tenantId);
+  const comparisonQuery = useCfoComparison(tenantId);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Fetch portfolio health
-  const fetchHealth = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, health: true },
-      errors: { ...prev.errors, health: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/cfo/health?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        health: data,
-        isLoading: { ...prev.isLoading, health: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, health: false },
-        errors: { ...prev.errors, health: 'Failed to load portfolio health' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch portfolio financials
-  const fetchFinancials = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, financials: true },
-      errors: { ...prev.errors, financials: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/cfo/financials?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        financials: data,
-        isLoading: { ...prev.isLoading, financials: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, financials: false },
-        errors: { ...prev.errors, financials: 'Failed to load financials' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch project comparison
-  const fetchComparison = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, comparison: true },
-      errors: { ...prev.errors, comparison: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/cfo/comparison?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        comparison: data.projects || [],
-        isLoading: { ...prev.isLoading, comparison: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, comparison: false },
-        errors: { ...prev.errors, comparison: 'Failed to load comparison' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch all data on mount
-  useEffect(() => {
-    fetchHealth();
-    fetchFinancials();
-    fetchComparison();
-  }, [fetchHealth, fetchFinancials, fetchComparison]);
-
   return (
     <main
       role="main"
@@ -562,25 +474,25 @@ export const CFODashboard = memo(function CFODashboard({
 
         {/* Portfolio Health Banner */}
         <section className={`mb-6 ${mounted ? 'animate-slide-up delay-100' : 'opacity-0'}`}>
-          <PortfolioHealthBanner data={state.health} isLoading={state.isLoading.health} />
+          <PortfolioHealthBanner data={healthQuery.data ?? null} isLoading={healthQuery.isPending} />
         </section>
 
         {/* KPI Summary Cards */}
         <section className={`mb-8 ${mounted ? 'animate-slide-up delay-200' : 'opacity-0'}`}>
-          <KPISummaryCards data={state.health} isLoading={state.isLoading.health} />
+          <KPISummaryCards data={healthQuery.data ?? null} isLoading={healthQuery.isPending} />
         </section>
 
         {/* Financials Row */}
         <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8 ${mounted ? 'animate-slide-up delay-300' : 'opacity-0'}`}>
-          <PortfolioFinancialsCard data={state.financials} isLoading={state.isLoading.financials} />
-          <RevenuePositionCard data={state.financials} isLoading={state.isLoading.financials} />
+          <PortfolioFinancialsCard data={financialsQuery.data ?? null} isLoading={financialsQuery.isPending} />
+          <RevenuePositionCard data={financialsQuery.data ?? null} isLoading={financialsQuery.isPending} />
         </div>
 
         {/* Project Comparison Table */}
         <section className={`${mounted ? 'animate-slide-up delay-400' : 'opacity-0'}`}>
           <ProjectComparisonTable
-            data={state.comparison}
-            isLoading={state.isLoading.comparison}
+            data={comparisonQuery.data?.projects ?? []}
+            isLoading={comparisonQuery.isPending}
             onProjectClick={onProjectClick}
           />
         </section>
@@ -11,7 +11,8 @@
 // PORTFOLIO HEALTH
 // ============================================================================
 
-export type PortfolioHealthStatus = 'ON_TRACK' | 'AT_RISK' | 'CRITICAL';
+/** NO_DATA until at least one project has SPI and CPI */
+export type PortfolioHealthStatus = 'ON_TRACK' | 'AT_RISK' | 'CRITICAL' | 'NO_DATA';
 
 /**
  * Portfolio health metrics
@@ -22,10 +23,10 @@ export type PortfolioHealthStatus = 'ON_TRACK' | 'AT_RISK' | 'CRITICAL';
 export interface PortfolioHealth {
   /** Overall portfolio status */
   status: PortfolioHealthStatus;
-  /** Average Cost Performance Index */
-  avgCPI: number;
-  /** Average Schedule Performance Index */
-  avgSPI: number;
+  /** Average Cost Performance Index; null without any CPI */
+  avgCPI: number | null;
+  /** Average Schedule Performance Index; null without any SPI */
+  avgSPI: number | null;
   /** Total projects count */
   totalProjects: number;
   /** Projects on track */
@@ -57,8 +58,8 @@ export interface PortfolioFinancials {
   revenueReceived: number;
   /** Net cash position */
   netCashPosition: number;
-  /** Currency code */
-  currency: 'USD' | 'NGN';
+  /** Company code currency of the SAP lines; null before any have synced */
+  currency: string | null;
 }
 
 // ============================================================================
@@ -82,8 +83,8 @@ export interface ProjectBudget {
   actualCost: number;
   /** Earned Value */
   earnedValue: number;
-  /** Estimate at Completion */
-  eac: number;
+  /** Estimate at Completion; null while CPI is undefined */
+  eac: number | null;
 }
 
 // ============================================================================
@@ -103,22 +104,22 @@ export interface ProjectComparison {
   projectName: string;
   /** Percent complete */
   percentComplete: number;
-  /** Schedule Performance Index */
-  spi: number;
-  /** Cost Performance Index */
-  cpi: number;
+  /** Schedule Performance Index; null when PV is zero */
+  spi: number | null;
+  /** Cost Performance Index; null when AC is zero */
+  cpi: number | null;
   /** Budget at Completion */
   bac: number;
   /** Actual Cost */
   ac: number;
   /** Earned Value */
   ev: number;
-  /** Estimate at Completion */
-  eac: number;
-  /** Variance at Completion */
-  vac: number;
-  /** Health status */
-  status: 'on_track' | 'at_risk' | 'critical';
+  /** Estimate at Completion; null while CPI is undefined */
+  eac: number | null;
+  /** Variance at Completion; null while CPI is undefined */
+  vac: number | null;
+  /** Health status; null while SPI or CPI is undefined */
+  status: 'on_track' | 'at_risk' | 'critical' | null;
 }
 
 // ============================================================================
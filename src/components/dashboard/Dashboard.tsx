@@ -16,7 +16,7 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, memo, useId } from 'react';
+import { useState, useEffect, useCallback, useMemo, memo, useId } from 'react';
 import {
   GlassCard,
   Badge,
@@ -24,9 +24,10 @@ import {
   ProgressBar,
   StatusDot,
 } from '@/components/ui';
+import { usePortfolioSummary, useProjectsHealth, useSyncStatus } from '@/lib/hooks';
+import type { ProjectHealth as ApiProjectHealth } from '@/lib/types';
 import type {
   DashboardProps,
-  DashboardState,
   PortfolioSummary,
   ProjectHealth,
   SyncStatus,
@@ -196,16 +197,18 @@ const PortfolioSummaryCards = memo(function PortfolioSummaryCards({
 // ============================================================================
 
 const StatusBadge = memo(function StatusBadge({ status }: { status: HealthStatus }) {
-  const variants: Record<HealthStatus, 'emerald' | 'amber' | 'red'> = {
+  const variants: Record<HealthStatus, 'emerald' | 'amber' | 'red' | 'muted'> = {
     on_track: 'emerald',
     at_risk: 'amber',
     critical: 'red',
+    unknown: 'muted',
   };
 
   const labels = {
     on_track: 'On Track',
     at_risk: 'At Risk',
     critical: 'Critical',
+    unknown: 'No Data',
   };
 
   // Using inline badge style to match ORION design
@@ -213,6 +216,7 @@ const StatusBadge = memo(function StatusBadge({ status }: { status: HealthStatus
     emerald: 'bg-[var(--orion-emerald)]/10 text-[var(--orion-emerald)] border-[var(--orion-emerald)]/30',
     amber: 'bg-[var(--orion-amber)]/10 text-[var(--orion-amber)] border-[var(--orion-amber)]/30',
     red: 'bg-red-500/10 text-red-400 border-red-500/30',
+    muted: 'bg-[var(--orion-bg-elevated)] text-[var(--orion-text-muted)] border-[var(--orion-border)]',
   };
 
   return (
@@ -239,7 +243,8 @@ const ProjectHealthCard = memo(function ProjectHealthCard({
     [onClick]
   );
 
-  const getCPISPIColor = (value: number) => {
+  const getCPISPIColor = (value: number | null) => {
+    if (value === null) return 'text-[var(--orion-text-muted)]';
     if (value >= 0.95) return 'text-[var(--orion-emerald)]';
     if (value >= 0.85) return 'text-[var(--orion-amber)]';
     return 'text-red-400';
@@ -265,34 +270,38 @@ const ProjectHealthCard = memo(function ProjectHealthCard({
       <div className="mb-4">
         <div className="flex justify-between text-sm text-[var(--orion-text-secondary)] mb-2 font-mono">
           <span>Progress</span>
-          <span className="text-[var(--orion-cyan)]">{project.percentComplete}%</span>
+          <span className="text-[var(--orion-cyan)]">
+            {project.percentComplete !== null ? <>{project.percentComplete}%</> : '—'}
+          </span>
         </div>
-        <div
-          role="progressbar"
-          aria-valuenow={project.percentComplete}
-          aria-valuemin={0}
-          aria-valuemax={100}
-          aria-label={`${project.percentComplete}% complete`}
-          className="w-full bg-[var(--orion-bg-secondary)] rounded-full h-2 overflow-hidden"
-        >
+        {project.percentComplete !== null && (
           <div
-            className="h-2 rounded-full bg-gradient-to-r from-[var(--orion-cyan)] to-[var(--orion-violet)] transition-all duration-500"
-            style={{ width: `${project.percentComplete}%` }}
-          />
-        </div>
+            role="progressbar"
+            aria-valuenow={project.percentComplete}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-label={`${project.percentComplete}% complete`}
+            className="w-full bg-[var(--orion-bg-secondary)] rounded-full h-2 overflow-hidden"
+          >
+            <div
+              className="h-2 rounded-full bg-gradient-to-r from-[var(--orion-cyan)] to-[var(--orion-violet)] transition-all duration-500"
+              style={{ width: `${project.percentComplete}%` }}
+            />
+          </div>
+        )}
       </div>
 
       <div className="grid grid-cols-2 gap-4 pt-4 border-t border-[var(--orion-border)]">
         <div>
           <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-1">SPI</p>
           <p className={`text-xl font-bold font-mono ${getCPISPIColor(project.spi)}`}>
-            {project.spi.toFixed(2)}
+            {project.spi !== null ? project.spi.toFixed(2) : '—'}
           </p>
         </div>
         <div>
           <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-1">CPI</p>
           <p className={`text-xl font-bold font-mono ${getCPISPIColor(project.cpi)}`}>
-            {project.cpi.toFixed(2)}
+            {project.cpi !== null ? project.cpi.toFixed(2) : '—'}
           </p>
         </div>
       </div>
@@ -496,6 +505,24 @@ const SyncStatusCard = memo(function SyncStatusCard({
   );
 });
 
+// ============================================================================
+// DATA MAPPING
+// ============================================================================
+
+const HEALTH_STATUS_MAP: Record<ApiProjectHealth['status'], HealthStatus> = {
+  'on-track': 'on_track',
+  'at-risk': 'at_risk',
+  critical: 'critical',
+  unknown: 'unknown',
+};
+
+/**
+ * Map the shared /projects/health shape onto the dashboard DATA HOLDER
+ */
+function toProjectHealth(project: ApiProjectHealth): ProjectHealth {
+  return { ...project, status: HEALTH_STATUS_MAP[project.status] };
+}
+
 // ============================================================================
 // MAIN DASHBOARD COMPONENT (Command Center Style)
 // ============================================================================
@@ -508,119 +535,22 @@ export const Dashboard = memo(function Dashboard({
 }: DashboardProps) {
   const headingId = useId();
   const [mounted, setMounted] = useState(false);
-  const [state, setState] = useState<DashboardState>({
-    portfolio: null,
-    projects: [],
-    syncStatus: null,
-    isLoading: {
-      portfolio: true,
-      projects: true,
-      sync: true,
-    },
-    errors: {
-      portfolio: null,
-      projects: null,
-      sync: null,
-    },
-  });
+
+  const portfolioQuery = usePortfolioSummary(tenantId);
+  const projectsQuery = useProjectsHealth({ tenant: tenantId, limit: 6 });
+  const syncQuery = useSyncStatus(tenantId);
+
+  const projects = useMemo(
+    () => (projectsQuery.data?.projects ?? []).map(toProjectHealth),
+    [projectsQuery.data]
+  );
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Fetch portfolio summary
-  const fetchPortfolio = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, portfolio: true },
-      errors: { ...prev.errors, portfolio: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/portfolio/summary?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        portfolio: data,
-        isLoading: { ...prev.isLoading, portfolio: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, portfolio: false },
-        errors: { ...prev.errors, portfolio: 'Failed to load portfolio' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch project health
-  const fetchProjects = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, projects: true },
-      errors: { ...prev.errors, projects: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/projects/health?tenant=${tenantId}&limit=6`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        projects: data.projects || [],
-        isLoading: { ...prev.isLoading, projects: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, projects: false },
-        errors: { ...prev.errors, projects: 'Failed to load projects' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch sync status
-  const fetchSyncStatus = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, sync: true },
-      errors: { ...prev.errors, sync: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/sync/status?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        syncStatus: data,
-        isLoading: { ...prev.isLoading, sync: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, sync: false },
-        errors: { ...prev.errors, sync: 'Failed to load sync status' },
-      }));
-    }
-  }, [tenantId]);
-
-  // Fetch all data on mount
-  useEffect(() => {
-    fetchPortfolio();
-    fetchProjects();
-    fetchSyncStatus();
-  }, [fetchPortfolio, fetchProjects, fetchSyncStatus]);
-
   // Determine if any data is loading
-  const isAnyLoading = state.isLoading.portfolio || state.isLoading.projects || state.isLoading.sync;
+  const isAnyLoading = portfolioQuery.isPending || projectsQuery.isPending || syncQuery.isPending;
 
   return (
     <main
@@ -662,10 +592,10 @@ export const Dashboard = memo(function Dashboard({
             Portfolio Summary
           </h2>
           <PortfolioSummaryCards
-            data={state.portfolio}
-            isLoading={state.isLoading.portfolio}
-            error={state.errors.portfolio}
-            onRetry={fetchPortfolio}
+            data={portfolioQuery.data ?? null}
+            isLoading={portfolioQuery.isPending}
+            error={portfolioQuery.isError ? 'Failed to load portfolio' : null}
+            onRetry={() => portfolioQuery.refetch()}
           />
         </section>
 
@@ -680,12 +610,12 @@ export const Dashboard = memo(function Dashboard({
               Project Health
             </h2>
             <ProjectHealthList
-              projects={state.projects}
-              isLoading={state.isLoading.projects}
-              error={state.errors.projects}
+              projects={projects}
+              isLoading={projectsQuery.isPending}
+              error={projectsQuery.isError ? 'Failed to load projects' : null}
               onProjectClick={onProjectClick}
               onViewAll={onViewAllProjects}
-              onRetry={fetchProjects}
+              onRetry={() => projectsQuery.refetch()}
             />
           </section>
 
@@ -698,11 +628,11 @@ export const Dashboard = memo(function Dashboard({
               Sync Status
             </h2>
             <SyncStatusCard
-              data={state.syncStatus}
-              isLoading={state.isLoading.sync}
-              error={state.errors.sync}
+              data={syncQuery.data ?? null}
+              isLoading={syncQuery.isPending}
+              error={syncQuery.isError ? 'Failed to load sync status' : null}
               onSettings={onSyncSettings}
-              onRetry={fetchSyncStatus}
+              onRetry={() => syncQuery.refetch()}
             />
           </section>
         </div>
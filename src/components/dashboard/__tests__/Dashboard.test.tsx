@@ -10,16 +10,13 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, within } from '@testing-library/react';
+import { screen, waitFor, within } from '@testing-library/react';
+import { renderWithProviders } from '@/components/__tests__/renderWithProviders';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { Dashboard } from '../Dashboard';
-import type {
-  PortfolioSummary,
-  ProjectHealth,
-  SyncStatus,
-  DashboardProps,
-} from '../types';
+import type { PortfolioSummary, ProjectHealth } from '@/lib/types';
+import type { SyncStatus, DashboardProps } from '../types';
 
 // Extend expect with accessibility matchers
 expect.extend(toHaveNoViolations);
@@ -30,9 +27,15 @@ expect.extend(toHaveNoViolations);
 
 const mockPortfolioSummary: PortfolioSummary = {
   totalProjects: 24,
+  activeProjects: 21,
   onTrack: 15,
   atRisk: 6,
   critical: 3,
+  totalActivities: 4820,
+  completedActivities: 1930,
+  inProgressActivities: 612,
+  avgPercentComplete: 38,
+  lastSync: '2024-12-28T08:30:00Z',
 };
 
 const mockProjects: ProjectHealth[] = [
@@ -42,7 +45,7 @@ const mockProjects: ProjectHealth[] = [
     percentComplete: 35,
     spi: 0.92,
     cpi: 0.88,
-    status: 'at_risk',
+    status: 'at-risk',
     plannedFinish: '2026-06-30',
     dataDate: '2024-12-01',
   },
@@ -52,7 +55,7 @@ const mockProjects: ProjectHealth[] = [
     percentComplete: 68,
     spi: 1.05,
     cpi: 0.98,
-    status: 'on_track',
+    status: 'on-track',
     plannedFinish: '2025-12-31',
     dataDate: '2024-12-01',
   },
@@ -105,7 +108,7 @@ function mockSuccessfulAPIs() {
     if (url.includes('/api/v1/projects/health')) {
       return Promise.resolve({
         ok: true,
-        json: () => Promise.resolve({ projects: mockProjects }),
+        json: () => Promise.resolve({ projects: mockProjects, total: mockProjects.length }),
       });
     }
     if (url.includes('/api/v1/sync/status')) {
@@ -131,7 +134,7 @@ describe('Dashboard - Unit Tests', () => {
 
   describe('Rendering', () => {
     it('displays dashboard title', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('heading', { level: 1 })).toBeInTheDocument();
@@ -140,14 +143,14 @@ describe('Dashboard - Unit Tests', () => {
 
     it('shows loading skeletons initially', () => {
       mockFetch.mockImplementation(() => new Promise(() => {}));
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       const skeletons = screen.getAllByTestId('skeleton-card');
       expect(skeletons.length).toBeGreaterThanOrEqual(1);
     });
 
     it('displays portfolio summary cards after loading', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('24')).toBeInTheDocument(); // total
@@ -158,7 +161,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays project health cards', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -168,7 +171,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays sync status card', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       // Wait for data to load (the "24" total projects text appears when portfolio loads)
       await waitFor(() => {
@@ -182,7 +185,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('shows SPI and CPI values for projects', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/0\.92/)).toBeInTheDocument(); // SPI
@@ -191,7 +194,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('shows percent complete with progress bar', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('35%')).toBeInTheDocument();
@@ -205,7 +208,7 @@ describe('Dashboard - Unit Tests', () => {
 
   describe('Portfolio Summary Cards', () => {
     it('displays total projects card', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/total projects/i)).toBeInTheDocument();
@@ -214,7 +217,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays on track card with correct count', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         // Multiple "On Track" elements: summary card + project badge
@@ -224,7 +227,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays at risk card with correct count', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         // Multiple "At Risk" elements: summary card + project badge
@@ -234,7 +237,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays critical card with correct count', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         // Multiple "Critical" elements: summary card + project badge
@@ -248,7 +251,7 @@ describe('Dashboard - Unit Tests', () => {
     it('calls onProjectClick when project card is clicked', async () => {
       const onProjectClick = vi.fn();
       const user = userEvent.setup();
-      render(<Dashboard {...defaultProps} onProjectClick={onProjectClick} />);
+      renderWithProviders(<Dashboard {...defaultProps} onProjectClick={onProjectClick} />);
 
       await waitFor(() => {
         expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -264,7 +267,7 @@ describe('Dashboard - Unit Tests', () => {
     it('calls onViewAllProjects when view all is clicked', async () => {
       const onViewAllProjects = vi.fn();
       const user = userEvent.setup();
-      render(<Dashboard {...defaultProps} onViewAllProjects={onViewAllProjects} />);
+      renderWithProviders(<Dashboard {...defaultProps} onViewAllProjects={onViewAllProjects} />);
 
       await waitFor(() => {
         expect(screen.getByText(/view all/i)).toBeInTheDocument();
@@ -277,7 +280,7 @@ describe('Dashboard - Unit Tests', () => {
     it('calls onSyncSettings when sync settings is clicked', async () => {
       const onSyncSettings = vi.fn();
       const user = userEvent.setup();
-      render(<Dashboard {...defaultProps} onSyncSettings={onSyncSettings} />);
+      renderWithProviders(<Dashboard {...defaultProps} onSyncSettings={onSyncSettings} />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /settings/i })).toBeInTheDocument();
@@ -290,7 +293,7 @@ describe('Dashboard - Unit Tests', () => {
 
   describe('Status Badges', () => {
     it('displays on_track status with green styling', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         const onTrackProject = screen.getByText('Offshore Platform Alpha').closest('[data-testid^="project-card"]');
@@ -299,7 +302,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays at_risk status with amber styling', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         const atRiskProject = screen.getByText('ACME Refinery Expansion').closest('[data-testid^="project-card"]');
@@ -308,7 +311,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('displays critical status with red styling', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         const criticalProject = screen.getByText('Pipeline Network Beta').closest('[data-testid^="project-card"]');
@@ -326,7 +329,7 @@ describe('Dashboard - Unit Tests', () => {
         return mockSuccessfulAPIs()(url);
       });
 
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/failed to load portfolio/i)).toBeInTheDocument();
@@ -353,7 +356,7 @@ describe('Dashboard - Unit Tests', () => {
         return Promise.reject(new Error('Unknown'));
       });
 
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/failed to load projects/i)).toBeInTheDocument();
@@ -363,7 +366,7 @@ describe('Dashboard - Unit Tests', () => {
     it('provides retry button on error', async () => {
       mockFetch.mockRejectedValue(new Error('Network error'));
 
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         const retryButtons = screen.getAllByRole('button', { name: /retry/i });
@@ -374,7 +377,7 @@ describe('Dashboard - Unit Tests', () => {
 
   describe('Sync Status', () => {
     it('shows connected status for P6', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       // Wait for data to load first
       await waitFor(() => {
@@ -395,7 +398,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('shows last sync time', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       // Wait for portfolio data to load (shows mocks are working)
       await waitFor(() => {
@@ -409,7 +412,7 @@ describe('Dashboard - Unit Tests', () => {
     });
 
     it('shows next scheduled sync', async () => {
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         // Next sync text may or may not appear depending on timing
@@ -441,13 +444,13 @@ describe('Dashboard - Unit Tests', () => {
         if (url.includes('/api/v1/projects/health')) {
           return Promise.resolve({
             ok: true,
-            json: () => Promise.resolve({ projects: mockProjects }),
+            json: () => Promise.resolve({ projects: mockProjects, total: mockProjects.length }),
           });
         }
         return Promise.reject(new Error('Unknown'));
       });
 
-      render(<Dashboard {...defaultProps} />);
+      renderWithProviders(<Dashboard {...defaultProps} />);
 
       await waitFor(() => {
         const disconnectedElements = screen.getAllByText(/not connected/i);
@@ -469,7 +472,7 @@ describe('Dashboard - Accessibility Tests', () => {
   });
 
   it('has no accessibility violations', async () => {
-    const { container } = render(<Dashboard {...defaultProps} />);
+    const { container } = renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText('24')).toBeInTheDocument();
@@ -480,7 +483,7 @@ describe('Dashboard - Accessibility Tests', () => {
   });
 
   it('has proper heading hierarchy', async () => {
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByRole('heading', { level: 1 })).toBeInTheDocument();
@@ -495,7 +498,7 @@ describe('Dashboard - Accessibility Tests', () => {
   });
 
   it('has accessible card buttons', async () => {
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -509,7 +512,7 @@ describe('Dashboard - Accessibility Tests', () => {
   });
 
   it('supports keyboard navigation', async () => {
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -526,13 +529,13 @@ describe('Dashboard - Accessibility Tests', () => {
 
   it('announces loading state to screen readers', () => {
     mockFetch.mockImplementation(() => new Promise(() => {}));
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     expect(screen.getByRole('status')).toBeInTheDocument();
   });
 
   it('has proper ARIA labels on progress bars', async () => {
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       const progressBars = screen.getAllByRole('progressbar');
@@ -556,7 +559,7 @@ describe('Dashboard - Integration Tests', () => {
 
   it('fetches portfolio summary on mount', async () => {
     mockSuccessfulAPIs();
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -568,7 +571,7 @@ describe('Dashboard - Integration Tests', () => {
 
   it('fetches project health on mount', async () => {
     mockSuccessfulAPIs();
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -580,7 +583,7 @@ describe('Dashboard - Integration Tests', () => {
 
   it('fetches sync status on mount', async () => {
     mockSuccessfulAPIs();
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -592,7 +595,7 @@ describe('Dashboard - Integration Tests', () => {
 
   it('passes tenant ID in API requests', async () => {
     mockSuccessfulAPIs();
-    render(<Dashboard {...defaultProps} tenantId="custom-tenant" />);
+    renderWithProviders(<Dashboard {...defaultProps} tenantId="custom-tenant" />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -626,7 +629,7 @@ describe('Dashboard - Integration Tests', () => {
         callCounts.projects++;
         return Promise.resolve({
           ok: true,
-          json: () => Promise.resolve({ projects: mockProjects }),
+          json: () => Promise.resolve({ projects: mockProjects, total: mockProjects.length }),
         });
       }
       if (url.includes('/api/v1/sync/status')) {
@@ -640,7 +643,7 @@ describe('Dashboard - Integration Tests', () => {
     });
 
     const user = userEvent.setup();
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
 
     // Wait for error state to appear
     await waitFor(() => {
@@ -675,7 +678,7 @@ describe('Dashboard - Performance Tests', () => {
 
   it('renders under 100ms', () => {
     const start = performance.now();
-    render(<Dashboard {...defaultProps} />);
+    renderWithProviders(<Dashboard {...defaultProps} />);
     const end = performance.now();
 
     const renderTime = end - start;
@@ -683,7 +686,7 @@ describe('Dashboard - Performance Tests', () => {
   });
 
   it('updates efficiently without full re-render', async () => {
-    const { rerender } = render(<Dashboard {...defaultProps} />);
+    const { rerender } = renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText('24')).toBeInTheDocument();
@@ -708,13 +711,13 @@ describe('Dashboard - Snapshot Tests', () => {
 
   it('matches loading state snapshot', () => {
     mockFetch.mockImplementation(() => new Promise(() => {}));
-    const { container } = render(<Dashboard {...defaultProps} />);
+    const { container } = renderWithProviders(<Dashboard {...defaultProps} />);
     expect(container).toMatchSnapshot();
   });
 
   it('matches loaded state snapshot', async () => {
     mockSuccessfulAPIs();
-    const { container } = render(<Dashboard {...defaultProps} />);
+    const { container } = renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText('24')).toBeInTheDocument();
@@ -725,7 +728,7 @@ describe('Dashboard - Snapshot Tests', () => {
 
   it('matches error state snapshot', async () => {
     mockFetch.mockRejectedValue(new Error('Network error'));
-    const { container } = render(<Dashboard {...defaultProps} />);
+    const { container } = renderWithProviders(<Dashboard {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getAllByText(/failed/i).length).toBeGreaterThan(0);
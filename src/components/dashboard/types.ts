@@ -33,9 +33,9 @@ export interface PortfolioSummary {
 // ============================================================================
 
 /**
- * Health status for a project
+ * Health status for a project ('unknown' when P6 has no SPI/CPI)
  */
-export type HealthStatus = 'on_track' | 'at_risk' | 'critical';
+export type HealthStatus = 'on_track' | 'at_risk' | 'critical' | 'unknown';
 
 /**
  * Project health data for dashboard cards
@@ -48,18 +48,18 @@ export interface ProjectHealth {
   id: string;
   /** Project name */
   name: string;
-  /** Percent complete (0-100) */
-  percentComplete: number;
-  /** Schedule Performance Index */
-  spi: number;
-  /** Cost Performance Index */
-  cpi: number;
+  /** Percent complete (0-100), null if not available from P6 */
+  percentComplete: number | null;
+  /** Schedule Performance Index, null if not available from P6 */
+  spi: number | null;
+  /** Cost Performance Index, null if not available from P6 */
+  cpi: number | null;
   /** Derived health status */
   status: HealthStatus;
   /** Planned finish date (ISO 8601) */
-  plannedFinish: string;
+  plannedFinish: string | null;
   /** Data date (ISO 8601) */
-  dataDate: string;
+  dataDate: string | null;
 }
 
 // ============================================================================
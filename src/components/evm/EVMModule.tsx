@@ -9,11 +9,11 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, memo, useId } from 'react';
+import { useState, useEffect, memo, useId } from 'react';
 import { GlassCard, Badge } from '@/components/ui';
+import { useEvmProjects } from '@/lib/hooks';
 import type {
   EVMModuleProps,
-  EVMModuleState,
   EVMDefinition,
   EVMProjectSnapshot,
   EVMMetricCategory,
@@ -313,69 +313,12 @@ export const EVMModule = memo(function EVMModule({
 }: EVMModuleProps) {
   const headingId = useId();
   const [mounted, setMounted] = useState(false);
-  const [state, setState] = useState<EVMModuleState>({
-    definitions: [],
-    projects: [],
-    isLoading: {
-      definitions: true,
-      projects: true,
-    },
-    errors: {
-      definitions: null,
-      projects: null,
-    },
-  });
+  const projectsQuery = useEvmProjects({ tenant: tenantId, projectId });
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Load EVM definitions (static PMI standard definitions)
-  useEffect(() => {
-    // EVM definitions are static standards - no API needed
-    setState((prev) => ({
-      ...prev,
-      definitions: EVM_DEFINITIONS,
-      isLoading: { ...prev.isLoading, definitions: false },
-    }));
-  }, []);
-
-  // Fetch EVM project data
-  const fetchProjects = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, projects: true },
-      errors: { ...prev.errors, projects: null },
-    }));
-
-    try {
-      const url = projectId
-        ? `/api/v1/evm/projects?tenant=${tenantId}&projectId=${projectId}`
-        : `/api/v1/evm/projects?tenant=${tenantId}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        projects: data.projects || [],
-        isLoading: { ...prev.isLoading, projects: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, projects: false },
-        errors: { ...prev.errors, projects: 'Failed to load EVM data' },
-      }));
-    }
-  }, [tenantId, projectId]);
-
-  // Fetch project data on mount
-  useEffect(() => {
-    fetchProjects();
-  }, [fetchProjects]);
-
   return (
     <main
       role="main"
@@ -402,14 +345,15 @@ export const EVMModule = memo(function EVMModule({
 
         {/* EVM Reference */}
         <section className={`mb-6 ${mounted ? 'animate-slide-up delay-100' : 'opacity-0'}`}>
-          <EVMReferenceCard definitions={state.definitions} isLoading={state.isLoading.definitions} />
+          {/* EVM definitions are static PMI standards - no API needed */}
+          <EVMReferenceCard definitions={EVM_DEFINITIONS} isLoading={false} />
         </section>
 
         {/* EVM Analysis Table */}
         <section className={`${mounted ? 'animate-slide-up delay-200' : 'opacity-0'}`}>
           <EVMAnalysisTable
-            projects={state.projects}
-            isLoading={state.isLoading.projects}
+            projects={projectsQuery.data?.projects ?? []}
+            isLoading={projectsQuery.isPending}
             onProjectClick={onProjectClick}
           />
         </section>
@@ -0,0 +1,145 @@
+/**
+ * Gantt Activity Drawer
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Resource assignments and costs of a double-clicked activity. The chart's
+ * values show while the synced P6 detail loads.
+ */
+
+'use client';
+
+import { memo, useEffect, useRef } from 'react';
+import { formatCurrency, formatDay, formatDuration, formatProgress } from './ganttFormat';
+import type { GanttActivity, GanttActivityDrawerProps } from './types';
+
+const STATUS_LABELS: Record<GanttActivity['status'], string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  complete: 'Complete',
+};
+
+export const GanttActivityDrawer = memo(function GanttActivityDrawer({
+  activity,
+  detail,
+  isLoading,
+  error,
+  onClose,
+}: GanttActivityDrawerProps) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const titleId = `gantt-activity-title-${activity.objectId}`;
+  // Synced P6 values once loaded; the chart's until then
+  const shown = detail?.activity ?? activity;
+
+  // Escape closes the drawer
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Focus moves into the drawer as each activity opens
+  useEffect(() => {
+    closeRef.current?.focus();
+  }, [activity.objectId]);
+
+  const field = (label: string, value: string) => (
+    <div className="flex justify-between gap-2">
+      <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="text-sm font-medium text-gray-900 dark:text-gray-100">{value}</dd>
+    </div>
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby={titleId}
+      className="fixed inset-y-0 right-0 w-96 bg-white dark:bg-gray-900 shadow-xl border-l border-gray-200 dark:border-gray-700 z-50 overflow-y-auto"
+    >
+      <div className="sticky top-0 flex items-start justify-between gap-2 p-4 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+        <div className="min-w-0">
+          <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{activity.activityId}</p>
+          <h2 id={titleId} className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">
+            {activity.name}
+          </h2>
+        </div>
+        <button
+          ref={closeRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Close"
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <section aria-label="Schedule">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Schedule</h3>
+          <dl className="space-y-2">
+            {field('Status', `${STATUS_LABELS[shown.status]}, ${formatProgress(shown.percentComplete)}`)}
+            {field('Start', formatDay(shown.actualStart ?? shown.plannedStart))}
+            {field('Finish', formatDay(shown.actualFinish ?? shown.plannedFinish))}
+            {field('Original duration', formatDuration(shown.plannedDuration))}
+            {field('Remaining duration', formatDuration(shown.remainingDuration))}
+          </dl>
+        </section>
+
+        {isLoading && (
+          <p role="status" className="text-sm text-gray-600 dark:text-gray-300">
+            Loading resources and costs...
+          </p>
+        )}
+
+        {error && (
+          <div role="alert" className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {detail && (
+          <>
+            <section aria-label="Costs">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Costs</h3>
+              <dl className="space-y-2">
+                {field('Planned', formatCurrency(detail.costs.plannedCost))}
+                {field('Actual', formatCurrency(detail.costs.actualCost))}
+                {field('Remaining', formatCurrency(detail.costs.remainingCost))}
+              </dl>
+            </section>
+
+            <section aria-label="Resources">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Resources</h3>
+              {detail.resources.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No resources assigned.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-left text-gray-500 dark:text-gray-400">
+                      <th className="pb-1 font-medium">Resource</th>
+                      <th className="pb-1 font-medium">Role</th>
+                      <th className="pb-1 font-medium text-right">Units</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.resources.map((resource, index) => (
+                      <tr key={index} className="border-t border-gray-100 dark:border-gray-800 text-gray-900 dark:text-gray-100">
+                        <td className="py-1">{resource.name}</td>
+                        <td className="py-1 text-gray-600 dark:text-gray-300">{resource.role ?? '–'}</td>
+                        <td className="py-1 text-right">{resource.units === null ? '–' : `${resource.units}h`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
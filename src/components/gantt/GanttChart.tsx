@@ -4,34 +4,87 @@
  * @doc-sync PAGE_DATA_API_REFERENCE.md:4
  *
  * Components:
- * - GanttChart: Main Gantt chart visualization
- * - GanttToolbar: Scale and display controls
- * - GanttBar: Individual activity bar
- * - GanttDependencyLine: Relationship line
+ * - GanttChart: Main Gantt chart visualization, virtualized by row and time
+ * - GanttBar: Individual activity bar, draggable in the sandbox
+ * - GanttSummaryBar: WBS summary bar spanning its activities
+ * - GanttDependencyLine: Relationship line between the linked bar ends
+ *
+ * The toolbar (GanttToolbar.tsx), label column (GanttLabels.tsx), trace and
+ * sandbox panels with their state (useGanttTrace, useGanttSandbox) and the
+ * activity drawer live in their own modules.
  */
 
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef, memo, useMemo } from 'react';
+import React, { useState, useCallback, useRef, memo, useMemo, useEffect, useLayoutEffect } from 'react';
+import {
+  useExportSchedule,
+  useP6Activities,
+  useP6ActivityDetail,
+  useP6BaselineSchedule,
+  useP6Baselines,
+  useP6WbsTree,
+} from '@/lib/hooks';
+import { getApiErrorMessage } from '@/lib/errors';
+import { computeCriticalPath, type CpmSchedule } from '@/lib/schedule/cpm';
+import { routeDependency, routeExtent } from './dependencyRouting';
+import { exportGanttChart } from './ganttExport';
+import { formatProgress } from './ganttFormat';
+import {
+  DEFAULT_COLUMNS,
+  DEFAULT_COLUMN_WIDTHS,
+  getColumnValues,
+  nextSort,
+  sortActivities,
+  toggleColumn,
+} from './ganttColumns';
+import { GanttActivityDrawer } from './GanttActivityDrawer';
+import { GanttLabelHeader, GanttRowLabel, GanttWbsRowLabel, VARIANCE_COLUMNS_WIDTH } from './GanttLabels';
+import { GanttSandboxPanel } from './GanttSandboxPanel';
+import { GanttToolbar } from './GanttToolbar';
+import { GanttTracePanel } from './GanttTracePanel';
+import { useGanttSandbox } from './useGanttSandbox';
+import { useGanttTrace } from './useGanttTrace';
+import type { WBSNode } from '@/components/wbs-tree/types';
 import type {
   GanttActivity,
+  GanttRow,
+  GanttWbsRow,
   GanttState,
   GanttChartProps,
-  GanttToolbarProps,
   GanttBarProps,
+  GanttSummaryBarProps,
+  GanttDependencyLineProps,
   GanttBar as GanttBarType,
+  GanttExportOptions,
+  GanttExportView,
   TimelineScale,
   TimelineConfig,
+  TimelinePeriod,
   ActivitiesResponse,
   ActivityRelationship,
+  ActivityVariance,
+  BaselineActivity,
+  BaselineScheduleResponse,
+  GanttColumnId,
 } from './types';
 
+const NO_ACTIVITIES: GanttActivity[] = [];
+const NO_RELATIONSHIPS: ActivityRelationship[] = [];
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 
+/** Rows rendered beyond each edge of the viewport; the window moves in steps of this many rows */
+const OVERSCAN_ROWS = 20;
+/** Pixels rendered beyond each side of the viewport; the window moves in steps of this width */
+const OVERSCAN_PX = 600;
+/** Assumed viewport before the container has been measured */
+const DEFAULT_VIEWPORT = { width: 1200, height: 800 };
+
 const getPixelsPerDay = (scale: TimelineScale): number => {
   switch (scale) {
     case 'day': return 40;
@@ -66,6 +119,15 @@ const getWeekNumber = (date: Date): number => {
   return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
 };
 
+/** Header period `index`: 30 days on from the timeline start, labelled for the scale */
+const getTimelinePeriod = (timeline: TimelineConfig, index: number): TimelinePeriod => {
+  const start = new Date(timeline.startDate);
+  start.setDate(start.getDate() + index * 30);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 30);
+  return { start, end, label: formatDate(start, timeline.scale), width: 30 * timeline.pixelsPerDay };
+};
+
 const getStatusColor = (status: GanttActivity['status'], isCritical: boolean): string => {
   if (isCritical) {
     switch (status) {
@@ -95,7 +157,8 @@ const calculateBarPosition = (
 
   const x = startDays * timeline.pixelsPerDay;
   const width = Math.max(durationDays * timeline.pixelsPerDay, activity.isMilestone ? 16 : 20);
-  const progressWidth = (activity.percentComplete / 100) * width;
+  // No progress fill until P6 reports a percent
+  const progressWidth = ((activity.percentComplete ?? 0) / 100) * width;
 
   return {
     activityId: activity.activityId,
@@ -109,105 +172,275 @@ const calculateBarPosition = (
   };
 };
 
-// ============================================================================
-// GANTT TOOLBAR COMPONENT
-// ============================================================================
+const calculateSummaryBarPosition = (
+  row: GanttWbsRow,
+  timeline: TimelineConfig,
+  rowIndex: number,
+  rowHeight: number
+): GanttBarType | null => {
+  if (!row.plannedStart || !row.plannedFinish) return null;
+  const startDays = (new Date(row.plannedStart).getTime() - timeline.startDate.getTime()) / DAY_MS;
+  const durationDays = (new Date(row.plannedFinish).getTime() - new Date(row.plannedStart).getTime()) / DAY_MS;
+  const width = Math.max(durationDays * timeline.pixelsPerDay, 12);
 
-export const GanttToolbar = memo(function GanttToolbar({
-  scale,
-  showCriticalPath,
-  showDependencies,
-  onScaleChange,
-  onCriticalPathToggle,
-  onDependenciesToggle,
-  onZoomIn,
-  onZoomOut,
-  onGoToToday,
-}: GanttToolbarProps) {
-  const scales: TimelineScale[] = ['day', 'week', 'month', 'quarter', 'year'];
+  return {
+    activityId: row.wbs.wbsCode,
+    x: startDays * timeline.pixelsPerDay,
+    width,
+    y: rowIndex * rowHeight,
+    color: '#374151', // gray-700
+    progressWidth: ((row.wbs.percentComplete ?? 0) / 100) * width,
+    isMilestone: false,
+    isCritical: false,
+  };
+};
 
-  return (
-    <div className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
-      {/* Scale buttons */}
-      <div className="flex items-center gap-1">
-        {scales.map((s) => (
-          <button
-            key={s}
-            type="button"
-            onClick={() => onScaleChange(s)}
-            aria-pressed={scale === s}
-            className={`px-3 py-1.5 text-xs font-medium rounded ${
-              scale === s
-                ? 'bg-blue-600 text-white'
-                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
-            }`}
-          >
-            {s.charAt(0).toUpperCase() + s.slice(1)}
-          </button>
-        ))}
-      </div>
+/** Baseline bar for an activity's baseline dates, drawn below its bar */
+const calculateBaselineBar = (dates: BaselineActivity, timeline: TimelineConfig): { x: number; width: number } => {
+  const start = new Date(dates.start).getTime();
+  const durationDays = (new Date(dates.finish).getTime() - start) / DAY_MS;
+  return {
+    x: ((start - timeline.startDate.getTime()) / DAY_MS) * timeline.pixelsPerDay,
+    width: Math.max(durationDays * timeline.pixelsPerDay, 2),
+  };
+};
 
-      <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+/** Whole days from one ISO date to another */
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
 
-      {/* Zoom controls */}
-      <div className="flex items-center gap-1">
-        <button
-          type="button"
-          onClick={onZoomIn}
-          aria-label="Zoom in"
-          className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
-        >
-          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
-          </svg>
-        </button>
-        <button
-          type="button"
-          onClick={onZoomOut}
-          aria-label="Zoom out"
-          className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
-        >
-          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM13 10H7" />
-          </svg>
-        </button>
-      </div>
+/**
+ * Variance of every activity the baseline has, measured from the current
+ * start and finish: actual dates once recorded, planned before
+ */
+const getVariances = (
+  activities: GanttActivity[],
+  baselineDates: Map<number, BaselineActivity>
+): Map<number, ActivityVariance> => {
+  const variances = new Map<number, ActivityVariance>();
+  for (const activity of activities) {
+    const dates = baselineDates.get(activity.objectId);
+    if (!dates) continue;
+    variances.set(activity.objectId, {
+      startDays: daysBetween(activity.actualStart ?? activity.plannedStart, dates.start),
+      finishDays: daysBetween(activity.actualFinish ?? activity.plannedFinish, dates.finish),
+    });
+  }
+  return variances;
+};
 
-      <button
-        type="button"
-        onClick={onGoToToday}
-        className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded"
-      >
-        Today
-      </button>
-
-      <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
-
-      {/* Toggles */}
-      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
-        <input
-          type="checkbox"
-          checked={showCriticalPath}
-          onChange={(e) => onCriticalPathToggle(e.target.checked)}
-          aria-label="Critical Path"
-          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-        />
-        Critical Path
-      </label>
-
-      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
-        <input
-          type="checkbox"
-          checked={showDependencies}
-          onChange={(e) => onDependenciesToggle(e.target.checked)}
-          aria-label="Dependencies"
-          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-        />
-        Dependencies
-      </label>
-    </div>
-  );
-});
+/** Relationship sets its successor's early dates in the schedule logic */
+const isDrivingRelationship = (schedule: CpmSchedule, rel: ActivityRelationship): boolean =>
+  schedule.activities.get(rel.successorObjectId)?.drivingPredecessors.includes(rel.predecessorObjectId) ?? false;
+
+/** Bar of any chart row; activity bars carry their baseline bar when the baseline has the activity */
+const calculateRowBar = (
+  row: GanttRow,
+  timeline: TimelineConfig,
+  rowIndex: number,
+  rowHeight: number,
+  baselineDates: Map<number, BaselineActivity> | null
+): GanttBarType | null => {
+  if (row.kind === 'wbs') return calculateSummaryBarPosition(row, timeline, rowIndex, rowHeight);
+  const bar = calculateBarPosition(row.activity, timeline, rowIndex, rowHeight);
+  const dates = baselineDates?.get(row.activity.objectId);
+  return dates ? { ...bar, baseline: calculateBaselineBar(dates, timeline) } : bar;
+};
+
+/**
+ * Activities grouped by WBS element, worked out once per load so that
+ * expanding and collapsing only lists rows
+ */
+interface WbsGrouping {
+  nodes: WBSNode[];
+  /** Activities by WBS Object ID, in loaded order */
+  activitiesByWbs: Map<number, GanttActivity[]>;
+  /** Planned span beneath each element, descendants included; absent without activities */
+  spans: Map<number, { plannedStart: string; plannedFinish: string }>;
+  /** Activities whose WBS is missing from the tree */
+  ungrouped: GanttActivity[];
+}
+
+const groupByWbs = (activities: GanttActivity[], nodes: WBSNode[]): WbsGrouping => {
+  const activitiesByWbs = new Map<number, GanttActivity[]>();
+  for (const activity of activities) {
+    const group = activitiesByWbs.get(activity.wbsObjectId);
+    if (group) group.push(activity);
+    else activitiesByWbs.set(activity.wbsObjectId, [activity]);
+  }
+
+  const spans: WbsGrouping['spans'] = new Map();
+  const grouped = new Set<number>();
+  // Returns the planned span beneath the element in milliseconds
+  const visit = (node: WBSNode): [number, number] => {
+    grouped.add(node.objectId);
+    let start = Infinity;
+    let finish = -Infinity;
+    for (const activity of activitiesByWbs.get(node.objectId) ?? []) {
+      start = Math.min(start, new Date(activity.plannedStart).getTime());
+      finish = Math.max(finish, new Date(activity.plannedFinish).getTime());
+    }
+    for (const child of node.children) {
+      const [childStart, childFinish] = visit(child);
+      start = Math.min(start, childStart);
+      finish = Math.max(finish, childFinish);
+    }
+    if (start <= finish) {
+      spans.set(node.objectId, {
+        plannedStart: new Date(start).toISOString(),
+        plannedFinish: new Date(finish).toISOString(),
+      });
+    }
+    return [start, finish];
+  };
+  nodes.forEach(visit);
+
+  const ungrouped = activities.filter((activity) => !grouped.has(activity.wbsObjectId));
+  return { nodes, activitiesByWbs, spans, ungrouped };
+};
+
+/**
+ * Chart rows: each WBS element followed by its own activities and then its
+ * child elements, descending only into expanded elements. Without a WBS
+ * tree the activities are listed flat; activities whose WBS is missing from
+ * the tree follow the grouped rows. `hideEmptyWbs` drops elements with no
+ * activities beneath, for filtered schedules.
+ */
+const buildGanttRows = (
+  activities: GanttActivity[],
+  grouping: WbsGrouping | null,
+  expandedWbsIds: Set<number>,
+  hideEmptyWbs = false
+): GanttRow[] => {
+  if (!grouping) {
+    return activities.map((activity) => ({ kind: 'activity', activity, indentLevel: 0 }));
+  }
+
+  const rows: GanttRow[] = [];
+  const visit = (node: WBSNode) => {
+    const span = grouping.spans.get(node.objectId);
+    if (hideEmptyWbs && !span) return;
+    rows.push({
+      kind: 'wbs',
+      wbs: node,
+      indentLevel: node.hierarchyLevel,
+      plannedStart: span?.plannedStart ?? null,
+      plannedFinish: span?.plannedFinish ?? null,
+    });
+    if (!expandedWbsIds.has(node.objectId)) return;
+    for (const activity of grouping.activitiesByWbs.get(node.objectId) ?? []) {
+      rows.push({ kind: 'activity', activity, indentLevel: node.hierarchyLevel + 1 });
+    }
+    node.children.forEach(visit);
+  };
+  grouping.nodes.forEach(visit);
+
+  for (const activity of grouping.ungrouped) rows.push({ kind: 'activity', activity, indentLevel: 0 });
+  return rows;
+};
+
+/**
+ * WBS Object IDs to expand so the hierarchy shows down to `level`
+ * (1 = root elements only); null expands everything
+ */
+const wbsIdsToLevel = (nodes: WBSNode[], level: number | null): Set<number> => {
+  const ids = new Set<number>();
+  const visit = (node: WBSNode) => {
+    if (level === null || node.hierarchyLevel + 1 < level) ids.add(node.objectId);
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return ids;
+};
+
+/** Number of levels in the WBS hierarchy */
+const wbsDepth = (nodes: WBSNode[]): number =>
+  nodes.reduce((depth, node) => Math.max(depth, node.hierarchyLevel + 1, wbsDepth(node.children)), 0);
+
+/**
+ * Save a downloaded file through a temporary link
+ */
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Timeline bounds padded 14 days either side of the planned dates and any
+ * baseline and scenario dates
+ */
+const getTimelineBounds = (
+  data: ActivitiesResponse | undefined,
+  baseline?: BaselineScheduleResponse,
+  scenario?: GanttActivity[]
+): Pick<TimelineConfig, 'startDate' | 'endDate' | 'dataDate'> => {
+  let minDate = new Date();
+  let maxDate = new Date();
+
+  if (data && data.activities.length > 0) {
+    // A loop: spreading every date into Math.min overflows the stack on large schedules
+    let min = Infinity;
+    let max = -Infinity;
+    for (const list of [data.activities, scenario ?? []]) {
+      for (const a of list) {
+        min = Math.min(min, new Date(a.plannedStart).getTime());
+        max = Math.max(max, new Date(a.plannedFinish).getTime());
+      }
+    }
+    for (const b of baseline?.activities ?? []) {
+      min = Math.min(min, new Date(b.start).getTime());
+      max = Math.max(max, new Date(b.finish).getTime());
+    }
+    minDate = new Date(min);
+    maxDate = new Date(max);
+
+    // Add padding
+    minDate.setDate(minDate.getDate() - 14);
+    maxDate.setDate(maxDate.getDate() + 14);
+  }
+
+  return {
+    startDate: minDate,
+    endDate: maxDate,
+    dataDate: data ? new Date(data.dataDate) : new Date(),
+  };
+};
+
+/**
+ * Rows and pixel range to render, widened by the overscan and snapped to
+ * its steps so that scrolling within a step renders nothing new
+ */
+interface VisibleWindow {
+  firstRow: number;
+  lastRow: number;
+  left: number;
+  right: number;
+}
+
+const getVisibleWindow = (
+  container: HTMLElement | null,
+  rowHeight: number,
+  scrollLeft = container?.scrollLeft ?? 0
+): VisibleWindow => {
+  const width = container?.clientWidth || DEFAULT_VIEWPORT.width;
+  const height = container?.clientHeight || DEFAULT_VIEWPORT.height;
+  const scrollTop = container?.scrollTop ?? 0;
+  const snap = (value: number, step: number) => Math.floor(value / step) * step;
+
+  return {
+    firstRow: Math.max(0, snap(scrollTop / rowHeight, OVERSCAN_ROWS) - OVERSCAN_ROWS),
+    lastRow: snap((scrollTop + height) / rowHeight, OVERSCAN_ROWS) + 2 * OVERSCAN_ROWS,
+    left: Math.max(0, snap(scrollLeft, OVERSCAN_PX) - OVERSCAN_PX),
+    right: snap(scrollLeft + width, OVERSCAN_PX) + 2 * OVERSCAN_PX,
+  };
+};
+
+const sameWindow = (a: VisibleWindow, b: VisibleWindow) =>
+  a.firstRow === b.firstRow && a.lastRow === b.lastRow && a.left === b.left && a.right === b.right;
 
 // ============================================================================
 // GANTT BAR COMPONENT
@@ -219,38 +452,67 @@ export const GanttBar = memo(function GanttBar({
   isSelected,
   onClick,
   onDoubleClick,
+  isDimmed = false,
+  onDrag,
+  pixelsPerDay = 1,
 }: GanttBarProps) {
+  // Whole days the bar has been dragged by, null when it is not being dragged
+  const [dragDays, setDragDays] = useState<number | null>(null);
   const handleClick = () => onClick(activity);
   const handleDoubleClick = () => onDoubleClick(activity);
 
+  // The bar follows the pointer in whole days and reports them on release
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (!onDrag || event.button !== 0) return;
+    event.preventDefault();
+    const originX = event.clientX;
+    let days = 0;
+    const handleMove = (move: MouseEvent) => {
+      days = Math.round((move.clientX - originX) / pixelsPerDay);
+      setDragDays(days);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDragDays(null);
+      if (days !== 0) onDrag(activity, days);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+  const interaction = {
+    style: { cursor: onDrag ? 'grab' : 'pointer' },
+    transform: dragDays ? `translate(${dragDays * pixelsPerDay} 0)` : undefined,
+    opacity: isDimmed ? 0.3 : undefined,
+    onClick: handleClick,
+    onDoubleClick: handleDoubleClick,
+    onMouseDown: onDrag ? handleMouseDown : undefined,
+  };
+
   if (bar.isMilestone) {
     // Diamond shape for milestones
     return (
-      <g
-        role="graphics-symbol"
-        aria-label={`${activity.name} milestone`}
-        style={{ cursor: 'pointer' }}
-        onClick={handleClick}
-        onDoubleClick={handleDoubleClick}
-      >
+      <g role="graphics-symbol" aria-label={`${activity.name} milestone`} {...interaction}>
         <polygon
           points={`${bar.x + 8},${bar.y + 4} ${bar.x + 16},${bar.y + 12} ${bar.x + 8},${bar.y + 20} ${bar.x},${bar.y + 12}`}
           fill={bar.color}
           stroke={isSelected ? '#2563eb' : 'none'}
           strokeWidth={isSelected ? 2 : 0}
         />
+        {/* Baseline milestone */}
+        {bar.baseline && (
+          <polygon
+            data-testid="baseline-bar"
+            points={`${bar.baseline.x + 4},${bar.y + 22} ${bar.baseline.x + 8},${bar.y + 26} ${bar.baseline.x + 4},${bar.y + 30} ${bar.baseline.x},${bar.y + 26}`}
+            fill="#6b7280"
+          />
+        )}
       </g>
     );
   }
 
   return (
-    <g
-      role="graphics-symbol"
-      aria-label={`${activity.name}: ${activity.percentComplete}% complete`}
-      style={{ cursor: 'pointer' }}
-      onClick={handleClick}
-      onDoubleClick={handleDoubleClick}
-    >
+    <g role="graphics-symbol" aria-label={`${activity.name}: ${formatProgress(activity.percentComplete)}`} {...interaction}>
       {/* Background bar */}
       <rect
         x={bar.x}
@@ -283,6 +545,81 @@ export const GanttBar = memo(function GanttBar({
           strokeWidth={2}
         />
       )}
+      {/* Baseline bar */}
+      {bar.baseline && (
+        <rect
+          data-testid="baseline-bar"
+          x={bar.baseline.x}
+          y={bar.y + 25}
+          width={bar.baseline.width}
+          height={4}
+          rx={1}
+          fill="#6b7280"
+        />
+      )}
+    </g>
+  );
+});
+
+// ============================================================================
+// GANTT SUMMARY BAR COMPONENT
+// ============================================================================
+
+export const GanttSummaryBar = memo(function GanttSummaryBar({ row, bar }: GanttSummaryBarProps) {
+  const top = bar.y + 8;
+  const right = bar.x + bar.width;
+
+  return (
+    <g role="graphics-symbol" aria-label={`${row.wbs.name} summary: ${formatProgress(row.wbs.percentComplete)}`}>
+      {/* Span of the WBS */}
+      <rect x={bar.x} y={top} width={bar.width} height={6} fill={bar.color} opacity={0.3} />
+      {/* Rolled-up progress */}
+      <rect x={bar.x} y={top} width={bar.progressWidth} height={6} fill={bar.color} />
+      {/* End caps */}
+      <polygon points={`${bar.x},${top} ${bar.x + 6},${top} ${bar.x},${top + 12}`} fill={bar.color} />
+      <polygon points={`${right - 6},${top} ${right},${top} ${right},${top + 12}`} fill={bar.color} />
+    </g>
+  );
+});
+
+// ============================================================================
+// GANTT DEPENDENCY LINE COMPONENT
+// ============================================================================
+
+export const GanttDependencyLine = memo(function GanttDependencyLine({
+  relationship,
+  route,
+  isCritical,
+  isDriving,
+  isHighlighted,
+}: GanttDependencyLineProps) {
+  const stroke = isCritical ? '#dc2626' : '#9ca3af';
+  const { lag } = route;
+
+  return (
+    <g>
+      {/* Driving relationships solid, the others dashed */}
+      <path
+        data-testid={isHighlighted ? 'dependency-line-highlighted' : 'dependency-line'}
+        data-type={relationship.type}
+        data-driving={isDriving}
+        d={`M ${route.points.map(([x, y]) => `${x} ${y}`).join(' L ')}`}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isHighlighted ? 2 : isDriving ? 1.5 : 1}
+        strokeDasharray={isDriving ? undefined : '4 3'}
+        markerEnd={isCritical ? 'url(#arrowhead-critical)' : 'url(#arrowhead)'}
+      />
+      {/* Lag span with end ticks */}
+      {lag && (
+        <path
+          data-testid="dependency-lag"
+          d={`M ${lag.x1} ${lag.y - 3} V ${lag.y + 3} M ${lag.x1} ${lag.y} H ${lag.x2} M ${lag.x2} ${lag.y - 3} V ${lag.y + 3}`}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={1.5}
+        />
+      )}
     </g>
   );
 });
@@ -301,102 +638,211 @@ export const GanttChart = memo(function GanttChart({
   onActivityDoubleClick,
   rowHeight = 32,
   headerHeight = 48,
+  projectName,
 }: GanttChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const labelsRef = useRef<HTMLDivElement>(null);
+  const zoomScrollLeftRef = useRef<number | null>(null);
+  const [visible, setVisible] = useState<VisibleWindow>(() => getVisibleWindow(null, rowHeight));
   const [state, setState] = useState<GanttState>({
-    activities: [],
-    relationships: [],
-    timeline: {
-      startDate: new Date(),
-      endDate: new Date(),
-      scale: initialScale,
-      pixelsPerDay: getPixelsPerDay(initialScale),
-      today: new Date(),
-      dataDate: new Date(),
-    },
+    scale: initialScale,
     selectedActivityId: null,
     expandedWbsIds: new Set(),
-    isLoading: true,
-    error: null,
     showCriticalOnly: false,
     showDependencies,
+    baselineId: null,
+    slipThresholdDays: null,
+    traceLogic: false,
+    traceSuccessors: false,
+    sandbox: false,
+    columns: DEFAULT_COLUMNS,
+    columnWidths: DEFAULT_COLUMN_WIDTHS,
+    sort: null,
   });
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isExportingChart, setIsExportingChart] = useState(false);
+  // Activity whose detail drawer is open, by Object ID
+  const [detailObjectId, setDetailObjectId] = useState<number | null>(null);
+
+  const activitiesQuery = useP6Activities(projectObjectId, tenantId);
+  const wbsQuery = useP6WbsTree(projectObjectId, tenantId);
+  const baselinesQuery = useP6Baselines(projectObjectId, tenantId);
+  // A baseline picked for another project no longer applies
+  const baselineId = baselinesQuery.data?.baselines.some((baseline) => baseline.id === state.baselineId)
+    ? state.baselineId
+    : null;
+  const baselineQuery = useP6BaselineSchedule(projectObjectId, baselineId, tenantId);
+  const baseline = baselineId ? baselineQuery.data : undefined;
+  const exportSchedule = useExportSchedule();
+  const loadedActivities = activitiesQuery.data?.activities ?? NO_ACTIVITIES;
+  const loadedRelationships = activitiesQuery.data?.relationships ?? NO_RELATIONSHIPS;
+  const dataDate = activitiesQuery.data?.dataDate;
+
+  const criticalPath = useMemo(
+    () => computeCriticalPath(loadedActivities, loadedRelationships, { dataDate }),
+    [loadedActivities, loadedRelationships, dataDate]
+  );
 
-  // Fetch activities
-  useEffect(() => {
-    const fetchActivities = async () => {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-      try {
-        const response = await fetch(
-          `/api/v1/p6/projects/${projectObjectId}/activities`,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Tenant-ID': tenantId,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to load activities');
-        }
-
-        const data: ActivitiesResponse = await response.json();
-
-        // Calculate timeline bounds
-        let minDate = new Date();
-        let maxDate = new Date();
-
-        if (data.activities.length > 0) {
-          const dates = data.activities.flatMap((a) => [
-            new Date(a.plannedStart),
-            new Date(a.plannedFinish),
-          ]);
-          minDate = new Date(Math.min(...dates.map((d) => d.getTime())));
-          maxDate = new Date(Math.max(...dates.map((d) => d.getTime())));
-
-          // Add padding
-          minDate.setDate(minDate.getDate() - 14);
-          maxDate.setDate(maxDate.getDate() + 14);
-        }
-
-        setState((prev) => ({
-          ...prev,
-          activities: data.activities,
-          relationships: data.relationships,
-          timeline: {
-            ...prev.timeline,
-            startDate: minDate,
-            endDate: maxDate,
-            dataDate: new Date(data.dataDate),
-          },
-          isLoading: false,
-        }));
-      } catch (error) {
-        setState((prev) => ({
-          ...prev,
-          isLoading: false,
-          error: error instanceof Error ? error.message : 'Failed to load activities',
-        }));
-      }
-    };
+  // What-if sandbox: the scenario's schedule drives the bars, links and critical flags
+  const { sandbox, onBarDrag, panel: sandboxPanel } = useGanttSandbox({
+    projectObjectId,
+    tenantId,
+    enabled: state.sandbox,
+    selectedActivityId: state.selectedActivityId,
+    activities: loadedActivities,
+    relationships: loadedRelationships,
+    criticalPath,
+    dataDate,
+  });
+  const schedule = sandbox?.schedule ?? criticalPath;
+  const relationships = sandbox?.relationships ?? loadedRelationships;
+
+  // Critical flags from the schedule logic; activities outside the network keep P6's
+  const activities = useMemo(
+    () =>
+      (sandbox?.activities ?? loadedActivities).map((activity) => {
+        const scheduled = schedule.activities.get(activity.objectId);
+        return scheduled && scheduled.isCritical !== activity.isCritical
+          ? { ...activity, isCritical: scheduled.isCritical }
+          : activity;
+      }),
+    [sandbox, loadedActivities, schedule]
+  );
 
-    fetchActivities();
-  }, [projectObjectId, tenantId]);
+  // Activity in the detail drawer; the drawer closes once it leaves the schedule, as on a project change
+  const detailActivity = useMemo(
+    () => (detailObjectId === null ? null : activities.find((activity) => activity.objectId === detailObjectId) ?? null),
+    [detailObjectId, activities]
+  );
+  const detailQuery = useP6ActivityDetail(projectObjectId, detailActivity?.objectId ?? null, tenantId);
+
+  // Trace logic: the driving path of the selected activity
+  const trace = useGanttTrace({
+    enabled: state.traceLogic,
+    selectedActivityId: state.selectedActivityId,
+    successors: state.traceSuccessors,
+    activities,
+    relationships,
+    schedule,
+  });
+  const { steps: traceSteps, setStepId: setTraceStepId, resetStep: resetTraceStep } = trace;
+
+  // Baseline dates and variances, by activity Object ID
+  const baselineDates = useMemo(
+    () => (baseline ? new Map(baseline.activities.map((dates) => [dates.objectId, dates])) : null),
+    [baseline]
+  );
+  const variances = useMemo(
+    () => (baselineDates ? getVariances(activities, baselineDates) : null),
+    [activities, baselineDates]
+  );
 
-  // Scale change handler
+  // Label columns: total float and WBS codes, and the grid with its widths
+  const wbsNodes = wbsQuery.data?.nodes;
+  const columnValues = useMemo(() => getColumnValues(activities, schedule, wbsNodes), [activities, schedule, wbsNodes]);
+  const columns = useMemo(
+    () => state.columns.map((id) => ({ id, width: state.columnWidths[id] })),
+    [state.columns, state.columnWidths]
+  );
+
+  // Slip filter: activities whose start or finish is later than the baseline by more than the threshold.
+  // The column sort then orders what is shown; grouping keeps the order within each WBS element
+  const slipThresholdDays = variances ? state.slipThresholdDays : null;
+  const shownActivities = useMemo(() => {
+    const shown = !variances || slipThresholdDays === null
+      ? activities
+      : activities.filter((activity) => {
+          const variance = variances.get(activity.objectId);
+          return !!variance && Math.min(variance.startDays, variance.finishDays) < -slipThresholdDays;
+        });
+    return sortActivities(shown, state.sort, columnValues);
+  }, [activities, variances, slipThresholdDays, state.sort, columnValues]);
+
+  // Every WBS element starts expanded once the project's tree loads, so
+  // grouping adds summary rows without hiding any activity
+  const [expandedProject, setExpandedProject] = useState<number | null>(null);
+  if (wbsNodes && expandedProject !== projectObjectId) {
+    setExpandedProject(projectObjectId);
+    setState((prev) => ({ ...prev, expandedWbsIds: wbsIdsToLevel(wbsNodes, null) }));
+  }
+
+  const grouping = useMemo(
+    () => (wbsNodes?.length ? groupByWbs(shownActivities, wbsNodes) : null),
+    [shownActivities, wbsNodes]
+  );
+  const rows = useMemo(
+    () => buildGanttRows(shownActivities, grouping, state.expandedWbsIds, slipThresholdDays !== null),
+    [shownActivities, grouping, state.expandedWbsIds, slipThresholdDays]
+  );
+  const wbsLevels = useMemo(() => (wbsNodes?.length ? wbsDepth(wbsNodes) : undefined), [wbsNodes]);
+
+  // Bounds scan every activity, so zooming reuses them
+  const bounds = useMemo(
+    () => getTimelineBounds(activitiesQuery.data, baseline, sandbox?.activities),
+    [activitiesQuery.data, baseline, sandbox]
+  );
+  const timeline = useMemo<TimelineConfig>(
+    () => ({
+      ...bounds,
+      scale: state.scale,
+      pixelsPerDay: getPixelsPerDay(state.scale),
+      today: new Date(),
+    }),
+    [bounds, state.scale]
+  );
+
+  // Scale change handler; keeps the date at the centre of the viewport in place
+  // and moves the window with it, so the new scale renders once
   const handleScaleChange = useCallback((scale: TimelineScale) => {
-    setState((prev) => ({
-      ...prev,
-      timeline: {
-        ...prev.timeline,
-        scale,
-        pixelsPerDay: getPixelsPerDay(scale),
-      },
-    }));
+    const container = containerRef.current;
+    if (container) {
+      const centreDays = (container.scrollLeft + container.clientWidth / 2) / timeline.pixelsPerDay;
+      const scrollLeft = Math.max(0, centreDays * getPixelsPerDay(scale) - container.clientWidth / 2);
+      zoomScrollLeftRef.current = scrollLeft;
+      setVisible(getVisibleWindow(container, rowHeight, scrollLeft));
+    }
+    setState((prev) => ({ ...prev, scale }));
+  }, [timeline.pixelsPerDay, rowHeight]);
+
+  const updateVisibleWindow = useCallback(() => {
+    const next = getVisibleWindow(containerRef.current, rowHeight);
+    setVisible((prev) => (sameWindow(prev, next) ? prev : next));
+  }, [rowHeight]);
+
+  // Chart scrolling moves the labels with it; scrolling over the labels moves the chart
+  const handleChartScroll = useCallback(() => {
+    if (labelsRef.current && containerRef.current) {
+      labelsRef.current.scrollTop = containerRef.current.scrollTop;
+    }
+    updateVisibleWindow();
+  }, [updateVisibleWindow]);
+
+  const handleLabelsScroll = useCallback(() => {
+    if (labelsRef.current && containerRef.current && containerRef.current.scrollTop !== labelsRef.current.scrollTop) {
+      containerRef.current.scrollTop = labelsRef.current.scrollTop;
+    }
   }, []);
 
+  const hasActivities = activities.length > 0;
+
+  // Measure the viewport once the chart renders and whenever it resizes
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    updateVisibleWindow();
+    const observer = new ResizeObserver(updateVisibleWindow);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasActivities, updateVisibleWindow]);
+
+  // Scroll to the anchored date once the new scale has laid out; the scroll event updates the window
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (zoomScrollLeftRef.current === null || !container) return;
+    container.scrollLeft = zoomScrollLeftRef.current;
+    zoomScrollLeftRef.current = null;
+  }, [timeline.pixelsPerDay]);
+
   // Critical path toggle
   const handleCriticalPathToggle = useCallback((show: boolean) => {
     setState((prev) => ({ ...prev, showCriticalOnly: show }));
@@ -407,57 +853,245 @@ export const GanttChart = memo(function GanttChart({
     setState((prev) => ({ ...prev, showDependencies: show }));
   }, []);
 
+  // Trace logic toggles
+  const handleTraceLogicToggle = useCallback((trace: boolean) => {
+    setState((prev) => ({ ...prev, traceLogic: trace }));
+    resetTraceStep();
+  }, [resetTraceStep]);
+
+  const handleTraceSuccessorsToggle = useCallback((trace: boolean) => {
+    setState((prev) => ({ ...prev, traceSuccessors: trace }));
+  }, []);
+
+  // What-if sandbox toggle; the scenario is kept for when it is turned back on
+  const handleSandboxToggle = useCallback((sandbox: boolean) => {
+    setState((prev) => ({ ...prev, sandbox }));
+  }, []);
+
   // Zoom handlers
   const handleZoomIn = useCallback(() => {
     const scales: TimelineScale[] = ['year', 'quarter', 'month', 'week', 'day'];
-    const currentIndex = scales.indexOf(state.timeline.scale);
+    const currentIndex = scales.indexOf(state.scale);
     if (currentIndex < scales.length - 1) {
       handleScaleChange(scales[currentIndex + 1]);
     }
-  }, [state.timeline.scale, handleScaleChange]);
+  }, [state.scale, handleScaleChange]);
 
   const handleZoomOut = useCallback(() => {
     const scales: TimelineScale[] = ['year', 'quarter', 'month', 'week', 'day'];
-    const currentIndex = scales.indexOf(state.timeline.scale);
+    const currentIndex = scales.indexOf(state.scale);
     if (currentIndex > 0) {
       handleScaleChange(scales[currentIndex - 1]);
     }
-  }, [state.timeline.scale, handleScaleChange]);
+  }, [state.scale, handleScaleChange]);
 
   // Go to today
   const handleGoToToday = useCallback(() => {
     if (containerRef.current) {
       const today = new Date();
-      const daysSinceStart = (today.getTime() - state.timeline.startDate.getTime()) / DAY_MS;
-      const scrollX = daysSinceStart * state.timeline.pixelsPerDay - containerRef.current.clientWidth / 2;
+      const daysSinceStart = (today.getTime() - timeline.startDate.getTime()) / DAY_MS;
+      const scrollX = daysSinceStart * timeline.pixelsPerDay - containerRef.current.clientWidth / 2;
       containerRef.current.scrollLeft = Math.max(0, scrollX);
     }
-  }, [state.timeline]);
+  }, [timeline]);
 
   // Activity selection
   const handleActivityClick = useCallback((activity: GanttActivity) => {
     setState((prev) => ({ ...prev, selectedActivityId: activity.activityId }));
+    resetTraceStep();
     onActivitySelect?.(activity);
-  }, [onActivitySelect]);
+  }, [onActivitySelect, resetTraceStep]);
 
+  // Double-click opens the activity's detail drawer
   const handleActivityDoubleClick = useCallback((activity: GanttActivity) => {
+    setDetailObjectId(activity.objectId);
     onActivityDoubleClick?.(activity);
   }, [onActivityDoubleClick]);
 
-  // Calculate bars
-  const bars = useMemo(() => {
-    return state.activities.map((activity, index) =>
-      calculateBarPosition(activity, state.timeline, index, rowHeight)
-    );
-  }, [state.activities, state.timeline, rowHeight]);
+  const handleDetailClose = useCallback(() => {
+    setDetailObjectId(null);
+  }, []);
+
+  // Label columns; hiding the sorted column restores the schedule order
+  const handleColumnToggle = useCallback((column: GanttColumnId, show: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      columns: toggleColumn(prev.columns, column, show),
+      sort: !show && prev.sort?.column === column ? null : prev.sort,
+    }));
+  }, []);
+
+  const handleColumnSort = useCallback((column: GanttColumnId) => {
+    setState((prev) => ({ ...prev, sort: nextSort(prev.sort, column) }));
+  }, []);
+
+  const handleColumnResize = useCallback((column: GanttColumnId, width: number) => {
+    setState((prev) => ({ ...prev, columnWidths: { ...prev.columnWidths, [column]: width } }));
+  }, []);
+
+  // WBS expand/collapse
+  const handleWbsToggle = useCallback((wbsObjectId: number) => {
+    setState((prev) => {
+      const expandedWbsIds = new Set(prev.expandedWbsIds);
+      if (!expandedWbsIds.delete(wbsObjectId)) expandedWbsIds.add(wbsObjectId);
+      return { ...prev, expandedWbsIds };
+    });
+  }, []);
+
+  const handleExpandToLevel = useCallback((level: number | null) => {
+    if (wbsNodes) {
+      setState((prev) => ({ ...prev, expandedWbsIds: wbsIdsToLevel(wbsNodes, level) }));
+    }
+  }, [wbsNodes]);
+
+  // Baseline comparison; clearing the baseline clears the slip filter
+  const handleBaselineChange = useCallback((id: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      baselineId: id,
+      slipThresholdDays: id ? prev.slipThresholdDays : null,
+    }));
+  }, []);
+
+  const handleSlipThresholdChange = useCallback((days: number | null) => {
+    setState((prev) => ({ ...prev, slipThresholdDays: days }));
+  }, []);
+
+  // PMXML export of the whole project
+  const handleExport = useCallback(async () => {
+    setExportError(null);
+    try {
+      const file = await exportSchedule.mutateAsync({ projectObjectId, tenant: tenantId });
+      saveFile(file, `project-${projectObjectId}.xml`);
+    } catch (err) {
+      setExportError(getApiErrorMessage(err, 'Failed to export schedule'));
+    }
+  }, [exportSchedule, projectObjectId, tenantId]);
+
+  // Rows of the shown activities; links to activities in collapsed WBS are not drawn
+  const rowIndexByObjectId = useMemo(() => {
+    const indexes = new Map<number, number>();
+    rows.forEach((row, index) => {
+      if (row.kind === 'activity') indexes.set(row.activity.objectId, index);
+    });
+    return indexes;
+  }, [rows]);
+
+  // Step through the traced path, scrolling the step's bar into view
+  const handleTraceStep = useCallback((index: number) => {
+    const step = traceSteps?.[index];
+    if (!step) return;
+    setTraceStepId(step.activity.objectId);
+    const rowIndex = rowIndexByObjectId.get(step.activity.objectId);
+    const container = containerRef.current;
+    if (rowIndex === undefined || !container) return;
+    const bar = calculateRowBar(rows[rowIndex], timeline, rowIndex, rowHeight, null);
+    container.scrollTop = Math.max(0, rowIndex * rowHeight - container.clientHeight / 2);
+    container.scrollLeft = Math.max(0, (bar?.x ?? 0) - container.clientWidth / 4);
+  }, [traceSteps, setTraceStepId, rowIndexByObjectId, rows, timeline, rowHeight]);
+
+  // Chart export of the current view: every shown row and link, not just the rendered window
+  const handleExportChart = useCallback(async (options: GanttExportOptions) => {
+    setExportError(null);
+    setIsExportingChart(true);
+    try {
+      const bars = rows.map((row, index) => calculateRowBar(row, timeline, index, rowHeight, baselineDates));
+      const routeOptions = { pixelsPerDay: timeline.pixelsPerDay, rowHeight, barAtRow: (index: number) => bars[index] };
+      const links = !state.showDependencies
+        ? []
+        : relationships.flatMap((rel) => {
+            const fromBar = bars[rowIndexByObjectId.get(rel.predecessorObjectId) ?? -1];
+            const toBar = bars[rowIndexByObjectId.get(rel.successorObjectId) ?? -1];
+            if (!fromBar || !toBar) return [];
+            return [
+              {
+                route: routeDependency(rel, fromBar, toBar, routeOptions),
+                isCritical: fromBar.isCritical && toBar.isCritical,
+                isDriving: isDrivingRelationship(schedule, rel),
+              },
+            ];
+          });
+      const days = (timeline.endDate.getTime() - timeline.startDate.getTime()) / DAY_MS;
+      const view: GanttExportView = {
+        projectName: projectName ?? `Project ${projectObjectId}`,
+        timeline,
+        periods: Array.from({ length: Math.ceil(days / 30) + 1 }, (_, i) => getTimelinePeriod(timeline, i)),
+        rows,
+        bars,
+        links,
+        rowHeight,
+        chartWidth: days * timeline.pixelsPerDay,
+      };
+      const { blob, filename } = await exportGanttChart(view, options, `project-${projectObjectId}-gantt`);
+      saveFile(blob, filename);
+    } catch (err) {
+      setExportError(getApiErrorMessage(err, 'Failed to export chart'));
+    } finally {
+      setIsExportingChart(false);
+    }
+  }, [
+    rows,
+    rowIndexByObjectId,
+    timeline,
+    rowHeight,
+    baselineDates,
+    relationships,
+    schedule,
+    state.showDependencies,
+    projectName,
+    projectObjectId,
+  ]);
+
+  // Calculate bars for the window only: its rows whose bars reach into its
+  // pixel range, and the links with a segment in it
+  const layout = useMemo(() => {
+    const bars = new Map<number, GanttBarType | null>();
+    const barAt = (index: number) => {
+      if (!bars.has(index)) {
+        bars.set(index, calculateRowBar(rows[index], timeline, index, rowHeight, baselineDates));
+      }
+      return bars.get(index) ?? null;
+    };
+    const inRange = (from: number, to: number) =>
+      Math.min(from, to) <= visible.right && Math.max(from, to) >= visible.left;
+
+    const barRows: number[] = [];
+    for (let index = visible.firstRow; index <= Math.min(visible.lastRow, rows.length - 1); index++) {
+      const bar = barAt(index);
+      if (bar && inRange(bar.x, bar.x + bar.width)) barRows.push(index);
+    }
+
+    const routeOptions = { pixelsPerDay: timeline.pixelsPerDay, rowHeight, barAtRow: barAt };
+    const links = !state.showDependencies
+      ? []
+      : relationships.flatMap((rel) => {
+          const fromIndex = rowIndexByObjectId.get(rel.predecessorObjectId);
+          const toIndex = rowIndexByObjectId.get(rel.successorObjectId);
+          if (fromIndex === undefined || toIndex === undefined) return [];
+          // Either end in the window's rows, or the link passing through them
+          if (Math.min(fromIndex, toIndex) > visible.lastRow || Math.max(fromIndex, toIndex) < visible.firstRow) {
+            return [];
+          }
+          const fromBar = barAt(fromIndex)!;
+          const toBar = barAt(toIndex)!;
+          const route = routeDependency(rel, fromBar, toBar, routeOptions);
+          const { left, right } = routeExtent(route);
+          return inRange(left, right) ? [{ rel, fromBar, toBar, route }] : [];
+        });
+
+    return { bars, barRows, links };
+  }, [rows, relationships, rowIndexByObjectId, baselineDates, timeline, rowHeight, visible, state.showDependencies]);
 
   // Calculate chart dimensions
-  const totalDays = (state.timeline.endDate.getTime() - state.timeline.startDate.getTime()) / DAY_MS;
-  const chartWidth = totalDays * state.timeline.pixelsPerDay;
-  const chartHeight = state.activities.length * rowHeight;
+  const totalDays = (timeline.endDate.getTime() - timeline.startDate.getTime()) / DAY_MS;
+  const chartWidth = totalDays * timeline.pixelsPerDay;
+  const chartHeight = rows.length * rowHeight;
+  const lastVisibleRow = Math.min(visible.lastRow, rows.length - 1);
+  const labelWidth =
+    columns.reduce((width, column) => width + column.width, 0) + (variances ? VARIANCE_COLUMNS_WIDTH : 0);
 
   // Loading state
-  if (state.isLoading) {
+  if (activitiesQuery.isPending) {
     return (
       <div role="status" className="flex items-center justify-center p-8">
         <svg className="animate-spin h-8 w-8 text-blue-600" fill="none" viewBox="0 0 24 24">
@@ -470,16 +1104,18 @@ export const GanttChart = memo(function GanttChart({
   }
 
   // Error state
-  if (state.error) {
+  if (activitiesQuery.isError) {
     return (
       <div role="alert" className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-        <p className="text-red-800 dark:text-red-200">Failed to load activities: {state.error}</p>
+        <p className="text-red-800 dark:text-red-200">
+          Failed to load activities: {getApiErrorMessage(activitiesQuery.error)}
+        </p>
       </div>
     );
   }
 
   // Empty state
-  if (state.activities.length === 0) {
+  if (activities.length === 0) {
     return (
       <div className="p-8 text-center text-gray-500 dark:text-gray-400">
         <p>No activities found for this project.</p>
@@ -487,80 +1123,130 @@ export const GanttChart = memo(function GanttChart({
     );
   }
 
+  // Indexes of the `count` periods of `days` days that fall in the window
+  const periodIndexes = (days: number, count: number) => {
+    const width = days * timeline.pixelsPerDay;
+    const first = Math.floor(visible.left / width);
+    const last = Math.min(count - 1, Math.ceil(visible.right / width));
+    return Array.from({ length: Math.max(last - first + 1, 0) }, (_, i) => first + i);
+  };
+
   // Calculate today and data date positions
-  const todayX = ((new Date().getTime() - state.timeline.startDate.getTime()) / DAY_MS) * state.timeline.pixelsPerDay;
-  const dataDateX = ((state.timeline.dataDate.getTime() - state.timeline.startDate.getTime()) / DAY_MS) * state.timeline.pixelsPerDay;
+  const todayX = ((new Date().getTime() - timeline.startDate.getTime()) / DAY_MS) * timeline.pixelsPerDay;
+  const dataDateX = ((timeline.dataDate.getTime() - timeline.startDate.getTime()) / DAY_MS) * timeline.pixelsPerDay;
 
   return (
     <div className="flex flex-col h-full">
       {/* Toolbar */}
       <GanttToolbar
-        scale={state.timeline.scale}
+        scale={timeline.scale}
         showCriticalPath={showCriticalPath}
         showDependencies={state.showDependencies}
         onScaleChange={handleScaleChange}
         onCriticalPathToggle={handleCriticalPathToggle}
         onDependenciesToggle={handleDependenciesToggle}
+        traceLogic={state.traceLogic}
+        onTraceLogicToggle={handleTraceLogicToggle}
+        traceSuccessors={state.traceSuccessors}
+        onTraceSuccessorsToggle={handleTraceSuccessorsToggle}
+        sandbox={state.sandbox}
+        onSandboxToggle={handleSandboxToggle}
+        columns={state.columns}
+        onColumnToggle={handleColumnToggle}
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onGoToToday={handleGoToToday}
+        wbsLevels={wbsLevels}
+        onExpandToLevel={handleExpandToLevel}
+        baselines={baselinesQuery.data?.baselines}
+        baselineId={baselineId}
+        onBaselineChange={handleBaselineChange}
+        slipThresholdDays={slipThresholdDays}
+        onSlipThresholdChange={handleSlipThresholdChange}
+        onExport={handleExport}
+        isExporting={exportSchedule.isPending}
+        onExportChart={handleExportChart}
+        isExportingChart={isExportingChart}
       />
 
+      {exportError && (
+        <div role="alert" className="px-3 py-2 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/20">
+          {exportError}
+        </div>
+      )}
+
+      {baselineId && baselineQuery.isError && (
+        <div role="alert" className="px-3 py-2 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/20">
+          Failed to load baseline: {getApiErrorMessage(baselineQuery.error)}
+        </div>
+      )}
+
+      {slipThresholdDays !== null && shownActivities.length === 0 && (
+        <div role="status" className="px-3 py-2 text-sm text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-800/50">
+          No activities slipped more than {slipThresholdDays} days.
+        </div>
+      )}
+
       {/* Chart container */}
       <div className="flex-1 flex overflow-hidden">
         {/* Row labels (fixed) */}
-        <div className="w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
-          {/* Header */}
+        <div
+          ref={labelsRef}
+          onScroll={handleLabelsScroll}
+          className="flex-shrink-0 border-r border-gray-200 dark:border-gray-700 overflow-y-auto"
+          style={{ width: labelWidth }}
+        >
+          <GanttLabelHeader
+            columns={columns}
+            sort={state.sort}
+            height={headerHeight}
+            showVariance={!!variances}
+            onSort={handleColumnSort}
+            onResize={handleColumnResize}
+          />
+          {/* WBS and activity rows in the window; padding stands in for the rest */}
           <div
-            className="sticky top-0 bg-gray-100 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-3 flex items-center font-medium text-sm text-gray-700 dark:text-gray-200"
-            style={{ height: headerHeight }}
+            role="listbox"
+            aria-label="Activities"
+            style={{ height: chartHeight, paddingTop: visible.firstRow * rowHeight }}
           >
-            Activity
-          </div>
-          {/* Activity rows */}
-          <div role="listbox" aria-label="Activities">
-            {state.activities.map((activity) => (
-              <div
-                key={activity.id}
-                role="option"
-                data-milestone={activity.isMilestone ? 'true' : undefined}
-                data-critical={activity.isCritical ? 'true' : undefined}
-                data-status={activity.status}
-                aria-selected={state.selectedActivityId === activity.activityId}
-                aria-label={`${activity.activityId}: ${activity.name}, ${activity.percentComplete}% complete`}
-                className={`flex items-center px-3 border-b border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 ${
-                  state.selectedActivityId === activity.activityId ? 'bg-blue-50 dark:bg-blue-900/20' : ''
-                }`}
-                style={{ height: rowHeight }}
-                onClick={() => handleActivityClick(activity)}
-                onDoubleClick={() => handleActivityDoubleClick(activity)}
-              >
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
-                      {activity.activityId}
-                    </span>
-                    {activity.isMilestone && (
-                      <span className="text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-1 rounded">
-                        Milestone
-                      </span>
-                    )}
-                  </div>
-                  <div className="text-sm text-gray-900 dark:text-gray-100 truncate">
-                    {activity.name}
-                  </div>
-                </div>
-                <div className="text-xs font-medium text-gray-600 dark:text-gray-300 ml-2">
-                  {activity.percentComplete}%
-                </div>
-              </div>
-            ))}
+            {rows.slice(visible.firstRow, lastVisibleRow + 1).map((row, offset) =>
+              row.kind === 'wbs' ? (
+                <GanttWbsRowLabel
+                  key={`wbs-${row.wbs.objectId}`}
+                  row={row}
+                  isExpanded={state.expandedWbsIds.has(row.wbs.objectId)}
+                  height={rowHeight}
+                  position={visible.firstRow + offset + 1}
+                  rowCount={rows.length}
+                  onToggle={handleWbsToggle}
+                  showVariance={!!variances}
+                />
+              ) : (
+                <GanttRowLabel
+                  key={row.activity.id}
+                  activity={row.activity}
+                  indentLevel={row.indentLevel}
+                  height={rowHeight}
+                  position={visible.firstRow + offset + 1}
+                  rowCount={rows.length}
+                  isSelected={state.selectedActivityId === row.activity.activityId}
+                  onClick={handleActivityClick}
+                  onDoubleClick={handleActivityDoubleClick}
+                  columns={columns}
+                  totalFloat={columnValues.get(row.activity.objectId)?.totalFloat ?? null}
+                  wbsCode={columnValues.get(row.activity.objectId)?.wbsCode ?? null}
+                  variance={variances ? variances.get(row.activity.objectId) ?? null : undefined}
+                />
+              )
+            )}
           </div>
         </div>
 
         {/* Chart area (scrollable) */}
         <div
           ref={containerRef}
+          onScroll={handleChartScroll}
           className="flex-1 overflow-auto"
           role="application"
           aria-label="Gantt Chart"
@@ -571,19 +1257,17 @@ export const GanttChart = memo(function GanttChart({
             className="sticky top-0 bg-gray-100 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 z-10"
             style={{ height: headerHeight, width: chartWidth }}
           >
-            {/* Generate timeline labels */}
-            <div className="flex h-full">
-              {Array.from({ length: Math.ceil(totalDays / 30) + 1 }).map((_, i) => {
-                const date = new Date(state.timeline.startDate);
-                date.setDate(date.getDate() + i * 30);
-                const x = i * 30 * state.timeline.pixelsPerDay;
+            {/* Generate timeline labels in the window */}
+            <div className="relative h-full">
+              {periodIndexes(30, Math.ceil(totalDays / 30) + 1).map((i) => {
+                const period = getTimelinePeriod(timeline, i);
                 return (
                   <div
                     key={i}
-                    className="flex-shrink-0 flex items-center justify-start px-2 border-r border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-300"
-                    style={{ width: 30 * state.timeline.pixelsPerDay }}
+                    className="absolute top-0 h-full flex items-center justify-start px-2 border-r border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-300"
+                    style={{ left: i * 30 * timeline.pixelsPerDay, width: period.width }}
                   >
-                    {formatDate(date, state.timeline.scale)}
+                    {period.label}
                   </div>
                 );
               })}
@@ -597,12 +1281,12 @@ export const GanttChart = memo(function GanttChart({
             className="block"
           >
             {/* Grid lines */}
-            {Array.from({ length: Math.ceil(totalDays / 7) }).map((_, i) => (
+            {periodIndexes(7, Math.ceil(totalDays / 7)).map((i) => (
               <line
                 key={i}
-                x1={i * 7 * state.timeline.pixelsPerDay}
+                x1={i * 7 * timeline.pixelsPerDay}
                 y1={0}
-                x2={i * 7 * state.timeline.pixelsPerDay}
+                x2={i * 7 * timeline.pixelsPerDay}
                 y2={chartHeight}
                 stroke="#e5e7eb"
                 strokeWidth={1}
@@ -633,38 +1317,22 @@ export const GanttChart = memo(function GanttChart({
             />
 
             {/* Dependency lines */}
-            {state.showDependencies && state.relationships.map((rel, i) => {
-              const fromIndex = state.activities.findIndex((a) => a.objectId === rel.predecessorObjectId);
-              const toIndex = state.activities.findIndex((a) => a.objectId === rel.successorObjectId);
-              if (fromIndex === -1 || toIndex === -1) return null;
-
-              const fromBar = bars[fromIndex];
-              const toBar = bars[toIndex];
-              const isCritical = state.activities[fromIndex].isCritical && state.activities[toIndex].isCritical;
-              const isHighlighted = state.selectedActivityId === state.activities[fromIndex].activityId ||
-                                   state.selectedActivityId === state.activities[toIndex].activityId;
-
-              // Simple FS relationship line
-              const startX = fromBar.x + fromBar.width;
-              const startY = fromBar.y + 12;
-              const endX = toBar.x;
-              const endY = toBar.y + 12;
-              const midX = (startX + endX) / 2;
-
-              return (
-                <path
-                  key={i}
-                  data-testid={isHighlighted ? 'dependency-line-highlighted' : 'dependency-line'}
-                  d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`}
-                  fill="none"
-                  stroke={isCritical ? '#dc2626' : '#9ca3af'}
-                  strokeWidth={isHighlighted ? 2 : 1}
-                  markerEnd="url(#arrowhead)"
-                />
-              );
-            })}
+            {layout.links.map(({ rel, fromBar, toBar, route }) => (
+              <GanttDependencyLine
+                key={`${rel.predecessorObjectId}-${rel.successorObjectId}-${rel.type}`}
+                relationship={rel}
+                route={route}
+                isCritical={fromBar.isCritical && toBar.isCritical}
+                isDriving={isDrivingRelationship(schedule, rel)}
+                isHighlighted={
+                  trace.relationships
+                    ? trace.relationships.has(rel)
+                    : state.selectedActivityId === fromBar.activityId || state.selectedActivityId === toBar.activityId
+                }
+              />
+            ))}
 
-            {/* Arrowhead marker */}
+            {/* Arrowhead markers */}
             <defs>
               <marker
                 id="arrowhead"
@@ -676,22 +1344,65 @@ export const GanttChart = memo(function GanttChart({
               >
                 <polygon points="0 0, 10 3.5, 0 7" fill="#9ca3af" />
               </marker>
+              <marker
+                id="arrowhead-critical"
+                markerWidth="10"
+                markerHeight="7"
+                refX="9"
+                refY="3.5"
+                orient="auto"
+              >
+                <polygon points="0 0, 10 3.5, 0 7" fill="#dc2626" />
+              </marker>
             </defs>
 
-            {/* Activity bars */}
-            {bars.map((bar, index) => (
-              <GanttBar
-                key={state.activities[index].id}
-                activity={state.activities[index]}
-                bar={bar}
-                isSelected={state.selectedActivityId === state.activities[index].activityId}
-                onClick={handleActivityClick}
-                onDoubleClick={handleActivityDoubleClick}
-              />
-            ))}
+            {/* WBS summary and activity bars */}
+            {layout.barRows.map((index) => {
+              const row = rows[index];
+              const bar = layout.bars.get(index)!;
+              return row.kind === 'wbs' ? (
+                <GanttSummaryBar key={`wbs-${row.wbs.objectId}`} row={row} bar={bar} />
+              ) : (
+                <GanttBar
+                  key={row.activity.id}
+                  activity={row.activity}
+                  bar={bar}
+                  isSelected={state.selectedActivityId === row.activity.activityId}
+                  onClick={handleActivityClick}
+                  onDoubleClick={handleActivityDoubleClick}
+                  isDimmed={trace.objectIds ? !trace.objectIds.has(row.activity.objectId) : false}
+                  onDrag={state.sandbox && row.activity.status === 'not_started' ? onBarDrag : undefined}
+                  pixelsPerDay={timeline.pixelsPerDay}
+                />
+              );
+            })}
           </svg>
         </div>
+
+        {/* Driving path of the selected activity */}
+        {state.traceLogic && (
+          <GanttTracePanel
+            activity={trace.activity}
+            steps={trace.steps}
+            currentStep={trace.currentStep}
+            onStep={handleTraceStep}
+          />
+        )}
+
+        {/* What-if edits and their effect */}
+        {sandboxPanel && <GanttSandboxPanel {...sandboxPanel} />}
       </div>
+
+      {/* Resources and costs of the double-clicked activity */}
+      {detailActivity && (
+        <GanttActivityDrawer
+          activity={detailActivity}
+          detail={detailQuery.data}
+          isLoading={detailQuery.isPending}
+          error={detailQuery.isError ? getApiErrorMessage(detailQuery.error, 'Failed to load activity detail') : null}
+          onClose={handleDetailClose}
+        />
+      )}
     </div>
   );
 });
@@ -0,0 +1,239 @@
+/**
+ * Gantt Label Column
+ * @governance COMPONENT-001
+ *
+ * Components:
+ * - GanttLabelHeader: Sortable, resizable column headers of the label column
+ * - GanttRowLabel / GanttWbsRowLabel: Activity and WBS rows of the label column
+ *
+ * The columns and how their values read come from ganttColumns.ts; the
+ * chart renders only the rows in its window.
+ */
+
+'use client';
+
+import React, { memo } from 'react';
+import { MAX_COLUMN_WIDTH, MIN_COLUMN_WIDTH, clampColumnWidth, formatColumnValue, getColumn } from './ganttColumns';
+import { formatProgress, formatVariance } from './ganttFormat';
+import type { GanttColumnId, GanttLabelHeaderProps, GanttRowLabelProps, GanttWbsRowLabelProps } from './types';
+
+/** Label indent per WBS level in pixels */
+const INDENT_PX = 16;
+/** Label column width change per arrow key on a resize handle */
+const RESIZE_STEP_PX = 8;
+/** Width of the start and finish variance columns together */
+export const VARIANCE_COLUMNS_WIDTH = 112;
+
+export const GanttLabelHeader = memo(function GanttLabelHeader({
+  columns,
+  sort,
+  height,
+  showVariance = false,
+  onSort,
+  onResize,
+}: GanttLabelHeaderProps) {
+  // The column follows the pointer and takes its width on every move
+  const handleResizeStart = (event: React.MouseEvent, id: GanttColumnId, width: number) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    const originX = event.clientX;
+    const handleMove = (move: MouseEvent) => onResize(id, clampColumnWidth(width + move.clientX - originX));
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const handleResizeKey = (event: React.KeyboardEvent, id: GanttColumnId, width: number) => {
+    const step = event.key === 'ArrowRight' ? RESIZE_STEP_PX : event.key === 'ArrowLeft' ? -RESIZE_STEP_PX : 0;
+    if (!step) return;
+    event.preventDefault();
+    onResize(id, clampColumnWidth(width + step));
+  };
+
+  return (
+    <div role="table" aria-label="Activity columns" className="sticky top-0 z-10">
+      <div
+        role="row"
+        className="flex items-stretch bg-gray-100 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 text-xs font-medium text-gray-700 dark:text-gray-200"
+        style={{ height }}
+      >
+        {columns.map(({ id, width }) => {
+          const column = getColumn(id);
+          const direction = sort?.column === id ? sort.direction : null;
+          return (
+            <div
+              key={id}
+              role="columnheader"
+              aria-label={column.label}
+              aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+              className="relative flex-shrink-0 flex items-center"
+              style={{ width }}
+            >
+              <button
+                type="button"
+                onClick={() => onSort(id)}
+                className={`w-full h-full px-2 flex items-center gap-1 hover:bg-gray-200 dark:hover:bg-gray-700 ${
+                  column.align === 'right' ? 'justify-end text-right' : 'text-left'
+                }`}
+              >
+                <span className="truncate">{column.label}</span>
+                {direction && <span aria-hidden="true">{direction === 'asc' ? '▲' : '▼'}</span>}
+              </button>
+              <div
+                role="separator"
+                aria-orientation="vertical"
+                aria-label={`Resize ${column.label}`}
+                aria-valuenow={width}
+                aria-valuemin={MIN_COLUMN_WIDTH}
+                aria-valuemax={MAX_COLUMN_WIDTH}
+                tabIndex={0}
+                onMouseDown={(e) => handleResizeStart(e, id, width)}
+                onKeyDown={(e) => handleResizeKey(e, id, width)}
+                className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400 focus:bg-blue-500 focus:outline-none"
+              />
+            </div>
+          );
+        })}
+        {showVariance && (
+          <>
+            <span role="columnheader" className="w-14 flex-shrink-0 self-center text-right">Start var.</span>
+            <span role="columnheader" className="w-14 flex-shrink-0 self-center text-right">Finish var.</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const GanttRowLabel = memo(function GanttRowLabel({
+  activity,
+  indentLevel,
+  height,
+  position,
+  rowCount,
+  isSelected,
+  onClick,
+  onDoubleClick,
+  columns,
+  totalFloat,
+  wbsCode,
+  variance,
+}: GanttRowLabelProps) {
+  const varianceLabel = variance === undefined
+    ? ''
+    : variance === null
+      ? ', not in baseline'
+      : `, start variance ${formatVariance(variance.startDays)}, finish variance ${formatVariance(variance.finishDays)}`;
+
+  return (
+    <div
+      role="option"
+      aria-posinset={position}
+      aria-setsize={rowCount}
+      data-milestone={activity.isMilestone ? 'true' : undefined}
+      data-critical={activity.isCritical ? 'true' : undefined}
+      data-status={activity.status}
+      aria-selected={isSelected}
+      aria-label={`${activity.activityId}: ${activity.name}, ${formatProgress(activity.percentComplete)}${varianceLabel}`}
+      className={`flex items-center border-b border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 ${
+        isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+      }`}
+      style={{ height }}
+      onClick={() => onClick(activity)}
+      onDoubleClick={() => onDoubleClick(activity)}
+    >
+      {columns.map(({ id, width }) =>
+        id === 'name' ? (
+          // The name carries the WBS indent
+          <div
+            key={id}
+            className="flex-shrink-0 flex items-center gap-2 min-w-0 pr-2"
+            style={{ width, paddingLeft: 12 + indentLevel * INDENT_PX }}
+          >
+            <span className="text-sm text-gray-900 dark:text-gray-100 truncate">{activity.name}</span>
+            {activity.isMilestone && (
+              <span className="flex-shrink-0 text-xs bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200 px-1 rounded">
+                Milestone
+              </span>
+            )}
+          </div>
+        ) : (
+          <div
+            key={id}
+            className={`flex-shrink-0 px-2 truncate text-xs ${getColumn(id).align === 'right' ? 'text-right' : ''} ${
+              id === 'activityId'
+                ? 'font-mono text-gray-500 dark:text-gray-400'
+                : id === 'totalFloat' && totalFloat !== null && totalFloat < 0
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-gray-600 dark:text-gray-300'
+            }`}
+            style={{ width }}
+          >
+            {formatColumnValue(id, activity, { totalFloat, wbsCode })}
+          </div>
+        )
+      )}
+      {variance !== undefined && [variance?.startDays, variance?.finishDays].map((days, i) => (
+        <div
+          key={i}
+          className={`w-14 flex-shrink-0 text-right text-xs font-mono ${
+            days !== undefined && days < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300'
+          }`}
+        >
+          {days === undefined ? '–' : formatVariance(days)}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export const GanttWbsRowLabel = memo(function GanttWbsRowLabel({
+  row,
+  isExpanded,
+  height,
+  position,
+  rowCount,
+  onToggle,
+  showVariance = false,
+}: GanttWbsRowLabelProps) {
+  const { wbs } = row;
+
+  return (
+    <div
+      role="option"
+      aria-posinset={position}
+      aria-setsize={rowCount}
+      aria-selected={false}
+      aria-label={`WBS ${wbs.wbsCode}: ${wbs.name}, ${formatProgress(wbs.percentComplete)}, ${isExpanded ? 'expanded' : 'collapsed'}`}
+      data-wbs="true"
+      className="flex items-center px-3 border-b border-gray-100 dark:border-gray-800 cursor-pointer bg-gray-50 dark:bg-gray-800/50 hover:bg-gray-100 dark:hover:bg-gray-800"
+      style={{ height, paddingLeft: 12 + row.indentLevel * INDENT_PX }}
+      onClick={() => onToggle(wbs.objectId)}
+    >
+      <svg
+        aria-hidden="true"
+        className={`w-3 h-3 mr-1 flex-shrink-0 text-gray-500 dark:text-gray-400 ${isExpanded ? 'rotate-90' : ''}`}
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+      </svg>
+      <div className="flex-1 min-w-0">
+        <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
+          {wbs.wbsCode}
+        </span>
+        <div className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+          {wbs.name}
+        </div>
+      </div>
+      <div className="text-xs font-semibold text-gray-700 dark:text-gray-200 ml-2">
+        {wbs.percentComplete === null ? '–' : `${wbs.percentComplete}%`}
+      </div>
+      {showVariance && <div className="flex-shrink-0" style={{ width: VARIANCE_COLUMNS_WIDTH }} />}
+    </div>
+  );
+});
@@ -0,0 +1,204 @@
+/**
+ * Gantt Sandbox Panel
+ * @governance COMPONENT-001
+ *
+ * What-if edits of the selected activity, the saved scenarios and their
+ * effect on the project finish and milestones. useGanttSandbox holds the
+ * scenario and reschedules the chart with it.
+ */
+
+'use client';
+
+import React, { memo } from 'react';
+import { formatDay } from './ganttFormat';
+import type { DateShift, GanttSandboxPanelProps } from './types';
+
+/** Scenario date against the synced one: "3d later", "2d earlier" or "No change" */
+const formatShift = (days: number): string => {
+  const rounded = Math.round(days * 10) / 10;
+  return rounded === 0 ? 'No change' : `${Math.abs(rounded)}d ${rounded > 0 ? 'later' : 'earlier'}`;
+};
+
+/** Days typed into a sandbox field: null when cleared, undefined when not a number */
+const parseDays = (value: string): number | null | undefined => {
+  if (value.trim() === '') return null;
+  const days = Number(value);
+  return Number.isFinite(days) ? days : undefined;
+};
+
+export const GanttSandboxPanel = memo(function GanttSandboxPanel({
+  activity,
+  duration,
+  predecessors,
+  editCount,
+  impact,
+  scenarios,
+  scenarioId,
+  isSaving,
+  error,
+  onDurationChange,
+  onLagChange,
+  onScenarioChange,
+  onSave,
+  onDelete,
+  onReset,
+}: GanttSandboxPanelProps) {
+  const button = 'px-2 py-1 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded disabled:opacity-50';
+  const field = 'px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded';
+  const scenarioName = scenarios?.find((scenario) => scenario.id === scenarioId)?.name ?? '';
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = String(new FormData(event.currentTarget).get('name') ?? '').trim();
+    if (name) onSave(name);
+  };
+
+  // Fields commit on blur or Enter; their key resets them when the value changes elsewhere
+  const commitOnEnter = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+  };
+  const handleDurationBlur = (event: React.FocusEvent<HTMLInputElement>) => {
+    const days = parseDays(event.currentTarget.value);
+    if (days === undefined || (days !== null && days < 0)) return;
+    if (days !== duration) onDurationChange(days);
+  };
+
+  const shiftRow = (key: string, label: string, shift: DateShift) => (
+    <div key={key} className="py-1">
+      <dt className="font-medium text-gray-700 dark:text-gray-200 truncate">{label}</dt>
+      <dd className="text-gray-500 dark:text-gray-400">
+        {shift.days === 0 ? formatDay(shift.synced) : `${formatDay(shift.synced)} → ${formatDay(shift.scenario)}`}
+        {' · '}
+        <span className={shift.days > 0 ? 'text-red-600 dark:text-red-400' : undefined}>{formatShift(shift.days)}</span>
+      </dd>
+    </div>
+  );
+
+  return (
+    <aside
+      aria-label="What-if sandbox"
+      className="w-72 flex-shrink-0 flex flex-col border-l border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 overflow-y-auto"
+    >
+      {/* Saved scenarios */}
+      <div className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Sandbox changes reschedule the chart only; nothing is written back to P6.
+        </p>
+        {scenarios && (
+          <select
+            value={scenarioId ?? ''}
+            onChange={(e) => onScenarioChange(e.target.value ? Number(e.target.value) : null)}
+            aria-label="Scenario"
+            className={`w-full ${field}`}
+          >
+            <option value="">New scenario</option>
+            {scenarios.map((scenario) => (
+              <option key={scenario.id} value={scenario.id}>
+                {scenario.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <form onSubmit={handleSave} className="flex gap-1">
+          <input
+            key={scenarioId ?? 'new'}
+            name="name"
+            defaultValue={scenarioName}
+            placeholder="Scenario name"
+            required
+            maxLength={100}
+            aria-label="Scenario name"
+            className={`flex-1 min-w-0 ${field}`}
+          />
+          <button type="submit" disabled={isSaving} className={button}>
+            Save
+          </button>
+        </form>
+        <div className="flex gap-1">
+          <button type="button" onClick={onReset} disabled={editCount === 0 && scenarioId === null} className={button}>
+            Reset to synced
+          </button>
+          {scenarioId !== null && (
+            <button type="button" onClick={onDelete} disabled={isSaving} className={button}>
+              Delete
+            </button>
+          )}
+        </div>
+        {error && (
+          <p role="alert" className="text-xs text-red-700 dark:text-red-300">
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* Effect on the finish and milestones */}
+      <section aria-label="Schedule impact" className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="mb-1 text-xs font-semibold text-gray-500 dark:text-gray-400">
+          Against the synced schedule ({editCount} {editCount === 1 ? 'change' : 'changes'})
+        </h3>
+        <dl className="text-xs">
+          {impact.projectFinish && shiftRow('finish', 'Project finish', impact.projectFinish)}
+          {impact.milestones.map((milestone) =>
+            shiftRow(
+              String(milestone.activity.objectId),
+              `${milestone.activity.activityId} ${milestone.activity.name}`,
+              milestone
+            )
+          )}
+        </dl>
+      </section>
+
+      {/* Selected activity */}
+      <section aria-label="Edit activity" className="p-3 space-y-2">
+        {!activity ? (
+          <p className="text-xs text-gray-600 dark:text-gray-300">
+            Select an activity to change its duration or lags, or drag a bar that has not started to move it.
+          </p>
+        ) : (
+          <>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {activity.activityId} {activity.name}
+            </h3>
+            {duration !== null && (
+              <label className="flex items-center justify-between gap-2 text-xs text-gray-700 dark:text-gray-200">
+                Remaining duration (days)
+                <input
+                  key={`${activity.objectId}-${duration}`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  defaultValue={duration}
+                  onBlur={handleDurationBlur}
+                  onKeyDown={commitOnEnter}
+                  aria-label="Remaining duration"
+                  className={`w-20 ${field}`}
+                />
+              </label>
+            )}
+            {predecessors.map(({ relationship, activityId }) => (
+              <label
+                key={`${relationship.predecessorObjectId}-${relationship.type}`}
+                className="flex items-center justify-between gap-2 text-xs text-gray-700 dark:text-gray-200"
+              >
+                {relationship.type} lag from {activityId} (days)
+                <input
+                  key={relationship.lag}
+                  type="number"
+                  step="any"
+                  defaultValue={relationship.lag}
+                  onBlur={(e) => {
+                    const lag = parseDays(e.currentTarget.value);
+                    if (lag !== undefined && lag !== relationship.lag) onLagChange(relationship, lag);
+                  }}
+                  onKeyDown={commitOnEnter}
+                  aria-label={`Lag from ${activityId}`}
+                  className={`w-20 ${field}`}
+                />
+              </label>
+            ))}
+          </>
+        )}
+      </section>
+    </aside>
+  );
+});
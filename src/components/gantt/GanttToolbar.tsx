@@ -0,0 +1,322 @@
+/**
+ * Gantt Toolbar
+ * @governance COMPONENT-001
+ *
+ * Scale and display controls, trace logic, what-if sandbox, label columns,
+ * WBS levels, baseline picker, and chart and PMXML export. Controls whose
+ * callback is not passed are hidden.
+ */
+
+'use client';
+
+import { memo, useState } from 'react';
+import { GANTT_COLUMNS } from './ganttColumns';
+import type { GanttExportFormat, GanttPaperSize, GanttToolbarProps, TimelineScale } from './types';
+
+export const GanttToolbar = memo(function GanttToolbar({
+  scale,
+  showCriticalPath,
+  showDependencies,
+  onScaleChange,
+  onCriticalPathToggle,
+  onDependenciesToggle,
+  traceLogic = false,
+  onTraceLogicToggle,
+  traceSuccessors = false,
+  onTraceSuccessorsToggle,
+  sandbox = false,
+  onSandboxToggle,
+  columns,
+  onColumnToggle,
+  onZoomIn,
+  onZoomOut,
+  onGoToToday,
+  wbsLevels,
+  onExpandToLevel,
+  baselines,
+  baselineId = null,
+  onBaselineChange,
+  slipThresholdDays = null,
+  onSlipThresholdChange,
+  onExport,
+  isExporting = false,
+  onExportChart,
+  isExportingChart = false,
+}: GanttToolbarProps) {
+  const scales: TimelineScale[] = ['day', 'week', 'month', 'quarter', 'year'];
+  const exportFormats: GanttExportFormat[] = ['pdf', 'svg', 'png'];
+  const [paperSize, setPaperSize] = useState<GanttPaperSize>('A3');
+  const p6Baselines = baselines?.filter((baseline) => baseline.source === 'p6') ?? [];
+  const syncBaselines = baselines?.filter((baseline) => baseline.source === 'sync') ?? [];
+
+  return (
+    <div className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+      {/* Scale buttons */}
+      <div className="flex items-center gap-1">
+        {scales.map((s) => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => onScaleChange(s)}
+            aria-pressed={scale === s}
+            className={`px-3 py-1.5 text-xs font-medium rounded ${
+              scale === s
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+            }`}
+          >
+            {s.charAt(0).toUpperCase() + s.slice(1)}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+
+      {/* Zoom controls */}
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onZoomIn}
+          aria-label="Zoom in"
+          className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v6m3-3H7" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          onClick={onZoomOut}
+          aria-label="Zoom out"
+          className="p-1.5 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM13 10H7" />
+          </svg>
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={onGoToToday}
+        className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded"
+      >
+        Today
+      </button>
+
+      <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+
+      {/* Toggles */}
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        <input
+          type="checkbox"
+          checked={showCriticalPath}
+          onChange={(e) => onCriticalPathToggle(e.target.checked)}
+          aria-label="Critical Path"
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        Critical Path
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+        <input
+          type="checkbox"
+          checked={showDependencies}
+          onChange={(e) => onDependenciesToggle(e.target.checked)}
+          aria-label="Dependencies"
+          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        Dependencies
+      </label>
+
+      {onTraceLogicToggle && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={traceLogic}
+            onChange={(e) => onTraceLogicToggle(e.target.checked)}
+            aria-label="Trace Logic"
+            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Trace Logic
+        </label>
+      )}
+      {traceLogic && onTraceSuccessorsToggle && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={traceSuccessors}
+            onChange={(e) => onTraceSuccessorsToggle(e.target.checked)}
+            aria-label="Trace successors"
+            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Successors
+        </label>
+      )}
+      {onSandboxToggle && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={sandbox}
+            onChange={(e) => onSandboxToggle(e.target.checked)}
+            aria-label="What-if Sandbox"
+            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          What-if
+        </label>
+      )}
+
+      {/* Label column chooser */}
+      {columns && onColumnToggle && (
+        <>
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+          <details className="relative">
+            <summary className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded cursor-pointer list-none">
+              Columns
+            </summary>
+            <fieldset className="absolute z-20 mt-1 w-44 p-2 flex flex-col gap-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded shadow-lg">
+              <legend className="sr-only">Label columns</legend>
+              {GANTT_COLUMNS.filter((column) => column.id !== 'name').map((column) => (
+                <label key={column.id} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.id)}
+                    onChange={(e) => onColumnToggle(column.id, e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </fieldset>
+          </details>
+        </>
+      )}
+
+      {/* WBS levels */}
+      {wbsLevels !== undefined && onExpandToLevel && (
+        <>
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+          <div role="group" aria-label="Expand WBS to level" className="flex items-center gap-1">
+            <span className="mr-1 text-xs text-gray-500 dark:text-gray-400">WBS</span>
+            {Array.from({ length: wbsLevels }, (_, i) => i + 1).map((level) => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => onExpandToLevel(level)}
+                aria-label={`Expand to level ${level}`}
+                className="px-2 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded"
+              >
+                {level}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => onExpandToLevel(null)}
+              aria-label="Expand all"
+              className="px-2 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded"
+            >
+              All
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* Baseline comparison */}
+      {baselines && onBaselineChange && (
+        <>
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600" />
+          <select
+            value={baselineId ?? ''}
+            onChange={(e) => onBaselineChange(e.target.value || null)}
+            disabled={baselines.length === 0}
+            aria-label="Baseline"
+            className="px-2 py-1.5 text-xs bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded disabled:opacity-50"
+          >
+            <option value="">{baselines.length === 0 ? 'No baselines' : 'No baseline'}</option>
+            {p6Baselines.length > 0 && (
+              <optgroup label="P6 baselines">
+                {p6Baselines.map((baseline) => (
+                  <option key={baseline.id} value={baseline.id}>
+                    {baseline.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {syncBaselines.length > 0 && (
+              <optgroup label="ORION sync snapshots">
+                {syncBaselines.map((baseline) => (
+                  <option key={baseline.id} value={baseline.id}>
+                    {baseline.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {baselineId && onSlipThresholdChange && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              Slipped more than
+              <input
+                type="number"
+                min={0}
+                value={slipThresholdDays ?? ''}
+                onChange={(e) => onSlipThresholdChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                aria-label="Slipped more than (days)"
+                className="w-16 px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded"
+              />
+              days
+            </label>
+          )}
+        </>
+      )}
+
+      {(onExportChart || onExport) && (
+        <div className="ml-auto flex items-center gap-2">
+          {/* Chart export of the current view */}
+          {onExportChart && (
+            <div role="group" aria-label="Export chart" className="flex items-center gap-1">
+              {(['A3', 'A4'] as const).map((size) => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => setPaperSize(size)}
+                  aria-pressed={paperSize === size}
+                  aria-label={`${size} paper`}
+                  className={`px-2 py-1.5 text-xs font-medium rounded ${
+                    paperSize === size
+                      ? 'bg-gray-700 text-white dark:bg-gray-200 dark:text-gray-900'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {size}
+                </button>
+              ))}
+              {exportFormats.map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => onExportChart({ format, paperSize })}
+                  disabled={isExportingChart}
+                  aria-label={`Export chart as ${format.toUpperCase()}`}
+                  className="px-2 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded disabled:opacity-50"
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {onExport && (
+            <button
+              type="button"
+              onClick={onExport}
+              disabled={isExporting}
+              className="px-3 py-1.5 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              {isExporting ? 'Exporting...' : 'Export PMXML'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
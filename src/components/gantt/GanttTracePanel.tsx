@@ -0,0 +1,93 @@
+/**
+ * Gantt Trace Panel
+ * @governance COMPONENT-001
+ *
+ * Driving path of the selected activity, step by step. Picking a step
+ * scrolls the chart to its bar; useGanttTrace works out the path.
+ */
+
+'use client';
+
+import { memo } from 'react';
+import { formatVariance } from './ganttFormat';
+import type { ActivityRelationship, GanttTracePanelProps } from './types';
+
+/** "FS", "SS +5d", "FF -2d" */
+const formatRelationship = (type: ActivityRelationship['type'], lag: number): string =>
+  lag === 0 ? type : `${type} ${formatVariance(lag)}`;
+
+export const GanttTracePanel = memo(function GanttTracePanel({
+  activity,
+  steps,
+  currentStep,
+  onStep,
+}: GanttTracePanelProps) {
+  const stepButton = 'px-2 py-1 text-xs font-medium bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 rounded disabled:opacity-50';
+
+  return (
+    <aside
+      aria-label="Trace logic"
+      className="w-72 flex-shrink-0 flex flex-col border-l border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 overflow-hidden"
+    >
+      {!activity || !steps ? (
+        <p role="status" className="p-3 text-sm text-gray-600 dark:text-gray-300">
+          {!activity
+            ? 'Select an activity to trace its driving logic.'
+            : `${activity.activityId} has no driving logic: it is complete or outside the schedule network.`}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center gap-1 p-3 border-b border-gray-200 dark:border-gray-700">
+            <span className="flex-1 text-sm font-medium text-gray-700 dark:text-gray-200">
+              Step {currentStep + 1} of {steps.length}
+            </span>
+            <button
+              type="button"
+              onClick={() => onStep(currentStep - 1)}
+              disabled={currentStep === 0}
+              aria-label="Previous step"
+              className={stepButton}
+            >
+              Prev
+            </button>
+            <button
+              type="button"
+              onClick={() => onStep(currentStep + 1)}
+              disabled={currentStep === steps.length - 1}
+              aria-label="Next step"
+              className={stepButton}
+            >
+              Next
+            </button>
+          </div>
+          <ol aria-label="Driving path" className="flex-1 overflow-y-auto">
+            {steps.map((step, index) => (
+              <li key={step.activity.objectId} aria-current={index === currentStep ? 'step' : undefined}>
+                <button
+                  type="button"
+                  onClick={() => onStep(index)}
+                  className={`w-full px-3 py-2 text-left text-xs border-b border-gray-100 dark:border-gray-700 ${
+                    index === currentStep ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="block font-medium text-gray-900 dark:text-white truncate">
+                    {step.activity.activityId} {step.activity.name}
+                    {step.activity.objectId === activity.objectId && ' (traced)'}
+                  </span>
+                  <span className="block text-gray-500 dark:text-gray-400">
+                    {step.drivenBy.length === 0
+                      ? 'Driven by the data date'
+                      : step.drivenBy
+                          .map((link) => `${formatRelationship(link.type, link.lag)} from ${link.activityId}`)
+                          .join(', ')}
+                    {' · '}Free float {step.freeFloat}d
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </aside>
+  );
+});
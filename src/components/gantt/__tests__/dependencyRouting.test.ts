@@ -0,0 +1,162 @@
+/**
+ * Gantt Dependency Line Routing Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - Bar ends linked by FS, SS, FF and SF relationships
+ * - Lag spans and columns at the end of the lag
+ * - Vertical runs moved clear of bars on the rows crossed
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_AVOIDED_ROWS, routeDependency, routeExtent, type RouteOptions } from '../dependencyRouting';
+import type { ActivityRelationship, GanttBar } from '../types';
+
+function bar(row: number, x: number, width: number): GanttBar {
+  return {
+    activityId: `A${1000 + row * 10}`,
+    x,
+    width,
+    y: row * 32,
+    color: '#9ca3af',
+    progressWidth: 0,
+    isMilestone: false,
+    isCritical: false,
+  };
+}
+
+function link(type: ActivityRelationship['type'], lag = 0): ActivityRelationship {
+  return { predecessorObjectId: 1, successorObjectId: 2, type, lag };
+}
+
+/** Day scale rows with only the given bars between the ends */
+const options = (between: Record<number, GanttBar> = {}): RouteOptions => ({
+  pixelsPerDay: 10,
+  rowHeight: 32,
+  barAtRow: (index) => between[index] ?? null,
+});
+
+// Predecessor 100-200 on row 0
+const from = bar(0, 100, 100);
+
+describe('routeDependency', () => {
+  it('links the predecessor finish to the successor start for FS', () => {
+    const route = routeDependency(link('FS'), from, bar(1, 260, 50), options());
+
+    expect(route.points).toEqual([
+      [200, 12],
+      [208, 12],
+      [208, 44],
+      [260, 44],
+    ]);
+    expect(route.lag).toBeNull();
+  });
+
+  it('links both starts for SS, entering the successor from the left', () => {
+    const route = routeDependency(link('SS'), from, bar(1, 150, 50), options());
+
+    expect(route.points[0]).toEqual([100, 12]);
+    expect(route.points[1]).toEqual([92, 12]);
+    expect(route.points[route.points.length - 1]).toEqual([150, 44]);
+    expect(route.points[route.points.length - 2][0]).toBeLessThan(150);
+  });
+
+  it('links both finishes for FF, entering the successor from the right', () => {
+    const route = routeDependency(link('FF'), from, bar(1, 120, 60), options());
+
+    expect(route.points).toEqual([
+      [200, 12],
+      [208, 12],
+      [208, 44],
+      [180, 44],
+    ]);
+  });
+
+  it('links the predecessor start to the successor finish for SF', () => {
+    const route = routeDependency(link('SF'), from, bar(1, 20, 60), options());
+
+    expect(route.points).toEqual([
+      [100, 12],
+      [92, 12],
+      [92, 44],
+      [80, 44],
+    ]);
+  });
+
+  it('loops back along the row gap when the successor starts before the predecessor finishes', () => {
+    const route = routeDependency(link('FS'), from, bar(1, 150, 50), options());
+
+    expect(route.points).toEqual([
+      [200, 12],
+      [208, 12],
+      [208, 32],
+      [142, 32],
+      [142, 44],
+      [150, 44],
+    ]);
+  });
+
+  it('routes upwards along the top of the predecessor row', () => {
+    const route = routeDependency(link('FS'), bar(3, 100, 100), bar(1, 300, 50), options());
+
+    expect(route.points).toEqual([
+      [200, 108],
+      [208, 108],
+      [208, 44],
+      [300, 44],
+    ]);
+  });
+
+  it('draws the lag from the linked end and drops at its end', () => {
+    // SS with 5 days lag at 10 px a day: the successor starts 50 px after the predecessor
+    const route = routeDependency(link('SS', 5), from, bar(1, 180, 50), options());
+
+    expect(route.lag).toEqual({ x1: 100, x2: 150, y: 32 });
+    expect(route.points).toEqual([
+      [100, 12],
+      [92, 12],
+      [92, 32],
+      [150, 32],
+      [150, 44],
+      [180, 44],
+    ]);
+  });
+
+  it('draws negative lag back from the linked end', () => {
+    const route = routeDependency(link('FS', -3), from, bar(1, 170, 50), options());
+
+    expect(route.lag).toEqual({ x1: 200, x2: 170, y: 32 });
+    expect(route.points[route.points.length - 1]).toEqual([170, 44]);
+  });
+
+  it('moves the vertical run clear of bars on the rows it crosses', () => {
+    const blocking = bar(1, 190, 40);
+    const route = routeDependency(link('FS'), from, bar(2, 300, 50), options({ 1: blocking }));
+
+    const columns = route.points.filter(([, y]) => y === 32).map(([x]) => x);
+    const column = columns[columns.length - 1];
+    expect(column > blocking.x + blocking.width || column < blocking.x).toBe(true);
+    expect(column).toBeLessThanOrEqual(292);
+    expect(route.points[route.points.length - 1]).toEqual([300, 76]);
+  });
+
+  it('keeps the column over long runs rather than searching every row', () => {
+    const between = Object.fromEntries(
+      Array.from({ length: MAX_AVOIDED_ROWS + 1 }, (_, i) => [i + 1, bar(i + 1, 190, 40)])
+    );
+    const to = bar(MAX_AVOIDED_ROWS + 2, 300, 50);
+
+    const route = routeDependency(link('FS'), from, to, options(between));
+
+    expect(route.points[1]).toEqual([208, 12]);
+    expect(route.points[2][0]).toBe(208);
+  });
+});
+
+describe('routeExtent', () => {
+  it('spans the points and the lag', () => {
+    const route = routeDependency(link('FS', -15), from, bar(1, 50, 20), options());
+
+    expect(routeExtent(route)).toEqual({ left: 42, right: 208 });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Gantt Label Column Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - Showing and hiding columns in grid order
+ * - Sort cycling and width limits
+ * - Total float from the schedule logic, falling back to P6, and WBS codes
+ * - Cell text and sorting with missing values last
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCriticalPath } from '@/lib/schedule/cpm';
+import {
+  MAX_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  clampColumnWidth,
+  formatColumnValue,
+  getColumnValues,
+  nextSort,
+  sortActivities,
+  toggleColumn,
+} from '../ganttColumns';
+import type { WBSNode } from '@/components/wbs-tree/types';
+import type { GanttActivity, GanttColumnValues } from '../types';
+
+const activity = (objectId: number, overrides: Partial<GanttActivity> = {}): GanttActivity => ({
+  id: `activity-${objectId}`,
+  objectId,
+  wbsObjectId: 7001,
+  activityId: `A${objectId}`,
+  name: `Activity ${objectId}`,
+  activityType: 'Task Dependent',
+  status: 'not_started',
+  percentComplete: 0,
+  plannedStart: '2025-01-06T08:00:00Z',
+  plannedFinish: '2025-01-11T08:00:00Z',
+  actualStart: null,
+  actualFinish: null,
+  plannedDuration: 5,
+  remainingDuration: 5,
+  isCritical: false,
+  isMilestone: false,
+  predecessors: [],
+  successors: [],
+  ...overrides,
+});
+
+const wbs = (objectId: number, wbsCode: string, children: WBSNode[] = []): WBSNode => ({
+  id: `wbs-${objectId}`,
+  objectId,
+  parentObjectId: null,
+  wbsCode,
+  name: `WBS ${wbsCode}`,
+  percentComplete: 0,
+  budgetAtCompletion: 0,
+  plannedTotalCost: 0,
+  actualTotalCost: 0,
+  hierarchyLevel: 0,
+  activityCount: 0,
+  children,
+  isExpanded: true,
+  sapMapped: false,
+});
+
+const values = (totalFloat: number | null = null, wbsCode: string | null = null): GanttColumnValues => ({
+  totalFloat,
+  wbsCode,
+});
+
+describe('toggleColumn', () => {
+  it('keeps grid order whichever column is shown first', () => {
+    expect(toggleColumn(['name'], 'wbsCode', true)).toEqual(['name', 'wbsCode']);
+    expect(toggleColumn(['name', 'wbsCode'], 'activityId', true)).toEqual(['activityId', 'name', 'wbsCode']);
+  });
+
+  it('hides a column but never the name', () => {
+    expect(toggleColumn(['activityId', 'name'], 'activityId', false)).toEqual(['name']);
+    expect(toggleColumn(['activityId', 'name'], 'name', false)).toEqual(['activityId', 'name']);
+  });
+});
+
+describe('nextSort', () => {
+  it('cycles ascending, descending and the schedule order', () => {
+    const asc = nextSort(null, 'start');
+    expect(asc).toEqual({ column: 'start', direction: 'asc' });
+    const desc = nextSort(asc, 'start');
+    expect(desc).toEqual({ column: 'start', direction: 'desc' });
+    expect(nextSort(desc, 'start')).toBeNull();
+  });
+
+  it('starts ascending on another column', () => {
+    expect(nextSort({ column: 'start', direction: 'desc' }, 'finish')).toEqual({ column: 'finish', direction: 'asc' });
+  });
+});
+
+describe('clampColumnWidth', () => {
+  it('keeps widths within the limits in whole pixels', () => {
+    expect(clampColumnWidth(10)).toBe(MIN_COLUMN_WIDTH);
+    expect(clampColumnWidth(5000)).toBe(MAX_COLUMN_WIDTH);
+    expect(clampColumnWidth(120.4)).toBe(120);
+  });
+});
+
+describe('getColumnValues', () => {
+  it('takes total float from the schedule logic and P6 outside the network', () => {
+    const inNetwork = activity(1, { totalFloat: 99 });
+    const outside = activity(2, { totalFloat: 4 });
+    const schedule = computeCriticalPath([inNetwork], [], { dataDate: '2025-01-06T08:00:00' });
+
+    const columnValues = getColumnValues([inNetwork, outside], schedule, undefined);
+
+    expect(columnValues.get(1)?.totalFloat).toBe(0);
+    expect(columnValues.get(2)?.totalFloat).toBe(4);
+  });
+
+  it('finds WBS codes anywhere in the tree', () => {
+    const schedule = computeCriticalPath([], []);
+    const nested = activity(1, { wbsObjectId: 12 });
+    const ungrouped = activity(2, { wbsObjectId: 99 });
+
+    const columnValues = getColumnValues([nested, ungrouped], schedule, [wbs(10, 'NW', [wbs(12, 'NW.2')])]);
+
+    expect(columnValues.get(1)?.wbsCode).toBe('NW.2');
+    expect(columnValues.get(2)?.wbsCode).toBeNull();
+  });
+});
+
+describe('formatColumnValue', () => {
+  it('reads durations and float in days, dates as actual or planned', () => {
+    const started = activity(1, {
+      actualStart: '2025-01-07T08:00:00Z',
+      plannedDuration: 12.25,
+      remainingDuration: 0,
+      percentComplete: 40,
+    });
+
+    expect(formatColumnValue('originalDuration', started, values())).toBe('12.3d');
+    expect(formatColumnValue('remainingDuration', started, values())).toBe('0d');
+    expect(formatColumnValue('totalFloat', started, values(-3))).toBe('-3d');
+    expect(formatColumnValue('start', started, values())).toBe('07-Jan-25');
+    expect(formatColumnValue('finish', started, values())).toBe('11-Jan-25');
+    expect(formatColumnValue('percentComplete', started, values())).toBe('40%');
+  });
+
+  it('shows a dash for missing values', () => {
+    expect(formatColumnValue('totalFloat', activity(1), values())).toBe('–');
+    expect(formatColumnValue('wbsCode', activity(1), values())).toBe('–');
+  });
+});
+
+describe('sortActivities', () => {
+  const a10 = activity(1, { activityId: 'A10', plannedDuration: 8 });
+  const a9 = activity(2, { activityId: 'A9', plannedDuration: 3 });
+  const a100 = activity(3, { activityId: 'A100', plannedDuration: 8 });
+  const activities = [a10, a9, a100];
+
+  it('keeps the schedule order without a sort', () => {
+    expect(sortActivities(activities, null, new Map())).toBe(activities);
+  });
+
+  it('compares IDs by their numbers', () => {
+    const sorted = sortActivities(activities, { column: 'activityId', direction: 'asc' }, new Map());
+
+    expect(sorted.map((a) => a.activityId)).toEqual(['A9', 'A10', 'A100']);
+  });
+
+  it('reverses for descending and keeps ties in schedule order', () => {
+    const sorted = sortActivities(activities, { column: 'originalDuration', direction: 'desc' }, new Map());
+
+    expect(sorted.map((a) => a.activityId)).toEqual(['A10', 'A100', 'A9']);
+  });
+
+  it('puts missing values last in both directions', () => {
+    const columnValues = new Map([
+      [1, values(5)],
+      [2, values(null)],
+      [3, values(-2)],
+    ]);
+
+    const asc = sortActivities(activities, { column: 'totalFloat', direction: 'asc' }, columnValues);
+    const desc = sortActivities(activities, { column: 'totalFloat', direction: 'desc' }, columnValues);
+
+    expect(asc.map((a) => a.activityId)).toEqual(['A100', 'A10', 'A9']);
+    expect(desc.map((a) => a.activityId)).toEqual(['A10', 'A100', 'A9']);
+  });
+});
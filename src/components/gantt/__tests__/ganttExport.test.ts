@@ -0,0 +1,308 @@
+/**
+ * Gantt Chart Export Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - Tiling across and down A4/A3 pages
+ * - Title block, timeline header and row labels repeated on every page
+ * - Routed dependency lines with their lag spans
+ * - SVG and PDF documents, WinAnsi text
+ * - One download per export: PDF, a single page, or numbered pages zipped
+ * - Page limit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_EXPORT_PAGES,
+  countPages,
+  exportGanttChart,
+  layoutPages,
+  renderPdf,
+  renderSvg,
+  type GanttPage,
+} from '../ganttExport';
+import type { GanttActivity, GanttBar, GanttExportView, GanttRow, TimelineConfig } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeline: TimelineConfig = {
+  startDate: new Date('2024-01-01T00:00:00Z'),
+  endDate: new Date('2024-12-31T00:00:00Z'),
+  scale: 'month',
+  pixelsPerDay: 3,
+  today: new Date('2024-03-20T00:00:00Z'),
+  dataDate: new Date('2024-03-15T00:00:00Z'),
+};
+
+function activity(index: number, overrides: Partial<GanttActivity> = {}): GanttActivity {
+  return {
+    id: `act-${index}`,
+    objectId: 2000 + index,
+    wbsObjectId: 1001,
+    activityId: `A${1000 + index * 10}`,
+    name: `Activity ${index}`,
+    activityType: 'Task Dependent',
+    status: 'not_started',
+    percentComplete: 0,
+    plannedStart: '2024-02-01T00:00:00Z',
+    plannedFinish: '2024-03-01T00:00:00Z',
+    actualStart: null,
+    actualFinish: null,
+    plannedDuration: 29,
+    remainingDuration: 29,
+    isCritical: false,
+    isMilestone: false,
+    predecessors: [],
+    successors: [],
+    ...overrides,
+  };
+}
+
+function bar(index: number, overrides: Partial<GanttBar> = {}): GanttBar {
+  return {
+    activityId: `A${1000 + index * 10}`,
+    x: 90,
+    width: 87,
+    y: index * 32,
+    color: '#9ca3af',
+    progressWidth: 0,
+    isMilestone: false,
+    isCritical: false,
+    ...overrides,
+  };
+}
+
+/** A chart at month scale, a year (1095 px) wide unless given, with `count` activity rows */
+function view(count: number, overrides: Partial<GanttExportView> = {}): GanttExportView {
+  const rows: GanttRow[] = Array.from({ length: count }, (_, i) => ({
+    kind: 'activity',
+    activity: activity(i),
+    indentLevel: 0,
+  }));
+  const chartWidth = overrides.chartWidth ?? 365 * 3;
+  return {
+    projectName: 'North Wharf',
+    timeline,
+    // 30-day periods, 90 px wide
+    periods: Array.from({ length: Math.ceil(chartWidth / 90) }, (_, i) => ({
+      start: new Date(timeline.startDate.getTime() + i * 30 * DAY_MS),
+      end: new Date(timeline.startDate.getTime() + (i + 1) * 30 * DAY_MS),
+      label: `P${i + 1}`,
+      width: 90,
+    })),
+    rows,
+    bars: rows.map((_, i) => bar(i)),
+    links: [],
+    rowHeight: 32,
+    chartWidth,
+    ...overrides,
+  };
+}
+
+const texts = (page: GanttPage) =>
+  [...page.shapes, ...page.chart].flatMap((shape) => (shape.type === 'text' ? [shape.text] : []));
+
+describe('layoutPages', () => {
+  it('fits a small chart on one page with a title block', () => {
+    const [page, ...rest] = layoutPages(view(3), 'A3', new Date('2024-04-02T00:00:00Z'));
+
+    expect(rest).toHaveLength(0);
+    expect(page).toMatchObject({ number: 1, width: 1190.55, height: 841.89 });
+    expect(texts(page)).toEqual(
+      expect.arrayContaining([
+        'North Wharf',
+        'Data date 2024-03-15   Month scale   Printed 2024-04-02',
+        'Page 1 of 1',
+        'Activity',
+        'P1',
+        'A1000 Activity 0',
+        'A1020 Activity 2',
+      ])
+    );
+  });
+
+  it('tiles across and then down, repeating labels and header on every page', () => {
+    // A4 holds 29 rows and 1211 px per page: 40 rows over a 1500 px chart needs two bands of two pages
+    const pages = layoutPages(view(40, { chartWidth: 1500 }), 'A4');
+
+    expect(pages).toHaveLength(4);
+    expect(pages.map((page) => texts(page).find((text) => text.startsWith('Page')))).toEqual([
+      'Page 1 of 4',
+      'Page 2 of 4',
+      'Page 3 of 4',
+      'Page 4 of 4',
+    ]);
+    for (const page of pages) {
+      expect(texts(page)).toContain('North Wharf');
+      expect(texts(page)).toContain('Activity');
+    }
+    // Both pages of a band label the same rows
+    expect(texts(pages[1])).toContain('A1000 Activity 0');
+    expect(texts(pages[1])).not.toContain('A1290 Activity 29');
+    expect(texts(pages[2])).toContain('A1290 Activity 29');
+    // Each page's header carries the periods of its dates
+    expect(texts(pages[0])).toContain('P1');
+    expect(texts(pages[1])).not.toContain('P1');
+    expect(texts(pages[1])).toContain('P14');
+  });
+
+  it('prints fewer pages on A3 than A4', () => {
+    const chart = view(60, { chartWidth: 2400 });
+
+    expect(layoutPages(chart, 'A3').length).toBeLessThan(layoutPages(chart, 'A4').length);
+  });
+
+  it('shortens long names to the label column', () => {
+    const long = view(1);
+    long.rows = [{ kind: 'activity', activity: activity(0, { name: 'Install '.repeat(20) }), indentLevel: 0 }];
+
+    const label = texts(layoutPages(long, 'A4')[0]).find((text) => text.startsWith('A1000'));
+
+    expect(label?.endsWith('...')).toBe(true);
+    expect(label!.length).toBeLessThan(60);
+  });
+
+  it('draws critical lines, baseline bars and dependency lines in the tile', () => {
+    const critical = bar(0, { isCritical: true, color: '#dc2626', baseline: { x: 60, width: 87 } });
+    const [page] = layoutPages(
+      view(2, {
+        bars: [critical, bar(1, { x: 200 })],
+        links: [
+          {
+            route: {
+              points: [
+                [177, 12],
+                [185, 12],
+                [185, 32],
+                [192, 32],
+                [192, 44],
+                [200, 44],
+              ],
+              lag: { x1: 177, x2: 192, y: 32 },
+            },
+            isCritical: false,
+            isDriving: false,
+          },
+        ],
+      }),
+      'A4'
+    );
+
+    const lines = page.chart.filter((shape) => shape.type === 'line');
+    expect(lines.some((line) => line.type === 'line' && line.stroke === '#dc2626')).toBe(true);
+    expect(page.chart.some((shape) => shape.type === 'rect' && shape.fill === '#6b7280')).toBe(true);
+    const links = page.chart.filter((shape) => shape.type === 'polyline');
+    expect(links).toHaveLength(1);
+    // Not driving, so dashed
+    expect(links[0]).toMatchObject({ stroke: '#9ca3af', dash: 2 });
+    expect(links[0].type === 'polyline' && links[0].points).toHaveLength(6);
+    // Lag span and its two end ticks
+    expect(lines.filter((line) => line.type === 'line' && line.stroke === '#9ca3af')).toHaveLength(3);
+    // Data date line
+    expect(lines.some((line) => line.type === 'line' && line.stroke === '#10b981')).toBe(true);
+  });
+});
+
+describe('renderSvg', () => {
+  it('writes a page sized in points with the chart clipped to its tile', () => {
+    const [page] = layoutPages(view(2, { projectName: 'Wharf & Quay <Stage 2>' }), 'A4');
+
+    const svg = renderSvg(page);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="841.89pt" height="595.28pt"/);
+    expect(svg).toContain('Wharf &amp; Quay &lt;Stage 2&gt;');
+    expect(svg).toContain('<clipPath id="gantt-tile">');
+    expect(svg).toContain('<g clip-path="url(#gantt-tile)">');
+    expect(new DOMParser().parseFromString(svg, 'image/svg+xml').querySelector('parsererror')).toBeNull();
+  });
+});
+
+describe('renderPdf', () => {
+  const decode = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+  it('writes one PDF page per tile with a valid cross-reference table', () => {
+    const pages = layoutPages(view(40, { chartWidth: 1500 }), 'A4');
+
+    const pdf = decode(renderPdf(pages));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 4');
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(4);
+    // Every xref entry points at its object
+    const xref = pdf.slice(pdf.lastIndexOf('xref\n0 '));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    expect(offsets).toHaveLength(12);
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    // startxref points at the table
+    expect(Number(pdf.match(/startxref\n(\d+)/)![1])).toBe(pdf.lastIndexOf('xref\n0 '));
+  });
+
+  it('escapes text and stream lengths match their content', () => {
+    const pdf = decode(renderPdf(layoutPages(view(1, { projectName: 'Wharf (Stage 2) \\ Quay' }), 'A4')));
+
+    expect(pdf).toContain('(Wharf \\(Stage 2\\) \\\\ Quay) Tj');
+    const [, length, content] = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(content.length).toBe(Number(length));
+  });
+
+  it('writes the dash of a missing percent as the WinAnsi en dash', () => {
+    const unreported = view(1);
+    unreported.rows = [{ kind: 'activity', activity: activity(0, { percentComplete: null }), indentLevel: 0 }];
+
+    const pdf = decode(renderPdf(layoutPages(unreported, 'A4')));
+
+    expect(pdf).toContain('(\x96) Tj');
+    expect(pdf).not.toContain('(?) Tj');
+  });
+});
+
+describe('exportGanttChart', () => {
+  const bytes = (blob: Blob) =>
+    new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String.fromCharCode(...new Uint8Array(reader.result as ArrayBuffer)));
+      reader.readAsArrayBuffer(blob);
+    });
+
+  it('saves a single PDF of every page', async () => {
+    const file = await exportGanttChart(view(40, { chartWidth: 1500 }), { format: 'pdf', paperSize: 'A4' }, 'gantt');
+
+    expect(file.filename).toBe('gantt.pdf');
+    expect(file.blob.type).toBe('application/pdf');
+  });
+
+  it('zips several SVG pages into one download, numbered', async () => {
+    const file = await exportGanttChart(view(40, { chartWidth: 1500 }), { format: 'svg', paperSize: 'A4' }, 'gantt');
+
+    expect(file.filename).toBe('gantt-svg.zip');
+    expect(file.blob.type).toBe('application/zip');
+    const zip = await bytes(file.blob);
+    expect(zip.startsWith('PK\x03\x04')).toBe(true);
+    expect([...zip.matchAll(/PK\x01\x02[\s\S]{42}(gantt-\d\.svg)/g)].map((match) => match[1])).toEqual([
+      'gantt-1.svg',
+      'gantt-2.svg',
+      'gantt-3.svg',
+      'gantt-4.svg',
+    ]);
+    expect(zip).toContain('Page 3 of 4');
+  });
+
+  it('names a single page without a number', async () => {
+    const file = await exportGanttChart(view(2), { format: 'svg', paperSize: 'A3' }, 'gantt');
+
+    expect(file.filename).toBe('gantt.svg');
+    expect(file.blob.type).toBe('image/svg+xml');
+  });
+
+  it('refuses a chart needing more than the page limit before laying it out', async () => {
+    // 1211 px per A4 page: a 122,000 px chart needs 101 pages
+    const wide = view(1, { chartWidth: 122000 });
+
+    expect(countPages(wide, 'A4')).toBe(MAX_EXPORT_PAGES + 1);
+    await expect(exportGanttChart(wide, { format: 'pdf', paperSize: 'A4' }, 'gantt')).rejects.toThrow(
+      'The chart needs 101 A4 pages; an export holds at most 100.'
+    );
+    expect(countPages(wide, 'A3')).toBeLessThanOrEqual(MAX_EXPORT_PAGES);
+  });
+});
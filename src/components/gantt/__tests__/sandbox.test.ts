@@ -0,0 +1,184 @@
+/**
+ * Gantt What-if Sandbox Tests
+ * @governance COMPONENT-001
+ *
+ * The network is 1 (5d) -> 2 (3d) -> 4 (milestone) and 1 -> 3 (2d) -> 4,
+ * from a data date of Monday 2025-01-06 08:00 with planned dates matching
+ * the schedule logic.
+ *
+ * Test coverage:
+ * - Duration, lag and dragged start edits propagating through successors
+ * - Shifts only for the activities the edits move
+ * - Project finish and milestone impact against the synced schedule
+ * - Adding, merging and clearing edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCriticalPath } from '@/lib/schedule/cpm';
+import { NO_EDITS, draggedStart, getScenarioImpact, scheduleScenario, withActivityEdit, withLagEdit } from '../sandbox';
+import type { ActivityRelationship, GanttActivity, ScenarioEdits } from '../types';
+
+const DATA_DATE = '2025-01-06T08:00:00';
+
+const activity = (
+  objectId: number,
+  duration: number,
+  plannedStart: string,
+  plannedFinish: string,
+  overrides: Partial<GanttActivity> = {}
+): GanttActivity => ({
+  id: `activity-${objectId}`,
+  objectId,
+  wbsObjectId: 7001,
+  activityId: `A${objectId}`,
+  name: `Activity ${objectId}`,
+  activityType: 'Task Dependent',
+  status: 'not_started',
+  percentComplete: 0,
+  plannedStart,
+  plannedFinish,
+  actualStart: null,
+  actualFinish: null,
+  plannedDuration: duration,
+  remainingDuration: duration,
+  isCritical: false,
+  isMilestone: false,
+  predecessors: [],
+  successors: [],
+  ...overrides,
+});
+
+const link = (predecessorObjectId: number, successorObjectId: number, lag = 0): ActivityRelationship => ({
+  predecessorObjectId,
+  successorObjectId,
+  type: 'FS',
+  lag,
+});
+
+const activities = [
+  activity(1, 5, '2025-01-06T08:00:00Z', '2025-01-11T08:00:00Z'),
+  activity(2, 3, '2025-01-11T08:00:00Z', '2025-01-14T08:00:00Z'),
+  activity(3, 2, '2025-01-11T08:00:00Z', '2025-01-13T08:00:00Z'),
+  activity(4, 0, '2025-01-14T08:00:00Z', '2025-01-14T08:00:00Z', { isMilestone: true }),
+];
+const relationships = [link(1, 2), link(1, 3), link(2, 4), link(3, 4)];
+const synced = computeCriticalPath(activities, relationships, { dataDate: DATA_DATE });
+
+const run = (edits: ScenarioEdits) =>
+  scheduleScenario(activities, relationships, synced, edits, { dataDate: DATA_DATE });
+
+describe('scheduleScenario', () => {
+  it('leaves the synced schedule as it is without edits', () => {
+    const scenario = run(NO_EDITS);
+
+    expect(scenario.shifts.size).toBe(0);
+    expect(scenario.activities).toEqual(activities);
+    expect(scenario.relationships).toEqual(relationships);
+  });
+
+  it('propagates a longer duration through the successors', () => {
+    const scenario = run(withActivityEdit(NO_EDITS, 3, { duration: 5 }));
+
+    expect(scenario.shifts).toEqual(
+      new Map([
+        [3, { startDays: 0, finishDays: 3 }],
+        [4, { startDays: 2, finishDays: 2 }],
+      ])
+    );
+    expect(scenario.activities[2]).toMatchObject({ plannedDuration: 5, remainingDuration: 5 });
+    expect(scenario.activities[3].plannedFinish).toBe('2025-01-16T08:00:00.000Z');
+    // Activity 2 gained float rather than moving
+    expect(scenario.activities[1]).toBe(activities[1]);
+    expect(scenario.schedule.activities.get(2)!.totalFloat).toBe(2);
+  });
+
+  it('applies lag edits to the matching relationship only', () => {
+    const scenario = run(withLagEdit(NO_EDITS, relationships[0], 4));
+
+    expect(scenario.relationships[0]).toEqual(link(1, 2, 4));
+    expect(scenario.relationships.slice(1)).toEqual(relationships.slice(1));
+    expect(scenario.shifts.get(2)).toEqual({ startDays: 4, finishDays: 4 });
+    expect(scenario.shifts.get(4)).toEqual({ startDays: 4, finishDays: 4 });
+  });
+
+  it('holds a dragged bar to its new start, moving what it drives', () => {
+    const start = draggedStart(synced, 3, 2);
+    const scenario = run(withActivityEdit(NO_EDITS, 3, { startOnOrAfter: start! }));
+
+    expect(start).toBe('2025-01-13T08:00:00');
+    expect(scenario.shifts.get(3)).toEqual({ startDays: 2, finishDays: 2 });
+    expect(scenario.shifts.get(4)).toEqual({ startDays: 1, finishDays: 1 });
+  });
+
+  it('keeps a bar dragged earlier than its logic allows after its predecessors', () => {
+    const scenario = run(withActivityEdit(NO_EDITS, 3, { startOnOrAfter: draggedStart(synced, 3, -3)! }));
+
+    expect(scenario.shifts.size).toBe(0);
+  });
+
+  it('ignores durations for milestones and completed activities', () => {
+    const done = activities.map((a) => (a.objectId === 1 ? { ...a, status: 'complete' as const } : a));
+    const scenario = scheduleScenario(
+      done,
+      relationships,
+      computeCriticalPath(done, relationships, { dataDate: DATA_DATE }),
+      {
+        activities: [
+          { objectId: 1, duration: 9 },
+          { objectId: 4, duration: 3 },
+        ],
+        relationships: [],
+      },
+      { dataDate: DATA_DATE }
+    );
+
+    expect(scenario.activities[0]).toBe(done[0]);
+    expect(scenario.activities[3]).toBe(done[3]);
+    expect(scenario.shifts.size).toBe(0);
+  });
+
+  it('returns null for dragged starts outside the network', () => {
+    expect(draggedStart(synced, 99, 1)).toBeNull();
+  });
+});
+
+describe('getScenarioImpact', () => {
+  it('compares the project finish and milestones with the synced schedule', () => {
+    const scenario = run(withActivityEdit(NO_EDITS, 2, { duration: 6 }));
+
+    expect(getScenarioImpact(activities, scenario.activities)).toEqual({
+      projectFinish: { synced: '2025-01-14T08:00:00Z', scenario: '2025-01-17T08:00:00.000Z', days: 3 },
+      milestones: [
+        {
+          activity: scenario.activities[3],
+          synced: '2025-01-14T08:00:00Z',
+          scenario: '2025-01-17T08:00:00.000Z',
+          days: 3,
+        },
+      ],
+    });
+  });
+
+  it('has no project finish without activities', () => {
+    expect(getScenarioImpact([], [])).toEqual({ projectFinish: null, milestones: [] });
+  });
+});
+
+describe('scenario edits', () => {
+  it('merges activity edits and drops them once cleared', () => {
+    const dragged = withActivityEdit(NO_EDITS, 3, { startOnOrAfter: '2025-01-13T08:00:00' });
+    const both = withActivityEdit(dragged, 3, { duration: 4 });
+
+    expect(both.activities).toEqual([{ objectId: 3, startOnOrAfter: '2025-01-13T08:00:00', duration: 4 }]);
+    expect(withActivityEdit(both, 3, { duration: undefined }).activities).toEqual(dragged.activities);
+    expect(withActivityEdit(dragged, 3, { startOnOrAfter: undefined }).activities).toEqual([]);
+  });
+
+  it('replaces a lag edit and removes it with null', () => {
+    const once = withLagEdit(NO_EDITS, relationships[1], 2);
+    const twice = withLagEdit(once, relationships[1], 5);
+
+    expect(twice.relationships).toEqual([link(1, 3, 5)]);
+    expect(withLagEdit(twice, relationships[1], null)).toEqual(NO_EDITS);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Gantt Dependency Line Routing
+ * @governance COMPONENT-001
+ *
+ * Orthogonal paths for relationship lines, shared by the chart and its
+ * export. A line leaves the predecessor at the end its relationship type
+ * links (finish for FS and FF, start for SS and SF) and enters the successor
+ * at the linked end (start for FS and SS, finish for FF and SF), always
+ * from outside the bar. Between rows it runs along the gaps between bars:
+ * down (or up) to the edge of the predecessor row, along it to a column and
+ * then to the successor row. The column is the end of the lag where the
+ * successor end allows it, moved clear of bars on the rows crossed.
+ */
+
+import type { ActivityRelationship, DependencyRoute, GanttBar } from './types';
+
+/** Vertical middle of a bar within its row */
+const BAR_MIDDLE = 12;
+/** Horizontal run out of and into a bar end */
+const STUB = 8;
+/** Space kept between a vertical run and the bars it passes */
+const CLEARANCE = 4;
+/** Rows between the ends searched for bars to route around; longer runs keep their column */
+export const MAX_AVOIDED_ROWS = 100;
+
+export interface RouteOptions {
+  pixelsPerDay: number;
+  rowHeight: number;
+  /** Bar of a row, null where the row has none */
+  barAtRow: (index: number) => GanttBar | null;
+}
+
+/** Relationship types linked to the predecessor's finish and the successor's finish */
+const fromFinish = (type: ActivityRelationship['type']) => type === 'FS' || type === 'FF';
+const toFinish = (type: ActivityRelationship['type']) => type === 'FF' || type === 'SF';
+
+/**
+ * Column of the vertical run: the preferred one unless it crosses a bar on
+ * the rows between, else the nearest clear one still allowed
+ */
+function clearColumn(
+  preferred: number,
+  allowed: (x: number) => boolean,
+  fromRow: number,
+  toRow: number,
+  options: RouteOptions
+): number {
+  const obstacles: GanttBar[] = [];
+  const [first, last] = fromRow < toRow ? [fromRow + 1, toRow - 1] : [toRow + 1, fromRow - 1];
+  if (last - first + 1 > MAX_AVOIDED_ROWS) return preferred;
+  for (let index = first; index <= last; index++) {
+    const bar = options.barAtRow(index);
+    if (bar) obstacles.push(bar);
+  }
+  const isClear = (x: number) => obstacles.every((bar) => x < bar.x - CLEARANCE || x > bar.x + bar.width + CLEARANCE);
+  if (isClear(preferred)) return preferred;
+
+  const candidates = obstacles
+    .flatMap((bar) => [bar.x - CLEARANCE - 1, bar.x + bar.width + CLEARANCE + 1])
+    .filter((x) => allowed(x) && isClear(x))
+    .sort((a, b) => Math.abs(a - preferred) - Math.abs(b - preferred));
+  return candidates[0] ?? preferred;
+}
+
+/** Drop repeated points and the middle of straight runs */
+function simplify(points: Array<[number, number]>): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && last[0] === point[0] && last[1] === point[1]) continue;
+    const before = result[result.length - 2];
+    if (
+      before &&
+      ((before[0] === last![0] && last![0] === point[0]) || (before[1] === last![1] && last![1] === point[1]))
+    ) {
+      result[result.length - 1] = point;
+    } else {
+      result.push(point);
+    }
+  }
+  return result;
+}
+
+/**
+ * Route a relationship line between its predecessor and successor bars
+ */
+export function routeDependency(
+  relationship: ActivityRelationship,
+  fromBar: GanttBar,
+  toBar: GanttBar,
+  options: RouteOptions
+): DependencyRoute {
+  const { rowHeight } = options;
+  const startX = fromFinish(relationship.type) ? fromBar.x + fromBar.width : fromBar.x;
+  const endX = toFinish(relationship.type) ? toBar.x + toBar.width : toBar.x;
+  const startY = fromBar.y + BAR_MIDDLE;
+  const endY = toBar.y + BAR_MIDDLE;
+  // Away from the predecessor's bar, and the way the arrow travels into the successor's
+  const out = fromFinish(relationship.type) ? 1 : -1;
+  const into = toFinish(relationship.type) ? -1 : 1;
+
+  const lagX = startX + relationship.lag * options.pixelsPerDay;
+  const gutterY = toBar.y > fromBar.y ? fromBar.y + rowHeight : fromBar.y;
+  const exitX = startX + out * STUB;
+  const limit = endX - into * STUB;
+  const allowed = (x: number) => (into === 1 ? x <= limit : x >= limit);
+  const wanted = relationship.lag === 0 ? exitX : lagX;
+  const preferred = allowed(wanted) ? wanted : limit;
+  const columnX = clearColumn(
+    preferred,
+    allowed,
+    Math.round(fromBar.y / rowHeight),
+    Math.round(toBar.y / rowHeight),
+    options
+  );
+
+  return {
+    points: simplify([
+      [startX, startY],
+      [exitX, startY],
+      [exitX, gutterY],
+      [columnX, gutterY],
+      [columnX, endY],
+      [endX, endY],
+    ]),
+    lag: relationship.lag === 0 ? null : { x1: startX, x2: lagX, y: gutterY },
+  };
+}
+
+/** Leftmost and rightmost x a route reaches, its lag included */
+export function routeExtent(route: DependencyRoute): { left: number; right: number } {
+  const xs = route.points.map(([x]) => x);
+  if (route.lag) xs.push(route.lag.x1, route.lag.x2);
+  return { left: Math.min(...xs), right: Math.max(...xs) };
+}
@@ -0,0 +1,167 @@
+/**
+ * Gantt Label Columns
+ * @governance COMPONENT-001
+ *
+ * The label column's grid: the activity fields it can show, how they read
+ * and how they sort. Total float comes from the chart's schedule logic,
+ * like the critical flags, so it follows the sandbox; activities outside
+ * the network keep P6's. Sorting orders the activities within their WBS
+ * element and leaves the grouping alone.
+ */
+
+import type { CpmSchedule } from '@/lib/schedule/cpm';
+import type { WBSNode } from '@/components/wbs-tree/types';
+import type { GanttActivity, GanttColumn, GanttColumnId, GanttColumnSort, GanttColumnValues } from './types';
+
+/** Every column in grid order */
+export const GANTT_COLUMNS: GanttColumn[] = [
+  { id: 'activityId', label: 'Activity ID', width: 80, align: 'left' },
+  { id: 'name', label: 'Activity Name', width: 200, align: 'left' },
+  { id: 'originalDuration', label: 'Orig. Dur.', width: 64, align: 'right' },
+  { id: 'remainingDuration', label: 'Rem. Dur.', width: 64, align: 'right' },
+  { id: 'start', label: 'Start', width: 88, align: 'left' },
+  { id: 'finish', label: 'Finish', width: 88, align: 'left' },
+  { id: 'totalFloat', label: 'Total Float', width: 64, align: 'right' },
+  { id: 'percentComplete', label: '% Complete', width: 64, align: 'right' },
+  { id: 'wbsCode', label: 'WBS', width: 96, align: 'left' },
+];
+
+export const DEFAULT_COLUMNS: GanttColumnId[] = ['activityId', 'name', 'percentComplete'];
+
+export const DEFAULT_COLUMN_WIDTHS = Object.fromEntries(
+  GANTT_COLUMNS.map((column) => [column.id, column.width])
+) as Record<GanttColumnId, number>;
+
+export const MIN_COLUMN_WIDTH = 40;
+export const MAX_COLUMN_WIDTH = 480;
+
+const COLUMNS_BY_ID = new Map(GANTT_COLUMNS.map((column) => [column.id, column]));
+
+export const getColumn = (id: GanttColumnId): GanttColumn => COLUMNS_BY_ID.get(id)!;
+
+/** Shown columns after showing or hiding one; the name stays and grid order holds */
+export function toggleColumn(columns: GanttColumnId[], id: GanttColumnId, show: boolean): GanttColumnId[] {
+  if (id === 'name') return columns;
+  return GANTT_COLUMNS.map((column) => column.id).filter((column) => (column === id ? show : columns.includes(column)));
+}
+
+export const clampColumnWidth = (width: number): number =>
+  Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width)));
+
+/** Header clicks cycle ascending, descending and back to the schedule order */
+export function nextSort(sort: GanttColumnSort | null, column: GanttColumnId): GanttColumnSort | null {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Total float and WBS code of every activity, by activity Object ID
+ */
+export function getColumnValues(
+  activities: GanttActivity[],
+  schedule: CpmSchedule,
+  wbsNodes: WBSNode[] | undefined
+): Map<number, GanttColumnValues> {
+  const wbsCodes = new Map<number, string>();
+  const visit = (node: WBSNode) => {
+    wbsCodes.set(node.objectId, node.wbsCode);
+    node.children.forEach(visit);
+  };
+  wbsNodes?.forEach(visit);
+
+  return new Map(
+    activities.map((activity) => [
+      activity.objectId,
+      {
+        totalFloat: schedule.activities.get(activity.objectId)?.totalFloat ?? activity.totalFloat ?? null,
+        wbsCode: wbsCodes.get(activity.wbsObjectId) ?? null,
+      },
+    ])
+  );
+}
+
+/** Sortable value of a column: dates as epoch milliseconds, null when missing */
+function columnValue(id: GanttColumnId, activity: GanttActivity, values: GanttColumnValues): string | number | null {
+  switch (id) {
+    case 'activityId':
+      return activity.activityId;
+    case 'name':
+      return activity.name;
+    case 'originalDuration':
+      return activity.plannedDuration;
+    case 'remainingDuration':
+      return activity.remainingDuration;
+    // Actual dates once recorded, planned before
+    case 'start':
+      return new Date(activity.actualStart ?? activity.plannedStart).getTime();
+    case 'finish':
+      return new Date(activity.actualFinish ?? activity.plannedFinish).getTime();
+    case 'totalFloat':
+      return values.totalFloat;
+    case 'percentComplete':
+      return activity.percentComplete;
+    case 'wbsCode':
+      return values.wbsCode;
+  }
+}
+
+const days = (value: number) => `${Math.round(value * 10) / 10}d`;
+
+/** "15-Mar-24" */
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' }).replace(/ /g, '-');
+
+/**
+ * Cell text of a column; "–" when the value is missing
+ */
+export function formatColumnValue(id: GanttColumnId, activity: GanttActivity, values: GanttColumnValues): string {
+  const value = columnValue(id, activity, values);
+  if (value === null) return '–';
+  switch (id) {
+    case 'originalDuration':
+    case 'remainingDuration':
+    case 'totalFloat':
+      return days(value as number);
+    case 'start':
+    case 'finish':
+      return formatDate(value as number);
+    case 'percentComplete':
+      return `${value}%`;
+    default:
+      return String(value);
+  }
+}
+
+// ============================================================================
+// SORTING
+// ============================================================================
+
+const compareText = new Intl.Collator('en', { numeric: true, sensitivity: 'base' }).compare;
+
+/**
+ * Activities in the sort's order; missing values go last either way and
+ * ties keep the schedule order
+ */
+export function sortActivities(
+  activities: GanttActivity[],
+  sort: GanttColumnSort | null,
+  values: Map<number, GanttColumnValues>
+): GanttActivity[] {
+  if (!sort) return activities;
+  const none: GanttColumnValues = { totalFloat: null, wbsCode: null };
+  const keyed = activities.map((activity) => ({
+    activity,
+    value: columnValue(sort.column, activity, values.get(activity.objectId) ?? none),
+  }));
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  keyed.sort((a, b) => {
+    if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+    const order = typeof a.value === 'string' ? compareText(a.value, b.value as string) : a.value - (b.value as number);
+    return sign * order;
+  });
+  return keyed.map(({ activity }) => activity);
+}
@@ -0,0 +1,660 @@
+/**
+ * Gantt Chart Export
+ * @governance COMPONENT-001
+ *
+ * Lays the chart as shown out on A4 or A3 landscape pages and writes them
+ * as SVG, PDF or PNG. Pages tile the chart across and then down; each page
+ * repeats the title block, the timeline header for its dates and the row
+ * labels for its rows. SVG and PDF stay vector: the PDF is written directly
+ * with the standard Helvetica fonts, and PNG pages are the SVG pages drawn
+ * onto a canvas. SVG and PNG pages of a chart that needs several download
+ * as one zip.
+ */
+
+import { escapeXml } from '@/lib/p6/xml';
+import { zipFiles, type ZipEntry } from '@/lib/zip';
+import { routeExtent } from './dependencyRouting';
+import type { GanttBar, GanttExportOptions, GanttExportView, GanttPaperSize, GanttRow } from './types';
+
+// =============================================================================
+// PAGE LAYOUT
+// =============================================================================
+
+/** Landscape page sizes in points */
+export const PAPER_SIZES: Record<GanttPaperSize, { width: number; height: number }> = {
+  A4: { width: 841.89, height: 595.28 },
+  A3: { width: 1190.55, height: 841.89 },
+};
+
+const MARGIN = 28;
+const TITLE_HEIGHT = 40;
+const HEADER_HEIGHT = 20;
+const LABEL_WIDTH = 180;
+/** Width kept for the percent complete at the right of the label column */
+const PERCENT_WIDTH = 28;
+/** Points per screen pixel; the chart prints at half its on-screen size */
+const PRINT_SCALE = 0.5;
+const FONT_SIZE = 7;
+/** Label indent per WBS level in points */
+const INDENT_PT = 6;
+/** Most pages one export writes; beyond it the chart needs filtering or a coarser scale */
+export const MAX_EXPORT_PAGES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Point = [number, number];
+
+/** Drawing primitive in page coordinates (points, origin top left) */
+type Shape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill: string }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth: number }
+  | { type: 'polygon'; points: Point[]; fill: string }
+  | { type: 'polyline'; points: Point[]; stroke: string; strokeWidth: number; dash?: number }
+  | { type: 'text'; x: number; y: number; text: string; size: number; fill: string; bold?: boolean; anchor?: 'end' };
+
+/**
+ * One printed page: the title block, header and labels, and the chart
+ * clipped to its tile
+ */
+export interface GanttPage {
+  /** Page number (1-based), across then down */
+  number: number;
+  /** Width in points */
+  width: number;
+  /** Height in points */
+  height: number;
+  /** Tile the timeline header and chart are clipped to */
+  clip: { x: number; y: number; width: number; height: number };
+  /** Title block, header and row labels */
+  shapes: Shape[];
+  /** Timeline labels, grid, bars and dependency lines of the tile */
+  chart: Shape[];
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Blend a #rrggbb colour with white, as the screen's translucent bar backgrounds appear */
+const tint = (hex: string, opacity: number): string => {
+  const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `#${channels
+    .map((c) =>
+      Math.round(255 - (255 - c) * opacity)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+};
+
+/** Approximate Helvetica advance width of a character, in ems */
+const charWidth = (c: string): number => {
+  if (c === ' ') return 0.278;
+  if (/[0-9]/.test(c)) return 0.556;
+  if (/[A-Z]/.test(c)) return 0.667;
+  if (/[il.,:;'|!]/.test(c)) return 0.25;
+  return 0.5;
+};
+
+const textWidth = (text: string, size: number, bold = false): number =>
+  [...text].reduce((width, c) => width + charWidth(c), 0) * size * (bold ? 1.05 : 1);
+
+/** Cut text to fit the width, marking the cut with an ellipsis */
+const fitText = (text: string, width: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= width) return text;
+  let fitted = text;
+  while (fitted && textWidth(`${fitted}...`, size, bold) > width) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+};
+
+/** Tile of the chart printed on one page: a band of rows and a pixel range */
+interface Tile {
+  firstRow: number;
+  /** Exclusive */
+  endRow: number;
+  left: number;
+  right: number;
+}
+
+/** Rows and pixels per page, and the bands of rows and columns of pixels the chart tiles into */
+function pageGrid(view: GanttExportView, paperSize: GanttPaperSize) {
+  const { width, height } = PAPER_SIZES[paperSize];
+  const chartHeight = height - MARGIN * 2 - TITLE_HEIGHT - HEADER_HEIGHT;
+  const chartWidth = width - MARGIN * 2 - LABEL_WIDTH;
+  const rowsPerPage = Math.max(1, Math.floor(chartHeight / (view.rowHeight * PRINT_SCALE)));
+  const pixelsPerPage = chartWidth / PRINT_SCALE;
+  return {
+    width,
+    height,
+    rowsPerPage,
+    pixelsPerPage,
+    bands: Math.max(1, Math.ceil(view.rows.length / rowsPerPage)),
+    columns: Math.max(1, Math.ceil(view.chartWidth / pixelsPerPage)),
+  };
+}
+
+/**
+ * Number of pages the chart tiles onto, without laying them out
+ */
+export function countPages(view: GanttExportView, paperSize: GanttPaperSize): number {
+  const { bands, columns } = pageGrid(view, paperSize);
+  return bands * columns;
+}
+
+/**
+ * Tile the chart onto pages of the given paper, across and then down
+ */
+export function layoutPages(view: GanttExportView, paperSize: GanttPaperSize, printedAt = new Date()): GanttPage[] {
+  const { width, height, rowsPerPage, pixelsPerPage, bands, columns } = pageGrid(view, paperSize);
+
+  const tiles: Tile[] = [];
+  for (let band = 0; band < bands; band++) {
+    for (let column = 0; column < columns; column++) {
+      tiles.push({
+        firstRow: band * rowsPerPage,
+        endRow: Math.min((band + 1) * rowsPerPage, view.rows.length),
+        left: column * pixelsPerPage,
+        right: (column + 1) * pixelsPerPage,
+      });
+    }
+  }
+  return tiles.map((tile, index) => drawPage(view, tile, { width, height }, index + 1, tiles.length, printedAt));
+}
+
+function drawPage(
+  view: GanttExportView,
+  tile: Tile,
+  paper: { width: number; height: number },
+  number: number,
+  pageCount: number,
+  printedAt: Date
+): GanttPage {
+  const { timeline, rowHeight } = view;
+  const headerTop = MARGIN + TITLE_HEIGHT;
+  const chartLeft = MARGIN + LABEL_WIDTH;
+  const chartTop = headerTop + HEADER_HEIGHT;
+  const chartRight = paper.width - MARGIN;
+  const rowPt = rowHeight * PRINT_SCALE;
+  const bandBottom = chartTop + (tile.endRow - tile.firstRow) * rowPt;
+  // Screen pixels to page points
+  const X = (px: number) => chartLeft + (px - tile.left) * PRINT_SCALE;
+  const Y = (py: number) => chartTop + (py - tile.firstRow * rowHeight) * PRINT_SCALE;
+  const P = (px: number, py: number): Point => [X(px), Y(py)];
+  const inTile = (from: number, to: number) => Math.min(from, to) <= tile.right && Math.max(from, to) >= tile.left;
+
+  const shapes: Shape[] = [];
+  const chart: Shape[] = [];
+
+  // Title block
+  const scaleName = timeline.scale.charAt(0).toUpperCase() + timeline.scale.slice(1);
+  shapes.push(
+    { type: 'text', x: MARGIN, y: MARGIN + 14, text: view.projectName, size: 12, fill: '#111827', bold: true },
+    {
+      type: 'text',
+      x: MARGIN,
+      y: MARGIN + 28,
+      text: `Data date ${isoDate(timeline.dataDate)}   ${scaleName} scale   Printed ${isoDate(printedAt)}`,
+      size: 8,
+      fill: '#4b5563',
+    },
+    {
+      type: 'text',
+      x: chartRight,
+      y: MARGIN + 14,
+      text: `Page ${number} of ${pageCount}`,
+      size: 8,
+      fill: '#4b5563',
+      anchor: 'end',
+    },
+    {
+      type: 'line',
+      x1: MARGIN,
+      y1: headerTop - 4,
+      x2: chartRight,
+      y2: headerTop - 4,
+      stroke: '#111827',
+      strokeWidth: 1,
+    }
+  );
+
+  // Timeline header, repeated on every page
+  shapes.push(
+    { type: 'rect', x: MARGIN, y: headerTop, width: chartRight - MARGIN, height: HEADER_HEIGHT, fill: '#f3f4f6' },
+    { type: 'text', x: MARGIN + 4, y: headerTop + 13, text: 'Activity', size: 8, fill: '#374151', bold: true }
+  );
+  for (const period of view.periods) {
+    const x = ((period.start.getTime() - timeline.startDate.getTime()) / DAY_MS) * timeline.pixelsPerDay;
+    if (!inTile(x, x + period.width)) continue;
+    chart.push(
+      { type: 'line', x1: X(x), y1: headerTop, x2: X(x), y2: chartTop, stroke: '#d1d5db', strokeWidth: 0.5 },
+      { type: 'text', x: X(x) + 3, y: headerTop + 13, text: period.label, size: FONT_SIZE, fill: '#4b5563' }
+    );
+  }
+
+  // Row labels and separators, repeated for every tile of the band
+  for (let index = tile.firstRow; index < tile.endRow; index++) {
+    shapes.push(...rowLabel(view.rows[index], Y(index * rowHeight), rowPt));
+    const bottom = Y((index + 1) * rowHeight);
+    shapes.push({
+      type: 'line',
+      x1: MARGIN,
+      y1: bottom,
+      x2: chartRight,
+      y2: bottom,
+      stroke: '#f3f4f6',
+      strokeWidth: 0.5,
+    });
+  }
+  shapes.push({
+    type: 'line',
+    x1: chartLeft,
+    y1: headerTop,
+    x2: chartLeft,
+    y2: bandBottom,
+    stroke: '#d1d5db',
+    strokeWidth: 0.5,
+  });
+
+  // Weekly grid and data date line
+  const weekPx = 7 * timeline.pixelsPerDay;
+  for (let x = Math.ceil(tile.left / weekPx) * weekPx; x <= tile.right; x += weekPx) {
+    chart.push({ type: 'line', x1: X(x), y1: chartTop, x2: X(x), y2: bandBottom, stroke: '#e5e7eb', strokeWidth: 0.5 });
+  }
+  const dataDateX = ((timeline.dataDate.getTime() - timeline.startDate.getTime()) / DAY_MS) * timeline.pixelsPerDay;
+  if (inTile(dataDateX, dataDateX)) {
+    chart.push({
+      type: 'line',
+      x1: X(dataDateX),
+      y1: chartTop,
+      x2: X(dataDateX),
+      y2: bandBottom,
+      stroke: '#10b981',
+      strokeWidth: 1,
+    });
+  }
+
+  // Dependency lines with an end in the band or passing through it; driving ones solid, the others dashed
+  const bandTop = tile.firstRow * rowHeight;
+  const bandEnd = tile.endRow * rowHeight;
+  for (const { route, isCritical, isDriving } of view.links) {
+    const ys = route.points.map(([, y]) => y);
+    const { left, right } = routeExtent(route);
+    if (Math.max(...ys) < bandTop || Math.min(...ys) > bandEnd || !inTile(left, right)) continue;
+    const stroke = isCritical ? '#dc2626' : '#9ca3af';
+    // The last segment runs horizontally into the successor's end
+    const [endX, endY] = route.points[route.points.length - 1];
+    const back = endX > route.points[route.points.length - 2][0] ? -8 : 8;
+    chart.push(
+      {
+        type: 'polyline',
+        points: route.points.map(([x, y]) => P(x, y)),
+        stroke,
+        strokeWidth: isDriving ? 0.75 : 0.5,
+        dash: isDriving ? undefined : 2,
+      },
+      { type: 'polygon', points: [P(endX, endY), P(endX + back, endY - 3.5), P(endX + back, endY + 3.5)], fill: stroke }
+    );
+    // Lag span with end ticks
+    if (route.lag) {
+      const { x1, x2, y } = route.lag;
+      chart.push(
+        { type: 'line', x1: X(x1), y1: Y(y), x2: X(x2), y2: Y(y), stroke, strokeWidth: 0.75 },
+        { type: 'line', x1: X(x1), y1: Y(y - 3), x2: X(x1), y2: Y(y + 3), stroke, strokeWidth: 0.75 },
+        { type: 'line', x1: X(x2), y1: Y(y - 3), x2: X(x2), y2: Y(y + 3), stroke, strokeWidth: 0.75 }
+      );
+    }
+  }
+
+  // Bars
+  for (let index = tile.firstRow; index < tile.endRow; index++) {
+    const bar = view.bars[index];
+    if (!bar) continue;
+    const row = view.rows[index];
+    const right = Math.max(bar.x + bar.width, bar.baseline ? bar.baseline.x + bar.baseline.width : 0);
+    if (!inTile(Math.min(bar.x, bar.baseline?.x ?? bar.x), right)) continue;
+    chart.push(...(row.kind === 'wbs' ? summaryBarShapes(bar, P) : activityBarShapes(bar, P)));
+  }
+
+  return {
+    number,
+    width: paper.width,
+    height: paper.height,
+    clip: { x: chartLeft, y: headerTop, width: chartRight - chartLeft, height: bandBottom - headerTop },
+    shapes,
+    chart,
+  };
+}
+
+function rowLabel(row: GanttRow, top: number, rowPt: number): Shape[] {
+  const baseline = top + rowPt / 2 + FONT_SIZE * 0.35;
+  const x = MARGIN + 4 + row.indentLevel * INDENT_PT;
+  const textRoom = MARGIN + LABEL_WIDTH - PERCENT_WIDTH - x;
+  const percentX = MARGIN + LABEL_WIDTH - 4;
+
+  if (row.kind === 'wbs') {
+    const { wbs } = row;
+    return [
+      { type: 'rect', x: MARGIN, y: top, width: LABEL_WIDTH, height: rowPt, fill: '#f9fafb' },
+      {
+        type: 'text',
+        x,
+        y: baseline,
+        text: fitText(`${wbs.wbsCode} ${wbs.name}`, textRoom, FONT_SIZE, true),
+        size: FONT_SIZE,
+        fill: '#111827',
+        bold: true,
+      },
+      {
+        type: 'text',
+        x: percentX,
+        y: baseline,
+        text: wbs.percentComplete === null ? '–' : `${wbs.percentComplete}%`,
+        size: FONT_SIZE,
+        fill: '#374151',
+        bold: true,
+        anchor: 'end',
+      },
+    ];
+  }
+
+  const { activity } = row;
+  return [
+    {
+      type: 'text',
+      x,
+      y: baseline,
+      text: fitText(`${activity.activityId} ${activity.name}`, textRoom, FONT_SIZE),
+      size: FONT_SIZE,
+      fill: '#111827',
+    },
+    {
+      type: 'text',
+      x: percentX,
+      y: baseline,
+      text: activity.percentComplete === null ? '–' : `${activity.percentComplete}%`,
+      size: FONT_SIZE,
+      fill: '#4b5563',
+      anchor: 'end',
+    },
+  ];
+}
+
+/** The screen bar's shapes (GanttBar), in page points */
+function activityBarShapes(bar: GanttBar, P: (px: number, py: number) => Point): Shape[] {
+  const { x, y, width } = bar;
+  const rect = (left: number, top: number, w: number, h: number, fill: string): Shape => {
+    const [px, py] = P(left, top);
+    const [qx, qy] = P(left + w, top + h);
+    return { type: 'rect', x: px, y: py, width: qx - px, height: qy - py, fill };
+  };
+  const shapes: Shape[] = [];
+
+  if (bar.isMilestone) {
+    shapes.push({
+      type: 'polygon',
+      points: [P(x + 8, y + 4), P(x + 16, y + 12), P(x + 8, y + 20), P(x, y + 12)],
+      fill: bar.color,
+    });
+    if (bar.baseline) {
+      const b = bar.baseline.x;
+      shapes.push({
+        type: 'polygon',
+        points: [P(b + 4, y + 22), P(b + 8, y + 26), P(b + 4, y + 30), P(b, y + 26)],
+        fill: '#6b7280',
+      });
+    }
+    return shapes;
+  }
+
+  shapes.push(rect(x, y + 4, width, 16, tint(bar.color, 0.3)));
+  if (bar.progressWidth > 0) shapes.push(rect(x, y + 4, bar.progressWidth, 16, bar.color));
+  if (bar.isCritical) {
+    const [x1, lineY] = P(x, y + 22);
+    const [x2] = P(x + width, y + 22);
+    shapes.push({ type: 'line', x1, y1: lineY, x2, y2: lineY, stroke: '#dc2626', strokeWidth: 2 * PRINT_SCALE });
+  }
+  if (bar.baseline) shapes.push(rect(bar.baseline.x, y + 25, bar.baseline.width, 4, '#6b7280'));
+  return shapes;
+}
+
+/** The screen summary bar's shapes (GanttSummaryBar), in page points */
+function summaryBarShapes(bar: GanttBar, P: (px: number, py: number) => Point): Shape[] {
+  const top = bar.y + 8;
+  const right = bar.x + bar.width;
+  const [x, y] = P(bar.x, top);
+  const [endX, bottom] = P(right, top + 6);
+  const [progressX] = P(bar.x + bar.progressWidth, top);
+  return [
+    { type: 'rect', x, y, width: endX - x, height: bottom - y, fill: tint(bar.color, 0.3) },
+    { type: 'rect', x, y, width: progressX - x, height: bottom - y, fill: bar.color },
+    { type: 'polygon', points: [P(bar.x, top), P(bar.x + 6, top), P(bar.x, top + 12)], fill: bar.color },
+    { type: 'polygon', points: [P(right - 6, top), P(right, top), P(right, top + 12)], fill: bar.color },
+  ];
+}
+
+// =============================================================================
+// SVG
+// =============================================================================
+
+/** Coordinates to two decimals */
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+function svgShape(shape: Shape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}" fill="${shape.fill}"/>`;
+    case 'line':
+      return (
+        `<line x1="${num(shape.x1)}" y1="${num(shape.y1)}" x2="${num(shape.x2)}" y2="${num(shape.y2)}" ` +
+        `stroke="${shape.stroke}" stroke-width="${num(shape.strokeWidth)}"/>`
+      );
+    case 'polygon':
+      return `<polygon points="${shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ')}" fill="${shape.fill}"/>`;
+    case 'polyline':
+      return (
+        `<polyline points="${shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ')}" fill="none" ` +
+        `stroke="${shape.stroke}" stroke-width="${num(shape.strokeWidth)}"` +
+        `${shape.dash ? ` stroke-dasharray="${num(shape.dash)}"` : ''}/>`
+      );
+    case 'text':
+      return (
+        `<text x="${num(shape.x)}" y="${num(shape.y)}" font-size="${shape.size}" fill="${shape.fill}"` +
+        `${shape.bold ? ' font-weight="bold"' : ''}${shape.anchor ? ' text-anchor="end"' : ''}>${escapeXml(shape.text)}</text>`
+      );
+  }
+}
+
+/**
+ * Write a page as a standalone SVG document sized in points
+ */
+export function renderSvg(page: GanttPage): string {
+  const { clip } = page;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(page.width)}pt" height="${num(page.height)}pt" ` +
+      `viewBox="0 0 ${num(page.width)} ${num(page.height)}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${num(page.width)}" height="${num(page.height)}" fill="#ffffff"/>`,
+    `<defs><clipPath id="gantt-tile"><rect x="${num(clip.x)}" y="${num(clip.y)}" width="${num(clip.width)}" height="${num(clip.height)}"/></clipPath></defs>`,
+    ...page.shapes.map(svgShape),
+    '<g clip-path="url(#gantt-tile)">',
+    ...page.chart.map(svgShape),
+    '</g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+// =============================================================================
+// PDF
+// =============================================================================
+
+const pdfColor = (hex: string) => [1, 3, 5].map((i) => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+
+/** Characters WinAnsi places at 0x80-0x9f, such as the en dash of a missing percent; "?" marks unused codes */
+const WIN_ANSI_HIGH = '€?‚ƒ„…†‡ˆ‰Š‹Œ?Ž??‘’“”•–—˜™š›œ?žŸ';
+
+const winAnsi = (c: string) => {
+  const index = WIN_ANSI_HIGH.indexOf(c);
+  return index < 0 ? '?' : String.fromCharCode(0x80 + index);
+};
+
+/** PDF string literal in WinAnsi; characters it lacks print as "?" */
+const pdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\x7e\xa0-\xff]/g, winAnsi).replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+function pdfShape(shape: Shape): string {
+  switch (shape.type) {
+    case 'rect':
+      return `${pdfColor(shape.fill)} rg ${num(shape.x)} ${num(shape.y)} ${num(shape.width)} ${num(shape.height)} re f`;
+    case 'line':
+      return (
+        `${pdfColor(shape.stroke)} RG ${num(shape.strokeWidth)} w ` +
+        `${num(shape.x1)} ${num(shape.y1)} m ${num(shape.x2)} ${num(shape.y2)} l S`
+      );
+    case 'polygon': {
+      const [[x, y], ...rest] = shape.points;
+      return `${pdfColor(shape.fill)} rg ${num(x)} ${num(y)} m ${rest.map(([px, py]) => `${num(px)} ${num(py)} l`).join(' ')} h f`;
+    }
+    case 'polyline': {
+      const [[x, y], ...rest] = shape.points;
+      // Dash patterns are part of the graphics state, so the line resets to solid after drawing
+      return (
+        `${pdfColor(shape.stroke)} RG ${num(shape.strokeWidth)} w ${shape.dash ? `[${num(shape.dash)}] 0 d ` : ''}` +
+        `${num(x)} ${num(y)} m ${rest.map(([px, py]) => `${num(px)} ${num(py)} l`).join(' ')} S` +
+        `${shape.dash ? ' [] 0 d' : ''}`
+      );
+    }
+    case 'text': {
+      const x = shape.anchor === 'end' ? shape.x - textWidth(shape.text, shape.size, shape.bold) : shape.x;
+      // The page is flipped to a top-left origin, so the text matrix flips glyphs back upright
+      return (
+        `BT /${shape.bold ? 'F2' : 'F1'} ${shape.size} Tf ${pdfColor(shape.fill)} rg ` +
+        `1 0 0 -1 ${num(x)} ${num(shape.y)} Tm ${pdfString(shape.text)} Tj ET`
+      );
+    }
+  }
+}
+
+/**
+ * Write the pages as one PDF document. Every character is a single byte,
+ * so string lengths are byte offsets.
+ */
+export function renderPdf(pages: GanttPage[]): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  for (const [i, page] of pages.entries()) {
+    const { clip } = page;
+    const content = [
+      `1 0 0 -1 0 ${num(page.height)} cm`,
+      ...page.shapes.map(pdfShape),
+      `q ${num(clip.x)} ${num(clip.y)} ${num(clip.width)} ${num(clip.height)} re W n`,
+      ...page.chart.map(pdfShape),
+      'Q',
+    ].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, (c) => c.charCodeAt(0));
+}
+
+// =============================================================================
+// PNG
+// =============================================================================
+
+/** CSS pixels per point */
+const PX_PER_PT = 96 / 72;
+
+/**
+ * Draw a page's SVG onto a canvas and encode it as PNG
+ */
+export function renderPng(page: GanttPage, pixelRatio = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([renderSvg(page)], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(page.width * PX_PER_PT * pixelRatio);
+      canvas.height = Math.round(page.height * PX_PER_PT * pixelRatio);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The chart could not be drawn'));
+    };
+    image.src = url;
+  });
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * File to download
+ */
+export interface GanttExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Export the chart as shown as one file: a PDF of every page, or an SVG or
+ * PNG of a single page. Several SVG or PNG pages are zipped, numbered.
+ * Charts needing more than MAX_EXPORT_PAGES pages are refused before they
+ * are laid out.
+ */
+export async function exportGanttChart(
+  view: GanttExportView,
+  { format, paperSize }: GanttExportOptions,
+  basename: string
+): Promise<GanttExportFile> {
+  const pageCount = countPages(view, paperSize);
+  if (pageCount > MAX_EXPORT_PAGES) {
+    throw new Error(
+      `The chart needs ${pageCount} ${paperSize} pages; an export holds at most ${MAX_EXPORT_PAGES}. ` +
+        'Collapse or filter the chart, or choose a coarser timeline scale.'
+    );
+  }
+
+  const pages = layoutPages(view, paperSize);
+  if (format === 'pdf') {
+    return { blob: new Blob([renderPdf(pages)], { type: 'application/pdf' }), filename: `${basename}.pdf` };
+  }
+
+  if (pages.length === 1) {
+    const [page] = pages;
+    const blob = format === 'svg' ? new Blob([renderSvg(page)], { type: 'image/svg+xml' }) : await renderPng(page);
+    return { blob, filename: `${basename}.${format}` };
+  }
+  // One page at a time, so a long chart never holds every canvas at once
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  for (const page of pages) {
+    const data =
+      format === 'svg' ? encoder.encode(renderSvg(page)) : new Uint8Array(await (await renderPng(page)).arrayBuffer());
+    entries.push({ name: `${basename}-${page.number}.${format}`, data });
+  }
+  return { blob: new Blob([zipFiles(entries)], { type: 'application/zip' }), filename: `${basename}-${format}.zip` };
+}
@@ -0,0 +1,28 @@
+/**
+ * Gantt Value Formatting
+ * @governance COMPONENT-001, DATA-001
+ *
+ * How the chart, its label column and its panels write days, dates and
+ * progress. Values P6 leaves empty read as a dash or "not reported", never
+ * as zero.
+ */
+
+/** Signed variance, e.g. "-5d" for five days late */
+export const formatVariance = (days: number): string => (days > 0 ? `+${days}d` : `${days}d`);
+
+/** "Mar 15, 2024" */
+export const formatDay = (date: string): string =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/** "$12,500"; "–" when P6 has no value */
+export const formatCurrency = (value: number | null): string =>
+  value === null
+    ? '–'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+/** "12d"; "–" when P6 has no value */
+export const formatDuration = (days: number | null): string => (days === null ? '–' : `${days}d`);
+
+/** "60% complete", or "progress not reported" when P6 has no percent */
+export const formatProgress = (percent: number | null): string =>
+  percent === null ? 'progress not reported' : `${percent}% complete`;
@@ -3,7 +3,33 @@
  * @governance COMPONENT-001
  */
 
-export { GanttChart, GanttToolbar, GanttBar } from './GanttChart';
+export { GanttChart, GanttBar, GanttSummaryBar, GanttDependencyLine } from './GanttChart';
+export { GanttToolbar } from './GanttToolbar';
+export { GanttTracePanel } from './GanttTracePanel';
+export { GanttSandboxPanel } from './GanttSandboxPanel';
+export { GanttActivityDrawer } from './GanttActivityDrawer';
+export { GanttLabelHeader, GanttRowLabel, GanttWbsRowLabel } from './GanttLabels';
+export {
+  DEFAULT_COLUMNS,
+  DEFAULT_COLUMN_WIDTHS,
+  GANTT_COLUMNS,
+  formatColumnValue,
+  getColumnValues,
+  nextSort,
+  sortActivities,
+  toggleColumn,
+} from './ganttColumns';
+export { routeDependency, routeExtent, type RouteOptions } from './dependencyRouting';
+export {
+  NO_EDITS,
+  draggedStart,
+  getScenarioImpact,
+  scheduleScenario,
+  withActivityEdit,
+  withLagEdit,
+  type ScenarioSchedule,
+} from './sandbox';
+export { exportGanttChart, layoutPages, renderPdf, renderPng, renderSvg, type GanttExportFile, type GanttPage } from './ganttExport';
 export type {
   GanttActivity,
   ActivityRelationship,
@@ -11,13 +37,46 @@ export type {
   TimelinePeriod,
   TimelineConfig,
   GanttBar as GanttBarType,
+  ActivityVariance,
   GanttState,
   GanttChartProps,
   GanttTimelineHeaderProps,
   GanttBarProps,
   GanttDependencyLineProps,
+  GanttTraceStep,
+  GanttTracePanelProps,
+  GanttSandboxPanelProps,
+  GanttActivityDrawerProps,
+  GanttLabelHeaderProps,
   GanttRowLabelProps,
+  GanttWbsRowLabelProps,
+  GanttSummaryBarProps,
+  GanttRow,
+  GanttWbsRow,
+  GanttActivityRow,
+  GanttColumnId,
+  GanttColumn,
+  GanttColumnSort,
+  GanttColumnValues,
+  DependencyRoute,
+  ActivityEdit,
+  RelationshipEdit,
+  ScenarioEdits,
+  ScheduleShift,
+  DateShift,
+  ScenarioImpact,
   GanttToolbarProps,
+  GanttExportFormat,
+  GanttPaperSize,
+  GanttExportOptions,
+  GanttExportView,
   ActivitiesResponse,
+  ScheduleBaseline,
+  BaselinesResponse,
+  BaselineActivity,
+  BaselineScheduleResponse,
+  ScheduleScenario,
+  ScenariosResponse,
+  ScenarioInput,
   ActivityDetailResponse,
 } from './types';
@@ -0,0 +1,204 @@
+/**
+ * Gantt What-if Sandbox
+ * @governance COMPONENT-001
+ *
+ * Reschedules the synced schedule with a scenario's edits, without writing
+ * anything back to P6. Durations and lags replace the synced ones; dragged
+ * bars become Start On or After constraints, so logic still holds them and
+ * a bar dragged earlier than its predecessors allow stays where they put
+ * it. Bars move by the difference between the scenario's and the synced
+ * schedule's CPM dates, so activities the edits do not reach keep their P6
+ * dates and the scenario stays comparable to the synced schedule.
+ */
+
+import { computeCriticalPath, type CpmOptions, type CpmSchedule } from '@/lib/schedule/cpm';
+import type {
+  ActivityEdit,
+  ActivityRelationship,
+  DateShift,
+  GanttActivity,
+  RelationshipEdit,
+  ScenarioEdits,
+  ScenarioImpact,
+  ScheduleShift,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NO_EDITS: ScenarioEdits = { activities: [], relationships: [] };
+
+export interface ScenarioSchedule {
+  /** Activities with the scenario's durations and planned dates moved by their shift */
+  activities: GanttActivity[];
+  /** Relationships with the scenario's lags */
+  relationships: ActivityRelationship[];
+  schedule: CpmSchedule;
+  /** Activities the edits move, by object ID */
+  shifts: Map<number, ScheduleShift>;
+}
+
+/** CPM dates carry no zone and are UTC */
+const cpmTime = (value: string) => Date.parse(`${value}Z`);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Relationships are identified by their ends and type */
+const linkKey = (link: Pick<RelationshipEdit, 'predecessorObjectId' | 'successorObjectId' | 'type'>) =>
+  `${link.predecessorObjectId}-${link.successorObjectId}-${link.type}`;
+
+// ============================================================================
+// EDITS
+// ============================================================================
+
+/**
+ * Set or clear fields of an activity's edit; an edit left without fields is removed
+ */
+export function withActivityEdit(
+  edits: ScenarioEdits,
+  objectId: number,
+  patch: Partial<Omit<ActivityEdit, 'objectId'>>
+): ScenarioEdits {
+  const current = edits.activities.find((edit) => edit.objectId === objectId);
+  const merged: ActivityEdit = { ...current, ...patch, objectId };
+  const next: ActivityEdit = { objectId };
+  if (merged.startOnOrAfter !== undefined) next.startOnOrAfter = merged.startOnOrAfter;
+  if (merged.duration !== undefined) next.duration = merged.duration;
+
+  const others = edits.activities.filter((edit) => edit.objectId !== objectId);
+  const isEmpty = next.startOnOrAfter === undefined && next.duration === undefined;
+  return { ...edits, activities: isEmpty ? others : [...others, next] };
+}
+
+/**
+ * Set a relationship's lag, or restore the synced lag with null
+ */
+export function withLagEdit(
+  edits: ScenarioEdits,
+  relationship: ActivityRelationship,
+  lag: number | null
+): ScenarioEdits {
+  const key = linkKey(relationship);
+  const others = edits.relationships.filter((edit) => linkKey(edit) !== key);
+  if (lag === null) return { ...edits, relationships: others };
+  const { predecessorObjectId, successorObjectId, type } = relationship;
+  return { ...edits, relationships: [...others, { predecessorObjectId, successorObjectId, type, lag }] };
+}
+
+/**
+ * Start On or After date for a bar dragged by `days` from its scenario
+ * start; null for activities outside the schedule network
+ */
+export function draggedStart(schedule: CpmSchedule, objectId: number, days: number): string | null {
+  const scheduled = schedule.activities.get(objectId);
+  if (!scheduled) return null;
+  return new Date(cpmTime(scheduled.earlyStart) + days * DAY_MS).toISOString().slice(0, 19);
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/** Planned dates moved by a shift; ISO dates keep the instant they name */
+function shiftActivity(activity: GanttActivity, shift: ScheduleShift): GanttActivity {
+  const move = (date: string, days: number) =>
+    days === 0 ? date : new Date(new Date(date).getTime() + days * DAY_MS).toISOString();
+  return {
+    ...activity,
+    plannedStart: move(activity.plannedStart, shift.startDays),
+    plannedFinish: move(activity.plannedFinish, shift.finishDays),
+  };
+}
+
+/**
+ * Apply a scenario's edits to the synced activities and relationships and
+ * schedule them. `synced` is the synced schedule under the same options,
+ * which the shifts are measured from.
+ */
+export function scheduleScenario(
+  activities: GanttActivity[],
+  relationships: ActivityRelationship[],
+  synced: CpmSchedule,
+  edits: ScenarioEdits,
+  options: Omit<CpmOptions, 'startOnOrAfter'> = {}
+): ScenarioSchedule {
+  const activityEdits = new Map(edits.activities.map((edit) => [edit.objectId, edit]));
+  const lags = new Map(edits.relationships.map((edit) => [linkKey(edit), edit.lag]));
+
+  // Milestones take no time and completed work is done; unstarted work replans with its remaining
+  const edited = activities.map((activity) => {
+    const duration = activityEdits.get(activity.objectId)?.duration;
+    if (duration === undefined || activity.isMilestone || activity.status === 'complete') return activity;
+    return {
+      ...activity,
+      remainingDuration: duration,
+      plannedDuration: activity.status === 'not_started' ? duration : activity.plannedDuration,
+    };
+  });
+  const links = relationships.map((rel) => {
+    const lag = lags.get(linkKey(rel));
+    return lag === undefined || lag === rel.lag ? rel : { ...rel, lag };
+  });
+  const startOnOrAfter = new Map(
+    edits.activities.flatMap((edit) => (edit.startOnOrAfter ? [[edit.objectId, edit.startOnOrAfter] as const] : []))
+  );
+  const schedule = computeCriticalPath(edited, links, { ...options, startOnOrAfter });
+
+  const shifts = new Map<number, ScheduleShift>();
+  for (const [objectId, scheduled] of schedule.activities) {
+    const base = synced.activities.get(objectId);
+    if (!base) continue;
+    const startDays = round((cpmTime(scheduled.earlyStart) - cpmTime(base.earlyStart)) / DAY_MS);
+    const finishDays = round((cpmTime(scheduled.earlyFinish) - cpmTime(base.earlyFinish)) / DAY_MS);
+    if (startDays !== 0 || finishDays !== 0) shifts.set(objectId, { startDays, finishDays });
+  }
+
+  return {
+    activities: edited.map((activity) => {
+      const shift = shifts.get(activity.objectId);
+      return shift ? shiftActivity(activity, shift) : activity;
+    }),
+    relationships: links,
+    schedule,
+    shifts,
+  };
+}
+
+// ============================================================================
+// IMPACT
+// ============================================================================
+
+const dateShift = (synced: string, scenario: string): DateShift => ({
+  synced,
+  scenario,
+  days: round((new Date(scenario).getTime() - new Date(synced).getTime()) / DAY_MS),
+});
+
+/** Latest planned finish, null without activities */
+const latestFinish = (activities: GanttActivity[]): string | null =>
+  activities.reduce<string | null>(
+    (latest, activity) =>
+      latest === null || new Date(activity.plannedFinish).getTime() > new Date(latest).getTime()
+        ? activity.plannedFinish
+        : latest,
+    null
+  );
+
+/**
+ * Project finish and milestone dates of the scenario against the synced
+ * schedule; `scenario` lists the same activities as `synced`, in order
+ */
+export function getScenarioImpact(synced: GanttActivity[], scenario: GanttActivity[]): ScenarioImpact {
+  const syncedFinish = latestFinish(synced);
+  const scenarioFinish = latestFinish(scenario);
+
+  return {
+    projectFinish: syncedFinish && scenarioFinish ? dateShift(syncedFinish, scenarioFinish) : null,
+    milestones: synced
+      .flatMap((activity, index) =>
+        activity.isMilestone
+          ? [{ activity: scenario[index], ...dateShift(activity.plannedFinish, scenario[index].plannedFinish) }]
+          : []
+      )
+      .sort((a, b) => new Date(a.synced).getTime() - new Date(b.synced).getTime()),
+  };
+}
@@ -6,6 +6,8 @@
  * These interfaces define the data shape for Gantt chart components.
  */
 
+import type { WBSNode } from '@/components/wbs-tree/types';
+
 // ============================================================================
 // ACTIVITY DATA
 // ============================================================================
@@ -31,8 +33,8 @@ export interface GanttActivity {
   activityType: string;
   /** Status (Not Started, In Progress, Complete) */
   status: 'not_started' | 'in_progress' | 'complete';
-  /** Percent complete (0-100) */
-  percentComplete: number;
+  /** Percent complete (0-100); null when P6 reports none */
+  percentComplete: number | null;
   /** Planned start date (ISO 8601) */
   plannedStart: string;
   /** Planned finish date (ISO 8601) */
@@ -41,10 +43,12 @@ export interface GanttActivity {
   actualStart: string | null;
   /** Actual finish date (ISO 8601) or null */
   actualFinish: string | null;
-  /** Planned duration in days */
-  plannedDuration: number;
-  /** Remaining duration in days */
-  remainingDuration: number;
+  /** Planned duration in days; null when P6 reports none */
+  plannedDuration: number | null;
+  /** Remaining duration in days; null when P6 reports none */
+  remainingDuration: number | null;
+  /** P6 total float in days; absent or null when P6 has not scheduled it */
+  totalFloat?: number | null;
   /** Is this activity on critical path? */
   isCritical: boolean;
   /** Is this a milestone? */
@@ -134,6 +138,227 @@ export interface GanttBar {
   isMilestone: boolean;
   /** Is on critical path */
   isCritical: boolean;
+  /** Baseline bar below the bar, when comparing against a baseline that has the activity */
+  baseline?: { x: number; width: number };
+}
+
+/**
+ * Baseline minus current dates in days, as P6 reports variance: negative
+ * when the activity slipped, positive when it is ahead
+ */
+export interface ActivityVariance {
+  /** Baseline start minus current (actual, else planned) start */
+  startDays: number;
+  /** Baseline finish minus current (actual, else planned) finish */
+  finishDays: number;
+}
+
+// ============================================================================
+// GANTT ROWS
+// ============================================================================
+
+/**
+ * WBS summary row; its bar spans the activities beneath it
+ */
+export interface GanttWbsRow {
+  kind: 'wbs';
+  /** WBS element, with progress rolled up by the WBS tree endpoint */
+  wbs: WBSNode;
+  /** Indent level (0 = root WBS) */
+  indentLevel: number;
+  /** Earliest planned start beneath the WBS (ISO 8601), null without activities */
+  plannedStart: string | null;
+  /** Latest planned finish beneath the WBS (ISO 8601), null without activities */
+  plannedFinish: string | null;
+}
+
+/**
+ * Activity row
+ */
+export interface GanttActivityRow {
+  kind: 'activity';
+  activity: GanttActivity;
+  /** Indent level, one deeper than the activity's WBS */
+  indentLevel: number;
+}
+
+/**
+ * One row of the chart, in display order
+ */
+export type GanttRow = GanttWbsRow | GanttActivityRow;
+
+// ============================================================================
+// LABEL COLUMNS
+// ============================================================================
+
+/**
+ * Label column grid columns; the activity name is always shown
+ */
+export type GanttColumnId =
+  | 'activityId'
+  | 'name'
+  | 'originalDuration'
+  | 'remainingDuration'
+  | 'start'
+  | 'finish'
+  | 'totalFloat'
+  | 'percentComplete'
+  | 'wbsCode';
+
+/**
+ * Label column grid column definition
+ */
+export interface GanttColumn {
+  id: GanttColumnId;
+  /** Header text */
+  label: string;
+  /** Default width in pixels */
+  width: number;
+  /** Numbers align right */
+  align: 'left' | 'right';
+}
+
+/**
+ * Order of the activities within their WBS element
+ */
+export interface GanttColumnSort {
+  column: GanttColumnId;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Column values that come from the schedule or the WBS tree rather than the activity
+ */
+export interface GanttColumnValues {
+  /** Total float in days, null when neither the schedule logic nor P6 has one */
+  totalFloat: number | null;
+  /** Code of the activity's WBS element, null outside the tree */
+  wbsCode: string | null;
+}
+
+// ============================================================================
+// DEPENDENCY LINES
+// ============================================================================
+
+/**
+ * Orthogonal path of a relationship line in chart pixels, from the
+ * predecessor end the relationship type links to the successor end
+ */
+export interface DependencyRoute {
+  /** Corners in order; the arrowhead points along the last segment */
+  points: Array<[number, number]>;
+  /** Lag span beside the predecessor row, from its linked end; null without lag */
+  lag: { x1: number; x2: number; y: number } | null;
+}
+
+// ============================================================================
+// CHART EXPORT
+// ============================================================================
+
+/**
+ * Chart export file format: vector SVG and PDF, raster PNG
+ */
+export type GanttExportFormat = 'pdf' | 'svg' | 'png';
+
+/**
+ * Paper the exported chart is tiled onto, landscape
+ */
+export type GanttPaperSize = 'A4' | 'A3';
+
+/**
+ * Chart export options chosen in the toolbar
+ */
+export interface GanttExportOptions {
+  format: GanttExportFormat;
+  paperSize: GanttPaperSize;
+}
+
+/**
+ * The chart as currently shown, for export: every row and bar rather than
+ * the rendered window
+ */
+export interface GanttExportView {
+  /** Project name for the title block */
+  projectName: string;
+  /** Timeline of the chart, data date included */
+  timeline: TimelineConfig;
+  /** Timeline header periods */
+  periods: TimelinePeriod[];
+  /** Shown rows in display order */
+  rows: GanttRow[];
+  /** Bar of each row, null for WBS elements without activities */
+  bars: (GanttBar | null)[];
+  /** Shown dependency lines */
+  links: Array<{ route: DependencyRoute; isCritical: boolean; isDriving: boolean }>;
+  /** Row height in pixels */
+  rowHeight: number;
+  /** Chart width in pixels */
+  chartWidth: number;
+}
+
+// ============================================================================
+// WHAT-IF SANDBOX
+// ============================================================================
+
+/**
+ * Sandbox change to one activity; absent fields keep the synced value
+ */
+export interface ActivityEdit {
+  /** Activity Object ID */
+  objectId: number;
+  /** Start On or After date (ISO 8601) the bar was dragged to */
+  startOnOrAfter?: string;
+  /** Remaining duration in days */
+  duration?: number;
+}
+
+/**
+ * Sandbox lag of one relationship, identified by its ends and type
+ */
+export interface RelationshipEdit {
+  predecessorObjectId: number;
+  successorObjectId: number;
+  type: ActivityRelationship['type'];
+  /** Lag in days (can be negative) */
+  lag: number;
+}
+
+/**
+ * Everything a what-if scenario changes; nothing is written back to P6
+ */
+export interface ScenarioEdits {
+  activities: ActivityEdit[];
+  relationships: RelationshipEdit[];
+}
+
+/**
+ * Scenario minus synced dates of one activity in days: positive when later
+ */
+export interface ScheduleShift {
+  startDays: number;
+  finishDays: number;
+}
+
+/**
+ * A date in the synced schedule and in the scenario
+ */
+export interface DateShift {
+  /** Synced date (ISO 8601) */
+  synced: string;
+  /** Scenario date (ISO 8601) */
+  scenario: string;
+  /** Scenario minus synced in days: positive when later */
+  days: number;
+}
+
+/**
+ * Effect of a scenario on the project finish and the milestones
+ */
+export interface ScenarioImpact {
+  /** Latest finish of any activity; null without activities */
+  projectFinish: DateShift | null;
+  /** Milestones in synced date order */
+  milestones: Array<DateShift & { activity: GanttActivity }>;
 }
 
 // ============================================================================
@@ -141,28 +366,37 @@ export interface GanttBar {
 // ============================================================================
 
 /**
- * Gantt chart component state
+ * Gantt chart view state. Activities, relationships and loading state
+ * come from the useP6Activities query.
  * @component GanttChart
  */
 export interface GanttState {
-  /** Activities data */
-  activities: GanttActivity[];
-  /** Relationships data */
-  relationships: ActivityRelationship[];
-  /** Timeline configuration */
-  timeline: TimelineConfig;
+  /** Current timeline scale (bounds are derived from the activities query) */
+  scale: TimelineScale;
   /** Selected activity ID */
   selectedActivityId: string | null;
-  /** Expanded WBS IDs (for grouping) */
+  /** Expanded WBS Object IDs; all are expanded when the WBS tree loads */
   expandedWbsIds: Set<number>;
-  /** Loading state */
-  isLoading: boolean;
-  /** Error message */
-  error: string | null;
   /** Show critical path only */
   showCriticalOnly: boolean;
   /** Show dependencies */
   showDependencies: boolean;
+  /** Baseline compared against (ScheduleBaseline.id), null for none */
+  baselineId: string | null;
+  /** Show only activities slipped more than this many days against the baseline; null shows all */
+  slipThresholdDays: number | null;
+  /** Trace the selected activity's driving logic */
+  traceLogic: boolean;
+  /** Also trace the activities the selected one drives */
+  traceSuccessors: boolean;
+  /** What-if sandbox: edits reschedule the chart without writing back to P6 */
+  sandbox: boolean;
+  /** Label columns shown, in grid order */
+  columns: GanttColumnId[];
+  /** Label column widths in pixels */
+  columnWidths: Record<GanttColumnId, number>;
+  /** Activity order within each WBS element; null keeps the schedule order */
+  sort: GanttColumnSort | null;
 }
 
 // ============================================================================
@@ -192,6 +426,8 @@ export interface GanttChartProps {
   rowHeight?: number;
   /** Header height in pixels */
   headerHeight?: number;
+  /** Project name for exported charts; defaults to the project Object ID */
+  projectName?: string;
 }
 
 /**
@@ -226,6 +462,23 @@ export interface GanttBarProps {
   onDoubleClick: (activity: GanttActivity) => void;
   /** Show tooltip on hover */
   showTooltip?: boolean;
+  /** Faded while tracing logic the activity is not part of */
+  isDimmed?: boolean;
+  /** Callback when the bar is dragged, in whole days; bars are fixed without it */
+  onDrag?: (activity: GanttActivity, days: number) => void;
+  /** Timeline pixels per day, the step a dragged bar moves in */
+  pixelsPerDay?: number;
+}
+
+/**
+ * WBS summary bar props
+ * @component GanttSummaryBar
+ */
+export interface GanttSummaryBarProps {
+  /** WBS summary row */
+  row: GanttWbsRow;
+  /** Bar visual data; progressWidth is the WBS rollup */
+  bar: GanttBar;
 }
 
 /**
@@ -235,12 +488,94 @@ export interface GanttBarProps {
 export interface GanttDependencyLineProps {
   /** Relationship data */
   relationship: ActivityRelationship;
-  /** From bar position */
-  fromBar: GanttBar;
-  /** To bar position */
-  toBar: GanttBar;
-  /** Is on critical path */
+  /** Path between the linked bar ends */
+  route: DependencyRoute;
+  /** Both activities on the critical path */
   isCritical: boolean;
+  /** Relationship sets the successor's early dates */
+  isDriving: boolean;
+  /** Either activity is selected */
+  isHighlighted: boolean;
+}
+
+/**
+ * One activity of a traced driving path
+ */
+export interface GanttTraceStep {
+  activity: GanttActivity;
+  /** Driving links from earlier steps, by predecessor activity ID; empty when the data date drives it */
+  drivenBy: Array<{ activityId: string; type: ActivityRelationship['type']; lag: number }>;
+  /** Days the activity can slip without delaying any successor */
+  freeFloat: number;
+}
+
+/**
+ * Trace logic panel props
+ * @component GanttTracePanel
+ */
+export interface GanttTracePanelProps {
+  /** Selected activity, null before one is selected */
+  activity: GanttActivity | null;
+  /** Driving path in early start order; null when the activity has no driving logic */
+  steps: GanttTraceStep[] | null;
+  /** Index of the current step */
+  currentStep: number;
+  /** Callback when a step is chosen */
+  onStep: (index: number) => void;
+}
+
+/**
+ * What-if sandbox panel props
+ * @component GanttSandboxPanel
+ */
+export interface GanttSandboxPanelProps {
+  /** Selected activity, edited in the panel; null before one is selected */
+  activity: GanttActivity | null;
+  /** Remaining duration of the selected activity in the scenario */
+  duration: number | null;
+  /** Links into the selected activity with their scenario lags, by predecessor activity ID */
+  predecessors: Array<{ relationship: ActivityRelationship; activityId: string }>;
+  /** Number of edits in the scenario */
+  editCount: number;
+  /** Scenario against the synced schedule */
+  impact: ScenarioImpact;
+  /** The user's saved scenarios; the scenario picker is hidden until they load */
+  scenarios?: ScheduleScenario[];
+  /** Loaded scenario, null for unsaved edits */
+  scenarioId: number | null;
+  /** Save or delete in progress */
+  isSaving: boolean;
+  /** Last save, load or delete failure */
+  error: string | null;
+  /** Callback when the duration changes; null restores the synced duration */
+  onDurationChange: (days: number | null) => void;
+  /** Callback when a lag changes; null restores the synced lag */
+  onLagChange: (relationship: ActivityRelationship, lag: number | null) => void;
+  /** Callback when a saved scenario is picked; null starts a new one */
+  onScenarioChange: (scenarioId: number | null) => void;
+  /** Callback when the scenario is saved under a name */
+  onSave: (name: string) => void;
+  /** Callback when the loaded scenario is deleted */
+  onDelete: () => void;
+  /** Callback when every edit is discarded */
+  onReset: () => void;
+}
+
+/**
+ * Activity drawer props: the double-clicked activity with its resources and costs
+ * @component GanttActivityDrawer
+ */
+export interface GanttActivityDrawerProps {
+  /** Activity opened from the chart, shown while its detail loads */
+  activity: GanttActivity;
+  /** Activity detail; undefined while loading or after an error */
+  detail?: ActivityDetailResponse;
+  /** Detail is loading */
+  isLoading: boolean;
+  /** Error loading the detail, null for none */
+  error: string | null;
+  /** Callback when the drawer is closed */
+  onClose: () => void;
 }
 
 /**
@@ -252,10 +587,66 @@ export interface GanttRowLabelProps {
   activity: GanttActivity;
   /** Indent level based on WBS hierarchy */
   indentLevel: number;
+  /** Row height in pixels */
+  height: number;
+  /** Row position among all rows (1-based) */
+  position: number;
+  /** Total row count */
+  rowCount: number;
   /** Is selected */
   isSelected: boolean;
   /** Callback when clicked */
   onClick: (activity: GanttActivity) => void;
+  /** Callback when double-clicked */
+  onDoubleClick: (activity: GanttActivity) => void;
+  /** Grid columns shown, with their widths */
+  columns: Array<{ id: GanttColumnId; width: number }>;
+  /** Total float in days for the total float column */
+  totalFloat: number | null;
+  /** WBS code for the WBS column */
+  wbsCode: string | null;
+  /** Baseline variance columns; null when the baseline lacks the activity, omitted without a baseline */
+  variance?: ActivityVariance | null;
+}
+
+/**
+ * Label column header props: sortable, resizable grid column headers
+ * @component GanttLabelHeader
+ */
+export interface GanttLabelHeaderProps {
+  /** Grid columns shown, with their widths */
+  columns: Array<{ id: GanttColumnId; width: number }>;
+  /** Current sort, null for the schedule order */
+  sort: GanttColumnSort | null;
+  /** Header height in pixels */
+  height: number;
+  /** Show the baseline variance column headers */
+  showVariance?: boolean;
+  /** Callback when a column header is clicked */
+  onSort: (column: GanttColumnId) => void;
+  /** Callback when a column is resized */
+  onResize: (column: GanttColumnId, width: number) => void;
+}
+
+/**
+ * Gantt WBS summary row label props
+ * @component GanttWbsRowLabel
+ */
+export interface GanttWbsRowLabelProps {
+  /** WBS summary row */
+  row: GanttWbsRow;
+  /** Whether the WBS shows its children */
+  isExpanded: boolean;
+  /** Row height in pixels */
+  height: number;
+  /** Row position among all rows (1-based) */
+  position: number;
+  /** Total row count */
+  rowCount: number;
+  /** Callback when clicked; expands or collapses the WBS */
+  onToggle: (wbsObjectId: number) => void;
+  /** Leave room for the baseline variance columns */
+  showVariance?: boolean;
 }
 
 /**
@@ -275,12 +666,50 @@ export interface GanttToolbarProps {
   onCriticalPathToggle: (show: boolean) => void;
   /** Callback when dependencies toggle changes */
   onDependenciesToggle: (show: boolean) => void;
+  /** Trace logic toggle state */
+  traceLogic?: boolean;
+  /** Callback when trace logic is toggled; the toggle is hidden without it */
+  onTraceLogicToggle?: (trace: boolean) => void;
+  /** Successors toggle state, shown while tracing logic */
+  traceSuccessors?: boolean;
+  /** Callback when the successors toggle changes */
+  onTraceSuccessorsToggle?: (trace: boolean) => void;
+  /** What-if sandbox toggle state */
+  sandbox?: boolean;
+  /** Callback when the sandbox is toggled; the toggle is hidden without it */
+  onSandboxToggle?: (sandbox: boolean) => void;
+  /** Label columns shown */
+  columns?: GanttColumnId[];
+  /** Callback when a label column is shown or hidden; the column chooser is hidden without it */
+  onColumnToggle?: (column: GanttColumnId, show: boolean) => void;
   /** Callback when zoom in is clicked */
   onZoomIn: () => void;
   /** Callback when zoom out is clicked */
   onZoomOut: () => void;
   /** Callback when today is clicked */
   onGoToToday: () => void;
+  /** Depth of the WBS hierarchy; the expand to level buttons are hidden without it */
+  wbsLevels?: number;
+  /** Callback when an expand to level button is clicked; null expands everything */
+  onExpandToLevel?: (level: number | null) => void;
+  /** Baselines to compare against; the baseline picker is hidden until they load */
+  baselines?: ScheduleBaseline[];
+  /** Selected baseline ID, null for none */
+  baselineId?: string | null;
+  /** Callback when a baseline is picked; null clears the comparison */
+  onBaselineChange?: (baselineId: string | null) => void;
+  /** Slip filter in days, null for none; shown while a baseline is selected */
+  slipThresholdDays?: number | null;
+  /** Callback when the slip filter changes */
+  onSlipThresholdChange?: (days: number | null) => void;
+  /** Callback when PMXML export is clicked; the button is hidden without it */
+  onExport?: () => void;
+  /** Export in progress */
+  isExporting?: boolean;
+  /** Callback when chart export is clicked; the export controls are hidden without it */
+  onExportChart?: (options: GanttExportOptions) => void;
+  /** Chart export in progress */
+  isExportingChart?: boolean;
 }
 
 // ============================================================================
@@ -301,22 +730,106 @@ export interface ActivitiesResponse {
   totalCount: number;
 }
 
+/**
+ * Schedule the Gantt can compare against
+ * @schema p6_raw.baseline_projects + orion_sync.schedule_snapshots
+ * @api GET /api/v1/p6/projects/{projectObjectId}/baselines
+ */
+export interface ScheduleBaseline {
+  /** "p6-{objectId}" for a P6 baseline project, "sync-{snapshotId}" for an ORION sync snapshot */
+  id: string;
+  /** P6 baseline project or ORION sync snapshot */
+  source: 'p6' | 'sync';
+  /** Display name */
+  name: string;
+  /** P6 baseline type, null for sync snapshots */
+  baselineType: string | null;
+  /** Last update of a P6 baseline or capture time of a snapshot (ISO 8601), null if P6 has none */
+  date: string | null;
+}
+
+/**
+ * Baselines API response, P6 baselines first, newest first within each source
+ */
+export interface BaselinesResponse {
+  baselines: ScheduleBaseline[];
+}
+
+/**
+ * Baseline dates of one activity of the current schedule
+ */
+export interface BaselineActivity {
+  /** Activity Object ID in the current schedule */
+  objectId: number;
+  /** Baseline start (ISO 8601): actual start if it had started, else planned */
+  start: string;
+  /** Baseline finish (ISO 8601): actual finish if it had finished, else planned */
+  finish: string;
+}
+
+/**
+ * Baseline dates API response; activities the baseline lacks are absent
+ * @api GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId}
+ */
+export interface BaselineScheduleResponse {
+  baseline: ScheduleBaseline;
+  activities: BaselineActivity[];
+}
+
+/**
+ * What-if scenario saved by the signed-in user
+ * @schema orion_core.schedule_scenarios
+ * @api GET /api/v1/p6/projects/{projectObjectId}/scenarios
+ */
+export interface ScheduleScenario {
+  id: number;
+  projectObjectId: number;
+  name: string;
+  edits: ScenarioEdits;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 */
+  updatedAt: string;
+}
+
+/**
+ * Scenarios API response, most recently updated first
+ */
+export interface ScenariosResponse {
+  scenarios: ScheduleScenario[];
+}
+
+/**
+ * Body of the scenario create and update requests
+ * @api POST /api/v1/p6/projects/{projectObjectId}/scenarios
+ * @api PUT /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}
+ */
+export interface ScenarioInput {
+  name: string;
+  edits: ScenarioEdits;
+}
+
 /**
  * Activity detail API response
+ * @schema p6_raw.activities + p6_raw.resource_assignments
+ * @api GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId}
  */
 export interface ActivityDetailResponse {
   /** Activity data */
   activity: GanttActivity;
-  /** Assigned resources */
+  /** Resource assignments */
   resources: Array<{
+    /** Resource name; "Unassigned" for role-only assignments */
     name: string;
-    role: string;
-    units: number;
+    /** Role the resource is assigned in, null for none */
+    role: string | null;
+    /** Planned units (hours); null when P6 reports none */
+    units: number | null;
   }>;
-  /** Cost data */
+  /** Activity costs, each null when P6 has none */
   costs: {
-    plannedCost: number;
-    actualCost: number;
-    remainingCost: number;
+    plannedCost: number | null;
+    actualCost: number | null;
+    remainingCost: number | null;
   };
 }
@@ -0,0 +1,174 @@
+/**
+ * Gantt What-if Sandbox State
+ * @governance COMPONENT-001
+ *
+ * The scenario being edited in the chart: its edits, the saved scenario it
+ * started from and the synced schedule rescheduled with it (sandbox.ts).
+ * Feeds GanttSandboxPanel and the draggable bars. The scenario is kept
+ * while the sandbox is off and dropped when the project changes.
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { useDeleteScheduleScenario, useP6Scenarios, useSaveScheduleScenario } from '@/lib/hooks';
+import { getApiErrorMessage } from '@/lib/errors';
+import type { CpmSchedule } from '@/lib/schedule/cpm';
+import { NO_EDITS, draggedStart, getScenarioImpact, scheduleScenario, withActivityEdit, withLagEdit } from './sandbox';
+import type { ActivityRelationship, GanttActivity, GanttSandboxPanelProps, ScenarioEdits } from './types';
+
+interface GanttSandboxOptions {
+  projectObjectId: number;
+  tenantId: string;
+  /** What-if sandbox is on */
+  enabled: boolean;
+  /** Activity ID selected in the chart, edited in the panel */
+  selectedActivityId: string | null;
+  /** Synced schedule */
+  activities: GanttActivity[];
+  relationships: ActivityRelationship[];
+  criticalPath: CpmSchedule;
+  dataDate: string | undefined;
+}
+
+export function useGanttSandbox({
+  projectObjectId,
+  tenantId,
+  enabled,
+  selectedActivityId,
+  activities,
+  relationships,
+  criticalPath,
+  dataDate,
+}: GanttSandboxOptions) {
+  // What-if scenario being edited, and the saved scenario it started from
+  const [scenario, setScenario] = useState<{ projectObjectId: number; id: number | null; edits: ScenarioEdits }>({
+    projectObjectId,
+    id: null,
+    edits: NO_EDITS,
+  });
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  if (scenario.projectObjectId !== projectObjectId) {
+    setScenario({ projectObjectId, id: null, edits: NO_EDITS });
+  }
+
+  const scenariosQuery = useP6Scenarios(projectObjectId, tenantId, enabled);
+  const saveScenario = useSaveScheduleScenario();
+  const deleteScenario = useDeleteScheduleScenario();
+
+  // The synced schedule rescheduled with the scenario's edits, which then
+  // drives the bars, links and critical flags
+  const sandbox = useMemo(
+    () => (enabled ? scheduleScenario(activities, relationships, criticalPath, scenario.edits, { dataDate }) : null),
+    [enabled, activities, relationships, criticalPath, scenario.edits, dataDate]
+  );
+  const impact = useMemo(() => (sandbox ? getScenarioImpact(activities, sandbox.activities) : null), [sandbox, activities]);
+
+  // Edits of the selected activity: its duration and the lags into it
+  const activity = sandbox?.activities.find((item) => item.activityId === selectedActivityId) ?? null;
+  const predecessors = useMemo(
+    () =>
+      sandbox && activity
+        ? sandbox.relationships
+            .filter((rel) => rel.successorObjectId === activity.objectId)
+            .flatMap((relationship) => {
+              const predecessor = sandbox.activities.find((item) => item.objectId === relationship.predecessorObjectId);
+              return predecessor ? [{ relationship, activityId: predecessor.activityId }] : [];
+            })
+        : [],
+    [sandbox, activity]
+  );
+
+  const handleBarDrag = useCallback((dragged: GanttActivity, days: number) => {
+    const startOnOrAfter = sandbox && draggedStart(sandbox.schedule, dragged.objectId, days);
+    if (!startOnOrAfter) return;
+    setScenario((prev) => ({ ...prev, edits: withActivityEdit(prev.edits, dragged.objectId, { startOnOrAfter }) }));
+  }, [sandbox]);
+
+  // Values back at the synced ones clear the edit
+  const handleDurationChange = useCallback((days: number | null) => {
+    if (!activity) return;
+    const { objectId } = activity;
+    const synced = activities.find((item) => item.objectId === objectId);
+    const duration = days === null || days === synced?.remainingDuration ? undefined : days;
+    setScenario((prev) => ({ ...prev, edits: withActivityEdit(prev.edits, objectId, { duration }) }));
+  }, [activity, activities]);
+
+  const handleLagChange = useCallback((relationship: ActivityRelationship, lag: number | null) => {
+    const synced = relationships.find(
+      (rel) =>
+        rel.predecessorObjectId === relationship.predecessorObjectId &&
+        rel.successorObjectId === relationship.successorObjectId &&
+        rel.type === relationship.type
+    );
+    const edit = lag === null || lag === synced?.lag ? null : lag;
+    setScenario((prev) => ({ ...prev, edits: withLagEdit(prev.edits, relationship, edit) }));
+  }, [relationships]);
+
+  const handleScenarioChange = useCallback((id: number | null) => {
+    const saved = scenariosQuery.data?.scenarios.find((item) => item.id === id);
+    setScenarioError(null);
+    setScenario((prev) => ({ ...prev, id: saved?.id ?? null, edits: saved?.edits ?? NO_EDITS }));
+  }, [scenariosQuery.data]);
+
+  const handleScenarioSave = useCallback(async (name: string) => {
+    setScenarioError(null);
+    try {
+      const saved = await saveScenario.mutateAsync({
+        projectObjectId,
+        scenarioId: scenario.id,
+        scenario: { name, edits: scenario.edits },
+        tenant: tenantId,
+      });
+      setScenario((prev) => ({ ...prev, id: saved.id }));
+    } catch (err) {
+      setScenarioError(getApiErrorMessage(err, 'Failed to save scenario'));
+    }
+  }, [saveScenario, projectObjectId, scenario.id, scenario.edits, tenantId]);
+
+  // The edits stay in the sandbox, unsaved
+  const handleScenarioDelete = useCallback(async () => {
+    if (scenario.id === null) return;
+    setScenarioError(null);
+    try {
+      await deleteScenario.mutateAsync({ projectObjectId, scenarioId: scenario.id, tenant: tenantId });
+      setScenario((prev) => ({ ...prev, id: null }));
+    } catch (err) {
+      setScenarioError(getApiErrorMessage(err, 'Failed to delete scenario'));
+    }
+  }, [deleteScenario, projectObjectId, scenario.id, tenantId]);
+
+  const handleReset = useCallback(() => {
+    setScenarioError(null);
+    setScenario((prev) => ({ ...prev, id: null, edits: NO_EDITS }));
+  }, []);
+
+  const panel: GanttSandboxPanelProps | null = impact && {
+    activity,
+    duration: activity && !activity.isMilestone && activity.status !== 'complete' ? activity.remainingDuration : null,
+    predecessors,
+    editCount: scenario.edits.activities.length + scenario.edits.relationships.length,
+    impact,
+    scenarios: scenariosQuery.data?.scenarios,
+    scenarioId: scenario.id,
+    isSaving: saveScenario.isPending || deleteScenario.isPending,
+    error:
+      scenarioError ??
+      (scenariosQuery.isError ? getApiErrorMessage(scenariosQuery.error, 'Failed to load scenarios') : null),
+    onDurationChange: handleDurationChange,
+    onLagChange: handleLagChange,
+    onScenarioChange: handleScenarioChange,
+    onSave: handleScenarioSave,
+    onDelete: handleScenarioDelete,
+    onReset: handleReset,
+  };
+
+  return {
+    /** Rescheduled scenario; null while the sandbox is off */
+    sandbox,
+    /** Bars that have not started move by dragging while the sandbox is on */
+    onBarDrag: handleBarDrag,
+    /** GanttSandboxPanel props; null while the sandbox is off */
+    panel,
+  };
+}
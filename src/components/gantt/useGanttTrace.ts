@@ -0,0 +1,81 @@
+/**
+ * Gantt Trace Logic
+ * @governance COMPONENT-001
+ *
+ * Driving path of the selected activity for GanttTracePanel and the chart
+ * overlay, which dims the bars off the path and highlights its links. The
+ * path follows the chart's schedule, so it traces the sandbox's scenario
+ * while the sandbox is on.
+ */
+
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { traceDrivingPath, type CpmSchedule, type DrivingPath } from '@/lib/schedule/cpm';
+import type { ActivityRelationship, GanttActivity, GanttTraceStep } from './types';
+
+interface GanttTraceOptions {
+  /** Trace Logic is on */
+  enabled: boolean;
+  /** Activity ID selected in the chart */
+  selectedActivityId: string | null;
+  /** Trace the activities the selected one drives instead of those driving it */
+  successors: boolean;
+  activities: GanttActivity[];
+  relationships: ActivityRelationship[];
+  schedule: CpmSchedule;
+}
+
+/** Steps of a driving path: each activity with the driving links into it and its free float */
+const getTraceSteps = (path: DrivingPath, activities: GanttActivity[], schedule: CpmSchedule): GanttTraceStep[] => {
+  const byObjectId = new Map(activities.map((activity) => [activity.objectId, activity]));
+  return path.activities.map((objectId) => ({
+    activity: byObjectId.get(objectId)!,
+    drivenBy: path.relationships
+      .filter((rel) => rel.successorObjectId === objectId)
+      .map((rel) => ({ activityId: byObjectId.get(rel.predecessorObjectId)!.activityId, type: rel.type, lag: rel.lag })),
+    freeFloat: schedule.activities.get(objectId)!.freeFloat,
+  }));
+};
+
+export function useGanttTrace({
+  enabled,
+  selectedActivityId,
+  successors,
+  activities,
+  relationships,
+  schedule,
+}: GanttTraceOptions) {
+  // Step of the traced path shown, by Object ID; the traced activity until one is chosen
+  const [stepId, setStepId] = useState<number | null>(null);
+
+  const activity = useMemo(
+    () => (enabled ? activities.find((item) => item.activityId === selectedActivityId) ?? null : null),
+    [enabled, selectedActivityId, activities]
+  );
+  const path = useMemo(
+    () => (activity ? traceDrivingPath(schedule, relationships, activity.objectId, { successors }) : null),
+    [activity, schedule, relationships, successors]
+  );
+  const steps = useMemo(() => (path ? getTraceSteps(path, activities, schedule) : null), [path, activities, schedule]);
+  // Overlay: the bars and links on the path
+  const objectIds = useMemo(() => (path ? new Set(path.activities) : null), [path]);
+  const pathRelationships = useMemo(() => (path ? new Set(path.relationships) : null), [path]);
+  const currentStep = steps
+    ? Math.max(0, steps.findIndex((step) => step.activity.objectId === (stepId ?? activity!.objectId)))
+    : 0;
+
+  // A new trace starts at the traced activity
+  const resetStep = useCallback(() => setStepId(null), []);
+
+  return {
+    /** Traced activity; null while Trace Logic is off or nothing is selected */
+    activity,
+    steps,
+    currentStep,
+    objectIds,
+    relationships: pathRelationships,
+    setStepId,
+    resetStep,
+  };
+}
@@ -5,6 +5,8 @@
  *
  * Step 5 of the Onboarding Wizard.
  * Shows configuration summary and completes onboarding setup.
+ * When completion starts an initial sync job, its progress streams in live
+ * (useSyncJobStream) before the success view.
  * Features premium success celebration animation.
  *
  * @coverage
@@ -25,7 +27,9 @@ import {
   ProgressIndicator,
   Badge,
 } from '@/components/ui';
-import type { OnboardingCompleteProps } from './types';
+import { useSyncJobStream } from '@/lib/hooks';
+import type { SyncEntityProgress, SyncJobStatus } from '@/lib/types';
+import type { OnboardingCompleteProps, SyncProgress } from './types';
 
 // Step labels for progress indicator
 const STEP_LABELS = ['Welcome', 'P6', 'SAP', 'Projects', 'Complete'];
@@ -102,6 +106,84 @@ const SummaryCard = memo(function SummaryCard({
   );
 });
 
+const SYNC_PROGRESS_STATUS: Record<SyncJobStatus['status'], SyncProgress['status']> = {
+  pending: 'pending',
+  running: 'syncing',
+  completed: 'complete',
+  failed: 'error',
+};
+
+/**
+ * Map a sync job and its P6 entity counts onto the onboarding progress shape
+ */
+function toSyncProgress(job: SyncJobStatus | undefined, entities: SyncEntityProgress[]): SyncProgress {
+  const count = (entity: SyncEntityProgress['entity']) =>
+    entities.find((candidate) => candidate.system === 'p6' && candidate.entity === entity);
+  const projects = count('projects');
+  const activities = count('activities');
+
+  return {
+    projectsTotal: projects?.total ?? 0,
+    projectsSynced: projects?.synced ?? 0,
+    activitiesTotal: activities?.total ?? 0,
+    activitiesSynced: activities?.synced ?? 0,
+    status: job ? SYNC_PROGRESS_STATUS[job.status] : 'pending',
+    errorMessage: job?.error ?? undefined,
+    startedAt: job?.startedAt,
+    completedAt: job?.completedAt ?? undefined,
+  };
+}
+
+/**
+ * Live progress of the initial sync started by onboarding completion
+ */
+const InitialSyncProgress = memo(function InitialSyncProgress({
+  jobId,
+  onFinished,
+}: {
+  jobId: string;
+  onFinished: (job: SyncJobStatus) => void;
+}) {
+  const { job, entities } = useSyncJobStream(jobId);
+  const progress = toSyncProgress(job, entities);
+
+  useEffect(() => {
+    if (job?.status === 'completed' || job?.status === 'failed') onFinished(job);
+  }, [job, onFinished]);
+
+  return (
+    <div role="status" className="mb-6 py-4">
+      <div className="flex items-center justify-between mb-2 text-sm font-mono">
+        <span className="text-[var(--orion-text-secondary)]">
+          {progress.status === 'pending' ? 'Waiting for initial sync...' : 'Syncing your projects...'}
+        </span>
+        <span className="text-[var(--orion-cyan)]">{job?.progress ?? 0}%</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label="Initial sync progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={job?.progress ?? 0}
+        className="h-2 rounded-full bg-[var(--orion-bg-glass)] overflow-hidden"
+      >
+        <div
+          className="h-full rounded-full bg-[var(--orion-cyan)] transition-all duration-500"
+          style={{ width: `${job?.progress ?? 0}%` }}
+        />
+      </div>
+      <div className="mt-3 flex justify-between text-xs font-mono text-[var(--orion-text-muted)]">
+        <span>
+          Projects {progress.projectsSynced.toLocaleString()} / {progress.projectsTotal.toLocaleString()}
+        </span>
+        <span>
+          Activities {progress.activitiesSynced.toLocaleString()} / {progress.activitiesTotal.toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
+});
+
 /**
  * Extract host from URL for display
  */
@@ -127,6 +209,7 @@ export const OnboardingComplete = memo(function OnboardingComplete({
   const [mounted, setMounted] = useState(false);
   const [state, setState] = useState<CompletionState>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [syncJobId, setSyncJobId] = useState<string | null>(null);
 
   useEffect(() => {
     setMounted(true);
@@ -136,6 +219,7 @@ export const OnboardingComplete = memo(function OnboardingComplete({
   const handleCompleteSetup = useCallback(async () => {
     setState('syncing');
     setError(null);
+    setSyncJobId(null);
 
     try {
       const response = await fetch('/api/v1/onboarding/complete', {
@@ -150,7 +234,10 @@ export const OnboardingComplete = memo(function OnboardingComplete({
 
       const result = await response.json();
 
-      if (result.success) {
+      if (result.success && result.job_id) {
+        // Stay in 'syncing' until the initial sync job finishes
+        setSyncJobId(result.job_id);
+      } else if (result.success) {
         setState('complete');
       } else {
         setState('error');
@@ -162,6 +249,17 @@ export const OnboardingComplete = memo(function OnboardingComplete({
     }
   }, [p6Config, sapConfig, selectedProjects]);
 
+  // Handle initial sync finishing
+  const handleSyncFinished = useCallback((job: SyncJobStatus) => {
+    setSyncJobId(null);
+    if (job.status === 'completed') {
+      setState('complete');
+    } else {
+      setState('error');
+      setError(job.error || 'Initial sync failed. Please try again.');
+    }
+  }, []);
+
   // Handle Retry
   const handleRetry = useCallback(() => {
     handleCompleteSetup();
@@ -367,8 +465,13 @@ export const OnboardingComplete = memo(function OnboardingComplete({
           </div>
         )}
 
+        {/* Initial Sync Progress */}
+        {state === 'syncing' && syncJobId && (
+          <InitialSyncProgress jobId={syncJobId} onFinished={handleSyncFinished} />
+        )}
+
         {/* Syncing Status */}
-        {state === 'syncing' && (
+        {state === 'syncing' && !syncJobId && (
           <div role="status" className="mb-6 text-center py-4">
             <LoadingSpinner size="lg" />
             <p className="mt-4 text-[var(--orion-text-secondary)] font-mono">
@@ -4,7 +4,8 @@
  * @doc-sync PAGE_DATA_API_REFERENCE.md:10.4
  *
  * Step 4 of the Onboarding Wizard.
- * Displays P6 projects for selection to sync with SAP.
+ * Displays P6 projects for selection to sync with SAP, grouped under their
+ * EPS nodes when the listing includes the EPS tree.
  * Uses VIOLET accent color to represent analytics/multi-project.
  *
  * @coverage
@@ -25,11 +26,41 @@ import {
   ProgressIndicator,
   Badge,
 } from '@/components/ui';
-import type { ProjectSelectionProps, ProjectSelectionState, P6Project } from './types';
+import type { ProjectSelectionProps, ProjectSelectionState, P6Project, P6EpsNode } from './types';
 
 // Step labels for progress indicator
 const STEP_LABELS = ['Welcome', 'P6', 'SAP', 'Projects', 'Complete'];
 
+/**
+ * Projects listed under one EPS node; node is null for projects outside
+ * every listed node
+ */
+interface EpsGroup {
+  node: P6EpsNode | null;
+  projects: P6Project[];
+}
+
+/**
+ * Group projects by EPS node in tree order, dropping nodes without projects
+ */
+function groupByEps(projects: P6Project[], epsNodes: P6EpsNode[]): EpsGroup[] {
+  const byEps = new Map<number | null, P6Project[]>();
+  const known = new Set(epsNodes.map((node) => node.epsId));
+  for (const project of projects) {
+    const epsId = project.epsId != null && known.has(project.epsId) ? project.epsId : null;
+    const group = byEps.get(epsId);
+    if (group) group.push(project);
+    else byEps.set(epsId, [project]);
+  }
+
+  const groups: EpsGroup[] = epsNodes
+    .filter((node) => byEps.has(node.epsId))
+    .map((node) => ({ node, projects: byEps.get(node.epsId)! }));
+  const ungrouped = byEps.get(null);
+  if (ungrouped) groups.push({ node: null, projects: ungrouped });
+  return groups;
+}
+
 /**
  * Progress Bar component with ORION styling
  */
@@ -212,6 +243,7 @@ export const ProjectSelection = memo(function ProjectSelection({
   // State
   const [state, setState] = useState<ProjectSelectionState>({
     projects: [],
+    epsNodes: [],
     selectedProjectIds: [],
     isLoading: true,
     error: null,
@@ -236,9 +268,19 @@ export const ProjectSelection = memo(function ProjectSelection({
 
       const data = await response.json();
 
+      if (!response.ok) {
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: data.message || 'Failed to load projects. Please check your connection.',
+        }));
+        return;
+      }
+
       setState((prev) => ({
         ...prev,
         projects: data.projects || [],
+        epsNodes: data.eps || [],
         isLoading: false,
       }));
     } catch (error) {
@@ -306,6 +348,12 @@ export const ProjectSelection = memo(function ProjectSelection({
     );
   }, [state.projects, state.searchQuery]);
 
+  // Group the filtered projects by EPS node, when P6 returned any
+  const epsGroups = useMemo(
+    () => (state.epsNodes.length > 0 ? groupByEps(filteredProjects, state.epsNodes) : null),
+    [filteredProjects, state.epsNodes]
+  );
+
   // Get selected projects
   const selectedProjects = useMemo(() => {
     return state.projects.filter((p) => state.selectedProjectIds.includes(p.projectId));
@@ -483,14 +531,43 @@ export const ProjectSelection = memo(function ProjectSelection({
             aria-multiselectable="true"
             className={`grid grid-cols-1 md:grid-cols-2 gap-4 mb-8 ${mounted ? 'animate-fade-in delay-400' : 'opacity-0'}`}
           >
-            {filteredProjects.map((project) => (
-              <ProjectCard
-                key={project.projectId}
-                project={project}
-                isSelected={state.selectedProjectIds.includes(project.projectId)}
-                onToggle={() => toggleProject(project.projectId)}
-              />
-            ))}
+            {epsGroups
+              ? epsGroups.map((group) => {
+                  const label = group.node ? group.node.path.join(' / ') : 'Other projects';
+                  return (
+                    <div
+                      key={group.node?.epsId ?? 'other'}
+                      role="group"
+                      aria-label={label}
+                      data-testid={`eps-group-${group.node?.epsId ?? 'other'}`}
+                      className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4"
+                    >
+                      <div
+                        aria-hidden="true"
+                        className="md:col-span-2 flex justify-between items-baseline pt-2 text-sm font-mono"
+                      >
+                        <span className="text-[var(--orion-text-secondary)] font-display font-semibold">{label}</span>
+                        <span className="text-[var(--orion-text-muted)]">{group.projects.length} projects</span>
+                      </div>
+                      {group.projects.map((project) => (
+                        <ProjectCard
+                          key={project.projectId}
+                          project={project}
+                          isSelected={state.selectedProjectIds.includes(project.projectId)}
+                          onToggle={() => toggleProject(project.projectId)}
+                        />
+                      ))}
+                    </div>
+                  );
+                })
+              : filteredProjects.map((project) => (
+                  <ProjectCard
+                    key={project.projectId}
+                    project={project}
+                    isSelected={state.selectedProjectIds.includes(project.projectId)}
+                    onToggle={() => toggleProject(project.projectId)}
+                  />
+                ))}
           </div>
         )}
 
@@ -13,6 +13,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { DataModeProvider } from '@/contexts/DataModeContext';
+import { TenantProvider } from '@/contexts/TenantContext';
 import { OnboardingComplete } from '../OnboardingComplete';
 import type { OnboardingCompleteProps, SelectedProject } from '../types';
 
@@ -399,6 +402,75 @@ describe('OnboardingComplete - Integration Tests', () => {
   });
 });
 
+describe('OnboardingComplete - Initial Sync Progress', () => {
+  const syncJob = (status: 'running' | 'completed' | 'failed', progress: number) => ({
+    jobId: 'job-0001',
+    status,
+    progress,
+    recordsSynced: { p6: Math.round(18.4 * progress), sap: 0 },
+    startedAt: '2025-07-01T09:00:00Z',
+    completedAt: status === 'running' ? null : '2025-07-01T09:01:00Z',
+    error: status === 'failed' ? 'SAP RFC connection reset by peer' : null,
+  });
+
+  function renderWithProviders(props: OnboardingCompleteProps = defaultProps) {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <TenantProvider tenantId="tenant-001">
+          <DataModeProvider>
+            <OnboardingComplete {...props} />
+          </DataModeProvider>
+        </TenantProvider>
+      </QueryClientProvider>
+    );
+  }
+
+  function mockCompletionWithJob(jobStatuses: ReturnType<typeof syncJob>[]) {
+    mockFetch.mockImplementation((url: string) => {
+      const body = url === '/api/v1/onboarding/complete'
+        ? { success: true, message: 'Onboarding complete', job_id: 'job-0001' }
+        : jobStatuses.length > 1 ? jobStatuses.shift() : jobStatuses[0];
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    });
+  }
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('shows live sync progress until the initial sync completes', async () => {
+    mockCompletionWithJob([syncJob('running', 40), syncJob('completed', 100)]);
+
+    const user = userEvent.setup();
+    renderWithProviders();
+
+    await user.click(screen.getByRole('button', { name: /complete setup/i }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('progressbar', { name: /initial sync progress/i })).toHaveAttribute('aria-valuenow', '40');
+    });
+    await waitFor(
+      () => expect(screen.getByRole('button', { name: /go to dashboard/i })).toBeInTheDocument(),
+      { timeout: 3000 }
+    );
+  });
+
+  it('shows the sync error when the initial sync fails', async () => {
+    mockCompletionWithJob([syncJob('failed', 60)]);
+
+    const user = userEvent.setup();
+    renderWithProviders();
+
+    await user.click(screen.getByRole('button', { name: /complete setup/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('SAP RFC connection reset by peer')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
+  });
+});
+
 // ============================================================================
 // PERFORMANCE TESTS
 // ============================================================================
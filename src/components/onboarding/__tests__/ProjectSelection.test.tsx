@@ -14,7 +14,7 @@ import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { ProjectSelection } from '../ProjectSelection';
-import type { ProjectSelectionProps, P6Project } from '../types';
+import type { ProjectSelectionProps, P6Project, P6EpsNode } from '../types';
 
 // Extend expect with accessibility matchers
 expect.extend(toHaveNoViolations);
@@ -563,6 +563,55 @@ describe('ProjectSelection - Integration Tests', () => {
       expect(screen.getByText(/no projects found/i)).toBeInTheDocument();
     });
   });
+
+  it('groups projects under their EPS nodes in tree order', async () => {
+    const eps: P6EpsNode[] = [
+      { epsId: 300, epsCode: 'ACME', epsName: 'ACME Energy', parentEpsId: null, path: ['ACME Energy'] },
+      { epsId: 301, epsCode: 'ACME.DOWN', epsName: 'Downstream', parentEpsId: 300, path: ['ACME Energy', 'Downstream'] },
+      { epsId: 302, epsCode: 'ACME.UP', epsName: 'Upstream', parentEpsId: 300, path: ['ACME Energy', 'Upstream'] },
+    ];
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          projects: [
+            { ...mockProjects[0], epsId: 301 },
+            { ...mockProjects[1], epsId: 300 },
+            { ...mockProjects[2], epsId: 301 },
+            { ...mockProjects[3], epsId: null },
+          ],
+          eps,
+        }),
+    });
+
+    render(<ProjectSelection {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
+    });
+
+    const groups = screen.getAllByRole('group');
+    expect(groups.map((group) => group.getAttribute('aria-label'))).toEqual([
+      'ACME Energy',
+      'ACME Energy / Downstream',
+      'Other projects',
+    ]);
+    expect(within(groups[1]).getByText('Pipeline Network Phase 2')).toBeInTheDocument();
+    expect(within(groups[2]).getByText('Legacy Terminal Upgrade')).toBeInTheDocument();
+  });
+
+  it('shows the message of a failed P6 listing', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: () => Promise.resolve({ message: 'P6 Authentication failed: Invalid user name or password.' }),
+    });
+
+    render(<ProjectSelection {...defaultProps} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('P6 Authentication failed: Invalid user name or password.')).toBeInTheDocument();
+    });
+  });
 });
 
 // ============================================================================
@@ -38,6 +38,7 @@ export type {
   SAPConnectionFormProps,
   // Step 4
   P6Project,
+  P6EpsNode,
   ProjectSelectionState,
   SelectedProjectsData,
   ProjectSelectionProps,
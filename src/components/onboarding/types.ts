@@ -177,6 +177,22 @@ export interface P6Project {
   finishDate?: string;
   status?: string;
   percentComplete?: number;
+  /** Parent EPS node; null when it is not one of the listed nodes */
+  epsId?: number | null;
+}
+
+/**
+ * P6 EPS node used to group the selection list
+ * @component ProjectSelection
+ * @api POST /api/v1/onboarding/p6/projects
+ */
+export interface P6EpsNode {
+  epsId: number;
+  epsCode: string;
+  epsName: string;
+  parentEpsId: number | null;
+  /** EPS names from the root down to and including this node */
+  path: string[];
 }
 
 /**
@@ -186,6 +202,8 @@ export interface P6Project {
  */
 export interface ProjectSelectionState {
   projects: P6Project[];
+  /** EPS nodes in tree order; empty lists the projects ungrouped */
+  epsNodes: P6EpsNode[];
   selectedProjectIds: number[];
   isLoading: boolean;
   error: string | null;
@@ -8,11 +8,13 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, memo, useMemo } from 'react';
+import { useState, useEffect, useCallback, memo } from 'react';
+import { useP6Projects, useP6ProjectStatuses } from '@/lib/hooks';
 import type {
   ProjectsDataTableProps,
   ProjectsTableState,
   P6Project,
+  PaginationState,
   StatusOption,
   SortableColumn,
   SortDirection,
@@ -458,6 +460,9 @@ const ErrorState = memo(function ErrorState({ onRetry }: { onRetry: () => void }
 // MAIN COMPONENT
 // ============================================================================
 
+const NO_PROJECTS: P6Project[] = [];
+const NO_STATUSES: StatusOption[] = [];
+
 export const ProjectsDataTable = memo(function ProjectsDataTable({
   tenantId,
   initialPageSize = 20,
@@ -466,12 +471,9 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
   onViewGantt,
 }: ProjectsDataTableProps) {
   const [state, setState] = useState<ProjectsTableState>({
-    data: [],
     pagination: {
       page: 1,
       pageSize: initialPageSize,
-      total: 0,
-      totalPages: 0,
     },
     filters: {
       status: null,
@@ -482,79 +484,29 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
       column: 'name',
       direction: 'asc',
     },
-    isLoading: true,
-    error: null,
   });
 
-  const [statuses, setStatuses] = useState<StatusOption[]>([]);
-
-  // Build query string
-  const queryString = useMemo(() => {
-    const params = new URLSearchParams();
-    params.set('tenant', tenantId);
-    params.set('page', String(state.pagination.page));
-    params.set('pageSize', String(state.pagination.pageSize));
-    params.set('sortBy', state.sorting.column);
-    params.set('sortDir', state.sorting.direction);
-
-    if (state.filters.status) {
-      params.set('status', state.filters.status);
-    }
-    if (state.filters.epsId) {
-      params.set('epsId', String(state.filters.epsId));
-    }
-    if (state.filters.search) {
-      params.set('search', state.filters.search);
-    }
+  const projectsQuery = useP6Projects({
+    tenant: tenantId,
+    page: state.pagination.page,
+    pageSize: state.pagination.pageSize,
+    sortBy: state.sorting.column,
+    sortDir: state.sorting.direction,
+    status: state.filters.status,
+    epsId: state.filters.epsId,
+    search: state.filters.search,
+  });
 
-    return params.toString();
-  }, [tenantId, state.pagination, state.sorting, state.filters]);
-
-  // Fetch projects
-  const fetchProjects = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      const response = await fetch(`/api/v1/p6/projects?${queryString}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const result = await response.json();
-
-      setState((prev) => ({
-        ...prev,
-        data: result.data,
-        pagination: result.pagination,
-        isLoading: false,
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: false,
-        error: 'Failed to load projects',
-      }));
-    }
-  }, [queryString]);
-
-  // Fetch statuses for filter
-  const fetchStatuses = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/v1/p6/projects/statuses?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const result = await response.json();
-      setStatuses(result);
-    } catch {
-      // Silently fail - filter will just be empty
-    }
-  }, [tenantId]);
+  // Statuses only feed the filter - on failure it just stays empty
+  const statusesQuery = useP6ProjectStatuses(tenantId);
+  const statuses: StatusOption[] = statusesQuery.data ?? NO_STATUSES;
 
-  // Initial data fetch
-  useEffect(() => {
-    fetchProjects();
-    fetchStatuses();
-  }, [fetchProjects, fetchStatuses]);
+  const data: P6Project[] = projectsQuery.data?.data ?? NO_PROJECTS;
+  const pagination: PaginationState = projectsQuery.data?.pagination ?? {
+    ...state.pagination,
+    total: 0,
+    totalPages: 0,
+  };
 
   // Handlers
   const handleSort = useCallback((column: SortableColumn) => {
@@ -622,7 +574,7 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
         </div>
 
         {/* Loading indicator for screen readers */}
-        {state.isLoading && (
+        {projectsQuery.isFetching && (
           <div role="status" className="sr-only">
             Loading projects...
           </div>
@@ -642,13 +594,13 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
 
         {/* Table */}
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
-          {state.isLoading ? (
+          {projectsQuery.isPending ? (
             <div className="p-6">
               <TableSkeleton />
             </div>
-          ) : state.error ? (
-            <ErrorState onRetry={fetchProjects} />
-          ) : state.data.length === 0 ? (
+          ) : projectsQuery.isError ? (
+            <ErrorState onRetry={() => projectsQuery.refetch()} />
+          ) : data.length === 0 ? (
             <EmptyState hasFilters={hasFilters} onClearFilters={handleClearFilters} />
           ) : (
             <>
@@ -725,7 +677,7 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
                     </tr>
                   </thead>
                   <tbody>
-                    {state.data.map((project) => (
+                    {data.map((project) => (
                       <ProjectRow
                         key={project.id}
                         project={project}
@@ -738,10 +690,10 @@ export const ProjectsDataTable = memo(function ProjectsDataTable({
                 </table>
               </div>
               <PaginationControls
-                page={state.pagination.page}
-                totalPages={state.pagination.totalPages}
-                pageSize={state.pagination.pageSize}
-                total={state.pagination.total}
+                page={pagination.page}
+                totalPages={pagination.totalPages}
+                pageSize={pagination.pageSize}
+                total={pagination.total}
                 onPageChange={handlePageChange}
                 onPageSizeChange={handlePageSizeChange}
               />
@@ -11,7 +11,8 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, within } from '@testing-library/react';
+import { screen, waitFor, within } from '@testing-library/react';
+import { renderWithProviders } from '@/components/__tests__/renderWithProviders';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { ProjectsDataTable } from '../ProjectList';
@@ -175,7 +176,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
   describe('Rendering', () => {
     it('displays table title', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent(/projects/i);
@@ -184,13 +185,13 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
     it('shows loading skeleton initially', () => {
       mockFetch.mockImplementation(() => new Promise(() => {}));
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       expect(screen.getByTestId('table-skeleton')).toBeInTheDocument();
     });
 
     it('displays table with data after loading', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('table')).toBeInTheDocument();
@@ -198,7 +199,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays all projects in the table', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -210,7 +211,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays project ID column', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('PROJ-001')).toBeInTheDocument();
@@ -219,7 +220,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays status badges', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         // Multiple Active statuses in the table
@@ -229,7 +230,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays percent complete with progress indicator', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('35%')).toBeInTheDocument();
@@ -238,7 +239,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays SPI values with color coding', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         const table = screen.getByRole('table');
@@ -249,7 +250,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays CPI values with color coding', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         const table = screen.getByRole('table');
@@ -274,7 +275,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
         return mockSuccessfulAPIs()(url);
       });
 
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         const naElements = screen.getAllByText(/n\/a/i);
@@ -285,7 +286,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
   describe('Table Headers', () => {
     it('displays all column headers', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('columnheader', { name: /project id/i })).toBeInTheDocument();
@@ -299,7 +300,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('indicates sortable columns', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         const nameHeader = screen.getByRole('columnheader', { name: /name/i });
@@ -311,7 +312,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
   describe('Sorting', () => {
     it('sorts by name when name header is clicked', async () => {
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -332,7 +333,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
     it('toggles sort direction on subsequent clicks', async () => {
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('table')).toBeInTheDocument();
@@ -355,7 +356,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
   describe('Filtering', () => {
     it('displays status filter dropdown', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('combobox', { name: /status/i })).toBeInTheDocument();
@@ -364,10 +365,11 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
     it('filters by status when option is selected', async () => {
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
+      // Status options load separately from the table rows
       await waitFor(() => {
-        expect(screen.getByRole('combobox', { name: /status/i })).toBeInTheDocument();
+        expect(screen.getByRole('option', { name: /^Active/ })).toBeInTheDocument();
       });
 
       const statusSelect = screen.getByRole('combobox', { name: /status/i });
@@ -383,7 +385,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays search input', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('searchbox')).toBeInTheDocument();
@@ -392,7 +394,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
     it('searches when text is entered', async () => {
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('searchbox')).toBeInTheDocument();
@@ -416,7 +418,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
   describe('Pagination', () => {
     it('displays pagination controls', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         // Pagination has previous/next buttons
@@ -426,7 +428,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('shows current page and total', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/1.*of.*1/i)).toBeInTheDocument();
@@ -455,7 +457,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
       });
 
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /next/i })).toBeInTheDocument();
@@ -472,7 +474,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('disables previous button on first page', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /previous/i })).toBeDisabled();
@@ -481,7 +483,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
 
     it('allows changing page size', async () => {
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('combobox', { name: /rows per page/i })).toBeInTheDocument();
@@ -503,7 +505,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     it('calls onProjectClick when row is clicked', async () => {
       const onProjectClick = vi.fn();
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} onProjectClick={onProjectClick} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} onProjectClick={onProjectClick} />);
 
       await waitFor(() => {
         expect(screen.getByText('ACME Refinery Expansion')).toBeInTheDocument();
@@ -517,7 +519,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     });
 
     it('displays action buttons for each row', async () => {
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         const wbsButtons = screen.getAllByRole('button', { name: /wbs/i });
@@ -528,7 +530,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     it('calls onViewWBS when WBS button is clicked', async () => {
       const onViewWBS = vi.fn();
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} onViewWBS={onViewWBS} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} onViewWBS={onViewWBS} />);
 
       await waitFor(() => {
         expect(screen.getAllByRole('button', { name: /wbs/i })[0]).toBeInTheDocument();
@@ -541,7 +543,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     it('calls onViewGantt when Gantt button is clicked', async () => {
       const onViewGantt = vi.fn();
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} onViewGantt={onViewGantt} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} onViewGantt={onViewGantt} />);
 
       await waitFor(() => {
         expect(screen.getAllByRole('button', { name: /gantt/i })[0]).toBeInTheDocument();
@@ -556,7 +558,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     it('displays error message when API fails', async () => {
       mockFetch.mockRejectedValue(new Error('Network error'));
 
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/failed to load projects/i)).toBeInTheDocument();
@@ -566,7 +568,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
     it('provides retry button on error', async () => {
       mockFetch.mockRejectedValue(new Error('Network error'));
 
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
@@ -584,7 +586,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
       });
 
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
@@ -620,7 +622,7 @@ describe('ProjectsDataTable - Unit Tests', () => {
         return Promise.reject(new Error('Unknown endpoint'));
       });
 
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
       await waitFor(() => {
         expect(screen.getByText(/no projects found/i)).toBeInTheDocument();
@@ -649,10 +651,11 @@ describe('ProjectsDataTable - Unit Tests', () => {
       });
 
       const user = userEvent.setup();
-      render(<ProjectsDataTable {...defaultProps} />);
+      renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
+      // Status options load separately from the table rows
       await waitFor(() => {
-        expect(screen.getByRole('combobox', { name: /status/i })).toBeInTheDocument();
+        expect(screen.getByRole('option', { name: /^Inactive/ })).toBeInTheDocument();
       });
 
       // Apply a filter using selectOptions for native select
@@ -678,7 +681,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('has no accessibility violations', async () => {
-    const { container } = render(<ProjectsDataTable {...defaultProps} />);
+    const { container } = renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByRole('table')).toBeInTheDocument();
@@ -689,7 +692,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('has proper heading hierarchy', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const h1 = screen.getByRole('heading', { level: 1 });
@@ -698,7 +701,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('table has proper ARIA attributes', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const table = screen.getByRole('table');
@@ -707,7 +710,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('sort buttons are keyboard accessible', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const sortableHeaders = screen.getAllByRole('columnheader');
@@ -721,7 +724,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('pagination controls are keyboard accessible', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const prevButton = screen.getByRole('button', { name: /previous/i });
@@ -732,7 +735,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('filter dropdowns have accessible labels', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const statusSelect = screen.getByRole('combobox', { name: /status/i });
@@ -741,7 +744,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
   });
 
   it('search input has accessible label', async () => {
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       const searchInput = screen.getByRole('searchbox');
@@ -751,7 +754,7 @@ describe('ProjectsDataTable - Accessibility Tests', () => {
 
   it('announces loading state to screen readers', () => {
     mockFetch.mockImplementation(() => new Promise(() => {}));
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     expect(screen.getByRole('status')).toBeInTheDocument();
   });
@@ -768,7 +771,7 @@ describe('ProjectsDataTable - Integration Tests', () => {
 
   it('fetches projects on mount', async () => {
     mockSuccessfulAPIs();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -780,7 +783,7 @@ describe('ProjectsDataTable - Integration Tests', () => {
 
   it('fetches statuses for filter on mount', async () => {
     mockSuccessfulAPIs();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -792,7 +795,7 @@ describe('ProjectsDataTable - Integration Tests', () => {
 
   it('passes tenant ID in API requests', async () => {
     mockSuccessfulAPIs();
-    render(<ProjectsDataTable {...defaultProps} tenantId="custom-tenant" />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} tenantId="custom-tenant" />);
 
     await waitFor(() => {
       expect(mockFetch).toHaveBeenCalledWith(
@@ -805,10 +808,11 @@ describe('ProjectsDataTable - Integration Tests', () => {
   it('refetches when filters change', async () => {
     mockSuccessfulAPIs();
     const user = userEvent.setup();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
+    // Status options load separately from the table rows
     await waitFor(() => {
-      expect(screen.getByRole('combobox', { name: /status/i })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: /^Active/ })).toBeInTheDocument();
     });
 
     const initialCallCount = mockFetch.mock.calls.length;
@@ -825,7 +829,7 @@ describe('ProjectsDataTable - Integration Tests', () => {
   it('refetches when sorting changes', async () => {
     mockSuccessfulAPIs();
     const user = userEvent.setup();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByRole('table')).toBeInTheDocument();
@@ -856,7 +860,7 @@ describe('ProjectsDataTable - Performance Tests', () => {
 
   it('renders under 100ms', () => {
     const start = performance.now();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
     const end = performance.now();
 
     expect(end - start).toBeLessThan(100);
@@ -886,7 +890,7 @@ describe('ProjectsDataTable - Performance Tests', () => {
     });
 
     const start = performance.now();
-    render(<ProjectsDataTable {...defaultProps} />);
+    renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByRole('table')).toBeInTheDocument();
@@ -908,13 +912,13 @@ describe('ProjectsDataTable - Snapshot Tests', () => {
 
   it('matches loading state snapshot', () => {
     mockFetch.mockImplementation(() => new Promise(() => {}));
-    const { container } = render(<ProjectsDataTable {...defaultProps} />);
+    const { container } = renderWithProviders(<ProjectsDataTable {...defaultProps} />);
     expect(container).toMatchSnapshot();
   });
 
   it('matches loaded state snapshot', async () => {
     mockSuccessfulAPIs();
-    const { container } = render(<ProjectsDataTable {...defaultProps} />);
+    const { container } = renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByRole('table')).toBeInTheDocument();
@@ -925,7 +929,7 @@ describe('ProjectsDataTable - Snapshot Tests', () => {
 
   it('matches error state snapshot', async () => {
     mockFetch.mockRejectedValue(new Error('Network error'));
-    const { container } = render(<ProjectsDataTable {...defaultProps} />);
+    const { container } = renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText(/failed/i)).toBeInTheDocument();
@@ -955,7 +959,7 @@ describe('ProjectsDataTable - Snapshot Tests', () => {
       return Promise.reject(new Error('Unknown endpoint'));
     });
 
-    const { container } = render(<ProjectsDataTable {...defaultProps} />);
+    const { container } = renderWithProviders(<ProjectsDataTable {...defaultProps} />);
 
     await waitFor(() => {
       expect(screen.getByText(/no projects found/i)).toBeInTheDocument();
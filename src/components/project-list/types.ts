@@ -144,22 +144,17 @@ export interface SortingState {
 // ============================================================================
 
 /**
- * Complete table state
+ * Table view state. Rows, totals and loading state come from the
+ * useP6Projects query keyed on this state.
  * @component ProjectsDataTable
  */
 export interface ProjectsTableState {
-  /** Project data */
-  data: P6Project[];
-  /** Pagination state */
-  pagination: PaginationState;
+  /** Requested page and page size */
+  pagination: Pick<PaginationState, 'page' | 'pageSize'>;
   /** Filter state */
   filters: FilterState;
   /** Sorting state */
   sorting: SortingState;
-  /** Loading state */
-  isLoading: boolean;
-  /** Error message */
-  error: string | null;
 }
 
 // ============================================================================
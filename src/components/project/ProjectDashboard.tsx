@@ -9,11 +9,17 @@
 
 'use client';
 
-import { useState, useEffect, useCallback, memo, useId } from 'react';
+import { useState, useEffect, memo, useId } from 'react';
 import { GlassCard, Badge } from '@/components/ui';
+import {
+  useProjectHeader,
+  useProjectPerformance,
+  useProjectDomainProgress,
+  useProjectBudget,
+  useProjectScheduleIntelligence,
+} from '@/lib/hooks';
 import type {
   ProjectDashboardProps,
-  ProjectDashboardState,
   ProjectHeader,
   PerformanceMetrics,
   DomainProgress,
@@ -40,7 +46,13 @@ function getStatusColor(status: 'on_track' | 'at_risk' | 'critical'): string {
   return 'text-red-400';
 }
 
-function getMetricColor(value: number, threshold: number = 1.0): string {
+/** Indices are null when undefined (DATA-001) - render a dash, never a zero */
+function formatIndex(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2);
+}
+
+function getMetricColor(value: number | null, threshold: number = 1.0): string {
+  if (value === null) return 'text-[var(--orion-text-muted)]';
   if (value >= threshold) return 'text-[var(--orion-emerald)]';
   if (value >= threshold * 0.9) return 'text-[var(--orion-amber)]';
   return 'text-red-400';
@@ -96,9 +108,11 @@ const ProjectHeaderSection = memo(function ProjectHeaderSection({
         <div>
           <div className="flex items-center gap-3 mb-2">
             <span className="text-xs font-mono text-[var(--orion-text-muted)]">{data.projectCode}</span>
-            <span className={`px-2 py-0.5 text-xs font-bold font-mono rounded border ${statusStyles[data.status]}`}>
-              {data.status.replace('_', ' ').toUpperCase()}
-            </span>
+            {data.status && (
+              <span className={`px-2 py-0.5 text-xs font-bold font-mono rounded border ${statusStyles[data.status]}`}>
+                {data.status.replace('_', ' ').toUpperCase()}
+              </span>
+            )}
           </div>
           <h1 className="text-2xl md:text-3xl font-bold text-[var(--orion-text-primary)] font-display">
             {data.projectName}
@@ -141,11 +155,11 @@ const PerformanceGaugeCard = memo(function PerformanceGaugeCard({
   color,
 }: {
   label: string;
-  value: number;
+  value: number | null;
   color: string;
 }) {
   // Calculate gauge fill percentage (0-100 maps to 0.5-1.5 range)
-  const normalizedValue = Math.max(0.5, Math.min(1.5, value));
+  const normalizedValue = value === null ? 0.5 : Math.max(0.5, Math.min(1.5, value));
   const fillPercent = ((normalizedValue - 0.5) / 1.0) * 100;
 
   return (
@@ -167,7 +181,7 @@ const PerformanceGaugeCard = memo(function PerformanceGaugeCard({
         />
       </div>
       <p className={`text-3xl font-bold font-mono text-center ${getMetricColor(value)}`}>
-        {value.toFixed(2)}
+        {formatIndex(value)}
       </p>
     </GlassCard>
   );
@@ -193,17 +207,21 @@ const PerformanceGauges = memo(function PerformanceGauges({
 
   if (!data) return null;
 
+  const indexColor = (value: number | null) =>
+    value === null ? 'transparent' : value >= 1 ? 'var(--orion-emerald)' : value >= 0.9 ? 'var(--orion-amber)' : '#ef4444';
+  const healthScore = data.healthScore ?? 0;
+
   return (
     <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
       <PerformanceGaugeCard
         label="SPI (Schedule)"
         value={data.spi}
-        color={data.spi >= 1 ? 'var(--orion-emerald)' : data.spi >= 0.9 ? 'var(--orion-amber)' : '#ef4444'}
+        color={indexColor(data.spi)}
       />
       <PerformanceGaugeCard
         label="CPI (Cost)"
         value={data.cpi}
-        color={data.cpi >= 1 ? 'var(--orion-emerald)' : data.cpi >= 0.9 ? 'var(--orion-amber)' : '#ef4444'}
+        color={indexColor(data.cpi)}
       />
       <GlassCard variant="elevated" className="p-4">
         <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-3 text-center">Health Score</p>
@@ -215,14 +233,14 @@ const PerformanceGauges = memo(function PerformanceGauges({
                 cy="18"
                 r="16"
                 fill="none"
-                stroke={data.healthScore >= 80 ? 'var(--orion-emerald)' : data.healthScore >= 60 ? 'var(--orion-amber)' : '#ef4444'}
+                stroke={healthScore >= 80 ? 'var(--orion-emerald)' : healthScore >= 60 ? 'var(--orion-amber)' : '#ef4444'}
                 strokeWidth="3"
-                strokeDasharray={`${data.healthScore} 100`}
+                strokeDasharray={`${healthScore} 100`}
                 strokeLinecap="round"
               />
             </svg>
             <span className="absolute inset-0 flex items-center justify-center text-xl font-bold font-mono text-[var(--orion-text-primary)]">
-              {data.healthScore}
+              {data.healthScore ?? '—'}
             </span>
           </div>
         </div>
@@ -230,7 +248,7 @@ const PerformanceGauges = memo(function PerformanceGauges({
       <GlassCard variant="elevated" className="p-4">
         <p className="text-xs text-[var(--orion-text-muted)] font-mono mb-3 text-center">TCPI</p>
         <p className={`text-3xl font-bold font-mono text-center ${getMetricColor(data.tcpi)}`}>
-          {data.tcpi.toFixed(2)}
+          {formatIndex(data.tcpi)}
         </p>
         <p className="text-xs text-[var(--orion-text-muted)] text-center mt-2">To-Complete PI</p>
       </GlassCard>
@@ -273,13 +291,13 @@ const DomainProgressChart = memo(function DomainProgressChart({
               <span className="text-sm font-medium text-[var(--orion-text-primary)]">{domain.label}</span>
               <div className="flex items-center gap-4">
                 <span className={`text-xs font-mono ${getMetricColor(domain.spi)}`}>
-                  SPI: {domain.spi.toFixed(2)}
+                  SPI: {formatIndex(domain.spi)}
                 </span>
                 <span className={`text-xs font-mono ${getMetricColor(domain.cpi)}`}>
-                  CPI: {domain.cpi.toFixed(2)}
+                  CPI: {formatIndex(domain.cpi)}
                 </span>
                 <span className="text-sm font-bold font-mono text-[var(--orion-text-primary)]">
-                  {domain.percentComplete}%
+                  {domain.percentComplete === null ? '—' : `${domain.percentComplete}%`}
                 </span>
               </div>
             </div>
@@ -287,7 +305,7 @@ const DomainProgressChart = memo(function DomainProgressChart({
               <div
                 className="absolute top-0 left-0 h-full rounded-full transition-all duration-500"
                 style={{
-                  width: `${domain.percentComplete}%`,
+                  width: `${domain.percentComplete ?? 0}%`,
                   backgroundColor: getDomainColor(domain.domain),
                 }}
               />
@@ -318,7 +336,7 @@ const BudgetChart = memo(function BudgetChart({
     { label: 'EAC', value: data.eac, color: 'var(--orion-violet)' },
     { label: 'Actual Cost', value: data.ac, color: 'var(--orion-amber)' },
     { label: 'Earned Value', value: data.ev, color: 'var(--orion-emerald)' },
-  ];
+  ].filter((metric): metric is { label: string; value: number; color: string } => metric.value !== null);
 
   const maxValue = Math.max(...metrics.map((m) => m.value));
 
@@ -361,14 +379,18 @@ const BudgetChart = memo(function BudgetChart({
       <div className="mt-6 pt-4 border-t border-[var(--orion-border)] grid grid-cols-2 gap-4">
         <div className="text-center p-2 rounded bg-[var(--orion-bg-secondary)]">
           <p className="text-xs text-[var(--orion-text-muted)] font-mono">VAC</p>
-          <p className={`text-lg font-bold font-mono ${data.vac >= 0 ? 'text-[var(--orion-emerald)]' : 'text-red-400'}`}>
-            {formatCurrency(data.vac)}
+          <p
+            className={`text-lg font-bold font-mono ${
+              data.vac === null ? 'text-[var(--orion-text-muted)]' : data.vac >= 0 ? 'text-[var(--orion-emerald)]' : 'text-red-400'
+            }`}
+          >
+            {data.vac === null ? '—' : formatCurrency(data.vac)}
           </p>
         </div>
         <div className="text-center p-2 rounded bg-[var(--orion-bg-secondary)]">
           <p className="text-xs text-[var(--orion-text-muted)] font-mono">ETC</p>
           <p className="text-lg font-bold font-mono text-[var(--orion-text-primary)]">
-            {formatCurrency(data.etc)}
+            {data.etc === null ? '—' : formatCurrency(data.etc)}
           </p>
         </div>
       </div>
@@ -428,7 +450,7 @@ const ScheduleIntelligenceCard = memo(function ScheduleIntelligenceCard({
           Remaining: <span className="font-mono text-[var(--orion-amber)]">{data.remainingDuration} days</span>
         </span>
         <span className="text-[var(--orion-text-secondary)]">
-          Float: <span className="font-mono text-[var(--orion-text-primary)]">{data.totalFloat} days</span>
+          Float: <span className="font-mono text-[var(--orion-text-primary)]">{data.totalFloat === null ? '—' : `${data.totalFloat} days`}</span>
         </span>
       </div>
     </GlassCard>
@@ -500,184 +522,16 @@ export const ProjectDashboard = memo(function ProjectDashboard({
 }: ProjectDashboardProps) {
   const headingId = useId();
   const [mounted, setMounted] = useState(false);
-  const [state, setState] = useState<ProjectDashboardState>({
-    header: null,
-    performance: null,
-    domains: [],
-    budget: null,
-    schedule: null,
-    scurve: [],
-    isLoading: {
-      header: true,
-      performance: true,
-      domains: true,
-      budget: true,
-      schedule: true,
-      scurve: true,
-    },
-    errors: {
-      header: null,
-      performance: null,
-      domains: null,
-      budget: null,
-      schedule: null,
-      scurve: null,
-    },
-  });
+  const headerQuery = useProjectHeader(projectId, tenantId);
+  const performanceQuery = useProjectPerformance(projectId, tenantId);
+  const domainsQuery = useProjectDomainProgress(projectId, tenantId);
+  const budgetQuery = useProjectBudget(projectId, tenantId);
+  const scheduleQuery = useProjectScheduleIntelligence(projectId, tenantId);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Fetch project header
-  const fetchHeader = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, header: true },
-      errors: { ...prev.errors, header: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/project/${projectId}?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        header: data,
-        isLoading: { ...prev.isLoading, header: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, header: false },
-        errors: { ...prev.errors, header: 'Failed to load project header' },
-      }));
-    }
-  }, [projectId, tenantId]);
-
-  // Fetch performance metrics
-  const fetchPerformance = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, performance: true },
-      errors: { ...prev.errors, performance: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/project/${projectId}/performance?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        performance: data,
-        isLoading: { ...prev.isLoading, performance: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, performance: false },
-        errors: { ...prev.errors, performance: 'Failed to load performance' },
-      }));
-    }
-  }, [projectId, tenantId]);
-
-  // Fetch domain progress
-  const fetchDomains = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, domains: true },
-      errors: { ...prev.errors, domains: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/project/${projectId}/domains?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        domains: data.domains || [],
-        isLoading: { ...prev.isLoading, domains: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, domains: false },
-        errors: { ...prev.errors, domains: 'Failed to load domains' },
-      }));
-    }
-  }, [projectId, tenantId]);
-
-  // Fetch budget analytics
-  const fetchBudget = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, budget: true },
-      errors: { ...prev.errors, budget: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/project/${projectId}/budget?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        budget: data,
-        isLoading: { ...prev.isLoading, budget: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, budget: false },
-        errors: { ...prev.errors, budget: 'Failed to load budget' },
-      }));
-    }
-  }, [projectId, tenantId]);
-
-  // Fetch schedule intelligence
-  const fetchSchedule = useCallback(async () => {
-    setState((prev) => ({
-      ...prev,
-      isLoading: { ...prev.isLoading, schedule: true },
-      errors: { ...prev.errors, schedule: null },
-    }));
-
-    try {
-      const response = await fetch(`/api/v1/project/${projectId}/schedule?tenant=${tenantId}`, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const data = await response.json();
-      setState((prev) => ({
-        ...prev,
-        schedule: data,
-        isLoading: { ...prev.isLoading, schedule: false },
-      }));
-    } catch {
-      setState((prev) => ({
-        ...prev,
-        isLoading: { ...prev.isLoading, schedule: false },
-        errors: { ...prev.errors, schedule: 'Failed to load schedule' },
-      }));
-    }
-  }, [projectId, tenantId]);
-
-  // Fetch all data on mount
-  useEffect(() => {
-    fetchHeader();
-    fetchPerformance();
-    fetchDomains();
-    fetchBudget();
-    fetchSchedule();
-  }, [fetchHeader, fetchPerformance, fetchDomains, fetchBudget, fetchSchedule]);
-
   return (
     <main
       role="main"
@@ -692,24 +546,24 @@ export const ProjectDashboard = memo(function ProjectDashboard({
             <Badge variant="emerald">SAP FINANCE</Badge>
             <Badge variant="cyan">LIVE DATA</Badge>
           </div>
-          <ProjectHeaderSection data={state.header} isLoading={state.isLoading.header} />
+          <ProjectHeaderSection data={headerQuery.data ?? null} isLoading={headerQuery.isPending} />
         </header>
 
         {/* Performance Gauges */}
         <section className={`mb-6 ${mounted ? 'animate-slide-up delay-100' : 'opacity-0'}`}>
           <h2 id={headingId} className="sr-only">Performance Metrics</h2>
-          <PerformanceGauges data={state.performance} isLoading={state.isLoading.performance} />
+          <PerformanceGauges data={performanceQuery.data ?? null} isLoading={performanceQuery.isPending} />
         </section>
 
         {/* Domain Progress + Budget */}
         <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6 ${mounted ? 'animate-slide-up delay-200' : 'opacity-0'}`}>
-          <DomainProgressChart data={state.domains} isLoading={state.isLoading.domains} />
-          <BudgetChart data={state.budget} isLoading={state.isLoading.budget} />
+          <DomainProgressChart data={domainsQuery.data?.domains ?? []} isLoading={domainsQuery.isPending} />
+          <BudgetChart data={budgetQuery.data ?? null} isLoading={budgetQuery.isPending} />
         </div>
 
         {/* Schedule Intelligence */}
         <section className={`${mounted ? 'animate-slide-up delay-300' : 'opacity-0'}`}>
-          <ScheduleIntelligenceCard data={state.schedule} isLoading={state.isLoading.schedule} />
+          <ScheduleIntelligenceCard data={scheduleQuery.data ?? null} isLoading={scheduleQuery.isPending} />
         </section>
       </div>
     </main>
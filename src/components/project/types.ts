@@ -28,8 +28,8 @@ export interface ProjectHeader {
   projectCode: string;
   /** Percent complete */
   percentComplete: number;
-  /** Overall health status */
-  status: ProjectStatus;
+  /** Overall health status from the latest EVM; null until it has SPI and CPI */
+  status: ProjectStatus | null;
   /** Data date (last sync) */
   dataDate: string;
   /** Planned start date */
@@ -53,18 +53,18 @@ export interface ProjectHeader {
  * @api GET /api/v1/project/{projectId}/performance
  */
 export interface PerformanceMetrics {
-  /** Schedule Performance Index */
-  spi: number;
-  /** Cost Performance Index */
-  cpi: number;
-  /** Overall health score (0-100) */
-  healthScore: number;
+  /** Schedule Performance Index; null when PV is zero */
+  spi: number | null;
+  /** Cost Performance Index; null when AC is zero */
+  cpi: number | null;
+  /** Overall health score (0-100); null when SPI or CPI is null */
+  healthScore: number | null;
   /** Schedule variance (SV = EV - PV) */
   sv: number;
   /** Cost variance (CV = EV - AC) */
   cv: number;
-  /** To-Complete Performance Index */
-  tcpi: number;
+  /** To-Complete Performance Index; null when the budget is spent (BAC = AC) */
+  tcpi: number | null;
 }
 
 // ============================================================================
@@ -84,18 +84,18 @@ export interface DomainProgress {
   domain: DomainType;
   /** Domain display label */
   label: string;
-  /** Planned value (PV) */
-  plannedValue: number;
-  /** Earned value (EV) */
-  earnedValue: number;
-  /** Actual cost (AC) */
-  actualCost: number;
-  /** Percent complete */
-  percentComplete: number;
-  /** Domain-level SPI */
-  spi: number;
-  /** Domain-level CPI */
-  cpi: number;
+  /** Planned value (PV); null when the metrics carry none */
+  plannedValue: number | null;
+  /** Earned value (EV); null without progress or budget */
+  earnedValue: number | null;
+  /** Actual cost (AC); null when the metrics carry none */
+  actualCost: number | null;
+  /** Percent complete; null when the metrics carry none */
+  percentComplete: number | null;
+  /** Domain-level SPI; null without EV or PV */
+  spi: number | null;
+  /** Domain-level CPI; null without EV or AC, or when AC is zero */
+  cpi: number | null;
 }
 
 // ============================================================================
@@ -117,14 +117,14 @@ export interface BudgetAnalytics {
   ac: number;
   /** Planned Value (BCWS) */
   pv: number;
-  /** Estimate at Completion */
-  eac: number;
-  /** Estimate to Complete */
-  etc: number;
-  /** Variance at Completion */
-  vac: number;
-  /** Currency */
-  currency: 'USD' | 'NGN';
+  /** Estimate at Completion (BAC / CPI); null when CPI is null */
+  eac: number | null;
+  /** Estimate to Complete; null when EAC is null */
+  etc: number | null;
+  /** Variance at Completion; null when EAC is null */
+  vac: number | null;
+  /** Company code currency of the SAP actuals (ISO 4217); null without SAP actuals */
+  currency: string | null;
 }
 
 // ============================================================================
@@ -146,7 +146,7 @@ export interface ScheduleIntelligence {
   inProgressActivities: number;
   /** Not started activities */
   notStartedActivities: number;
-  /** Critical path activities */
+  /** Critical path activities: open work with zero or negative float */
   criticalPathActivities: number;
   /** WBS elements count */
   wbsElements: number;
@@ -154,8 +154,8 @@ export interface ScheduleIntelligence {
   originalDuration: number;
   /** Remaining duration (days) */
   remainingDuration: number;
-  /** Float days (total float) */
-  totalFloat: number;
+  /** Float days (lowest total float of unfinished activities); null when all are complete */
+  totalFloat: number | null;
 }
 
 // ============================================================================
@@ -8,12 +8,15 @@
  * - P6ConnectionSettings: P6 connection configuration
  * - SAPConnectionSettings: SAP connection configuration
  * - SyncSettings: Sync schedule and entity configuration
+ * - ScheduleImportSettings: XER, P6 XML and MSP XML import when P6 Web Services are unreachable
  * - UserPreferencesSettings: User preferences
  */
 
 'use client';
 
-import React, { useState, useEffect, useCallback, memo } from 'react';
+import React, { useState, memo } from 'react';
+import { useSettings, useSaveSettings, useTestConnection, useTriggerSync, useImportSchedule } from '@/lib/hooks';
+import { getApiErrorMessage } from '@/lib/errors';
 import type {
   P6ConnectionConfig,
   SAPConnectionConfig,
@@ -27,6 +30,8 @@ import type {
   SyncSettingsProps,
   UserPreferencesProps,
   TenantSettingsProps,
+  ScheduleImportSettingsProps,
+  ScheduleImportResponse,
   SettingsResponse,
 } from './types';
 
@@ -677,6 +682,99 @@ export const UserPreferencesSettings = memo(function UserPreferencesSettings({
   );
 });
 
+// ============================================================================
+// SCHEDULE FILE IMPORT
+// ============================================================================
+
+const SCHEDULE_FORMAT_NAMES: Record<ScheduleImportResponse['format'], string> = {
+  xer: 'Primavera XER',
+  pmxml: 'P6 XML',
+  mspxml: 'Microsoft Project XML',
+};
+
+export const ScheduleImportSettings = memo(function ScheduleImportSettings({
+  onImport,
+  isImporting,
+  result,
+  error,
+}: ScheduleImportSettingsProps) {
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleImport = async () => {
+    if (file) await onImport(file);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white">Schedule File Import</h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Load projects from a Primavera XER, P6 XML or Microsoft Project XML export when P6 Web Services cannot be
+          reached. Each project in the file replaces the project with the same P6 object ID.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="schedule-file" className="block text-sm font-medium text-gray-700 dark:text-gray-200">
+          Schedule file
+        </label>
+        <input
+          id="schedule-file"
+          type="file"
+          accept=".xer,.xml"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="mt-1 block w-full text-sm text-gray-700 dark:text-gray-200"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={!file || isImporting}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+
+      {result && (
+        <div
+          role="status"
+          className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg"
+        >
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">
+            Imported {result.projects.length} {result.projects.length === 1 ? 'project' : 'projects'}
+            {' '}from {SCHEDULE_FORMAT_NAMES[result.format]}
+            {result.version ? ` ${result.version}` : ''}
+          </p>
+          <ul className="mt-2 space-y-1 text-sm text-green-800 dark:text-green-200">
+            {result.projects.map((project) => (
+              <li key={project.projectObjectId}>
+                {project.projectCode} - {project.projectName}: {project.wbsCount} WBS elements, {project.activityCount}{' '}
+                activities, {project.relationshipCount} relationships
+              </li>
+            ))}
+          </ul>
+          {result.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm text-amber-700 dark:text-amber-300">
+              {result.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
 // ============================================================================
 // TENANT SETTINGS
 // ============================================================================
@@ -751,37 +849,16 @@ export const SettingsPage = memo(function SettingsPage({
   onSettingsSaved,
 }: SettingsPageProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [settings, setSettings] = useState<SettingsResponse | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<ScheduleImportResponse | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
-  // Fetch settings
-  useEffect(() => {
-    const fetchSettings = async () => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(`/api/v1/settings?tenantId=${tenantId}&userId=${userId}`, {
-          headers: { 'Content-Type': 'application/json' },
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to load settings');
-        }
-
-        const data: SettingsResponse = await response.json();
-        setSettings(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load settings');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchSettings();
-  }, [tenantId, userId]);
+  const settingsQuery = useSettings(tenantId, userId);
+  const saveSettings = useSaveSettings();
+  const testConnection = useTestConnection();
+  const triggerSync = useTriggerSync();
+  const importSchedule = useImportSchedule();
+  const settings: SettingsResponse | null = settingsQuery.data ?? null;
 
   // Tab keyboard navigation
   const handleTabKeyDown = (e: React.KeyboardEvent, index: number) => {
@@ -798,91 +875,53 @@ export const SettingsPage = memo(function SettingsPage({
   };
 
   // Save handlers
-  const handleSaveP6 = async (config: Partial<P6ConnectionConfig>) => {
+  const handleSave = async (update: Parameters<typeof saveSettings.mutateAsync>[0]) => {
     setSaveError(null);
     try {
-      const response = await fetch(`/api/v1/settings/connections/p6`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-      });
-      if (!response.ok) throw new Error('Failed to save');
+      await saveSettings.mutateAsync(update);
       onSettingsSaved?.();
     } catch (err) {
-      setSaveError(err instanceof Error ? err.message : 'Failed to save');
+      setSaveError(getApiErrorMessage(err, 'Failed to save'));
     }
   };
 
+  const handleSaveP6 = (config: Partial<P6ConnectionConfig>) => handleSave({ section: 'p6', config });
+
   const handleTestP6 = async () => {
-    const response = await fetch(`/api/v1/settings/connections/p6/test`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
-    if (!response.ok) throw new Error('Connection test failed');
+    await testConnection.mutateAsync('p6');
   };
 
-  const handleSaveSAP = async (config: Partial<SAPConnectionConfig>) => {
-    setSaveError(null);
-    try {
-      const response = await fetch(`/api/v1/settings/connections/sap`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-      });
-      if (!response.ok) throw new Error('Failed to save');
-      onSettingsSaved?.();
-    } catch (err) {
-      setSaveError(err instanceof Error ? err.message : 'Failed to save');
-    }
-  };
+  const handleSaveSAP = (config: Partial<SAPConnectionConfig>) => handleSave({ section: 'sap', config });
 
   const handleTestSAP = async () => {
-    const response = await fetch(`/api/v1/settings/connections/sap/test`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
-    if (!response.ok) throw new Error('Connection test failed');
+    await testConnection.mutateAsync('sap');
   };
 
-  const handleSaveSync = async (config: Partial<SyncConfig>) => {
-    setSaveError(null);
+  const handleSaveSync = (config: Partial<SyncConfig>) => handleSave({ section: 'sync', config });
+
+  const handleTriggerSync = async () => {
     try {
-      const response = await fetch(`/api/v1/settings/sync`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(config),
-      });
-      if (!response.ok) throw new Error('Failed to save');
-      onSettingsSaved?.();
+      await triggerSync.mutateAsync({ request: { syncType: 'full' } });
     } catch (err) {
-      setSaveError(err instanceof Error ? err.message : 'Failed to save');
+      setSaveError(getApiErrorMessage(err, 'Failed to start sync'));
     }
   };
 
-  const handleTriggerSync = async () => {
-    await fetch(`/api/v1/sync/trigger`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
-  };
+  const handleSavePreferences = (prefs: Partial<UserPreferences>) =>
+    handleSave({ section: 'preferences', config: prefs });
 
-  const handleSavePreferences = async (prefs: Partial<UserPreferences>) => {
-    setSaveError(null);
+  const handleImportSchedule = async (file: File) => {
+    setImportError(null);
+    setImportResult(null);
     try {
-      const response = await fetch(`/api/v1/settings/preferences`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(prefs),
-      });
-      if (!response.ok) throw new Error('Failed to save');
-      onSettingsSaved?.();
+      setImportResult(await importSchedule.mutateAsync({ file, tenant: tenantId }));
     } catch (err) {
-      setSaveError(err instanceof Error ? err.message : 'Failed to save');
+      setImportError(getApiErrorMessage(err, 'Failed to import schedule file'));
     }
   };
 
   // Loading state
-  if (isLoading) {
+  if (settingsQuery.isPending) {
     return (
       <div role="status" className="flex items-center justify-center p-8">
         <svg className="animate-spin h-8 w-8 text-blue-600" fill="none" viewBox="0 0 24 24">
@@ -895,13 +934,15 @@ export const SettingsPage = memo(function SettingsPage({
   }
 
   // Error state
-  if (error) {
+  if (settingsQuery.isError) {
     return (
       <div role="alert" className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-        <p className="text-red-800 dark:text-red-200">Failed to load settings: {error}</p>
+        <p className="text-red-800 dark:text-red-200">
+          Failed to load settings: {getApiErrorMessage(settingsQuery.error)}
+        </p>
         <button
           type="button"
-          onClick={() => window.location.reload()}
+          onClick={() => settingsQuery.refetch()}
           className="mt-2 px-4 py-2 text-sm font-medium text-red-800 dark:text-red-200 hover:underline"
         >
           Retry
@@ -977,6 +1018,13 @@ export const SettingsPage = memo(function SettingsPage({
                 error={saveError}
               />
             )}
+            <hr className="border-gray-200 dark:border-gray-700" />
+            <ScheduleImportSettings
+              onImport={handleImportSchedule}
+              isImporting={importSchedule.isPending}
+              result={importResult}
+              error={importError}
+            />
           </div>
         )}
 
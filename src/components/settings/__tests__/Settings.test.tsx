@@ -9,17 +9,26 @@
  * - Accessibility tests: Keyboard navigation, screen reader
  */
 
-import { render, screen, within, waitFor, fireEvent } from '@testing-library/react';
+import { screen, within, waitFor, fireEvent } from '@testing-library/react';
+import { renderWithProviders } from '@/components/__tests__/renderWithProviders';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SettingsPage, P6ConnectionSettings, SAPConnectionSettings, SyncSettings, UserPreferencesSettings } from '../Settings';
+import {
+  SettingsPage,
+  P6ConnectionSettings,
+  SAPConnectionSettings,
+  ScheduleImportSettings,
+  SyncSettings,
+  UserPreferencesSettings,
+} from '../Settings';
 import type {
   P6ConnectionConfig,
   SAPConnectionConfig,
   SyncConfig,
   UserPreferences,
   TenantConfig,
+  ScheduleImportResponse,
   SettingsResponse,
 } from '../types';
 
@@ -162,7 +171,7 @@ beforeEach(() => {
 describe('SettingsPage', () => {
   describe('Unit Tests: Tab Navigation', () => {
     it('renders settings page with tabs', async () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tablist')).toBeInTheDocument();
@@ -175,7 +184,7 @@ describe('SettingsPage', () => {
     });
 
     it('shows connections tab by default', async () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tab', { name: /connections/i })).toHaveAttribute('aria-selected', 'true');
@@ -184,7 +193,7 @@ describe('SettingsPage', () => {
 
     it('switches tabs on click', async () => {
       const user = userEvent.setup();
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tablist')).toBeInTheDocument();
@@ -198,7 +207,7 @@ describe('SettingsPage', () => {
 
     it('supports keyboard navigation between tabs', async () => {
       const user = userEvent.setup();
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tablist')).toBeInTheDocument();
@@ -215,7 +224,7 @@ describe('SettingsPage', () => {
     });
 
     it('respects initial tab prop', async () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" initialTab="preferences" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" initialTab="preferences" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tab', { name: /preferences/i })).toHaveAttribute('aria-selected', 'true');
@@ -225,14 +234,14 @@ describe('SettingsPage', () => {
 
   describe('Unit Tests: Loading State', () => {
     it('shows loading spinner while fetching', () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       expect(screen.getByRole('status')).toBeInTheDocument();
       expect(screen.getByText(/loading/i)).toBeInTheDocument();
     });
 
     it('hides loading spinner after data loads', async () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.queryByRole('status')).not.toBeInTheDocument();
@@ -244,7 +253,7 @@ describe('SettingsPage', () => {
     it('shows error message when API fails', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('alert')).toBeInTheDocument();
@@ -256,7 +265,7 @@ describe('SettingsPage', () => {
     it('shows retry button on error', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
@@ -266,7 +275,7 @@ describe('SettingsPage', () => {
 
   describe('Accessibility Tests', () => {
     it('has no accessibility violations', async () => {
-      const { container } = render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      const { container } = renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tablist')).toBeInTheDocument();
@@ -277,7 +286,7 @@ describe('SettingsPage', () => {
     });
 
     it('uses proper ARIA roles for tabs', async () => {
-      render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+      renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
       await waitFor(() => {
         expect(screen.getByRole('tablist')).toBeInTheDocument();
@@ -306,7 +315,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('renders P6 connection form', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -323,7 +332,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('displays current values', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -338,7 +347,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('shows connection status indicator', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -354,7 +363,7 @@ describe('P6ConnectionSettings', () => {
   it('calls onTestConnection when test button clicked', async () => {
     const user = userEvent.setup();
 
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -372,7 +381,7 @@ describe('P6ConnectionSettings', () => {
   it('calls onSave when save button clicked', async () => {
     const user = userEvent.setup();
 
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -396,7 +405,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('disables buttons when loading', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={true}
@@ -411,7 +420,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('shows error message when error prop is set', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -425,7 +434,7 @@ describe('P6ConnectionSettings', () => {
   });
 
   it('shows enable/disable toggle', () => {
-    render(
+    renderWithProviders(
       <P6ConnectionSettings
         config={mockP6Config}
         isLoading={false}
@@ -453,7 +462,7 @@ describe('SAPConnectionSettings', () => {
   });
 
   it('renders SAP connection form', () => {
-    render(
+    renderWithProviders(
       <SAPConnectionSettings
         config={mockSAPConfig}
         isLoading={false}
@@ -470,7 +479,7 @@ describe('SAPConnectionSettings', () => {
   });
 
   it('displays connection type selector', () => {
-    render(
+    renderWithProviders(
       <SAPConnectionSettings
         config={mockSAPConfig}
         isLoading={false}
@@ -484,7 +493,7 @@ describe('SAPConnectionSettings', () => {
   });
 
   it('shows HANA selected for HANA connection', () => {
-    render(
+    renderWithProviders(
       <SAPConnectionSettings
         config={mockSAPConfig}
         isLoading={false}
@@ -499,6 +508,72 @@ describe('SAPConnectionSettings', () => {
   });
 });
 
+// ============================================================================
+// SCHEDULE IMPORT TESTS
+// ============================================================================
+
+describe('ScheduleImportSettings', () => {
+  const mockOnImport = vi.fn().mockResolvedValue(undefined);
+
+  const importResult: ScheduleImportResponse = {
+    format: 'xer',
+    version: '19.12',
+    projects: [
+      {
+        projectObjectId: 4001,
+        projectCode: 'NWP-01',
+        projectName: 'North Wharf Piling',
+        wbsCount: 3,
+        activityCount: 3,
+        relationshipCount: 2,
+      },
+    ],
+    calendarCount: 2,
+    resourceCount: 2,
+    warnings: ['NWP-01: skipped 1 relationship to activities outside the file'],
+  };
+
+  beforeEach(() => {
+    mockOnImport.mockClear();
+  });
+
+  it('imports the chosen file', async () => {
+    const user = userEvent.setup();
+    renderWithProviders(<ScheduleImportSettings onImport={mockOnImport} isImporting={false} result={null} error={null} />);
+
+    const importButton = screen.getByRole('button', { name: /import/i });
+    expect(importButton).toBeDisabled();
+
+    const file = new File(['ERMHDR\t19.12'], 'north-wharf.xer');
+    await user.upload(screen.getByLabelText(/schedule file/i), file);
+    await user.click(importButton);
+
+    expect(mockOnImport).toHaveBeenCalledWith(file);
+  });
+
+  it('summarizes the imported projects and warnings', () => {
+    renderWithProviders(<ScheduleImportSettings onImport={mockOnImport} isImporting={false} result={importResult} error={null} />);
+
+    const summary = screen.getByRole('status');
+    expect(summary).toHaveTextContent('Imported 1 project from Primavera XER 19.12');
+    expect(summary).toHaveTextContent('NWP-01 - North Wharf Piling: 3 WBS elements, 3 activities, 2 relationships');
+    expect(summary).toHaveTextContent('skipped 1 relationship to activities outside the file');
+  });
+
+  it('shows import errors', () => {
+    renderWithProviders(
+      <ScheduleImportSettings
+        onImport={mockOnImport}
+        isImporting={false}
+        result={null}
+        error="Unrecognized schedule file: expected a Primavera XER export"
+      />
+    );
+
+    expect(screen.getByText(/unrecognized schedule file/i)).toBeInTheDocument();
+  });
+});
+
 // ============================================================================
 // SYNC SETTINGS TESTS
 // ============================================================================
@@ -513,7 +588,7 @@ describe('SyncSettings', () => {
   });
 
   it('renders sync configuration', () => {
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -528,7 +603,7 @@ describe('SyncSettings', () => {
   });
 
   it('displays last sync status', () => {
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -542,7 +617,7 @@ describe('SyncSettings', () => {
   });
 
   it('shows P6 entity toggles', () => {
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -558,7 +633,7 @@ describe('SyncSettings', () => {
   });
 
   it('shows SAP entity toggles', () => {
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -575,7 +650,7 @@ describe('SyncSettings', () => {
   it('calls onTriggerSync when sync now clicked', async () => {
     const user = userEvent.setup();
 
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -591,7 +666,7 @@ describe('SyncSettings', () => {
   });
 
   it('displays sync statistics', () => {
-    render(
+    renderWithProviders(
       <SyncSettings
         config={mockSyncConfig}
         isLoading={false}
@@ -619,7 +694,7 @@ describe('UserPreferencesSettings', () => {
   });
 
   it('renders preference options', () => {
-    render(
+    renderWithProviders(
       <UserPreferencesSettings
         preferences={mockPreferences}
         isLoading={false}
@@ -634,7 +709,7 @@ describe('UserPreferencesSettings', () => {
   });
 
   it('shows current theme selection', () => {
-    render(
+    renderWithProviders(
       <UserPreferencesSettings
         preferences={mockPreferences}
         isLoading={false}
@@ -647,7 +722,7 @@ describe('UserPreferencesSettings', () => {
   });
 
   it('has notification toggles', () => {
-    render(
+    renderWithProviders(
       <UserPreferencesSettings
         preferences={mockPreferences}
         isLoading={false}
@@ -663,7 +738,7 @@ describe('UserPreferencesSettings', () => {
   it('calls onSave when save clicked', async () => {
     const user = userEvent.setup();
 
-    render(
+    renderWithProviders(
       <UserPreferencesSettings
         preferences={mockPreferences}
         isLoading={false}
@@ -687,7 +762,7 @@ describe('UserPreferencesSettings', () => {
 
 describe('Snapshot Tests', () => {
   it('matches SettingsPage snapshot', async () => {
-    const { container } = render(<SettingsPage tenantId="tenant-1" userId="user-1" />);
+    const { container } = renderWithProviders(<SettingsPage tenantId="tenant-1" userId="user-1" />);
 
     await waitFor(() => {
       expect(screen.getByRole('tablist')).toBeInTheDocument();
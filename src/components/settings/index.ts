@@ -9,6 +9,7 @@ export {
   SAPConnectionSettings,
   SyncSettings,
   UserPreferencesSettings,
+  ScheduleImportSettings,
 } from './Settings';
 
 export type {
@@ -35,6 +36,11 @@ export type {
   TenantFeatures,
   TenantSettingsProps,
 
+  // Schedule File Import
+  ImportedProjectSummary,
+  ScheduleImportResponse,
+  ScheduleImportSettingsProps,
+
   // Page Props
   SettingsPageProps,
   SettingsTab,
@@ -330,6 +330,21 @@ export interface TenantSettingsProps {
   error: string | null;
 }
 
+/**
+ * Schedule file import props
+ * @component ScheduleImportSettings
+ */
+export interface ScheduleImportSettingsProps {
+  /** Upload and load the file */
+  onImport: (file: File) => Promise<void>;
+  /** Upload in progress */
+  isImporting: boolean;
+  /** Result of the last import */
+  result: ScheduleImportResponse | null;
+  /** Error message */
+  error: string | null;
+}
+
 // ============================================================================
 // API RESPONSE TYPES
 // ============================================================================
@@ -375,3 +390,32 @@ export interface SaveSettingsResult {
   /** Updated config */
   config?: unknown;
 }
+
+/**
+ * Project loaded from a schedule file
+ */
+export interface ImportedProjectSummary {
+  /** P6 Project Object ID from the file; derived from the project for MSP files */
+  projectObjectId: number;
+  projectCode: string;
+  projectName: string;
+  wbsCount: number;
+  activityCount: number;
+  relationshipCount: number;
+}
+
+/**
+ * Schedule file import result
+ * @api POST /api/v1/p6/import
+ */
+export interface ScheduleImportResponse {
+  /** Detected file format: Primavera XER, P6 XML or Microsoft Project XML */
+  format: 'xer' | 'pmxml' | 'mspxml';
+  /** Version of the exporting tool, if the file states it */
+  version: string | null;
+  projects: ImportedProjectSummary[];
+  calendarCount: number;
+  resourceCount: number;
+  /** Rows skipped or adjusted while reading */
+  warnings: string[];
+}
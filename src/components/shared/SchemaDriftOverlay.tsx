@@ -0,0 +1,101 @@
+/**
+ * Schema Drift Overlay (Development Only)
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Floating panel listing endpoints whose responses drifted from the
+ * schemas in lib/schemas.ts. Violations mean the response was rejected;
+ * unknown fields mean the backend added something types.ts doesn't declare.
+ * Renders nothing in production builds.
+ */
+
+'use client';
+
+import React, { memo, useEffect, useState } from 'react';
+import {
+  clearSchemaDrifts,
+  getSchemaDrifts,
+  subscribeToSchemaDrift,
+  type SchemaDrift,
+} from '@/lib/schemaDrift';
+import { formatIssues } from '@/lib/schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SchemaDriftOverlayProps {
+  /** Start with the panel expanded */
+  defaultOpen?: boolean;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SchemaDriftOverlay = memo(function SchemaDriftOverlay({
+  defaultOpen = false,
+}: SchemaDriftOverlayProps) {
+  const [drifts, setDrifts] = useState<SchemaDrift[]>([]);
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  useEffect(() => {
+    setDrifts(getSchemaDrifts());
+    return subscribeToSchemaDrift(setDrifts);
+  }, []);
+
+  if (process.env.NODE_ENV === 'production' || drifts.length === 0) {
+    return null;
+  }
+
+  const violationCount = drifts.filter((drift) => drift.violations.length > 0).length;
+
+  return (
+    <aside
+      aria-label="API schema drift"
+      className="fixed bottom-4 right-4 z-[100] max-w-md font-mono text-xs"
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-expanded={isOpen}
+        className={`ml-auto block px-3 py-1.5 rounded-lg border shadow-lg ${
+          violationCount > 0
+            ? 'bg-red-950/90 border-red-500 text-red-200'
+            : 'bg-amber-950/90 border-amber-500 text-amber-200'
+        }`}
+      >
+        Schema drift: {drifts.length} endpoint{drifts.length === 1 ? '' : 's'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 max-h-96 overflow-y-auto rounded-lg border border-[var(--orion-border)] bg-[var(--orion-bg-secondary)] p-3 shadow-xl">
+          <ul className="space-y-3">
+            {drifts.map((drift) => (
+              <li key={drift.endpoint}>
+                <p className="text-[var(--orion-text-primary)] break-all">
+                  {drift.endpoint}
+                  <span className="ml-2 text-[var(--orion-text-muted)]">x{drift.occurrences}</span>
+                </p>
+                {drift.violations.length > 0 && (
+                  <pre className="mt-1 whitespace-pre-wrap text-red-300">{formatIssues(drift.violations)}</pre>
+                )}
+                {drift.unknownFields.length > 0 && (
+                  <pre className="mt-1 whitespace-pre-wrap text-amber-300">{formatIssues(drift.unknownFields)}</pre>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={clearSchemaDrifts}
+            className="mt-3 px-2 py-1 rounded border border-[var(--orion-border)] text-[var(--orion-text-secondary)] hover:text-[var(--orion-text-primary)]"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+});
+
+export default SchemaDriftOverlay;
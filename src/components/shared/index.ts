@@ -9,3 +9,5 @@ export {
   hasServiceNoDataMessage,
 } from './NoDataMessage';
 export type { NoDataMessageProps } from './NoDataMessage';
+export { SchemaDriftOverlay } from './SchemaDriftOverlay';
+export type { SchemaDriftOverlayProps } from './SchemaDriftOverlay';
@@ -13,6 +13,8 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, useRef, memo, useMemo } from 'react';
+import { useP6WbsTree, useP6WbsDetail } from '@/lib/hooks';
+import { getApiErrorMessage } from '@/lib/errors';
 import type {
   WBSNode,
   WBSDetail,
@@ -22,7 +24,6 @@ import type {
   WBSBreadcrumbProps,
   WBSTreeState,
   WBSTreeResponse,
-  WBSDetailResponse,
 } from './types';
 
 // ============================================================================
@@ -30,9 +31,10 @@ import type {
 // ============================================================================
 
 /**
- * Format currency value
+ * Format currency value (N/A when P6 does not report the cost)
  */
-const formatCurrency = (value: number): string => {
+const formatCurrency = (value: number | null): string => {
+  if (value === null) return 'N/A';
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
@@ -42,9 +44,10 @@ const formatCurrency = (value: number): string => {
 };
 
 /**
- * Format date string
+ * Format date string (N/A when the WBS has no scheduled activities)
  */
-const formatDate = (isoDate: string): string => {
+const formatDate = (isoDate: string | null): string => {
+  if (!isoDate) return 'N/A';
   return new Date(isoDate).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
@@ -53,9 +56,10 @@ const formatDate = (isoDate: string): string => {
 };
 
 /**
- * Format percentage
+ * Format percentage (N/A when no activity reports progress)
  */
-const formatPercent = (value: number): string => {
+const formatPercent = (value: number | null): string => {
+  if (value === null) return 'N/A';
   return `${Math.round(value)}%`;
 };
 
@@ -237,6 +241,8 @@ const WBSTreeNode = memo(function WBSTreeNode({
 // WBS TREE COMPONENT
 // ============================================================================
 
+const NO_NODES: WBSNode[] = [];
+
 export const WBSTree = memo(function WBSTree({
   projectObjectId,
   tenantId,
@@ -246,66 +252,31 @@ export const WBSTree = memo(function WBSTree({
   showSAPMapping = true,
 }: WBSTreeProps) {
   const [state, setState] = useState<WBSTreeState>({
-    nodes: [],
     expandedIds: new Set(initialExpandedIds),
     selectedId: null,
-    isLoading: true,
-    error: null,
   });
 
-  // Fetch WBS tree data
-  useEffect(() => {
-    const fetchWBSTree = async () => {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-      try {
-        const response = await fetch(
-          `/api/v1/p6/projects/${projectObjectId}/wbs`,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Tenant-ID': tenantId,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to load WBS tree');
+  const treeQuery = useP6WbsTree(projectObjectId, tenantId);
+  const nodes = treeQuery.data?.nodes ?? NO_NODES;
+
+  // Expand nodes the API flags as expanded whenever fresh tree data arrives.
+  // Adjusted during render so the first paint of the tree is already expanded.
+  const [seededTree, setSeededTree] = useState<WBSTreeResponse | undefined>(undefined);
+  if (treeQuery.data && treeQuery.data !== seededTree) {
+    const collectExpandedIds = (nodes: WBSNode[], ids: Set<number>): void => {
+      nodes.forEach((node) => {
+        if (node.isExpanded) {
+          ids.add(node.objectId);
         }
-
-        const data: WBSTreeResponse = await response.json();
-
-        // Collect all initially expanded node IDs from API data
-        const collectExpandedIds = (nodes: WBSNode[], ids: Set<number>): void => {
-          nodes.forEach((node) => {
-            if (node.isExpanded) {
-              ids.add(node.objectId);
-            }
-            collectExpandedIds(node.children, ids);
-          });
-        };
-
-        // Start with initialExpandedIds and add any from API
-        const allExpandedIds = new Set(initialExpandedIds);
-        collectExpandedIds(data.nodes, allExpandedIds);
-
-        setState((prev) => ({
-          ...prev,
-          nodes: data.nodes,
-          expandedIds: allExpandedIds,
-          isLoading: false,
-        }));
-      } catch (error) {
-        setState((prev) => ({
-          ...prev,
-          isLoading: false,
-          error: error instanceof Error ? error.message : 'Failed to load WBS tree',
-        }));
-      }
+        collectExpandedIds(node.children, ids);
+      });
     };
 
-    fetchWBSTree();
-  }, [projectObjectId, tenantId]);
+    const allExpandedIds = new Set(state.expandedIds);
+    collectExpandedIds(treeQuery.data.nodes, allExpandedIds);
+    setSeededTree(treeQuery.data);
+    setState((prev) => ({ ...prev, expandedIds: allExpandedIds }));
+  }
 
   // Toggle node expansion
   const handleToggle = useCallback((objectId: number) => {
@@ -334,7 +305,7 @@ export const WBSTree = memo(function WBSTree({
   );
 
   // Loading state
-  if (state.isLoading) {
+  if (treeQuery.isPending) {
     return (
       <div role="status" className="flex items-center justify-center p-8">
         <svg
@@ -362,16 +333,18 @@ export const WBSTree = memo(function WBSTree({
   }
 
   // Error state
-  if (state.error) {
+  if (treeQuery.isError) {
     return (
       <div role="alert" className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
-        <p className="text-red-800 dark:text-red-200">Failed to load WBS tree: {state.error}</p>
+        <p className="text-red-800 dark:text-red-200">
+          Failed to load WBS tree: {getApiErrorMessage(treeQuery.error)}
+        </p>
       </div>
     );
   }
 
   // Empty state
-  if (state.nodes.length === 0) {
+  if (nodes.length === 0) {
     return (
       <div className="p-8 text-center text-gray-500 dark:text-gray-400">
         <p>No WBS elements found for this project.</p>
@@ -385,7 +358,7 @@ export const WBSTree = memo(function WBSTree({
       aria-label="WBS Tree"
       className="list-none"
     >
-      {state.nodes.map((node) => (
+      {nodes.map((node) => (
         <WBSTreeNode
           key={node.id}
           node={node}
@@ -416,47 +389,13 @@ export const WBSDetailPanel = memo(function WBSDetailPanel({
   onViewActivities,
   onViewInSAP,
 }: WBSDetailPanelProps) {
-  const [detail, setDetail] = useState<WBSDetail | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const detailQuery = useP6WbsDetail(wbsObjectId, tenantId, isOpen);
+  const detail: WBSDetail | null = detailQuery.data ?? null;
+  const isLoading = detailQuery.isLoading;
+  const error = detailQuery.isError ? getApiErrorMessage(detailQuery.error, 'Failed to load details') : null;
   const panelRef = useRef<HTMLDivElement>(null);
   const titleId = `wbs-detail-title-${wbsObjectId}`;
 
-  // Fetch WBS detail
-  useEffect(() => {
-    if (!isOpen || !wbsObjectId) return;
-
-    const fetchDetail = async () => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(
-          `/api/v1/p6/wbs/${wbsObjectId}`,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Tenant-ID': tenantId,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to load WBS details');
-        }
-
-        const data: WBSDetailResponse = await response.json();
-        setDetail(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load details');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchDetail();
-  }, [isOpen, wbsObjectId, tenantId]);
-
   // Handle Escape key
   useEffect(() => {
     if (!isOpen) return;
@@ -10,7 +10,8 @@
  * - Performance tests: Large tree rendering
  */
 
-import { render, screen, within, waitFor } from '@testing-library/react';
+import { screen, within, waitFor } from '@testing-library/react';
+import { renderWithProviders } from '@/components/__tests__/renderWithProviders';
 import userEvent from '@testing-library/user-event';
 import { axe, toHaveNoViolations } from 'jest-axe';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -193,7 +194,7 @@ beforeEach(() => {
 describe('WBSTree', () => {
   describe('Unit Tests: Tree Rendering', () => {
     it('renders loading state initially', () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -205,7 +206,7 @@ describe('WBSTree', () => {
     });
 
     it('renders WBS tree after data loads', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -224,7 +225,7 @@ describe('WBSTree', () => {
     });
 
     it('renders WBS codes alongside names', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -241,7 +242,7 @@ describe('WBSTree', () => {
     });
 
     it('displays percent complete for each node', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -258,7 +259,7 @@ describe('WBSTree', () => {
     });
 
     it('displays activity count for each node', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -278,7 +279,7 @@ describe('WBSTree', () => {
     it('renders error state when API fails', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -298,7 +299,7 @@ describe('WBSTree', () => {
         json: () => Promise.resolve({ nodes: [], totalCount: 0 }),
       });
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -319,7 +320,7 @@ describe('WBSTree', () => {
     it('expands collapsed node when expand button clicked', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -348,7 +349,7 @@ describe('WBSTree', () => {
     it('collapses expanded node when collapse button clicked', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -374,7 +375,7 @@ describe('WBSTree', () => {
     });
 
     it('respects initialExpandedIds prop', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -392,7 +393,7 @@ describe('WBSTree', () => {
     });
 
     it('shows expand icon for nodes with children', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -408,7 +409,7 @@ describe('WBSTree', () => {
     });
 
     it('does not show expand icon for leaf nodes', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -433,7 +434,7 @@ describe('WBSTree', () => {
       const user = userEvent.setup();
       const onNodeSelect = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -459,7 +460,7 @@ describe('WBSTree', () => {
     it('highlights selected node', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -479,7 +480,7 @@ describe('WBSTree', () => {
     it('deselects previous node when new node selected', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -510,7 +511,7 @@ describe('WBSTree', () => {
 
   describe('Unit Tests: SAP Mapping Indicators', () => {
     it('shows SAP mapped indicator when showSAPMapping is true', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -528,7 +529,7 @@ describe('WBSTree', () => {
     });
 
     it('hides SAP indicators when showSAPMapping is false', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -544,7 +545,7 @@ describe('WBSTree', () => {
     });
 
     it('does not show SAP indicator for unmapped nodes', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -571,7 +572,7 @@ describe('WBSTree', () => {
     it('passes onViewActivities prop to tree nodes', async () => {
       const onViewActivities = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -595,7 +596,7 @@ describe('WBSTree', () => {
 
   describe('Integration Tests: API Interaction', () => {
     it('fetches WBS tree on mount', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -615,7 +616,7 @@ describe('WBSTree', () => {
     });
 
     it('refetches when projectObjectId changes', async () => {
-      const { rerender } = render(
+      const { rerender } = renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -650,7 +651,7 @@ describe('WBSTree', () => {
 
   describe('Accessibility Tests', () => {
     it('has no accessibility violations', async () => {
-      const { container } = render(
+      const { container } = renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -666,7 +667,7 @@ describe('WBSTree', () => {
     });
 
     it('uses proper tree ARIA roles', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -682,7 +683,7 @@ describe('WBSTree', () => {
     });
 
     it('sets aria-expanded on expandable nodes', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -701,7 +702,7 @@ describe('WBSTree', () => {
     });
 
     it('sets aria-level for hierarchy depth', async () => {
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -726,7 +727,7 @@ describe('WBSTree', () => {
     it('supports keyboard navigation', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -794,7 +795,7 @@ describe('WBSTree', () => {
 
       const startTime = performance.now();
 
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -814,7 +815,7 @@ describe('WBSTree', () => {
 
     it('uses virtualization for deeply expanded trees', async () => {
       // This is a placeholder - actual virtualization would need react-window or similar
-      render(
+      renderWithProviders(
         <WBSTree
           projectObjectId={12345}
           tenantId="tenant-123"
@@ -838,7 +839,7 @@ describe('WBSTree', () => {
 describe('WBSDetailPanel', () => {
   describe('Unit Tests: Panel Rendering', () => {
     it('renders nothing when not open', () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -851,7 +852,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('renders loading state when open', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -864,7 +865,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('renders WBS details after load', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -882,7 +883,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('displays P6 schedule information', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -901,7 +902,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('displays P6 cost information', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -920,7 +921,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('displays SAP mapping when present', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -939,7 +940,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('displays SAP financials when mapped', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -960,7 +961,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('shows "Not Mapped" when no SAP mapping', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1004}
           tenantId="tenant-123"
@@ -982,7 +983,7 @@ describe('WBSDetailPanel', () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1005,7 +1006,7 @@ describe('WBSDetailPanel', () => {
       const user = userEvent.setup();
       const onViewActivities = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1029,7 +1030,7 @@ describe('WBSDetailPanel', () => {
       const user = userEvent.setup();
       const onViewInSAP = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1050,7 +1051,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('does not show View in SAP button for unmapped WBS', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1004}
           tenantId="tenant-123"
@@ -1070,7 +1071,7 @@ describe('WBSDetailPanel', () => {
 
   describe('Accessibility Tests', () => {
     it('has no accessibility violations', async () => {
-      const { container } = render(
+      const { container } = renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1088,7 +1089,7 @@ describe('WBSDetailPanel', () => {
     });
 
     it('uses proper dialog ARIA attributes', async () => {
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1109,7 +1110,7 @@ describe('WBSDetailPanel', () => {
     it('traps focus within panel', async () => {
       const user = userEvent.setup();
 
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1136,7 +1137,7 @@ describe('WBSDetailPanel', () => {
       const user = userEvent.setup();
       const onClose = vi.fn();
 
-      render(
+      renderWithProviders(
         <WBSDetailPanel
           wbsObjectId={1002}
           tenantId="tenant-123"
@@ -1168,7 +1169,7 @@ describe('WBSBreadcrumb', () => {
   ];
 
   it('renders breadcrumb path', () => {
-    render(
+    renderWithProviders(
       <WBSBreadcrumb
         path={mockPath}
         onNavigate={vi.fn()}
@@ -1184,7 +1185,7 @@ describe('WBSBreadcrumb', () => {
     const user = userEvent.setup();
     const onNavigate = vi.fn();
 
-    render(
+    renderWithProviders(
       <WBSBreadcrumb
         path={mockPath}
         onNavigate={onNavigate}
@@ -1200,7 +1201,7 @@ describe('WBSBreadcrumb', () => {
     const user = userEvent.setup();
     const onNavigate = vi.fn();
 
-    render(
+    renderWithProviders(
       <WBSBreadcrumb
         path={mockPath}
         onNavigate={onNavigate}
@@ -1215,7 +1216,7 @@ describe('WBSBreadcrumb', () => {
   });
 
   it('uses proper breadcrumb ARIA attributes', () => {
-    render(
+    renderWithProviders(
       <WBSBreadcrumb
         path={mockPath}
         onNavigate={vi.fn()}
@@ -1228,7 +1229,7 @@ describe('WBSBreadcrumb', () => {
   });
 
   it('marks current location with aria-current', () => {
-    render(
+    renderWithProviders(
       <WBSBreadcrumb
         path={mockPath}
         onNavigate={vi.fn()}
@@ -1246,7 +1247,7 @@ describe('WBSBreadcrumb', () => {
 
 describe('Snapshot Tests', () => {
   it('matches WBSTree snapshot', async () => {
-    const { container } = render(
+    const { container } = renderWithProviders(
       <WBSTree
         projectObjectId={12345}
         tenantId="tenant-123"
@@ -1262,7 +1263,7 @@ describe('Snapshot Tests', () => {
   });
 
   it('matches WBSDetailPanel snapshot', async () => {
-    const { container } = render(
+    const { container } = renderWithProviders(
       <WBSDetailPanel
         wbsObjectId={1002}
         tenantId="tenant-123"
@@ -1279,7 +1280,7 @@ describe('Snapshot Tests', () => {
   });
 
   it('matches WBSBreadcrumb snapshot', () => {
-    const { container } = render(
+    const { container } = renderWithProviders(
       <WBSBreadcrumb
         path={[
           { objectId: 1001, name: 'Root', wbsCode: '1' },
@@ -27,14 +27,14 @@ export interface WBSNode {
   wbsCode: string;
   /** WBS Name */
   name: string;
-  /** Percent complete (0-100) */
-  percentComplete: number;
-  /** Budget at Completion */
-  budgetAtCompletion: number;
-  /** Planned Total Cost */
-  plannedTotalCost: number;
-  /** Actual Total Cost */
-  actualTotalCost: number;
+  /** Percent complete (0-100), null when no activity beneath reports one */
+  percentComplete: number | null;
+  /** Budget at Completion, null unless every activity beneath reports it */
+  budgetAtCompletion: number | null;
+  /** Planned Total Cost, null unless every activity beneath reports it */
+  plannedTotalCost: number | null;
+  /** Actual Total Cost, null unless every activity beneath reports it */
+  actualTotalCost: number | null;
   /** Hierarchy level (0 = root) */
   hierarchyLevel: number;
   /** Number of activities under this WBS */
@@ -94,20 +94,20 @@ export interface WBSDetail {
   name: string;
   /** Status */
   status: string;
-  /** Percent complete (0-100) */
-  percentComplete: number;
-  /** Planned start date (ISO 8601) */
-  plannedStart: string;
-  /** Planned finish date (ISO 8601) */
-  plannedFinish: string;
-  /** Budget at Completion */
-  budgetAtCompletion: number;
-  /** Planned Total Cost */
-  plannedTotalCost: number;
-  /** Actual Total Cost */
-  actualTotalCost: number;
-  /** Remaining Total Cost */
-  remainingTotalCost: number;
+  /** Percent complete (0-100), null when no activity beneath reports one */
+  percentComplete: number | null;
+  /** Earliest planned start in the WBS (ISO 8601), null without scheduled activities */
+  plannedStart: string | null;
+  /** Latest planned finish in the WBS (ISO 8601), null without scheduled activities */
+  plannedFinish: string | null;
+  /** Budget at Completion, null unless every activity beneath reports it */
+  budgetAtCompletion: number | null;
+  /** Planned Total Cost, null unless every activity beneath reports it */
+  plannedTotalCost: number | null;
+  /** Actual Total Cost, null unless every activity beneath reports it */
+  actualTotalCost: number | null;
+  /** Remaining Total Cost, null unless every activity beneath reports it */
+  remainingTotalCost: number | null;
   /** SAP Mapping (null if not mapped) */
   sapMapping: WBSSAPMapping | null;
   /** SAP Financials (null if not mapped) */
@@ -123,20 +123,14 @@ export interface WBSDetail {
 // ============================================================================
 
 /**
- * WBS Tree component state
+ * WBS Tree view state. Nodes and loading state come from the useP6WbsTree query.
  * @component WBSTree
  */
 export interface WBSTreeState {
-  /** Root nodes (nested tree structure) */
-  nodes: WBSNode[];
   /** Set of expanded node IDs */
   expandedIds: Set<number>;
   /** Currently selected node ID */
   selectedId: number | null;
-  /** Loading state */
-  isLoading: boolean;
-  /** Error message */
-  error: string | null;
 }
 
 // ============================================================================
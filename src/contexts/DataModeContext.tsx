@@ -16,8 +16,9 @@ import {
   useCallback,
   type ReactNode,
 } from 'react';
+import type { DataMode } from '@/lib/dataMode';
 
-export type DataMode = 'mock' | 'live';
+export type { DataMode };
 
 interface DataModeContextType {
   /** Current data mode */
@@ -95,7 +96,7 @@ export function DataModeProvider({
   // Fetch sync status when in live mode
   useEffect(() => {
     if (mode === 'live' && tenantId) {
-      fetch(`/api/v1/sync/status?tenant=${tenantId}`)
+      fetch(`/api/v1/sync/status?tenant=${tenantId}`, { headers: { 'X-Data-Mode': mode } })
         .then((res) => res.json())
         .then((data) => {
           setSyncStatus({
@@ -0,0 +1,24 @@
+/**
+ * Query Provider - Shared React Query Cache
+ * @governance DATA-001, DOC-002
+ *
+ * Provides the QueryClient used by every hook in lib/hooks.ts, so data
+ * fetched on one page is cached and deduplicated across the app.
+ */
+
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { createQueryClient } from '@/lib/queryClient';
+
+interface QueryProviderProps {
+  children: ReactNode;
+}
+
+export function QueryProvider({ children }: QueryProviderProps) {
+  // One client per browser session; created lazily so SSR requests never share a cache
+  const [queryClient] = useState(createQueryClient);
+
+  return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+}
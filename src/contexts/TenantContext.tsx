@@ -0,0 +1,44 @@
+/**
+ * Tenant Context
+ * @governance SEC-001, DOC-002
+ *
+ * Exposes the ORION tenant resolved on the server (lib/tenant.ts) to client
+ * components. Hooks read it to scope their cache and default their tenant
+ * parameter; the middleware still enforces it on every API request.
+ */
+
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+
+interface TenantContextType {
+  /** ORION tenant for the session; null when signed out or not onboarded */
+  tenantId: string | null;
+  /** Active Clerk organization */
+  orgId: string | null;
+}
+
+const TenantContext = createContext<TenantContextType | undefined>(undefined);
+
+interface TenantProviderProps {
+  children: ReactNode;
+  tenantId: string | null;
+  orgId?: string | null;
+}
+
+export function TenantProvider({ children, tenantId, orgId = null }: TenantProviderProps) {
+  return <TenantContext.Provider value={{ tenantId, orgId }}>{children}</TenantContext.Provider>;
+}
+
+/**
+ * Hook to access the session tenant
+ */
+export function useTenant(): TenantContextType {
+  const context = useContext(TenantContext);
+  if (context === undefined) {
+    throw new Error('useTenant must be used within a TenantProvider');
+  }
+  return context;
+}
+
+export default TenantContext;
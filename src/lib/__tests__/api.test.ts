@@ -0,0 +1,260 @@
+/**
+ * API Client Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - Structured ApiError mapping (status, code, request id, retryable)
+ * - Retry with exponential backoff for transient failures
+ * - Timeouts and caller AbortSignal
+ * - Runtime response validation and schema drift recording
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { portfolioApi, projectsApi, syncApi, getRetryDelay, shouldRetry, DEFAULT_RETRY_POLICY } from '../api';
+import { ApiError, ContractViolationError, getApiErrorMessage } from '../errors';
+import { clearSchemaDrifts, getSchemaDrifts } from '../schemaDrift';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: () => Promise.resolve(body),
+  };
+}
+
+const summary = {
+  totalProjects: 3,
+  activeProjects: 2,
+  onTrack: 1,
+  atRisk: 1,
+  critical: 1,
+  totalActivities: 10,
+  completedActivities: 4,
+  inProgressActivities: 3,
+  avgPercentComplete: 42,
+  lastSync: null,
+};
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  clearSchemaDrifts();
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// ERROR MAPPING
+// ============================================================================
+
+describe('apiFetch - ApiError', () => {
+  it('maps HTTP errors onto ApiError with status, code and request id', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse(404, { detail: 'Project not found', code: 'PROJECT_NOT_FOUND' }, { 'X-Request-ID': 'req-42' })
+    );
+
+    const error = await portfolioApi.getSummary('tenant-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('PROJECT_NOT_FOUND');
+    expect(error.requestId).toBe('req-42');
+    expect(error.message).toBe('Project not found');
+    expect(error.retryable).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('joins FastAPI validation errors into one message', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse(422, { detail: [{ msg: 'field required' }, { msg: 'value is not a valid integer' }] })
+    );
+
+    const error = await portfolioApi.getSummary().catch((e) => e);
+
+    expect(error.message).toBe('field required; value is not a valid integer');
+  });
+
+  it('maps network failures onto a retryable network error', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const error = await portfolioApi.getSummary(undefined, { retry: false }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.kind).toBe('network');
+    expect(error.status).toBeNull();
+    expect(error.retryable).toBe(true);
+  });
+});
+
+// ============================================================================
+// RETRY & BACKOFF
+// ============================================================================
+
+describe('apiFetch - retry', () => {
+  it('retries transient GET failures and resolves once the backend recovers', async () => {
+    vi.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(503, { detail: 'Service unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(200, summary));
+
+    const promise = portfolioApi.getSummary('tenant-1');
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual(summary);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    vi.useFakeTimers();
+    mockFetch.mockResolvedValue(jsonResponse(502, { detail: 'Bad gateway' }));
+
+    const promise = portfolioApi.getSummary('tenant-1', { retry: { retries: 1 } }).catch((e) => e);
+    await vi.runAllTimersAsync();
+
+    const error = await promise;
+    expect(error.status).toBe(502);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry mutations by default', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(503, { detail: 'Service unavailable' }));
+
+    await expect(syncApi.trigger({ syncType: 'full' }, 'token')).rejects.toBeInstanceOf(ApiError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('grows the delay exponentially up to the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(0)).toBe(500);
+    expect(getRetryDelay(1)).toBe(1000);
+    expect(getRetryDelay(2)).toBe(2000);
+    expect(getRetryDelay(10)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+
+  it('honors Retry-After when longer than the backoff', () => {
+    const error = new ApiError({ kind: 'http', endpoint: '/x', status: 429, message: 'slow down', retryAfterMs: 3000 });
+
+    expect(getRetryDelay(0, error)).toBe(3000);
+  });
+
+  it('only retries retryable ApiErrors', () => {
+    const unauthorized = new ApiError({ kind: 'http', endpoint: '/x', status: 401, message: 'no' });
+    const timeout = new ApiError({ kind: 'timeout', endpoint: '/x', message: 'slow' });
+
+    expect(shouldRetry(0, unauthorized)).toBe(false);
+    expect(shouldRetry(0, timeout)).toBe(true);
+    expect(shouldRetry(DEFAULT_RETRY_POLICY.retries, timeout)).toBe(false);
+    expect(shouldRetry(0, new Error('boom'))).toBe(false);
+  });
+});
+
+// ============================================================================
+// TIMEOUT & ABORT
+// ============================================================================
+
+describe('apiFetch - timeout and abort', () => {
+  function hangingFetch(_url: string, init: RequestInit) {
+    return new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+  }
+
+  it('fails with a timeout error when the request exceeds timeoutMs', async () => {
+    vi.useFakeTimers();
+    mockFetch.mockImplementation(hangingFetch);
+
+    const promise = portfolioApi.getSummary(undefined, { timeoutMs: 1000, retry: false }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const error = await promise;
+    expect(error.kind).toBe('timeout');
+    expect(getApiErrorMessage(error)).toMatch(/too long/);
+  });
+
+  it('fails with a non-retryable aborted error when the caller aborts', async () => {
+    mockFetch.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const promise = portfolioApi.getSummary(undefined, { signal: controller.signal }).catch((e) => e);
+    controller.abort();
+
+    const error = await promise;
+    expect(error.kind).toBe('aborted');
+    expect(error.retryable).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ============================================================================
+// RESPONSE VALIDATION
+// ============================================================================
+
+describe('apiFetch - response validation', () => {
+  it('rejects responses with renamed or mistyped fields', async () => {
+    const renamed: Record<string, unknown> = { ...summary, avgPctComplete: 42, critical: 'three' };
+    delete renamed.avgPercentComplete;
+    mockFetch.mockResolvedValue(jsonResponse(200, renamed));
+
+    const error = await portfolioApi.getSummary('tenant-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContractViolationError);
+    expect(error.retryable).toBe(false);
+    expect(error.violations).toEqual([
+      { kind: 'violation', path: 'critical', expected: 'number', received: 'string' },
+      { kind: 'violation', path: 'avgPercentComplete', expected: 'number', received: 'undefined' },
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports nested array paths', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse(200, {
+        total: 1,
+        projects: [{ id: 'p1', name: 'P1', percentComplete: null, spi: NaN, cpi: null, status: 'unknown', plannedFinish: null, dataDate: null }],
+      })
+    );
+
+    const error = await projectsApi.getHealth().catch((e) => e);
+
+    expect(error.violations[0].path).toBe('projects[0].spi');
+    expect(error.violations[0].received).toBe('NaN');
+  });
+
+  it('accepts unknown fields but records them as drift', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, { ...summary, portfolioGrade: 'A' }));
+
+    await expect(portfolioApi.getSummary('tenant-1')).resolves.toMatchObject({ totalProjects: 3 });
+
+    const drifts = getSchemaDrifts();
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0].endpoint).toBe('/api/v1/portfolio/summary');
+    expect(drifts[0].unknownFields[0].path).toBe('portfolioGrade');
+    expect(drifts[0].violations).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// USER-FACING MESSAGES
+// ============================================================================
+
+describe('getApiErrorMessage', () => {
+  it('maps statuses onto user-facing messages', () => {
+    const make = (status: number, requestId?: string) =>
+      new ApiError({ kind: 'http', endpoint: '/x', status, message: 'raw', requestId });
+
+    expect(getApiErrorMessage(make(401))).toMatch(/sign in again/);
+    expect(getApiErrorMessage(make(403))).toMatch(/do not have access/);
+    expect(getApiErrorMessage(make(404))).toMatch(/not found/);
+    expect(getApiErrorMessage(make(500, 'req-7'))).toContain('req-7');
+    expect(getApiErrorMessage(make(409))).toBe('raw');
+  });
+});
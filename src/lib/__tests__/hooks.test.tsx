@@ -0,0 +1,296 @@
+/**
+ * React Query Hooks Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - X-Data-Mode header on every query
+ * - Cache separation between mock and live data
+ * - Session tenant defaults and cache separation between tenants
+ * - Sync job event stream with polling fallback
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { DataModeProvider, useDataMode } from '@/contexts/DataModeContext';
+import { TenantProvider } from '@/contexts/TenantContext';
+import { usePortfolioSummary, useP6Projects, useSyncJobStream } from '../hooks';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function summary(totalProjects: number) {
+  return {
+    totalProjects,
+    activeProjects: totalProjects,
+    onTrack: totalProjects,
+    atRisk: 0,
+    critical: 0,
+    totalActivities: 0,
+    completedActivities: 0,
+    inProgressActivities: 0,
+    avgPercentComplete: 0,
+    lastSync: null,
+  };
+}
+
+const projectsPage = (name: string) => ({
+  data: [
+    {
+      id: name,
+      objectId: 1,
+      projectId: name,
+      name,
+      status: 'Active',
+      percentComplete: 10,
+      plannedStart: '2024-01-01',
+      plannedFinish: '2025-01-01',
+      actualStart: null,
+      dataDate: '2024-06-01',
+      budgetAtCompletion: 100,
+      spi: 1,
+      cpi: 1,
+    },
+  ],
+  pagination: { page: 1, pageSize: 20, total: 1, totalPages: 1 },
+});
+
+/** Respond by data mode; live responses stay pending until released */
+let releaseLive: () => void = () => {};
+
+function mockByMode(mock: unknown, live: unknown) {
+  mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+    const mode = (init.headers as Record<string, string>)['X-Data-Mode'];
+    const respond = (body: unknown) => ({ ok: true, json: () => Promise.resolve(body) });
+    if (mode === 'live') {
+      return new Promise((resolve) => {
+        releaseLive = () => resolve(respond(live));
+      });
+    }
+    return Promise.resolve(respond(mock));
+  });
+}
+
+function wrapper({ children }: { children: ReactNode }) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TenantProvider tenantId="tenant-001">
+        <DataModeProvider>{children}</DataModeProvider>
+      </TenantProvider>
+    </QueryClientProvider>
+  );
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  localStorage.clear();
+});
+
+describe('data mode', () => {
+  it('sends the active mode as X-Data-Mode', async () => {
+    mockByMode(summary(3), summary(9));
+
+    const { result } = renderHook(() => usePortfolioSummary('tenant-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.data?.totalProjects).toBe(3));
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/v1/portfolio/summary'),
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-Data-Mode': 'mock' }) })
+    );
+  });
+
+  it('never serves cached mock data under the live view', async () => {
+    mockByMode(summary(3), summary(9));
+
+    const { result } = renderHook(
+      () => ({ summary: usePortfolioSummary('tenant-1'), dataMode: useDataMode() }),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.summary.data?.totalProjects).toBe(3));
+
+    act(() => result.current.dataMode.setMode('live'));
+
+    expect(result.current.summary.data).toBeUndefined();
+    expect(result.current.summary.isPending).toBe(true);
+
+    act(() => releaseLive());
+    await waitFor(() => expect(result.current.summary.data?.totalProjects).toBe(9));
+  });
+
+  it('does not keep the previous page across a mode switch', async () => {
+    mockByMode(projectsPage('Mock Project'), projectsPage('Live Project'));
+    const query = { tenant: 'tenant-1', page: 1, pageSize: 20, sortBy: 'name', sortDir: 'asc' as const };
+
+    const { result } = renderHook(
+      () => ({ projects: useP6Projects(query), dataMode: useDataMode() }),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.projects.data?.data[0].name).toBe('Mock Project'));
+
+    act(() => result.current.dataMode.setMode('live'));
+
+    expect(result.current.projects.data).toBeUndefined();
+
+    act(() => releaseLive());
+    await waitFor(() => expect(result.current.projects.data?.data[0].name).toBe('Live Project'));
+  });
+});
+
+describe('tenant scoping', () => {
+  it('defaults portfolio calls to the session tenant', async () => {
+    mockByMode(summary(3), summary(9));
+
+    const { result } = renderHook(() => usePortfolioSummary(), { wrapper });
+
+    await waitFor(() => expect(result.current.data?.totalProjects).toBe(3));
+    expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('tenant=tenant-001'), expect.anything());
+  });
+
+  it('never serves another tenant\'s cached data after an organization switch', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      const body = url.includes('tenant=tenant-a') ? summary(3) : summary(5);
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+    });
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    let sessionTenant = 'tenant-a';
+    const switchingWrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        <TenantProvider tenantId={sessionTenant}>
+          <DataModeProvider>{children}</DataModeProvider>
+        </TenantProvider>
+      </QueryClientProvider>
+    );
+
+    const { result, rerender } = renderHook(() => usePortfolioSummary(), { wrapper: switchingWrapper });
+    await waitFor(() => expect(result.current.data?.totalProjects).toBe(3));
+
+    sessionTenant = 'tenant-b';
+    rerender();
+
+    expect(result.current.data).toBeUndefined();
+    await waitFor(() => expect(result.current.data?.totalProjects).toBe(5));
+  });
+});
+
+describe('sync job stream', () => {
+  class FakeEventSource {
+    static instances: FakeEventSource[] = [];
+    readonly listeners = new Map<string, (message: MessageEvent) => void>();
+    onerror: (() => void) | null = null;
+    closed = false;
+
+    constructor(readonly url: string) {
+      FakeEventSource.instances.push(this);
+    }
+
+    addEventListener(type: string, listener: (message: MessageEvent) => void) {
+      this.listeners.set(type, listener);
+    }
+
+    close() {
+      this.closed = true;
+    }
+
+    emit(type: string, data: unknown) {
+      act(() => this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) })));
+    }
+
+    drop() {
+      act(() => this.onerror?.());
+    }
+  }
+
+  const job = (status: 'pending' | 'running' | 'completed' | 'failed', progress: number) => ({
+    jobId: 'job-0001',
+    status,
+    progress,
+    recordsSynced: { p6: progress * 10, sap: 0 },
+    startedAt: '2025-07-01T09:00:00Z',
+    completedAt: status === 'completed' || status === 'failed' ? '2025-07-01T09:01:00Z' : null,
+    error: status === 'failed' ? 'SAP RFC connection reset by peer' : null,
+  });
+  const latestSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+  const jobFetches = () => mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/api/v1/sync/jobs/job-0001'));
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    mockFetch.mockImplementation(() => Promise.resolve({ ok: true, json: () => Promise.resolve(job('pending', 0)) }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('streams progress, entity counts and errors', async () => {
+    const { result } = renderHook(() => useSyncJobStream('job-0001'), { wrapper });
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+    expect(latestSource().url).toBe('/api/v1/sync/jobs/job-0001/events?dataMode=mock');
+
+    latestSource().emit('progress', job('running', 40));
+    latestSource().emit('entity', { jobId: 'job-0001', system: 'p6', entity: 'projects', synced: 8, total: 8 });
+    latestSource().emit('entity', { jobId: 'job-0001', system: 'p6', entity: 'wbs', synced: 50, total: 112 });
+    latestSource().emit('entity', { jobId: 'job-0001', system: 'p6', entity: 'wbs', synced: 112, total: 112 });
+
+    expect(result.current.transport).toBe('stream');
+    expect(result.current.job).toMatchObject({ status: 'running', progress: 40 });
+    expect(result.current.entities.map((entity) => [entity.entity, entity.synced])).toEqual([
+      ['projects', 8],
+      ['wbs', 112],
+    ]);
+
+    const error = {
+      errorId: 'err-job-0001-1',
+      jobId: 'job-0001',
+      errorSource: 'sap',
+      errorType: 'connection',
+      errorMessage: 'SAP RFC connection reset by peer',
+      recordType: null,
+      recordId: null,
+      occurredAt: '2025-07-01T09:01:00Z',
+    };
+    latestSource().emit('job-error', error);
+    latestSource().emit('job-error', error);
+    latestSource().emit('done', job('failed', 60));
+
+    expect(result.current.errors).toHaveLength(1);
+    expect(result.current.job?.status).toBe('failed');
+    expect(result.current.transport).toBe('idle');
+    expect(latestSource().closed).toBe(true);
+  });
+
+  it('polls while the stream is down and reconnects', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const { result } = renderHook(() => useSyncJobStream('job-0001'), { wrapper });
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+    latestSource().emit('progress', job('running', 10));
+    await act(() => vi.advanceTimersByTimeAsync(4000));
+    const fetchesWhileStreaming = jobFetches().length;
+    expect(fetchesWhileStreaming).toBeLessThanOrEqual(1);
+
+    latestSource().drop();
+
+    expect(result.current.transport).toBe('polling');
+    expect(latestSource().closed).toBe(true);
+    await act(() => vi.advanceTimersByTimeAsync(4000));
+    expect(jobFetches().length).toBeGreaterThan(fetchesWhileStreaming);
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(FakeEventSource.instances).toHaveLength(2);
+  });
+
+  it('closes a stream that sends a malformed event', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => useSyncJobStream('job-0001'), { wrapper });
+    await waitFor(() => expect(FakeEventSource.instances).toHaveLength(1));
+
+    latestSource().emit('progress', { jobId: 'job-0001' });
+
+    expect(latestSource().closed).toBe(true);
+    expect(result.current.transport).toBe('polling');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tenant Resolution Tests
+ * @governance SEC-001
+ *
+ * Test coverage:
+ * - Mapping Clerk sessions onto ORION tenants
+ * - Rejecting requests that name another tenant
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@clerk/nextjs/server', () => ({ auth: vi.fn() }));
+vi.mock('next/navigation', () => ({ redirect: vi.fn() }));
+
+import { checkTenantAccess, getRequestedTenants, tenantFromAuth, type TenantSession } from '../tenant';
+
+const session: TenantSession = { tenantId: 'tenant-001', userId: 'user_1', orgId: 'org_1', orgRole: 'org:admin' };
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`http://localhost${path}`, { headers });
+}
+
+describe('tenantFromAuth', () => {
+  it('reads the tenant from the organization claim', () => {
+    expect(
+      tenantFromAuth({
+        userId: 'user_1',
+        orgId: 'org_1',
+        orgRole: 'org:admin',
+        sessionClaims: { orionTenantId: 'tenant-001' },
+      })
+    ).toEqual(session);
+  });
+
+  it('returns null when signed out', () => {
+    expect(tenantFromAuth({ userId: null })).toBeNull();
+  });
+
+  it('leaves the tenant unset for organizations that are not onboarded', () => {
+    expect(tenantFromAuth({ userId: 'user_1', orgId: 'org_1', sessionClaims: {} })?.tenantId).toBeNull();
+  });
+
+  it('ignores the claim without an active organization', () => {
+    expect(
+      tenantFromAuth({ userId: 'user_1', orgId: null, sessionClaims: { orionTenantId: 'tenant-001' } })?.tenantId
+    ).toBeNull();
+  });
+
+  it('has no organization role without an active organization', () => {
+    expect(tenantFromAuth({ userId: 'user_1', orgId: null, orgRole: 'org:admin' })?.orgRole).toBeNull();
+  });
+});
+
+describe('checkTenantAccess', () => {
+  it('collects tenants from the header and query string', () => {
+    const req = request('/api/v1/portfolio/summary?tenant=a&tenantId=b', { 'X-Tenant-ID': 'c' });
+
+    expect(getRequestedTenants(req)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('allows requests naming the session tenant or none', () => {
+    expect(checkTenantAccess(request('/api/v1/portfolio/summary?tenant=tenant-001'), session)).toBeNull();
+    expect(checkTenantAccess(request('/api/v1/p6/wbs', { 'X-Tenant-ID': 'tenant-001' }), session)).toBeNull();
+    expect(checkTenantAccess(request('/api/v1/projects'), session)).toBeNull();
+  });
+
+  it('rejects a mismatched ?tenant= with 403', async () => {
+    const response = checkTenantAccess(request('/api/v1/portfolio/summary?tenant=other'), session);
+
+    expect(response?.status).toBe(403);
+    await expect(response?.json()).resolves.toMatchObject({ code: 'TENANT_MISMATCH' });
+  });
+
+  it('rejects a mismatched X-Tenant-ID even when ?tenant= matches', () => {
+    const req = request('/api/v1/p6/wbs?tenant=tenant-001', { 'X-Tenant-ID': 'other' });
+
+    expect(checkTenantAccess(req, session)?.status).toBe(403);
+  });
+
+  it('rejects any named tenant when the organization has none', () => {
+    const req = request('/api/v1/portfolio/summary?tenant=tenant-001');
+
+    expect(checkTenantAccess(req, { ...session, tenantId: null })?.status).toBe(403);
+  });
+
+  it('rejects signed-out requests with 401', () => {
+    expect(checkTenantAccess(request('/api/v1/projects'), null)?.status).toBe(401);
+  });
+});
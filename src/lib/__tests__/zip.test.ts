@@ -0,0 +1,69 @@
+/**
+ * Zip Archive Writer Tests
+ * @governance COMPONENT-001
+ *
+ * Test coverage:
+ * - CRC-32 check values
+ * - Local headers, central directory and end record pointing at each other
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, zipFiles } from '../zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(encoder.encode(''))).toBe(0);
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('zipFiles', () => {
+  const files = [
+    { name: 'gantt-1.svg', data: encoder.encode('<svg/>') },
+    { name: 'gantt-2.svg', data: encoder.encode('<svg></svg>') },
+  ];
+  const zip = zipFiles(files, new Date(2024, 2, 15, 10, 30, 0));
+  const view = new DataView(zip.buffer);
+  const text = (offset: number, length: number) => new TextDecoder().decode(zip.subarray(offset, offset + length));
+
+  it('stores each file after its local header', () => {
+    let offset = 0;
+    for (const file of files) {
+      expect(view.getUint32(offset, true)).toBe(0x04034b50);
+      // Stored, modified 2024-03-15 10:30
+      expect(view.getUint16(offset + 8, true)).toBe(0);
+      expect(view.getUint16(offset + 10, true)).toBe((10 << 11) | (30 << 5));
+      expect(view.getUint16(offset + 12, true)).toBe((44 << 9) | (3 << 5) | 15);
+      expect(view.getUint32(offset + 14, true)).toBe(crc32(file.data));
+      expect(view.getUint32(offset + 18, true)).toBe(file.data.length);
+      expect(text(offset + 30, file.name.length)).toBe(file.name);
+      expect(text(offset + 30 + file.name.length, file.data.length)).toBe(new TextDecoder().decode(file.data));
+      offset += 30 + file.name.length + file.data.length;
+    }
+  });
+
+  it('ends with a central directory listing every file at its offset', () => {
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    let offset = view.getUint32(end + 16, true);
+    expect(offset + centralSize).toBe(end);
+
+    const entries = files.map(() => {
+      expect(view.getUint32(offset, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(offset + 28, true);
+      const entry = { name: text(offset + 46, nameLength), localOffset: view.getUint32(offset + 42, true) };
+      offset += 46 + nameLength;
+      return entry;
+    });
+
+    expect(entries.map((entry) => entry.name)).toEqual(['gantt-1.svg', 'gantt-2.svg']);
+    for (const entry of entries) {
+      expect(view.getUint32(entry.localOffset, true)).toBe(0x04034b50);
+      expect(text(entry.localOffset + 30, entry.name.length)).toBe(entry.name);
+    }
+  });
+});
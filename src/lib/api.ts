@@ -11,8 +11,6 @@ import type {
   PortfolioFinancials,
   DomainProgress,
   ProjectCard,
-  PortfolioHealth,
-  BudgetComparison,
   ProjectSummary,
   ProjectDetail,
   ProjectHealthResponse,
@@ -29,40 +27,310 @@ import type {
   SyncHistory,
   SyncErrorList,
   SyncJobStatus,
+  SyncJobEvent,
   SyncRequest,
   SyncResponse,
   ProjectUniverse,
 } from './types';
+import type { SyncStatus as DashboardSyncStatus } from '@/components/dashboard/types';
+import type {
+  PortfolioHealth as CfoPortfolioHealth,
+  PortfolioFinancials as CfoPortfolioFinancials,
+  ProjectBudget,
+  ProjectComparison,
+} from '@/components/cfo/types';
+import type {
+  ProjectHeader,
+  PerformanceMetrics,
+  DomainProgress as ProjectDomainProgress,
+  BudgetAnalytics,
+  ScheduleIntelligence,
+} from '@/components/project/types';
+import type { EVMProjectSnapshot } from '@/components/evm/types';
+import type { ProjectsResponse, StatusOption } from '@/components/project-list/types';
+import type { WBSDetail, WBSTreeResponse } from '@/components/wbs-tree/types';
+import type {
+  ActivitiesResponse,
+  ActivityDetailResponse,
+  BaselinesResponse,
+  BaselineScheduleResponse,
+  ScenarioInput,
+  ScenariosResponse,
+  ScheduleScenario,
+} from '@/components/gantt/types';
+import type {
+  P6ConnectionConfig,
+  SAPConnectionConfig,
+  SyncConfig,
+  UserPreferences,
+  SettingsResponse,
+  ConnectionTestResult,
+  SaveSettingsResult,
+  ScheduleImportResponse,
+} from '@/components/settings/types';
+import type { DataMode } from './dataMode';
+import { ApiError, ContractViolationError, isApiError, parseErrorBody, parseRetryAfter } from './errors';
+import { s, validate, type Schema } from './schema';
+import { recordSchemaDrift } from './schemaDrift';
+import * as schemas from './schemas';
 
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8001';
+/**
+ * Requests stay same-origin unless NEXT_PUBLIC_API_URL is set, so they pass
+ * through the Next.js BFF routes and the /api/v1 rewrite in next.config.js.
+ */
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || '';
+
+/** Per-request timeout unless the caller overrides it */
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+/** Schedule uploads are parsed and loaded before the response is sent */
+const SCHEDULE_IMPORT_TIMEOUT_MS = 300000;
+
+/**
+ * Exponential backoff policy for transient failures
+ * Delay for attempt n is min(maxDelayMs, baseDelayMs * 2^n) with full jitter.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retry) */
+  retries: number;
+  /** Base delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Options accepted by every API call
+ */
+export interface ApiRequestOptions extends RequestInit {
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+  /**
+   * Retry policy for transient failures. GET requests retry with
+   * DEFAULT_RETRY_POLICY; mutations never retry unless given a policy.
+   * Pass `false` when the caller (e.g. React Query) owns retries.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Sent as X-Data-Mode so the backend reads the demo or production schemas.
+   * Omitted when unset; the backend then defaults to mock.
+   */
+  dataMode?: DataMode;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Backoff delay before retry number `attempt` (0-based).
+ * Honors Retry-After from the backend when it is longer than the backoff.
+ */
+export function getRetryDelay(
+  attempt: number,
+  error?: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  const retryAfter = isApiError(error) ? error.retryAfterMs : null;
+  return retryAfter !== null ? Math.min(policy.maxDelayMs, Math.max(jittered, retryAfter)) : jittered;
+}
+
+/**
+ * Whether a failed request should be attempted again
+ */
+export function shouldRetry(
+  attempt: number,
+  error: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): boolean {
+  if (attempt >= policy.retries) return false;
+  // Unknown errors (e.g. bugs in response handling) are not worth repeating
+  return isApiError(error) && error.retryable;
+}
+
+function resolveRetryPolicy(method: string, retry: ApiRequestOptions['retry']): RetryPolicy {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, retries: 0 };
+  }
+  if (retry === undefined) {
+    return IDEMPOTENT_METHODS.has(method) ? DEFAULT_RETRY_POLICY : { ...DEFAULT_RETRY_POLICY, retries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Single request attempt with timeout, mapped onto ApiError
+ */
+async function fetchOnce<T>(
+  endpoint: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal | null,
+  read: (response: Response) => Promise<T> = (response) => response.json()
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE}${endpoint}`, { ...init, signal: controller.signal });
+    } catch (cause) {
+      if (timedOut) {
+        throw new ApiError({
+          kind: 'timeout',
+          endpoint,
+          message: `Request to ${endpoint} timed out after ${timeoutMs}ms`,
+          cause,
+        });
+      }
+      if (signal?.aborted) {
+        throw new ApiError({ kind: 'aborted', endpoint, message: `Request to ${endpoint} was aborted`, cause });
+      }
+      throw new ApiError({
+        kind: 'network',
+        endpoint,
+        message: cause instanceof Error ? cause.message : 'Network error',
+        cause,
+      });
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const { message, code } = parseErrorBody(body);
+      throw new ApiError({
+        kind: 'http',
+        endpoint,
+        status: response.status,
+        code,
+        requestId: response.headers.get('X-Request-ID'),
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        message: message || `API Error: ${response.status}`,
+      });
+    }
+
+    return await read(response);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Check a response body against its schema.
+ * Drift is always recorded for the dev overlay; violations reject the response.
+ */
+function validateResponse<T>(endpoint: string, schema: Schema<T>, body: unknown): T {
+  const result = validate(schema, body);
+  recordSchemaDrift(endpoint, result.violations, result.unknownFields);
+  if (!result.valid) {
+    throw new ContractViolationError(endpoint, result.violations);
+  }
+  return result.data;
+}
 
 /**
- * Base fetch wrapper with error handling
+ * Base fetch wrapper with structured errors, timeout, retry/backoff
+ * and runtime response validation
  */
 async function apiFetch<T>(
   endpoint: string,
-  options: RequestInit = {}
+  schema: Schema<T>,
+  options: ApiRequestOptions = {}
 ): Promise<T> {
-  const url = `${API_BASE}${endpoint}`;
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retry, signal, dataMode, ...init } = options;
+  const method = (init.method || 'GET').toUpperCase();
+  const policy = resolveRetryPolicy(method, retry);
 
-  const response = await fetch(url, {
-    ...options,
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       'Content-Type': 'application/json',
-      ...options.headers,
+      ...(dataMode && { 'X-Data-Mode': dataMode }),
+      ...init.headers,
     },
-  });
+  };
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Unknown error' }));
-    throw new Error(error.detail || `API Error: ${response.status}`);
+  for (let attempt = 0; ; attempt++) {
+    let body: unknown;
+    try {
+      body = await fetchOnce<unknown>(endpoint, requestInit, timeoutMs, signal);
+    } catch (error) {
+      if (!shouldRetry(attempt, error, policy)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, error, policy), signal);
+      continue;
+    }
+    // A malformed payload will be malformed again - validate outside the retry path
+    return validateResponse(endpoint, schema, body);
   }
+}
 
-  return response.json();
+/**
+ * File download with apiFetch's errors, timeout and retry; the body is
+ * returned as a Blob instead of validated JSON
+ */
+async function apiDownload(endpoint: string, options: ApiRequestOptions = {}): Promise<Blob> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retry, signal, dataMode, ...init } = options;
+  const policy = resolveRetryPolicy((init.method || 'GET').toUpperCase(), retry);
+
+  const requestInit: RequestInit = {
+    ...init,
+    headers: {
+      ...(dataMode && { 'X-Data-Mode': dataMode }),
+      ...init.headers,
+    },
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(endpoint, requestInit, timeoutMs, signal, (response) => response.blob());
+    } catch (error) {
+      if (!shouldRetry(attempt, error, policy)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, error, policy), signal);
+    }
+  }
 }
 
 // =============================================================================
@@ -74,27 +342,27 @@ export const portfolioApi = {
    * GET /api/v1/portfolio/summary
    * Returns portfolio summary statistics
    */
-  getSummary: (tenant?: string): Promise<PortfolioSummary> => {
+  getSummary: (tenant?: string, init?: ApiRequestOptions): Promise<PortfolioSummary> => {
     const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<PortfolioSummary>(`/api/v1/portfolio/summary${params}`);
+    return apiFetch<PortfolioSummary>(`/api/v1/portfolio/summary${params}`, schemas.portfolioSummarySchema, init);
   },
 
   /**
    * GET /api/v1/portfolio/financials
    * Returns aggregate financial metrics from SAP
    */
-  getFinancials: (tenant?: string): Promise<PortfolioFinancials> => {
+  getFinancials: (tenant?: string, init?: ApiRequestOptions): Promise<PortfolioFinancials> => {
     const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<PortfolioFinancials>(`/api/v1/portfolio/financials${params}`);
+    return apiFetch<PortfolioFinancials>(`/api/v1/portfolio/financials${params}`, schemas.portfolioFinancialsSchema, init);
   },
 
   /**
    * GET /api/v1/portfolio/domain-progress
    * Returns aggregate EPCIC domain progress
    */
-  getDomainProgress: (tenant?: string): Promise<DomainProgress> => {
+  getDomainProgress: (tenant?: string, init?: ApiRequestOptions): Promise<DomainProgress> => {
     const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<DomainProgress>(`/api/v1/portfolio/domain-progress${params}`);
+    return apiFetch<DomainProgress>(`/api/v1/portfolio/domain-progress${params}`, schemas.domainProgressSchema, init);
   },
 
   /**
@@ -105,31 +373,13 @@ export const portfolioApi = {
     tenant?: string;
     status?: string;
     limit?: number;
-  }): Promise<ProjectCard[]> => {
+  }, init?: ApiRequestOptions): Promise<ProjectCard[]> => {
     const params = new URLSearchParams();
     if (options?.tenant) params.set('tenant', options.tenant);
     if (options?.status) params.set('status', options.status);
     if (options?.limit) params.set('limit', options.limit.toString());
     const queryString = params.toString();
-    return apiFetch<ProjectCard[]>(`/api/v1/portfolio/projects${queryString ? '?' + queryString : ''}`);
-  },
-
-  /**
-   * GET /api/v1/portfolio/cfo/health
-   * Returns CFO-level health banner
-   */
-  getCfoHealth: (tenant?: string): Promise<PortfolioHealth> => {
-    const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<PortfolioHealth>(`/api/v1/portfolio/cfo/health${params}`);
-  },
-
-  /**
-   * GET /api/v1/portfolio/cfo/budget-comparison
-   * Returns budget vs actual comparison for all projects
-   */
-  getCfoBudgetComparison: (tenant?: string): Promise<BudgetComparison[]> => {
-    const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<BudgetComparison[]>(`/api/v1/portfolio/cfo/budget-comparison${params}`);
+    return apiFetch<ProjectCard[]>(`/api/v1/portfolio/projects${queryString ? '?' + queryString : ''}`, s.array(schemas.projectCardSchema), init);
   },
 };
 
@@ -145,54 +395,54 @@ export const projectsApi = {
   getHealth: (options?: {
     tenant?: string;
     limit?: number;
-  }): Promise<ProjectHealthResponse> => {
+  }, init?: ApiRequestOptions): Promise<ProjectHealthResponse> => {
     const params = new URLSearchParams();
     if (options?.tenant) params.set('tenant', options.tenant);
     if (options?.limit) params.set('limit', options.limit.toString());
     const queryString = params.toString();
-    return apiFetch<ProjectHealthResponse>(`/api/v1/projects/health${queryString ? '?' + queryString : ''}`);
+    return apiFetch<ProjectHealthResponse>(`/api/v1/projects/health${queryString ? '?' + queryString : ''}`, schemas.projectHealthResponseSchema, init);
   },
 
   /**
    * GET /api/v1/projects
    * Lists all projects
    */
-  list: (activeOnly = false): Promise<ProjectSummary[]> => {
+  list: (activeOnly = false, init?: ApiRequestOptions): Promise<ProjectSummary[]> => {
     const params = activeOnly ? '?active_only=true' : '';
-    return apiFetch<ProjectSummary[]>(`/api/v1/projects${params}`);
+    return apiFetch<ProjectSummary[]>(`/api/v1/projects${params}`, s.array(schemas.projectSummarySchema), init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}
    * Get project details
    */
-  getById: (projectId: number): Promise<ProjectDetail> => {
-    return apiFetch<ProjectDetail>(`/api/v1/projects/${projectId}`);
+  getById: (projectId: number, init?: ApiRequestOptions): Promise<ProjectDetail> => {
+    return apiFetch<ProjectDetail>(`/api/v1/projects/${projectId}`, schemas.projectDetailSchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/schedule
    * Returns schedule summary for project
    */
-  getSchedule: (projectId: number): Promise<ScheduleSummary> => {
-    return apiFetch<ScheduleSummary>(`/api/v1/projects/${projectId}/schedule`);
+  getSchedule: (projectId: number, init?: ApiRequestOptions): Promise<ScheduleSummary> => {
+    return apiFetch<ScheduleSummary>(`/api/v1/projects/${projectId}/schedule`, schemas.scheduleSummarySchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/critical-path
    * Returns critical path activities
    */
-  getCriticalPath: (projectId: number, limit = 50): Promise<CriticalPathActivity[]> => {
-    return apiFetch<CriticalPathActivity[]>(`/api/v1/projects/${projectId}/critical-path?limit=${limit}`);
+  getCriticalPath: (projectId: number, limit = 50, init?: ApiRequestOptions): Promise<CriticalPathActivity[]> => {
+    return apiFetch<CriticalPathActivity[]>(`/api/v1/projects/${projectId}/critical-path?limit=${limit}`, s.array(schemas.criticalPathActivitySchema), init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/wbs
    * Returns WBS elements
    */
-  getWbs: (projectId: number, hierarchical = false): Promise<WBSHierarchy | { wbs: unknown[]; total: number }> => {
+  getWbs: (projectId: number, hierarchical = false, init?: ApiRequestOptions): Promise<WBSHierarchy | { wbs: unknown[]; total: number }> => {
     const params = hierarchical ? '?hierarchical=true' : '';
-    return apiFetch(`/api/v1/projects/${projectId}/wbs${params}`);
+    return apiFetch<WBSHierarchy | { wbs: unknown[]; total: number }>(`/api/v1/projects/${projectId}/wbs${params}`, hierarchical ? schemas.wbsHierarchySchema : schemas.wbsListSchema, init);
   },
 
   /**
@@ -205,38 +455,39 @@ export const projectsApi = {
       status?: string;
       criticalOnly?: boolean;
       limit?: number;
-    }
+    },
+    init?: ApiRequestOptions
   ): Promise<{ activities: unknown[]; total: number; returned: number }> => {
     const params = new URLSearchParams();
     if (options?.status) params.set('status', options.status);
     if (options?.criticalOnly) params.set('critical_only', 'true');
     if (options?.limit) params.set('limit', options.limit.toString());
     const queryString = params.toString();
-    return apiFetch(`/api/v1/projects/${projectId}/activities${queryString ? '?' + queryString : ''}`);
+    return apiFetch(`/api/v1/projects/${projectId}/activities${queryString ? '?' + queryString : ''}`, schemas.activityListSchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/financial
    * Returns financial summary from SAP
    */
-  getFinancial: (projectId: number): Promise<FinancialSummary> => {
-    return apiFetch<FinancialSummary>(`/api/v1/projects/${projectId}/financial`);
+  getFinancial: (projectId: number, init?: ApiRequestOptions): Promise<FinancialSummary> => {
+    return apiFetch<FinancialSummary>(`/api/v1/projects/${projectId}/financial`, schemas.financialSummarySchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/evm
    * Returns EVM snapshot
    */
-  getEvm: (projectId: number): Promise<EVMMetrics> => {
-    return apiFetch<EVMMetrics>(`/api/v1/projects/${projectId}/evm`);
+  getEvm: (projectId: number, init?: ApiRequestOptions): Promise<EVMMetrics> => {
+    return apiFetch<EVMMetrics>(`/api/v1/projects/${projectId}/evm`, schemas.evmMetricsSchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/domains
    * Returns EPCIC domain progress
    */
-  getDomains: (projectId: number): Promise<DomainProgressDetail[]> => {
-    return apiFetch<DomainProgressDetail[]>(`/api/v1/projects/${projectId}/domains`);
+  getDomains: (projectId: number, init?: ApiRequestOptions): Promise<DomainProgressDetail[]> => {
+    return apiFetch<DomainProgressDetail[]>(`/api/v1/projects/${projectId}/domains`, s.array(schemas.domainProgressDetailSchema), init);
   },
 
   /**
@@ -245,17 +496,18 @@ export const projectsApi = {
    */
   getDomain: (
     projectId: number,
-    domain: 'engineering' | 'procurement' | 'construction' | 'commissioning'
+    domain: 'engineering' | 'procurement' | 'construction' | 'commissioning',
+    init?: ApiRequestOptions
   ): Promise<DomainProgressDetail> => {
-    return apiFetch<DomainProgressDetail>(`/api/v1/projects/${projectId}/${domain}`);
+    return apiFetch<DomainProgressDetail>(`/api/v1/projects/${projectId}/${domain}`, schemas.domainProgressDetailSchema, init);
   },
 
   /**
    * GET /api/v1/projects/{projectId}/universe
    * Returns complete project universe view (P6 + SAP combined)
    */
-  getUniverse: (projectId: number): Promise<ProjectUniverse> => {
-    return apiFetch<ProjectUniverse>(`/api/v1/projects/${projectId}/universe`);
+  getUniverse: (projectId: number, init?: ApiRequestOptions): Promise<ProjectUniverse> => {
+    return apiFetch<ProjectUniverse>(`/api/v1/projects/${projectId}/universe`, schemas.projectUniverseSchema, init);
   },
 };
 
@@ -268,42 +520,322 @@ export const evmApi = {
    * GET /api/v1/evm/{projectId}
    * Get EVM metrics for a project
    */
-  getMetrics: (projectId: number, asOfDate?: string): Promise<EVMMetrics> => {
+  getMetrics: (projectId: number, asOfDate?: string, init?: ApiRequestOptions): Promise<EVMMetrics> => {
     const params = asOfDate ? `?asOfDate=${asOfDate}` : '';
-    return apiFetch<EVMMetrics>(`/api/v1/evm/${projectId}${params}`);
+    return apiFetch<EVMMetrics>(`/api/v1/evm/${projectId}${params}`, schemas.evmMetricsSchema, init);
   },
 
   /**
    * GET /api/v1/evm/{projectId}/by-phase
    * Get EVM metrics broken down by E/P/C/COM phase
    */
-  getByPhase: (projectId: number): Promise<{
+  getByPhase: (projectId: number, init?: ApiRequestOptions): Promise<{
     projectId: number;
     phases: EVMByPhase[];
     currency: string;
     currencyLayer: string;
     dataSource: string;
   }> => {
-    return apiFetch(`/api/v1/evm/${projectId}/by-phase`);
+    return apiFetch(`/api/v1/evm/${projectId}/by-phase`, schemas.evmByPhaseResponseSchema, init);
   },
 
   /**
    * GET /api/v1/evm/{projectId}/trend
    * Get EVM trend over time
    */
-  getTrend: (projectId: number, periods = 12): Promise<EVMTrend> => {
-    return apiFetch<EVMTrend>(`/api/v1/evm/${projectId}/trend?periods=${periods}`);
+  getTrend: (projectId: number, periods = 12, init?: ApiRequestOptions): Promise<EVMTrend> => {
+    return apiFetch<EVMTrend>(`/api/v1/evm/${projectId}/trend?periods=${periods}`, schemas.evmTrendSchema, init);
   },
 
   /**
    * GET /api/v1/evm/reference/definitions
    * Get EVM term definitions for reference page
    */
-  getReference: (): Promise<{
+  getReference: (init?: ApiRequestOptions): Promise<{
     definitions: EVMReference[];
     categories: Record<string, string>;
   }> => {
-    return apiFetch(`/api/v1/evm/reference/definitions`);
+    return apiFetch(`/api/v1/evm/reference/definitions`, schemas.evmReferenceResponseSchema, init);
+  },
+
+  /**
+   * GET /api/v1/evm/projects
+   * Get the latest EVM snapshot per project for the analysis table
+   */
+  getProjects: (options?: {
+    tenant?: string;
+    projectId?: string;
+  }, init?: ApiRequestOptions): Promise<{ projects: EVMProjectSnapshot[] }> => {
+    const params = new URLSearchParams();
+    if (options?.tenant) params.set('tenant', options.tenant);
+    if (options?.projectId) params.set('projectId', options.projectId);
+    const queryString = params.toString();
+    return apiFetch(`/api/v1/evm/projects${queryString ? '?' + queryString : ''}`, schemas.evmProjectsResponseSchema, init);
+  },
+};
+
+// =============================================================================
+// CFO API (CFO Insights Center)
+// =============================================================================
+
+export const cfoApi = {
+  /**
+   * GET /api/v1/cfo/health
+   * Returns portfolio health banner and KPI counts
+   */
+  getHealth: (tenant?: string, init?: ApiRequestOptions): Promise<CfoPortfolioHealth> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch<CfoPortfolioHealth>(`/api/v1/cfo/health${params}`, schemas.cfoPortfolioHealthSchema, init);
+  },
+
+  /**
+   * GET /api/v1/cfo/financials
+   * Returns aggregate SAP financials for the portfolio; null before any SAP line has synced
+   */
+  getFinancials: (tenant?: string, init?: ApiRequestOptions): Promise<CfoPortfolioFinancials | null> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/cfo/financials${params}`, s.nullable(schemas.cfoPortfolioFinancialsSchema), init);
+  },
+
+  /**
+   * GET /api/v1/cfo/budgets
+   * Returns per-project BAC, actual cost, earned value and EAC
+   */
+  getBudgets: (tenant?: string, init?: ApiRequestOptions): Promise<{ projects: ProjectBudget[] }> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/cfo/budgets${params}`, schemas.projectBudgetResponseSchema, init);
+  },
+
+  /**
+   * GET /api/v1/cfo/comparison
+   * Returns per-project EVM comparison rows
+   */
+  getComparison: (tenant?: string, init?: ApiRequestOptions): Promise<{ projects: ProjectComparison[] }> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/cfo/comparison${params}`, schemas.projectComparisonResponseSchema, init);
+  },
+};
+
+// =============================================================================
+// PROJECT DASHBOARD API (Single Project View)
+// =============================================================================
+
+export const projectDashboardApi = {
+  /**
+   * GET /api/v1/project/{projectId}
+   * Returns project header and identification
+   */
+  getHeader: (projectId: string, tenant?: string, init?: ApiRequestOptions): Promise<ProjectHeader> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch<ProjectHeader>(`/api/v1/project/${projectId}${params}`, schemas.projectHeaderSchema, init);
+  },
+
+  /**
+   * GET /api/v1/project/{projectId}/performance
+   * Returns CPI/SPI gauges and health score, or null before the first EVM snapshot
+   */
+  getPerformance: (projectId: string, tenant?: string, init?: ApiRequestOptions): Promise<PerformanceMetrics | null> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/project/${projectId}/performance${params}`, s.nullable(schemas.performanceMetricsSchema), init);
+  },
+
+  /**
+   * GET /api/v1/project/{projectId}/domains
+   * Returns EPCIC domain progress
+   */
+  getDomains: (projectId: string, tenant?: string, init?: ApiRequestOptions): Promise<{ domains: ProjectDomainProgress[] }> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/project/${projectId}/domains${params}`, schemas.projectDomainsResponseSchema, init);
+  },
+
+  /**
+   * GET /api/v1/project/{projectId}/budget
+   * Returns budget analytics (BAC, EV, AC, EAC), or null before the first EVM snapshot
+   */
+  getBudget: (projectId: string, tenant?: string, init?: ApiRequestOptions): Promise<BudgetAnalytics | null> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/project/${projectId}/budget${params}`, s.nullable(schemas.budgetAnalyticsSchema), init);
+  },
+
+  /**
+   * GET /api/v1/project/{projectId}/schedule
+   * Returns P6 schedule statistics, or null when no activities have synced
+   */
+  getSchedule: (projectId: string, tenant?: string, init?: ApiRequestOptions): Promise<ScheduleIntelligence | null> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch(`/api/v1/project/${projectId}/schedule${params}`, s.nullable(schemas.scheduleIntelligenceSchema), init);
+  },
+};
+
+// =============================================================================
+// P6 API (Projects Table, WBS Tree, Gantt)
+// =============================================================================
+
+/**
+ * Query parameters for the paginated P6 projects table
+ */
+export interface P6ProjectsQuery {
+  tenant: string;
+  page: number;
+  pageSize: number;
+  sortBy: string;
+  sortDir: 'asc' | 'desc';
+  status?: string | null;
+  epsId?: number | null;
+  search?: string;
+}
+
+/**
+ * P6 data is tenant-scoped by header rather than query string
+ */
+function tenantHeaders(tenant: string, init?: ApiRequestOptions): ApiRequestOptions {
+  return {
+    ...init,
+    headers: {
+      ...init?.headers,
+      'X-Tenant-ID': tenant,
+    },
+  };
+}
+
+export const p6Api = {
+  /**
+   * GET /api/v1/p6/projects
+   * Returns a page of P6 projects with sorting and filters applied
+   */
+  getProjects: (query: P6ProjectsQuery, init?: ApiRequestOptions): Promise<ProjectsResponse> => {
+    const params = new URLSearchParams();
+    params.set('tenant', query.tenant);
+    params.set('page', String(query.page));
+    params.set('pageSize', String(query.pageSize));
+    params.set('sortBy', query.sortBy);
+    params.set('sortDir', query.sortDir);
+    if (query.status) params.set('status', query.status);
+    if (query.epsId) params.set('epsId', String(query.epsId));
+    if (query.search) params.set('search', query.search);
+    return apiFetch<ProjectsResponse>(`/api/v1/p6/projects?${params.toString()}`, schemas.p6ProjectsResponseSchema, init);
+  },
+
+  /**
+   * GET /api/v1/p6/projects/statuses
+   * Returns status filter options with project counts
+   */
+  getProjectStatuses: (tenant: string, init?: ApiRequestOptions): Promise<StatusOption[]> => {
+    return apiFetch<StatusOption[]>(`/api/v1/p6/projects/statuses?tenant=${tenant}`, s.array(schemas.statusOptionSchema), init);
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/wbs
+   * Returns the nested WBS tree for a project
+   */
+  getWbsTree: (projectObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<WBSTreeResponse> => {
+    return apiFetch<WBSTreeResponse>(`/api/v1/p6/projects/${projectObjectId}/wbs`, schemas.wbsTreeResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/wbs/{wbsObjectId}
+   * Returns WBS detail with SAP mapping and financials
+   */
+  getWbsDetail: (wbsObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<WBSDetail> => {
+    return apiFetch<WBSDetail>(`/api/v1/p6/wbs/${wbsObjectId}`, schemas.wbsDetailSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/activities
+   * Returns activities and relationships for the Gantt chart
+   */
+  getActivities: (projectObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<ActivitiesResponse> => {
+    return apiFetch<ActivitiesResponse>(`/api/v1/p6/projects/${projectObjectId}/activities`, schemas.ganttActivitiesResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId}
+   * Returns one activity with its resource assignments and costs
+   */
+  getActivityDetail: (projectObjectId: number, activityObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<ActivityDetailResponse> => {
+    return apiFetch<ActivityDetailResponse>(`/api/v1/p6/projects/${projectObjectId}/activities/${activityObjectId}`, schemas.activityDetailResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/baselines
+   * Returns the P6 baselines and ORION sync snapshots the Gantt can compare against
+   */
+  getBaselines: (projectObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<BaselinesResponse> => {
+    return apiFetch<BaselinesResponse>(`/api/v1/p6/projects/${projectObjectId}/baselines`, schemas.baselinesResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId}
+   * Returns each activity's start and finish in a baseline
+   */
+  getBaselineSchedule: (projectObjectId: number, baselineId: string, tenant: string, init?: ApiRequestOptions): Promise<BaselineScheduleResponse> => {
+    return apiFetch<BaselineScheduleResponse>(`/api/v1/p6/projects/${projectObjectId}/baselines/${encodeURIComponent(baselineId)}`, schemas.baselineScheduleResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/scenarios
+   * Returns the signed-in user's what-if scenarios for the project
+   */
+  getScenarios: (projectObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<ScenariosResponse> => {
+    return apiFetch<ScenariosResponse>(`/api/v1/p6/projects/${projectObjectId}/scenarios`, schemas.scenariosResponseSchema, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * POST /api/v1/p6/projects/{projectObjectId}/scenarios
+   * Saves a new what-if scenario; nothing is written back to P6
+   */
+  createScenario: (projectObjectId: number, scenario: ScenarioInput, tenant: string, init?: ApiRequestOptions): Promise<ScheduleScenario> => {
+    return apiFetch<ScheduleScenario>(`/api/v1/p6/projects/${projectObjectId}/scenarios`, schemas.scheduleScenarioSchema, {
+      ...tenantHeaders(tenant, init),
+      method: 'POST',
+      body: JSON.stringify(scenario),
+    });
+  },
+
+  /**
+   * PUT /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}
+   * Replaces the name and edits of a saved scenario
+   */
+  updateScenario: (projectObjectId: number, scenarioId: number, scenario: ScenarioInput, tenant: string, init?: ApiRequestOptions): Promise<ScheduleScenario> => {
+    return apiFetch<ScheduleScenario>(`/api/v1/p6/projects/${projectObjectId}/scenarios/${scenarioId}`, schemas.scheduleScenarioSchema, {
+      ...tenantHeaders(tenant, init),
+      method: 'PUT',
+      body: JSON.stringify(scenario),
+    });
+  },
+
+  /**
+   * DELETE /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}
+   * Deletes a saved scenario and returns it
+   */
+  deleteScenario: (projectObjectId: number, scenarioId: number, tenant: string, init?: ApiRequestOptions): Promise<ScheduleScenario> => {
+    return apiFetch<ScheduleScenario>(`/api/v1/p6/projects/${projectObjectId}/scenarios/${scenarioId}`, schemas.scheduleScenarioSchema, {
+      ...tenantHeaders(tenant, init),
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * GET /api/v1/p6/projects/{projectObjectId}/export
+   * Downloads the project's schedule as PMXML
+   */
+  exportSchedule: (projectObjectId: number, tenant: string, init?: ApiRequestOptions): Promise<Blob> => {
+    return apiDownload(`/api/v1/p6/projects/${projectObjectId}/export`, tenantHeaders(tenant, init));
+  },
+
+  /**
+   * POST /api/v1/p6/import
+   * Uploads an exported schedule file (XER, PMXML or MSP XML) and loads its projects
+   */
+  importSchedule: (file: Blob, tenant: string, init?: ApiRequestOptions): Promise<ScheduleImportResponse> => {
+    const request = tenantHeaders(tenant, init);
+    return apiFetch<ScheduleImportResponse>('/api/v1/p6/import', schemas.scheduleImportResponseSchema, {
+      timeoutMs: SCHEDULE_IMPORT_TIMEOUT_MS,
+      ...request,
+      method: 'POST',
+      headers: { ...request.headers, 'Content-Type': 'application/octet-stream' },
+      body: file,
+    });
   },
 };
 
@@ -311,44 +843,110 @@ export const evmApi = {
 // SYNC API
 // =============================================================================
 
+export interface SyncJobStreamHandlers {
+  onEvent: (event: SyncJobEvent) => void;
+  /** The stream dropped or sent a malformed event; it is already closed */
+  onError: (error: ApiError) => void;
+}
+
+const SYNC_JOB_EVENT_SCHEMAS: Record<SyncJobEvent['event'], Schema<unknown>> = {
+  progress: schemas.syncJobStatusSchema,
+  entity: schemas.syncEntityProgressSchema,
+  'job-error': schemas.syncJobErrorSchema,
+  done: schemas.syncJobStatusSchema,
+};
+
 export const syncApi = {
   /**
    * POST /api/v1/sync/trigger
    * Trigger a sync operation
    */
-  trigger: (request: SyncRequest, authToken: string): Promise<SyncResponse> => {
-    return apiFetch<SyncResponse>('/api/v1/sync/trigger', {
+  trigger: (request: SyncRequest, authToken?: string, init?: ApiRequestOptions): Promise<SyncResponse> => {
+    return apiFetch<SyncResponse>('/api/v1/sync/trigger', schemas.syncResponseSchema, {
+      ...init,
       method: 'POST',
       headers: {
-        Authorization: `Bearer ${authToken}`,
+        ...init?.headers,
+        // Same-origin requests carry the Clerk session cookie instead
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
       },
       body: JSON.stringify(request),
     });
   },
 
+  /**
+   * GET /api/v1/sync/status
+   * Returns P6/SAP connection status for the dashboard card
+   */
+  getStatus: (tenant?: string, init?: ApiRequestOptions): Promise<DashboardSyncStatus> => {
+    const params = tenant ? `?tenant=${tenant}` : '';
+    return apiFetch<DashboardSyncStatus>(`/api/v1/sync/status${params}`, schemas.dashboardSyncStatusSchema, init);
+  },
+
   /**
    * GET /api/v1/sync/jobs/{jobId}
    * Get status of a specific sync job
    */
-  getJobStatus: (jobId: string): Promise<SyncJobStatus> => {
-    return apiFetch<SyncJobStatus>(`/api/v1/sync/jobs/${jobId}`);
+  getJobStatus: (jobId: string, init?: ApiRequestOptions): Promise<SyncJobStatus> => {
+    return apiFetch<SyncJobStatus>(`/api/v1/sync/jobs/${jobId}`, schemas.syncJobStatusSchema, init);
+  },
+
+  /**
+   * GET /api/v1/sync/jobs/{jobId}/events (text/event-stream)
+   * Streams progress, per-entity counts and errors until the job finishes.
+   * EventSource cannot set headers, so the data mode travels as ?dataMode=.
+   * Returns a function that closes the stream.
+   */
+  streamJobEvents: (jobId: string, handlers: SyncJobStreamHandlers, dataMode?: DataMode): (() => void) => {
+    const endpoint = `/api/v1/sync/jobs/${jobId}/events`;
+    const source = new EventSource(`${API_BASE}${endpoint}${dataMode ? `?dataMode=${dataMode}` : ''}`);
+    let closed = false;
+    const close = () => {
+      closed = true;
+      source.close();
+    };
+    const fail = (error: ApiError) => {
+      if (closed) return;
+      close();
+      handlers.onError(error);
+    };
+
+    for (const [name, schema] of Object.entries(SYNC_JOB_EVENT_SCHEMAS) as [SyncJobEvent['event'], Schema<unknown>][]) {
+      source.addEventListener(name, (message) => {
+        if (closed) return;
+        let data: unknown;
+        try {
+          data = validateResponse(endpoint, schema, JSON.parse((message as MessageEvent<string>).data));
+        } catch (error) {
+          fail(isApiError(error) ? error : new ApiError({ kind: 'contract', endpoint, message: `Malformed ${name} event`, cause: error }));
+          return;
+        }
+        if (name === 'done') close();
+        handlers.onEvent({ event: name, data } as SyncJobEvent);
+      });
+    }
+    // EventSource reports drops without detail and would reconnect on its own;
+    // close it so the caller decides between reconnecting and polling
+    source.onerror = () => fail(new ApiError({ kind: 'network', endpoint, message: 'Sync event stream disconnected' }));
+
+    return close;
   },
 
   /**
    * GET /api/v1/sync/jobs
    * List recent sync jobs
    */
-  listJobs: (limit = 10): Promise<{ jobs: SyncJobStatus[]; total: number }> => {
-    return apiFetch(`/api/v1/sync/jobs?limit=${limit}`);
+  listJobs: (limit = 10, init?: ApiRequestOptions): Promise<{ jobs: SyncJobStatus[]; total: number }> => {
+    return apiFetch(`/api/v1/sync/jobs?limit=${limit}`, schemas.syncJobListSchema, init);
   },
 
   /**
    * GET /api/v1/sync/dashboard
    * Returns sync dashboard data
    */
-  getDashboard: (tenant?: string): Promise<SyncDashboard> => {
+  getDashboard: (tenant?: string, init?: ApiRequestOptions): Promise<SyncDashboard> => {
     const params = tenant ? `?tenant=${tenant}` : '';
-    return apiFetch<SyncDashboard>(`/api/v1/sync/dashboard${params}`);
+    return apiFetch<SyncDashboard>(`/api/v1/sync/dashboard${params}`, schemas.syncDashboardSchema, init);
   },
 
   /**
@@ -360,14 +958,14 @@ export const syncApi = {
     pageSize?: number;
     status?: string;
     batchType?: string;
-  }): Promise<SyncHistory> => {
+  }, init?: ApiRequestOptions): Promise<SyncHistory> => {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.pageSize) params.set('pageSize', options.pageSize.toString());
     if (options?.status) params.set('status', options.status);
     if (options?.batchType) params.set('batchType', options.batchType);
     const queryString = params.toString();
-    return apiFetch<SyncHistory>(`/api/v1/sync/history${queryString ? '?' + queryString : ''}`);
+    return apiFetch<SyncHistory>(`/api/v1/sync/history${queryString ? '?' + queryString : ''}`, schemas.syncHistorySchema, init);
   },
 
   /**
@@ -380,7 +978,7 @@ export const syncApi = {
     unresolvedOnly?: boolean;
     source?: string;
     errorType?: string;
-  }): Promise<SyncErrorList> => {
+  }, init?: ApiRequestOptions): Promise<SyncErrorList> => {
     const params = new URLSearchParams();
     if (options?.page) params.set('page', options.page.toString());
     if (options?.pageSize) params.set('pageSize', options.pageSize.toString());
@@ -388,7 +986,7 @@ export const syncApi = {
     if (options?.source) params.set('source', options.source);
     if (options?.errorType) params.set('errorType', options.errorType);
     const queryString = params.toString();
-    return apiFetch<SyncErrorList>(`/api/v1/sync/errors${queryString ? '?' + queryString : ''}`);
+    return apiFetch<SyncErrorList>(`/api/v1/sync/errors${queryString ? '?' + queryString : ''}`, schemas.syncErrorListSchema, init);
   },
 
   /**
@@ -397,17 +995,89 @@ export const syncApi = {
    */
   resolveError: (
     errorId: string,
-    authToken: string
+    authToken: string,
+    init?: ApiRequestOptions
   ): Promise<{ success: boolean; errorId: string; resolved: boolean }> => {
-    return apiFetch(`/api/v1/sync/errors/${errorId}/resolve`, {
+    return apiFetch(`/api/v1/sync/errors/${errorId}/resolve`, schemas.resolveErrorResponseSchema, {
+      ...init,
       method: 'POST',
       headers: {
+        ...init?.headers,
         Authorization: `Bearer ${authToken}`,
       },
     });
   },
 };
 
+// =============================================================================
+// SETTINGS API
+// =============================================================================
+
+export const settingsApi = {
+  /**
+   * GET /api/v1/settings
+   * Returns connections, sync config, preferences and tenant config
+   */
+  get: (tenantId: string, userId: string, init?: ApiRequestOptions): Promise<SettingsResponse> => {
+    return apiFetch<SettingsResponse>(`/api/v1/settings?tenantId=${tenantId}&userId=${userId}`, schemas.settingsResponseSchema, init);
+  },
+
+  /**
+   * PUT /api/v1/settings/connections/p6
+   */
+  saveP6Connection: (config: Partial<P6ConnectionConfig>, init?: ApiRequestOptions): Promise<SaveSettingsResult> => {
+    return apiFetch<SaveSettingsResult>('/api/v1/settings/connections/p6', schemas.saveSettingsResultSchema, {
+      ...init,
+      method: 'PUT',
+      body: JSON.stringify(config),
+    });
+  },
+
+  /**
+   * PUT /api/v1/settings/connections/sap
+   */
+  saveSapConnection: (config: Partial<SAPConnectionConfig>, init?: ApiRequestOptions): Promise<SaveSettingsResult> => {
+    return apiFetch<SaveSettingsResult>('/api/v1/settings/connections/sap', schemas.saveSettingsResultSchema, {
+      ...init,
+      method: 'PUT',
+      body: JSON.stringify(config),
+    });
+  },
+
+  /**
+   * POST /api/v1/settings/connections/{system}/test
+   * Test the saved P6 or SAP connection
+   */
+  testConnection: (system: 'p6' | 'sap', init?: ApiRequestOptions): Promise<ConnectionTestResult> => {
+    return apiFetch<ConnectionTestResult>(`/api/v1/settings/connections/${system}/test`, schemas.connectionTestResultSchema, {
+      ...init,
+      method: 'POST',
+    });
+  },
+
+  /**
+   * PUT /api/v1/settings/sync
+   */
+  saveSyncConfig: (config: Partial<SyncConfig>, init?: ApiRequestOptions): Promise<SaveSettingsResult> => {
+    return apiFetch<SaveSettingsResult>('/api/v1/settings/sync', schemas.saveSettingsResultSchema, {
+      ...init,
+      method: 'PUT',
+      body: JSON.stringify(config),
+    });
+  },
+
+  /**
+   * PUT /api/v1/settings/preferences
+   */
+  savePreferences: (preferences: Partial<UserPreferences>, init?: ApiRequestOptions): Promise<SaveSettingsResult> => {
+    return apiFetch<SaveSettingsResult>('/api/v1/settings/preferences', schemas.saveSettingsResultSchema, {
+      ...init,
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+    });
+  },
+};
+
 // =============================================================================
 // HEALTH API
 // =============================================================================
@@ -417,16 +1087,16 @@ export const healthApi = {
    * GET /health
    * Health check endpoint
    */
-  check: (): Promise<{ status: string; timestamp: string }> => {
-    return apiFetch('/health');
+  check: (init?: ApiRequestOptions): Promise<{ status: string; timestamp: string }> => {
+    return apiFetch('/health', schemas.healthCheckSchema, init);
   },
 
   /**
    * GET /ready
    * Readiness check endpoint
    */
-  ready: (): Promise<{ status: string; services: Record<string, string> }> => {
-    return apiFetch('/ready');
+  ready: (init?: ApiRequestOptions): Promise<{ status: string; services: Record<string, string> }> => {
+    return apiFetch('/ready', schemas.readinessSchema, init);
   },
 };
 
@@ -438,7 +1108,11 @@ export const api = {
   portfolio: portfolioApi,
   projects: projectsApi,
   evm: evmApi,
+  cfo: cfoApi,
+  projectDashboard: projectDashboardApi,
+  p6: p6Api,
   sync: syncApi,
+  settings: settingsApi,
   health: healthApi,
 };
 
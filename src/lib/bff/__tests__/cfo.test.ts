@@ -0,0 +1,216 @@
+/**
+ * CFO BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - Portfolio health counts, averages and worst-project status
+ * - SAP totals summed in the database and net cash position
+ * - 409 MIXED_CURRENCY instead of adding amounts across currencies (CURRENCY-001)
+ * - Budget and comparison rows with the on_track/at_risk/critical rating
+ * - Unrated projects and null financials instead of invented values (DATA-001)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { callsOn, queries, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import { GET as getHealth } from '@/app/api/v1/cfo/health/route';
+import { GET as getFinancials } from '@/app/api/v1/cfo/financials/route';
+import { GET as getBudgets } from '@/app/api/v1/cfo/budgets/route';
+import { GET as getComparison } from '@/app/api/v1/cfo/comparison/route';
+
+/** On track (1.0 / 1.0), at risk (SPI 0.92), critical (CPI 0.8) and one project without a snapshot */
+const portfolio = () => ({
+  projects: [
+    rows([
+      { object_id: 1, project_name: 'Alpha', percent_complete: 50 },
+      { object_id: 2, project_name: 'Bravo', percent_complete: 46 },
+      { object_id: 3, project_name: 'Charlie', percent_complete: 40 },
+      { object_id: 4, project_name: 'Delta', percent_complete: 0 },
+    ]),
+  ],
+  project_snapshots: [
+    rows([
+      { project_object_id: 1, snapshot_date: '2025-06-30', bac: 1000, pv: 500, ev: 500, ac: 500 },
+      { project_object_id: 2, snapshot_date: '2025-06-30', bac: 1000, pv: 500, ev: 460, ac: 460 },
+      { project_object_id: 3, snapshot_date: '2025-06-30', bac: 1000, pv: 400, ev: 400, ac: 500 },
+      { project_object_id: 1, snapshot_date: '2025-05-31', bac: 1000, pv: 400, ev: 100, ac: 900 },
+    ]),
+  ],
+});
+
+function request(path: string, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost/api/v1/cfo/${path}`, { headers });
+}
+
+const noParams = { params: Promise.resolve({}) };
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+// ============================================================================
+// GET /api/v1/cfo/health
+// ============================================================================
+
+describe('GET /api/v1/cfo/health', () => {
+  it('counts rated projects and takes the worst status for the portfolio', async () => {
+    respondWith(portfolio());
+
+    const response = await getHealth(request('health'), noParams);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      status: 'CRITICAL',
+      avgCPI: 0.93,
+      avgSPI: 0.97,
+      totalProjects: 4,
+      onTrackCount: 1,
+      atRiskCount: 1,
+      criticalCount: 1,
+    });
+    expect(callsOn('project_snapshots')).toContainEqual(['in', 'project_object_id', [1, 2, 3, 4]]);
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    }
+  });
+
+  it('reports NO_DATA with null averages before any snapshot', async () => {
+    respondWith({ projects: [rows([{ object_id: 1, project_name: 'Alpha', percent_complete: 0 }])] });
+
+    const response = await getHealth(request('health'), noParams);
+
+    await expect(response.json()).resolves.toEqual({
+      status: 'NO_DATA',
+      avgCPI: null,
+      avgSPI: null,
+      totalProjects: 1,
+      onTrackCount: 0,
+      atRiskCount: 0,
+      criticalCount: 0,
+    });
+  });
+
+  it('answers 403 without a tenant', async () => {
+    const response = await getHealth(request('health', {}), noParams);
+
+    expect(response.status).toBe(403);
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// GET /api/v1/cfo/financials
+// ============================================================================
+
+describe('GET /api/v1/cfo/financials', () => {
+  it('sums SAP lines and nets revenue against actual costs', async () => {
+    respondWith({
+      ...portfolio(),
+      sap_actuals: [
+        rows([
+          { hsl: 1200, rhcur: 'NGN' },
+          { hsl: 300.25, rhcur: 'NGN' },
+        ]),
+      ],
+      sap_commitments: [rows([{ hsl: 400, rhcur: 'NGN' }])],
+      sap_revenue: [rows([{ hsl: 1000, rhcur: 'NGN' }])],
+    });
+
+    const response = await getFinancials(request('financials'), noParams);
+
+    await expect(response.json()).resolves.toEqual({
+      totalBAC: 3000,
+      actualCosts: 1500.25,
+      openCommitments: 400,
+      revenueReceived: 1000,
+      netCashPosition: -500.25,
+      currency: 'NGN',
+    });
+    expect(callsOn('sap_actuals')).toContainEqual(['select', 'rhcur, hsl:hsl.sum()']);
+    expect(callsOn('sap_actuals')).toContainEqual(['not', 'posid', 'is', null]);
+    expect(callsOn('sap_commitments')).toContainEqual(['not', 'posid', 'is', null]);
+    expect(callsOn('sap_revenue')).not.toContainEqual(['not', 'posid', 'is', null]);
+  });
+
+  it('refuses to add NGN and USD lines into one total', async () => {
+    respondWith({
+      ...portfolio(),
+      sap_actuals: [rows([{ hsl: 1200, rhcur: 'NGN' }])],
+      sap_revenue: [rows([{ hsl: 1000, rhcur: 'USD' }])],
+    });
+
+    const response = await getFinancials(request('financials'), noParams);
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ code: 'MIXED_CURRENCY' });
+  });
+
+  it('returns null before any SAP line has synced', async () => {
+    respondWith(portfolio());
+
+    const response = await getFinancials(request('financials'), noParams);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toBeNull();
+  });
+});
+
+// ============================================================================
+// GET /api/v1/cfo/budgets AND /comparison
+// ============================================================================
+
+describe('GET /api/v1/cfo/budgets', () => {
+  it('lists rated projects with the EAC forecast', async () => {
+    respondWith(portfolio());
+
+    const response = await getBudgets(request('budgets'), noParams);
+
+    await expect(response.json()).resolves.toEqual({
+      projects: [
+        { projectId: '1', projectName: 'Alpha', bac: 1000, actualCost: 500, earnedValue: 500, eac: 1000 },
+        { projectId: '2', projectName: 'Bravo', bac: 1000, actualCost: 460, earnedValue: 460, eac: 1000 },
+        { projectId: '3', projectName: 'Charlie', bac: 1000, actualCost: 500, earnedValue: 400, eac: 1250 },
+      ],
+    });
+  });
+});
+
+describe('GET /api/v1/cfo/comparison', () => {
+  it('rates each project from its latest snapshot', async () => {
+    respondWith(portfolio());
+
+    const response = await getComparison(request('comparison'), noParams);
+
+    const { projects } = await response.json();
+    expect(projects.map((project: { status: string }) => project.status)).toEqual(['on_track', 'at_risk', 'critical']);
+    expect(projects[2]).toEqual({
+      projectId: '3',
+      projectName: 'Charlie',
+      percentComplete: 40,
+      spi: 1,
+      cpi: 0.8,
+      bac: 1000,
+      ac: 500,
+      ev: 400,
+      eac: 1250,
+      vac: -250,
+      status: 'critical',
+    });
+  });
+
+  it('leaves indices and status null when AC is zero', async () => {
+    respondWith({
+      projects: [rows([{ object_id: 1, project_name: 'Alpha', percent_complete: 0 }])],
+      project_snapshots: [
+        rows([{ project_object_id: 1, snapshot_date: '2025-06-30', bac: 1000, pv: 100, ev: 0, ac: 0 }]),
+      ],
+    });
+
+    const response = await getComparison(request('comparison'), noParams);
+
+    await expect(response.json()).resolves.toEqual({
+      projects: [expect.objectContaining({ spi: 0, cpi: null, eac: null, vac: null, status: null })],
+    });
+  });
+});
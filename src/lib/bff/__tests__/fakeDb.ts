@@ -0,0 +1,74 @@
+/**
+ * Fake Database for BFF Route Tests
+ * @governance COMPONENT-001
+ *
+ * Stands in for the Supabase query builder behind fromTable(): every
+ * builder call is recorded and the query resolves to a canned result when
+ * awaited. Importing this module mocks Clerk, next/navigation and the db
+ * module's fromTable and callFunction, so import it before the routes under
+ * test.
+ */
+
+import { vi } from 'vitest';
+
+vi.mock('@clerk/nextjs/server', () => ({ auth: vi.fn() }));
+vi.mock('next/navigation', () => ({ redirect: vi.fn() }));
+vi.mock('../../db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../db')>()),
+  fromTable: vi.fn(),
+  callFunction: vi.fn(),
+}));
+
+import { fromTable, type MappedTable } from '../../db';
+
+export type QueryResult = { data: unknown; error: { code?: string; message: string } | null; count?: number | null };
+
+export type QueryCall = [string, ...unknown[]];
+
+/** Records every builder call and resolves to `result` when awaited */
+export function fakeQuery(result: QueryResult) {
+  const calls: QueryCall[] = [];
+  const builder: unknown = new Proxy(
+    {},
+    {
+      get(_, method: string) {
+        if (method === 'then') {
+          return (resolve: (value: QueryResult) => void) => resolve(result);
+        }
+        return (...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        };
+      },
+    }
+  );
+  return { builder, calls };
+}
+
+/** Every query since the last respondWith / respondInOrder, in call order */
+export const queries: { table: MappedTable; calls: QueryCall[] }[] = [];
+
+/** Answers each table's queries in order; unlisted tables return no rows */
+export function respondWith(tables: Partial<Record<MappedTable, QueryResult[]>>) {
+  queries.length = 0;
+  vi.mocked(fromTable).mockImplementation((_, table) => {
+    const query = fakeQuery(tables[table]?.shift() ?? { data: [], error: null, count: 0 });
+    queries.push({ table, calls: query.calls });
+    return query.builder as ReturnType<typeof fromTable>;
+  });
+}
+
+/** Answers the queries in call order, whatever their table */
+export function respondInOrder(...results: QueryResult[]) {
+  queries.length = 0;
+  vi.mocked(fromTable).mockImplementation((_, table) => {
+    const query = fakeQuery(results[queries.length]);
+    queries.push({ table, calls: query.calls });
+    return query.builder as ReturnType<typeof fromTable>;
+  });
+}
+
+export const rows = (data: unknown[]): QueryResult => ({ data, error: null });
+
+/** Builder calls of the first query on `table` */
+export const callsOn = (table: MappedTable) => queries.find((query) => query.table === table)?.calls ?? [];
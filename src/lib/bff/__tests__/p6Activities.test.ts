@@ -0,0 +1,335 @@
+/**
+ * P6 Activities BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - ActivitiesResponse shape with normalized status, type and relationships
+ * - Predecessor/successor arrays
+ * - WBS, date-window and critical-only filters
+ * - 404s for unknown projects and WBS elements, 422 for bad filters
+ * - Activity detail with resource assignments and costs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { callsOn, queries, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import {
+  normalizeActivityStatus,
+  normalizeRelationshipType,
+  type ActivityTableRow,
+  type RelationshipTableRow,
+} from '../p6Activities';
+import { GET as getActivities } from '@/app/api/v1/p6/projects/[projectObjectId]/activities/route';
+import { GET as getActivityDetail } from '@/app/api/v1/p6/projects/[projectObjectId]/activities/[activityObjectId]/route';
+
+const project = rows([{ data_date: '2025-06-30' }]);
+
+function activity(objectId: number, overrides: Partial<ActivityTableRow> = {}): ActivityTableRow {
+  return {
+    id: `act-${objectId}`,
+    object_id: objectId,
+    project_object_id: 10481,
+    wbs_object_id: 1,
+    activity_code: `A${objectId}`,
+    activity_name: `Activity ${objectId}`,
+    activity_type: 'TT_Task',
+    status: 'NotStarted',
+    percent_complete: 0,
+    planned_start: '2025-01-06',
+    planned_finish: '2025-02-28',
+    actual_start: null,
+    actual_finish: null,
+    planned_duration: 40,
+    remaining_duration: 40,
+    total_float: 10,
+    ...overrides,
+  };
+}
+
+function link(predecessor: number, successor: number, type = 'PR_FS', lag: number | null = 0): RelationshipTableRow {
+  return { predecessor_activity_object_id: predecessor, successor_activity_object_id: successor, type, lag };
+}
+
+function request(query = '', headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost/api/v1/p6/projects/10481/activities${query}`, { headers });
+}
+
+const params = (projectObjectId = '10481') => ({ params: Promise.resolve({ projectObjectId }) });
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+describe('normalizeActivityStatus', () => {
+  it.each([
+    ['NotStarted', 'not_started'],
+    ['Not Started', 'not_started'],
+    ['In Progress', 'in_progress'],
+    ['InProgress', 'in_progress'],
+    ['Completed', 'complete'],
+    ['complete', 'complete'],
+  ] as const)('maps %s to %s', (status, expected) => {
+    expect(normalizeActivityStatus({ status, actual_start: null, actual_finish: null })).toBe(expected);
+  });
+
+  it('falls back to actual dates for unknown statuses', () => {
+    expect(normalizeActivityStatus({ status: null, actual_start: '2025-01-06', actual_finish: null })).toBe(
+      'in_progress'
+    );
+    expect(normalizeActivityStatus({ status: '?', actual_start: '2025-01-06', actual_finish: '2025-02-01' })).toBe(
+      'complete'
+    );
+  });
+});
+
+describe('normalizeRelationshipType', () => {
+  it.each([
+    ['PR_SS', 'SS'],
+    ['Finish to Finish', 'FF'],
+    ['SF', 'SF'],
+    ['unknown', 'FS'],
+  ] as const)('maps %s to %s', (type, expected) => {
+    expect(normalizeRelationshipType(type)).toBe(expected);
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/{projectObjectId}/activities
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/activities', () => {
+  it('returns activities, relationships and the data date', async () => {
+    respondWith({
+      projects: [project],
+      activities: [
+        rows([
+          activity(11, {
+            status: 'Completed',
+            percent_complete: 100,
+            actual_start: '2025-01-06',
+            actual_finish: '2025-02-27',
+          }),
+          activity(12, {
+            activity_type: 'TT_FinMile',
+            total_float: 0,
+            percent_complete: null,
+            planned_duration: null,
+            remaining_duration: null,
+          }),
+        ]),
+      ],
+      activity_relationships: [rows([link(11, 12, 'Start to Start', -2)])],
+    });
+
+    const response = await getActivities(request(), params());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      activities: [
+        {
+          id: 'act-11',
+          objectId: 11,
+          wbsObjectId: 1,
+          activityId: 'A11',
+          name: 'Activity 11',
+          activityType: 'Task Dependent',
+          status: 'complete',
+          percentComplete: 100,
+          plannedStart: '2025-01-06',
+          plannedFinish: '2025-02-28',
+          actualStart: '2025-01-06',
+          actualFinish: '2025-02-27',
+          plannedDuration: 40,
+          remainingDuration: 40,
+          totalFloat: 10,
+          isCritical: false,
+          isMilestone: false,
+          predecessors: [],
+          successors: [12],
+        },
+        expect.objectContaining({
+          objectId: 12,
+          activityType: 'Finish Milestone',
+          status: 'not_started',
+          // Missing in P6, so missing here rather than zero (DATA-001)
+          percentComplete: null,
+          plannedDuration: null,
+          remainingDuration: null,
+          isCritical: true,
+          isMilestone: true,
+          predecessors: [11],
+          successors: [],
+        }),
+      ],
+      relationships: [{ predecessorObjectId: 11, successorObjectId: 12, type: 'SS', lag: -2 }],
+      dataDate: '2025-06-30',
+      totalCount: 2,
+    });
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    }
+    expect(callsOn('activities')).toContainEqual(['eq', 'project_object_id', 10481]);
+  });
+
+  it('keeps full logic on activities but only drawable relationships', async () => {
+    respondWith({
+      projects: [project],
+      activities: [rows([activity(12, { total_float: -1 })])],
+      activity_relationships: [rows([link(11, 12), link(12, 13)])],
+    });
+
+    const response = await getActivities(request('?criticalOnly=true'), params());
+
+    const body = await response.json();
+    expect(body.activities[0]).toMatchObject({ predecessors: [11], successors: [13] });
+    expect(body.relationships).toEqual([]);
+    expect(callsOn('activities')).toContainEqual(['lte', 'total_float', 0]);
+  });
+
+  it('filters to a WBS element and its descendants', async () => {
+    respondWith({
+      projects: [project],
+      wbs: [
+        rows([
+          { object_id: 1, parent_object_id: null },
+          { object_id: 2, parent_object_id: 1 },
+          { object_id: 3, parent_object_id: 2 },
+          { object_id: 4, parent_object_id: 1 },
+        ]),
+      ],
+    });
+
+    await getActivities(request('?wbsObjectId=2'), params());
+
+    expect(callsOn('activities')).toContainEqual(['in', 'wbs_object_id', [2, 3]]);
+  });
+
+  it('keeps activities overlapping the date window', async () => {
+    respondWith({ projects: [project] });
+
+    await getActivities(request('?from=2025-03-01&to=2025-03-31'), params());
+
+    expect(callsOn('activities')).toContainEqual(['gte', 'planned_finish', '2025-03-01']);
+    expect(callsOn('activities')).toContainEqual(['lte', 'planned_start', '2025-03-31']);
+  });
+
+  it('answers 404 for an unknown project', async () => {
+    respondWith({});
+
+    const response = await getActivities(request(), params('999'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('answers 404 for a WBS element outside the project', async () => {
+    respondWith({ projects: [project], wbs: [rows([{ object_id: 1, parent_object_id: null }])] });
+
+    const response = await getActivities(request('?wbsObjectId=77'), params());
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'WBS_NOT_FOUND' });
+  });
+
+  it.each([
+    ['?from=03/01/2025', 'from'],
+    ['?from=2025-04-01&to=2025-03-01', 'from'],
+    ['?criticalOnly=yes', 'criticalOnly'],
+    ['?wbsObjectId=x', 'wbsObjectId'],
+  ])('rejects %s with a 422', async (query, name) => {
+    const response = await getActivities(request(query), params());
+
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.code).toBe('VALIDATION_ERROR');
+    expect(body.detail).toContain(name);
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId}
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId}', () => {
+  const detailRequest = (activityObjectId = '12') =>
+    new NextRequest(`http://localhost/api/v1/p6/projects/10481/activities/${activityObjectId}`, {
+      headers: { 'X-Tenant-ID': 'tenant-001' },
+    });
+  const detailParams = (activityObjectId = '12') => ({
+    params: Promise.resolve({ projectObjectId: '10481', activityObjectId }),
+  });
+
+  it('returns the activity with its resource assignments and costs, null where P6 has none', async () => {
+    respondWith({
+      activities: [
+        rows([
+          {
+            ...activity(12, { total_float: 0 }),
+            planned_total_cost: 12500,
+            actual_total_cost: 4000.5,
+            remaining_total_cost: null,
+          },
+        ]),
+      ],
+      activity_relationships: [rows([link(11, 12), link(12, 13, 'PR_SS')])],
+      resource_assignments: [
+        rows([
+          { object_id: 1, resource_object_id: 7, resource_name: 'Crane Crew', role_name: 'Rigger', planned_units: 80 },
+          { object_id: 2, resource_object_id: null, resource_name: null, role_name: 'Inspector', planned_units: null },
+        ]),
+      ],
+    });
+
+    const response = await getActivityDetail(detailRequest(), detailParams());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      activity: expect.objectContaining({
+        objectId: 12,
+        activityId: 'A12',
+        totalFloat: 0,
+        isCritical: true,
+        predecessors: [11],
+        successors: [13],
+      }),
+      resources: [
+        { name: 'Crane Crew', role: 'Rigger', units: 80 },
+        { name: 'Unassigned', role: 'Inspector', units: null },
+      ],
+      costs: { plannedCost: 12500, actualCost: 4000.5, remainingCost: null },
+    });
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+      expect(calls).toContainEqual(['eq', 'project_object_id', 10481]);
+    }
+    expect(callsOn('activities')).toContainEqual(['eq', 'object_id', 12]);
+    expect(callsOn('resource_assignments')).toContainEqual(['eq', 'activity_object_id', 12]);
+    expect(callsOn('activity_relationships')).toContainEqual([
+      'or',
+      'predecessor_activity_object_id.eq.12,successor_activity_object_id.eq.12',
+    ]);
+  });
+
+  it('answers 404 for an activity outside the project', async () => {
+    respondWith({});
+
+    const response = await getActivityDetail(detailRequest('99'), detailParams('99'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'ACTIVITY_NOT_FOUND' });
+  });
+
+  it('rejects a non-numeric activity ID with a 422', async () => {
+    const response = await getActivityDetail(detailRequest('abc'), detailParams('abc'));
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
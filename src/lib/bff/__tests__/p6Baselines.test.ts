@@ -0,0 +1,243 @@
+/**
+ * P6 Baselines BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - P6 baseline projects listed before ORION sync snapshots
+ * - Baseline activities matched by activity ID, snapshots by object ID
+ * - Actual dates preferred over planned dates
+ * - 404s for unknown projects and foreign baselines, 422 for bad IDs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { queries, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import { parseBaselineId, type BaselineActivityRow } from '../p6Baselines';
+import { GET as getBaselines } from '@/app/api/v1/p6/projects/[projectObjectId]/baselines/route';
+import { GET as getBaseline } from '@/app/api/v1/p6/projects/[projectObjectId]/baselines/[baselineId]/route';
+
+function activityDates(
+  objectId: number,
+  code: string,
+  overrides: Partial<BaselineActivityRow> = {}
+): BaselineActivityRow {
+  return {
+    object_id: objectId,
+    activity_code: code,
+    planned_start: '2025-01-06',
+    planned_finish: '2025-01-17',
+    actual_start: null,
+    actual_finish: null,
+    ...overrides,
+  };
+}
+
+function request(path: string, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost${path}`, { headers });
+}
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+describe('parseBaselineId', () => {
+  it('splits the source from the ID', () => {
+    expect(parseBaselineId('p6-5001')).toEqual({ source: 'p6', id: 5001 });
+    expect(parseBaselineId('sync-12')).toEqual({ source: 'sync', id: 12 });
+  });
+
+  it.each(['5001', 'p6-', 'sync-0', 'p6-1.5', 'other-3'])('rejects %s', (value) => {
+    expect(() => parseBaselineId(value)).toThrow('baselineId must be');
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/{projectObjectId}/baselines
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/baselines', () => {
+  const params = (projectObjectId: string) => ({
+    params: Promise.resolve({ projectObjectId }),
+  });
+
+  it('lists P6 baselines before sync snapshots', async () => {
+    respondWith({
+      projects: [rows([{ object_id: 10481 }])],
+      baseline_projects: [
+        rows([
+          {
+            object_id: 5001,
+            original_project_object_id: 10481,
+            name: 'Contract Baseline',
+            baseline_type: 'Initial Planning Baseline',
+            last_update_date: '2025-01-02T08:00:00Z',
+          },
+        ]),
+      ],
+      schedule_snapshots: [
+        rows([
+          {
+            snapshot_id: 12,
+            project_object_id: 10481,
+            batch_id: 'batch-12',
+            captured_at: '2025-03-01T06:00:00Z',
+          },
+        ]),
+      ],
+    });
+
+    const response = await getBaselines(request('/api/v1/p6/projects/10481/baselines'), params('10481'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      baselines: [
+        {
+          id: 'p6-5001',
+          source: 'p6',
+          name: 'Contract Baseline',
+          baselineType: 'Initial Planning Baseline',
+          date: '2025-01-02T08:00:00Z',
+        },
+        {
+          id: 'sync-12',
+          source: 'sync',
+          name: 'ORION sync 2025-03-01',
+          baselineType: null,
+          date: '2025-03-01T06:00:00Z',
+        },
+      ],
+    });
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    }
+    expect(queries.find((query) => query.table === 'baseline_projects')?.calls).toContainEqual([
+      'eq',
+      'original_project_object_id',
+      10481,
+    ]);
+  });
+
+  it('answers 404 for an unknown project', async () => {
+    respondWith({});
+
+    const response = await getBaselines(request('/api/v1/p6/projects/999/baselines'), params('999'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'PROJECT_NOT_FOUND',
+    });
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId}
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId}', () => {
+  const params = (projectObjectId: string, baselineId: string) => ({
+    params: Promise.resolve({ projectObjectId, baselineId }),
+  });
+
+  it('matches P6 baseline activities to the project by activity ID', async () => {
+    respondWith({
+      baseline_projects: [
+        rows([
+          {
+            object_id: 5001,
+            original_project_object_id: 10481,
+            name: 'Contract Baseline',
+            baseline_type: null,
+            last_update_date: null,
+          },
+        ]),
+      ],
+      activities: [
+        rows([
+          { object_id: 1, activity_code: 'A1000' },
+          { object_id: 2, activity_code: 'A1010' },
+          { object_id: 3, activity_code: 'A1020' },
+        ]),
+        rows([
+          activityDates(9001, 'A1000', { actual_start: '2025-01-08', actual_finish: '2025-01-20' }),
+          activityDates(9002, 'A1010', { planned_start: '2025-01-20', planned_finish: '2025-02-07' }),
+        ]),
+      ],
+    });
+
+    const response = await getBaseline(
+      request('/api/v1/p6/projects/10481/baselines/p6-5001'),
+      params('10481', 'p6-5001')
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.baseline).toMatchObject({ id: 'p6-5001', source: 'p6' });
+    expect(body.activities).toEqual([
+      { objectId: 1, start: '2025-01-08', finish: '2025-01-20' },
+      { objectId: 2, start: '2025-01-20', finish: '2025-02-07' },
+    ]);
+    const [current, baseline] = queries.filter((query) => query.table === 'activities');
+    expect(current.calls).toContainEqual(['eq', 'project_object_id', 10481]);
+    expect(baseline.calls).toContainEqual(['eq', 'project_object_id', 5001]);
+  });
+
+  it('returns sync snapshot dates by activity object ID', async () => {
+    respondWith({
+      schedule_snapshots: [
+        rows([
+          {
+            snapshot_id: 12,
+            project_object_id: 10481,
+            batch_id: 'batch-12',
+            captured_at: '2025-03-01T06:00:00Z',
+          },
+        ]),
+      ],
+      activity_snapshots: [rows([activityDates(1, 'A1000', { actual_start: '2025-01-07' })])],
+    });
+
+    const response = await getBaseline(
+      request('/api/v1/p6/projects/10481/baselines/sync-12'),
+      params('10481', 'sync-12')
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      baseline: { id: 'sync-12', source: 'sync' },
+      activities: [{ objectId: 1, start: '2025-01-07', finish: '2025-01-17' }],
+    });
+    expect(queries.find((query) => query.table === 'activity_snapshots')?.calls).toContainEqual([
+      'eq',
+      'snapshot_id',
+      12,
+    ]);
+  });
+
+  it("answers 404 for another project's baseline", async () => {
+    respondWith({ baseline_projects: [rows([])] });
+
+    const response = await getBaseline(
+      request('/api/v1/p6/projects/10481/baselines/p6-7777'),
+      params('10481', 'p6-7777')
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'BASELINE_NOT_FOUND',
+    });
+  });
+
+  it('rejects a malformed baseline ID with a 422', async () => {
+    const response = await getBaseline(
+      request('/api/v1/p6/projects/10481/baselines/latest'),
+      params('10481', 'latest')
+    );
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * P6 Projects BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - Server-side pagination, sorting and filtering against the mapped table
+ * - ProjectsResponse / StatusesResponse shapes
+ * - Tenant scoping and `{ detail, code }` errors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { queries, respondInOrder } from './fakeDb';
+import { DatabaseNotConfiguredError, fromTable } from '../../db';
+import { ilikeContains } from '../http';
+import type { ProjectTableRow } from '../p6Projects';
+import { GET as getProjects } from '@/app/api/v1/p6/projects/route';
+import { GET as getStatuses } from '@/app/api/v1/p6/projects/statuses/route';
+
+function row(overrides: Partial<ProjectTableRow> = {}): ProjectTableRow {
+  return {
+    id: 'b6f3c1e2-0000-4000-8000-000000010481',
+    tenant_id: 'tenant-001',
+    object_id: 10481,
+    project_code: 'ACME-REF-001',
+    project_name: 'ACME Refinery Expansion',
+    status: 'Active',
+    percent_complete: 42,
+    planned_start: '2024-01-15',
+    planned_finish: '2026-06-30',
+    actual_start: '2024-02-01',
+    data_date: '2025-06-30',
+    eps_object_id: 3,
+    bac: 125000000,
+    spi: 0.94,
+    cpi: null,
+    ...overrides,
+  };
+}
+
+function request(path: string, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost${path}`, { headers });
+}
+
+const noParams = { params: Promise.resolve({}) };
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects
+// ============================================================================
+
+describe('GET /api/v1/p6/projects', () => {
+  it('returns a ProjectsResponse page scoped to the session tenant', async () => {
+    respondInOrder({ data: [row()], error: null, count: 45 });
+
+    const response = await getProjects(request('/api/v1/p6/projects?page=2&pageSize=20'), noParams);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      data: [
+        {
+          id: 'b6f3c1e2-0000-4000-8000-000000010481',
+          objectId: 10481,
+          projectId: 'ACME-REF-001',
+          name: 'ACME Refinery Expansion',
+          status: 'Active',
+          percentComplete: 42,
+          plannedStart: '2024-01-15',
+          plannedFinish: '2026-06-30',
+          actualStart: '2024-02-01',
+          dataDate: '2025-06-30',
+          budgetAtCompletion: 125000000,
+          spi: 0.94,
+          cpi: null,
+        },
+      ],
+      pagination: { page: 2, pageSize: 20, total: 45, totalPages: 3 },
+    });
+    expect(fromTable).toHaveBeenCalledWith('mock', 'projects');
+    expect(queries[0].calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    expect(queries[0].calls).toContainEqual(['range', 20, 39]);
+  });
+
+  it('reads the live table in live mode', async () => {
+    respondInOrder({ data: [], error: null, count: 0 });
+
+    await getProjects(request('/api/v1/p6/projects?dataMode=live'), noParams);
+
+    expect(fromTable).toHaveBeenCalledWith('live', 'projects');
+  });
+
+  it('maps SortableColumn onto table columns with a stable tie-break', async () => {
+    respondInOrder({ data: [], error: null, count: 0 });
+
+    await getProjects(request('/api/v1/p6/projects?sortBy=budgetAtCompletion&sortDir=desc'), noParams);
+
+    const orders = queries[0].calls.filter(([method]) => method === 'order');
+    expect(orders).toEqual([
+      ['order', 'bac', { ascending: false, nullsFirst: false }],
+      ['order', 'object_id', { ascending: true }],
+    ]);
+  });
+
+  it('applies status, EPS and search filters', async () => {
+    respondInOrder({ data: [], error: null, count: 0 });
+
+    await getProjects(request('/api/v1/p6/projects?status=Active&epsId=3&search=%20refinery%20'), noParams);
+
+    expect(queries[0].calls).toContainEqual(['eq', 'status', 'Active']);
+    expect(queries[0].calls).toContainEqual(['eq', 'eps_object_id', 3]);
+    expect(queries[0].calls).toContainEqual([
+      'or',
+      'project_name.ilike."*refinery*",project_code.ilike."*refinery*"',
+    ]);
+  });
+
+  it('returns an empty page with the real total past the last page', async () => {
+    respondInOrder(
+      { data: null, error: { code: 'PGRST103', message: 'Requested range not satisfiable' } },
+      { data: null, error: null, count: 12 }
+    );
+
+    const response = await getProjects(request('/api/v1/p6/projects?page=5'), noParams);
+
+    await expect(response.json()).resolves.toEqual({
+      data: [],
+      pagination: { page: 5, pageSize: 20, total: 12, totalPages: 1 },
+    });
+    expect(queries[1].calls).toContainEqual(['select', 'id', { count: 'exact', head: true }]);
+  });
+
+  it.each([
+    ['sortBy=projectId', 'sortBy'],
+    ['sortDir=up', 'sortDir'],
+    ['pageSize=500', 'pageSize'],
+    ['page=0', 'page'],
+    ['epsId=abc', 'epsId'],
+  ])('rejects %s with a 422', async (params, name) => {
+    const response = await getProjects(request(`/api/v1/p6/projects?${params}`), noParams);
+
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.code).toBe('VALIDATION_ERROR');
+    expect(body.detail).toContain(name);
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests that reach the route without a tenant', async () => {
+    const response = await getProjects(request('/api/v1/p6/projects', {}), noParams);
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toMatchObject({ code: 'TENANT_REQUIRED' });
+  });
+
+  it('answers 503 when the database is not configured', async () => {
+    vi.mocked(fromTable).mockImplementation(() => {
+      throw new DatabaseNotConfiguredError();
+    });
+
+    const response = await getProjects(request('/api/v1/p6/projects'), noParams);
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get('X-Request-ID')).toBeTruthy();
+  });
+
+  it('hides query failures behind a 502', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    respondInOrder({ data: null, error: { code: '42703', message: 'column projects.bac does not exist' } });
+
+    const response = await getProjects(request('/api/v1/p6/projects'), noParams);
+
+    expect(response.status).toBe(502);
+    await expect(response.json()).resolves.toEqual({ detail: 'Database query failed', code: 'DATABASE_ERROR' });
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/statuses
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/statuses', () => {
+  it('counts projects per status, most common first', async () => {
+    respondInOrder({
+      data: [{ status: 'Inactive' }, { status: 'Active' }, { status: 'Active' }, { status: 'What-If' }],
+      error: null,
+    });
+
+    const response = await getStatuses(request('/api/v1/p6/projects/statuses'), noParams);
+
+    await expect(response.json()).resolves.toEqual([
+      { value: 'Active', label: 'Active', count: 2 },
+      { value: 'Inactive', label: 'Inactive', count: 1 },
+      { value: 'What-If', label: 'What-If', count: 1 },
+    ]);
+    expect(queries[0].calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+  });
+});
+
+// ============================================================================
+// SEARCH ESCAPING
+// ============================================================================
+
+describe('ilikeContains', () => {
+  it('matches LIKE wildcards literally', () => {
+    expect(ilikeContains('project_code', 'A_1%')).toBe('project_code.ilike."*A\\\\_1\\\\%*"');
+  });
+
+  it('keeps commas, parentheses and quotes inside the quoted value', () => {
+    expect(ilikeContains('project_name', 'a,b) "c"')).toBe('project_name.ilike."*a,b) \\"c\\"*"');
+  });
+});
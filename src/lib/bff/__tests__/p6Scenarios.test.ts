@@ -0,0 +1,246 @@
+/**
+ * What-if Scenarios BFF Route Tests
+ * @governance COMPONENT-001, DATA-001, SEC-001
+ *
+ * Test coverage:
+ * - Scenarios listed, created, updated and deleted for the session's user only
+ * - Body validation: names, edits and relationship types
+ * - 401 without a session, 404 for unknown projects and other users' scenarios
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { queries, respondWith, rows } from './fakeDb';
+import { auth } from '@clerk/nextjs/server';
+import { fromTable } from '../../db';
+import { parseScenarioInput, type ScenarioRow } from '../p6Scenarios';
+import { GET as getScenarios, POST as postScenario } from '@/app/api/v1/p6/projects/[projectObjectId]/scenarios/route';
+import {
+  PUT as putScenario,
+  DELETE as deleteScenario,
+} from '@/app/api/v1/p6/projects/[projectObjectId]/scenarios/[scenarioId]/route';
+
+const edits = {
+  activities: [{ objectId: 2003, duration: 20 }],
+  relationships: [{ predecessorObjectId: 2002, successorObjectId: 2004, type: 'FS', lag: 5 }],
+};
+
+function scenarioRow(overrides: Partial<ScenarioRow> = {}): ScenarioRow {
+  return {
+    scenario_id: 7,
+    project_object_id: 10481,
+    user_id: 'user_1',
+    name: 'Steel slips',
+    edits: edits as ScenarioRow['edits'],
+    created_at: '2025-03-01T09:00:00Z',
+    updated_at: '2025-03-02T09:00:00Z',
+    ...overrides,
+  };
+}
+
+function request(path: string, init: { method?: string; body?: unknown } = {}) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? 'GET',
+    headers: { 'X-Tenant-ID': 'tenant-001' },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
+
+const scenarioCalls = () => queries.find((query) => query.table === 'schedule_scenarios')!.calls;
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+  vi.mocked(auth).mockResolvedValue({
+    userId: 'user_1',
+    orgId: 'org_1',
+    sessionClaims: { orionTenantId: 'tenant-001' },
+  } as unknown as Awaited<ReturnType<typeof auth>>);
+});
+
+describe('parseScenarioInput', () => {
+  it('keeps the known fields and trims the name', () => {
+    const input = parseScenarioInput({
+      name: '  Steel slips ',
+      edits: {
+        activities: [{ objectId: 2003, duration: 20, startOnOrAfter: '2024-04-01T00:00:00', note: 'x' }],
+        relationships: edits.relationships,
+      },
+    });
+
+    expect(input).toEqual({
+      name: 'Steel slips',
+      edits: {
+        activities: [{ objectId: 2003, duration: 20, startOnOrAfter: '2024-04-01T00:00:00' }],
+        relationships: edits.relationships,
+      },
+    });
+  });
+
+  it.each([
+    [{ name: '', edits }, 'name must be'],
+    [{ name: 'x'.repeat(101), edits }, 'name must be'],
+    [{ name: 'A', edits: { activities: [] } }, 'edits must have'],
+    [{ name: 'A', edits: { activities: [{ objectId: 0 }], relationships: [] } }, 'positive integer objectId'],
+    [{ name: 'A', edits: { activities: [{ objectId: 1, duration: -1 }], relationships: [] } }, 'duration must be'],
+    [{ name: 'A', edits: { activities: [{ objectId: 1, startOnOrAfter: 'soon' }], relationships: [] } }, 'ISO 8601'],
+    [
+      {
+        name: 'A',
+        edits: {
+          activities: [],
+          relationships: [{ predecessorObjectId: 1, successorObjectId: 2, type: 'XX', lag: 0 }],
+        },
+      },
+      'FS, SS, FF or SF',
+    ],
+  ])('rejects %j', (body, message) => {
+    expect(() => parseScenarioInput(body)).toThrow(message);
+  });
+});
+
+// ============================================================================
+// /api/v1/p6/projects/{projectObjectId}/scenarios
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/scenarios', () => {
+  const params = { params: Promise.resolve({ projectObjectId: '10481' }) };
+
+  it("lists the session user's scenarios", async () => {
+    respondWith({
+      projects: [rows([{ object_id: 10481 }])],
+      schedule_scenarios: [rows([scenarioRow()])],
+    });
+
+    const response = await getScenarios(request('/api/v1/p6/projects/10481/scenarios'), params);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      scenarios: [
+        {
+          id: 7,
+          projectObjectId: 10481,
+          name: 'Steel slips',
+          edits,
+          createdAt: '2025-03-01T09:00:00Z',
+          updatedAt: '2025-03-02T09:00:00Z',
+        },
+      ],
+    });
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    }
+    expect(scenarioCalls()).toContainEqual(['eq', 'user_id', 'user_1']);
+    expect(scenarioCalls()).toContainEqual(['eq', 'project_object_id', 10481]);
+  });
+
+  it('answers 401 without a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as unknown as Awaited<ReturnType<typeof auth>>);
+    respondWith({});
+
+    const response = await getScenarios(request('/api/v1/p6/projects/10481/scenarios'), params);
+
+    expect(response.status).toBe(401);
+    await expect(response.json()).resolves.toMatchObject({ code: 'UNAUTHENTICATED' });
+    expect(queries).toHaveLength(0);
+  });
+});
+
+describe('POST /api/v1/p6/projects/{projectObjectId}/scenarios', () => {
+  const params = (projectObjectId = '10481') => ({ params: Promise.resolve({ projectObjectId }) });
+
+  it('saves the scenario for the session user', async () => {
+    respondWith({
+      projects: [rows([{ object_id: 10481 }])],
+      schedule_scenarios: [rows([scenarioRow()])],
+    });
+
+    const response = await postScenario(
+      request('/api/v1/p6/projects/10481/scenarios', { method: 'POST', body: { name: 'Steel slips', edits } }),
+      params()
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ id: 7, name: 'Steel slips' });
+    expect(scenarioCalls()).toContainEqual([
+      'insert',
+      { tenant_id: 'tenant-001', user_id: 'user_1', project_object_id: 10481, name: 'Steel slips', edits },
+    ]);
+  });
+
+  it('answers 404 for an unknown project without saving', async () => {
+    respondWith({});
+
+    const response = await postScenario(
+      request('/api/v1/p6/projects/999/scenarios', { method: 'POST', body: { name: 'A', edits } }),
+      params('999')
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+    expect(queries.map((query) => query.table)).toEqual(['projects']);
+  });
+
+  it('answers 422 for a body that is not JSON', async () => {
+    respondWith({});
+    const invalid = new NextRequest('http://localhost/api/v1/p6/projects/10481/scenarios', {
+      method: 'POST',
+      headers: { 'X-Tenant-ID': 'tenant-001' },
+      body: 'name=A',
+    });
+
+    const response = await postScenario(invalid, params());
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
+
+// ============================================================================
+// /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}
+// ============================================================================
+
+describe('PUT and DELETE /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}', () => {
+  const params = { params: Promise.resolve({ projectObjectId: '10481', scenarioId: '7' }) };
+
+  it('updates only a scenario of the session user', async () => {
+    respondWith({ schedule_scenarios: [rows([scenarioRow({ name: 'Renamed' })])] });
+
+    const response = await putScenario(
+      request('/api/v1/p6/projects/10481/scenarios/7', { method: 'PUT', body: { name: 'Renamed', edits } }),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ id: 7, name: 'Renamed' });
+    expect(scenarioCalls()).toContainEqual(['eq', 'user_id', 'user_1']);
+    expect(scenarioCalls()).toContainEqual(['eq', 'scenario_id', 7]);
+    expect(scenarioCalls()[0]).toEqual(['update', expect.objectContaining({ name: 'Renamed', edits })]);
+  });
+
+  it('answers 404 when no scenario of the user matched', async () => {
+    respondWith({});
+
+    const response = await putScenario(
+      request('/api/v1/p6/projects/10481/scenarios/7', { method: 'PUT', body: { name: 'Renamed', edits } }),
+      params
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'SCENARIO_NOT_FOUND' });
+  });
+
+  it('deletes the scenario and returns it', async () => {
+    respondWith({ schedule_scenarios: [rows([scenarioRow()])] });
+
+    const response = await deleteScenario(
+      request('/api/v1/p6/projects/10481/scenarios/7', { method: 'DELETE' }),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ id: 7 });
+    expect(scenarioCalls()[0]).toEqual(['delete']);
+    expect(scenarioCalls()).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    expect(scenarioCalls()).toContainEqual(['eq', 'user_id', 'user_1']);
+  });
+});
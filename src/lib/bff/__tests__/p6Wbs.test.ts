@@ -0,0 +1,332 @@
+/**
+ * P6 WBS BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - Flat WBS rows assembled into the nested WBSNode tree
+ * - Activity count, cost and progress rollups
+ * - WBSDetail with SAP mapping and financials
+ * - 404s for unknown projects and WBS elements, 422 for bad IDs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { queries, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import { buildWbsHierarchy, type WbsActivityRow, type WbsTableRow } from '../p6Wbs';
+import { GET as getTree } from '@/app/api/v1/p6/projects/[projectObjectId]/wbs/route';
+import { GET as getDetail } from '@/app/api/v1/p6/wbs/[wbsObjectId]/route';
+
+function wbs(objectId: number, parentObjectId: number | null, overrides: Partial<WbsTableRow> = {}): WbsTableRow {
+  return {
+    id: `wbs-${objectId}`,
+    object_id: objectId,
+    project_object_id: 10481,
+    parent_object_id: parentObjectId,
+    code: `W${objectId}`,
+    name: `WBS ${objectId}`,
+    status: 'Active',
+    sequence_number: objectId,
+    ...overrides,
+  };
+}
+
+function activity(objectId: number, wbsObjectId: number, overrides: Partial<WbsActivityRow> = {}): WbsActivityRow {
+  return {
+    object_id: objectId,
+    wbs_object_id: wbsObjectId,
+    percent_complete: 50,
+    budget_at_completion: 1000,
+    planned_total_cost: 1000,
+    actual_total_cost: 400,
+    remaining_total_cost: 600,
+    planned_start: '2025-01-06',
+    planned_finish: '2025-03-28',
+    ...overrides,
+  };
+}
+
+function request(path: string, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost${path}`, { headers });
+}
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+// ============================================================================
+// HIERARCHY
+// ============================================================================
+
+describe('buildWbsHierarchy', () => {
+  it('nests elements under their parents in sequence order', () => {
+    const { nodes } = buildWbsHierarchy(
+      [wbs(3, 1, { sequence_number: 2 }), wbs(1, 900), wbs(2, 1, { sequence_number: 1 }), wbs(4, 3)],
+      []
+    );
+
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0]).toMatchObject({
+      objectId: 1,
+      hierarchyLevel: 0,
+      parentObjectId: 900,
+    });
+    expect(nodes[0].children.map((node) => node.objectId)).toEqual([2, 3]);
+    expect(nodes[0].children[1].children[0]).toMatchObject({
+      objectId: 4,
+      hierarchyLevel: 2,
+    });
+  });
+
+  it('rolls activity counts, costs and weighted progress up to ancestors', () => {
+    const { nodes } = buildWbsHierarchy(
+      [wbs(1, null), wbs(2, 1), wbs(3, 1)],
+      [
+        activity(11, 2, {
+          percent_complete: 100,
+          budget_at_completion: 3000,
+          planned_total_cost: 3000,
+        }),
+        activity(12, 3, { percent_complete: 20, budget_at_completion: 1000 }),
+      ]
+    );
+
+    expect(nodes[0]).toMatchObject({
+      activityCount: 2,
+      budgetAtCompletion: 4000,
+      plannedTotalCost: 4000,
+      actualTotalCost: 800,
+      percentComplete: 80,
+    });
+    expect(nodes[0].children[1]).toMatchObject({
+      activityCount: 1,
+      percentComplete: 20,
+    });
+  });
+
+  it('averages progress when activities carry no budget', () => {
+    const { nodes } = buildWbsHierarchy(
+      [wbs(1, null), wbs(2, null)],
+      [
+        activity(11, 1, { percent_complete: 30, budget_at_completion: null }),
+        activity(12, 1, { percent_complete: 60, budget_at_completion: 0 }),
+      ]
+    );
+
+    expect(nodes[0]).toMatchObject({ percentComplete: 45, budgetAtCompletion: null });
+    expect(nodes[1]).toMatchObject({
+      activityCount: 0,
+      percentComplete: null,
+      budgetAtCompletion: null,
+      plannedTotalCost: null,
+      actualTotalCost: null,
+    });
+  });
+
+  it('does not count missing costs or progress as zero', () => {
+    const { nodes } = buildWbsHierarchy(
+      [wbs(1, null), wbs(2, 1), wbs(3, 1)],
+      [
+        activity(11, 2, { percent_complete: 80, actual_total_cost: null }),
+        activity(12, 3, { percent_complete: null, budget_at_completion: 3000 }),
+      ]
+    );
+
+    expect(nodes[0]).toMatchObject({
+      activityCount: 2,
+      budgetAtCompletion: 4000,
+      plannedTotalCost: 2000,
+      actualTotalCost: null,
+      percentComplete: 80,
+    });
+    expect(nodes[0].children[0]).toMatchObject({ actualTotalCost: null, percentComplete: 80 });
+    expect(nodes[0].children[1]).toMatchObject({ actualTotalCost: 400, percentComplete: null });
+  });
+
+  it('flags SAP-mapped elements and survives parent cycles', () => {
+    const { nodes } = buildWbsHierarchy([wbs(1, null), wbs(2, 3), wbs(3, 2)], [], new Set([1]));
+
+    expect(nodes.map((node) => [node.objectId, node.sapMapped])).toEqual([[1, true]]);
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/projects/{projectObjectId}/wbs
+// ============================================================================
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/wbs', () => {
+  const params = (projectObjectId: string) => ({
+    params: Promise.resolve({ projectObjectId }),
+  });
+
+  it('returns the tenant-scoped WBS tree with mapped elements flagged', async () => {
+    respondWith({
+      wbs: [rows([wbs(1, null), wbs(2, 1)])],
+      activities: [rows([activity(11, 2)])],
+      wbs_mapping: [
+        rows([
+          { wbs_object_id: 2, posid: 'P-10481-01' },
+          { wbs_object_id: 1, posid: null },
+        ]),
+      ],
+    });
+
+    const response = await getTree(request('/api/v1/p6/projects/10481/wbs'), params('10481'));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.totalCount).toBe(2);
+    expect(body.nodes[0]).toMatchObject({
+      objectId: 1,
+      sapMapped: false,
+      activityCount: 1,
+      isExpanded: false,
+    });
+    expect(body.nodes[0].children[0]).toMatchObject({
+      objectId: 2,
+      sapMapped: true,
+      hierarchyLevel: 1,
+    });
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+      expect(calls).toContainEqual(['eq', 'project_object_id', 10481]);
+    }
+  });
+
+  it('returns an empty tree for a project without WBS', async () => {
+    respondWith({ projects: [{ data: null, error: null, count: 1 }] });
+
+    const response = await getTree(request('/api/v1/p6/projects/10481/wbs'), params('10481'));
+
+    await expect(response.json()).resolves.toEqual({
+      nodes: [],
+      totalCount: 0,
+    });
+  });
+
+  it('answers 404 for an unknown project', async () => {
+    respondWith({ projects: [{ data: null, error: null, count: 0 }] });
+
+    const response = await getTree(request('/api/v1/p6/projects/999/wbs'), params('999'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'PROJECT_NOT_FOUND',
+    });
+  });
+
+  it('rejects a non-numeric project ID with a 422', async () => {
+    const response = await getTree(request('/api/v1/p6/projects/abc/wbs'), params('abc'));
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// GET /api/v1/p6/wbs/{wbsObjectId}
+// ============================================================================
+
+describe('GET /api/v1/p6/wbs/{wbsObjectId}', () => {
+  const params = (wbsObjectId: string) => ({
+    params: Promise.resolve({ wbsObjectId }),
+  });
+  const tree = [wbs(1, null), wbs(2, 1), wbs(3, 1)];
+
+  it('returns subtree rollups with SAP mapping and financials', async () => {
+    respondWith({
+      wbs: [rows([wbs(1, null)]), rows(tree)],
+      activities: [
+        rows([activity(11, 2, { planned_start: '2025-02-03' }), activity(12, 3, { planned_finish: '2025-05-30' })]),
+      ],
+      wbs_mapping: [
+        rows([
+          {
+            wbs_object_id: 1,
+            posid: 'P-10481',
+            post1: 'Refinery Expansion',
+            mapping_strategy: 'code_match',
+            confidence_score: 0.92,
+            is_verified: true,
+          },
+        ]),
+      ],
+      sap_budget: [rows([{ hsl: 5000 }, { hsl: 250.5 }])],
+      sap_actuals: [rows([{ hsl: 1200 }])],
+      sap_commitments: [rows([{ hsl: null }])],
+      resource_assignments: [
+        rows([
+          { activity_object_id: 11, resource_object_id: 7 },
+          { activity_object_id: 12, resource_object_id: 7 },
+          { activity_object_id: 12, resource_object_id: 8 },
+          { activity_object_id: 99, resource_object_id: 9 },
+        ]),
+      ],
+    });
+
+    const response = await getDetail(request('/api/v1/p6/wbs/1'), params('1'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      objectId: 1,
+      wbsCode: 'W1',
+      name: 'WBS 1',
+      status: 'Active',
+      percentComplete: 50,
+      plannedStart: '2025-01-06',
+      plannedFinish: '2025-05-30',
+      budgetAtCompletion: 2000,
+      plannedTotalCost: 2000,
+      actualTotalCost: 800,
+      remainingTotalCost: 1200,
+      sapMapping: {
+        posid: 'P-10481',
+        post1: 'Refinery Expansion',
+        mappingStrategy: 'code_match',
+        confidenceScore: 0.92,
+        isVerified: true,
+      },
+      sapFinancials: { budget: 5250.5, actuals: 1200, commitments: 0 },
+      activityCount: 2,
+      resourceCount: 2,
+    });
+    const sapQueries = queries.filter(({ table }) => table.startsWith('sap_'));
+    expect(sapQueries).toHaveLength(3);
+    for (const { calls } of sapQueries) {
+      expect(calls).toContainEqual(['eq', 'posid', 'P-10481']);
+    }
+  });
+
+  it('leaves SAP fields null for an unmapped element without activities', async () => {
+    respondWith({ wbs: [rows([wbs(3, 1)]), rows(tree)] });
+
+    const response = await getDetail(request('/api/v1/p6/wbs/3'), params('3'));
+
+    await expect(response.json()).resolves.toMatchObject({
+      percentComplete: null,
+      plannedStart: null,
+      plannedFinish: null,
+      budgetAtCompletion: null,
+      remainingTotalCost: null,
+      sapMapping: null,
+      sapFinancials: null,
+      activityCount: 0,
+      resourceCount: 0,
+    });
+    expect(queries.map(({ table }) => table)).not.toContain('sap_budget');
+  });
+
+  it('answers 404 for an unknown WBS element', async () => {
+    respondWith({});
+
+    const response = await getDetail(request('/api/v1/p6/wbs/42'), params('42'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'WBS_NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Project Dashboard BFF Route Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - Header, performance, domains, budget and schedule shapes
+ * - AC from SAP actuals for mapped projects, summed in the database in batches
+ *   of WBS elements and never across currencies
+ * - Null sections and indices instead of invented values (DATA-001)
+ * - Project lookup by object ID or code, 404 for unknown projects
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { callsOn, queries, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import { healthScore, projectStatus } from '../evm';
+import { GET as getHeader } from '@/app/api/v1/project/[projectId]/route';
+import { GET as getPerformance } from '@/app/api/v1/project/[projectId]/performance/route';
+import { GET as getDomains } from '@/app/api/v1/project/[projectId]/domains/route';
+import { GET as getBudget } from '@/app/api/v1/project/[projectId]/budget/route';
+import { GET as getSchedule } from '@/app/api/v1/project/[projectId]/schedule/route';
+
+const project = (overrides: Record<string, unknown> = {}) =>
+  rows([
+    {
+      object_id: 10481,
+      project_code: 'ACME-REF-001',
+      project_name: 'ACME Refinery Expansion',
+      percent_complete: 42,
+      planned_start: '2024-01-01',
+      planned_finish: '2026-01-01',
+      data_date: '2025-07-01',
+      spi: 0.94,
+      cpi: 1.02,
+      ...overrides,
+    },
+  ]);
+
+const snapshot = rows([
+  { project_object_id: 10481, snapshot_date: '2025-06-30', bac: 1000, pv: 500, ev: 400, ac: 500 },
+]);
+
+function request(path: string, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) {
+  return new NextRequest(`http://localhost/api/v1/project/${path}`, { headers });
+}
+
+const params = (projectId = '10481') => ({ params: Promise.resolve({ projectId }) });
+
+beforeEach(() => {
+  vi.mocked(fromTable).mockReset();
+});
+
+// ============================================================================
+// DERIVATIONS
+// ============================================================================
+
+describe('projectStatus', () => {
+  it.each([
+    [1.0, 0.96, 'on_track'],
+    [0.94, 1.1, 'at_risk'],
+    [1.2, 0.89, 'critical'],
+    [null, 1.0, null],
+  ] as const)('rates SPI %s / CPI %s as %s', (spi, cpi, expected) => {
+    expect(projectStatus(spi, cpi)).toBe(expected);
+  });
+});
+
+describe('healthScore', () => {
+  it('weighs schedule and cost equally and caps each at 1.0', () => {
+    expect(healthScore(0.8, 1.4)).toBe(90);
+    expect(healthScore(1.1, 1.2)).toBe(100);
+    expect(healthScore(0.9, null)).toBeNull();
+  });
+});
+
+// ============================================================================
+// GET /api/v1/project/{projectId}
+// ============================================================================
+
+describe('GET /api/v1/project/{projectId}', () => {
+  it('returns the header with the SAP element mapped to the top of the WBS', async () => {
+    respondWith({
+      projects: [project()],
+      project_snapshots: [
+        rows([{ project_object_id: 10481, snapshot_date: '2025-06-30', bac: 1000, pv: 500, ev: 470, ac: 460 }]),
+      ],
+      wbs: [
+        rows([
+          { object_id: 1, parent_object_id: 900, sequence_number: 1 },
+          { object_id: 2, parent_object_id: 1, sequence_number: 1 },
+        ]),
+      ],
+      wbs_mapping: [
+        rows([
+          { wbs_object_id: 2, posid: 'P-10481-01' },
+          { wbs_object_id: 1, posid: 'P-10481' },
+        ]),
+      ],
+    });
+
+    const response = await getHeader(request('10481'), params());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      projectId: '10481',
+      projectName: 'ACME Refinery Expansion',
+      projectCode: 'ACME-REF-001',
+      percentComplete: 42,
+      status: 'at_risk',
+      dataDate: '2025-07-01',
+      plannedStart: '2024-01-01',
+      plannedFinish: '2026-01-01',
+      p6ProjectId: '10481',
+      sapWbsElement: 'P-10481',
+    });
+    expect(callsOn('projects')).toContainEqual(['eq', 'object_id', 10481]);
+    for (const { calls } of queries) {
+      expect(calls).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    }
+  });
+
+  it('rates the status from the same EVM as the performance tab, not the projects columns', async () => {
+    // The projects row still says on track; the latest snapshot is critical
+    respondWith({ projects: [project({ spi: 1.0, cpi: 1.0 })], project_snapshots: [snapshot] });
+
+    const response = await getHeader(request('10481'), params());
+
+    await expect(response.json()).resolves.toMatchObject({ status: 'critical' });
+  });
+
+  it('looks projects up by code and leaves unknown status and SAP element null', async () => {
+    respondWith({ projects: [project()] });
+
+    const response = await getHeader(request('ACME-REF-001'), params('ACME-REF-001'));
+
+    await expect(response.json()).resolves.toMatchObject({ status: null, sapWbsElement: null });
+    expect(callsOn('projects')).toContainEqual(['eq', 'project_code', 'ACME-REF-001']);
+  });
+
+  it('answers 404 for an unknown project', async () => {
+    respondWith({});
+
+    const response = await getHeader(request('999'), params('999'));
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+});
+
+// ============================================================================
+// PERFORMANCE AND BUDGET
+// ============================================================================
+
+describe('GET /api/v1/project/{projectId}/performance', () => {
+  it('derives indices from the latest snapshot', async () => {
+    respondWith({ projects: [project()], project_snapshots: [snapshot] });
+
+    const response = await getPerformance(request('10481/performance'), params());
+
+    await expect(response.json()).resolves.toEqual({
+      spi: 0.8,
+      cpi: 0.8,
+      healthScore: 80,
+      sv: -100,
+      cv: -100,
+      tcpi: 1.2,
+    });
+    expect(callsOn('project_snapshots')).toContainEqual(['order', 'snapshot_date', { ascending: false }]);
+    expect(fromTable).not.toHaveBeenCalledWith('mock', 'sap_actuals');
+  });
+
+  it('returns null indices instead of dividing by zero', async () => {
+    respondWith({
+      projects: [project()],
+      project_snapshots: [
+        rows([{ project_object_id: 10481, snapshot_date: '2024-01-31', bac: 1000, pv: 0, ev: 0, ac: 0 }]),
+      ],
+    });
+
+    const response = await getPerformance(request('10481/performance'), params());
+
+    await expect(response.json()).resolves.toEqual({ spi: null, cpi: null, healthScore: null, sv: 0, cv: 0, tcpi: 1 });
+  });
+
+  it('returns null before the first snapshot', async () => {
+    respondWith({ projects: [project()] });
+
+    const response = await getPerformance(request('10481/performance'), params());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toBeNull();
+  });
+});
+
+describe('GET /api/v1/project/{projectId}/budget', () => {
+  it('takes actual cost and currency from SAP actuals for mapped projects', async () => {
+    respondWith({
+      projects: [project()],
+      project_snapshots: [snapshot],
+      wbs_mapping: [
+        rows([
+          { project_object_id: 10481, posid: 'P-10481' },
+          { project_object_id: 10481, posid: 'P-10481-01' },
+        ]),
+      ],
+      sap_actuals: [
+        rows([
+          { posid: 'P-10481', hsl: 300, rhcur: 'NGN' },
+          { posid: 'P-10481-01', hsl: 100.5, rhcur: 'NGN' },
+        ]),
+      ],
+    });
+
+    const response = await getBudget(request('10481/budget'), params());
+
+    await expect(response.json()).resolves.toEqual({
+      bac: 1000,
+      ev: 400,
+      ac: 400.5,
+      pv: 500,
+      eac: 1000,
+      etc: 599.5,
+      vac: 0,
+      currency: 'NGN',
+    });
+    expect(callsOn('sap_actuals')).toContainEqual(['select', 'posid, rhcur, hsl:hsl.sum()']);
+    expect(callsOn('sap_actuals')).toContainEqual(['in', 'posid', ['P-10481', 'P-10481-01']]);
+  });
+
+  it('splits a long list of mapped WBS elements across several SAP queries', async () => {
+    const posids = Array.from({ length: 450 }, (_, index) => `P-10481-${index}`);
+    respondWith({
+      projects: [project()],
+      project_snapshots: [snapshot],
+      wbs_mapping: [rows(posids.map((posid) => ({ project_object_id: 10481, posid })))],
+      sap_actuals: [
+        rows([{ posid: 'P-10481-0', hsl: 100, rhcur: 'NGN' }]),
+        rows([{ posid: 'P-10481-200', hsl: 200, rhcur: 'NGN' }]),
+        rows([{ posid: 'P-10481-449', hsl: 100.5, rhcur: 'NGN' }]),
+      ],
+    });
+
+    const response = await getBudget(request('10481/budget'), params());
+
+    await expect(response.json()).resolves.toMatchObject({ ac: 400.5, currency: 'NGN' });
+    const batches = queries
+      .filter((query) => query.table === 'sap_actuals')
+      .map(({ calls }) => calls.find(([method]) => method === 'in')?.[2] as string[]);
+    expect(batches.map((batch) => batch.length)).toEqual([200, 200, 50]);
+    expect(batches.flat()).toEqual(posids);
+  });
+
+  it('answers 409 when the SAP actuals are posted in two currencies', async () => {
+    respondWith({
+      projects: [project()],
+      project_snapshots: [snapshot],
+      wbs_mapping: [
+        rows([
+          { project_object_id: 10481, posid: 'P-10481' },
+          { project_object_id: 10481, posid: 'P-10481-01' },
+        ]),
+      ],
+      sap_actuals: [
+        rows([
+          { posid: 'P-10481', hsl: 300, rhcur: 'NGN' },
+          { posid: 'P-10481-01', hsl: 100.5, rhcur: 'USD' },
+        ]),
+      ],
+    });
+
+    const response = await getBudget(request('10481/budget'), params());
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ code: 'MIXED_CURRENCY' });
+  });
+
+  it('keeps the snapshot actual cost without SAP actuals', async () => {
+    respondWith({ projects: [project()], project_snapshots: [snapshot] });
+
+    const response = await getBudget(request('10481/budget'), params());
+
+    await expect(response.json()).resolves.toMatchObject({ ac: 500, eac: 1250, vac: -250, currency: null });
+  });
+});
+
+// ============================================================================
+// GET /api/v1/project/{projectId}/domains
+// ============================================================================
+
+describe('GET /api/v1/project/{projectId}/domains', () => {
+  it('returns metrics in EPCIC order and omits domains without metrics', async () => {
+    respondWith({
+      projects: [project()],
+      domain_metrics: [
+        rows([
+          { domain: 'C', progress_percent: 50, budgeted_cost: 2000, planned_value: null, actual_cost: 800 },
+          { domain: 'E', progress_percent: 90, budgeted_cost: 1000, planned_value: 1000, actual_cost: 0 },
+        ]),
+      ],
+    });
+
+    const response = await getDomains(request('10481/domains'), params());
+
+    await expect(response.json()).resolves.toEqual({
+      domains: [
+        {
+          domain: 'engineering',
+          label: 'Engineering',
+          plannedValue: 1000,
+          earnedValue: 900,
+          actualCost: 0,
+          percentComplete: 90,
+          spi: 0.9,
+          cpi: null,
+        },
+        {
+          domain: 'construction',
+          label: 'Construction',
+          plannedValue: null,
+          earnedValue: 1000,
+          actualCost: 800,
+          percentComplete: 50,
+          spi: null,
+          cpi: 1.25,
+        },
+      ],
+    });
+  });
+
+  it('leaves earned value, actual cost and progress null when the metrics lack them', async () => {
+    respondWith({
+      projects: [project()],
+      domain_metrics: [
+        rows([
+          { domain: 'P', progress_percent: null, budgeted_cost: 2000, planned_value: 1000, actual_cost: null },
+          { domain: 'I', progress_percent: 40, budgeted_cost: null, planned_value: null, actual_cost: 300 },
+        ]),
+      ],
+    });
+
+    const response = await getDomains(request('10481/domains'), params());
+
+    await expect(response.json()).resolves.toEqual({
+      domains: [
+        expect.objectContaining({
+          domain: 'procurement',
+          earnedValue: null,
+          actualCost: null,
+          percentComplete: null,
+          spi: null,
+          cpi: null,
+        }),
+        expect.objectContaining({
+          domain: 'installation',
+          earnedValue: null,
+          actualCost: 300,
+          percentComplete: 40,
+          spi: null,
+          cpi: null,
+        }),
+      ],
+    });
+  });
+});
+
+// ============================================================================
+// GET /api/v1/project/{projectId}/schedule
+// ============================================================================
+
+describe('GET /api/v1/project/{projectId}/schedule', () => {
+  it('counts activities by normalized status and measures float on open work', async () => {
+    respondWith({
+      projects: [project()],
+      activities: [
+        rows([
+          { status: 'Completed', actual_start: '2024-01-01', actual_finish: '2024-03-01', total_float: -5 },
+          { status: 'In Progress', actual_start: '2025-06-01', actual_finish: null, total_float: 0 },
+          { status: 'NotStarted', actual_start: null, actual_finish: null, total_float: 12 },
+        ]),
+      ],
+      wbs: [{ data: null, error: null, count: 7 }],
+    });
+
+    const response = await getSchedule(request('10481/schedule'), params());
+
+    await expect(response.json()).resolves.toEqual({
+      totalActivities: 3,
+      completedActivities: 1,
+      inProgressActivities: 1,
+      notStartedActivities: 1,
+      criticalPathActivities: 1,
+      wbsElements: 7,
+      originalDuration: 731,
+      remainingDuration: 184,
+      totalFloat: 0,
+    });
+  });
+
+  it('returns null when no activities have synced', async () => {
+    respondWith({ projects: [project()] });
+
+    const response = await getSchedule(request('10481/schedule'), params());
+
+    await expect(response.json()).resolves.toBeNull();
+  });
+});
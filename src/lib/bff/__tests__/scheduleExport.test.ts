@@ -0,0 +1,150 @@
+/**
+ * Schedule Export Route Tests
+ * @governance COMPONENT-001, DATA-001, SEC-001
+ *
+ * Test coverage:
+ * - PMXML download of a project's WBS, activities and relationships
+ * - Tenant and project scoping; links to other projects left out
+ * - Unknown project, tenant required
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { callsOn, respondWith, rows } from './fakeDb';
+import { fromTable } from '../../db';
+import { parsePmxml } from '../../schedule';
+import { GET as exportSchedule } from '@/app/api/v1/p6/projects/[projectObjectId]/export/route';
+
+const activity = (objectId: number, code: string) => ({
+  object_id: objectId,
+  project_object_id: 4001,
+  wbs_object_id: 7001,
+  activity_code: code,
+  activity_name: `Activity ${code}`,
+  activity_type: 'TT_Task',
+  status: 'NotStarted',
+  percent_complete: 0,
+  planned_start: '2025-01-06T08:00:00+00:00',
+  planned_finish: '2025-01-17T17:00:00+00:00',
+  actual_start: null,
+  actual_finish: null,
+  planned_duration: 10,
+  remaining_duration: 10,
+  total_float: 0,
+});
+
+const schedule = () => ({
+  projects: [
+    rows([
+      {
+        object_id: 4001,
+        project_code: 'NWP 01/A',
+        project_name: 'North Wharf Piling',
+        status: 'Active',
+        percent_complete: 0,
+        planned_start: '2025-01-06T08:00:00',
+        planned_finish: null,
+        actual_start: null,
+        data_date: '2025-01-06T08:00:00',
+      },
+    ]),
+  ],
+  wbs: [
+    rows([
+      {
+        object_id: 7001,
+        project_object_id: 4001,
+        parent_object_id: null,
+        code: 'ENG',
+        name: 'Engineering',
+        status: 'Active',
+        sequence_number: 1,
+      },
+    ]),
+  ],
+  activities: [rows([activity(9001, 'A1000'), activity(9002, 'A2000')])],
+  activity_relationships: [
+    rows([
+      {
+        object_id: 8001,
+        project_object_id: 4001,
+        predecessor_activity_object_id: 9001,
+        successor_activity_object_id: 9002,
+        type: 'PR_SS',
+        lag: -1.5,
+      },
+      {
+        object_id: 8002,
+        project_object_id: 4001,
+        predecessor_activity_object_id: 55001,
+        successor_activity_object_id: 9001,
+        type: 'PR_FS',
+        lag: 0,
+      },
+    ]),
+  ],
+});
+
+const request = (headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) =>
+  new NextRequest('http://localhost/api/v1/p6/projects/4001/export', { headers });
+
+const params = (projectObjectId = '4001') => ({ params: Promise.resolve({ projectObjectId }) });
+
+describe('GET /api/v1/p6/projects/{projectObjectId}/export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    respondWith(schedule());
+  });
+
+  it('downloads the project as PMXML', async () => {
+    const response = await exportSchedule(request(), params());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/xml; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="NWP_01_A.xml"');
+    expect(response.headers.get('X-Request-ID')).toBeTruthy();
+
+    const { schedules } = parsePmxml(await response.text());
+    expect(schedules[0].project).toMatchObject({ object_id: 4001, project_code: 'NWP 01/A' });
+    expect(schedules[0].activities.map((row) => [row.activity_code, row.status, row.planned_start])).toEqual([
+      ['A1000', 'Not Started', '2025-01-06T08:00:00'],
+      ['A2000', 'Not Started', '2025-01-06T08:00:00'],
+    ]);
+    expect(schedules[0].relationships).toEqual([
+      expect.objectContaining({ object_id: 8001, type: 'Start to Start', lag: -1.5 }),
+    ]);
+  });
+
+  it('reads the tenant project only', async () => {
+    await exportSchedule(request(), params());
+
+    expect(callsOn('projects')).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+    expect(callsOn('projects')).toContainEqual(['eq', 'object_id', 4001]);
+    for (const table of ['wbs', 'activities', 'activity_relationships'] as const) {
+      expect(callsOn(table)).toContainEqual(['eq', 'tenant_id', 'tenant-001']);
+      expect(callsOn(table)).toContainEqual(['eq', 'project_object_id', 4001]);
+    }
+  });
+
+  it('answers 404 for an unknown project', async () => {
+    respondWith({ projects: [rows([])] });
+
+    const response = await exportSchedule(request(), params());
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('validates the project object ID', async () => {
+    const response = await exportSchedule(request(), params('abc'));
+
+    expect(response.status).toBe(422);
+  });
+
+  it('requires a tenant', async () => {
+    const response = await exportSchedule(request({}), params());
+
+    expect(response.status).toBe(403);
+    expect(fromTable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Schedule File Import Route Tests
+ * @governance COMPONENT-001, DATA-001, SEC-001
+ *
+ * Test coverage:
+ * - One replace call per project, tenant scoping
+ * - Org admin required; projects synced from P6 refused
+ * - Import summary with counts and warnings
+ * - Total float calculated where the file has none
+ * - Format detection for XER, PMXML and MSP XML
+ * - Unsupported, empty, invalid and oversized bodies
+ * - Tenant required
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { callsOn, respondWith, rows } from './fakeDb';
+import { auth } from '@clerk/nextjs/server';
+import { callFunction, DatabaseQueryError } from '../../db';
+import { POST as importSchedule } from '@/app/api/v1/p6/import/route';
+
+function signIn(orgRole: string | null = 'org:admin') {
+  vi.mocked(auth).mockResolvedValue({
+    userId: 'user_1',
+    orgId: 'org_1',
+    orgRole,
+    sessionClaims: { orionTenantId: 'tenant-001' },
+  } as unknown as Awaited<ReturnType<typeof auth>>);
+}
+
+/** Arguments of the nth replace call */
+const replaced = (call = 0) => vi.mocked(callFunction).mock.calls[call][3] as Record<string, unknown>;
+const replacedActivities = (call = 0) => replaced(call).p_activities as Record<string, unknown>[];
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, '..', '..', 'schedule', '__tests__', 'fixtures', name));
+const xer = () => fixture('north-wharf.xer');
+
+const noParams = { params: Promise.resolve({}) };
+
+const upload = (body: BodyInit, headers: Record<string, string> = { 'X-Tenant-ID': 'tenant-001' }) =>
+  new NextRequest('http://localhost/api/v1/p6/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream', ...headers },
+    body,
+  });
+
+describe('POST /api/v1/p6/import', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(callFunction).mockResolvedValue();
+    respondWith({});
+    signIn();
+  });
+
+  it('replaces each project in one database function call', async () => {
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(response.status).toBe(200);
+    expect(callFunction).toHaveBeenCalledTimes(1);
+    expect(callFunction).toHaveBeenCalledWith('mock', 'projects', 'replace_project_schedule', expect.any(Object));
+    expect(replaced()).toMatchObject({
+      p_tenant_id: 'tenant-001',
+      p_project_object_id: 4001,
+      p_project: { object_id: 4001, project_code: 'NWP-01', tenant_id: 'tenant-001' },
+    });
+    expect(replaced().p_wbs).toHaveLength(3);
+    expect(replaced().p_relationships).toHaveLength(2);
+  });
+
+  it('stamps replaced rows with the tenant', async () => {
+    await importSchedule(upload(xer()), noParams);
+
+    const activities = replacedActivities();
+    expect(activities).toHaveLength(3);
+    expect(activities.every((row) => row.tenant_id === 'tenant-001')).toBe(true);
+    expect(activities[0]).toMatchObject({ object_id: 9001, activity_code: 'A1000', wbs_object_id: 7001 });
+  });
+
+  it('returns the import summary', async () => {
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(await response.json()).toEqual({
+      format: 'xer',
+      version: '19.12',
+      projects: [
+        {
+          projectObjectId: 4001,
+          projectCode: 'NWP-01',
+          projectName: 'North Wharf Piling',
+          wbsCount: 3,
+          activityCount: 3,
+          relationshipCount: 2,
+        },
+      ],
+      calendarCount: 2,
+      resourceCount: 2,
+      warnings: [
+        'Skipped activity A4000: missing object ID, WBS or planned dates',
+        'NWP-01: skipped 1 relationship to activities outside the file',
+      ],
+    });
+  });
+
+  it('detects P6 XML and Microsoft Project XML files', async () => {
+    const pmxml = await importSchedule(upload(fixture('north-wharf.pmxml')), noParams);
+    const mspxml = await importSchedule(upload(fixture('north-wharf-msp.xml')), noParams);
+
+    expect(await pmxml.json()).toMatchObject({ format: 'pmxml', version: '21.12', projects: [{ activityCount: 3 }] });
+    expect(await mspxml.json()).toMatchObject({ format: 'mspxml', version: '14', projects: [{ activityCount: 4 }] });
+  });
+
+  it('calculates total float the file leaves out', async () => {
+    const response = await importSchedule(upload(fixture('north-wharf-msp.xml')), noParams);
+
+    // Handover has no TotalSlack; Drive piles has 5 days left from the data date
+    expect((await response.json()).warnings).toContain(
+      'North Wharf: calculated total float for 1 activity the file gave none'
+    );
+    expect(replacedActivities().map((row) => [row.activity_name, row.total_float])).toEqual([
+      ['Design piles', 0],
+      ['Drive piles', -2],
+      ['Piling complete', 0],
+      ['Handover', 5],
+    ]);
+  });
+
+  it('decodes XML in the encoding it declares', async () => {
+    const source = fixture('north-wharf.pmxml')
+      .toString('utf8')
+      .replace('encoding="UTF-8"', 'encoding="windows-1252"')
+      .replace('Design piles', 'Design piles - Caf\u00e9');
+
+    await importSchedule(upload(Buffer.from(source, 'latin1')), noParams);
+
+    expect(replacedActivities()[0].activity_name).toBe('Design piles - Caf\u00e9');
+  });
+
+  it('rejects files that are not schedule exports', async () => {
+    const response = await importSchedule(upload('<?xml version="1.0"?><Project/>'), noParams);
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toMatchObject({ code: 'UNSUPPORTED_FORMAT' });
+    expect(callFunction).not.toHaveBeenCalled();
+  });
+
+  it('rejects an empty body', async () => {
+    const response = await importSchedule(upload(''), noParams);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('rejects malformed XER files', async () => {
+    const response = await importSchedule(upload('ERMHDR\t19.12\n%T\tPROJECT\n%R\t1\n'), noParams);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SCHEDULE_FILE' });
+  });
+
+  it('rejects malformed XML files', async () => {
+    const response = await importSchedule(upload('<APIBusinessObjects><Project></APIBusinessObjects>'), noParams);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_SCHEDULE_FILE' });
+  });
+
+  it('rejects uploads declared larger than the limit', async () => {
+    const response = await importSchedule(
+      upload('ERMHDR', { 'X-Tenant-ID': 'tenant-001', 'Content-Length': String(200 * 1024 * 1024) }),
+      noParams
+    );
+
+    expect(response.status).toBe(413);
+  });
+
+  it('refuses projects synced from P6', async () => {
+    respondWith({ schedule_snapshots: [rows([{ project_object_id: 4001 }])] });
+
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ code: 'SYNCED_PROJECT' });
+    expect(callsOn('schedule_snapshots')).toEqual([
+      ['select', 'project_object_id'],
+      ['eq', 'tenant_id', 'tenant-001'],
+      ['in', 'project_object_id', [4001]],
+    ]);
+    expect(callFunction).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed replace', async () => {
+    vi.mocked(callFunction).mockRejectedValue(
+      new DatabaseQueryError('client_demo.replace_project_schedule', '42501', 'permission denied')
+    );
+
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(response.status).toBe(502);
+  });
+
+  it('requires an organization admin', async () => {
+    signIn('org:member');
+
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'FORBIDDEN' });
+    expect(callFunction).not.toHaveBeenCalled();
+  });
+
+  it('requires a signed-in user', async () => {
+    vi.mocked(auth).mockResolvedValue({ userId: null } as unknown as Awaited<ReturnType<typeof auth>>);
+
+    const response = await importSchedule(upload(xer()), noParams);
+
+    expect(response.status).toBe(401);
+    expect(callFunction).not.toHaveBeenCalled();
+  });
+
+  it('requires a tenant', async () => {
+    const response = await importSchedule(upload(xer(), {}), noParams);
+
+    expect(response.status).toBe(403);
+    expect(callFunction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * CFO Insights BFF Queries (server only)
+ * @governance DATA-001, DOC-002, CURRENCY-001
+ *
+ * Backs GET /api/v1/cfo/{health,financials,budgets,comparison} (CFODashboard).
+ * Every project is rated from its latest snapshot with lib/bff/evm.ts, so
+ * the CFO page and the project dashboard agree on indices and status.
+ *
+ * Financial totals are the tenant's SAP lines summed in the database, in
+ * company code currency. Nothing is invented (DATA-001): projects without a snapshot are
+ * counted but not rated, and financials are null before any SAP line syncs.
+ * A portfolio whose lines carry more than one currency answers 409
+ * MIXED_CURRENCY rather than adding them up (CURRENCY-001).
+ *
+ * The derivations are exported for the mock backend, which rates its
+ * fixtures the same way.
+ */
+
+import { fromTable, selectAllRows, type MappedTable } from '../db';
+import type {
+  PortfolioFinancials,
+  PortfolioHealth,
+  PortfolioHealthStatus,
+  ProjectBudget,
+  ProjectComparison,
+} from '@/components/cfo/types';
+import {
+  evmIndices,
+  loadProjectEvm,
+  projectStatus,
+  round,
+  SAP_TOTAL_COLUMNS,
+  sumSapLinesInOneCurrency,
+  type ProjectEvm,
+  type SapLineRow,
+} from './evm';
+import type { BffContext } from './http';
+import type { ProjectTableRow } from './p6Projects';
+
+// =============================================================================
+// DERIVATIONS
+// =============================================================================
+
+export type PortfolioProjectRow = Pick<ProjectTableRow, 'object_id' | 'project_name' | 'percent_complete'>;
+
+export interface RatedProject {
+  project: PortfolioProjectRow;
+  evm: ProjectEvm;
+  indices: ReturnType<typeof evmIndices>;
+  status: ProjectComparison['status'];
+}
+
+const average = (values: (number | null)[]) => {
+  const defined = values.filter((value): value is number => value !== null);
+  return defined.length ? round(defined.reduce((total, value) => total + value, 0) / defined.length) : null;
+};
+
+/** The worst rated project sets the portfolio status */
+function portfolioStatus(statuses: ProjectComparison['status'][]): PortfolioHealthStatus {
+  if (statuses.includes('critical')) return 'CRITICAL';
+  if (statuses.includes('at_risk')) return 'AT_RISK';
+  if (statuses.includes('on_track')) return 'ON_TRACK';
+  return 'NO_DATA';
+}
+
+/**
+ * The projects with a snapshot, rated from their latest EVM
+ */
+export function rateProjects(projects: PortfolioProjectRow[], evmByProject: Map<number, ProjectEvm>): RatedProject[] {
+  return projects.flatMap((project): RatedProject[] => {
+    const evm = evmByProject.get(project.object_id);
+    if (!evm) return [];
+    const indices = evmIndices(evm);
+    return [{ project, evm, indices, status: projectStatus(indices.spi, indices.cpi) }];
+  });
+}
+
+export function portfolioHealth(projects: PortfolioProjectRow[], rated: RatedProject[]): PortfolioHealth {
+  const statuses = rated.map((project) => project.status);
+  const count = (status: ProjectComparison['status']) => statuses.filter((value) => value === status).length;
+
+  return {
+    status: portfolioStatus(statuses),
+    avgCPI: average(rated.map((project) => project.indices.cpi)),
+    avgSPI: average(rated.map((project) => project.indices.spi)),
+    totalProjects: projects.length,
+    onTrackCount: count('on_track'),
+    atRiskCount: count('at_risk'),
+    criticalCount: count('critical'),
+  };
+}
+
+export function projectBudgets(rated: RatedProject[]): ProjectBudget[] {
+  return rated.map(({ project, evm, indices }) => ({
+    projectId: String(project.object_id),
+    projectName: project.project_name,
+    bac: evm.bac,
+    actualCost: evm.ac,
+    earnedValue: evm.ev,
+    eac: indices.eac,
+  }));
+}
+
+export function projectComparisons(rated: RatedProject[]): ProjectComparison[] {
+  return rated.map(({ project, evm, indices, status }) => ({
+    projectId: String(project.object_id),
+    projectName: project.project_name,
+    percentComplete: project.percent_complete,
+    spi: indices.spi,
+    cpi: indices.cpi,
+    bac: evm.bac,
+    ac: evm.ac,
+    ev: evm.ev,
+    eac: indices.eac,
+    vac: indices.vac,
+    status,
+  }));
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+function listProjects({ mode, tenantId }: BffContext) {
+  return selectAllRows<PortfolioProjectRow>(mode, 'projects', () =>
+    fromTable(mode, 'projects')
+      .select('object_id, project_name, percent_complete')
+      .eq('tenant_id', tenantId)
+      .order('object_id')
+  );
+}
+
+/**
+ * Every tenant project, and the ones with a snapshot rated from their latest EVM
+ */
+async function loadPortfolio(ctx: BffContext) {
+  const projects = await listProjects(ctx);
+  const evmByProject = await loadProjectEvm(
+    ctx,
+    projects.map((project) => project.object_id)
+  );
+  return { projects, rated: rateProjects(projects, evmByProject) };
+}
+
+/**
+ * Per-currency totals summed in the database; `projectOnly` drops lines
+ * without a WBS element, which belong to no project
+ */
+function sapTotals({ mode, tenantId }: BffContext, table: MappedTable, projectOnly: boolean) {
+  return selectAllRows<Pick<SapLineRow, 'hsl' | 'rhcur'>>(mode, table, () => {
+    const query = fromTable(mode, table).select(SAP_TOTAL_COLUMNS).eq('tenant_id', tenantId);
+    return (projectOnly ? query.not('posid', 'is', null) : query).order('rhcur');
+  });
+}
+
+export async function getCfoHealth(ctx: BffContext): Promise<PortfolioHealth> {
+  const { projects, rated } = await loadPortfolio(ctx);
+  return portfolioHealth(projects, rated);
+}
+
+export async function getCfoFinancials(ctx: BffContext): Promise<PortfolioFinancials | null> {
+  const [snapshots, actuals, commitments, revenue] = await Promise.all([
+    loadPortfolio(ctx).then(({ rated }) => rated.map((project) => project.evm)),
+    sapTotals(ctx, 'sap_actuals', true),
+    sapTotals(ctx, 'sap_commitments', true),
+    sapTotals(ctx, 'sap_revenue', false),
+  ]);
+  if (actuals.length + commitments.length + revenue.length === 0) return null;
+
+  // One currency across all three tables, so each total below is in it too
+  const { currency } = sumSapLinesInOneCurrency([...actuals, ...commitments, ...revenue], 'the portfolio');
+  const sum = (lines: typeof actuals) => sumSapLinesInOneCurrency(lines, 'the portfolio').total;
+  const actualCosts = sum(actuals);
+  const revenueReceived = sum(revenue);
+  return {
+    totalBAC: round(snapshots.reduce((total, evm) => total + evm.bac, 0)),
+    actualCosts,
+    openCommitments: sum(commitments),
+    revenueReceived,
+    netCashPosition: round(revenueReceived - actualCosts),
+    currency,
+  };
+}
+
+export async function getCfoBudgets(ctx: BffContext): Promise<{ projects: ProjectBudget[] }> {
+  const { rated } = await loadPortfolio(ctx);
+  return { projects: projectBudgets(rated) };
+}
+
+export async function getCfoComparison(ctx: BffContext): Promise<{ projects: ProjectComparison[] }> {
+  const { rated } = await loadPortfolio(ctx);
+  return { projects: projectComparisons(rated) };
+}
@@ -0,0 +1,207 @@
+/**
+ * EVM BFF Derivations (server only)
+ * @governance DATA-001, CURRENCY-001
+ *
+ * Shared by the project dashboard and CFO routes so a project's indices
+ * and health status agree on every page. EVM figures come from the latest
+ * project snapshot. When the project is mapped to SAP, actual cost is the
+ * sum of its SAP actuals (company code currency) instead of the snapshot's
+ * AC, so CPI reflects posted cost.
+ *
+ * Nothing is invented (DATA-001): an index whose denominator is zero is null.
+ * Amounts in different currencies are never added (CURRENCY-001): lines that
+ * carry more than one currency answer 409 MIXED_CURRENCY.
+ */
+
+import { fromTable, selectAllRows } from '../db';
+import type { ProjectStatus } from '@/components/project/types';
+import { BffError, type BffContext } from './http';
+import type { WbsMappingRow } from './p6Wbs';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Project snapshot row (client_demo.project_snapshots / orion_evm.project_snapshots)
+ */
+export interface ProjectSnapshotRow {
+  project_object_id: number;
+  snapshot_date: string;
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+}
+
+/**
+ * SAP line amount in company code currency (HSL / RHCUR); also the shape of
+ * a grouped total, where `hsl` is the sum over the group
+ */
+export interface SapLineRow {
+  posid: string;
+  hsl: number | null;
+  rhcur: string | null;
+}
+
+/**
+ * HSL summed per WBS element and currency by PostgREST (aggregate functions
+ * must be enabled), so a ledger of millions of lines comes back as one row
+ * per element and currency
+ */
+export const SAP_TOTAL_BY_POSID_COLUMNS = 'posid, rhcur, hsl:hsl.sum()';
+
+/** HSL summed per currency */
+export const SAP_TOTAL_COLUMNS = 'rhcur, hsl:hsl.sum()';
+
+/** WBS elements per `in` filter, keeping the PostgREST query string short */
+const POSID_BATCH_SIZE = 200;
+
+// =============================================================================
+// DERIVATIONS
+// =============================================================================
+
+export const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+export const ratio = (numerator: number, denominator: number) => (denominator ? round(numerator / denominator) : null);
+
+/** Worst of SPI and CPI: below 0.9 is critical, below 0.95 at risk */
+export function projectStatus(spi: number | null, cpi: number | null): ProjectStatus | null {
+  if (spi === null || cpi === null) return null;
+  const worst = Math.min(spi, cpi);
+  if (worst < 0.9) return 'critical';
+  if (worst < 0.95) return 'at_risk';
+  return 'on_track';
+}
+
+/** Half schedule, half cost; indices above 1.0 earn no extra credit */
+export function healthScore(spi: number | null, cpi: number | null): number | null {
+  if (spi === null || cpi === null) return null;
+  return Math.round(50 * Math.min(spi, 1) + 50 * Math.min(cpi, 1));
+}
+
+export interface ProjectEvm {
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  /** Company code currency of the SAP actuals, when AC came from SAP */
+  currency: string | null;
+}
+
+export function evmIndices({ bac, pv, ev, ac }: ProjectEvm) {
+  const cpi = ratio(ev, ac);
+  const eac = cpi ? Math.round(bac / cpi) : null;
+  return {
+    spi: ratio(ev, pv),
+    cpi,
+    sv: ev - pv,
+    cv: ev - ac,
+    eac,
+    etc: eac === null ? null : eac - ac,
+    vac: eac === null ? null : bac - eac,
+    tcpi: ratio(bac - ev, bac - ac),
+  };
+}
+
+/**
+ * Sum of HSL in the lines' one currency; null currency without lines, and
+ * null when the lines carry more than one currency
+ */
+export function sumSapLines(lines: Pick<SapLineRow, 'hsl' | 'rhcur'>[]) {
+  const currencies = new Set(lines.flatMap((line) => (line.rhcur ? [line.rhcur] : [])));
+  if (currencies.size > 1) return null;
+  return {
+    total: round(lines.reduce((total, line) => total + (line.hsl ?? 0), 0)),
+    currency: currencies.values().next().value ?? null,
+  };
+}
+
+/**
+ * sumSapLines, answering 409 MIXED_CURRENCY when the lines for `subject`
+ * carry more than one currency
+ */
+export function sumSapLinesInOneCurrency(lines: Pick<SapLineRow, 'hsl' | 'rhcur'>[], subject: string) {
+  const sum = sumSapLines(lines);
+  if (!sum) {
+    throw new BffError(409, 'MIXED_CURRENCY', `SAP lines for ${subject} are posted in more than one currency`);
+  }
+  return sum;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Latest EVM per project; projects without a snapshot are absent
+ */
+export async function loadProjectEvm(
+  { mode, tenantId }: BffContext,
+  projectObjectIds: number[]
+): Promise<Map<number, ProjectEvm>> {
+  const result = new Map<number, ProjectEvm>();
+  if (projectObjectIds.length === 0) return result;
+
+  const [snapshots, mappings] = await Promise.all([
+    selectAllRows<ProjectSnapshotRow>(mode, 'project_snapshots', () =>
+      fromTable(mode, 'project_snapshots')
+        .select('project_object_id, snapshot_date, bac, pv, ev, ac')
+        .eq('tenant_id', tenantId)
+        .in('project_object_id', projectObjectIds)
+        .order('snapshot_date', { ascending: false })
+        .order('project_object_id')
+    ),
+    selectAllRows<Pick<WbsMappingRow, 'posid'> & { project_object_id: number }>(mode, 'wbs_mapping', () =>
+      fromTable(mode, 'wbs_mapping')
+        .select('project_object_id, posid')
+        .eq('tenant_id', tenantId)
+        .in('project_object_id', projectObjectIds)
+        .not('posid', 'is', null)
+        .order('project_object_id')
+        .order('wbs_object_id')
+    ),
+  ]);
+
+  for (const snapshot of snapshots) {
+    if (result.has(snapshot.project_object_id)) continue;
+    const { bac, pv, ev, ac } = snapshot;
+    result.set(snapshot.project_object_id, { bac, pv, ev, ac, currency: null });
+  }
+
+  const projectByPosid = new Map(mappings.map((mapping) => [mapping.posid as string, mapping.project_object_id]));
+  if (projectByPosid.size === 0) return result;
+
+  // Summed in the database per WBS element and currency; each SAP line posts
+  // to one WBS element, so summing across elements never double counts
+  const posids = [...projectByPosid.keys()];
+  const batches = Array.from({ length: Math.ceil(posids.length / POSID_BATCH_SIZE) }, (_, index) =>
+    posids.slice(index * POSID_BATCH_SIZE, (index + 1) * POSID_BATCH_SIZE)
+  );
+  const totals = await Promise.all(
+    batches.map((batch) =>
+      selectAllRows<SapLineRow>(mode, 'sap_actuals', () =>
+        fromTable(mode, 'sap_actuals')
+          .select(SAP_TOTAL_BY_POSID_COLUMNS)
+          .eq('tenant_id', tenantId)
+          .in('posid', batch)
+          .order('posid')
+          .order('rhcur')
+      )
+    )
+  );
+  const linesByProject = new Map<number, SapLineRow[]>();
+  for (const line of totals.flat()) {
+    const projectObjectId = projectByPosid.get(line.posid);
+    if (projectObjectId === undefined) continue;
+    const projectLines = linesByProject.get(projectObjectId);
+    if (projectLines) projectLines.push(line);
+    else linesByProject.set(projectObjectId, [line]);
+  }
+  for (const [projectObjectId, projectLines] of linesByProject) {
+    const evm = result.get(projectObjectId);
+    if (!evm) continue;
+    const { total, currency } = sumSapLinesInOneCurrency(projectLines, `project ${projectObjectId}`);
+    result.set(projectObjectId, { ...evm, ac: total, currency });
+  }
+  return result;
+}
@@ -0,0 +1,192 @@
+/**
+ * BFF Route Helpers (server only)
+ * @governance DATA-001, SEC-001
+ *
+ * Shared plumbing for the app/api/v1 route handlers that read the database
+ * directly instead of proxying to the Python backend: data mode and tenant
+ * resolution, query parameter parsing, and the backend's `{ detail, code }`
+ * error body with an X-Request-ID header.
+ *
+ * With ORION_MOCK_BACKEND=true these routes hand the request to the local
+ * mock backend: Next.js serves filesystem routes before the /api/v1
+ * rewrite, so they would otherwise shadow it with a database error.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getDataModeFromRequest, type DataMode } from '../dataMode';
+import { DatabaseNotConfiguredError, DatabaseQueryError } from '../db';
+import { TENANT_HEADER } from '../tenant';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BffContext {
+  mode: DataMode;
+  /** Session tenant forwarded by the middleware */
+  tenantId: string;
+  query: URLSearchParams;
+  requestId: string;
+}
+
+/** Resolves to the JSON body, or to a NextResponse for file downloads */
+type BffHandler<P> = (ctx: BffContext, params: P, request: NextRequest) => Promise<unknown>;
+
+/**
+ * Thrown by BFF handlers; rendered as the backend's `{ detail, code }` error body
+ */
+export class BffError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BffError';
+  }
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+export function bffErrorResponse(status: number, code: string, detail: string, requestId: string) {
+  return NextResponse.json({ detail, code }, { status, headers: { 'X-Request-ID': requestId } });
+}
+
+function toErrorResponse(error: unknown, requestId: string): NextResponse {
+  if (error instanceof BffError) {
+    return bffErrorResponse(error.status, error.code, error.message, requestId);
+  }
+  if (error instanceof DatabaseNotConfiguredError) {
+    return bffErrorResponse(503, 'DATABASE_UNAVAILABLE', 'Database is not configured', requestId);
+  }
+  // Query details stay in the server log - they name schemas and columns
+  console.error(`[BFF ${requestId}]`, error);
+  if (error instanceof DatabaseQueryError) {
+    return bffErrorResponse(502, 'DATABASE_ERROR', 'Database query failed', requestId);
+  }
+  return bffErrorResponse(500, 'INTERNAL_ERROR', 'Internal server error', requestId);
+}
+
+/**
+ * Wrap a BFF handler: resolves the data mode and session tenant, serializes
+ * the result as JSON (NextResponse results are sent as they are) and maps
+ * thrown errors onto `{ detail, code }`. Served by the mock backend instead
+ * when it is enabled.
+ */
+export function bffRoute<P extends Record<string, string> = Record<string, never>>(handler: BffHandler<P>) {
+  return async (request: NextRequest, segment: { params: Promise<P> }): Promise<Response> => {
+    const requestId = request.headers.get('X-Request-ID') ?? crypto.randomUUID();
+
+    // The middleware rejects /api/v1 requests without a session tenant,
+    // so a missing header means the route was reached around it
+    const tenantId = request.headers.get(TENANT_HEADER);
+    if (!tenantId) {
+      return bffErrorResponse(403, 'TENANT_REQUIRED', 'No tenant for this request', requestId);
+    }
+
+    // Imported lazily: the mock backend reuses BFF derivations that import this module
+    const mockBackend = await import('../mockBackend');
+    if (mockBackend.isMockBackendEnabled()) return mockBackend.getMockBackend().handleRequest(request);
+
+    try {
+      const ctx: BffContext = {
+        mode: getDataModeFromRequest(request),
+        tenantId,
+        query: request.nextUrl.searchParams,
+        requestId,
+      };
+      const body = await handler(ctx, await segment.params, request);
+      if (body instanceof NextResponse) {
+        body.headers.set('X-Request-ID', requestId);
+        return body;
+      }
+      return NextResponse.json(body, { headers: { 'X-Request-ID': requestId } });
+    } catch (error) {
+      return toErrorResponse(error, requestId);
+    }
+  };
+}
+
+// =============================================================================
+// QUERY PARAMETERS
+// =============================================================================
+
+/**
+ * Integer query parameter within [min, max]; absent means `fallback`
+ */
+export function intParam(
+  query: URLSearchParams,
+  name: string,
+  fallback: number,
+  { min = 1, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}
+): number {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new BffError(422, 'VALIDATION_ERROR', `${name} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Optional positive integer query parameter (object IDs); absent means null
+ */
+export function optionalIntParam(query: URLSearchParams, name: string): number | null {
+  const raw = query.get(name);
+  return raw === null || raw === '' ? null : intParam(query, name, 0);
+}
+
+/**
+ * Query parameter restricted to `values`; absent means `fallback`
+ */
+export function enumParam<const V extends string>(
+  query: URLSearchParams,
+  name: string,
+  values: readonly V[],
+  fallback: V
+): V {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return fallback;
+  if (!values.includes(raw as V)) {
+    throw new BffError(422, 'VALIDATION_ERROR', `${name} must be one of ${values.join(', ')}`);
+  }
+  return raw as V;
+}
+
+/**
+ * Optional ISO 8601 calendar date (YYYY-MM-DD) query parameter; absent means null
+ */
+export function dateParam(query: URLSearchParams, name: string): string | null {
+  const raw = query.get(name);
+  if (raw === null || raw === '') return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || Number.isNaN(Date.parse(raw))) {
+    throw new BffError(422, 'VALIDATION_ERROR', `${name} must be a date (YYYY-MM-DD)`);
+  }
+  return raw;
+}
+
+/**
+ * P6 object ID from a path segment
+ */
+export function idParam(value: string, name: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new BffError(422, 'VALIDATION_ERROR', `${name} must be a positive integer`);
+  }
+  return id;
+}
+
+/**
+ * Escape a user search term for a PostgREST `ilike` filter inside or():
+ * LIKE wildcards are matched literally and the value is double-quoted so
+ * commas and parentheses cannot break out of the filter.
+ */
+export function ilikeContains(column: string, term: string): string {
+  const literal = term.replace(/[\\%_]/g, (char) => `\\${char}`);
+  const quoted = `*${literal}*`.replace(/["\\]/g, (char) => `\\${char}`);
+  return `${column}.ilike."${quoted}"`;
+}
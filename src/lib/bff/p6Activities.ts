@@ -0,0 +1,385 @@
+/**
+ * P6 Activities BFF Queries (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * Backs GET /api/v1/p6/projects/{projectObjectId}/activities (GanttChart)
+ * and GET /api/v1/p6/projects/{projectObjectId}/activities/{activityObjectId}
+ * (GanttChart activity drawer). Reads the project's activities and
+ * relationships, normalizes P6 status, type and relationship codes, and
+ * fills each activity's predecessor and successor arrays. The detail adds
+ * the activity's resource assignments and its planned, actual and
+ * remaining cost.
+ *
+ * Filters narrow the activities only. Predecessors and successors always
+ * list an activity's full logic, while `relationships` keeps only the links
+ * whose both ends were returned, so every one can be drawn.
+ */
+
+import { fromTable, selectAllRows, selectRows } from '../db';
+import type {
+  ActivitiesResponse,
+  ActivityDetailResponse,
+  ActivityRelationship,
+  GanttActivity,
+} from '@/components/gantt/types';
+import { BffError, dateParam, enumParam, optionalIntParam, type BffContext } from './http';
+import { wbsSubtreeIds, type WbsTableRow } from './p6Wbs';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Activity row (client_demo.activities / p6_raw.activities)
+ */
+export interface ActivityTableRow {
+  id: string;
+  object_id: number;
+  project_object_id: number;
+  wbs_object_id: number;
+  activity_code: string;
+  activity_name: string;
+  /** P6 activity type, e.g. TT_Task or "Finish Milestone" */
+  activity_type: string;
+  /** P6 status, e.g. "Not Started" or NotStarted */
+  status: string | null;
+  percent_complete: number | null;
+  planned_start: string;
+  planned_finish: string;
+  actual_start: string | null;
+  actual_finish: string | null;
+  /** Days */
+  planned_duration: number | null;
+  /** Days */
+  remaining_duration: number | null;
+  /** Days; zero or negative float is critical */
+  total_float: number | null;
+}
+
+/**
+ * Relationship row (client_demo.activity_relationships / p6_raw.activity_relationships)
+ */
+export interface RelationshipTableRow {
+  predecessor_activity_object_id: number;
+  successor_activity_object_id: number;
+  /** P6 relationship type, e.g. PR_FS or "Finish to Start" */
+  type: string;
+  /** Days, negative for leads */
+  lag: number | null;
+}
+
+/**
+ * Activity cost columns, read for the activity detail only
+ */
+export interface ActivityCostRow {
+  planned_total_cost: number | null;
+  actual_total_cost: number | null;
+  remaining_total_cost: number | null;
+}
+
+/**
+ * Resource assignment row (client_demo.resource_assignments / p6_raw.resource_assignments)
+ */
+export interface ResourceAssignmentRow {
+  object_id: number;
+  /** Null for role-only assignments */
+  resource_object_id: number | null;
+  resource_name: string | null;
+  role_name: string | null;
+  /** Hours */
+  planned_units: number | null;
+}
+
+const ACTIVITY_COLUMNS =
+  'id, object_id, wbs_object_id, activity_code, activity_name, activity_type, status, percent_complete, ' +
+  'planned_start, planned_finish, actual_start, actual_finish, planned_duration, remaining_duration, total_float';
+const COST_COLUMNS = 'planned_total_cost, actual_total_cost, remaining_total_cost';
+const RELATIONSHIP_COLUMNS = 'predecessor_activity_object_id, successor_activity_object_id, type, lag';
+const ASSIGNMENT_COLUMNS = 'object_id, resource_object_id, resource_name, role_name, planned_units';
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+/** P6 API enums and display names, compared without spaces or case */
+const STATUSES: Record<string, GanttActivity['status']> = {
+  notstarted: 'not_started',
+  inprogress: 'in_progress',
+  active: 'in_progress',
+  completed: 'complete',
+  complete: 'complete',
+};
+
+const ACTIVITY_TYPES: Record<string, string> = {
+  TT_Task: 'Task Dependent',
+  TT_Rsrc: 'Resource Dependent',
+  TT_LOE: 'Level of Effort',
+  TT_Mile: 'Start Milestone',
+  TT_FinMile: 'Finish Milestone',
+  TT_WBS: 'WBS Summary',
+};
+
+const MILESTONE_TYPES = new Set(['Start Milestone', 'Finish Milestone']);
+
+const RELATIONSHIP_TYPES: Record<string, ActivityRelationship['type']> = {
+  PR_FS: 'FS',
+  PR_SS: 'SS',
+  PR_FF: 'FF',
+  PR_SF: 'SF',
+  finishtostart: 'FS',
+  starttostart: 'SS',
+  finishtofinish: 'FF',
+  starttofinish: 'SF',
+  FS: 'FS',
+  SS: 'SS',
+  FF: 'FF',
+  SF: 'SF',
+};
+
+const compact = (value: string) => value.replace(/[\s_-]/g, '').toLowerCase();
+
+/**
+ * P6 status -> GanttActivity status. Unrecognized values fall back to the
+ * actual dates, which P6 sets as work starts and finishes.
+ */
+export function normalizeActivityStatus(
+  row: Pick<ActivityTableRow, 'status' | 'actual_start' | 'actual_finish'>
+): GanttActivity['status'] {
+  const status = row.status ? STATUSES[compact(row.status)] : undefined;
+  if (status) return status;
+  if (row.actual_finish) return 'complete';
+  return row.actual_start ? 'in_progress' : 'not_started';
+}
+
+/**
+ * XER activity type code -> P6 API display name; display names pass through
+ */
+export function normalizeActivityType(type: string): string {
+  return ACTIVITY_TYPES[type] ?? type;
+}
+
+/**
+ * P6 relationship type -> FS/SS/FF/SF; P6 defaults new links to finish-to-start
+ */
+export function normalizeRelationshipType(type: string): ActivityRelationship['type'] {
+  return RELATIONSHIP_TYPES[type] ?? RELATIONSHIP_TYPES[compact(type)] ?? 'FS';
+}
+
+/**
+ * Predecessor and successor object IDs per activity
+ */
+export function relationshipLinks(relationships: RelationshipTableRow[]) {
+  const predecessors = new Map<number, number[]>();
+  const successors = new Map<number, number[]>();
+  for (const link of relationships) {
+    const { predecessor_activity_object_id: predecessor, successor_activity_object_id: successor } = link;
+    const into = predecessors.get(successor);
+    if (into) into.push(predecessor);
+    else predecessors.set(successor, [predecessor]);
+    const out = successors.get(predecessor);
+    if (out) out.push(successor);
+    else successors.set(predecessor, [successor]);
+  }
+  return { predecessors, successors };
+}
+
+export function toGanttActivity(
+  row: ActivityTableRow,
+  predecessors: Map<number, number[]>,
+  successors: Map<number, number[]>
+): GanttActivity {
+  const activityType = normalizeActivityType(row.activity_type);
+  return {
+    id: row.id,
+    objectId: row.object_id,
+    wbsObjectId: row.wbs_object_id,
+    activityId: row.activity_code,
+    name: row.activity_name,
+    activityType,
+    status: normalizeActivityStatus(row),
+    percentComplete: row.percent_complete,
+    plannedStart: row.planned_start,
+    plannedFinish: row.planned_finish,
+    actualStart: row.actual_start,
+    actualFinish: row.actual_finish,
+    plannedDuration: row.planned_duration,
+    remainingDuration: row.remaining_duration,
+    totalFloat: row.total_float,
+    isCritical: row.total_float !== null && row.total_float <= 0,
+    isMilestone: MILESTONE_TYPES.has(activityType),
+    predecessors: predecessors.get(row.object_id) ?? [],
+    successors: successors.get(row.object_id) ?? [],
+  };
+}
+
+export function toResourceAssignment(row: ResourceAssignmentRow): ActivityDetailResponse['resources'][number] {
+  return {
+    name: row.resource_name ?? 'Unassigned',
+    role: row.role_name,
+    units: row.planned_units,
+  };
+}
+
+export function toActivityRelationship(link: RelationshipTableRow): ActivityRelationship {
+  return {
+    predecessorObjectId: link.predecessor_activity_object_id,
+    successorObjectId: link.successor_activity_object_id,
+    type: normalizeRelationshipType(link.type),
+    lag: link.lag ?? 0,
+  };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * WBS, date-window and critical-only filters parsed from the query string.
+ * The window keeps activities whose planned dates overlap [from, to].
+ */
+export function parseActivitiesQuery(query: URLSearchParams) {
+  const filters = {
+    wbsObjectId: optionalIntParam(query, 'wbsObjectId'),
+    from: dateParam(query, 'from'),
+    to: dateParam(query, 'to'),
+    criticalOnly: enumParam(query, 'criticalOnly', ['true', 'false'], 'false') === 'true',
+  };
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new BffError(422, 'VALIDATION_ERROR', 'from must not be after to');
+  }
+  return filters;
+}
+
+async function projectDataDate(ctx: BffContext, projectObjectId: number): Promise<string> {
+  const { rows } = await selectRows<{ data_date: string }>(
+    ctx.mode,
+    'projects',
+    fromTable(ctx.mode, 'projects')
+      .select('data_date')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('object_id', projectObjectId)
+      .limit(1)
+  );
+  if (!rows[0]) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectObjectId} not found`);
+  }
+  return rows[0].data_date;
+}
+
+async function filterWbsIds(ctx: BffContext, projectObjectId: number, wbsObjectId: number): Promise<number[]> {
+  const wbsRows = await selectAllRows<Pick<WbsTableRow, 'object_id' | 'parent_object_id'>>(ctx.mode, 'wbs', () =>
+    fromTable(ctx.mode, 'wbs')
+      .select('object_id, parent_object_id')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('object_id')
+  );
+  if (!wbsRows.some((row) => row.object_id === wbsObjectId)) {
+    throw new BffError(404, 'WBS_NOT_FOUND', `WBS ${wbsObjectId} not found in project ${projectObjectId}`);
+  }
+  return wbsSubtreeIds(wbsRows, wbsObjectId);
+}
+
+export async function listP6Activities(ctx: BffContext, projectObjectId: number): Promise<ActivitiesResponse> {
+  const { mode, tenantId, query } = ctx;
+  const { wbsObjectId, from, to, criticalOnly } = parseActivitiesQuery(query);
+
+  const [dataDate, wbsIds] = await Promise.all([
+    projectDataDate(ctx, projectObjectId),
+    wbsObjectId === null ? null : filterWbsIds(ctx, projectObjectId, wbsObjectId),
+  ]);
+
+  const [rows, relationshipRows] = await Promise.all([
+    selectAllRows<ActivityTableRow>(mode, 'activities', () => {
+      let builder = fromTable(mode, 'activities')
+        .select(ACTIVITY_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId);
+      if (wbsIds) builder = builder.in('wbs_object_id', wbsIds);
+      if (from) builder = builder.gte('planned_finish', from);
+      if (to) builder = builder.lte('planned_start', to);
+      if (criticalOnly) builder = builder.lte('total_float', 0);
+      return builder.order('planned_start').order('object_id');
+    }),
+    selectAllRows<RelationshipTableRow>(mode, 'activity_relationships', () =>
+      fromTable(mode, 'activity_relationships')
+        .select(RELATIONSHIP_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId)
+        .order('object_id')
+    ),
+  ]);
+
+  const { predecessors, successors } = relationshipLinks(relationshipRows);
+
+  const returned = new Set(rows.map((row) => row.object_id));
+  const relationships = relationshipRows
+    .filter(
+      (link) => returned.has(link.predecessor_activity_object_id) && returned.has(link.successor_activity_object_id)
+    )
+    .map(toActivityRelationship);
+
+  return {
+    activities: rows.map((row) => toGanttActivity(row, predecessors, successors)),
+    relationships,
+    dataDate,
+    totalCount: rows.length,
+  };
+}
+
+export async function getP6ActivityDetail(
+  ctx: BffContext,
+  projectObjectId: number,
+  activityObjectId: number
+): Promise<ActivityDetailResponse> {
+  const { mode, tenantId } = ctx;
+
+  const [{ rows }, relationshipRows, assignments] = await Promise.all([
+    selectRows<ActivityTableRow & ActivityCostRow>(
+      mode,
+      'activities',
+      fromTable(mode, 'activities')
+        .select(`${ACTIVITY_COLUMNS}, ${COST_COLUMNS}`)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId)
+        .eq('object_id', activityObjectId)
+        .limit(1)
+    ),
+    selectAllRows<RelationshipTableRow>(mode, 'activity_relationships', () =>
+      fromTable(mode, 'activity_relationships')
+        .select(RELATIONSHIP_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId)
+        .or(`predecessor_activity_object_id.eq.${activityObjectId},successor_activity_object_id.eq.${activityObjectId}`)
+        .order('object_id')
+    ),
+    selectAllRows<ResourceAssignmentRow>(mode, 'resource_assignments', () =>
+      fromTable(mode, 'resource_assignments')
+        .select(ASSIGNMENT_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId)
+        .eq('activity_object_id', activityObjectId)
+        .order('object_id')
+    ),
+  ]);
+
+  const row = rows[0];
+  if (!row) {
+    throw new BffError(
+      404,
+      'ACTIVITY_NOT_FOUND',
+      `Activity ${activityObjectId} not found in project ${projectObjectId}`
+    );
+  }
+
+  const { predecessors, successors } = relationshipLinks(relationshipRows);
+  return {
+    activity: toGanttActivity(row, predecessors, successors),
+    resources: assignments.map(toResourceAssignment),
+    costs: {
+      plannedCost: row.planned_total_cost,
+      actualCost: row.actual_total_cost,
+      remainingCost: row.remaining_total_cost,
+    },
+  };
+}
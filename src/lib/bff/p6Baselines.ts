@@ -0,0 +1,259 @@
+/**
+ * Schedule Baselines BFF Queries (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * Backs GET /api/v1/p6/projects/{projectObjectId}/baselines and
+ * GET /api/v1/p6/projects/{projectObjectId}/baselines/{baselineId}
+ * (GanttChart baseline bars). A project compares against two kinds of
+ * baseline:
+ * - P6 baseline projects (BaselineService): copies of the project kept in
+ *   P6 and synced with their own activities. Baseline activities carry their
+ *   own object IDs, so they are matched to the project's by activity ID, as
+ *   P6 does.
+ * - ORION sync snapshots: the project's activity dates as a sync left them,
+ *   keyed by the project's activity object IDs.
+ *
+ * A baseline date is the actual date once the work had started or finished
+ * and the planned date before.
+ */
+
+import { fromTable, selectAllRows, selectRows } from '../db';
+import type {
+  BaselineActivity,
+  BaselineScheduleResponse,
+  BaselinesResponse,
+  ScheduleBaseline,
+} from '@/components/gantt/types';
+import { BffError, type BffContext } from './http';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Baseline project row (client_demo.baseline_projects / p6_raw.baseline_projects)
+ */
+export interface BaselineProjectRow {
+  object_id: number;
+  /** Project the baseline was copied from */
+  original_project_object_id: number;
+  name: string;
+  /** P6 baseline type, e.g. "Initial Planning Baseline" */
+  baseline_type: string | null;
+  last_update_date: string | null;
+}
+
+/**
+ * Sync snapshot row (client_demo.schedule_snapshots / orion_sync.schedule_snapshots)
+ */
+export interface ScheduleSnapshotRow {
+  snapshot_id: number;
+  project_object_id: number;
+  batch_id: string;
+  captured_at: string;
+}
+
+/**
+ * Activity dates in a baseline: baseline project activities
+ * (client_demo.activities / p6_raw.activities) and snapshot activities
+ * (client_demo.activity_snapshots / orion_sync.activity_snapshots)
+ */
+export interface BaselineActivityRow {
+  object_id: number;
+  activity_code: string;
+  planned_start: string;
+  planned_finish: string;
+  actual_start: string | null;
+  actual_finish: string | null;
+}
+
+const BASELINE_COLUMNS = 'object_id, original_project_object_id, name, baseline_type, last_update_date';
+const SNAPSHOT_COLUMNS = 'snapshot_id, project_object_id, batch_id, captured_at';
+const DATE_COLUMNS = 'object_id, activity_code, planned_start, planned_finish, actual_start, actual_finish';
+
+/** Sync snapshots offered per project, newest first */
+export const MAX_SNAPSHOTS = 30;
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function fromBaselineProject(row: BaselineProjectRow): ScheduleBaseline {
+  return {
+    id: `p6-${row.object_id}`,
+    source: 'p6',
+    name: row.name,
+    baselineType: row.baseline_type,
+    date: row.last_update_date,
+  };
+}
+
+function fromSnapshot(row: ScheduleSnapshotRow): ScheduleBaseline {
+  return {
+    id: `sync-${row.snapshot_id}`,
+    source: 'sync',
+    name: `ORION sync ${row.captured_at.slice(0, 10)}`,
+    baselineType: null,
+    date: row.captured_at,
+  };
+}
+
+const baselineDates = (row: BaselineActivityRow) => ({
+  start: row.actual_start ?? row.planned_start,
+  finish: row.actual_finish ?? row.planned_finish,
+});
+
+/**
+ * "p6-5001" / "sync-12" -> source and ID
+ */
+export function parseBaselineId(value: string): { source: ScheduleBaseline['source']; id: number } {
+  const match = /^(p6|sync)-(\d+)$/.exec(value);
+  const id = match ? Number(match[2]) : 0;
+  if (!match || !Number.isSafeInteger(id) || id <= 0) {
+    throw new BffError(422, 'VALIDATION_ERROR', 'baselineId must be p6-{objectId} or sync-{snapshotId}');
+  }
+  return { source: match[1] as ScheduleBaseline['source'], id };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+async function requireProject(ctx: BffContext, projectObjectId: number): Promise<void> {
+  const { rows } = await selectRows<{ object_id: number }>(
+    ctx.mode,
+    'projects',
+    fromTable(ctx.mode, 'projects')
+      .select('object_id')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('object_id', projectObjectId)
+      .limit(1)
+  );
+  if (!rows[0]) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectObjectId} not found`);
+  }
+}
+
+export async function listBaselines(ctx: BffContext, projectObjectId: number): Promise<BaselinesResponse> {
+  const { mode, tenantId } = ctx;
+  const [, baselines, { rows: snapshots }] = await Promise.all([
+    requireProject(ctx, projectObjectId),
+    selectAllRows<BaselineProjectRow>(mode, 'baseline_projects', () =>
+      fromTable(mode, 'baseline_projects')
+        .select(BASELINE_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('original_project_object_id', projectObjectId)
+        .order('last_update_date', { ascending: false, nullsFirst: false })
+        .order('object_id')
+    ),
+    selectRows<ScheduleSnapshotRow>(
+      mode,
+      'schedule_snapshots',
+      fromTable(mode, 'schedule_snapshots')
+        .select(SNAPSHOT_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', projectObjectId)
+        .order('captured_at', { ascending: false })
+        .limit(MAX_SNAPSHOTS)
+    ),
+  ]);
+
+  return { baselines: [...baselines.map(fromBaselineProject), ...snapshots.map(fromSnapshot)] };
+}
+
+/** P6 baseline project dates, matched to the project's activities by activity ID */
+async function baselineProjectDates(
+  ctx: BffContext,
+  projectObjectId: number,
+  baselineObjectId: number
+): Promise<BaselineScheduleResponse> {
+  const { mode, tenantId } = ctx;
+  const activityRows = (objectId: number, columns: string) => () =>
+    fromTable(mode, 'activities')
+      .select(columns)
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', objectId)
+      .order('object_id');
+
+  const [{ rows: baselines }, current, baselineRows] = await Promise.all([
+    selectRows<BaselineProjectRow>(
+      mode,
+      'baseline_projects',
+      fromTable(mode, 'baseline_projects')
+        .select(BASELINE_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('object_id', baselineObjectId)
+        .eq('original_project_object_id', projectObjectId)
+        .limit(1)
+    ),
+    selectAllRows<Pick<BaselineActivityRow, 'object_id' | 'activity_code'>>(
+      mode,
+      'activities',
+      activityRows(projectObjectId, 'object_id, activity_code')
+    ),
+    selectAllRows<BaselineActivityRow>(mode, 'activities', activityRows(baselineObjectId, DATE_COLUMNS)),
+  ]);
+  if (!baselines[0]) {
+    throw new BffError(
+      404,
+      'BASELINE_NOT_FOUND',
+      `Baseline p6-${baselineObjectId} not found for project ${projectObjectId}`
+    );
+  }
+
+  const byCode = new Map(baselineRows.map((row) => [row.activity_code, row]));
+  const activities = current.flatMap((row): BaselineActivity[] => {
+    const baseline = byCode.get(row.activity_code);
+    return baseline ? [{ objectId: row.object_id, ...baselineDates(baseline) }] : [];
+  });
+  return { baseline: fromBaselineProject(baselines[0]), activities };
+}
+
+/** Sync snapshot dates, already keyed by the project's activity object IDs */
+async function snapshotDates(
+  ctx: BffContext,
+  projectObjectId: number,
+  snapshotId: number
+): Promise<BaselineScheduleResponse> {
+  const { mode, tenantId } = ctx;
+  const [{ rows: snapshots }, rows] = await Promise.all([
+    selectRows<ScheduleSnapshotRow>(
+      mode,
+      'schedule_snapshots',
+      fromTable(mode, 'schedule_snapshots')
+        .select(SNAPSHOT_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('snapshot_id', snapshotId)
+        .eq('project_object_id', projectObjectId)
+        .limit(1)
+    ),
+    selectAllRows<BaselineActivityRow>(mode, 'activity_snapshots', () =>
+      fromTable(mode, 'activity_snapshots')
+        .select(DATE_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('snapshot_id', snapshotId)
+        .order('object_id')
+    ),
+  ]);
+  if (!snapshots[0]) {
+    throw new BffError(
+      404,
+      'BASELINE_NOT_FOUND',
+      `Baseline sync-${snapshotId} not found for project ${projectObjectId}`
+    );
+  }
+
+  return {
+    baseline: fromSnapshot(snapshots[0]),
+    activities: rows.map((row) => ({ objectId: row.object_id, ...baselineDates(row) })),
+  };
+}
+
+export function getBaselineSchedule(
+  ctx: BffContext,
+  projectObjectId: number,
+  baselineId: string
+): Promise<BaselineScheduleResponse> {
+  const { source, id } = parseBaselineId(baselineId);
+  return source === 'p6' ? baselineProjectDates(ctx, projectObjectId, id) : snapshotDates(ctx, projectObjectId, id);
+}
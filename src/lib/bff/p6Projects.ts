@@ -0,0 +1,176 @@
+/**
+ * P6 Projects BFF Queries (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * Backs GET /api/v1/p6/projects and GET /api/v1/p6/projects/statuses
+ * (ProjectsDataTable). Reads the projects table chosen by
+ * getMappedTable(mode, 'projects') and pages, sorts and filters it in the
+ * database, so totals always describe the filtered set.
+ */
+
+import { DatabaseQueryError, fromTable, selectRows } from '../db';
+import type {
+  P6Project,
+  ProjectsResponse,
+  SortableColumn,
+  StatusesResponse,
+} from '@/components/project-list/types';
+import { enumParam, ilikeContains, intParam, optionalIntParam, type BffContext } from './http';
+
+// =============================================================================
+// TABLE ROW
+// =============================================================================
+
+/**
+ * Projects table row (client_demo.projects / orion_core.projects)
+ */
+export interface ProjectTableRow {
+  id: string;
+  tenant_id: string;
+  object_id: number;
+  project_code: string;
+  project_name: string;
+  status: string;
+  percent_complete: number;
+  planned_start: string;
+  planned_finish: string;
+  actual_start: string | null;
+  data_date: string;
+  eps_object_id: number | null;
+  bac: number;
+  spi: number | null;
+  cpi: number | null;
+}
+
+/** The columns a P6Project is read from */
+export type P6ProjectRow = Omit<ProjectTableRow, 'tenant_id' | 'eps_object_id'>;
+
+const PROJECT_COLUMNS =
+  'id, object_id, project_code, project_name, status, percent_complete, planned_start, ' +
+  'planned_finish, actual_start, data_date, bac, spi, cpi';
+
+/** SortableColumn -> projects table column */
+export const SORT_COLUMNS: Record<SortableColumn, keyof P6ProjectRow> = {
+  name: 'project_name',
+  status: 'status',
+  percentComplete: 'percent_complete',
+  plannedStart: 'planned_start',
+  plannedFinish: 'planned_finish',
+  spi: 'spi',
+  cpi: 'cpi',
+  budgetAtCompletion: 'bac',
+};
+
+const SORTABLE_COLUMNS = Object.keys(SORT_COLUMNS) as SortableColumn[];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/** PostgREST: requested range starts past the last row */
+const RANGE_NOT_SATISFIABLE = 'PGRST103';
+
+export function toP6Project(row: P6ProjectRow): P6Project {
+  return {
+    id: row.id,
+    objectId: row.object_id,
+    projectId: row.project_code,
+    name: row.project_name,
+    status: row.status,
+    percentComplete: row.percent_complete,
+    plannedStart: row.planned_start,
+    plannedFinish: row.planned_finish,
+    actualStart: row.actual_start,
+    dataDate: row.data_date,
+    budgetAtCompletion: row.bac,
+    spi: row.spi,
+    cpi: row.cpi,
+  };
+}
+
+/**
+ * Status filter options with project counts, most common first
+ */
+export function statusOptions(statuses: string[]): StatusesResponse {
+  const counts = new Map<string, number>();
+  for (const status of statuses) {
+    if (status) counts.set(status, (counts.get(status) ?? 0) + 1);
+  }
+
+  return [...counts]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([value, count]) => ({ value, label: value, count }));
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Page, sorting and FilterState parsed from the query string
+ */
+export function parseProjectsQuery(query: URLSearchParams) {
+  return {
+    page: intParam(query, 'page', 1),
+    pageSize: intParam(query, 'pageSize', DEFAULT_PAGE_SIZE, { max: MAX_PAGE_SIZE }),
+    sortBy: enumParam(query, 'sortBy', SORTABLE_COLUMNS, 'name'),
+    sortDir: enumParam(query, 'sortDir', ['asc', 'desc'], 'asc'),
+    status: query.get('status') || null,
+    epsId: optionalIntParam(query, 'epsId'),
+    search: query.get('search')?.trim() ?? '',
+  };
+}
+
+export async function listP6Projects({ mode, tenantId, query }: BffContext): Promise<ProjectsResponse> {
+  const { page, pageSize, sortBy, sortDir, status, epsId, search } = parseProjectsQuery(query);
+
+  const filtered = (columns: string, options: { count?: 'exact'; head?: boolean }) => {
+    let builder = fromTable(mode, 'projects').select(columns, options).eq('tenant_id', tenantId);
+    if (status) builder = builder.eq('status', status);
+    if (epsId !== null) builder = builder.eq('eps_object_id', epsId);
+    if (search) {
+      builder = builder.or(`${ilikeContains('project_name', search)},${ilikeContains('project_code', search)}`);
+    }
+    return builder;
+  };
+
+  const from = (page - 1) * pageSize;
+  let rows: P6ProjectRow[];
+  let total: number;
+  try {
+    const result = await selectRows<P6ProjectRow>(
+      mode,
+      'projects',
+      filtered(PROJECT_COLUMNS, { count: 'exact' })
+        .order(SORT_COLUMNS[sortBy], { ascending: sortDir === 'asc', nullsFirst: false })
+        // Tie-break on the object ID so rows never shift between pages
+        .order('object_id', { ascending: true })
+        .range(from, from + pageSize - 1)
+    );
+    rows = result.rows;
+    total = result.count ?? rows.length;
+  } catch (error) {
+    if (!(error instanceof DatabaseQueryError && error.code === RANGE_NOT_SATISFIABLE)) throw error;
+    // Past the last page: an empty page that still reports the real total
+    rows = [];
+    total = (await selectRows(mode, 'projects', filtered('id', { count: 'exact', head: true }))).count ?? 0;
+  }
+
+  return {
+    data: rows.map(toP6Project),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  };
+}
+
+export async function listP6ProjectStatuses({ mode, tenantId }: BffContext): Promise<StatusesResponse> {
+  const { rows } = await selectRows<Pick<ProjectTableRow, 'status'>>(
+    mode,
+    'projects',
+    fromTable(mode, 'projects').select('status').eq('tenant_id', tenantId)
+  );
+  return statusOptions(rows.map((row) => row.status));
+}
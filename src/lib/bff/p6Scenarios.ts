@@ -0,0 +1,287 @@
+/**
+ * What-if Scenarios BFF Queries (server only)
+ * @governance DATA-001, SEC-001, DOC-002
+ *
+ * Backs GET/POST /api/v1/p6/projects/{projectObjectId}/scenarios and
+ * PUT/DELETE /api/v1/p6/projects/{projectObjectId}/scenarios/{scenarioId}
+ * (GanttChart what-if sandbox). A scenario is a named set of edits to a
+ * project's schedule - dragged starts, durations and lags - kept by ORION
+ * and never written back to P6. The client reschedules the synced schedule
+ * with them, so a scenario stays comparable as P6 moves on.
+ *
+ * Scenarios belong to the signed-in user: every query is scoped to the
+ * session's user as well as the tenant, and other users' scenarios read
+ * as not found.
+ */
+
+import { fromTable, selectRows } from '../db';
+import { resolveTenant } from '../tenant';
+import type {
+  ActivityEdit,
+  RelationshipEdit,
+  ScenarioEdits,
+  ScenarioInput,
+  ScenariosResponse,
+  ScheduleScenario,
+} from '@/components/gantt/types';
+import { BffError, type BffContext } from './http';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Scenario row (client_demo.schedule_scenarios / orion_core.schedule_scenarios)
+ */
+export interface ScenarioRow {
+  scenario_id: number;
+  project_object_id: number;
+  /** Clerk user ID of the owner */
+  user_id: string;
+  name: string;
+  /** jsonb, ScenarioEdits */
+  edits: ScenarioEdits;
+  created_at: string;
+  updated_at: string;
+}
+
+const SCENARIO_COLUMNS = 'scenario_id, project_object_id, user_id, name, edits, created_at, updated_at';
+
+export const MAX_NAME_LENGTH = 100;
+/** Activity and relationship edits allowed in one scenario */
+export const MAX_EDITS = 5000;
+/** Scenarios listed per user and project, most recently updated first */
+export const MAX_SCENARIOS = 50;
+
+const RELATIONSHIP_TYPES: ReadonlyArray<RelationshipEdit['type']> = ['FS', 'SS', 'FF', 'SF'];
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function fromScenarioRow(row: ScenarioRow): ScheduleScenario {
+  return {
+    id: row.scenario_id,
+    projectObjectId: row.project_object_id,
+    name: row.name,
+    edits: row.edits,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const invalid = (detail: string) => new BffError(422, 'VALIDATION_ERROR', detail);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isObjectId = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value > 0;
+
+const isDays = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function parseActivityEdit(value: unknown): ActivityEdit {
+  if (!isObject(value) || !isObjectId(value.objectId)) {
+    throw invalid('Activity edits need a positive integer objectId');
+  }
+  const edit: ActivityEdit = { objectId: value.objectId };
+  if (value.startOnOrAfter !== undefined) {
+    if (typeof value.startOnOrAfter !== 'string' || Number.isNaN(Date.parse(value.startOnOrAfter))) {
+      throw invalid('startOnOrAfter must be an ISO 8601 date');
+    }
+    edit.startOnOrAfter = value.startOnOrAfter;
+  }
+  if (value.duration !== undefined) {
+    if (!isDays(value.duration) || value.duration < 0) {
+      throw invalid('duration must be a number of days, 0 or more');
+    }
+    edit.duration = value.duration;
+  }
+  return edit;
+}
+
+function parseRelationshipEdit(value: unknown): RelationshipEdit {
+  if (!isObject(value) || !isObjectId(value.predecessorObjectId) || !isObjectId(value.successorObjectId)) {
+    throw invalid('Relationship edits need positive integer predecessorObjectId and successorObjectId');
+  }
+  if (!RELATIONSHIP_TYPES.includes(value.type as RelationshipEdit['type'])) {
+    throw invalid('Relationship type must be FS, SS, FF or SF');
+  }
+  if (!isDays(value.lag)) {
+    throw invalid('lag must be a number of days');
+  }
+  return {
+    predecessorObjectId: value.predecessorObjectId,
+    successorObjectId: value.successorObjectId,
+    type: value.type as RelationshipEdit['type'],
+    lag: value.lag,
+  };
+}
+
+/**
+ * Validate a create or update body, keeping only the known fields
+ */
+export function parseScenarioInput(body: unknown): ScenarioInput {
+  if (!isObject(body)) throw invalid('The request body must be a JSON object');
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw invalid(`name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const { edits } = body;
+  if (!isObject(edits) || !Array.isArray(edits.activities) || !Array.isArray(edits.relationships)) {
+    throw invalid('edits must have activities and relationships arrays');
+  }
+  if (edits.activities.length + edits.relationships.length > MAX_EDITS) {
+    throw invalid(`A scenario is limited to ${MAX_EDITS} edits`);
+  }
+
+  return {
+    name,
+    edits: {
+      activities: edits.activities.map(parseActivityEdit),
+      relationships: edits.relationships.map(parseRelationshipEdit),
+    },
+  };
+}
+
+async function readInput(request: Request): Promise<ScenarioInput> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw invalid('The request body must be JSON');
+  }
+  return parseScenarioInput(body);
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/** Clerk user behind the request; the middleware only guarantees a tenant */
+async function sessionUserId(): Promise<string> {
+  const session = await resolveTenant();
+  if (!session) throw new BffError(401, 'UNAUTHENTICATED', 'Not signed in');
+  return session.userId;
+}
+
+async function requireProject(ctx: BffContext, projectObjectId: number): Promise<void> {
+  const { rows } = await selectRows<{ object_id: number }>(
+    ctx.mode,
+    'projects',
+    fromTable(ctx.mode, 'projects')
+      .select('object_id')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('object_id', projectObjectId)
+      .limit(1)
+  );
+  if (!rows[0]) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectObjectId} not found`);
+  }
+}
+
+/** The one scenario a write touched, or 404 when it is not the user's */
+function writtenScenario(rows: ScenarioRow[], projectObjectId: number, scenarioId: number): ScheduleScenario {
+  if (!rows[0]) {
+    throw new BffError(404, 'SCENARIO_NOT_FOUND', `Scenario ${scenarioId} not found for project ${projectObjectId}`);
+  }
+  return fromScenarioRow(rows[0]);
+}
+
+export async function listScenarios(ctx: BffContext, projectObjectId: number): Promise<ScenariosResponse> {
+  const { mode, tenantId } = ctx;
+  const userId = await sessionUserId();
+  const [, { rows }] = await Promise.all([
+    requireProject(ctx, projectObjectId),
+    selectRows<ScenarioRow>(
+      mode,
+      'schedule_scenarios',
+      fromTable(mode, 'schedule_scenarios')
+        .select(SCENARIO_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('user_id', userId)
+        .eq('project_object_id', projectObjectId)
+        .order('updated_at', { ascending: false })
+        .order('scenario_id', { ascending: false })
+        .limit(MAX_SCENARIOS)
+    ),
+  ]);
+
+  return { scenarios: rows.map(fromScenarioRow) };
+}
+
+export async function createScenario(
+  ctx: BffContext,
+  projectObjectId: number,
+  request: Request
+): Promise<ScheduleScenario> {
+  const { mode, tenantId } = ctx;
+  const [input, userId] = await Promise.all([readInput(request), sessionUserId()]);
+  await requireProject(ctx, projectObjectId);
+
+  const { rows } = await selectRows<ScenarioRow>(
+    mode,
+    'schedule_scenarios',
+    fromTable(mode, 'schedule_scenarios')
+      .insert({
+        tenant_id: tenantId,
+        user_id: userId,
+        project_object_id: projectObjectId,
+        name: input.name,
+        edits: input.edits,
+      })
+      .select(SCENARIO_COLUMNS)
+  );
+  return fromScenarioRow(rows[0]);
+}
+
+export async function updateScenario(
+  ctx: BffContext,
+  projectObjectId: number,
+  scenarioId: number,
+  request: Request
+): Promise<ScheduleScenario> {
+  const { mode, tenantId } = ctx;
+  const [input, userId] = await Promise.all([readInput(request), sessionUserId()]);
+
+  const { rows } = await selectRows<ScenarioRow>(
+    mode,
+    'schedule_scenarios',
+    fromTable(mode, 'schedule_scenarios')
+      .update({ name: input.name, edits: input.edits, updated_at: new Date().toISOString() })
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('project_object_id', projectObjectId)
+      .eq('scenario_id', scenarioId)
+      .select(SCENARIO_COLUMNS)
+  );
+  return writtenScenario(rows, projectObjectId, scenarioId);
+}
+
+export async function deleteScenario(
+  ctx: BffContext,
+  projectObjectId: number,
+  scenarioId: number
+): Promise<ScheduleScenario> {
+  const { mode, tenantId } = ctx;
+  const userId = await sessionUserId();
+
+  const { rows } = await selectRows<ScenarioRow>(
+    mode,
+    'schedule_scenarios',
+    fromTable(mode, 'schedule_scenarios')
+      .delete()
+      .eq('tenant_id', tenantId)
+      .eq('user_id', userId)
+      .eq('project_object_id', projectObjectId)
+      .eq('scenario_id', scenarioId)
+      .select(SCENARIO_COLUMNS)
+  );
+  return writtenScenario(rows, projectObjectId, scenarioId);
+}
@@ -0,0 +1,443 @@
+/**
+ * P6 WBS BFF Queries (server only)
+ * @governance DATA-001, DOC-002, CURRENCY-001
+ *
+ * Backs GET /api/v1/p6/projects/{projectObjectId}/wbs (WBSTree) and
+ * GET /api/v1/p6/wbs/{wbsObjectId} (WBSDetailPanel). P6 stores WBS
+ * elements flat, so the tree is assembled here: children are ordered by
+ * sequence number, and activity counts, costs and progress are rolled up
+ * from the activities beneath each element.
+ *
+ * Progress is cost-weighted by budget at completion, falling back to a
+ * plain average when the activities carry no budget. Nothing is invented
+ * (DATA-001): a cost total is null once any activity beneath lacks that
+ * cost, progress only averages the activities that report a percent, and
+ * an element without activities has neither.
+ */
+
+import { fromTable, selectAllRows, selectRows, type MappedTable } from '../db';
+import type { DataMode } from '../dataMode';
+import type { WBSDetail, WBSNode, WBSSAPFinancials, WBSSAPMapping, WBSTreeResponse } from '@/components/wbs-tree/types';
+import { BffError, type BffContext } from './http';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * WBS row (client_demo.wbs / p6_raw.wbs)
+ */
+export interface WbsTableRow {
+  id: string;
+  object_id: number;
+  project_object_id: number;
+  /** Null (or the project node) for top-level elements */
+  parent_object_id: number | null;
+  code: string;
+  name: string;
+  status: string;
+  sequence_number: number;
+}
+
+/**
+ * Activity columns rolled up into the WBS (client_demo.activities / p6_raw.activities)
+ */
+export interface WbsActivityRow {
+  object_id: number;
+  wbs_object_id: number | null;
+  percent_complete: number | null;
+  budget_at_completion: number | null;
+  planned_total_cost: number | null;
+  actual_total_cost: number | null;
+  remaining_total_cost: number | null;
+  planned_start: string | null;
+  planned_finish: string | null;
+}
+
+/**
+ * P6 WBS -> SAP WBS element mapping (orion_xconf.wbs_mapping)
+ */
+export interface WbsMappingRow {
+  wbs_object_id: number;
+  posid: string | null;
+  post1: string | null;
+  mapping_strategy: string | null;
+  confidence_score: number | null;
+  is_verified: boolean;
+}
+
+/**
+ * SAP amount line in company code currency (HSL) for a WBS element
+ * (sap_raw.bpge budget / sap_raw.acdoca actuals / sap_raw.cooi commitments)
+ */
+interface SapAmountRow {
+  hsl: number | null;
+}
+
+const WBS_COLUMNS = 'id, object_id, project_object_id, parent_object_id, code, name, status, sequence_number';
+const ACTIVITY_COLUMNS =
+  'object_id, wbs_object_id, percent_complete, budget_at_completion, planned_total_cost, ' +
+  'actual_total_cost, remaining_total_cost, planned_start, planned_finish';
+const MAPPING_COLUMNS = 'wbs_object_id, posid, post1, mapping_strategy, confidence_score, is_verified';
+
+// =============================================================================
+// HIERARCHY
+// =============================================================================
+
+interface Rollup {
+  activityCount: number;
+  activityIds: number[];
+  /** Cost totals; null once an activity beneath lacks the cost */
+  budgetAtCompletion: number | null;
+  plannedTotalCost: number | null;
+  actualTotalCost: number | null;
+  remainingTotalCost: number | null;
+  /** Sum of percent complete x budget, over activities reporting both */
+  earnedWeight: number;
+  /** Sum of budget over the same activities */
+  weightedBudget: number;
+  /** Sum and count of reported percents, for the unweighted fallback */
+  percentSum: number;
+  percentCount: number;
+  plannedStart: string | null;
+  plannedFinish: string | null;
+}
+
+function emptyRollup(): Rollup {
+  return {
+    activityCount: 0,
+    activityIds: [],
+    budgetAtCompletion: 0,
+    plannedTotalCost: 0,
+    actualTotalCost: 0,
+    remainingTotalCost: 0,
+    earnedWeight: 0,
+    weightedBudget: 0,
+    percentSum: 0,
+    percentCount: 0,
+    plannedStart: null,
+    plannedFinish: null,
+  };
+}
+
+const earliest = (a: string | null, b: string | null) => (a === null || (b !== null && b < a) ? b : a);
+const latest = (a: string | null, b: string | null) => (a === null || (b !== null && b > a) ? b : a);
+const addCost = (a: number | null, b: number | null) => (a === null || b === null ? null : a + b);
+
+function addActivity(rollup: Rollup, activity: WbsActivityRow): void {
+  const percent = activity.percent_complete;
+  const budget = activity.budget_at_completion;
+  rollup.activityCount += 1;
+  rollup.activityIds.push(activity.object_id);
+  rollup.budgetAtCompletion = addCost(rollup.budgetAtCompletion, budget);
+  rollup.plannedTotalCost = addCost(rollup.plannedTotalCost, activity.planned_total_cost);
+  rollup.actualTotalCost = addCost(rollup.actualTotalCost, activity.actual_total_cost);
+  rollup.remainingTotalCost = addCost(rollup.remainingTotalCost, activity.remaining_total_cost);
+  rollup.plannedStart = earliest(rollup.plannedStart, activity.planned_start);
+  rollup.plannedFinish = latest(rollup.plannedFinish, activity.planned_finish);
+  if (percent === null) return;
+  if (budget !== null) {
+    rollup.earnedWeight += percent * budget;
+    rollup.weightedBudget += budget;
+  }
+  rollup.percentSum += percent;
+  rollup.percentCount += 1;
+}
+
+function addRollup(target: Rollup, source: Rollup): void {
+  target.activityCount += source.activityCount;
+  target.activityIds.push(...source.activityIds);
+  target.budgetAtCompletion = addCost(target.budgetAtCompletion, source.budgetAtCompletion);
+  target.plannedTotalCost = addCost(target.plannedTotalCost, source.plannedTotalCost);
+  target.actualTotalCost = addCost(target.actualTotalCost, source.actualTotalCost);
+  target.remainingTotalCost = addCost(target.remainingTotalCost, source.remainingTotalCost);
+  target.earnedWeight += source.earnedWeight;
+  target.weightedBudget += source.weightedBudget;
+  target.percentSum += source.percentSum;
+  target.percentCount += source.percentCount;
+  target.plannedStart = earliest(target.plannedStart, source.plannedStart);
+  target.plannedFinish = latest(target.plannedFinish, source.plannedFinish);
+}
+
+function percentComplete(rollup: Rollup): number | null {
+  if (rollup.weightedBudget > 0) {
+    return Number((rollup.earnedWeight / rollup.weightedBudget).toFixed(2));
+  }
+  if (rollup.percentCount > 0) {
+    return Number((rollup.percentSum / rollup.percentCount).toFixed(2));
+  }
+  return null;
+}
+
+/** An element without activities has no costs to report */
+const cost = (rollup: Rollup, total: number | null) => (rollup.activityCount > 0 ? total : null);
+
+/**
+ * The WBSDetail fields rolled up from the activities beneath an element
+ */
+export function rollupDetail(rollup: Rollup) {
+  return {
+    percentComplete: percentComplete(rollup),
+    plannedStart: rollup.plannedStart,
+    plannedFinish: rollup.plannedFinish,
+    budgetAtCompletion: cost(rollup, rollup.budgetAtCompletion),
+    plannedTotalCost: cost(rollup, rollup.plannedTotalCost),
+    actualTotalCost: cost(rollup, rollup.actualTotalCost),
+    remainingTotalCost: cost(rollup, rollup.remainingTotalCost),
+    activityCount: rollup.activityCount,
+  } satisfies Partial<WBSDetail>;
+}
+
+/** P6 sibling order: sequence number, then WBS code */
+const bySequence = (a: WbsTableRow, b: WbsTableRow) =>
+  a.sequence_number - b.sequence_number || a.code.localeCompare(b.code);
+
+export interface WbsHierarchy {
+  nodes: WBSNode[];
+  /** Rollup per WBS object ID, including descendants */
+  rollups: Map<number, Rollup>;
+}
+
+/**
+ * Assemble flat WBS rows into the nested WBSNode tree with rolled-up
+ * activity counts, costs and progress. Elements whose parent is not a WBS
+ * element of the project (the project node in P6) become roots.
+ */
+export function buildWbsHierarchy(
+  wbsRows: WbsTableRow[],
+  activities: WbsActivityRow[],
+  mappedWbsIds: ReadonlySet<number> = new Set()
+): WbsHierarchy {
+  const byId = new Map(wbsRows.map((row) => [row.object_id, row]));
+  const childrenOf = new Map<number | null, WbsTableRow[]>();
+  for (const row of wbsRows) {
+    const parent = row.parent_object_id !== null && byId.has(row.parent_object_id) ? row.parent_object_id : null;
+    const siblings = childrenOf.get(parent);
+    if (siblings) siblings.push(row);
+    else childrenOf.set(parent, [row]);
+  }
+
+  const own = new Map<number, Rollup>();
+  for (const activity of activities) {
+    if (activity.wbs_object_id === null || !byId.has(activity.wbs_object_id)) continue;
+    const rollup = own.get(activity.wbs_object_id) ?? emptyRollup();
+    addActivity(rollup, activity);
+    own.set(activity.wbs_object_id, rollup);
+  }
+
+  const rollups = new Map<number, Rollup>();
+  const visit = (row: WbsTableRow, level: number, ancestors: Set<number>): WBSNode => {
+    // A parent cycle in the source data would otherwise recurse forever
+    const path = new Set(ancestors).add(row.object_id);
+    const children = (childrenOf.get(row.object_id) ?? [])
+      .filter((child) => !path.has(child.object_id))
+      .sort(bySequence)
+      .map((child) => visit(child, level + 1, path));
+
+    const rollup = emptyRollup();
+    const ownRollup = own.get(row.object_id);
+    if (ownRollup) addRollup(rollup, ownRollup);
+    for (const child of children) addRollup(rollup, rollups.get(child.objectId)!);
+    rollups.set(row.object_id, rollup);
+
+    return {
+      id: row.id,
+      objectId: row.object_id,
+      parentObjectId: row.parent_object_id,
+      wbsCode: row.code,
+      name: row.name,
+      percentComplete: percentComplete(rollup),
+      budgetAtCompletion: cost(rollup, rollup.budgetAtCompletion),
+      plannedTotalCost: cost(rollup, rollup.plannedTotalCost),
+      actualTotalCost: cost(rollup, rollup.actualTotalCost),
+      hierarchyLevel: level,
+      activityCount: rollup.activityCount,
+      children,
+      isExpanded: false,
+      sapMapped: mappedWbsIds.has(row.object_id),
+    };
+  };
+
+  const nodes = (childrenOf.get(null) ?? []).sort(bySequence).map((row) => visit(row, 0, new Set()));
+
+  return { nodes, rollups };
+}
+
+/**
+ * Rollup of one element over its whole subtree; empty when a parent cycle
+ * cut the element off the tree
+ */
+export function subtreeRollup(wbsRows: WbsTableRow[], activities: WbsActivityRow[], wbsObjectId: number): Rollup {
+  return buildWbsHierarchy(wbsRows, activities).rollups.get(wbsObjectId) ?? emptyRollup();
+}
+
+/**
+ * Object IDs of a WBS element and all of its descendants
+ */
+export function wbsSubtreeIds(
+  wbsRows: Pick<WbsTableRow, 'object_id' | 'parent_object_id'>[],
+  rootObjectId: number
+): number[] {
+  const childrenOf = new Map<number, number[]>();
+  for (const row of wbsRows) {
+    if (row.parent_object_id === null) continue;
+    const siblings = childrenOf.get(row.parent_object_id);
+    if (siblings) siblings.push(row.object_id);
+    else childrenOf.set(row.parent_object_id, [row.object_id]);
+  }
+
+  const ids = new Set([rootObjectId]);
+  for (const id of ids) {
+    for (const child of childrenOf.get(id) ?? []) ids.add(child);
+  }
+  return [...ids];
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+function projectWbs(mode: DataMode, tenantId: string, projectObjectId: number) {
+  return selectAllRows<WbsTableRow>(mode, 'wbs', () =>
+    fromTable(mode, 'wbs')
+      .select(WBS_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('object_id')
+  );
+}
+
+function projectActivities(mode: DataMode, tenantId: string, projectObjectId: number) {
+  return selectAllRows<WbsActivityRow>(mode, 'activities', () =>
+    fromTable(mode, 'activities')
+      .select(ACTIVITY_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('object_id')
+  );
+}
+
+function projectMappings(mode: DataMode, tenantId: string, projectObjectId: number) {
+  return selectAllRows<WbsMappingRow>(mode, 'wbs_mapping', () =>
+    fromTable(mode, 'wbs_mapping')
+      .select(MAPPING_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('wbs_object_id')
+  );
+}
+
+async function assertProjectExists(mode: DataMode, tenantId: string, projectObjectId: number): Promise<void> {
+  const { count } = await selectRows(
+    mode,
+    'projects',
+    fromTable(mode, 'projects')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .eq('object_id', projectObjectId)
+  );
+  if (!count) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectObjectId} not found`);
+  }
+}
+
+export async function getWbsTree({ mode, tenantId }: BffContext, projectObjectId: number): Promise<WBSTreeResponse> {
+  const [wbsRows, activities, mappings] = await Promise.all([
+    projectWbs(mode, tenantId, projectObjectId),
+    projectActivities(mode, tenantId, projectObjectId),
+    projectMappings(mode, tenantId, projectObjectId),
+  ]);
+  // No WBS is a valid (empty) tree - unless the project itself is unknown
+  if (wbsRows.length === 0) await assertProjectExists(mode, tenantId, projectObjectId);
+
+  const mapped = new Set(mappings.filter((mapping) => mapping.posid).map((mapping) => mapping.wbs_object_id));
+  const { nodes } = buildWbsHierarchy(wbsRows, activities, mapped);
+  return { nodes, totalCount: wbsRows.length };
+}
+
+async function sumSapAmounts(
+  mode: DataMode,
+  tenantId: string,
+  table: Extract<MappedTable, 'sap_budget' | 'sap_actuals' | 'sap_commitments'>,
+  posid: string
+): Promise<number> {
+  const rows = await selectAllRows<SapAmountRow>(mode, table, () =>
+    fromTable(mode, table).select('hsl').eq('tenant_id', tenantId).eq('posid', posid).order('id')
+  );
+  return Number(rows.reduce((total, row) => total + (row.hsl ?? 0), 0).toFixed(2));
+}
+
+async function countResources(mode: DataMode, tenantId: string, projectObjectId: number, activityIds: number[]) {
+  if (activityIds.length === 0) return 0;
+  const assignments = await selectAllRows<{
+    activity_object_id: number;
+    resource_object_id: number;
+  }>(mode, 'resource_assignments', () =>
+    fromTable(mode, 'resource_assignments')
+      .select('activity_object_id, resource_object_id')
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('object_id')
+  );
+  const inWbs = new Set(activityIds);
+  return new Set(assignments.filter((row) => inWbs.has(row.activity_object_id)).map((row) => row.resource_object_id))
+    .size;
+}
+
+export async function getWbsDetail({ mode, tenantId }: BffContext, wbsObjectId: number): Promise<WBSDetail> {
+  const { rows } = await selectRows<WbsTableRow>(
+    mode,
+    'wbs',
+    fromTable(mode, 'wbs').select(WBS_COLUMNS).eq('tenant_id', tenantId).eq('object_id', wbsObjectId).limit(1)
+  );
+  const wbs = rows[0];
+  if (!wbs) {
+    throw new BffError(404, 'WBS_NOT_FOUND', `WBS ${wbsObjectId} not found`);
+  }
+
+  // Rollups span the whole subtree, so the detail is built from the project's hierarchy
+  const [wbsRows, activities, mappingRows] = await Promise.all([
+    projectWbs(mode, tenantId, wbs.project_object_id),
+    projectActivities(mode, tenantId, wbs.project_object_id),
+    selectRows<WbsMappingRow>(
+      mode,
+      'wbs_mapping',
+      fromTable(mode, 'wbs_mapping')
+        .select(MAPPING_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('wbs_object_id', wbsObjectId)
+        .limit(1)
+    ),
+  ]);
+  const rollup = subtreeRollup(wbsRows, activities, wbsObjectId);
+  const mapping = mappingRows.rows[0] ?? null;
+
+  const sapMapping: WBSSAPMapping | null = mapping && {
+    posid: mapping.posid,
+    post1: mapping.post1,
+    mappingStrategy: mapping.mapping_strategy,
+    confidenceScore: mapping.confidence_score,
+    isVerified: mapping.is_verified,
+  };
+
+  let sapFinancials: WBSSAPFinancials | null = null;
+  if (mapping?.posid) {
+    const [budget, actuals, commitments] = await Promise.all([
+      sumSapAmounts(mode, tenantId, 'sap_budget', mapping.posid),
+      sumSapAmounts(mode, tenantId, 'sap_actuals', mapping.posid),
+      sumSapAmounts(mode, tenantId, 'sap_commitments', mapping.posid),
+    ]);
+    sapFinancials = { budget, actuals, commitments };
+  }
+
+  return {
+    objectId: wbs.object_id,
+    wbsCode: wbs.code,
+    name: wbs.name,
+    status: wbs.status,
+    ...rollupDetail(rollup),
+    sapMapping,
+    sapFinancials,
+    resourceCount: await countResources(mode, tenantId, wbs.project_object_id, rollup.activityIds),
+  };
+}
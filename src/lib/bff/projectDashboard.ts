@@ -0,0 +1,270 @@
+/**
+ * Project Dashboard BFF Queries (server only)
+ * @governance DATA-001, DOC-002, CURRENCY-001
+ *
+ * Backs GET /api/v1/project/{projectId}[/performance|/domains|/budget|/schedule]
+ * (ProjectDashboard). `projectId` is the P6 object ID or the project code.
+ *
+ * EVM figures and health come from lib/bff/evm.ts. Nothing is invented
+ * (DATA-001): a section without a source is null. The derivations are
+ * exported for the mock backend, which serves the same sections from its
+ * fixtures.
+ */
+
+import { fromTable, selectAllRows, selectRows } from '../db';
+import type {
+  BudgetAnalytics,
+  DomainProgress,
+  DomainType,
+  PerformanceMetrics,
+  ProjectHeader,
+  ScheduleIntelligence,
+} from '@/components/project/types';
+import { evmIndices, healthScore, loadProjectEvm, projectStatus, ratio, round, type ProjectEvm } from './evm';
+import { BffError, type BffContext } from './http';
+import { normalizeActivityStatus, type ActivityTableRow } from './p6Activities';
+import type { ProjectTableRow } from './p6Projects';
+import type { WbsMappingRow, WbsTableRow } from './p6Wbs';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Domain metrics row (client_demo.domain_metrics / orion_evm.wbs_metrics)
+ */
+export interface DomainMetricRow {
+  /** EPCIC domain code: E, P, C, I or COM */
+  domain: string;
+  progress_percent: number | null;
+  budgeted_cost: number | null;
+  planned_value: number | null;
+  actual_cost: number | null;
+}
+
+export type DashboardProjectRow = Pick<
+  ProjectTableRow,
+  | 'object_id'
+  | 'project_code'
+  | 'project_name'
+  | 'percent_complete'
+  | 'planned_start'
+  | 'planned_finish'
+  | 'data_date'
+>;
+
+const PROJECT_COLUMNS =
+  'object_id, project_code, project_name, percent_complete, planned_start, planned_finish, data_date';
+
+/** EPCIC order */
+const DOMAINS: { code: string; domain: DomainType; label: string }[] = [
+  { code: 'E', domain: 'engineering', label: 'Engineering' },
+  { code: 'P', domain: 'procurement', label: 'Procurement' },
+  { code: 'C', domain: 'construction', label: 'Construction' },
+  { code: 'I', domain: 'installation', label: 'Installation' },
+  { code: 'COM', domain: 'commissioning', label: 'Commissioning' },
+];
+
+// =============================================================================
+// DERIVATIONS
+// =============================================================================
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+
+type HeaderWbsRow = Pick<WbsTableRow, 'object_id' | 'parent_object_id' | 'sequence_number'>;
+type ScheduleActivityRow = Pick<ActivityTableRow, 'status' | 'actual_start' | 'actual_finish' | 'total_float'>;
+
+/**
+ * The SAP project definition is the element mapped to the top of the P6 WBS.
+ * Status is rated from the same EVM as the performance tab, not the
+ * projects table's SPI/CPI columns, which lag behind SAP actuals.
+ */
+export function projectHeader(
+  project: DashboardProjectRow,
+  evm: ProjectEvm | null,
+  wbsRows: HeaderWbsRow[],
+  mappings: Pick<WbsMappingRow, 'wbs_object_id' | 'posid'>[]
+): ProjectHeader {
+  const indices = evm && evmIndices(evm);
+  const wbsIds = new Set(wbsRows.map((row) => row.object_id));
+  const posidByWbs = new Map(mappings.map((mapping) => [mapping.wbs_object_id, mapping.posid]));
+  const root = wbsRows
+    .filter((row) => row.parent_object_id === null || !wbsIds.has(row.parent_object_id))
+    .sort((a, b) => a.sequence_number - b.sequence_number)
+    .find((row) => posidByWbs.has(row.object_id));
+
+  return {
+    projectId: String(project.object_id),
+    projectName: project.project_name,
+    projectCode: project.project_code,
+    percentComplete: project.percent_complete,
+    status: indices && projectStatus(indices.spi, indices.cpi),
+    dataDate: project.data_date,
+    plannedStart: project.planned_start,
+    plannedFinish: project.planned_finish,
+    p6ProjectId: String(project.object_id),
+    sapWbsElement: root ? (posidByWbs.get(root.object_id) ?? null) : null,
+  };
+}
+
+export function projectPerformance(evm: ProjectEvm): PerformanceMetrics {
+  const { spi, cpi, sv, cv, tcpi } = evmIndices(evm);
+  return { spi, cpi, healthScore: healthScore(spi, cpi), sv, cv, tcpi };
+}
+
+/** Domains without metrics are left out rather than shown at zero */
+export function projectDomains(rows: DomainMetricRow[]): DomainProgress[] {
+  return DOMAINS.flatMap(({ code, domain, label }) => {
+    const row = rows.find((metric) => metric.domain === code);
+    if (!row) return [];
+    const { progress_percent: percentComplete, budgeted_cost: budget, planned_value: plannedValue } = row;
+    const earnedValue = percentComplete === null || budget === null ? null : round((budget * percentComplete) / 100);
+    const actualCost = row.actual_cost;
+    return [
+      {
+        domain,
+        label,
+        plannedValue,
+        earnedValue,
+        actualCost,
+        percentComplete,
+        spi: earnedValue === null || plannedValue === null ? null : ratio(earnedValue, plannedValue),
+        cpi: earnedValue === null || actualCost === null ? null : ratio(earnedValue, actualCost),
+      },
+    ];
+  });
+}
+
+export function projectBudget(evm: ProjectEvm): BudgetAnalytics {
+  const { eac, etc, vac } = evmIndices(evm);
+  return { bac: evm.bac, ev: evm.ev, ac: evm.ac, pv: evm.pv, eac, etc, vac, currency: evm.currency };
+}
+
+export function projectSchedule(
+  project: DashboardProjectRow,
+  activities: ScheduleActivityRow[],
+  wbsElements: number
+): ScheduleIntelligence | null {
+  if (activities.length === 0) return null;
+
+  const statuses = activities.map(normalizeActivityStatus);
+  const count = (status: (typeof statuses)[number]) => statuses.filter((value) => value === status).length;
+  // Finished work has no float left to lose, so only open activities count
+  const openFloats = activities
+    .filter((_, index) => statuses[index] !== 'complete')
+    .flatMap((activity) => (activity.total_float === null ? [] : [activity.total_float]));
+
+  return {
+    totalActivities: activities.length,
+    completedActivities: count('complete'),
+    inProgressActivities: count('in_progress'),
+    notStartedActivities: count('not_started'),
+    criticalPathActivities: openFloats.filter((totalFloat) => totalFloat <= 0).length,
+    wbsElements,
+    originalDuration: daysBetween(project.planned_start, project.planned_finish),
+    remainingDuration: Math.max(0, daysBetween(project.data_date, project.planned_finish)),
+    totalFloat: openFloats.length ? Math.min(...openFloats) : null,
+  };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+async function findProject({ mode, tenantId }: BffContext, projectId: string): Promise<DashboardProjectRow> {
+  const objectId = /^\d+$/.test(projectId) ? Number(projectId) : null;
+  const { rows } = await selectRows<DashboardProjectRow>(
+    mode,
+    'projects',
+    fromTable(mode, 'projects')
+      .select(PROJECT_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .eq(objectId === null ? 'project_code' : 'object_id', objectId ?? projectId)
+      .limit(1)
+  );
+  if (!rows[0]) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectId} not found`);
+  }
+  return rows[0];
+}
+
+function projectMappings({ mode, tenantId }: BffContext, projectObjectId: number) {
+  return selectAllRows<Pick<WbsMappingRow, 'wbs_object_id' | 'posid'>>(mode, 'wbs_mapping', () =>
+    fromTable(mode, 'wbs_mapping')
+      .select('wbs_object_id, posid')
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .not('posid', 'is', null)
+      .order('wbs_object_id')
+  );
+}
+
+async function latestEvm(ctx: BffContext, projectObjectId: number): Promise<ProjectEvm | null> {
+  return (await loadProjectEvm(ctx, [projectObjectId])).get(projectObjectId) ?? null;
+}
+
+export async function getProjectHeader(ctx: BffContext, projectId: string): Promise<ProjectHeader> {
+  const project = await findProject(ctx, projectId);
+  const { mode, tenantId } = ctx;
+  const [wbsRows, mappings, evm] = await Promise.all([
+    selectAllRows<HeaderWbsRow>(mode, 'wbs', () =>
+      fromTable(mode, 'wbs')
+        .select('object_id, parent_object_id, sequence_number')
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', project.object_id)
+        .order('object_id')
+    ),
+    projectMappings(ctx, project.object_id),
+    latestEvm(ctx, project.object_id),
+  ]);
+  return projectHeader(project, evm, wbsRows, mappings);
+}
+
+export async function getProjectPerformance(ctx: BffContext, projectId: string): Promise<PerformanceMetrics | null> {
+  const project = await findProject(ctx, projectId);
+  const evm = await latestEvm(ctx, project.object_id);
+  return evm && projectPerformance(evm);
+}
+
+export async function getProjectDomains(ctx: BffContext, projectId: string): Promise<{ domains: DomainProgress[] }> {
+  const project = await findProject(ctx, projectId);
+  const { rows } = await selectRows<DomainMetricRow>(
+    ctx.mode,
+    'domain_metrics',
+    fromTable(ctx.mode, 'domain_metrics')
+      .select('domain, progress_percent, budgeted_cost, planned_value, actual_cost')
+      .eq('tenant_id', ctx.tenantId)
+      .eq('project_object_id', project.object_id)
+  );
+
+  return { domains: projectDomains(rows) };
+}
+
+export async function getProjectBudget(ctx: BffContext, projectId: string): Promise<BudgetAnalytics | null> {
+  const project = await findProject(ctx, projectId);
+  const evm = await latestEvm(ctx, project.object_id);
+  return evm && projectBudget(evm);
+}
+
+export async function getProjectSchedule(ctx: BffContext, projectId: string): Promise<ScheduleIntelligence | null> {
+  const project = await findProject(ctx, projectId);
+  const { mode, tenantId } = ctx;
+  const [activities, wbs] = await Promise.all([
+    selectAllRows<ScheduleActivityRow>(mode, 'activities', () =>
+      fromTable(mode, 'activities')
+        .select('status, actual_start, actual_finish, total_float')
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', project.object_id)
+        .order('object_id')
+    ),
+    selectRows(
+      mode,
+      'wbs',
+      fromTable(mode, 'wbs')
+        .select('id', { count: 'exact', head: true })
+        .eq('tenant_id', tenantId)
+        .eq('project_object_id', project.object_id)
+    ),
+  ]);
+  return projectSchedule(project, activities, wbs.count ?? 0);
+}
@@ -0,0 +1,93 @@
+/**
+ * Schedule Export BFF (server only)
+ * @governance DATA-001, DOC-002, SEC-001
+ *
+ * Backs GET /api/v1/p6/projects/{projectObjectId}/export. Reads the project
+ * the Gantt chart shows - synced or imported - from the projects, wbs,
+ * activities and activity_relationships tables and writes it as PMXML, so
+ * planners can take it back into P6 or any tool that reads P6 XML.
+ */
+
+import { NextResponse } from 'next/server';
+import { fromTable, selectAllRows, selectRows } from '../db';
+import {
+  writePmxml,
+  type ImportedActivityRow,
+  type ImportedProjectRow,
+  type ImportedRelationshipRow,
+  type ImportedSchedule,
+  type ImportedWbsRow,
+} from '../schedule';
+import { BffError, type BffContext } from './http';
+
+const PROJECT_COLUMNS =
+  'object_id, project_code, project_name, status, percent_complete, planned_start, planned_finish, actual_start, data_date';
+const WBS_COLUMNS = 'object_id, project_object_id, parent_object_id, code, name, status, sequence_number';
+const ACTIVITY_COLUMNS =
+  'object_id, project_object_id, wbs_object_id, activity_code, activity_name, activity_type, status, ' +
+  'percent_complete, planned_start, planned_finish, actual_start, actual_finish, planned_duration, ' +
+  'remaining_duration, total_float';
+const RELATIONSHIP_COLUMNS =
+  'object_id, project_object_id, predecessor_activity_object_id, successor_activity_object_id, type, lag';
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export async function readProjectSchedule(ctx: BffContext, projectObjectId: number): Promise<ImportedSchedule> {
+  const { mode, tenantId } = ctx;
+  const projectRows = (table: 'wbs' | 'activities' | 'activity_relationships', columns: string) =>
+    fromTable(mode, table)
+      .select(columns)
+      .eq('tenant_id', tenantId)
+      .eq('project_object_id', projectObjectId)
+      .order('object_id');
+
+  const [{ rows: projects }, wbs, activities, relationships] = await Promise.all([
+    selectRows<ImportedProjectRow>(
+      mode,
+      'projects',
+      fromTable(mode, 'projects')
+        .select(PROJECT_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('object_id', projectObjectId)
+        .limit(1)
+    ),
+    selectAllRows<ImportedWbsRow>(mode, 'wbs', () => projectRows('wbs', WBS_COLUMNS)),
+    selectAllRows<ImportedActivityRow>(mode, 'activities', () => projectRows('activities', ACTIVITY_COLUMNS)),
+    selectAllRows<ImportedRelationshipRow>(mode, 'activity_relationships', () =>
+      projectRows('activity_relationships', RELATIONSHIP_COLUMNS)
+    ),
+  ]);
+  if (!projects[0]) {
+    throw new BffError(404, 'PROJECT_NOT_FOUND', `Project ${projectObjectId} not found`);
+  }
+
+  // Links to other projects cannot be imported without them
+  const activityIds = new Set(activities.map((activity) => activity.object_id));
+  return {
+    project: projects[0],
+    wbs,
+    activities,
+    relationships: relationships.filter(
+      (link) =>
+        activityIds.has(link.predecessor_activity_object_id) && activityIds.has(link.successor_activity_object_id)
+    ),
+  };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+export async function exportProjectPmxml(ctx: BffContext, projectObjectId: number): Promise<NextResponse> {
+  const schedule = await readProjectSchedule(ctx, projectObjectId);
+  const filename = `${schedule.project.project_code.replace(/[^\w.-]+/g, '_') || projectObjectId}.xml`;
+
+  return new NextResponse(writePmxml([schedule]), {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * Schedule File Import BFF (server only)
+ * @governance DATA-001, DOC-002, SEC-001
+ *
+ * Backs POST /api/v1/p6/import for tenants that cannot open P6 Web
+ * Services but can export files. The request body is the raw file - XER,
+ * P6 XML or Microsoft Project XML - and the format is detected from its
+ * content. Each project in the file replaces
+ * the tenant's rows for that project object ID in the projects, wbs,
+ * activities and activity_relationships tables - the tables a P6 sync
+ * fills - so the WBS tree, Gantt and dashboards read it like synced data.
+ * Total float the file leaves out is calculated from its logic first.
+ *
+ * Only organization admins may import, and projects a P6 sync has loaded
+ * are refused so a file cannot overwrite live data. Each project is
+ * replaced by one database function call, which PostgREST runs as a single
+ * transaction: a failure leaves the project as it was.
+ */
+
+import { callFunction, fromTable, selectRows } from '../db';
+import { XmlParseError } from '../p6/xml';
+import {
+  computeCriticalPath,
+  detectScheduleFormat,
+  readScheduleFile,
+  scheduleView,
+  ScheduleFileError,
+  type ImportedSchedule,
+  type ScheduleFile,
+} from '../schedule';
+import { ORG_ADMIN_ROLE, resolveTenant } from '../tenant';
+import type { ImportedProjectSummary, ScheduleImportResponse } from '@/components/settings/types';
+import { BffError, type BffContext } from './http';
+
+/** Largest accepted upload; a 20,000-activity XER or PMXML is well under this */
+export const MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Database function that replaces one project's schedule in a transaction
+ * (client_demo / orion_core). It deletes the tenant's activity_relationships,
+ * activities, wbs and projects rows for p_project_object_id, then inserts
+ * p_project, p_wbs, p_activities and p_relationships.
+ */
+const REPLACE_FUNCTION = 'replace_project_schedule';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+async function readBody(request: Request): Promise<Uint8Array> {
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > MAX_FILE_BYTES) {
+    throw new BffError(413, 'FILE_TOO_LARGE', `Schedule files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  if (bytes.length > MAX_FILE_BYTES) {
+    throw new BffError(413, 'FILE_TOO_LARGE', `Schedule files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+  }
+  if (bytes.length === 0) {
+    throw new BffError(422, 'VALIDATION_ERROR', 'The request body must be the schedule file');
+  }
+  return bytes;
+}
+
+export function parseScheduleFile(bytes: Uint8Array): ScheduleFile {
+  const format = detectScheduleFormat(bytes);
+  if (!format) {
+    throw new BffError(
+      415,
+      'UNSUPPORTED_FORMAT',
+      'Unrecognized schedule file: expected a Primavera XER, P6 XML or Microsoft Project XML export'
+    );
+  }
+  try {
+    return readScheduleFile(bytes, format);
+  } catch (error) {
+    if (error instanceof ScheduleFileError || error instanceof XmlParseError) {
+      throw new BffError(422, 'INVALID_SCHEDULE_FILE', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Calculate the total float of open activities the file gives none, e.g. MSP
+ * tasks without TotalSlack. Float the file states is kept as exported.
+ */
+export function fillMissingFloat(schedule: ImportedSchedule): { schedule: ImportedSchedule; filled: number } {
+  if (schedule.activities.every((row) => row.total_float !== null)) return { schedule, filled: 0 };
+
+  const { activities, relationships } = scheduleView(schedule);
+  const cpm = computeCriticalPath(activities, relationships, { dataDate: schedule.project.data_date });
+  let filled = 0;
+  const rows = schedule.activities.map((row) => {
+    const scheduled = row.total_float === null ? cpm.activities.get(row.object_id) : undefined;
+    if (!scheduled) return row;
+    filled += 1;
+    return { ...row, total_float: scheduled.totalFloat };
+  });
+  return { schedule: { ...schedule, activities: rows }, filled };
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/** Only organization admins may replace a project's schedule */
+async function requireOrgAdmin(): Promise<void> {
+  const session = await resolveTenant();
+  if (!session) throw new BffError(401, 'UNAUTHENTICATED', 'Not signed in');
+  if (session.orgRole !== ORG_ADMIN_ROLE) {
+    throw new BffError(403, 'FORBIDDEN', 'Only organization admins can import schedule files');
+  }
+}
+
+/**
+ * Refuse projects a P6 sync has loaded - every sync batch leaves a schedule
+ * snapshot per project, and an import never does
+ */
+async function rejectSyncedProjects(ctx: BffContext, schedules: ImportedSchedule[]): Promise<void> {
+  const { rows } = await selectRows<{ project_object_id: number }>(
+    ctx.mode,
+    'schedule_snapshots',
+    fromTable(ctx.mode, 'schedule_snapshots')
+      .select('project_object_id')
+      .eq('tenant_id', ctx.tenantId)
+      .in('project_object_id', schedules.map((schedule) => schedule.project.object_id))
+  );
+  const synced = new Set(rows.map((row) => row.project_object_id));
+  const codes = schedules
+    .filter((schedule) => synced.has(schedule.project.object_id))
+    .map((schedule) => schedule.project.project_code);
+  if (codes.length > 0) {
+    throw new BffError(
+      409,
+      'SYNCED_PROJECT',
+      `${codes.join(', ')} ${codes.length === 1 ? 'is' : 'are'} synced from P6 and cannot be replaced by a file import`
+    );
+  }
+}
+
+/**
+ * Replace the tenant's rows for one project in a single transaction
+ */
+export async function loadSchedule(ctx: BffContext, schedule: ImportedSchedule): Promise<void> {
+  const { tenantId } = ctx;
+  const stamp = <T extends object>(rows: T[]) => rows.map((row) => ({ ...row, tenant_id: tenantId }));
+
+  await callFunction(ctx.mode, 'projects', REPLACE_FUNCTION, {
+    p_tenant_id: tenantId,
+    p_project_object_id: schedule.project.object_id,
+    p_project: { ...schedule.project, tenant_id: tenantId },
+    p_wbs: stamp(schedule.wbs),
+    p_activities: stamp(schedule.activities),
+    p_relationships: stamp(schedule.relationships),
+  });
+}
+
+function summarize(schedule: ImportedSchedule): ImportedProjectSummary {
+  return {
+    projectObjectId: schedule.project.object_id,
+    projectCode: schedule.project.project_code,
+    projectName: schedule.project.project_name,
+    wbsCount: schedule.wbs.length,
+    activityCount: schedule.activities.length,
+    relationshipCount: schedule.relationships.length,
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+export async function importScheduleFile(ctx: BffContext, request: Request): Promise<ScheduleImportResponse> {
+  await requireOrgAdmin();
+  const file = parseScheduleFile(await readBody(request));
+  if (file.schedules.length === 0) {
+    throw new BffError(422, 'INVALID_SCHEDULE_FILE', 'The file contains no importable projects');
+  }
+  // Checked for the whole file so a refused project loads none of the others
+  await rejectSyncedProjects(ctx, file.schedules);
+
+  const warnings = [...file.warnings];
+  // One transaction per project keeps each call's payload bounded
+  for (const imported of file.schedules) {
+    const { schedule, filled } = fillMissingFloat(imported);
+    if (filled) {
+      warnings.push(
+        `${schedule.project.project_code}: calculated total float for ${filled} ${filled === 1 ? 'activity' : 'activities'} the file gave none`
+      );
+    }
+    await loadSchedule(ctx, schedule);
+  }
+
+  return {
+    format: file.format,
+    version: file.version,
+    projects: file.schedules.map(summarize),
+    calendarCount: file.calendars.length,
+    resourceCount: file.resources.length,
+    warnings,
+  };
+}
@@ -83,18 +83,40 @@ export const TABLE_MAP = {
     project_snapshots: 'client_demo.project_snapshots',
     domain_metrics: 'client_demo.domain_metrics',
     activities: 'client_demo.activities',
+    activity_relationships: 'client_demo.activity_relationships',
     wbs: 'client_demo.wbs',
     sync_status: 'client_demo.sync_status',
     portfolio_financials: 'client_demo.portfolio_financials',
+    resource_assignments: 'client_demo.resource_assignments',
+    wbs_mapping: 'client_demo.wbs_mapping',
+    sap_budget: 'client_demo.sap_budget',
+    sap_actuals: 'client_demo.sap_actuals',
+    sap_commitments: 'client_demo.sap_commitments',
+    sap_revenue: 'client_demo.sap_revenue',
+    baseline_projects: 'client_demo.baseline_projects',
+    schedule_snapshots: 'client_demo.schedule_snapshots',
+    activity_snapshots: 'client_demo.activity_snapshots',
+    schedule_scenarios: 'client_demo.schedule_scenarios',
   },
   live: {
     projects: 'orion_core.projects',
     project_snapshots: 'orion_evm.project_snapshots',
     domain_metrics: 'orion_evm.wbs_metrics',
     activities: 'p6_raw.activities',
+    activity_relationships: 'p6_raw.activity_relationships',
     wbs: 'p6_raw.wbs',
     sync_status: 'orion_sync.batches',
     portfolio_financials: 'sap_raw.acdoca', // Aggregated from SAP
+    resource_assignments: 'p6_raw.resource_assignments',
+    wbs_mapping: 'orion_xconf.wbs_mapping',
+    sap_budget: 'sap_raw.bpge',
+    sap_actuals: 'sap_raw.acdoca',
+    sap_commitments: 'sap_raw.cooi',
+    sap_revenue: 'sap_raw.bsad', // Cleared customer items (incoming payments)
+    baseline_projects: 'p6_raw.baseline_projects',
+    schedule_snapshots: 'orion_sync.schedule_snapshots', // One per project per sync batch
+    activity_snapshots: 'orion_sync.activity_snapshots',
+    schedule_scenarios: 'orion_core.schedule_scenarios', // What-if scenarios, per user
   },
 } as const;
 
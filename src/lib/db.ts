@@ -0,0 +1,140 @@
+/**
+ * ORION PMS Database Access (server only)
+ * @governance DATA-001, SEC-001
+ *
+ * Supabase (PostgREST) client for the BFF route handlers under
+ * app/api/v1. Tables are addressed through getMappedTable(), so a Mock
+ * request reads client_demo and a Live request reads the production
+ * schemas. Connects with the service role key - never import this from
+ * client components.
+ *
+ * Required environment:
+ * - SUPABASE_URL
+ * - SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getMappedTable, type DataMode, type TABLE_MAP } from './dataMode';
+
+export type MappedTable = keyof typeof TABLE_MAP.mock;
+
+/**
+ * SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing
+ */
+export class DatabaseNotConfiguredError extends Error {
+  constructor() {
+    super('Database is not configured: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    this.name = 'DatabaseNotConfiguredError';
+  }
+}
+
+/**
+ * PostgREST rejected a query
+ */
+export class DatabaseQueryError extends Error {
+  constructor(
+    readonly table: string,
+    readonly code: string | null,
+    message: string
+  ) {
+    super(`Query on ${table} failed: ${message}`);
+    this.name = 'DatabaseQueryError';
+  }
+}
+
+let client: SupabaseClient | null = null;
+
+export function getDb(): SupabaseClient {
+  if (client) return client;
+
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new DatabaseNotConfiguredError();
+  }
+
+  client = createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  return client;
+}
+
+/**
+ * Query builder for a mapped table,
+ * e.g. fromTable('mock', 'projects') reads client_demo.projects
+ */
+export function fromTable(mode: DataMode, table: MappedTable) {
+  const [schema, name] = getMappedTable(mode, table).split('.');
+  return getDb().schema(schema).from(name);
+}
+
+interface QueryResult {
+  data: unknown;
+  error: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
+/**
+ * Await a query and unwrap its rows, throwing DatabaseQueryError on failure.
+ * The client is untyped, so `T` describes the selected columns.
+ */
+export async function selectRows<T>(
+  mode: DataMode,
+  table: MappedTable,
+  query: PromiseLike<QueryResult>
+): Promise<{ rows: T[]; count: number | null }> {
+  const { data, error, count } = await query;
+  if (error) {
+    throw new DatabaseQueryError(getMappedTable(mode, table), error.code ?? null, error.message);
+  }
+  return { rows: (data as T[] | null) ?? [], count: count ?? null };
+}
+
+/** PostgREST caps a response at 1000 rows by default */
+const PAGE_ROWS = 1000;
+
+/**
+ * Read every row of a query by paging past the PostgREST row cap.
+ * `query` must build a fresh, consistently ordered query on each call.
+ */
+export async function selectAllRows<T>(
+  mode: DataMode,
+  table: MappedTable,
+  query: () => { range(from: number, to: number): PromiseLike<QueryResult> }
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_ROWS) {
+    const { rows: page } = await selectRows<T>(mode, table, query().range(from, from + PAGE_ROWS - 1));
+    rows.push(...page);
+    if (page.length < PAGE_ROWS) return rows;
+  }
+}
+
+/**
+ * Await an insert or delete and throw DatabaseQueryError on failure
+ */
+export async function writeRows(mode: DataMode, table: MappedTable, query: PromiseLike<QueryResult>): Promise<void> {
+  const { error } = await query;
+  if (error) {
+    throw new DatabaseQueryError(getMappedTable(mode, table), error.code ?? null, error.message);
+  }
+}
+
+/**
+ * Call a database function in the schema of a mapped table, e.g.
+ * callFunction('mock', 'projects', 'replace_project_schedule', args) runs
+ * client_demo.replace_project_schedule. PostgREST runs each call in one
+ * transaction, so the function's writes land together or not at all.
+ */
+export async function callFunction(
+  mode: DataMode,
+  table: MappedTable,
+  name: string,
+  args: Record<string, unknown>
+): Promise<void> {
+  const [schema] = getMappedTable(mode, table).split('.');
+  const { error } = await getDb().schema(schema).rpc(name, args);
+  if (error) {
+    throw new DatabaseQueryError(`${schema}.${name}`, error.code ?? null, error.message);
+  }
+}
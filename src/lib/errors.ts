@@ -0,0 +1,212 @@
+/**
+ * ORION PMS API Errors
+ * @governance DATA-001, DOC-002
+ *
+ * Structured error thrown by apiFetch so dashboards can tell an expired
+ * session from a missing project from a backend timeout.
+ */
+
+import { formatIssues, type SchemaIssue } from './schema';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How the request failed
+ * - http: backend answered with a non-2xx status
+ * - network: request never reached the backend (DNS, CORS, offline)
+ * - timeout: request exceeded its timeout budget
+ * - aborted: caller cancelled the request via AbortSignal
+ * - contract: response did not match the schema declared in types.ts
+ */
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'contract';
+
+export interface ApiErrorInit {
+  kind: ApiErrorKind;
+  endpoint: string;
+  message: string;
+  status?: number | null;
+  code?: string | null;
+  requestId?: string | null;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * HTTP statuses worth retrying - the request itself was valid,
+ * the backend or a proxy in front of it was temporarily unavailable.
+ */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 502, 503, 504]);
+
+// =============================================================================
+// API ERROR
+// =============================================================================
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** Endpoint path the request was made to */
+  readonly endpoint: string;
+  /** HTTP status, or null if the backend never answered */
+  readonly status: number | null;
+  /** Backend error code (e.g. PROJECT_NOT_FOUND) if provided */
+  readonly code: string | null;
+  /** X-Request-ID from the backend, for support tickets and log lookup */
+  readonly requestId: string | null;
+  /** Delay requested by the backend via Retry-After, in milliseconds */
+  readonly retryAfterMs: number | null;
+  /** Whether repeating the same request could succeed */
+  readonly retryable: boolean;
+
+  constructor(init: ApiErrorInit) {
+    super(init.message, init.cause !== undefined ? { cause: init.cause } : undefined);
+    this.name = 'ApiError';
+    this.kind = init.kind;
+    this.endpoint = init.endpoint;
+    this.status = init.status ?? null;
+    this.code = init.code ?? null;
+    this.requestId = init.requestId ?? null;
+    this.retryAfterMs = init.retryAfterMs ?? null;
+    this.retryable = isRetryable(init.kind, this.status);
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isForbidden(): boolean {
+    return this.status === 403;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+function isRetryable(kind: ApiErrorKind, status: number | null): boolean {
+  switch (kind) {
+    case 'network':
+    case 'timeout':
+      return true;
+    case 'aborted':
+    case 'contract':
+      return false;
+    case 'http':
+      return status !== null && RETRYABLE_STATUSES.has(status);
+  }
+}
+
+/**
+ * Backend answered 2xx but the body breaks the frontend contract.
+ * DATA-001: we refuse to render the payload rather than show a missing
+ * field as 0 or "NaN%".
+ */
+export class ContractViolationError extends ApiError {
+  /** Declared fields that were missing or had the wrong type */
+  readonly violations: SchemaIssue[];
+
+  constructor(endpoint: string, violations: SchemaIssue[]) {
+    super({
+      kind: 'contract',
+      endpoint,
+      message: `Response from ${endpoint} violates the API contract:\n${formatIssues(violations)}`,
+    });
+    this.name = 'ContractViolationError';
+    this.violations = violations;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Parse a FastAPI-style error body into a message and error code.
+ * Handles `{ detail: "..." }`, validation errors `{ detail: [{ msg }] }`
+ * and ORION envelopes `{ detail, code }` / `{ error: { message, code } }`.
+ */
+export function parseErrorBody(body: unknown): { message: string | null; code: string | null } {
+  if (!body || typeof body !== 'object') {
+    return { message: null, code: null };
+  }
+
+  const record = body as Record<string, unknown>;
+  const nested = (record.error && typeof record.error === 'object')
+    ? record.error as Record<string, unknown>
+    : null;
+
+  let message: string | null = null;
+  const detail = record.detail ?? record.message ?? nested?.message;
+  if (typeof detail === 'string') {
+    message = detail;
+  } else if (Array.isArray(detail)) {
+    message = detail
+      .map((item) => (item && typeof item === 'object' && 'msg' in item ? String(item.msg) : null))
+      .filter(Boolean)
+      .join('; ') || null;
+  }
+
+  const rawCode = record.code ?? record.error_code ?? nested?.code;
+  const code = typeof rawCode === 'string' ? rawCode : null;
+
+  return { message, code };
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * User-facing message for an error thrown by the API layer.
+ * Keeps backend internals out of the UI while still telling the user
+ * whether to sign in again, wait, or contact support.
+ */
+export function getApiErrorMessage(error: unknown, fallback = 'Something went wrong loading this data.'): string {
+  if (!isApiError(error)) {
+    return error instanceof Error && error.message ? error.message : fallback;
+  }
+
+  switch (error.kind) {
+    case 'timeout':
+      return 'The ORION backend took too long to respond. Please try again.';
+    case 'network':
+      return 'Unable to reach the ORION backend. Check your connection and try again.';
+    case 'aborted':
+      return 'The request was cancelled.';
+    case 'contract':
+      return 'The ORION backend returned data in an unexpected format.';
+    case 'http':
+      break;
+  }
+
+  if (error.status === 401) return 'Your session has expired. Please sign in again.';
+  if (error.status === 403) return 'You do not have access to this data.';
+  if (error.status === 404) return 'The requested data was not found.';
+  if (error.status === 429) return 'Too many requests. Please wait a moment and try again.';
+  if (error.status !== null && error.status >= 500) {
+    return error.requestId
+      ? `The ORION backend encountered an error (ref ${error.requestId}).`
+      : 'The ORION backend encountered an error.';
+  }
+
+  return error.message || fallback;
+}
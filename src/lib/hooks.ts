@@ -4,17 +4,35 @@
  *
  * All hooks fetch from real backend - NO hardcoded data.
  * DATA-001: If backend returns null, we propagate null - NEVER invent values.
+ *
+ * Retry, staleness and refetch defaults live in createQueryClient()
+ * (queryClient.ts); components must render inside QueryProvider,
+ * TenantProvider and DataModeProvider.
+ *
+ * Every query is scoped to the active Mock/Live data mode: the mode is sent
+ * as X-Data-Mode and appended to the query key, so mock figures are never
+ * served from the cache under a live view (or vice versa). The session
+ * tenant is appended the same way, so switching organization never serves
+ * another tenant's cached data.
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from './api';
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryKey,
+  type UseQueryOptions,
+} from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { useDataMode } from '@/contexts/DataModeContext';
+import { useTenant } from '@/contexts/TenantContext';
+import { api, type ApiRequestOptions, type P6ProjectsQuery } from './api';
+import type { DataMode } from './dataMode';
 import type {
   PortfolioSummary,
   PortfolioFinancials,
   DomainProgress,
   ProjectCard,
-  PortfolioHealth,
-  BudgetComparison,
   ProjectSummary,
   ProjectDetail,
   ProjectHealthResponse,
@@ -27,22 +45,102 @@ import type {
   SyncDashboard,
   SyncHistory,
   SyncErrorList,
+  SyncJobStatus,
+  SyncEntityProgress,
+  SyncJobError,
   SyncRequest,
   ProjectUniverse,
 } from './types';
+import type {
+  P6ConnectionConfig,
+  SAPConnectionConfig,
+  SyncConfig,
+  UserPreferences,
+} from '@/components/settings/types';
+import type { ScenarioInput } from '@/components/gantt/types';
+
+// =============================================================================
+// REQUEST OPTIONS
+// =============================================================================
+
+/**
+ * React Query owns retries for hooks, so apiFetch's own retry is disabled
+ * and the query's AbortSignal is forwarded to cancel superseded requests.
+ */
+function queryRequest(signal: AbortSignal, dataMode: DataMode): ApiRequestOptions {
+  return { signal, retry: false, dataMode };
+}
+
+/** Append the session tenant and data mode to a key (see useModeQuery) */
+function scopedKey(queryKey: QueryKey, tenantId: string | null, mode: DataMode): QueryKey {
+  return [...queryKey, tenantId, mode];
+}
+
+type ModeQueryOptions<T> = Omit<
+  UseQueryOptions<T, Error, T, QueryKey>,
+  'queryKey' | 'queryFn' | 'enabled' | 'placeholderData'
+> & {
+  /** Key without the tenant and data mode - useModeQuery appends them */
+  queryKey: QueryKey;
+  queryFn: (request: ApiRequestOptions) => Promise<T>;
+  enabled?: boolean;
+  /** Keep showing the previous result while a new key loads (never across modes) */
+  keepPreviousData?: boolean;
+};
+
+/**
+ * useQuery scoped to the session tenant and active data mode. Queries wait
+ * until the stored mode preference has loaded so a live user never fetches
+ * mock data first.
+ */
+function useModeQuery<T>({
+  queryKey,
+  queryFn,
+  enabled = true,
+  keepPreviousData = false,
+  ...options
+}: ModeQueryOptions<T>) {
+  const { mode, isLoading: isModeLoading } = useDataMode();
+  const { tenantId } = useTenant();
+
+  return useQuery({
+    ...options,
+    queryKey: scopedKey(queryKey, tenantId, mode),
+    queryFn: ({ signal }) => queryFn(queryRequest(signal, mode)),
+    enabled: enabled && !isModeLoading,
+    placeholderData: keepPreviousData
+      ? (previousData, previousQuery) => {
+          const [previousTenant, previousMode] = previousQuery?.queryKey.slice(-2) ?? [];
+          return previousTenant === tenantId && previousMode === mode ? previousData : undefined;
+        }
+      : undefined,
+  });
+}
+
+/**
+ * Tenant for portfolio/projects calls: an explicit tenant wins, otherwise
+ * the session tenant. The middleware rejects any tenant but the session's.
+ */
+function useTenantParam(tenant?: string): string | undefined {
+  const { tenantId } = useTenant();
+  return tenant ?? tenantId ?? undefined;
+}
 
 // =============================================================================
 // QUERY KEYS
 // =============================================================================
 
+/**
+ * Query keys without the tenant and data mode. Hooks append the session
+ * tenant and active mode, so match these by prefix (invalidateQueries)
+ * rather than exactly.
+ */
 export const queryKeys = {
   // Portfolio
   portfolioSummary: (tenant?: string) => ['portfolio', 'summary', tenant] as const,
   portfolioFinancials: (tenant?: string) => ['portfolio', 'financials', tenant] as const,
   portfolioDomainProgress: (tenant?: string) => ['portfolio', 'domain-progress', tenant] as const,
   portfolioProjects: (tenant?: string, status?: string) => ['portfolio', 'projects', tenant, status] as const,
-  portfolioCfoHealth: (tenant?: string) => ['portfolio', 'cfo', 'health', tenant] as const,
-  portfolioCfoBudget: (tenant?: string) => ['portfolio', 'cfo', 'budget', tenant] as const,
 
   // Projects
   projectsHealth: (tenant?: string, limit?: number) => ['projects', 'health', tenant, limit] as const,
@@ -62,57 +160,87 @@ export const queryKeys = {
   evmByPhase: (projectId: number) => ['evm', projectId, 'by-phase'] as const,
   evmTrend: (projectId: number, periods?: number) => ['evm', projectId, 'trend', periods] as const,
   evmReference: () => ['evm', 'reference'] as const,
+  evmProjects: (tenant?: string, projectId?: string) => ['evm', 'projects', tenant, projectId] as const,
+
+  // CFO
+  cfoHealth: (tenant?: string) => ['cfo', 'health', tenant] as const,
+  cfoFinancials: (tenant?: string) => ['cfo', 'financials', tenant] as const,
+  cfoBudgets: (tenant?: string) => ['cfo', 'budgets', tenant] as const,
+  cfoComparison: (tenant?: string) => ['cfo', 'comparison', tenant] as const,
+
+  // Project Dashboard
+  projectHeader: (projectId: string, tenant?: string) => ['project', projectId, 'header', tenant] as const,
+  projectPerformance: (projectId: string, tenant?: string) => ['project', projectId, 'performance', tenant] as const,
+  projectDomainProgress: (projectId: string, tenant?: string) => ['project', projectId, 'domains', tenant] as const,
+  projectBudget: (projectId: string, tenant?: string) => ['project', projectId, 'budget', tenant] as const,
+  projectScheduleIntelligence: (projectId: string, tenant?: string) => ['project', projectId, 'schedule', tenant] as const,
+
+  // P6
+  p6Projects: (query: P6ProjectsQuery) => ['p6', 'projects', query] as const,
+  p6ProjectStatuses: (tenant: string) => ['p6', 'statuses', tenant] as const,
+  p6WbsTree: (projectObjectId: number, tenant: string) => ['p6', 'wbs-tree', projectObjectId, tenant] as const,
+  p6WbsDetail: (wbsObjectId: number | null, tenant: string) => ['p6', 'wbs', wbsObjectId, tenant] as const,
+  p6Activities: (projectObjectId: number, tenant: string) => ['p6', 'activities', projectObjectId, tenant] as const,
+  p6ActivityDetail: (projectObjectId: number, activityObjectId: number | null, tenant: string) =>
+    ['p6', 'activities', projectObjectId, activityObjectId, tenant] as const,
+  p6Baselines: (projectObjectId: number, tenant: string) => ['p6', 'baselines', projectObjectId, tenant] as const,
+  p6BaselineSchedule: (projectObjectId: number, baselineId: string | null, tenant: string) =>
+    ['p6', 'baselines', projectObjectId, baselineId, tenant] as const,
+  p6Scenarios: (projectObjectId: number, tenant: string) => ['p6', 'scenarios', projectObjectId, tenant] as const,
 
   // Sync
+  syncStatus: (tenant?: string) => ['sync', 'status', tenant] as const,
   syncDashboard: (tenant?: string) => ['sync', 'dashboard', tenant] as const,
   syncHistory: (page?: number) => ['sync', 'history', page] as const,
   syncErrors: (page?: number, unresolvedOnly?: boolean) => ['sync', 'errors', page, unresolvedOnly] as const,
   syncJobStatus: (jobId: string) => ['sync', 'jobs', jobId] as const,
+
+  // Settings
+  settings: (tenantId: string, userId: string) => ['settings', tenantId, userId] as const,
 };
 
+/**
+ * Query roots holding data that a P6/SAP sync rewrites
+ */
+const SYNCED_DATA_ROOTS = ['portfolio', 'projects', 'evm', 'cfo', 'project', 'p6'] as const;
+
 // =============================================================================
 // PORTFOLIO HOOKS
 // =============================================================================
 
-export function usePortfolioSummary(tenant?: string) {
-  return useQuery<PortfolioSummary>({
+export function usePortfolioSummary(tenantOverride?: string) {
+  const tenant = useTenantParam(tenantOverride);
+
+  return useModeQuery<PortfolioSummary>({
     queryKey: queryKeys.portfolioSummary(tenant),
-    queryFn: () => api.portfolio.getSummary(tenant),
+    queryFn: (request) => api.portfolio.getSummary(tenant, request),
   });
 }
 
-export function usePortfolioFinancials(tenant?: string) {
-  return useQuery<PortfolioFinancials>({
+export function usePortfolioFinancials(tenantOverride?: string) {
+  const tenant = useTenantParam(tenantOverride);
+
+  return useModeQuery<PortfolioFinancials>({
     queryKey: queryKeys.portfolioFinancials(tenant),
-    queryFn: () => api.portfolio.getFinancials(tenant),
+    queryFn: (request) => api.portfolio.getFinancials(tenant, request),
   });
 }
 
-export function usePortfolioDomainProgress(tenant?: string) {
-  return useQuery<DomainProgress>({
+export function usePortfolioDomainProgress(tenantOverride?: string) {
+  const tenant = useTenantParam(tenantOverride);
+
+  return useModeQuery<DomainProgress>({
     queryKey: queryKeys.portfolioDomainProgress(tenant),
-    queryFn: () => api.portfolio.getDomainProgress(tenant),
+    queryFn: (request) => api.portfolio.getDomainProgress(tenant, request),
   });
 }
 
 export function usePortfolioProjects(options?: { tenant?: string; status?: string; limit?: number }) {
-  return useQuery<ProjectCard[]>({
-    queryKey: queryKeys.portfolioProjects(options?.tenant, options?.status),
-    queryFn: () => api.portfolio.getProjects(options),
-  });
-}
-
-export function useCfoHealth(tenant?: string) {
-  return useQuery<PortfolioHealth>({
-    queryKey: queryKeys.portfolioCfoHealth(tenant),
-    queryFn: () => api.portfolio.getCfoHealth(tenant),
-  });
-}
+  const query = { ...options, tenant: useTenantParam(options?.tenant) };
 
-export function useCfoBudgetComparison(tenant?: string) {
-  return useQuery<BudgetComparison[]>({
-    queryKey: queryKeys.portfolioCfoBudget(tenant),
-    queryFn: () => api.portfolio.getCfoBudgetComparison(tenant),
+  return useModeQuery<ProjectCard[]>({
+    queryKey: queryKeys.portfolioProjects(query.tenant, query.status),
+    queryFn: (request) => api.portfolio.getProjects(query, request),
   });
 }
 
@@ -121,47 +249,49 @@ export function useCfoBudgetComparison(tenant?: string) {
 // =============================================================================
 
 export function useProjectsHealth(options?: { tenant?: string; limit?: number }) {
-  return useQuery<ProjectHealthResponse>({
-    queryKey: queryKeys.projectsHealth(options?.tenant, options?.limit),
-    queryFn: () => api.projects.getHealth(options),
+  const query = { ...options, tenant: useTenantParam(options?.tenant) };
+
+  return useModeQuery<ProjectHealthResponse>({
+    queryKey: queryKeys.projectsHealth(query.tenant, query.limit),
+    queryFn: (request) => api.projects.getHealth(query, request),
   });
 }
 
 export function useProjects(activeOnly = false) {
-  return useQuery<ProjectSummary[]>({
+  return useModeQuery<ProjectSummary[]>({
     queryKey: queryKeys.projectsList(activeOnly),
-    queryFn: () => api.projects.list(activeOnly),
+    queryFn: (request) => api.projects.list(activeOnly, request),
   });
 }
 
 export function useProject(projectId: number) {
-  return useQuery<ProjectDetail>({
+  return useModeQuery<ProjectDetail>({
     queryKey: queryKeys.projectDetail(projectId),
-    queryFn: () => api.projects.getById(projectId),
+    queryFn: (request) => api.projects.getById(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectSchedule(projectId: number) {
-  return useQuery<ScheduleSummary>({
+  return useModeQuery<ScheduleSummary>({
     queryKey: queryKeys.projectSchedule(projectId),
-    queryFn: () => api.projects.getSchedule(projectId),
+    queryFn: (request) => api.projects.getSchedule(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectCriticalPath(projectId: number, limit = 50) {
-  return useQuery<CriticalPathActivity[]>({
+  return useModeQuery<CriticalPathActivity[]>({
     queryKey: queryKeys.projectCriticalPath(projectId),
-    queryFn: () => api.projects.getCriticalPath(projectId, limit),
+    queryFn: (request) => api.projects.getCriticalPath(projectId, limit, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectWbs(projectId: number, hierarchical = false) {
-  return useQuery({
+  return useModeQuery({
     queryKey: queryKeys.projectWbs(projectId, hierarchical),
-    queryFn: () => api.projects.getWbs(projectId, hierarchical),
+    queryFn: (request) => api.projects.getWbs(projectId, hierarchical, request),
     enabled: projectId > 0,
   });
 }
@@ -170,41 +300,41 @@ export function useProjectActivities(
   projectId: number,
   options?: { status?: string; criticalOnly?: boolean; limit?: number }
 ) {
-  return useQuery({
+  return useModeQuery({
     queryKey: queryKeys.projectActivities(projectId),
-    queryFn: () => api.projects.getActivities(projectId, options),
+    queryFn: (request) => api.projects.getActivities(projectId, options, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectFinancial(projectId: number) {
-  return useQuery<FinancialSummary>({
+  return useModeQuery<FinancialSummary>({
     queryKey: queryKeys.projectFinancial(projectId),
-    queryFn: () => api.projects.getFinancial(projectId),
+    queryFn: (request) => api.projects.getFinancial(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectEvm(projectId: number) {
-  return useQuery<EVMMetrics>({
+  return useModeQuery<EVMMetrics>({
     queryKey: queryKeys.projectEvm(projectId),
-    queryFn: () => api.projects.getEvm(projectId),
+    queryFn: (request) => api.projects.getEvm(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectDomains(projectId: number) {
-  return useQuery<DomainProgressDetail[]>({
+  return useModeQuery<DomainProgressDetail[]>({
     queryKey: queryKeys.projectDomains(projectId),
-    queryFn: () => api.projects.getDomains(projectId),
+    queryFn: (request) => api.projects.getDomains(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useProjectUniverse(projectId: number) {
-  return useQuery<ProjectUniverse>({
+  return useModeQuery<ProjectUniverse>({
     queryKey: queryKeys.projectUniverse(projectId),
-    queryFn: () => api.projects.getUniverse(projectId),
+    queryFn: (request) => api.projects.getUniverse(projectId, request),
     enabled: projectId > 0,
   });
 }
@@ -214,45 +344,211 @@ export function useProjectUniverse(projectId: number) {
 // =============================================================================
 
 export function useEvmMetrics(projectId: number, asOfDate?: string) {
-  return useQuery<EVMMetrics>({
+  return useModeQuery<EVMMetrics>({
     queryKey: queryKeys.evmMetrics(projectId, asOfDate),
-    queryFn: () => api.evm.getMetrics(projectId, asOfDate),
+    queryFn: (request) => api.evm.getMetrics(projectId, asOfDate, request),
     enabled: projectId > 0,
   });
 }
 
 export function useEvmByPhase(projectId: number) {
-  return useQuery({
+  return useModeQuery({
     queryKey: queryKeys.evmByPhase(projectId),
-    queryFn: () => api.evm.getByPhase(projectId),
+    queryFn: (request) => api.evm.getByPhase(projectId, request),
     enabled: projectId > 0,
   });
 }
 
 export function useEvmTrend(projectId: number, periods = 12) {
-  return useQuery<EVMTrend>({
+  return useModeQuery<EVMTrend>({
     queryKey: queryKeys.evmTrend(projectId, periods),
-    queryFn: () => api.evm.getTrend(projectId, periods),
+    queryFn: (request) => api.evm.getTrend(projectId, periods, request),
     enabled: projectId > 0,
   });
 }
 
 export function useEvmReference() {
-  return useQuery({
+  return useModeQuery({
     queryKey: queryKeys.evmReference(),
-    queryFn: () => api.evm.getReference(),
+    queryFn: (request) => api.evm.getReference(request),
     staleTime: Infinity, // Reference data doesn't change
   });
 }
 
+export function useEvmProjects(options?: { tenant?: string; projectId?: string }) {
+  return useModeQuery({
+    queryKey: queryKeys.evmProjects(options?.tenant, options?.projectId),
+    queryFn: (request) => api.evm.getProjects(options, request),
+  });
+}
+
+// =============================================================================
+// CFO HOOKS
+// =============================================================================
+
+export function useCfoPortfolioHealth(tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.cfoHealth(tenant),
+    queryFn: (request) => api.cfo.getHealth(tenant, request),
+  });
+}
+
+export function useCfoFinancials(tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.cfoFinancials(tenant),
+    queryFn: (request) => api.cfo.getFinancials(tenant, request),
+  });
+}
+
+export function useCfoBudgets(tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.cfoBudgets(tenant),
+    queryFn: (request) => api.cfo.getBudgets(tenant, request),
+  });
+}
+
+export function useCfoComparison(tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.cfoComparison(tenant),
+    queryFn: (request) => api.cfo.getComparison(tenant, request),
+  });
+}
+
+// =============================================================================
+// PROJECT DASHBOARD HOOKS
+// =============================================================================
+
+export function useProjectHeader(projectId: string, tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.projectHeader(projectId, tenant),
+    queryFn: (request) => api.projectDashboard.getHeader(projectId, tenant, request),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectPerformance(projectId: string, tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.projectPerformance(projectId, tenant),
+    queryFn: (request) => api.projectDashboard.getPerformance(projectId, tenant, request),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectDomainProgress(projectId: string, tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.projectDomainProgress(projectId, tenant),
+    queryFn: (request) => api.projectDashboard.getDomains(projectId, tenant, request),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectBudget(projectId: string, tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.projectBudget(projectId, tenant),
+    queryFn: (request) => api.projectDashboard.getBudget(projectId, tenant, request),
+    enabled: !!projectId,
+  });
+}
+
+export function useProjectScheduleIntelligence(projectId: string, tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.projectScheduleIntelligence(projectId, tenant),
+    queryFn: (request) => api.projectDashboard.getSchedule(projectId, tenant, request),
+    enabled: !!projectId,
+  });
+}
+
+// =============================================================================
+// P6 HOOKS
+// =============================================================================
+
+export function useP6Projects(query: P6ProjectsQuery) {
+  return useModeQuery({
+    queryKey: queryKeys.p6Projects(query),
+    queryFn: (request) => api.p6.getProjects(query, request),
+    // Keep the current page on screen while the next page, sort or filter loads
+    keepPreviousData: true,
+  });
+}
+
+export function useP6ProjectStatuses(tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6ProjectStatuses(tenant),
+    queryFn: (request) => api.p6.getProjectStatuses(tenant, request),
+  });
+}
+
+export function useP6WbsTree(projectObjectId: number, tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6WbsTree(projectObjectId, tenant),
+    queryFn: (request) => api.p6.getWbsTree(projectObjectId, tenant, request),
+  });
+}
+
+export function useP6WbsDetail(wbsObjectId: number | null, tenant: string, enabled = true) {
+  return useModeQuery({
+    queryKey: queryKeys.p6WbsDetail(wbsObjectId, tenant),
+    // Only runs once enabled, i.e. with a non-null wbsObjectId
+    queryFn: (request) => api.p6.getWbsDetail(wbsObjectId as number, tenant, request),
+    enabled: enabled && !!wbsObjectId,
+  });
+}
+
+export function useP6Activities(projectObjectId: number, tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6Activities(projectObjectId, tenant),
+    queryFn: (request) => api.p6.getActivities(projectObjectId, tenant, request),
+  });
+}
+
+export function useP6ActivityDetail(projectObjectId: number, activityObjectId: number | null, tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6ActivityDetail(projectObjectId, activityObjectId, tenant),
+    // Only runs once an activity is opened
+    queryFn: (request) => api.p6.getActivityDetail(projectObjectId, activityObjectId as number, tenant, request),
+    enabled: activityObjectId !== null,
+  });
+}
+
+export function useP6Baselines(projectObjectId: number, tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6Baselines(projectObjectId, tenant),
+    queryFn: (request) => api.p6.getBaselines(projectObjectId, tenant, request),
+  });
+}
+
+export function useP6BaselineSchedule(projectObjectId: number, baselineId: string | null, tenant: string) {
+  return useModeQuery({
+    queryKey: queryKeys.p6BaselineSchedule(projectObjectId, baselineId, tenant),
+    // Only runs once a baseline is chosen
+    queryFn: (request) => api.p6.getBaselineSchedule(projectObjectId, baselineId as string, tenant, request),
+    enabled: !!baselineId,
+  });
+}
+
+export function useP6Scenarios(projectObjectId: number, tenant: string, enabled = true) {
+  return useModeQuery({
+    queryKey: queryKeys.p6Scenarios(projectObjectId, tenant),
+    queryFn: (request) => api.p6.getScenarios(projectObjectId, tenant, request),
+    enabled,
+  });
+}
+
 // =============================================================================
 // SYNC HOOKS
 // =============================================================================
 
+export function useSyncStatus(tenant?: string) {
+  return useModeQuery({
+    queryKey: queryKeys.syncStatus(tenant),
+    queryFn: (request) => api.sync.getStatus(tenant, request),
+  });
+}
+
 export function useSyncDashboard(tenant?: string) {
-  return useQuery<SyncDashboard>({
+  return useModeQuery<SyncDashboard>({
     queryKey: queryKeys.syncDashboard(tenant),
-    queryFn: () => api.sync.getDashboard(tenant),
+    queryFn: (request) => api.sync.getDashboard(tenant, request),
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 }
@@ -263,9 +559,9 @@ export function useSyncHistory(options?: {
   status?: string;
   batchType?: string;
 }) {
-  return useQuery<SyncHistory>({
+  return useModeQuery<SyncHistory>({
     queryKey: queryKeys.syncHistory(options?.page),
-    queryFn: () => api.sync.getHistory(options),
+    queryFn: (request) => api.sync.getHistory(options, request),
   });
 }
 
@@ -276,16 +572,16 @@ export function useSyncErrors(options?: {
   source?: string;
   errorType?: string;
 }) {
-  return useQuery<SyncErrorList>({
+  return useModeQuery<SyncErrorList>({
     queryKey: queryKeys.syncErrors(options?.page, options?.unresolvedOnly),
-    queryFn: () => api.sync.getErrors(options),
+    queryFn: (request) => api.sync.getErrors(options, request),
   });
 }
 
 export function useSyncJobStatus(jobId: string, enabled = true) {
-  return useQuery({
+  return useModeQuery({
     queryKey: queryKeys.syncJobStatus(jobId),
-    queryFn: () => api.sync.getJobStatus(jobId),
+    queryFn: (request) => api.sync.getJobStatus(jobId, request),
     enabled: enabled && !!jobId,
     refetchInterval: (query) => {
       // Stop polling when job is completed or failed
@@ -298,32 +594,274 @@ export function useSyncJobStatus(jobId: string, enabled = true) {
   });
 }
 
+/** Stream reconnects per job before settling on polling */
+const SYNC_STREAM_MAX_RECONNECTS = 3;
+const SYNC_STREAM_RECONNECT_DELAY_MS = 5000;
+
+function isJobFinished(job: SyncJobStatus | undefined): boolean {
+  return job?.status === 'completed' || job?.status === 'failed';
+}
+
+export interface SyncJobStream {
+  job: SyncJobStatus | undefined;
+  /** Latest record counts per system/entity, in arrival order */
+  entities: SyncEntityProgress[];
+  errors: SyncJobError[];
+  /** How progress currently arrives - 'idle' once the job has finished */
+  transport: 'stream' | 'polling' | 'idle';
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Live sync job progress over GET /api/v1/sync/jobs/{jobId}/events.
+ *
+ * Progress events are written into the useSyncJobStatus cache entry, so both
+ * hooks see the same job. While the stream is down the job is polled every
+ * 2 seconds instead, and the stream is retried a few times while the job is
+ * still active. Sync tables refresh on every status change; synced data
+ * refreshes once the job completes.
+ */
+export function useSyncJobStream(jobId: string, enabled = true): SyncJobStream {
+  const queryClient = useQueryClient();
+  const { mode, isLoading: isModeLoading } = useDataMode();
+  const { tenantId } = useTenant();
+  const [streaming, setStreaming] = useState(false);
+  const [reconnects, setReconnects] = useState(0);
+  const [entities, setEntities] = useState<Record<string, SyncEntityProgress>>({});
+  const [errors, setErrors] = useState<Record<string, SyncJobError>>({});
+
+  const query = useModeQuery<SyncJobStatus>({
+    queryKey: queryKeys.syncJobStatus(jobId),
+    queryFn: (request) => api.sync.getJobStatus(jobId, request),
+    enabled: enabled && !!jobId,
+    refetchInterval: (current) => (streaming || isJobFinished(current.state.data) ? false : 2000),
+  });
+  const job = query.data;
+  const finished = isJobFinished(job);
+  const canStream =
+    enabled && !!jobId && !isModeLoading && !finished && typeof EventSource !== 'undefined';
+
+  // A new job (or tenant/mode) starts from a clean slate
+  useEffect(() => {
+    setReconnects(0);
+    setEntities({});
+    setErrors({});
+  }, [jobId, tenantId, mode]);
+
+  useEffect(() => {
+    if (!canStream || reconnects > SYNC_STREAM_MAX_RECONNECTS) return;
+
+    const cacheKey = scopedKey(queryKeys.syncJobStatus(jobId), tenantId, mode);
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const close = api.sync.streamJobEvents(
+      jobId,
+      {
+        onEvent: (event) => {
+          setStreaming(true);
+          switch (event.event) {
+            case 'progress':
+            case 'done':
+              queryClient.setQueryData(cacheKey, event.data);
+              break;
+            case 'entity':
+              setEntities((current) => ({ ...current, [`${event.data.system}:${event.data.entity}`]: event.data }));
+              break;
+            case 'job-error':
+              // Errors are replayed on reconnect - keyed by id to avoid duplicates
+              setErrors((current) => ({ ...current, [event.data.errorId]: event.data }));
+              break;
+          }
+        },
+        onError: () => {
+          setStreaming(false);
+          retryTimer = setTimeout(() => setReconnects((count) => count + 1), SYNC_STREAM_RECONNECT_DELAY_MS);
+        },
+      },
+      mode
+    );
+
+    return () => {
+      clearTimeout(retryTimer);
+      close();
+      setStreaming(false);
+    };
+  }, [canStream, reconnects, jobId, tenantId, mode, queryClient]);
+
+  const status = job?.status;
+  const previousStatus = useRef(status);
+  useEffect(() => {
+    if (previousStatus.current === status) return;
+    previousStatus.current = status;
+    if (!status) return;
+    // The job entry itself is kept current by the stream/polling
+    ['status', 'dashboard', 'history', 'errors'].forEach((table) =>
+      queryClient.invalidateQueries({ queryKey: ['sync', table] })
+    );
+    if (status === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      SYNCED_DATA_ROOTS.forEach((root) => queryClient.invalidateQueries({ queryKey: [root] }));
+    }
+  }, [status, queryClient]);
+
+  return {
+    job,
+    entities: Object.values(entities),
+    errors: Object.values(errors),
+    transport: finished || !enabled || !jobId ? 'idle' : streaming ? 'stream' : 'polling',
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// =============================================================================
+// SETTINGS HOOKS
+// =============================================================================
+
+export function useSettings(tenantId: string, userId: string) {
+  return useModeQuery({
+    queryKey: queryKeys.settings(tenantId, userId),
+    queryFn: (request) => api.settings.get(tenantId, userId, request),
+  });
+}
+
 // =============================================================================
 // MUTATIONS
 // =============================================================================
 
 export function useTriggerSync() {
   const queryClient = useQueryClient();
+  const { mode } = useDataMode();
 
   return useMutation({
-    mutationFn: ({ request, authToken }: { request: SyncRequest; authToken: string }) =>
-      api.sync.trigger(request, authToken),
+    mutationFn: ({ request, authToken }: { request: SyncRequest; authToken?: string }) =>
+      api.sync.trigger(request, authToken, { dataMode: mode }),
     onSuccess: () => {
-      // Invalidate sync queries to refresh data
+      // Sync rewrites portfolio, project, EVM and P6 data - refresh all of it
       queryClient.invalidateQueries({ queryKey: ['sync'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      SYNCED_DATA_ROOTS.forEach((root) => queryClient.invalidateQueries({ queryKey: [root] }));
     },
   });
 }
 
 export function useResolveError() {
   const queryClient = useQueryClient();
+  const { mode } = useDataMode();
 
   return useMutation({
     mutationFn: ({ errorId, authToken }: { errorId: string; authToken: string }) =>
-      api.sync.resolveError(errorId, authToken),
+      api.sync.resolveError(errorId, authToken, { dataMode: mode }),
     onSuccess: () => {
       // Invalidate sync error queries
       queryClient.invalidateQueries({ queryKey: ['sync', 'errors'] });
     },
   });
 }
+
+/**
+ * Save one section of the settings page and refresh the cached settings.
+ * A changed connection can change what syncs, so sync status is refreshed too.
+ */
+export function useSaveSettings() {
+  const queryClient = useQueryClient();
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: (update:
+      | { section: 'p6'; config: Partial<P6ConnectionConfig> }
+      | { section: 'sap'; config: Partial<SAPConnectionConfig> }
+      | { section: 'sync'; config: Partial<SyncConfig> }
+      | { section: 'preferences'; config: Partial<UserPreferences> }
+    ) => {
+      switch (update.section) {
+        case 'p6':
+          return api.settings.saveP6Connection(update.config, { dataMode: mode });
+        case 'sap':
+          return api.settings.saveSapConnection(update.config, { dataMode: mode });
+        case 'sync':
+          return api.settings.saveSyncConfig(update.config, { dataMode: mode });
+        case 'preferences':
+          return api.settings.savePreferences(update.config, { dataMode: mode });
+      }
+    },
+    onSuccess: (_result, update) => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      if (update.section !== 'preferences') {
+        queryClient.invalidateQueries({ queryKey: ['sync'] });
+      }
+    },
+  });
+}
+
+export function useTestConnection() {
+  const queryClient = useQueryClient();
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: (system: 'p6' | 'sap') => api.settings.testConnection(system, { dataMode: mode }),
+    onSettled: () => {
+      // The backend records lastTestedAt/lastError on the connection
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+  });
+}
+
+export function useImportSchedule() {
+  const queryClient = useQueryClient();
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: ({ file, tenant }: { file: Blob; tenant: string }) =>
+      api.p6.importSchedule(file, tenant, { dataMode: mode }),
+    onSuccess: () => {
+      // An import replaces project, WBS and activity rows like a sync does
+      SYNCED_DATA_ROOTS.forEach((root) => queryClient.invalidateQueries({ queryKey: [root] }));
+    },
+  });
+}
+
+/**
+ * Save a what-if scenario: updates `scenarioId` when given, else creates one
+ */
+export function useSaveScheduleScenario() {
+  const queryClient = useQueryClient();
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: ({ projectObjectId, scenarioId, scenario, tenant }: {
+      projectObjectId: number;
+      scenarioId: number | null;
+      scenario: ScenarioInput;
+      tenant: string;
+    }) =>
+      scenarioId === null
+        ? api.p6.createScenario(projectObjectId, scenario, tenant, { dataMode: mode })
+        : api.p6.updateScenario(projectObjectId, scenarioId, scenario, tenant, { dataMode: mode }),
+    onSuccess: (_, { projectObjectId, tenant }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.p6Scenarios(projectObjectId, tenant) });
+    },
+  });
+}
+
+export function useDeleteScheduleScenario() {
+  const queryClient = useQueryClient();
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: ({ projectObjectId, scenarioId, tenant }: { projectObjectId: number; scenarioId: number; tenant: string }) =>
+      api.p6.deleteScenario(projectObjectId, scenarioId, tenant, { dataMode: mode }),
+    onSuccess: (_, { projectObjectId, tenant }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.p6Scenarios(projectObjectId, tenant) });
+    },
+  });
+}
+
+export function useExportSchedule() {
+  const { mode } = useDataMode();
+
+  return useMutation({
+    mutationFn: ({ projectObjectId, tenant }: { projectObjectId: number; tenant: string }) =>
+      api.p6.exportSchedule(projectObjectId, tenant, { dataMode: mode }),
+  });
+}
@@ -9,7 +9,39 @@
 export * from './types';
 
 // API Client
-export { api, portfolioApi, projectsApi, evmApi, syncApi, healthApi } from './api';
+export {
+  api,
+  portfolioApi,
+  projectsApi,
+  evmApi,
+  cfoApi,
+  projectDashboardApi,
+  p6Api,
+  syncApi,
+  settingsApi,
+  healthApi,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_TIMEOUT_MS,
+  getRetryDelay,
+  shouldRetry,
+} from './api';
+export type { ApiRequestOptions, RetryPolicy, P6ProjectsQuery, SyncJobStreamHandlers } from './api';
+export { createQueryClient, DEFAULT_STALE_TIME_MS } from './queryClient';
+
+// API Errors
+export { ApiError, ContractViolationError, isApiError, getApiErrorMessage } from './errors';
+export type { ApiErrorKind } from './errors';
+
+// Response Validation
+export * from './schemas';
+export { s, validate, formatIssues } from './schema';
+export type { Schema, SchemaIssue, ValidationResult } from './schema';
+export {
+  getSchemaDrifts,
+  clearSchemaDrifts,
+  subscribeToSchemaDrift,
+} from './schemaDrift';
+export type { SchemaDrift } from './schemaDrift';
 
 // React Query Hooks
 export {
@@ -21,8 +53,6 @@ export {
   usePortfolioFinancials,
   usePortfolioDomainProgress,
   usePortfolioProjects,
-  useCfoHealth,
-  useCfoBudgetComparison,
 
   // Projects Hooks
   useProjectsHealth,
@@ -42,17 +72,48 @@ export {
   useEvmByPhase,
   useEvmTrend,
   useEvmReference,
+  useEvmProjects,
+
+  // CFO Hooks
+  useCfoPortfolioHealth,
+  useCfoFinancials,
+  useCfoBudgets,
+  useCfoComparison,
+
+  // Project Dashboard Hooks
+  useProjectHeader,
+  useProjectPerformance,
+  useProjectDomainProgress,
+  useProjectBudget,
+  useProjectScheduleIntelligence,
+
+  // P6 Hooks
+  useP6Projects,
+  useP6ProjectStatuses,
+  useP6WbsTree,
+  useP6WbsDetail,
+  useP6Activities,
 
   // Sync Hooks
+  useSyncStatus,
   useSyncDashboard,
   useSyncHistory,
   useSyncErrors,
   useSyncJobStatus,
+  useSyncJobStream,
+
+  // Settings Hooks
+  useSettings,
 
   // Mutations
   useTriggerSync,
   useResolveError,
+  useSaveSettings,
+  useTestConnection,
+  useImportSchedule,
+  useExportSchedule,
 } from './hooks';
+export type { SyncJobStream } from './hooks';
 
 // Data Mode Utilities
 export {
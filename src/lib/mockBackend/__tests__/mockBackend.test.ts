@@ -0,0 +1,503 @@
+/**
+ * Mock Backend Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Test coverage:
+ * - Every portfolio/projects/evm/cfo/p6/sync/health endpoint passes the client's
+ *   runtime schema checks (responses go through the real api.ts functions)
+ * - BFF routes hand off to the mock backend when it is enabled
+ * - Deterministic seeded fixtures
+ * - Simulated sync job progression
+ * - Sync job event stream
+ * - Injectable error scenarios
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { api } from '../../api';
+import { ApiError, ContractViolationError } from '../../errors';
+import { clearSchemaDrifts, getSchemaDrifts } from '../../schemaDrift';
+import { createMockDatabase, MockBackend } from '..';
+import { GET as getCfoHealth } from '@/app/api/v1/cfo/health/route';
+import { NextRequest } from 'next/server';
+
+const NO_RETRY = { retry: false } as const;
+const START = Date.parse('2025-07-01T09:00:00Z');
+
+let clock = START;
+let backend: MockBackend;
+const sleep = vi.fn<(ms: number, signal?: AbortSignal) => Promise<void>>(() => Promise.resolve());
+
+beforeEach(() => {
+  clock = START;
+  sleep.mockClear();
+  clearSchemaDrifts();
+  backend = new MockBackend({ now: () => clock, sleep, syncTiming: { pendingMs: 1000, durationMs: 10000 } });
+  // Route the API client straight into the mock backend
+  vi.stubGlobal('fetch', (url: string, init?: RequestInit) =>
+    backend.handleRequest(new Request(`http://localhost${url}`, init))
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// CONTRACT
+// ============================================================================
+
+describe('MockBackend - contract', () => {
+  it('serves every portfolio endpoint', async () => {
+    await expect(api.portfolio.getSummary('t', NO_RETRY)).resolves.toMatchObject({ totalProjects: 8 });
+    await api.portfolio.getFinancials('t', NO_RETRY);
+    await api.portfolio.getDomainProgress('t', NO_RETRY);
+    await expect(api.portfolio.getProjects({ limit: 3 }, NO_RETRY)).resolves.toHaveLength(3);
+  });
+
+  it('serves every projects endpoint', async () => {
+    const [first] = await api.projects.list(false, NO_RETRY);
+    const id = first.objectId;
+
+    await api.projects.getHealth({ limit: 6 }, NO_RETRY);
+    await api.projects.getById(id, NO_RETRY);
+    await api.projects.getSchedule(id, NO_RETRY);
+    await api.projects.getCriticalPath(id, 10, NO_RETRY);
+    await expect(api.projects.getWbs(id, true, NO_RETRY)).resolves.toHaveProperty('hierarchy');
+    await expect(api.projects.getWbs(id, false, NO_RETRY)).resolves.toHaveProperty('wbs');
+    await api.projects.getActivities(id, { criticalOnly: true, limit: 5 }, NO_RETRY);
+    await api.projects.getFinancial(id, NO_RETRY);
+    await api.projects.getEvm(id, NO_RETRY);
+    await expect(api.projects.getDomains(id, NO_RETRY)).resolves.toHaveLength(4);
+    await expect(api.projects.getDomain(id, 'construction', NO_RETRY)).resolves.toMatchObject({ domain: 'C' });
+    await api.projects.getUniverse(id, NO_RETRY);
+  });
+
+  it('serves every evm endpoint', async () => {
+    await api.evm.getMetrics(10481, '2025-03-31', NO_RETRY);
+    await expect(api.evm.getByPhase(10481, NO_RETRY)).resolves.toMatchObject({ projectId: 10481 });
+    await expect(api.evm.getTrend(10481, 6, NO_RETRY)).resolves.toHaveProperty('trend.length', 6);
+    await api.evm.getReference(NO_RETRY);
+    await expect(api.evm.getProjects({ projectId: '10481' }, NO_RETRY)).resolves.toHaveProperty('projects.length', 1);
+  });
+
+  it('serves every cfo endpoint', async () => {
+    await expect(api.cfo.getHealth('t', NO_RETRY)).resolves.toMatchObject({ totalProjects: 8 });
+    // No SAP line has synced into the fixtures
+    await expect(api.cfo.getFinancials('t', NO_RETRY)).resolves.toBeNull();
+    await expect(api.cfo.getBudgets('t', NO_RETRY)).resolves.toHaveProperty('projects.length', 8);
+    const { projects } = await api.cfo.getComparison('t', NO_RETRY);
+
+    expect(new Set(projects.map((project) => project.status)).size).toBeGreaterThan(1);
+  });
+
+  it('serves every project dashboard endpoint', async () => {
+    const cfo = await api.cfo.getComparison('t', NO_RETRY);
+    const rated = cfo.projects.find((project) => project.projectId === '10481');
+
+    // Rated from the same EVM as the CFO comparison, by object ID or code
+    await expect(api.projectDashboard.getHeader('OS-001', 't', NO_RETRY)).resolves.toMatchObject({
+      projectId: '10481',
+      status: rated?.status,
+      sapWbsElement: null,
+    });
+    await expect(api.projectDashboard.getPerformance('10481', 't', NO_RETRY)).resolves.toMatchObject({
+      spi: rated?.spi,
+      cpi: rated?.cpi,
+    });
+    const { domains } = await api.projectDashboard.getDomains('10481', 't', NO_RETRY);
+    expect(domains.map((domain) => domain.domain)).toEqual([
+      'engineering',
+      'procurement',
+      'construction',
+      'commissioning',
+    ]);
+    expect(domains.every((domain) => domain.spi === null)).toBe(true);
+    await expect(api.projectDashboard.getBudget('10481', 't', NO_RETRY)).resolves.toMatchObject({
+      bac: rated?.bac,
+      currency: null,
+    });
+    await expect(api.projectDashboard.getSchedule('10481', 't', NO_RETRY)).resolves.toMatchObject({
+      wbsElements: 14,
+    });
+    await expect(api.projectDashboard.getHeader('1', 't', NO_RETRY)).rejects.toMatchObject({
+      code: 'PROJECT_NOT_FOUND',
+    });
+  });
+
+  it('pages, sorts and filters the p6 projects', async () => {
+    const query = { tenant: 't', page: 1, pageSize: 3, sortBy: 'budgetAtCompletion', sortDir: 'desc' } as const;
+    const first = await api.p6.getProjects(query, NO_RETRY);
+    const second = await api.p6.getProjects({ ...query, page: 3 }, NO_RETRY);
+    const budgets = first.data.map((project) => project.budgetAtCompletion);
+
+    expect(first.pagination).toEqual({ page: 1, pageSize: 3, total: 8, totalPages: 3 });
+    expect(budgets).toEqual([...budgets].sort((a, b) => b - a));
+    expect(second.data).toHaveLength(2);
+    await expect(
+      api.p6.getProjects({ ...query, search: 'terminal' }, NO_RETRY)
+    ).resolves.toHaveProperty('pagination.total', 2);
+    await expect(api.p6.getProjectStatuses('t', NO_RETRY)).resolves.toEqual([
+      { value: 'Active', label: 'Active', count: 6 },
+      { value: 'Inactive', label: 'Inactive', count: 1 },
+      { value: 'What-If', label: 'What-If', count: 1 },
+    ]);
+  });
+
+  it('validates p6 project queries like the BFF', async () => {
+    const error = await api.p6
+      .getProjects({ tenant: 't', page: 0, pageSize: 3, sortBy: 'name', sortDir: 'asc' }, NO_RETRY)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(422);
+    expect(error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('rolls the p6 WBS tree and detail up from the fixture activities', async () => {
+    const { nodes, totalCount } = await api.p6.getWbsTree(10481, 't', NO_RETRY);
+    const [root] = nodes;
+
+    expect(nodes).toHaveLength(1);
+    expect(root.children.map((node) => node.name)).toEqual([
+      'Engineering',
+      'Procurement',
+      'Construction',
+      'Commissioning',
+    ]);
+    expect(totalCount).toBe(1 + 4 + 9);
+    // The fixtures carry no activity costs, so none are rolled up
+    expect(root).toMatchObject({ budgetAtCompletion: null, sapMapped: false });
+
+    const detail = await api.p6.getWbsDetail(root.objectId, 't', NO_RETRY);
+    expect(detail).toMatchObject({
+      objectId: root.objectId,
+      status: 'Active',
+      percentComplete: root.percentComplete,
+      activityCount: root.activityCount,
+      sapMapping: null,
+    });
+    await expect(api.p6.getWbsDetail(1, 't', NO_RETRY)).rejects.toMatchObject({ status: 404, code: 'WBS_NOT_FOUND' });
+    await expect(api.p6.getWbsTree(1, 't', NO_RETRY)).rejects.toMatchObject({ code: 'PROJECT_NOT_FOUND' });
+  });
+
+  it('serves the p6 activities from the fixtures', async () => {
+    const { activities, relationships, dataDate, totalCount } = await api.p6.getActivities(10481, 't', NO_RETRY);
+    const starts = activities.map((activity) => activity.plannedStart);
+
+    expect(totalCount).toBe(activities.length);
+    expect(starts).toEqual([...starts].sort());
+    expect(dataDate).toBe('2025-06-30');
+    expect(relationships).toEqual([]);
+    expect(activities.some((activity) => activity.isMilestone)).toBe(true);
+
+    const [first] = activities;
+    await expect(api.p6.getActivityDetail(10481, first.objectId, 't', NO_RETRY)).resolves.toEqual({
+      activity: first,
+      resources: [],
+      costs: { plannedCost: null, actualCost: null, remainingCost: null },
+    });
+    await expect(api.p6.getActivityDetail(10482, first.objectId, 't', NO_RETRY)).rejects.toMatchObject({
+      status: 404,
+      code: 'ACTIVITY_NOT_FOUND',
+    });
+    await expect(api.p6.getBaselines(10481, 't', NO_RETRY)).resolves.toEqual({ baselines: [] });
+    await expect(api.p6.getScenarios(10481, 't', NO_RETRY)).resolves.toEqual({ scenarios: [] });
+  });
+
+  it('filters the p6 activities like the BFF', async () => {
+    const backendGet = (query: string) =>
+      backend.handleRequest(new Request(`http://localhost/api/v1/p6/projects/10481/activities?${query}`));
+    const { nodes } = await api.p6.getWbsTree(10481, 't', NO_RETRY);
+    const construction = nodes[0].children[2];
+
+    const critical = await (await backendGet('criticalOnly=true')).json();
+    const inWbs = await (await backendGet(`wbsObjectId=${construction.objectId}`)).json();
+
+    expect(critical.activities.every((activity: { totalFloat: number }) => activity.totalFloat <= 0)).toBe(true);
+    expect(inWbs.totalCount).toBe(construction.activityCount);
+    expect((await backendGet('from=2025-07-01&to=2025-01-01')).status).toBe(422);
+    expect((await backendGet('wbsObjectId=1')).status).toBe(404);
+  });
+
+  it('serves every sync and health endpoint', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'full' });
+    await api.sync.getStatus('t', NO_RETRY);
+    await api.sync.getJobStatus(jobId, NO_RETRY);
+    await api.sync.listJobs(5, NO_RETRY);
+    await api.sync.getDashboard('t', NO_RETRY);
+    await api.sync.getHistory({ page: 1, pageSize: 5 }, NO_RETRY);
+    const { errors } = await api.sync.getErrors({ unresolvedOnly: true }, NO_RETRY);
+    await expect(api.sync.resolveError(errors[0].errorId, 'token')).resolves.toMatchObject({ resolved: true });
+    await api.health.check(NO_RETRY);
+    await api.health.ready(NO_RETRY);
+  });
+
+  it('never reports schema drift', async () => {
+    await api.portfolio.getProjects(undefined, NO_RETRY);
+    await api.projects.getUniverse(10481, NO_RETRY);
+
+    expect(getSchemaDrifts()).toHaveLength(0);
+  });
+
+  it('answers unknown projects with a 404 ApiError', async () => {
+    const error = await api.projects.getById(1, NO_RETRY).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('PROJECT_NOT_FOUND');
+    expect(error.requestId).toMatch(/^mock-/);
+  });
+});
+
+// ============================================================================
+// BFF HANDOFF
+// ============================================================================
+
+describe('MockBackend - BFF handoff', () => {
+  const request = () =>
+    new NextRequest('http://localhost/api/v1/cfo/health', { headers: { 'X-Tenant-ID': 'tenant-001' } });
+  const segment = { params: Promise.resolve({}) };
+
+  it('serves BFF routes from the mock backend when it is enabled', async () => {
+    vi.stubEnv('ORION_MOCK_BACKEND', 'true');
+
+    const response = await getCfoHealth(request(), segment);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Request-ID')).toMatch(/^mock-/);
+    await expect(response.json()).resolves.toMatchObject({ totalProjects: 8 });
+  });
+
+  it('leaves BFF routes on the database otherwise', async () => {
+    vi.stubEnv('ORION_MOCK_BACKEND', 'false');
+
+    const response = await getCfoHealth(request(), segment);
+
+    expect(response.headers.get('X-Request-ID')).not.toMatch(/^mock-/);
+  });
+});
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+describe('MockBackend - fixtures', () => {
+  it('is deterministic for a seed', () => {
+    expect(createMockDatabase(7)).toEqual(createMockDatabase(7));
+    expect(createMockDatabase(7)).not.toEqual(createMockDatabase(8));
+  });
+
+  it('spreads projects across health statuses', async () => {
+    const cards = await api.portfolio.getProjects(undefined, NO_RETRY);
+
+    expect(new Set(cards.map((card) => card.status)).size).toBeGreaterThan(1);
+  });
+});
+
+// ============================================================================
+// SYNC JOBS
+// ============================================================================
+
+describe('MockBackend - sync jobs', () => {
+  it('progresses from pending through running to completed', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'full' });
+    const status = () => api.sync.getJobStatus(jobId, NO_RETRY);
+
+    await expect(status()).resolves.toMatchObject({ status: 'pending', progress: 0 });
+
+    clock += 6000;
+    await expect(status()).resolves.toMatchObject({ status: 'running', progress: 50 });
+
+    clock += 10000;
+    const done = await status();
+    expect(done).toMatchObject({ status: 'completed', progress: 100, error: null });
+    expect(done.completedAt).not.toBeNull();
+  });
+
+  it('records finished jobs in the sync history', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'p6_only' });
+    clock += 20000;
+
+    const { batches } = await api.sync.getHistory(undefined, NO_RETRY);
+
+    expect(batches[0]).toMatchObject({ batchId: jobId, batchType: 'p6_only', status: 'completed', sapRecordCount: 0 });
+  });
+
+  it('shows running syncs on the dashboard', async () => {
+    await api.sync.trigger({ syncType: 'full' });
+    clock += 2000;
+
+    await expect(api.sync.getDashboard(undefined, NO_RETRY)).resolves.toMatchObject({ activeJobs: 1 });
+    await expect(api.sync.getStatus(undefined, NO_RETRY)).resolves.toHaveProperty('p6.status', 'running');
+  });
+
+  it('rejects an unknown sync type', async () => {
+    const error = await api.sync.trigger({ syncType: 'everything' as never }).catch((e) => e);
+
+    expect(error.status).toBe(422);
+  });
+});
+
+// ============================================================================
+// SYNC EVENT STREAM
+// ============================================================================
+
+describe('MockBackend - sync event stream', () => {
+  /** Read a text/event-stream body into its events */
+  async function readEvents(response: Response) {
+    const text = await response.text();
+    return text
+      .trim()
+      .split('\n\n')
+      .map((block) => {
+        const [eventLine, dataLine] = block.split('\n');
+        return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+      });
+  }
+
+  function openStream(jobId: string) {
+    return backend.handleRequest(new Request(`http://localhost/api/v1/sync/jobs/${jobId}/events`));
+  }
+
+  beforeEach(() => {
+    // Each stream tick advances the clock, so the job runs to completion
+    sleep.mockImplementation((ms: number) => {
+      clock += ms;
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    sleep.mockImplementation(() => Promise.resolve());
+  });
+
+  it('streams progress and entity counts until the job is done', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'full' });
+
+    const response = await openStream(jobId);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+
+    const progress = events.filter((e) => e.event === 'progress').map((e) => e.data.progress);
+    expect(progress[0]).toBe(0);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(events[events.length - 1]).toMatchObject({ event: 'done', data: { status: 'completed', progress: 100 } });
+
+    const finalCounts = new Map(
+      events.filter((e) => e.event === 'entity').map((e) => [e.data.entity, e.data.synced])
+    );
+    expect(finalCounts.get('activities')).toBe(1200);
+    expect(finalCounts.get('cost_lines')).toBe(600);
+  });
+
+  it('keeps entity counts in step with recordsSynced', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'p6_only' });
+    clock += 4000;
+
+    const status = backend.jobs.get(jobId)!;
+    const entities = backend.jobs.entities(jobId);
+
+    expect(entities.every((entity) => entity.system === 'p6')).toBe(true);
+    expect(entities.reduce((total, entity) => total + entity.synced, 0)).toBe(status.recordsSynced.p6);
+  });
+
+  it('sends a job-error event when the job fails', async () => {
+    const { jobId } = await api.sync.trigger({ syncType: 'full' }, undefined, {
+      headers: { 'X-Mock-Scenario': 'sync-failure' },
+    });
+
+    const events = await readEvents(await openStream(jobId));
+
+    expect(events.filter((e) => e.event === 'job-error')).toEqual([
+      { event: 'job-error', data: expect.objectContaining({ errorId: `err-${jobId}-1`, errorSource: 'sap' }) },
+    ]);
+    expect(events[events.length - 1]).toMatchObject({ event: 'done', data: { status: 'failed' } });
+  });
+
+  it('answers unknown jobs with a 404', async () => {
+    const response = await openStream('job-9999');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+describe('MockBackend - scenarios', () => {
+  async function inject(body: Record<string, unknown>) {
+    await backend.handleRequest(
+      new Request('http://localhost/api/mock/__scenarios', { method: 'POST', body: JSON.stringify(body) })
+    );
+  }
+
+  it('fails a single request through the scenario header', async () => {
+    const error = await api.portfolio
+      .getSummary(undefined, { retry: false, headers: { 'X-Mock-Scenario': 'unavailable' } })
+      .catch((e) => e);
+
+    expect(error.status).toBe(503);
+    expect(error.retryAfterMs).toBe(1000);
+    await expect(api.portfolio.getSummary(undefined, NO_RETRY)).resolves.toBeDefined();
+  });
+
+  it('fails matching routes a set number of times', async () => {
+    await inject({ scenario: 'server-error', route: '/api/v1/projects', times: 1 });
+
+    await expect(api.portfolio.getSummary(undefined, NO_RETRY)).resolves.toBeDefined();
+    await expect(api.projects.list(false, NO_RETRY)).rejects.toMatchObject({ status: 500 });
+    await expect(api.projects.list(false, NO_RETRY)).resolves.toHaveLength(8);
+  });
+
+  it('clears injected scenarios', async () => {
+    await inject({ scenario: 'unauthorized' });
+    await backend.handleRequest(new Request('http://localhost/api/mock/__scenarios', { method: 'DELETE' }));
+
+    await expect(api.portfolio.getSummary(undefined, NO_RETRY)).resolves.toBeDefined();
+  });
+
+  it('delays slow responses', async () => {
+    await inject({ scenario: 'slow', times: 1 });
+
+    await api.health.check(NO_RETRY);
+
+    expect(sleep).toHaveBeenCalledWith(3000, expect.anything());
+  });
+
+  it('drifts the contract so the client rejects it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await inject({ scenario: 'contract-drift', times: 1 });
+
+    await expect(api.portfolio.getSummary(undefined, NO_RETRY)).rejects.toBeInstanceOf(ContractViolationError);
+  });
+
+  it('fails sync jobs triggered under sync-failure', async () => {
+    await inject({ scenario: 'sync-failure', route: '/api/v1/sync/trigger' });
+    const { jobId } = await api.sync.trigger({ syncType: 'full' });
+    clock += 20000;
+
+    await expect(api.sync.getJobStatus(jobId, NO_RETRY)).resolves.toMatchObject({ status: 'failed', progress: 60 });
+    await expect(api.sync.getErrors({ unresolvedOnly: true }, NO_RETRY)).resolves.toHaveProperty(
+      'errors.0.batchId',
+      jobId
+    );
+  });
+
+  it('rejects unknown scenario names', async () => {
+    const response = await backend.handleRequest(
+      new Request('http://localhost/api/mock/__scenarios', { method: 'POST', body: JSON.stringify({ scenario: 'x' }) })
+    );
+
+    expect(response.status).toBe(422);
+  });
+
+  it('reseeds on reset', async () => {
+    await api.sync.trigger({ syncType: 'full' });
+    await backend.handleRequest(new Request('http://localhost/api/mock/__reset', { method: 'POST' }));
+
+    await expect(api.sync.listJobs(10, NO_RETRY)).resolves.toMatchObject({ total: 0 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Mock Backend Server
+ * @governance DATA-001, DOC-002
+ *
+ * Dispatches requests to the route handlers, applies injected scenarios and
+ * serves the control endpoints. See index.ts for how it is wired up.
+ */
+
+import { NextResponse } from 'next/server';
+import { BffError } from '../bff/http';
+import { createMockDatabase, DEFAULT_SEED, type MockDatabase } from './fixtures';
+import { matchRoute, MockHttpError } from './handlers';
+import { applyDrift, isScenarioName, ScenarioRegistry, SCENARIOS, type ScenarioEffect } from './scenarios';
+import { DEFAULT_SYNC_TIMING, SyncJobSimulator, type SyncJobTiming } from './syncJobs';
+
+export const MOCK_PATH_PREFIX = '/api/mock';
+export const SCENARIO_HEADER = 'X-Mock-Scenario';
+
+export interface MockBackendOptions {
+  seed?: number;
+  /** Clock for sync job progress; injectable for tests */
+  now?: () => number;
+  syncTiming?: SyncJobTiming;
+  /** Wait used by slow/timeout scenarios; injectable for tests */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+function errorResponse(status: number, code: string, detail: string, headers?: Record<string, string>) {
+  return NextResponse.json({ detail, code }, { status, headers });
+}
+
+export class MockBackend {
+  readonly scenarios = new ScenarioRegistry();
+  db!: MockDatabase;
+  jobs!: SyncJobSimulator;
+  private requestCount = 0;
+  private readonly now: () => number;
+  private readonly wait: NonNullable<MockBackendOptions['sleep']>;
+
+  constructor(private readonly options: MockBackendOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.wait = options.sleep ?? sleep;
+    this.reset();
+  }
+
+  /** Reseed fixtures and drop sync jobs and scenarios */
+  reset(): void {
+    this.db = createMockDatabase(this.options.seed ?? DEFAULT_SEED);
+    this.jobs = new SyncJobSimulator(this.db, this.now, this.options.syncTiming ?? DEFAULT_SYNC_TIMING);
+    this.scenarios.clear();
+  }
+
+  /**
+   * Serve a request. Accepts both backend paths (/api/v1/...) and the same
+   * paths under the /api/mock prefix.
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.startsWith(MOCK_PATH_PREFIX)
+      ? url.pathname.slice(MOCK_PATH_PREFIX.length) || '/'
+      : url.pathname;
+
+    if (path === '/__scenarios') return this.handleScenarios(request);
+    if (path === '/__reset' && request.method === 'POST') {
+      this.reset();
+      return NextResponse.json({ success: true });
+    }
+
+    this.requestCount += 1;
+    const requestId = `mock-${String(this.requestCount).padStart(6, '0')}`;
+    const headers = { 'X-Request-ID': requestId };
+
+    const headerScenario = request.headers.get(SCENARIO_HEADER);
+    const scenarioName = isScenarioName(headerScenario) ? headerScenario : this.scenarios.take(path);
+    const effect: ScenarioEffect = scenarioName ? SCENARIOS[scenarioName] : {};
+
+    if (effect.delayMs) await this.wait(effect.delayMs, request.signal);
+    if (effect.status) {
+      return errorResponse(effect.status, effect.code ?? 'MOCK_ERROR', effect.detail ?? 'Simulated error', {
+        ...headers,
+        ...(effect.retryAfter ? { 'Retry-After': String(effect.retryAfter) } : {}),
+      });
+    }
+
+    const match = matchRoute(request.method, path);
+    if (!match) {
+      return errorResponse(404, 'NOT_FOUND', `No mock route for ${request.method} ${path}`, headers);
+    }
+
+    try {
+      const body = request.method === 'GET' ? null : await request.json().catch(() => null);
+      const result = match.route.handler({
+        db: this.db,
+        jobs: this.jobs,
+        now: this.now,
+        params: match.params,
+        query: url.searchParams,
+        body,
+        failSync: effect.failSync ?? false,
+        wait: this.wait,
+        signal: request.signal,
+      });
+      if (result instanceof Response) {
+        result.headers.set('X-Request-ID', requestId);
+        return result;
+      }
+      return NextResponse.json(effect.drift ? applyDrift(result) : result, {
+        status: match.route.status ?? 200,
+        headers,
+      });
+    } catch (error) {
+      // Routes that mirror the BFF validate their input with its parsers
+      if (error instanceof MockHttpError || error instanceof BffError) {
+        return errorResponse(error.status, error.code, error.message, headers);
+      }
+      throw error;
+    }
+  }
+
+  private async handleScenarios(request: Request): Promise<NextResponse> {
+    if (request.method === 'DELETE') {
+      this.scenarios.clear();
+      return NextResponse.json({ scenarios: [] });
+    }
+
+    if (request.method === 'POST') {
+      const body = await request.json().catch(() => null);
+      if (!isScenarioName(body?.scenario)) {
+        return errorResponse(422, 'VALIDATION_ERROR', `scenario must be one of ${Object.keys(SCENARIOS).join(', ')}`);
+      }
+      this.scenarios.add({
+        name: body.scenario,
+        route: typeof body.route === 'string' ? body.route : undefined,
+        remaining: Number.isInteger(body.times) && body.times > 0 ? body.times : undefined,
+      });
+    }
+
+    return NextResponse.json({ scenarios: this.scenarios.list() });
+  }
+}
+
+// =============================================================================
+// SHARED INSTANCE
+// =============================================================================
+
+const globalForMock = globalThis as unknown as { orionMockBackend?: MockBackend };
+
+/**
+ * Process-wide backend; kept on globalThis so dev hot reloads keep sync jobs
+ * and injected scenarios
+ */
+export function getMockBackend(): MockBackend {
+  globalForMock.orionMockBackend ??= new MockBackend({
+    seed: Number(process.env.ORION_MOCK_SEED) || DEFAULT_SEED,
+  });
+  return globalForMock.orionMockBackend;
+}
+
+export function isMockBackendEnabled(): boolean {
+  return process.env.ORION_MOCK_BACKEND === 'true';
+}
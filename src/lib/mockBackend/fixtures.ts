@@ -0,0 +1,377 @@
+/**
+ * Mock Backend Fixtures
+ * @governance DATA-001, DOC-002
+ *
+ * Deterministic seeded rows shaped like the client_demo schema (see
+ * TABLE_MAP.mock in dataMode.ts). Handlers derive every API response from
+ * these tables the way the Python backend derives them from Postgres, so
+ * the same seed always yields the same portfolio.
+ */
+
+// =============================================================================
+// TABLE ROWS (client_demo.*)
+// =============================================================================
+
+export type DomainCode = 'E' | 'P' | 'C' | 'COM';
+
+/** client_demo.projects */
+export interface ProjectRow {
+  object_id: number;
+  project_code: string;
+  project_name: string;
+  status: 'Active' | 'Inactive' | 'What-If';
+  planned_start: string;
+  planned_finish: string;
+  actual_start: string | null;
+  actual_finish: string | null;
+  data_date: string;
+  percent_complete: number;
+}
+
+/** client_demo.project_snapshots (one per project per month) */
+export interface ProjectSnapshotRow {
+  project_object_id: number;
+  snapshot_date: string;
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+}
+
+/** client_demo.domain_metrics */
+export interface DomainMetricRow {
+  project_object_id: number;
+  domain: DomainCode;
+  total_activities: number;
+  completed_activities: number;
+  progress_percent: number;
+  budgeted_cost: number;
+  actual_cost: number;
+}
+
+/** client_demo.wbs */
+export interface WbsRow {
+  object_id: number;
+  project_object_id: number;
+  parent_object_id: number | null;
+  code: string;
+  name: string;
+  status: 'Active' | 'Inactive';
+  sequence_number: number;
+  domain: DomainCode | null;
+}
+
+/** client_demo.activities */
+export interface ActivityRow {
+  object_id: number;
+  project_object_id: number;
+  wbs_object_id: number;
+  activity_code: string;
+  activity_name: string;
+  status: 'NotStarted' | 'InProgress' | 'Completed';
+  activity_type: 'TT_Task' | 'TT_FinMile';
+  start_date: string;
+  finish_date: string;
+  percent_complete: number;
+  total_float: number;
+  remaining_duration: number;
+}
+
+/** client_demo.sync_status (one row per sync batch) */
+export interface SyncBatchRow {
+  batch_id: string;
+  batch_type: 'full' | 'p6_only' | 'sap_only' | 'incremental';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  started_at: string;
+  completed_at: string | null;
+  p6_record_count: number;
+  sap_record_count: number;
+  error_count: number;
+  triggered_by: string | null;
+}
+
+/** client_demo.sync_errors */
+export interface SyncErrorRow {
+  error_id: string;
+  batch_id: string;
+  error_source: 'p6' | 'sap' | 'transform' | 'load';
+  error_type: 'connection' | 'timeout' | 'validation' | 'data' | 'unknown';
+  error_message: string;
+  record_type: string | null;
+  record_id: string | null;
+  occurred_at: string;
+  resolved_at: string | null;
+}
+
+/** client_demo.portfolio_financials */
+export interface PortfolioFinancialsRow {
+  currency: string;
+  as_of_date: string;
+}
+
+export interface MockDatabase {
+  projects: ProjectRow[];
+  project_snapshots: ProjectSnapshotRow[];
+  domain_metrics: DomainMetricRow[];
+  wbs: WbsRow[];
+  activities: ActivityRow[];
+  sync_status: SyncBatchRow[];
+  sync_errors: SyncErrorRow[];
+  portfolio_financials: PortfolioFinancialsRow;
+}
+
+// =============================================================================
+// SEEDED GENERATION
+// =============================================================================
+
+export const DEFAULT_SEED = 10481;
+
+/** Data date every fixture is anchored to, so responses never drift with the clock */
+export const FIXTURE_DATA_DATE = '2025-06-30';
+
+export const DOMAINS: { code: DomainCode; name: string; weight: number }[] = [
+  { code: 'E', name: 'Engineering', weight: 0.15 },
+  { code: 'P', name: 'Procurement', weight: 0.35 },
+  { code: 'C', name: 'Construction', weight: 0.4 },
+  { code: 'COM', name: 'Commissioning', weight: 0.1 },
+];
+
+const PROJECT_NAMES = [
+  'Escravos Gas Plant Expansion',
+  'Forcados Terminal Upgrade',
+  'Bonga FPSO Tie-back',
+  'Trans-Niger Pipeline Repair',
+  'Agbami Water Injection',
+  'Qua Iboe Export Terminal',
+  'Egina Subsea Manifold',
+  'Warri Refinery Revamp',
+];
+
+const WORK_PACKAGES: Record<DomainCode, string[]> = {
+  E: ['Process Design', 'Detailed Engineering'],
+  P: ['Long-Lead Equipment', 'Bulk Materials'],
+  C: ['Civil Works', 'Mechanical Installation', 'Electrical & Instrumentation'],
+  COM: ['Pre-Commissioning', 'Start-up'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Mulberry32: small, fast and stable across platforms */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    between: (min: number, max: number) => min + next() * (max - min),
+    int: (min: number, max: number) => Math.floor(min + next() * (max - min + 1)),
+  };
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + Math.round(days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+const round = (value: number, digits = 0) => Number(value.toFixed(digits));
+
+/**
+ * Build the client_demo tables for a seed
+ */
+export function createMockDatabase(seed = DEFAULT_SEED): MockDatabase {
+  const random = createRandom(seed);
+  const db: MockDatabase = {
+    projects: [],
+    project_snapshots: [],
+    domain_metrics: [],
+    wbs: [],
+    activities: [],
+    sync_status: [],
+    sync_errors: [],
+    portfolio_financials: { currency: 'USD', as_of_date: FIXTURE_DATA_DATE },
+  };
+
+  let wbsId = 20000;
+  let activityId = 300000;
+
+  PROJECT_NAMES.forEach((projectName, index) => {
+    const objectId = 10481 + index;
+    const plannedStart = addDays(FIXTURE_DATA_DATE, -random.int(120, 720));
+    const plannedFinish = addDays(plannedStart, random.int(540, 1100));
+    const status: ProjectRow['status'] = index === PROJECT_NAMES.length - 1 ? 'Inactive' : index === 5 ? 'What-If' : 'Active';
+    const elapsed = Math.min(1, daysBetween(plannedStart, FIXTURE_DATA_DATE) / daysBetween(plannedStart, plannedFinish));
+    // Schedule and cost performance spread across on-track, at-risk and critical
+    const spi = round(random.between(0.82, 1.08), 2);
+    const cpi = round(random.between(0.84, 1.1), 2);
+    const percentComplete = round(Math.min(100, elapsed * spi * 100), 1);
+    const bac = round(random.between(40, 420)) * 1_000_000;
+
+    db.projects.push({
+      object_id: objectId,
+      project_code: `OS-${String(index + 1).padStart(3, '0')}`,
+      project_name: projectName,
+      status,
+      planned_start: plannedStart,
+      planned_finish: plannedFinish,
+      actual_start: addDays(plannedStart, random.int(0, 21)),
+      actual_finish: null,
+      data_date: FIXTURE_DATA_DATE,
+      percent_complete: percentComplete,
+    });
+
+    // Monthly snapshots: PV follows the plan, EV and AC follow SPI/CPI
+    for (let month = 11; month >= 0; month--) {
+      const snapshotDate = addDays(FIXTURE_DATA_DATE, -month * 30);
+      const planned = Math.max(0, Math.min(1, daysBetween(plannedStart, snapshotDate) / daysBetween(plannedStart, plannedFinish)));
+      const pv = round(bac * planned);
+      const ev = round(pv * spi);
+      db.project_snapshots.push({
+        project_object_id: objectId,
+        snapshot_date: snapshotDate,
+        bac,
+        pv,
+        ev,
+        ac: round(ev / cpi),
+      });
+    }
+
+    // WBS: project root > EPCIC domain > work package, each package holding activities
+    const rootId = wbsId++;
+    const wbsStatus = status === 'Inactive' ? 'Inactive' : 'Active';
+    db.wbs.push({
+      object_id: rootId,
+      project_object_id: objectId,
+      parent_object_id: null,
+      code: `OS-${index + 1}`,
+      name: projectName,
+      status: wbsStatus,
+      sequence_number: 0,
+      domain: null,
+    });
+
+    DOMAINS.forEach((domain, domainIndex) => {
+      const domainWbsId = wbsId++;
+      db.wbs.push({
+        object_id: domainWbsId,
+        project_object_id: objectId,
+        parent_object_id: rootId,
+        code: `OS-${index + 1}.${domain.code}`,
+        name: domain.name,
+        status: wbsStatus,
+        sequence_number: domainIndex + 1,
+        domain: domain.code,
+      });
+
+      // Domains run in sequence with overlap, so later domains are less complete
+      const domainStart = addDays(plannedStart, daysBetween(plannedStart, plannedFinish) * domainIndex * 0.22);
+      const domainProgress = round(Math.max(0, Math.min(100, (percentComplete / 100 - domainIndex * 0.2) / 0.4 * 100)), 1);
+      const domainActivities: ActivityRow[] = [];
+
+      WORK_PACKAGES[domain.code].forEach((packageName, packageIndex) => {
+        const packageId = wbsId++;
+        db.wbs.push({
+          object_id: packageId,
+          project_object_id: objectId,
+          parent_object_id: domainWbsId,
+          code: `OS-${index + 1}.${domain.code}.${packageIndex + 1}`,
+          name: packageName,
+          status: wbsStatus,
+          sequence_number: packageIndex + 1,
+          domain: domain.code,
+        });
+
+        const count = random.int(3, 6);
+        for (let n = 0; n < count; n++) {
+          const start = addDays(domainStart, random.int(0, 160) + n * 20);
+          const duration = random.int(10, 90);
+          const finish = addDays(start, duration);
+          const isMilestone = n === count - 1 && packageIndex === WORK_PACKAGES[domain.code].length - 1;
+          const progress = Math.max(0, Math.min(1, daysBetween(start, FIXTURE_DATA_DATE) / duration));
+          const activityPercent = round(Math.min(100, progress * 100 * spi));
+          domainActivities.push({
+            object_id: activityId++,
+            project_object_id: objectId,
+            wbs_object_id: packageId,
+            activity_code: `${domain.code}${packageIndex + 1}${String((n + 1) * 10).padStart(3, '0')}`,
+            activity_name: isMilestone ? `${domain.name} Complete` : `${packageName} ${n + 1}`,
+            status: activityPercent >= 100 ? 'Completed' : activityPercent > 0 ? 'InProgress' : 'NotStarted',
+            activity_type: isMilestone ? 'TT_FinMile' : 'TT_Task',
+            start_date: start,
+            finish_date: isMilestone ? start : finish,
+            percent_complete: activityPercent,
+            total_float: random.next() < 0.25 ? 0 : random.int(1, 40),
+            remaining_duration: isMilestone ? 0 : round(duration * (1 - activityPercent / 100)),
+          });
+        }
+      });
+
+      db.activities.push(...domainActivities);
+      const budgeted = round(bac * domain.weight);
+      db.domain_metrics.push({
+        project_object_id: objectId,
+        domain: domain.code,
+        total_activities: domainActivities.length,
+        completed_activities: domainActivities.filter((a) => a.status === 'Completed').length,
+        progress_percent: domainProgress,
+        budgeted_cost: budgeted,
+        actual_cost: round((budgeted * domainProgress) / 100 / cpi),
+      });
+    });
+  });
+
+  // Sync history: nightly full syncs with the odd failure
+  for (let day = 14; day >= 1; day--) {
+    const startedAt = new Date(Date.parse(`${FIXTURE_DATA_DATE}T02:00:00Z`) - day * DAY_MS);
+    const failed = day % 6 === 0;
+    const batchId = `batch-${String(15 - day).padStart(4, '0')}`;
+    const durationSeconds = random.int(180, 900);
+    db.sync_status.push({
+      batch_id: batchId,
+      batch_type: day % 7 === 0 ? 'full' : 'incremental',
+      status: failed ? 'failed' : 'completed',
+      started_at: startedAt.toISOString(),
+      completed_at: new Date(startedAt.getTime() + durationSeconds * 1000).toISOString(),
+      p6_record_count: failed ? 0 : random.int(800, 2400),
+      sap_record_count: failed ? 0 : random.int(300, 1200),
+      error_count: failed ? 2 : 0,
+      triggered_by: day % 7 === 0 ? 'scheduler' : 'system',
+    });
+
+    if (failed) {
+      db.sync_errors.push(
+        {
+          error_id: `err-${batchId}-1`,
+          batch_id: batchId,
+          error_source: 'sap',
+          error_type: 'timeout',
+          error_message: 'SAP RFC call ACDOCA_READ timed out after 120s',
+          record_type: 'ACDOCA',
+          record_id: null,
+          occurred_at: startedAt.toISOString(),
+          resolved_at: null,
+        },
+        {
+          error_id: `err-${batchId}-2`,
+          batch_id: batchId,
+          error_source: 'transform',
+          error_type: 'validation',
+          error_message: 'WBS element has no matching P6 activity code',
+          record_type: 'PRPS',
+          record_id: `PRPS-${random.int(1000, 9999)}`,
+          occurred_at: startedAt.toISOString(),
+          resolved_at: null,
+        }
+      );
+    }
+  }
+
+  return db;
+}
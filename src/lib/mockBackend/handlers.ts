@@ -0,0 +1,1355 @@
+/**
+ * Mock Backend Route Handlers
+ * @governance DATA-001, DOC-002
+ *
+ * One handler per endpoint in portfolioApi, projectsApi, evmApi, cfoApi,
+ * projectDashboardApi, p6Api, syncApi and healthApi (lib/api.ts), deriving
+ * responses from the client_demo fixtures. Paths mirror api.ts exactly; more specific routes
+ * are listed first.
+ *
+ * Endpoints served by the BFF (lib/bff) reuse its derivations, so mock and
+ * database responses rate and shape the same rows the same way.
+ */
+
+import type {
+  Activity,
+  CriticalPathActivity,
+  DomainProgress,
+  DomainProgressDetail,
+  EVMByPhase,
+  EVMMetrics,
+  EVMReference,
+  EVMTrend,
+  FinancialSummary,
+  PortfolioFinancials,
+  PortfolioSummary,
+  ProjectCard,
+  ProjectDetail,
+  ProjectHealth,
+  ProjectHealthResponse,
+  ProjectSummary,
+  ProjectUniverse,
+  ScheduleSummary,
+  SyncBatch,
+  SyncDashboard,
+  SyncError,
+  SyncErrorList,
+  SyncHistory,
+  SyncRequest,
+  SystemSyncStatus,
+  WBSNode,
+} from '../types';
+import type { SyncStatus as DashboardSyncStatus } from '@/components/dashboard/types';
+import type { EVMProjectSnapshot } from '@/components/evm/types';
+import {
+  DOMAINS,
+  type ActivityRow,
+  type DomainCode,
+  type MockDatabase,
+  type ProjectRow,
+  type ProjectSnapshotRow,
+  type WbsRow,
+} from './fixtures';
+import type { SyncJobSimulator } from './syncJobs';
+import { portfolioHealth, projectBudgets, projectComparisons, rateProjects } from '../bff/cfo';
+import type { ProjectEvm } from '../bff/evm';
+import { idParam } from '../bff/http';
+import { parseActivitiesQuery, toGanttActivity, type ActivityTableRow } from '../bff/p6Activities';
+import { parseProjectsQuery, SORT_COLUMNS, statusOptions, toP6Project, type P6ProjectRow } from '../bff/p6Projects';
+import {
+  buildWbsHierarchy,
+  rollupDetail,
+  subtreeRollup,
+  wbsSubtreeIds,
+  type WbsActivityRow,
+  type WbsTableRow,
+} from '../bff/p6Wbs';
+import {
+  projectBudget,
+  projectDomains,
+  projectHeader,
+  projectPerformance,
+  projectSchedule,
+} from '../bff/projectDashboard';
+import type { ProjectsResponse } from '@/components/project-list/types';
+import type { WBSDetail, WBSTreeResponse } from '@/components/wbs-tree/types';
+import type {
+  ActivitiesResponse,
+  ActivityDetailResponse,
+  BaselinesResponse,
+  ScenariosResponse,
+} from '@/components/gantt/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MockContext {
+  db: MockDatabase;
+  jobs: SyncJobSimulator;
+  now: () => number;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  /** New sync jobs should fail (sync-failure scenario) */
+  failSync: boolean;
+  /** Injectable wait, used between sync event stream ticks */
+  wait: (ms: number, signal?: AbortSignal) => Promise<void>;
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+}
+
+/** Returns a JSON body, or a Response that is served as-is (event streams) */
+type MockHandler = (ctx: MockContext) => unknown;
+
+interface MockRoute {
+  method: 'GET' | 'POST';
+  pattern: string;
+  /** Success status; 200 when absent */
+  status?: number;
+  handler: MockHandler;
+}
+
+/**
+ * Thrown by handlers; rendered as the backend's `{ detail, code }` error body
+ */
+export class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+const CURRENCY_LAYER = 'company_code';
+
+// =============================================================================
+// DERIVATIONS
+// =============================================================================
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const ratio = (numerator: number, denominator: number) => (denominator ? round(numerator / denominator) : null);
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function findProject(db: MockDatabase, projectId: string): ProjectRow {
+  const project = db.projects.find((row) => String(row.object_id) === projectId || row.project_code === projectId);
+  if (!project) throw new MockHttpError(404, 'PROJECT_NOT_FOUND', `Project ${projectId} not found`);
+  return project;
+}
+
+function snapshotsFor(db: MockDatabase, projectObjectId: number, asOfDate?: string | null): ProjectSnapshotRow[] {
+  return db.project_snapshots.filter(
+    (row) => row.project_object_id === projectObjectId && (!asOfDate || row.snapshot_date <= asOfDate)
+  );
+}
+
+function latestSnapshot(db: MockDatabase, projectObjectId: number, asOfDate?: string | null): ProjectSnapshotRow | null {
+  const snapshots = snapshotsFor(db, projectObjectId, asOfDate);
+  return snapshots[snapshots.length - 1] ?? null;
+}
+
+/** EVM figures for one snapshot; indices are null when undefined (DATA-001) */
+function evmFrom(snapshot: ProjectSnapshotRow | null) {
+  if (!snapshot) {
+    return { bac: null, pv: null, ev: null, ac: null, spi: null, cpi: null, sv: null, cv: null, eac: null, etc: null, vac: null, tcpi: null };
+  }
+  const { bac, pv, ev, ac } = snapshot;
+  const cpi = ratio(ev, ac);
+  const eac = cpi ? Math.round(bac / cpi) : null;
+  return {
+    bac,
+    pv,
+    ev,
+    ac,
+    spi: ratio(ev, pv),
+    cpi,
+    sv: ev - pv,
+    cv: ev - ac,
+    eac,
+    etc: eac === null ? null : eac - ac,
+    vac: eac === null ? null : bac - eac,
+    tcpi: ratio(bac - ev, bac - ac),
+  };
+}
+
+function healthStatus(spi: number | null, cpi: number | null): ProjectHealth['status'] {
+  if (spi === null || cpi === null) return 'unknown';
+  const worst = Math.min(spi, cpi);
+  if (worst < 0.9) return 'critical';
+  if (worst < 0.95) return 'at-risk';
+  return 'on-track';
+}
+
+function projectHealth(db: MockDatabase, project: ProjectRow): ProjectHealth {
+  const { spi, cpi } = evmFrom(latestSnapshot(db, project.object_id));
+  return {
+    id: String(project.object_id),
+    name: project.project_name,
+    percentComplete: project.percent_complete,
+    spi,
+    cpi,
+    status: healthStatus(spi, cpi),
+    plannedFinish: project.planned_finish,
+    dataDate: project.data_date,
+  };
+}
+
+function projectActivities(db: MockDatabase, projectObjectId: number) {
+  return db.activities.filter((row) => row.project_object_id === projectObjectId);
+}
+
+function domainProgressDetails(db: MockDatabase, projectObjectId: number): DomainProgressDetail[] {
+  return DOMAINS.map((domain) => {
+    const row = db.domain_metrics.find((m) => m.project_object_id === projectObjectId && m.domain === domain.code);
+    return {
+      domain: domain.code,
+      domainName: domain.name,
+      totalActivities: row?.total_activities ?? 0,
+      completedActivities: row?.completed_activities ?? 0,
+      progressPercent: row?.progress_percent ?? null,
+      budgetedCost: row?.budgeted_cost ?? null,
+      actualCost: row?.actual_cost ?? null,
+    };
+  });
+}
+
+const DOMAIN_KEYS: Record<DomainCode, keyof DomainProgress> = {
+  E: 'engineering',
+  P: 'procurement',
+  C: 'construction',
+  COM: 'commissioning',
+};
+
+function domainProgress(rows: { domain: DomainCode; progress_percent: number }[]): DomainProgress {
+  const progress: DomainProgress = { engineering: null, procurement: null, construction: null, commissioning: null };
+  for (const domain of DOMAINS) {
+    const values = rows.filter((row) => row.domain === domain.code).map((row) => row.progress_percent);
+    progress[DOMAIN_KEYS[domain.code]] = values.length ? round(sum(values) / values.length, 1) : null;
+  }
+  return progress;
+}
+
+function wbsNodes(db: MockDatabase, projectObjectId: number): WBSNode[] {
+  return db.wbs
+    .filter((row) => row.project_object_id === projectObjectId)
+    .map((row) => ({
+      ObjectId: row.object_id,
+      Id: row.code,
+      Name: row.name,
+      ParentObjectId: row.parent_object_id,
+      SequenceNumber: row.sequence_number,
+    }));
+}
+
+function wbsHierarchy(nodes: WBSNode[]): WBSNode[] {
+  const build = (parentId: number | null): WBSNode[] =>
+    nodes
+      .filter((node) => node.ParentObjectId === parentId)
+      .sort((a, b) => a.SequenceNumber - b.SequenceNumber)
+      .map((node) => ({ ...node, children: build(node.ObjectId) }));
+  return build(null);
+}
+
+function financialSummary(db: MockDatabase, project: ProjectRow): FinancialSummary {
+  const evm = evmFrom(latestSnapshot(db, project.object_id));
+  return {
+    projectId: String(project.object_id),
+    bac: evm.bac,
+    actualCost: evm.ac,
+    earnedValue: evm.ev,
+    eac: evm.eac,
+    variance: evm.vac,
+    currency: db.portfolio_financials.currency,
+    asOfDate: db.portfolio_financials.as_of_date,
+  };
+}
+
+function evmMetrics(db: MockDatabase, project: ProjectRow, asOfDate?: string | null): EVMMetrics {
+  const snapshot = latestSnapshot(db, project.object_id, asOfDate);
+  const evm = evmFrom(snapshot);
+  return {
+    projectId: String(project.object_id),
+    dataDate: snapshot?.snapshot_date ?? null,
+    asOfDate: snapshot?.snapshot_date ?? null,
+    bac: evm.bac,
+    bcws: evm.pv,
+    bcwp: evm.ev,
+    acwp: evm.ac,
+    spi: evm.spi,
+    cpi: evm.cpi,
+    sv: evm.sv,
+    cv: evm.cv,
+    eac: evm.eac,
+    etc: evm.etc,
+    vac: evm.vac,
+    tcpi: evm.tcpi,
+    currency: db.portfolio_financials.currency,
+    currencyLayer: CURRENCY_LAYER,
+    dataSource: snapshot ? 'real' : 'no_data',
+  };
+}
+
+function toActivity(row: MockDatabase['activities'][number]): Activity {
+  return {
+    ObjectId: row.object_id,
+    Id: row.activity_code,
+    Name: row.activity_name,
+    Status: row.status,
+    Type: row.activity_type,
+    StartDate: row.start_date,
+    FinishDate: row.finish_date,
+    PercentComplete: row.percent_complete,
+    IsCritical: row.total_float <= 0,
+    TotalFloat: row.total_float,
+    RemainingDuration: row.remaining_duration,
+    WBSObjectId: row.wbs_object_id,
+  };
+}
+
+function intParam(query: URLSearchParams, name: string, fallback: number): number {
+  const value = Number(query.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function paginate<T>(rows: T[], query: URLSearchParams) {
+  const page = intParam(query, 'page', 1);
+  const pageSize = intParam(query, 'pageSize', 20);
+  return { items: rows.slice((page - 1) * pageSize, page * pageSize), total: rows.length, page, pageSize };
+}
+
+// =============================================================================
+// SYNC DERIVATIONS
+// =============================================================================
+
+function toSyncBatch(row: MockDatabase['sync_status'][number]): SyncBatch {
+  return {
+    batchId: row.batch_id,
+    batchType: row.batch_type,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    p6RecordCount: row.p6_record_count,
+    sapRecordCount: row.sap_record_count,
+    errorCount: row.error_count,
+    triggeredBy: row.triggered_by,
+    durationSeconds: row.completed_at
+      ? Math.round((Date.parse(row.completed_at) - Date.parse(row.started_at)) / 1000)
+      : null,
+  };
+}
+
+function toSyncError(row: MockDatabase['sync_errors'][number]): SyncError {
+  return {
+    errorId: row.error_id,
+    batchId: row.batch_id,
+    errorSource: row.error_source,
+    errorType: row.error_type,
+    errorMessage: row.error_message,
+    recordType: row.record_type,
+    recordId: row.record_id,
+    occurredAt: row.occurred_at,
+    resolved: row.resolved_at !== null,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+function systemSyncStatus(ctx: MockContext, system: 'p6' | 'sap'): SystemSyncStatus {
+  ctx.jobs.settle();
+  const batches = ctx.db.sync_status.filter((row) =>
+    system === 'p6' ? row.batch_type !== 'sap_only' : row.batch_type !== 'p6_only'
+  );
+  const last = batches[batches.length - 1];
+  const lastSuccess = [...batches].reverse().find((row) => row.status === 'completed');
+
+  let status: SystemSyncStatus['status'] = 'never';
+  if (ctx.jobs.activeCount() > 0) status = 'running';
+  else if (last) status = last.status === 'failed' ? 'failed' : 'success';
+
+  return {
+    connected: true,
+    lastSync: lastSuccess?.completed_at ?? null,
+    status,
+    recordCount: lastSuccess ? (system === 'p6' ? lastSuccess.p6_record_count : lastSuccess.sap_record_count) : null,
+  };
+}
+
+/** Syncs are scheduled nightly at 02:00 UTC */
+function nextScheduled(now: number): string {
+  const next = new Date(now);
+  next.setUTCHours(2, 0, 0, 0);
+  if (next.getTime() <= now) next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+// =============================================================================
+// EVM REFERENCE
+// =============================================================================
+
+const EVM_REFERENCE: EVMReference[] = [
+  { term: 'Budget at Completion', abbreviation: 'BAC', formula: null, interpretation: 'Total approved budget for the work', category: 'value' },
+  { term: 'Planned Value', abbreviation: 'PV', formula: 'BAC x Planned %', interpretation: 'Budgeted cost of work scheduled to date', category: 'value' },
+  { term: 'Earned Value', abbreviation: 'EV', formula: 'BAC x Actual %', interpretation: 'Budgeted cost of work performed to date', category: 'value' },
+  { term: 'Actual Cost', abbreviation: 'AC', formula: null, interpretation: 'Cost actually incurred, from SAP ACDOCA', category: 'value' },
+  { term: 'Schedule Variance', abbreviation: 'SV', formula: 'EV - PV', interpretation: 'Negative means behind schedule', category: 'variance' },
+  { term: 'Cost Variance', abbreviation: 'CV', formula: 'EV - AC', interpretation: 'Negative means over budget', category: 'variance' },
+  { term: 'Variance at Completion', abbreviation: 'VAC', formula: 'BAC - EAC', interpretation: 'Forecast over/under run at completion', category: 'variance' },
+  { term: 'Schedule Performance Index', abbreviation: 'SPI', formula: 'EV / PV', interpretation: 'Below 1.0 means behind schedule', category: 'index' },
+  { term: 'Cost Performance Index', abbreviation: 'CPI', formula: 'EV / AC', interpretation: 'Below 1.0 means over budget', category: 'index' },
+  { term: 'To-Complete Performance Index', abbreviation: 'TCPI', formula: '(BAC - EV) / (BAC - AC)', interpretation: 'Efficiency needed to finish on budget', category: 'index' },
+  { term: 'Estimate at Completion', abbreviation: 'EAC', formula: 'BAC / CPI', interpretation: 'Forecast total cost', category: 'forecast' },
+  { term: 'Estimate to Complete', abbreviation: 'ETC', formula: 'EAC - AC', interpretation: 'Forecast cost of the remaining work', category: 'forecast' },
+];
+
+const EVM_CATEGORIES: Record<EVMReference['category'], string> = {
+  value: 'Base Values',
+  variance: 'Variances',
+  index: 'Performance Indices',
+  forecast: 'Forecasts',
+};
+
+// =============================================================================
+// PORTFOLIO ROUTES
+// =============================================================================
+
+const portfolioRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/portfolio/summary',
+    handler: ({ db, jobs }): PortfolioSummary => {
+      jobs.settle();
+      const health = db.projects.map((project) => projectHealth(db, project));
+      const lastSync = [...db.sync_status].reverse().find((row) => row.status === 'completed');
+      return {
+        totalProjects: db.projects.length,
+        activeProjects: db.projects.filter((project) => project.status === 'Active').length,
+        onTrack: health.filter((project) => project.status === 'on-track').length,
+        atRisk: health.filter((project) => project.status === 'at-risk').length,
+        critical: health.filter((project) => project.status === 'critical').length,
+        totalActivities: db.activities.length,
+        completedActivities: db.activities.filter((row) => row.status === 'Completed').length,
+        inProgressActivities: db.activities.filter((row) => row.status === 'InProgress').length,
+        avgPercentComplete: round(sum(db.projects.map((project) => project.percent_complete)) / db.projects.length, 1),
+        lastSync: lastSync?.completed_at ?? null,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/portfolio/financials',
+    handler: ({ db }): PortfolioFinancials => {
+      const evm = db.projects.map((project) => evmFrom(latestSnapshot(db, project.object_id)));
+      return {
+        totalBAC: sum(evm.map((e) => e.bac ?? 0)),
+        totalActualCost: sum(evm.map((e) => e.ac ?? 0)),
+        totalEAC: sum(evm.map((e) => e.eac ?? 0)),
+        totalEarnedValue: sum(evm.map((e) => e.ev ?? 0)),
+        currency: db.portfolio_financials.currency,
+        asOfDate: db.portfolio_financials.as_of_date,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/portfolio/domain-progress',
+    handler: ({ db }): DomainProgress => domainProgress(db.domain_metrics),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/portfolio/projects',
+    handler: ({ db, query }): ProjectCard[] => {
+      const cards = db.projects.map((project): ProjectCard => {
+        const health = projectHealth(db, project);
+        return {
+          projectId: health.id,
+          projectCode: project.project_code,
+          projectName: project.project_name,
+          status: health.status,
+          cpi: health.cpi,
+          spi: health.spi,
+          percentComplete: project.percent_complete,
+          domains: domainProgress(db.domain_metrics.filter((row) => row.project_object_id === project.object_id)),
+        };
+      });
+      const status = query.get('status');
+      const filtered = status ? cards.filter((card) => card.status === status) : cards;
+      return filtered.slice(0, intParam(query, 'limit', filtered.length));
+    },
+  },
+];
+
+// =============================================================================
+// PROJECTS ROUTES
+// =============================================================================
+
+const DOMAIN_ROUTES: Record<string, DomainCode> = {
+  engineering: 'E',
+  procurement: 'P',
+  construction: 'C',
+  commissioning: 'COM',
+};
+
+const projectsRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/health',
+    handler: ({ db, query }): ProjectHealthResponse => {
+      const projects = db.projects.map((project) => projectHealth(db, project));
+      return { projects: projects.slice(0, intParam(query, 'limit', projects.length)), total: projects.length };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects',
+    handler: ({ db, query }): ProjectSummary[] =>
+      db.projects
+        .filter((project) => query.get('active_only') !== 'true' || project.status === 'Active')
+        .map((project) => ({
+          objectId: project.object_id,
+          code: project.project_code,
+          name: project.project_name,
+          status: project.status,
+          startDate: project.actual_start ?? project.planned_start,
+          finishDate: project.actual_finish ?? project.planned_finish,
+          dataDate: project.data_date,
+        })),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId',
+    handler: ({ db, params }): ProjectDetail => {
+      const project = findProject(db, params.projectId);
+      return {
+        objectId: project.object_id,
+        code: project.project_code,
+        name: project.project_name,
+        status: project.status,
+        startDate: project.actual_start ?? project.planned_start,
+        finishDate: project.actual_finish ?? project.planned_finish,
+        plannedStart: project.planned_start,
+        plannedFinish: project.planned_finish,
+        actualStart: project.actual_start,
+        actualFinish: project.actual_finish,
+        percentComplete: project.percent_complete,
+        dataDate: project.data_date,
+        wbsCount: db.wbs.filter((row) => row.project_object_id === project.object_id).length,
+        activityCount: projectActivities(db, project.object_id).length,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/schedule',
+    handler: ({ db, params }): ScheduleSummary => {
+      const project = findProject(db, params.projectId);
+      const activities = projectActivities(db, project.object_id);
+      return {
+        projectId: String(project.object_id),
+        totalActivities: activities.length,
+        completedActivities: activities.filter((row) => row.status === 'Completed').length,
+        inProgressActivities: activities.filter((row) => row.status === 'InProgress').length,
+        notStartedActivities: activities.filter((row) => row.status === 'NotStarted').length,
+        criticalPathActivities: activities.filter((row) => row.total_float <= 0).length,
+        milestones: activities.filter((row) => row.activity_type === 'TT_FinMile').length,
+        dataDate: project.data_date,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/critical-path',
+    handler: ({ db, params, query }): CriticalPathActivity[] => {
+      const project = findProject(db, params.projectId);
+      return projectActivities(db, project.object_id)
+        .filter((row) => row.total_float <= 0)
+        .sort((a, b) => a.start_date.localeCompare(b.start_date))
+        .slice(0, intParam(query, 'limit', 50))
+        .map((row) => ({
+          activityId: String(row.object_id),
+          activityCode: row.activity_code,
+          activityName: row.activity_name,
+          startDate: row.start_date,
+          finishDate: row.finish_date,
+          totalFloat: row.total_float,
+          remainingDuration: row.remaining_duration,
+        }));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/wbs',
+    handler: ({ db, params, query }) => {
+      const project = findProject(db, params.projectId);
+      const nodes = wbsNodes(db, project.object_id);
+      return query.get('hierarchical') === 'true'
+        ? { hierarchy: wbsHierarchy(nodes), total_wbs_count: nodes.length }
+        : { wbs: nodes, total: nodes.length };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/activities',
+    handler: ({ db, params, query }) => {
+      const project = findProject(db, params.projectId);
+      const status = query.get('status');
+      const matching = projectActivities(db, project.object_id)
+        .filter((row) => !status || row.status === status)
+        .filter((row) => query.get('critical_only') !== 'true' || row.total_float <= 0);
+      const activities = matching.slice(0, intParam(query, 'limit', matching.length)).map(toActivity);
+      return { activities, total: matching.length, returned: activities.length };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/financial',
+    handler: ({ db, params }): FinancialSummary => financialSummary(db, findProject(db, params.projectId)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/evm',
+    handler: ({ db, params }): EVMMetrics => evmMetrics(db, findProject(db, params.projectId)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/domains',
+    handler: ({ db, params }): DomainProgressDetail[] =>
+      domainProgressDetails(db, findProject(db, params.projectId).object_id),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/universe',
+    handler: ({ db, params }): ProjectUniverse => {
+      const project = findProject(db, params.projectId);
+      const activities = projectActivities(db, project.object_id);
+      const nodes = wbsNodes(db, project.object_id);
+      const financials = financialSummary(db, project);
+      const evm = evmFrom(latestSnapshot(db, project.object_id));
+      return {
+        project: {
+          objectId: project.object_id,
+          code: project.project_code,
+          name: project.project_name,
+          status: project.status,
+          percentComplete: project.percent_complete,
+          dataDate: project.data_date,
+        },
+        metrics: {
+          totalWbs: nodes.length,
+          totalActivities: activities.length,
+          completedActivities: activities.filter((row) => row.status === 'Completed').length,
+          inProgressActivities: activities.filter((row) => row.status === 'InProgress').length,
+          criticalActivities: activities.filter((row) => row.total_float <= 0).length,
+        },
+        wbsHierarchy: wbsHierarchy(nodes),
+        financials: {
+          bac: financials.bac,
+          actualCost: financials.actualCost,
+          earnedValue: financials.earnedValue,
+          eac: financials.eac,
+          variance: financials.variance,
+          currency: financials.currency,
+          asOfDate: financials.asOfDate,
+        },
+        evm: { spi: evm.spi, cpi: evm.cpi, sv: evm.sv, cv: evm.cv, eac: evm.eac, etc: evm.etc, vac: evm.vac },
+        domains: domainProgressDetails(db, project.object_id),
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/projects/:projectId/:domain',
+    handler: ({ db, params }): DomainProgressDetail => {
+      const code = DOMAIN_ROUTES[params.domain];
+      if (!code) throw new MockHttpError(404, 'NOT_FOUND', `Unknown domain ${params.domain}`);
+      const details = domainProgressDetails(db, findProject(db, params.projectId).object_id);
+      return details.find((detail) => detail.domain === code) as DomainProgressDetail;
+    },
+  },
+];
+
+// =============================================================================
+// EVM ROUTES
+// =============================================================================
+
+const evmRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/evm/reference/definitions',
+    handler: () => ({ definitions: EVM_REFERENCE, categories: EVM_CATEGORIES }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/evm/projects',
+    handler: ({ db, query }): { projects: EVMProjectSnapshot[] } => {
+      const projectId = query.get('projectId');
+      const projects = db.projects
+        .filter((project) => !projectId || String(project.object_id) === projectId || project.project_code === projectId)
+        .flatMap((project): EVMProjectSnapshot[] => {
+          const snapshot = latestSnapshot(db, project.object_id);
+          const evm = evmFrom(snapshot);
+          if (!snapshot || evm.spi === null || evm.cpi === null || evm.eac === null || evm.tcpi === null) return [];
+          return [
+            {
+              projectId: String(project.object_id),
+              projectName: project.project_name,
+              snapshotDate: snapshot.snapshot_date,
+              percentComplete: project.percent_complete,
+              bac: snapshot.bac,
+              pv: snapshot.pv,
+              ev: snapshot.ev,
+              ac: snapshot.ac,
+              sv: evm.sv as number,
+              cv: evm.cv as number,
+              vac: evm.vac as number,
+              spi: evm.spi,
+              cpi: evm.cpi,
+              tcpi: evm.tcpi,
+              eac: evm.eac,
+              etc: evm.etc as number,
+            },
+          ];
+        });
+      return { projects };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/evm/:projectId',
+    handler: ({ db, params, query }): EVMMetrics =>
+      evmMetrics(db, findProject(db, params.projectId), query.get('asOfDate')),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/evm/:projectId/by-phase',
+    handler: ({ db, params }) => {
+      const project = findProject(db, params.projectId);
+      const snapshot = latestSnapshot(db, project.object_id);
+      const plannedRatio = snapshot && snapshot.bac ? snapshot.pv / snapshot.bac : null;
+      const phases = domainProgressDetails(db, project.object_id).map((detail): EVMByPhase => {
+        const planned = plannedRatio === null || detail.budgetedCost === null ? null : Math.round(detail.budgetedCost * plannedRatio);
+        const earned =
+          detail.budgetedCost === null || detail.progressPercent === null
+            ? null
+            : Math.round((detail.budgetedCost * detail.progressPercent) / 100);
+        return {
+          phase: detail.domain,
+          phaseName: detail.domainName,
+          planned,
+          actual: detail.actualCost,
+          earned,
+          percentComplete: detail.progressPercent,
+          spi: planned && earned !== null ? ratio(earned, planned) : null,
+          cpi: detail.actualCost && earned !== null ? ratio(earned, detail.actualCost) : null,
+        };
+      });
+      return {
+        projectId: project.object_id,
+        phases,
+        currency: db.portfolio_financials.currency,
+        currencyLayer: CURRENCY_LAYER,
+        dataSource: snapshot ? 'real' : 'no_data',
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/evm/:projectId/trend',
+    handler: ({ db, params, query }): EVMTrend => {
+      const project = findProject(db, params.projectId);
+      const snapshots = snapshotsFor(db, project.object_id).slice(-intParam(query, 'periods', 12));
+      return {
+        projectId: project.object_id,
+        trend: snapshots.map((snapshot) => {
+          const evm = evmFrom(snapshot);
+          return {
+            period: snapshot.snapshot_date.slice(0, 7),
+            dataDate: snapshot.snapshot_date,
+            bcws: snapshot.pv,
+            bcwp: snapshot.ev,
+            acwp: snapshot.ac,
+            spi: evm.spi,
+            cpi: evm.cpi,
+          };
+        }),
+        currency: db.portfolio_financials.currency,
+        currencyLayer: CURRENCY_LAYER,
+      };
+    },
+  },
+];
+
+// =============================================================================
+// CFO ROUTES
+// =============================================================================
+
+/** EVM of the latest snapshot; the fixtures carry no SAP actuals */
+function projectEvm(db: MockDatabase, projectObjectId: number): ProjectEvm | null {
+  const snapshot = latestSnapshot(db, projectObjectId);
+  if (!snapshot) return null;
+  const { bac, pv, ev, ac } = snapshot;
+  return { bac, pv, ev, ac, currency: null };
+}
+
+function projectEvmByProject(db: MockDatabase): Map<number, ProjectEvm> {
+  return new Map(
+    db.projects.flatMap((project) => {
+      const evm = projectEvm(db, project.object_id);
+      return evm ? [[project.object_id, evm]] : [];
+    })
+  );
+}
+
+const cfoRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/cfo/health',
+    handler: ({ db }) => portfolioHealth(db.projects, rateProjects(db.projects, projectEvmByProject(db))),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/cfo/financials',
+    // Financials are SAP totals, and no SAP line has synced into the fixtures
+    handler: () => null,
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/cfo/budgets',
+    handler: ({ db }) => ({ projects: projectBudgets(rateProjects(db.projects, projectEvmByProject(db))) }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/cfo/comparison',
+    handler: ({ db }) => ({ projects: projectComparisons(rateProjects(db.projects, projectEvmByProject(db))) }),
+  },
+];
+
+// =============================================================================
+// PROJECT DASHBOARD ROUTES
+// =============================================================================
+
+const projectDashboardRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/project/:projectId',
+    handler: ({ db, params }) => {
+      const project = findProject(db, params.projectId);
+      const wbsRows = db.wbs.filter((row) => row.project_object_id === project.object_id);
+      // No WBS element is mapped to SAP in the fixtures
+      return projectHeader(project, projectEvm(db, project.object_id), wbsRows, []);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/project/:projectId/performance',
+    handler: ({ db, params }) => {
+      const evm = projectEvm(db, findProject(db, params.projectId).object_id);
+      return evm && projectPerformance(evm);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/project/:projectId/domains',
+    handler: ({ db, params }) => {
+      const project = findProject(db, params.projectId);
+      const rows = db.domain_metrics
+        .filter((row) => row.project_object_id === project.object_id)
+        // The fixtures record no planned value per domain
+        .map((row) => ({ ...row, planned_value: null }));
+      return { domains: projectDomains(rows) };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/project/:projectId/budget',
+    handler: ({ db, params }) => {
+      const evm = projectEvm(db, findProject(db, params.projectId).object_id);
+      return evm && projectBudget(evm);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/project/:projectId/schedule',
+    handler: ({ db, params }) => {
+      const project = findProject(db, params.projectId);
+      const wbsElements = db.wbs.filter((row) => row.project_object_id === project.object_id).length;
+      return projectSchedule(project, projectActivities(db, project.object_id).map(p6ActivityRow), wbsElements);
+    },
+  },
+];
+
+// =============================================================================
+// P6 ROUTES
+// =============================================================================
+
+/** Projects table columns for a fixture project, indices from its latest snapshot */
+function p6ProjectRow(db: MockDatabase, project: ProjectRow): P6ProjectRow {
+  // Every fixture project has monthly snapshots
+  const snapshot = latestSnapshot(db, project.object_id)!;
+  const { spi, cpi } = evmFrom(snapshot);
+  return {
+    id: String(project.object_id),
+    object_id: project.object_id,
+    project_code: project.project_code,
+    project_name: project.project_name,
+    status: project.status,
+    percent_complete: project.percent_complete,
+    planned_start: project.planned_start,
+    planned_finish: project.planned_finish,
+    actual_start: project.actual_start,
+    data_date: project.data_date,
+    bac: snapshot.bac,
+    spi,
+    cpi,
+  };
+}
+
+function p6WbsRow(row: WbsRow): WbsTableRow {
+  return {
+    id: String(row.object_id),
+    object_id: row.object_id,
+    project_object_id: row.project_object_id,
+    parent_object_id: row.parent_object_id,
+    code: row.code,
+    name: row.name,
+    status: row.status,
+    sequence_number: row.sequence_number,
+  };
+}
+
+/** Activity columns the WBS rolls up; the fixtures carry no activity costs */
+function wbsActivityRow(row: ActivityRow): WbsActivityRow {
+  return {
+    object_id: row.object_id,
+    wbs_object_id: row.wbs_object_id,
+    percent_complete: row.percent_complete,
+    budget_at_completion: null,
+    planned_total_cost: null,
+    actual_total_cost: null,
+    remaining_total_cost: null,
+    planned_start: row.start_date,
+    planned_finish: row.finish_date,
+  };
+}
+
+function projectWbs(db: MockDatabase, projectObjectId: number) {
+  return {
+    wbsRows: db.wbs.filter((row) => row.project_object_id === projectObjectId).map(p6WbsRow),
+    activities: projectActivities(db, projectObjectId).map(wbsActivityRow),
+  };
+}
+
+/**
+ * Activities table columns for a fixture activity. The fixtures record no
+ * actual dates or planned durations, and no relationships between activities.
+ */
+function p6ActivityRow(row: ActivityRow): ActivityTableRow {
+  return {
+    id: String(row.object_id),
+    object_id: row.object_id,
+    project_object_id: row.project_object_id,
+    wbs_object_id: row.wbs_object_id,
+    activity_code: row.activity_code,
+    activity_name: row.activity_name,
+    activity_type: row.activity_type,
+    status: row.status,
+    percent_complete: row.percent_complete,
+    planned_start: row.start_date,
+    planned_finish: row.finish_date,
+    actual_start: null,
+    actual_finish: null,
+    planned_duration: null,
+    remaining_duration: row.remaining_duration,
+    total_float: row.total_float,
+  };
+}
+
+const NO_LINKS = new Map<number, number[]>();
+
+/** PostgREST order with nulls last in either direction */
+function compareColumn(a: string | number | null, b: string | number | null, ascending: boolean): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const order = typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+  return ascending ? order : -order;
+}
+
+const p6Routes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/statuses',
+    handler: ({ db }) => statusOptions(db.projects.map((project) => project.status)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects',
+    handler: ({ db, query }): ProjectsResponse => {
+      const { page, pageSize, sortBy, sortDir, status, epsId, search } = parseProjectsQuery(query);
+      const term = search.toLowerCase();
+      const column = SORT_COLUMNS[sortBy];
+      const rows = db.projects
+        .map((project) => p6ProjectRow(db, project))
+        .filter(
+          (row) =>
+            (!status || row.status === status) &&
+            // The fixtures carry no EPS, so no project sits under one
+            epsId === null &&
+            (!term || row.project_name.toLowerCase().includes(term) || row.project_code.toLowerCase().includes(term))
+        )
+        .sort((a, b) => compareColumn(a[column], b[column], sortDir === 'asc') || a.object_id - b.object_id);
+
+      return {
+        data: rows.slice((page - 1) * pageSize, page * pageSize).map(toP6Project),
+        pagination: { page, pageSize, total: rows.length, totalPages: Math.ceil(rows.length / pageSize) },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/:projectObjectId/wbs',
+    handler: ({ db, params }): WBSTreeResponse => {
+      const project = findProject(db, String(idParam(params.projectObjectId, 'projectObjectId')));
+      const { wbsRows, activities } = projectWbs(db, project.object_id);
+      // No WBS element is mapped to SAP in the fixtures
+      return { nodes: buildWbsHierarchy(wbsRows, activities).nodes, totalCount: wbsRows.length };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/wbs/:wbsObjectId',
+    handler: ({ db, params }): WBSDetail => {
+      const wbsObjectId = idParam(params.wbsObjectId, 'wbsObjectId');
+      const wbs = db.wbs.find((row) => row.object_id === wbsObjectId);
+      if (!wbs) throw new MockHttpError(404, 'WBS_NOT_FOUND', `WBS ${wbsObjectId} not found`);
+
+      const { wbsRows, activities } = projectWbs(db, wbs.project_object_id);
+      return {
+        objectId: wbs.object_id,
+        wbsCode: wbs.code,
+        name: wbs.name,
+        status: wbs.status,
+        ...rollupDetail(subtreeRollup(wbsRows, activities, wbsObjectId)),
+        sapMapping: null,
+        sapFinancials: null,
+        // The fixtures assign no resources
+        resourceCount: 0,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/:projectObjectId/activities',
+    handler: ({ db, params, query }): ActivitiesResponse => {
+      const projectObjectId = idParam(params.projectObjectId, 'projectObjectId');
+      const { wbsObjectId, from, to, criticalOnly } = parseActivitiesQuery(query);
+      const project = findProject(db, String(projectObjectId));
+
+      let wbsIds: Set<number> | null = null;
+      if (wbsObjectId !== null) {
+        const wbsRows = db.wbs.filter((row) => row.project_object_id === projectObjectId);
+        if (!wbsRows.some((row) => row.object_id === wbsObjectId)) {
+          throw new MockHttpError(404, 'WBS_NOT_FOUND', `WBS ${wbsObjectId} not found in project ${projectObjectId}`);
+        }
+        wbsIds = new Set(wbsSubtreeIds(wbsRows, wbsObjectId));
+      }
+
+      const rows = projectActivities(db, projectObjectId)
+        .map(p6ActivityRow)
+        .filter(
+          (row) =>
+            (!wbsIds || wbsIds.has(row.wbs_object_id)) &&
+            (!from || row.planned_finish >= from) &&
+            (!to || row.planned_start <= to) &&
+            (!criticalOnly || (row.total_float !== null && row.total_float <= 0))
+        )
+        .sort((a, b) => a.planned_start.localeCompare(b.planned_start) || a.object_id - b.object_id);
+
+      return {
+        activities: rows.map((row) => toGanttActivity(row, NO_LINKS, NO_LINKS)),
+        relationships: [],
+        dataDate: project.data_date,
+        totalCount: rows.length,
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/:projectObjectId/baselines',
+    handler: ({ db, params }): BaselinesResponse => {
+      findProject(db, String(idParam(params.projectObjectId, 'projectObjectId')));
+      // The fixtures keep no P6 baselines or schedule snapshots
+      return { baselines: [] };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/:projectObjectId/scenarios',
+    handler: ({ db, params }): ScenariosResponse => {
+      findProject(db, String(idParam(params.projectObjectId, 'projectObjectId')));
+      // The mock backend does not store saved scenarios
+      return { scenarios: [] };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/p6/projects/:projectObjectId/activities/:activityObjectId',
+    handler: ({ db, params }): ActivityDetailResponse => {
+      const projectObjectId = idParam(params.projectObjectId, 'projectObjectId');
+      const activityObjectId = idParam(params.activityObjectId, 'activityObjectId');
+      const row = projectActivities(db, projectObjectId).find((activity) => activity.object_id === activityObjectId);
+      if (!row) {
+        throw new MockHttpError(
+          404,
+          'ACTIVITY_NOT_FOUND',
+          `Activity ${activityObjectId} not found in project ${projectObjectId}`
+        );
+      }
+
+      // The fixtures assign no resources and carry no activity costs
+      return {
+        activity: toGanttActivity(p6ActivityRow(row), NO_LINKS, NO_LINKS),
+        resources: [],
+        costs: { plannedCost: null, actualCost: null, remainingCost: null },
+      };
+    },
+  },
+];
+
+// =============================================================================
+// SYNC ROUTES
+// =============================================================================
+
+const SYNC_TYPES: SyncRequest['syncType'][] = ['full', 'p6_only', 'sap_only'];
+
+/** Interval at which the sync event stream re-reads its job */
+const SYNC_STREAM_TICK_MS = 500;
+
+/**
+ * text/event-stream of a sync job: `progress`, `entity` and `job-error`
+ * events whenever their payload changes, then `done` once the job finishes.
+ */
+function syncEventStream({ jobs, params, wait, signal }: MockContext): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const lastSent = new Map<string, string>();
+      const send = (event: string, data: unknown, key?: string) => {
+        const json = JSON.stringify(data);
+        if (key) {
+          if (lastSent.get(key) === json) return;
+          lastSent.set(key, json);
+        }
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${json}\n\n`));
+      };
+
+      while (!cancelled && !signal.aborted) {
+        const job = jobs.get(params.jobId);
+        if (!job) break;
+        send('progress', job, 'progress');
+        jobs.entities(params.jobId).forEach((entity) => send('entity', entity, `entity:${entity.system}:${entity.entity}`));
+        jobs.errors(params.jobId).forEach((error) => send('job-error', error, `error:${error.errorId}`));
+        if (job.status === 'completed' || job.status === 'failed') {
+          send('done', job);
+          break;
+        }
+        await wait(SYNC_STREAM_TICK_MS, signal);
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already cancelled by the client
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop proxies (nginx) from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+const syncRoutes: MockRoute[] = [
+  {
+    method: 'POST',
+    pattern: '/api/v1/sync/trigger',
+    status: 202,
+    handler: ({ jobs, body, failSync }) => {
+      const request = body as Partial<SyncRequest> | null;
+      if (!request || !SYNC_TYPES.includes(request.syncType as SyncRequest['syncType'])) {
+        throw new MockHttpError(422, 'VALIDATION_ERROR', `syncType must be one of ${SYNC_TYPES.join(', ')}`);
+      }
+      return jobs.trigger(request as SyncRequest, { triggeredBy: 'mock-user', fail: failSync });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/status',
+    handler: (ctx): DashboardSyncStatus => {
+      const p6 = systemSyncStatus(ctx, 'p6');
+      const sap = systemSyncStatus(ctx, 'sap');
+      // The dashboard card has no 'error' state
+      const card = ({ connected, lastSync, status }: SystemSyncStatus) => ({
+        connected,
+        lastSync,
+        status: status === 'error' ? ('failed' as const) : status,
+      });
+      return { p6: card(p6), sap: card(sap), nextScheduled: nextScheduled(ctx.now()) };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/jobs',
+    handler: ({ jobs, query }) => jobs.list(intParam(query, 'limit', 10)),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/jobs/:jobId',
+    handler: ({ jobs, params }) => {
+      const job = jobs.get(params.jobId);
+      if (!job) throw new MockHttpError(404, 'JOB_NOT_FOUND', `Sync job ${params.jobId} not found`);
+      return job;
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/jobs/:jobId/events',
+    handler: (ctx) => {
+      if (!ctx.jobs.get(ctx.params.jobId)) {
+        throw new MockHttpError(404, 'JOB_NOT_FOUND', `Sync job ${ctx.params.jobId} not found`);
+      }
+      return syncEventStream(ctx);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/dashboard',
+    handler: (ctx): SyncDashboard => ({
+      p6: systemSyncStatus(ctx, 'p6'),
+      sap: systemSyncStatus(ctx, 'sap'),
+      nextScheduled: nextScheduled(ctx.now()),
+      activeJobs: ctx.jobs.activeCount(),
+      totalBatches: ctx.db.sync_status.length,
+      totalErrors: ctx.db.sync_errors.filter((row) => row.resolved_at === null).length,
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/history',
+    handler: ({ db, jobs, query }): SyncHistory => {
+      jobs.settle();
+      const status = query.get('status');
+      const batchType = query.get('batchType');
+      const batches = [...db.sync_status]
+        .reverse()
+        .filter((row) => (!status || row.status === status) && (!batchType || row.batch_type === batchType))
+        .map(toSyncBatch);
+      const { items, total, page, pageSize } = paginate(batches, query);
+      return { batches: items, total, page, pageSize };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/v1/sync/errors',
+    handler: ({ db, jobs, query }): SyncErrorList => {
+      jobs.settle();
+      const source = query.get('source');
+      const errorType = query.get('errorType');
+      const errors = [...db.sync_errors]
+        .reverse()
+        .filter((row) => query.get('unresolvedOnly') !== 'true' || row.resolved_at === null)
+        .filter((row) => (!source || row.error_source === source) && (!errorType || row.error_type === errorType))
+        .map(toSyncError);
+      const { items, total, page, pageSize } = paginate(errors, query);
+      return {
+        errors: items,
+        total,
+        unresolvedCount: db.sync_errors.filter((row) => row.resolved_at === null).length,
+        page,
+        pageSize,
+      };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/v1/sync/errors/:errorId/resolve',
+    handler: ({ db, params, now }) => {
+      const error = db.sync_errors.find((row) => row.error_id === params.errorId);
+      if (!error) throw new MockHttpError(404, 'ERROR_NOT_FOUND', `Sync error ${params.errorId} not found`);
+      error.resolved_at ??= new Date(now()).toISOString();
+      return { success: true, errorId: error.error_id, resolved: true };
+    },
+  },
+];
+
+// =============================================================================
+// HEALTH ROUTES
+// =============================================================================
+
+const healthRoutes: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: '/health',
+    handler: ({ now }) => ({ status: 'ok', timestamp: new Date(now()).toISOString() }),
+  },
+  {
+    method: 'GET',
+    pattern: '/ready',
+    handler: () => ({ status: 'ready', services: { database: 'ok', p6: 'ok', sap: 'ok' } }),
+  },
+];
+
+// =============================================================================
+// ROUTING
+// =============================================================================
+
+export const MOCK_ROUTES: MockRoute[] = [
+  ...portfolioRoutes,
+  ...projectsRoutes,
+  ...evmRoutes,
+  ...cfoRoutes,
+  ...projectDashboardRoutes,
+  ...p6Routes,
+  ...syncRoutes,
+  ...healthRoutes,
+];
+
+/**
+ * Find the first route matching a method and path, with its path params
+ */
+export function matchRoute(
+  method: string,
+  path: string
+): { route: MockRoute; params: Record<string, string> } | null {
+  const segments = path.split('/').filter(Boolean);
+
+  for (const route of MOCK_ROUTES) {
+    if (route.method !== method) continue;
+    const pattern = route.pattern.split('/').filter(Boolean);
+    if (pattern.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = pattern.every((part, index) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (matches) return { route, params };
+  }
+
+  return null;
+}
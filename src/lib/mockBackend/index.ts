@@ -0,0 +1,29 @@
+/**
+ * Local Mock Backend
+ * @governance DATA-001, DOC-002
+ *
+ * Self-contained stand-in for the Python backend on port 8001, so the portal
+ * and Playwright specs run without it. Enable with ORION_MOCK_BACKEND=true:
+ * next.config.js then rewrites /api/v1/*, /health and /ready to
+ * /api/mock/* (app/api/mock/[...path]/route.ts), which calls handleRequest.
+ * The BFF routes under app/api/v1 are served before that rewrite, so
+ * bffRoute (lib/bff/http.ts) hands their requests to handleRequest too.
+ *
+ * Control endpoints (mock only):
+ * - GET/POST/DELETE /api/mock/__scenarios - list, inject or clear error scenarios
+ * - POST /api/mock/__reset - reseed fixtures, drop sync jobs and scenarios
+ *
+ * A single request can also opt into a scenario with `X-Mock-Scenario: <name>`.
+ */
+
+export {
+  MockBackend,
+  getMockBackend,
+  isMockBackendEnabled,
+  MOCK_PATH_PREFIX,
+  SCENARIO_HEADER,
+  type MockBackendOptions,
+} from './backend';
+export { SCENARIOS, type ScenarioName } from './scenarios';
+export { createMockDatabase, DEFAULT_SEED, type MockDatabase } from './fixtures';
+export { DEFAULT_SYNC_TIMING, type SyncJobTiming } from './syncJobs';
@@ -0,0 +1,108 @@
+/**
+ * Mock Backend Error Scenarios
+ * @governance DOC-002
+ *
+ * Injectable failures so specs can exercise error, retry and timeout paths.
+ * A scenario applies either to a single request (X-Mock-Scenario header) or
+ * to every matching request until cleared (POST /api/mock/__scenarios).
+ */
+
+export type ScenarioName =
+  | 'server-error'
+  | 'unavailable'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'slow'
+  | 'timeout'
+  | 'contract-drift'
+  | 'sync-failure';
+
+export interface ScenarioEffect {
+  /** HTTP status to fail with; absent for scenarios that still succeed */
+  status?: number;
+  code?: string;
+  detail?: string;
+  /** Seconds, sent as Retry-After */
+  retryAfter?: number;
+  /** Delay before responding */
+  delayMs?: number;
+  /** Rename response fields so the client's schema check rejects it */
+  drift?: boolean;
+  /** New sync jobs fail partway instead of completing */
+  failSync?: boolean;
+}
+
+export const SCENARIOS: Record<ScenarioName, ScenarioEffect> = {
+  'server-error': { status: 500, code: 'INTERNAL_ERROR', detail: 'Simulated server error' },
+  unavailable: { status: 503, code: 'SERVICE_UNAVAILABLE', detail: 'Simulated outage', retryAfter: 1 },
+  unauthorized: { status: 401, code: 'UNAUTHORIZED', detail: 'Simulated expired session' },
+  forbidden: { status: 403, code: 'FORBIDDEN', detail: 'Simulated missing permission' },
+  'not-found': { status: 404, code: 'NOT_FOUND', detail: 'Simulated missing resource' },
+  slow: { delayMs: 3000 },
+  // Longer than apiFetch's DEFAULT_TIMEOUT_MS
+  timeout: { delayMs: 20000 },
+  'contract-drift': { drift: true },
+  'sync-failure': { failSync: true },
+};
+
+export function isScenarioName(value: unknown): value is ScenarioName {
+  return typeof value === 'string' && value in SCENARIOS;
+}
+
+export interface ActiveScenario {
+  name: ScenarioName;
+  /** Path prefix the scenario applies to, e.g. /api/v1/portfolio; all routes when absent */
+  route?: string;
+  /** Requests left before the scenario clears itself; unlimited when absent */
+  remaining?: number;
+}
+
+/**
+ * Scenarios set through the control endpoint, matched in insertion order
+ */
+export class ScenarioRegistry {
+  private active: ActiveScenario[] = [];
+
+  add(scenario: ActiveScenario): void {
+    this.active.push({ ...scenario });
+  }
+
+  clear(): void {
+    this.active = [];
+  }
+
+  list(): ActiveScenario[] {
+    return this.active.map((scenario) => ({ ...scenario }));
+  }
+
+  /**
+   * Find the scenario for a request path and count it against `remaining`
+   */
+  take(path: string): ScenarioName | null {
+    const index = this.active.findIndex((scenario) => !scenario.route || path.startsWith(scenario.route));
+    if (index === -1) return null;
+
+    const scenario = this.active[index];
+    if (scenario.remaining !== undefined) {
+      scenario.remaining -= 1;
+      if (scenario.remaining <= 0) this.active.splice(index, 1);
+    }
+    return scenario.name;
+  }
+}
+
+/**
+ * Rename top-level keys (or each item's keys) from camelCase to snake_case,
+ * the most common shape of real backend drift
+ */
+export function applyDrift(body: unknown): unknown {
+  const rename = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(rename);
+    if (value === null || typeof value !== 'object') return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`), field])
+    );
+  };
+  return rename(body);
+}
@@ -0,0 +1,250 @@
+/**
+ * Mock Backend Sync Jobs
+ * @governance DOC-002
+ *
+ * Simulated P6/SAP sync jobs. A job's state is derived from the time since it
+ * was triggered (pending, then running with rising progress, then completed
+ * or failed), so polling sees it advance without any timers. Finished jobs
+ * are written to the sync_status/sync_errors tables like a real batch.
+ *
+ * Records are synced entity by entity in extraction order, so per-entity
+ * counts always add up to the job's recordsSynced.
+ */
+
+import type {
+  SyncEntity,
+  SyncEntityProgress,
+  SyncJobError,
+  SyncJobStatus,
+  SyncRequest,
+  SyncResponse,
+} from '../types';
+import type { MockDatabase } from './fixtures';
+
+export interface SyncJobTiming {
+  /** Time a job waits in `pending` */
+  pendingMs: number;
+  /** Time a job spends `running` from 0 to 100% */
+  durationMs: number;
+}
+
+export const DEFAULT_SYNC_TIMING: SyncJobTiming = {
+  pendingMs: 1000,
+  durationMs: 12000,
+};
+
+/** Progress at which a job set up to fail stops */
+const FAILURE_PROGRESS = 60;
+
+const RECORD_TOTALS: Record<SyncRequest['syncType'], { p6: number; sap: number }> = {
+  full: { p6: 1840, sap: 760 },
+  p6_only: { p6: 1840, sap: 0 },
+  sap_only: { p6: 0, sap: 760 },
+};
+
+/** Records per entity, in extraction order; sums match RECORD_TOTALS.full */
+const ENTITY_TOTALS: Record<'p6' | 'sap', [SyncEntity, number][]> = {
+  p6: [
+    ['projects', 8],
+    ['wbs', 112],
+    ['activities', 1200],
+    ['relationships', 520],
+  ],
+  sap: [
+    ['wbs_elements', 160],
+    ['cost_lines', 600],
+  ],
+};
+
+const FAILURE_MESSAGE = 'SAP RFC connection reset by peer';
+
+interface SyncJob {
+  jobId: string;
+  syncType: SyncRequest['syncType'];
+  triggeredBy: string | null;
+  createdAt: number;
+  fail: boolean;
+  recorded: boolean;
+}
+
+export class SyncJobSimulator {
+  private jobs: SyncJob[] = [];
+  private sequence = 0;
+
+  constructor(
+    private readonly db: MockDatabase,
+    private readonly now: () => number = Date.now,
+    private readonly timing: SyncJobTiming = DEFAULT_SYNC_TIMING
+  ) {}
+
+  trigger(request: SyncRequest, options: { triggeredBy?: string | null; fail?: boolean } = {}): SyncResponse {
+    this.sequence += 1;
+    const job: SyncJob = {
+      jobId: `job-${String(this.sequence).padStart(4, '0')}`,
+      syncType: request.syncType,
+      triggeredBy: options.triggeredBy ?? null,
+      createdAt: this.now(),
+      fail: options.fail ?? false,
+      recorded: false,
+    };
+    this.jobs.unshift(job);
+
+    return {
+      jobId: job.jobId,
+      status: 'pending',
+      message: `${request.syncType} sync queued`,
+      startedAt: new Date(job.createdAt).toISOString(),
+    };
+  }
+
+  get(jobId: string): SyncJobStatus | null {
+    const job = this.find(jobId);
+    return job ? this.status(job) : null;
+  }
+
+  list(limit: number): { jobs: SyncJobStatus[]; total: number } {
+    return {
+      jobs: this.jobs.slice(0, limit).map((job) => this.status(job)),
+      total: this.jobs.length,
+    };
+  }
+
+  /** Records synced per entity for the systems the job covers */
+  entities(jobId: string): SyncEntityProgress[] {
+    const job = this.find(jobId);
+    if (!job) return [];
+    const { recordsSynced } = this.status(job);
+    const totals = RECORD_TOTALS[job.syncType];
+
+    return (['p6', 'sap'] as const)
+      .filter((system) => totals[system] > 0)
+      .flatMap((system) => {
+        let remaining = recordsSynced[system];
+        return ENTITY_TOTALS[system].map(([entity, total]) => {
+          const synced = Math.min(total, remaining);
+          remaining -= synced;
+          return { jobId, system, entity, synced, total };
+        });
+      });
+  }
+
+  /** Errors raised by the job so far */
+  errors(jobId: string): SyncJobError[] {
+    const job = this.find(jobId);
+    if (!job) return [];
+    const { status, completedAt } = this.status(job);
+    if (status !== 'failed' || !completedAt) return [];
+
+    return [
+      {
+        errorId: failureErrorId(job),
+        jobId,
+        errorSource: 'sap',
+        errorType: 'connection',
+        errorMessage: FAILURE_MESSAGE,
+        recordType: null,
+        recordId: null,
+        occurredAt: completedAt,
+      },
+    ];
+  }
+
+  /** Jobs still pending or running */
+  activeCount(): number {
+    return this.jobs.filter((job) => {
+      const { status } = this.status(job);
+      return status === 'pending' || status === 'running';
+    }).length;
+  }
+
+  /**
+   * Record every finished job as a sync batch. Call before reading the
+   * sync tables so history reflects jobs that finished since the last read.
+   */
+  settle(): void {
+    for (const job of this.jobs) this.status(job);
+  }
+
+  private find(jobId: string): SyncJob | undefined {
+    return this.jobs.find((candidate) => candidate.jobId === jobId);
+  }
+
+  private status(job: SyncJob): SyncJobStatus {
+    const elapsed = this.now() - job.createdAt;
+    const running = elapsed - this.timing.pendingMs;
+    const rawProgress = Math.max(0, Math.min(100, Math.floor((running / this.timing.durationMs) * 100)));
+    const progress = job.fail ? Math.min(rawProgress, FAILURE_PROGRESS) : rawProgress;
+
+    let status: SyncJobStatus['status'];
+    if (running < 0) status = 'pending';
+    else if (job.fail && rawProgress >= FAILURE_PROGRESS) status = 'failed';
+    else if (rawProgress >= 100) status = 'completed';
+    else status = 'running';
+
+    const finished = status === 'completed' || status === 'failed';
+    const finishedAt = finished
+      ? job.createdAt + this.timing.pendingMs + (this.timing.durationMs * progress) / 100
+      : null;
+    const totals = RECORD_TOTALS[job.syncType];
+    const recordsSynced = {
+      p6: Math.round((totals.p6 * progress) / 100),
+      sap: Math.round((totals.sap * progress) / 100),
+    };
+    const error = status === 'failed' ? FAILURE_MESSAGE : null;
+
+    if ((status === 'completed' || status === 'failed') && !job.recorded) {
+      this.record(job, status, finishedAt as number, recordsSynced, error);
+    }
+
+    return {
+      jobId: job.jobId,
+      status,
+      progress,
+      recordsSynced,
+      startedAt: new Date(job.createdAt).toISOString(),
+      completedAt: finishedAt === null ? null : new Date(finishedAt).toISOString(),
+      error,
+    };
+  }
+
+  private record(
+    job: SyncJob,
+    status: 'completed' | 'failed',
+    finishedAt: number,
+    recordsSynced: { p6: number; sap: number },
+    error: string | null
+  ): void {
+    job.recorded = true;
+    const completedAt = new Date(finishedAt).toISOString();
+
+    this.db.sync_status.push({
+      batch_id: job.jobId,
+      batch_type: job.syncType,
+      status,
+      started_at: new Date(job.createdAt).toISOString(),
+      completed_at: completedAt,
+      p6_record_count: recordsSynced.p6,
+      sap_record_count: recordsSynced.sap,
+      error_count: error ? 1 : 0,
+      triggered_by: job.triggeredBy,
+    });
+
+    if (error) {
+      this.db.sync_errors.push({
+        error_id: failureErrorId(job),
+        batch_id: job.jobId,
+        error_source: 'sap',
+        error_type: 'connection',
+        error_message: error,
+        record_type: null,
+        record_id: null,
+        occurred_at: completedAt,
+        resolved_at: null,
+      });
+    }
+  }
+}
+
+function failureErrorId(job: SyncJob): string {
+  return `err-${job.jobId}-1`;
+}
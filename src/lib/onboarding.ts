@@ -60,6 +60,8 @@ export interface OnboardingCompleteResponse {
   tenant_id: string;
   message: string;
   next_steps: string[];
+  /** Initial sync job, when the backend starts one on completion */
+  job_id?: string | null;
 }
 
 // =============================================================================
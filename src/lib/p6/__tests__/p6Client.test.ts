@@ -0,0 +1,326 @@
+/**
+ * P6 Client Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Runs the client against a local HTTP stand-in for P6 Web Services that
+ * answers with SOAP responses recorded from P6 EPPM (fixtures/).
+ *
+ * Test coverage:
+ * - Login, session cookie reuse, re-login after an expired session, logout
+ * - Field selection, filters and typed values; nil and omitted fields are null
+ * - Paging by ObjectId in the requested order
+ * - Faults, rejected logins, HTTP errors, unreachable servers and timeouts
+ */
+
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { P6Client, P6Error } from '../client';
+import { parseXml, XmlParseError } from '../xml';
+
+// ============================================================================
+// LOCAL P6 STAND-IN
+// ============================================================================
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  operation: string | null;
+  cookie: string | null;
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+/** Fixtures per SOAP operation, answered in order; the last one repeats */
+let responses: Record<string, string[]> = {};
+let validSession = 'session-1';
+let delayMs = 0;
+let failWith: number | null = null;
+
+function serve(operations: Record<string, string[]>) {
+  responses = { Login: ['login.xml'], Logout: ['logout.xml'], ...operations };
+}
+
+function handle(request: IncomingMessage, response: ServerResponse) {
+  let body = '';
+  request.on('data', (chunk) => (body += chunk));
+  request.on('end', () => {
+    const operation = body.match(/<v1:(\w+)[\s>/]/)?.[1] ?? null;
+    requests.push({
+      method: request.method ?? '',
+      url: request.url ?? '',
+      operation,
+      cookie: request.headers.cookie ?? null,
+      body,
+    });
+
+    const reply = (status: number, name: string, headers: Record<string, string> = {}) =>
+      setTimeout(() => {
+        response.writeHead(status, { 'Content-Type': 'text/xml;charset=UTF-8', ...headers });
+        response.end(fixture(name));
+      }, delayMs);
+
+    if (failWith) {
+      response.writeHead(failWith, { 'Content-Type': 'text/html' });
+      response.end('<html><body>Service Unavailable</body></html>');
+      return;
+    }
+    if (request.method === 'GET') return reply(200, 'authentication-service.wsdl');
+    if (operation === 'Login') {
+      const [name] = responses.Login.length > 1 ? responses.Login.splice(0, 1) : responses.Login;
+      const headers: Record<string, string> =
+        name === 'login.xml' ? { 'Set-Cookie': `JSESSIONID=${validSession}; Path=/p6ws; HttpOnly` } : {};
+      return reply(name === 'login.xml' ? 200 : 500, name, headers);
+    }
+    if (request.headers.cookie !== `JSESSIONID=${validSession}`) return reply(500, 'not-logged-in.xml');
+
+    const queue = responses[operation ?? ''] ?? [];
+    const [name] = queue.length > 1 ? queue.splice(0, 1) : queue;
+    reply(name ? 200 : 500, name ?? 'not-logged-in.xml');
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/p6ws/services/`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  validSession = 'session-1';
+  delayMs = 0;
+  failWith = null;
+  serve({});
+});
+
+const client = (overrides: Partial<ConstructorParameters<typeof P6Client>[0]> = {}) =>
+  new P6Client({ baseUrl, databaseInstance: '1', username: 'orion.sync', password: 'p<a>ss&word', ...overrides });
+
+const operations = () => requests.map((request) => request.operation);
+
+async function caught(promise: Promise<unknown>): Promise<P6Error> {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(P6Error);
+  return error as P6Error;
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+describe('P6Client - session', () => {
+  it('logs in once, escapes the credentials and reuses the session cookie', async () => {
+    serve({ ReadProjects: ['read-projects.xml'], ReadEPS: ['read-eps.xml'] });
+    const p6 = client();
+
+    await Promise.all([p6.readProjects({ fields: ['Id'] }), p6.readEPS({ fields: ['Id'] })]);
+
+    expect(operations().sort()).toEqual(['Login', 'ReadEPS', 'ReadProjects']);
+    expect(requests[0].url).toBe('/p6ws/services/AuthenticationService');
+    expect(requests[0].body).toContain('<v1:UserName>orion.sync</v1:UserName>');
+    expect(requests[0].body).toContain('<v1:Password>p&lt;a&gt;ss&amp;word</v1:Password>');
+    expect(requests[0].body).toContain('<v1:DatabaseInstanceId>1</v1:DatabaseInstanceId>');
+    expect(requests.slice(1).map((request) => request.cookie)).toEqual([
+      'JSESSIONID=session-1',
+      'JSESSIONID=session-1',
+    ]);
+  });
+
+  it('logs in again and repeats the call once the session has expired', async () => {
+    serve({ ReadWBS: ['read-wbs.xml'] });
+    const p6 = client();
+    await p6.login();
+    validSession = 'session-2';
+
+    const rows = await p6.readWBS({ fields: ['Code'] });
+
+    expect(rows).toEqual([{ ObjectId: 5001, Code: '1' }]);
+    expect(operations()).toEqual(['Login', 'ReadWBS', 'Login', 'ReadWBS']);
+    expect(requests[3].cookie).toBe('JSESSIONID=session-2');
+  });
+
+  it('logs out with the session cookie and forgets it', async () => {
+    const p6 = client();
+    await p6.login();
+
+    await p6.logout();
+    await p6.logout();
+
+    expect(operations()).toEqual(['Login', 'Logout']);
+    expect(requests[1].cookie).toBe('JSESSIONID=session-1');
+  });
+
+  it('raises a fault for rejected credentials and retries the login on the next call', async () => {
+    serve({ ReadEPS: ['read-eps.xml'] });
+    responses.Login = ['login-fault.xml', 'login.xml'];
+    const p6 = client();
+
+    const error = await caught(p6.readEPS({ fields: ['Name'] }));
+
+    expect(error).toMatchObject({
+      kind: 'fault',
+      operation: 'Login',
+      status: 500,
+      faultCode: 'S:Server',
+      message: 'Invalid user name or password.',
+    });
+    await expect(p6.readEPS({ fields: ['Name'] })).resolves.toHaveLength(2);
+  });
+});
+
+// ============================================================================
+// READ OPERATIONS
+// ============================================================================
+
+describe('P6Client - reads', () => {
+  it('sends the selected fields, filter and order and types the values', async () => {
+    serve({ ReadProjects: ['read-projects.xml'] });
+
+    const rows = await client().readProjects({
+      fields: ['Id', 'Name', 'DataDate', 'ParentEPSObjectId', 'ScheduledFinishDate'],
+      filter: "Status = 'Active' or Status = 'Planned'",
+      orderBy: 'Id asc',
+    });
+
+    expect(rows).toEqual([
+      {
+        ObjectId: 10481,
+        Id: 'ACME-REF-001',
+        Name: 'ACME Refinery Expansion & Tie-ins',
+        DataDate: '2025-07-01T00:00:00',
+        ParentEPSObjectId: 301,
+        ScheduledFinishDate: null,
+      },
+      {
+        ObjectId: 10502,
+        Id: 'ACME-PIPE-002',
+        Name: 'Pipeline <Phase 2>',
+        DataDate: null,
+        ParentEPSObjectId: 301,
+        ScheduledFinishDate: null,
+      },
+    ]);
+    const body = requests[1].body;
+    expect(requests[1].url).toBe('/p6ws/services/ProjectService');
+    expect(body).toContain('<v1:Field>ObjectId</v1:Field><v1:Field>Id</v1:Field>');
+    expect(body).toContain('<v1:Filter>Status = &apos;Active&apos; or Status = &apos;Planned&apos;</v1:Filter>');
+    expect(body).toContain('<v1:OrderBy>Id asc</v1:OrderBy>');
+  });
+
+  it('reads relationships from RelationshipService', async () => {
+    serve({ ReadRelationships: ['read-relationships.xml'] });
+
+    const rows = await client().readRelationships({
+      fields: ['PredecessorActivityObjectId', 'SuccessorActivityObjectId', 'Type', 'Lag'],
+      filter: 'PredecessorProjectObjectId = 10481',
+    });
+
+    expect(rows).toEqual([
+      {
+        ObjectId: 77001,
+        PredecessorActivityObjectId: 9001,
+        SuccessorActivityObjectId: 9002,
+        Type: 'Finish to Start',
+        Lag: 8,
+      },
+    ]);
+    expect(requests[1].url).toBe('/p6ws/services/RelationshipService');
+  });
+
+  it('pages by ObjectId and keeps the requested order', async () => {
+    serve({ ReadActivities: ['read-activity-ids.xml', 'read-activities-page-1.xml', 'read-activities-page-2.xml'] });
+    const pages: number[][] = [];
+
+    for await (const page of client().readPages('Activity', {
+      fields: ['Id', 'IsCritical', 'TotalFloat'],
+      filter: 'ProjectObjectId = 10481',
+      orderBy: 'TotalFloat asc',
+      pageSize: 2,
+    })) {
+      pages.push(page.map((row) => row.ObjectId as number));
+      if (page[0].ObjectId === 9003)
+        expect(page[0]).toMatchObject({ Id: 'A1030', IsCritical: true, TotalFloat: -16.5 });
+    }
+
+    expect(pages).toEqual([[9003, 9001], [9002]]);
+    const reads = requests.filter((request) => request.operation === 'ReadActivities').map((request) => request.body);
+    expect(reads[0]).toContain('<v1:Filter>ProjectObjectId = 10481</v1:Filter>');
+    expect(reads[0]).not.toContain('<v1:Field>Id</v1:Field>');
+    expect(reads[1]).toContain('<v1:Filter>ObjectId IN (9003, 9001)</v1:Filter>');
+    expect(reads[2]).toContain('<v1:Filter>ObjectId IN (9002)</v1:Filter>');
+  });
+
+  it('collects every page for the read helpers', async () => {
+    serve({ ReadActivities: ['read-activity-ids.xml', 'read-activities-page-1.xml', 'read-activities-page-2.xml'] });
+
+    const rows = await client().readActivities({ fields: ['Id'], pageSize: 2 });
+
+    expect(rows.map((row) => row.Id)).toEqual(['A1030', 'A1010', 'A1020']);
+  });
+
+  it('reads the server version from the WSDL', async () => {
+    await expect(client().serverVersion()).resolves.toBe('23.12.0');
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/p6ws/services/AuthenticationService?wsdl' });
+  });
+});
+
+// ============================================================================
+// FAILURES
+// ============================================================================
+
+describe('P6Client - failures', () => {
+  it('reports an HTTP error without a SOAP body', async () => {
+    failWith = 503;
+
+    const error = await caught(client().login());
+
+    expect(error).toMatchObject({ kind: 'http', status: 503, operation: 'Login' });
+  });
+
+  it('reports a response that is not the operation result', async () => {
+    serve({ ReadEPS: ['read-wbs.xml'] });
+
+    const error = await caught(client().readEPS({ fields: ['Name'] }));
+
+    expect(error).toMatchObject({ kind: 'protocol', operation: 'ReadEPS' });
+  });
+
+  it('reports an unreachable server and a timeout', async () => {
+    const unreachable = await caught(client({ baseUrl: 'http://127.0.0.1:9/p6ws/services' }).login());
+    expect(unreachable.kind).toBe('network');
+
+    delayMs = 200;
+    const timeout = await caught(client({ timeoutMs: 50 }).login());
+    expect(timeout.kind).toBe('timeout');
+  });
+});
+
+// ============================================================================
+// XML
+// ============================================================================
+
+describe('parseXml', () => {
+  it('decodes character references and rejects mismatched tags', () => {
+    expect(parseXml('<a x="1 &amp; 2">&#x41;&#66;</a>')).toEqual({
+      name: 'a',
+      attributes: { x: '1 & 2' },
+      children: [],
+      text: 'AB',
+    });
+    expect(() => parseXml('<a><b></a>')).toThrow(XmlParseError);
+  });
+});
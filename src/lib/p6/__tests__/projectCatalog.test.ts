@@ -0,0 +1,117 @@
+/**
+ * P6 Project Catalog Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Feeds recorded P6 responses (fixtures/) to the client through its
+ * injectable fetch.
+ *
+ * Test coverage:
+ * - Project listing fields; empty P6 values are omitted, not defaulted
+ * - EPS tree order and paths; projects outside the visible EPS tree
+ * - Paged project read
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { P6Client } from '../client';
+import { readProjectCatalog } from '../projectCatalog';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+const FIXTURES: Record<string, string> = {
+  Login: 'login.xml',
+  ReadProjects: 'read-project-catalog.xml',
+  ReadEPS: 'read-eps-tree.xml',
+};
+
+function recordingFetch() {
+  const bodies: string[] = [];
+  const fetch = async (_url: string | URL | Request, init?: RequestInit) => {
+    const body = String(init?.body ?? '');
+    bodies.push(body);
+    const operation = body.match(/<v1:(\w+)[\s>/]/)?.[1] ?? '';
+    return new Response(fixture(FIXTURES[operation]), {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml;charset=UTF-8', 'Set-Cookie': 'JSESSIONID=session-1; Path=/p6ws' },
+    });
+  };
+  return { bodies, fetch: fetch as typeof globalThis.fetch };
+}
+
+const client = (fetch: typeof globalThis.fetch) =>
+  new P6Client({
+    baseUrl: 'https://p6.example.com/p6ws/services',
+    databaseInstance: '1',
+    username: 'u',
+    password: 'p',
+    fetch,
+  });
+
+describe('readProjectCatalog', () => {
+  it('lists projects with their EPS node and omits values P6 left empty', async () => {
+    const { fetch } = recordingFetch();
+
+    const { projects } = await readProjectCatalog(client(fetch));
+
+    expect(projects).toEqual([
+      {
+        projectId: 10502,
+        projectCode: 'ACME-PIPE-002',
+        projectName: 'Pipeline <Phase 2>',
+        status: 'Planned',
+        startDate: '2025-09-01T08:00:00',
+        finishDate: undefined,
+        percentComplete: 0,
+        epsId: 301,
+      },
+      {
+        projectId: 10481,
+        projectCode: 'ACME-REF-001',
+        projectName: 'ACME Refinery Expansion & Tie-ins',
+        status: 'Active',
+        startDate: '2024-01-15T08:00:00',
+        finishDate: '2026-06-30T17:00:00',
+        percentComplete: 35.5,
+        epsId: 301,
+      },
+      {
+        projectId: 10610,
+        projectCode: 'JV-TERM-007',
+        projectName: 'Joint Venture Terminal',
+        status: 'Active',
+        startDate: undefined,
+        finishDate: undefined,
+        percentComplete: undefined,
+        epsId: null,
+      },
+    ]);
+  });
+
+  it('orders EPS nodes depth-first by sequence number with their paths', async () => {
+    const { fetch } = recordingFetch();
+
+    const { eps } = await readProjectCatalog(client(fetch));
+
+    expect(eps.map((node) => [node.epsId, node.parentEpsId, node.path.join(' / ')])).toEqual([
+      [300, null, 'ACME Energy'],
+      [301, 300, 'ACME Energy / Downstream'],
+      [305, 301, 'ACME Energy / Downstream / LNG'],
+      [302, 300, 'ACME Energy / Upstream'],
+    ]);
+    expect(eps[1]).toMatchObject({ epsCode: 'ACME.DOWN', epsName: 'Downstream' });
+  });
+
+  it('reads project ObjectIds first and the fields by page', async () => {
+    const { bodies, fetch } = recordingFetch();
+
+    await readProjectCatalog(client(fetch));
+
+    const reads = bodies.filter((body) => body.includes('<v1:ReadProjects>'));
+    expect(reads).toHaveLength(2);
+    expect(reads[0]).toContain('<v1:OrderBy>Id asc</v1:OrderBy>');
+    expect(reads[0]).not.toContain('<v1:Field>Name</v1:Field>');
+    expect(reads[1]).toContain('<v1:Field>SummaryPercentComplete</v1:Field>');
+    expect(reads[1]).toContain('<v1:Filter>ObjectId IN (10502, 10481, 10610)</v1:Filter>');
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Primavera P6 Web Services Client (server only)
+ * @governance DATA-001, DOC-002, SEC-001
+ *
+ * Typed client for the P6 EPPM SOAP services, shared by the onboarding
+ * routes and sync code. Uses cookie session authentication: the first call
+ * logs in through AuthenticationService, later calls send the session
+ * cookie, and a call rejected for an expired session logs in again once.
+ *
+ * Every failure is a P6Error whose `kind` tells an unreachable server from
+ * a timeout, a SOAP fault, rejected credentials or an unreadable response.
+ */
+
+import {
+  childElement,
+  childElements,
+  escapeXml,
+  findElement,
+  isNil,
+  parseXml,
+  XmlParseError,
+  type XmlElement,
+} from './xml';
+import {
+  P6_AUTHENTICATION,
+  P6_FIELDS,
+  P6_SERVICES,
+  type P6ClientOptions,
+  type P6Entity,
+  type P6Field,
+  type P6FieldKind,
+  type P6ReadOptions,
+  type P6Row,
+} from './types';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * How the call failed
+ * - network: the server was never reached (DNS, TLS, refused connection)
+ * - timeout: no answer within timeoutMs
+ * - http: non-2xx answer without a SOAP fault
+ * - fault: the service answered with a SOAP fault
+ * - auth: Login rejected the credentials or database instance
+ * - protocol: the answer was not the SOAP document the operation returns
+ */
+export type P6ErrorKind = 'network' | 'timeout' | 'http' | 'fault' | 'auth' | 'protocol';
+
+export class P6Error extends Error {
+  readonly kind: P6ErrorKind;
+  /** SOAP operation, e.g. ReadProjects */
+  readonly operation: string;
+  /** HTTP status, or null if the server never answered */
+  readonly status: number | null;
+  /** SOAP faultcode, for faults */
+  readonly faultCode: string | null;
+
+  constructor(init: {
+    kind: P6ErrorKind;
+    operation: string;
+    message: string;
+    status?: number | null;
+    faultCode?: string | null;
+    cause?: unknown;
+  }) {
+    super(init.message, init.cause !== undefined ? { cause: init.cause } : undefined);
+    this.name = 'P6Error';
+    this.kind = init.kind;
+    this.operation = init.operation;
+    this.status = init.status ?? null;
+    this.faultCode = init.faultCode ?? null;
+  }
+}
+
+// =============================================================================
+// ENVELOPES
+// =============================================================================
+
+const SOAP_ENVELOPE_NS = 'http://schemas.xmlsoap.org/soap/envelope/';
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Read operation of each business object */
+const READ_OPERATIONS: Record<P6Entity, string> = {
+  Project: 'ReadProjects',
+  EPS: 'ReadEPS',
+  WBS: 'ReadWBS',
+  Activity: 'ReadActivities',
+  Relationship: 'ReadRelationships',
+};
+
+/** P6 faults raised for a missing or expired session cookie */
+const SESSION_FAULT = /not logged in|session/i;
+
+function envelope(namespace: string, operation: string, body: string): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<soapenv:Envelope xmlns:soapenv="${SOAP_ENVELOPE_NS}" xmlns:v1="${namespace}">` +
+    `<soapenv:Header/><soapenv:Body><v1:${operation}>${body}</v1:${operation}></soapenv:Body>` +
+    `</soapenv:Envelope>`
+  );
+}
+
+const tag = (name: string, value: string) => `<v1:${name}>${escapeXml(value)}</v1:${name}>`;
+
+function parseFault(document: XmlElement): { code: string | null; message: string } | null {
+  const fault = findElement(document, 'Fault');
+  if (!fault) return null;
+  // SOAP 1.1 faultcode/faultstring, SOAP 1.2 Code/Value and Reason/Text
+  const code = childElement(fault, 'faultcode') ?? findElement(fault, 'Value');
+  const message = childElement(fault, 'faultstring') ?? findElement(fault, 'Text');
+  return { code: code?.text.trim() || null, message: message?.text.trim() || 'SOAP fault' };
+}
+
+function convert(value: string, kind: P6FieldKind): string | number | boolean {
+  switch (kind) {
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === 'true';
+    case 'string':
+    case 'date':
+      return value;
+  }
+}
+
+/** Selected fields of one business object; omitted and xsi:nil fields are null */
+function toRow<E extends P6Entity>(entity: E, element: XmlElement, fields: readonly P6Field<E>[], operation: string) {
+  const kinds = P6_FIELDS[entity] as Record<string, P6FieldKind>;
+  const row: Record<string, string | number | boolean | null> = {};
+  for (const field of fields) {
+    const child = childElement(element, field);
+    if (!child || isNil(child)) {
+      row[field] = null;
+      continue;
+    }
+    const value = convert(child.text.trim(), kinds[field]);
+    if (typeof value === 'number' && Number.isNaN(value)) {
+      throw new P6Error({ kind: 'protocol', operation, message: `${entity}.${field} is not a number: ${child.text}` });
+    }
+    row[field] = value;
+  }
+  return row;
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+export class P6Client {
+  private readonly baseUrl: string;
+  private readonly fetchFn: typeof fetch;
+  private readonly cookies = new Map<string, string>();
+  private session: Promise<void> | null = null;
+
+  constructor(private readonly options: P6ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /** Log in and keep the session cookie; concurrent callers share one Login */
+  login(): Promise<void> {
+    this.session ??= this.authenticate().catch((error) => {
+      this.session = null;
+      throw error;
+    });
+    return this.session;
+  }
+
+  /** End the session; a no-op when not logged in */
+  async logout(): Promise<void> {
+    if (!this.session) return;
+    const session = this.session;
+    this.session = null;
+    await session.catch(() => undefined);
+    try {
+      await this.post(P6_AUTHENTICATION.service, P6_AUTHENTICATION.namespace, 'Logout', '');
+    } finally {
+      this.cookies.clear();
+    }
+  }
+
+  /**
+   * P6 release advertised in the AuthenticationService WSDL, or null when
+   * the WSDL does not name one
+   */
+  async serverVersion(): Promise<string | null> {
+    const operation = 'GetWsdl';
+    const response = await this.send(operation, `${this.baseUrl}/${P6_AUTHENTICATION.service}?wsdl`, {
+      method: 'GET',
+      headers: { Accept: 'text/xml, application/xml' },
+    });
+    const wsdl = await response.text();
+    if (!response.ok) {
+      throw new P6Error({ kind: 'http', operation, status: response.status, message: `HTTP ${response.status}` });
+    }
+    if (!/definitions/.test(wsdl)) {
+      throw new P6Error({ kind: 'protocol', operation, status: response.status, message: 'Not a WSDL document' });
+    }
+    const match = wsdl.match(/P6\s*(?:EPPM\s*)?R?([\d.]+\d)/i) ?? wsdl.match(/version["\s:=]*([\d.]+\d)/i);
+    return match ? match[1] : null;
+  }
+
+  readProjects<F extends P6Field<'Project'>>(options: P6ReadOptions<'Project', F>) {
+    return this.readAll('Project', options);
+  }
+
+  readEPS<F extends P6Field<'EPS'>>(options: P6ReadOptions<'EPS', F>) {
+    return this.readAll('EPS', options);
+  }
+
+  readWBS<F extends P6Field<'WBS'>>(options: P6ReadOptions<'WBS', F>) {
+    return this.readAll('WBS', options);
+  }
+
+  readActivities<F extends P6Field<'Activity'>>(options: P6ReadOptions<'Activity', F>) {
+    return this.readAll('Activity', options);
+  }
+
+  readRelationships<F extends P6Field<'Relationship'>>(options: P6ReadOptions<'Relationship', F>) {
+    return this.readAll('Relationship', options);
+  }
+
+  /**
+   * Stream a read page by page, in the requested order. With pageSize the
+   * ObjectIds are read first and each page's fields by `ObjectId IN (...)`;
+   * objects deleted between the two reads drop out of their page.
+   */
+  async *readPages<E extends P6Entity, F extends P6Field<E>>(
+    entity: E,
+    options: P6ReadOptions<E, F>
+  ): AsyncGenerator<P6Row<E, F | 'ObjectId'>[]> {
+    const { fields, filter, orderBy, pageSize } = options;
+    if (!pageSize) {
+      yield await this.read(entity, fields, filter, orderBy);
+      return;
+    }
+
+    const ids = (await this.read(entity, [], filter, orderBy)).map((row) => row.ObjectId as number);
+    for (let start = 0; start < ids.length; start += pageSize) {
+      const pageIds = ids.slice(start, start + pageSize);
+      const rows = await this.read(entity, fields, `ObjectId IN (${pageIds.join(', ')})`);
+      const byId = new Map(rows.map((row) => [row.ObjectId as number, row]));
+      yield pageIds.flatMap((id) => byId.get(id) ?? []);
+    }
+  }
+
+  private async readAll<E extends P6Entity, F extends P6Field<E>>(entity: E, options: P6ReadOptions<E, F>) {
+    const rows: P6Row<E, F | 'ObjectId'>[] = [];
+    for await (const page of this.readPages(entity, options)) rows.push(...page);
+    return rows;
+  }
+
+  private async read<E extends P6Entity, F extends P6Field<E>>(
+    entity: E,
+    fields: readonly F[],
+    filter?: string,
+    orderBy?: string
+  ): Promise<P6Row<E, F | 'ObjectId'>[]> {
+    const operation = READ_OPERATIONS[entity];
+    const selected = [...new Set<P6Field<E>>(['ObjectId' as P6Field<E>, ...fields])];
+    const body =
+      selected.map((field) => tag('Field', field)).join('') +
+      (filter ? tag('Filter', filter) : '') +
+      (orderBy ? tag('OrderBy', orderBy) : '');
+
+    const { service, namespace } = P6_SERVICES[entity];
+    const response = await this.call(service, namespace, operation, body);
+    return childElements(response, entity).map(
+      (element) => toRow(entity, element, selected, operation) as P6Row<E, F | 'ObjectId'>
+    );
+  }
+
+  /** Authenticated call; an expired session is renewed and the call repeated once */
+  private async call(service: string, namespace: string, operation: string, body: string): Promise<XmlElement> {
+    await this.login();
+    try {
+      return await this.post(service, namespace, operation, body);
+    } catch (error) {
+      if (!(error instanceof P6Error && error.kind === 'fault' && SESSION_FAULT.test(error.message))) throw error;
+      this.session = null;
+      this.cookies.clear();
+      await this.login();
+      return this.post(service, namespace, operation, body);
+    }
+  }
+
+  private async authenticate(): Promise<void> {
+    const { username, password, databaseInstance } = this.options;
+    this.cookies.clear();
+    const response = await this.post(
+      P6_AUTHENTICATION.service,
+      P6_AUTHENTICATION.namespace,
+      'Login',
+      tag('UserName', username) + tag('Password', password) + tag('DatabaseInstanceId', databaseInstance)
+    );
+    if (childElement(response, 'Return')?.text.trim() !== 'true') {
+      throw new P6Error({ kind: 'auth', operation: 'Login', message: 'P6 rejected the login' });
+    }
+  }
+
+  /**
+   * POST one operation and return its response element (the first child of
+   * the SOAP Body). Faults are raised whatever the HTTP status.
+   */
+  private async post(service: string, namespace: string, operation: string, body: string): Promise<XmlElement> {
+    const headers: Record<string, string> = { 'Content-Type': 'text/xml;charset=UTF-8', SOAPAction: '""' };
+    if (this.cookies.size) {
+      headers.Cookie = [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+    }
+    const response = await this.send(operation, `${this.baseUrl}/${service}`, {
+      method: 'POST',
+      headers,
+      body: envelope(namespace, operation, body),
+    });
+    this.storeCookies(response.headers);
+    const text = await response.text();
+
+    let document: XmlElement | null = null;
+    try {
+      document = parseXml(text);
+    } catch (error) {
+      if (!(error instanceof XmlParseError)) throw error;
+    }
+
+    const fault = document && parseFault(document);
+    if (fault) {
+      throw new P6Error({
+        kind: 'fault',
+        operation,
+        status: response.status,
+        faultCode: fault.code,
+        message: fault.message,
+      });
+    }
+    if (!response.ok) {
+      throw new P6Error({ kind: 'http', operation, status: response.status, message: `HTTP ${response.status}` });
+    }
+    const result = document && findElement(document, 'Body')?.children[0];
+    if (!result || result.name !== `${operation}Response`) {
+      throw new P6Error({
+        kind: 'protocol',
+        operation,
+        status: response.status,
+        message: `Expected a ${operation}Response`,
+      });
+    }
+    return result;
+  }
+
+  private async send(operation: string, url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await this.fetchFn(url, {
+        ...init,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      // DOMException from AbortSignal.timeout, which need not extend this realm's Error
+      const timedOut = (error as { name?: unknown } | null)?.name === 'TimeoutError';
+      throw new P6Error({
+        kind: timedOut ? 'timeout' : 'network',
+        operation,
+        message: timedOut ? 'P6 did not answer in time' : 'P6 server unreachable',
+        cause: error,
+      });
+    }
+  }
+
+  private storeCookies(headers: Headers) {
+    for (const cookie of headers.getSetCookie()) {
+      const [pair] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0) this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Primavera P6 Web Services (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * Typed SOAP client for P6 EPPM: cookie session login, Read operations for
+ * projects, EPS, WBS, activities and relationships with field selection,
+ * filters and paging, and SOAP fault parsing. See client.ts.
+ *
+ * readProjectCatalog lists projects under their EPS nodes for onboarding.
+ */
+
+export { P6Client, P6Error, type P6ErrorKind } from './client';
+export { failureMessage } from './messages';
+export {
+  readProjectCatalog,
+  type P6EpsNode,
+  type P6ProjectCatalog,
+  type P6ProjectListing,
+} from './projectCatalog';
+export {
+  P6_FIELDS,
+  P6_SERVICES,
+  type P6ClientOptions,
+  type P6Entity,
+  type P6Field,
+  type P6FieldKind,
+  type P6ReadOptions,
+  type P6Row,
+} from './types';
+export { parseXml, escapeXml, XmlParseError, type XmlElement } from './xml';
@@ -0,0 +1,29 @@
+/**
+ * P6 Failure Messages
+ * @governance DOC-002
+ *
+ * User-facing text for a P6Error, shared by the onboarding P6 routes.
+ */
+
+import type { P6Error } from './client';
+
+export function failureMessage(error: P6Error): string {
+  switch (error.kind) {
+    case 'network':
+      return 'Network error: Unable to reach P6 server. Check URL and firewall settings.';
+    case 'timeout':
+      return 'P6 server did not respond in time. Check URL and firewall settings.';
+    case 'http':
+      return `P6 server unreachable: HTTP ${error.status}`;
+    case 'protocol':
+      return error.operation === 'GetWsdl'
+        ? 'Invalid response from P6 server - not a valid WSDL document'
+        : `Unexpected response from P6 server: ${error.message}`;
+    case 'fault':
+      return error.operation === 'Login'
+        ? `P6 Authentication failed: ${error.message}`
+        : `P6 ${error.operation} failed: ${error.message}`;
+    case 'auth':
+      return `P6 Authentication failed: ${error.message}`;
+  }
+}
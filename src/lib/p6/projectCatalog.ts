@@ -0,0 +1,132 @@
+/**
+ * P6 Project Catalog (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * Projects a P6 user can see, with the EPS tree they sit in, for the
+ * onboarding project selection step. EPS nodes come back in tree order
+ * (parents before children, siblings by SequenceNumber) with the names from
+ * the root down, so the list can be grouped under each node's path.
+ */
+
+import type { P6Client } from './client';
+import type { P6Row } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface P6ProjectListing {
+  projectId: number;
+  projectCode: string;
+  projectName: string;
+  status?: string;
+  startDate?: string;
+  finishDate?: string;
+  /** 0-100 */
+  percentComplete?: number;
+  /** Parent EPS node, or null when P6 did not return one the user can see */
+  epsId: number | null;
+}
+
+export interface P6EpsNode {
+  epsId: number;
+  epsCode: string;
+  epsName: string;
+  parentEpsId: number | null;
+  /** EPS names from the root down to and including this node */
+  path: string[];
+}
+
+export interface P6ProjectCatalog {
+  projects: P6ProjectListing[];
+  eps: P6EpsNode[];
+}
+
+/** Projects are read by ObjectId in pages of this size */
+const PROJECT_PAGE_SIZE = 500;
+
+const PROJECT_FIELDS = [
+  'Id',
+  'Name',
+  'Status',
+  'ParentEPSObjectId',
+  'PlannedStartDate',
+  'ScheduledFinishDate',
+  'SummaryPercentComplete',
+] as const;
+
+const EPS_FIELDS = ['Id', 'Name', 'ParentObjectId', 'SequenceNumber'] as const;
+
+type EpsRow = P6Row<'EPS', (typeof EPS_FIELDS)[number] | 'ObjectId'>;
+
+// =============================================================================
+// DERIVATIONS
+// =============================================================================
+
+/**
+ * Depth-first EPS order. A node whose parent is missing from the read is
+ * treated as a root, so a user with access to part of the tree still sees
+ * every node they can reach.
+ */
+function orderEpsTree(rows: EpsRow[]): P6EpsNode[] {
+  const ids = new Set(rows.map((row) => row.ObjectId));
+  const children = new Map<number | null, EpsRow[]>();
+  for (const row of rows) {
+    const parent = row.ParentObjectId !== null && ids.has(row.ParentObjectId) ? row.ParentObjectId : null;
+    const siblings = children.get(parent);
+    if (siblings) siblings.push(row);
+    else children.set(parent, [row]);
+  }
+
+  const nodes: P6EpsNode[] = [];
+  const visit = (parentId: number | null, path: string[]) => {
+    const siblings = [...(children.get(parentId) ?? [])].sort(
+      (a, b) => (a.SequenceNumber ?? 0) - (b.SequenceNumber ?? 0) || (a.Name ?? '').localeCompare(b.Name ?? '')
+    );
+    for (const row of siblings) {
+      const epsId = row.ObjectId as number;
+      const name = row.Name ?? row.Id ?? String(epsId);
+      nodes.push({
+        epsId,
+        epsCode: row.Id ?? '',
+        epsName: name,
+        parentEpsId: row.ParentObjectId,
+        path: [...path, name],
+      });
+      visit(epsId, [...path, name]);
+    }
+  };
+  visit(null, []);
+  return nodes;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Read every project and EPS node the client's user can see. Fields P6
+ * leaves empty are omitted rather than defaulted.
+ */
+export async function readProjectCatalog(client: P6Client): Promise<P6ProjectCatalog> {
+  const [projectRows, epsRows] = await Promise.all([
+    client.readProjects({ fields: PROJECT_FIELDS, orderBy: 'Id asc', pageSize: PROJECT_PAGE_SIZE }),
+    client.readEPS({ fields: EPS_FIELDS }),
+  ]);
+
+  const eps = orderEpsTree(epsRows);
+  const epsIds = new Set(eps.map((node) => node.epsId));
+
+  const projects = projectRows.map((row): P6ProjectListing => ({
+    projectId: row.ObjectId as number,
+    projectCode: row.Id ?? '',
+    projectName: row.Name ?? row.Id ?? '',
+    status: row.Status ?? undefined,
+    startDate: row.PlannedStartDate ?? undefined,
+    finishDate: row.ScheduledFinishDate ?? undefined,
+    percentComplete: row.SummaryPercentComplete === null ? undefined : Math.round(row.SummaryPercentComplete * 10) / 10,
+    epsId: row.ParentEPSObjectId !== null && epsIds.has(row.ParentEPSObjectId) ? row.ParentEPSObjectId : null,
+  }));
+
+  return { projects, eps };
+}
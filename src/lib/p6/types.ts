@@ -0,0 +1,141 @@
+/**
+ * P6 Web Services Types
+ * @governance DATA-001, DOC-002
+ *
+ * Business objects the portal reads from Primavera P6 EPPM Web Services,
+ * with the fields it may select on each. P6 sends every value as text;
+ * P6_FIELDS says how each field is converted. A field P6 omits or marks
+ * xsi:nil is null (DATA-001) - never zero or an empty string.
+ */
+
+// =============================================================================
+// SERVICES
+// =============================================================================
+
+export type P6Entity = 'Project' | 'EPS' | 'WBS' | 'Activity' | 'Relationship';
+
+/** Service endpoint and namespace of each business object */
+export const P6_SERVICES: Record<P6Entity, { service: string; namespace: string }> = {
+  Project: { service: 'ProjectService', namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/Project/V1' },
+  EPS: { service: 'EPSService', namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/EPS/V1' },
+  WBS: { service: 'WBSService', namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/WBS/V1' },
+  Activity: { service: 'ActivityService', namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/Activity/V1' },
+  Relationship: {
+    service: 'RelationshipService',
+    namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/Relationship/V1',
+  },
+};
+
+export const P6_AUTHENTICATION = {
+  service: 'AuthenticationService',
+  namespace: 'http://xmlns.oracle.com/Primavera/P6/WS/Authentication/V1',
+};
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+/**
+ * - number: integers and decimals (durations and float are hours, percentages 0-100)
+ * - date: ISO local date-time as P6 sends it, e.g. 2025-01-06T08:00:00
+ * - boolean: "true" / "false"
+ */
+export type P6FieldKind = 'string' | 'number' | 'date' | 'boolean';
+
+export const P6_FIELDS = {
+  Project: {
+    ObjectId: 'number',
+    Id: 'string',
+    Name: 'string',
+    Status: 'string',
+    ParentEPSObjectId: 'number',
+    PlannedStartDate: 'date',
+    ScheduledFinishDate: 'date',
+    SummaryPercentComplete: 'number',
+    DataDate: 'date',
+    LastUpdateDate: 'date',
+  },
+  EPS: {
+    ObjectId: 'number',
+    Id: 'string',
+    Name: 'string',
+    ParentObjectId: 'number',
+    SequenceNumber: 'number',
+  },
+  WBS: {
+    ObjectId: 'number',
+    ProjectObjectId: 'number',
+    ParentObjectId: 'number',
+    Code: 'string',
+    Name: 'string',
+    Status: 'string',
+    SequenceNumber: 'number',
+  },
+  Activity: {
+    ObjectId: 'number',
+    ProjectObjectId: 'number',
+    WBSObjectId: 'number',
+    Id: 'string',
+    Name: 'string',
+    Type: 'string',
+    Status: 'string',
+    PercentComplete: 'number',
+    PlannedStartDate: 'date',
+    PlannedFinishDate: 'date',
+    ActualStartDate: 'date',
+    ActualFinishDate: 'date',
+    PlannedDuration: 'number',
+    RemainingDuration: 'number',
+    TotalFloat: 'number',
+    IsCritical: 'boolean',
+  },
+  Relationship: {
+    ObjectId: 'number',
+    PredecessorActivityObjectId: 'number',
+    SuccessorActivityObjectId: 'number',
+    PredecessorProjectObjectId: 'number',
+    SuccessorProjectObjectId: 'number',
+    Type: 'string',
+    Lag: 'number',
+  },
+} as const satisfies Record<P6Entity, Record<string, P6FieldKind>>;
+
+export type P6Field<E extends P6Entity> = keyof (typeof P6_FIELDS)[E] & string;
+
+type FieldValue<K> = K extends 'number' ? number : K extends 'boolean' ? boolean : string;
+
+/** One business object with the selected fields; values P6 left out are null */
+export type P6Row<E extends P6Entity, F extends P6Field<E> = P6Field<E>> = {
+  [Field in F]: FieldValue<(typeof P6_FIELDS)[E][Field]> | null;
+};
+
+// =============================================================================
+// REQUESTS
+// =============================================================================
+
+export interface P6ReadOptions<E extends P6Entity, F extends P6Field<E>> {
+  /** Fields to return; ObjectId is always included */
+  fields: readonly F[];
+  /** P6 filter expression, e.g. "ProjectObjectId = 4711 and Status = 'Active'" */
+  filter?: string;
+  /** P6 order clause, e.g. "Name asc" */
+  orderBy?: string;
+  /**
+   * Read in pages of this many objects: the matching ObjectIds come first,
+   * then each page's fields are read by ObjectId. Without it one request
+   * returns every match.
+   */
+  pageSize?: number;
+}
+
+export interface P6ClientOptions {
+  /** Services root, e.g. https://p6.example.com/p6ws/services */
+  baseUrl: string;
+  databaseInstance: string;
+  username: string;
+  password: string;
+  /** Per-request timeout in milliseconds; defaults to 30 seconds */
+  timeoutMs?: number;
+  /** Injectable for tests */
+  fetch?: typeof fetch;
+}
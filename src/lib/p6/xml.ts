@@ -0,0 +1,167 @@
+/**
+ * Minimal XML Reader for P6 SOAP Responses (server only)
+ * @governance DATA-001, DOC-002
+ *
+ * P6 Web Services answer with plain SOAP 1.1 documents: elements, text,
+ * the five predefined entities and numeric character references. This
+ * reader covers exactly that, plus comments and CDATA, so the portal does
+ * not need an XML dependency. Namespace prefixes are dropped - P6 never
+ * reuses a local name across namespaces within one response.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface XmlElement {
+  /** Local name, without the namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content directly inside this element */
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(`${message} at offset ${position}`);
+    this.name = 'XmlParseError';
+  }
+}
+
+// =============================================================================
+// ESCAPING
+// =============================================================================
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeEntities(value: string, position: number): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    const decoded = ENTITIES[entity];
+    if (decoded === undefined) throw new XmlParseError(`Unknown entity &${entity};`, position);
+    return decoded;
+  });
+}
+
+const localName = (qualified: string) => qualified.slice(qualified.indexOf(':') + 1);
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+const ATTRIBUTE = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse a document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const skipTo = (terminator: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) throw new XmlParseError(`Unterminated markup, expected ${terminator}`, index);
+    const content = source.slice(index, end);
+    index = end + terminator.length;
+    return content;
+  };
+
+  while (index < source.length) {
+    const open = source.indexOf('<', index);
+    const text = source.slice(index, open === -1 ? source.length : open);
+    if (stack.length) {
+      stack[stack.length - 1].text += decodeEntities(text, index);
+    } else if (text.trim()) {
+      throw new XmlParseError('Text outside the root element', index);
+    }
+    if (open === -1) break;
+    index = open;
+
+    if (source.startsWith('<?', index) || source.startsWith('<!DOCTYPE', index)) {
+      skipTo('>');
+    } else if (source.startsWith('<!--', index)) {
+      skipTo('-->');
+    } else if (source.startsWith('<![CDATA[', index)) {
+      index += '<![CDATA['.length;
+      const cdata = skipTo(']]>');
+      if (stack.length) stack[stack.length - 1].text += cdata;
+    } else if (source.startsWith('</', index)) {
+      const start = index;
+      index += 2;
+      const name = localName(skipTo('>').trim());
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`, start);
+      }
+    } else {
+      const start = index;
+      index += 1;
+      const tag = skipTo('>');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+      const element: XmlElement = { name: localName(body.slice(0, nameEnd)), attributes: {}, children: [], text: '' };
+      for (const [, name, , double, single] of body.slice(nameEnd).matchAll(ATTRIBUTE)) {
+        element.attributes[name] = decodeEntities(double ?? single, start);
+      }
+
+      if (stack.length) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Second root element', start);
+      } else {
+        root = element;
+      }
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length) throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, source.length);
+  if (!root) throw new XmlParseError('Document has no root element', 0);
+  return root;
+}
+
+// =============================================================================
+// NAVIGATION
+// =============================================================================
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | null {
+  return element.children.find((child) => child.name === name) ?? null;
+}
+
+/** Depth-first search for the first element with `name`, including `element` itself */
+export function findElement(element: XmlElement, name: string): XmlElement | null {
+  if (element.name === name) return element;
+  for (const child of element.children) {
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** xsi:nil="true" marks an explicitly null value */
+export function isNil(element: XmlElement): boolean {
+  return Object.entries(element.attributes).some(([name, value]) => localName(name) === 'nil' && value === 'true');
+}
@@ -0,0 +1,41 @@
+/**
+ * ORION PMS Query Client
+ * @governance DATA-001, DOC-002
+ *
+ * One QueryClient configuration for every page, so dashboards share the
+ * same cache, retry policy and background refresh behaviour.
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { getRetryDelay, shouldRetry } from './api';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Cached data is served without refetching for this long */
+export const DEFAULT_STALE_TIME_MS = 30_000;
+
+/**
+ * Create the app-wide QueryClient.
+ *
+ * Queries retry only transient failures (network, timeout, 429/502/503/504)
+ * with exponential backoff. 401/403/404 fail immediately so the card can show
+ * the right message via getApiErrorMessage instead of spinning. Mutations
+ * never retry - re-sending a save or sync trigger is the user's call.
+ */
+export function createQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: DEFAULT_STALE_TIME_MS,
+        retry: (failureCount, error) => shouldRetry(failureCount, error),
+        retryDelay: (attempt, error) => getRetryDelay(attempt, error),
+        refetchOnWindowFocus: true,
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
+}
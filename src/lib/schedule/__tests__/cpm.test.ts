@@ -0,0 +1,320 @@
+/**
+ * Critical Path Method Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * Networks are small enough to check by hand; the data date is Monday
+ * 2025-01-06 08:00 and durations and lags are in days.
+ *
+ * Test coverage:
+ * - Early and late dates, total and free float over finish-to-start logic
+ * - SS, FF and SF links, positive and negative lag
+ * - Progress: completed activities, started activities, milestones
+ * - Durations P6 does not report, taken from the planned dates
+ * - Longest path and driving predecessors
+ * - Driving path traces back to the data date and forward through successors
+ * - Loops, links outside the list, critical float threshold, Start On or After constraints
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ActivityRelationship, GanttActivity } from '@/components/gantt/types';
+import { computeCriticalPath, traceDrivingPath } from '../cpm';
+
+const DATA_DATE = '2025-01-06T08:00:00';
+
+const activity = (objectId: number, duration: number, overrides: Partial<GanttActivity> = {}): GanttActivity => ({
+  id: `activity-${objectId}`,
+  objectId,
+  wbsObjectId: 7001,
+  activityId: `A${objectId}`,
+  name: `Activity ${objectId}`,
+  activityType: 'Task Dependent',
+  status: 'not_started',
+  percentComplete: 0,
+  plannedStart: DATA_DATE,
+  plannedFinish: DATA_DATE,
+  actualStart: null,
+  actualFinish: null,
+  plannedDuration: duration,
+  remainingDuration: duration,
+  isCritical: false,
+  isMilestone: false,
+  predecessors: [],
+  successors: [],
+  ...overrides,
+});
+
+const link = (
+  predecessorObjectId: number,
+  successorObjectId: number,
+  type: ActivityRelationship['type'] = 'FS',
+  lag = 0
+): ActivityRelationship => ({ predecessorObjectId, successorObjectId, type, lag });
+
+const schedule = (activities: GanttActivity[], relationships: ActivityRelationship[]) =>
+  computeCriticalPath(activities, relationships, { dataDate: DATA_DATE });
+
+/** Early start and finish offsets in days from the data date */
+function offsets(result: ReturnType<typeof schedule>, objectId: number) {
+  const scheduled = result.activities.get(objectId)!;
+  const days = (value: string) => (Date.parse(`${value}Z`) - Date.parse(`${DATA_DATE}Z`)) / 86_400_000;
+  return [days(scheduled.earlyStart), days(scheduled.earlyFinish)];
+}
+
+describe('computeCriticalPath', () => {
+  // 1 (5d) -> 2 (3d) -> 4 (2d), with 1 -> 3 (1d) -> 4 alongside
+  const diamond = () =>
+    schedule(
+      [activity(1, 5), activity(2, 3), activity(3, 1), activity(4, 2)],
+      [link(1, 2), link(1, 3), link(2, 4), link(3, 4)]
+    );
+
+  it('computes early and late dates from the data date', () => {
+    const result = diamond();
+
+    expect(result.dataDate).toBe(DATA_DATE);
+    expect(result.projectFinish).toBe('2025-01-16T08:00:00');
+    expect(result.activities.get(3)).toMatchObject({
+      earlyStart: '2025-01-11T08:00:00',
+      earlyFinish: '2025-01-12T08:00:00',
+      lateStart: '2025-01-13T08:00:00',
+      lateFinish: '2025-01-14T08:00:00',
+    });
+  });
+
+  it('computes total and free float', () => {
+    const result = diamond();
+
+    expect([1, 2, 3, 4].map((objectId) => result.activities.get(objectId)!.totalFloat)).toEqual([0, 0, 2, 0]);
+    expect(result.activities.get(3)!.freeFloat).toBe(2);
+    expect([1, 2, 3, 4].map((objectId) => result.activities.get(objectId)!.isCritical)).toEqual([
+      true,
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  it('separates free float from float shared along a chain', () => {
+    // 1 (1d) -> 2 (1d) beside 3 (5d)
+    const result = schedule([activity(1, 1), activity(2, 1), activity(3, 5)], [link(1, 2)]);
+
+    expect(result.activities.get(1)).toMatchObject({ totalFloat: 3, freeFloat: 0 });
+    expect(result.activities.get(2)).toMatchObject({ totalFloat: 3, freeFloat: 3 });
+  });
+
+  it('flags the longest path through driving links', () => {
+    const result = diamond();
+
+    expect(result.longestPath).toEqual([1, 2, 4]);
+    expect(result.activities.get(3)!.isLongestPath).toBe(false);
+    expect(result.activities.get(4)!.drivingPredecessors).toEqual([2]);
+  });
+
+  it.each([
+    ['FS with a lag', link(1, 2, 'FS', 2), [7, 10]],
+    ['FS with a lead', link(1, 2, 'FS', -2), [3, 6]],
+    ['SS with a lag', link(1, 2, 'SS', 2), [2, 5]],
+    ['FF with a lead', link(1, 2, 'FF', -1), [1, 4]],
+    ['SF with a lag', link(1, 2, 'SF', 4), [1, 4]],
+  ])('schedules %s', (_, relationship, expected) => {
+    const result = schedule([activity(1, 5), activity(2, 3)], [relationship]);
+
+    expect(offsets(result, 2)).toEqual(expected);
+    expect(result.activities.get(2)!.drivingPredecessors).toEqual([1]);
+  });
+
+  it('never starts open work before the data date', () => {
+    // An SF lead would put 2 before the data date
+    const result = schedule([activity(1, 5), activity(2, 3)], [link(1, 2, 'SF', 1)]);
+
+    expect(offsets(result, 2)).toEqual([0, 3]);
+    expect(result.activities.get(2)!.drivingPredecessors).toEqual([]);
+  });
+
+  it("ties the predecessor of a start-to-start link to the successor's late start", () => {
+    // 1 (2d) SS+1 -> 2 (6d): 1 must start by day 0 for 2 to start by day 1
+    const result = schedule([activity(1, 2), activity(2, 6)], [link(1, 2, 'SS', 1)]);
+
+    expect(result.activities.get(1)).toMatchObject({ totalFloat: 0, lateFinish: '2025-01-08T08:00:00' });
+    expect(result.longestPath).toEqual([1, 2]);
+  });
+
+  it('schedules the remaining work of started activities from the data date', () => {
+    const started = activity(1, 2, {
+      status: 'in_progress',
+      actualStart: '2025-01-02T08:00:00',
+      plannedDuration: 6,
+    });
+    const result = schedule([started, activity(2, 3)], [link(1, 2)]);
+
+    expect(result.activities.get(1)).toMatchObject({
+      earlyStart: '2025-01-02T08:00:00',
+      earlyFinish: '2025-01-08T08:00:00',
+      lateStart: '2025-01-02T08:00:00',
+    });
+    expect(offsets(result, 2)).toEqual([2, 5]);
+  });
+
+  it('spans the planned dates when P6 reports no duration', () => {
+    const unreported = activity(1, 0, {
+      plannedDuration: null,
+      remainingDuration: null,
+      plannedStart: '2025-01-06T08:00:00',
+      plannedFinish: '2025-01-10T08:00:00',
+    });
+    const result = schedule([unreported, activity(2, 3)], [link(1, 2)]);
+
+    expect(offsets(result, 1)).toEqual([0, 4]);
+    expect(offsets(result, 2)).toEqual([4, 7]);
+  });
+
+  it('holds start-to-start successors of started work by the lag from the actual start', () => {
+    const started = activity(1, 2, { status: 'in_progress', actualStart: '2025-01-04T08:00:00' });
+    const result = schedule([started, activity(2, 3)], [link(1, 2, 'SS', 5)]);
+
+    expect(offsets(result, 2)).toEqual([3, 6]);
+    // The started predecessor's start is fixed, so the link gives it no late finish
+    expect(result.activities.get(1)!.totalFloat).toBe(4);
+  });
+
+  it('leaves completed, level of effort and summary activities out of the network', () => {
+    const result = schedule(
+      [
+        activity(1, 5, { status: 'complete', actualStart: '2024-12-02T08:00:00', actualFinish: '2024-12-06T17:00:00' }),
+        activity(2, 3),
+        activity(3, 8, { activityType: 'Level of Effort' }),
+        activity(4, 8, { activityType: 'WBS Summary' }),
+      ],
+      [link(1, 2, 'FS', 30), link(2, 3)]
+    );
+
+    expect([...result.activities.keys()]).toEqual([2]);
+    expect(offsets(result, 2)).toEqual([0, 3]);
+  });
+
+  it('schedules milestones without duration', () => {
+    const milestone = activity(2, 4, { isMilestone: true, activityType: 'Finish Milestone' });
+    const result = schedule([activity(1, 5), milestone], [link(1, 2)]);
+
+    expect(offsets(result, 2)).toEqual([5, 5]);
+    expect(result.activities.get(2)!.isCritical).toBe(true);
+  });
+
+  it('uses the planned duration when unstarted work has no remaining duration', () => {
+    const result = schedule([activity(1, 4, { remainingDuration: 0 })], []);
+
+    expect(offsets(result, 1)).toEqual([0, 4]);
+  });
+
+  it('ignores links to activities outside the list', () => {
+    const result = schedule([activity(1, 5), activity(2, 3)], [link(1, 2), link(99, 1, 'FS', 40)]);
+
+    expect(offsets(result, 1)).toEqual([0, 5]);
+    expect(result.longestPath).toEqual([1, 2]);
+  });
+
+  it('reports loops and leaves them unscheduled', () => {
+    const result = schedule(
+      [activity(1, 2), activity(2, 2), activity(3, 1), activity(4, 3)],
+      [link(1, 2), link(2, 1), link(2, 3)]
+    );
+
+    expect(result.loops.sort()).toEqual([1, 2, 3]);
+    expect([...result.activities.keys()]).toEqual([4]);
+    expect(result.projectFinish).toBe('2025-01-09T08:00:00');
+  });
+
+  it('treats float up to the threshold as critical', () => {
+    const result = computeCriticalPath([activity(1, 1), activity(2, 5)], [], {
+      dataDate: DATA_DATE,
+      criticalFloat: 4,
+    });
+
+    expect(result.activities.get(1)).toMatchObject({ totalFloat: 4, isCritical: true, isLongestPath: false });
+  });
+
+  it('holds unstarted activities to Start On or After constraints', () => {
+    // 1 (5d) -> 2 (3d) -> 3 (1d), with 2 held to day 8 and the started 4 given a constraint it has passed
+    const startOnOrAfter = new Map([
+      [2, '2025-01-14T08:00:00'],
+      [4, '2025-01-20T08:00:00'],
+    ]);
+    const result = computeCriticalPath(
+      [
+        activity(1, 5),
+        activity(2, 3),
+        activity(3, 1),
+        activity(4, 2, { status: 'in_progress', actualStart: '2025-01-03T08:00:00' }),
+      ],
+      [link(1, 2), link(2, 3)],
+      { dataDate: DATA_DATE, startOnOrAfter }
+    );
+
+    expect(offsets(result, 2)).toEqual([8, 11]);
+    expect(offsets(result, 3)).toEqual([11, 12]);
+    expect(result.activities.get(2)!.drivingPredecessors).toEqual([]);
+    expect(result.activities.get(1)!.freeFloat).toBe(3);
+    expect(offsets(result, 4)).toEqual([-3, 2]);
+  });
+
+  it('starts from the earliest planned start without a data date', () => {
+    const result = computeCriticalPath(
+      [
+        activity(1, 2, { plannedStart: '2025-03-03T08:00:00' }),
+        activity(2, 1, { plannedStart: '2025-03-10T08:00:00' }),
+      ],
+      []
+    );
+
+    expect(result.dataDate).toBe('2025-03-03T08:00:00');
+    expect(result.activities.get(2)!.earlyStart).toBe('2025-03-03T08:00:00');
+  });
+
+  it('returns an empty schedule when nothing is open', () => {
+    const result = schedule([activity(1, 5, { status: 'complete' })], []);
+
+    expect(result).toEqual({ activities: new Map(), dataDate: null, projectFinish: null, longestPath: [], loops: [] });
+  });
+});
+
+describe('traceDrivingPath', () => {
+  // 1 (5d) -> 2 (3d) -> 4 (2d) -> 5 (1d), with 1 -> 3 (1d) -> 4 alongside and 6 (2d) SS+1 from 2
+  const relationships = [link(1, 2), link(1, 3), link(2, 4), link(3, 4), link(4, 5), link(2, 6, 'SS', 1)];
+  const network = () =>
+    schedule(
+      [activity(1, 5), activity(2, 3), activity(3, 1), activity(4, 2), activity(5, 1), activity(6, 2)],
+      relationships
+    );
+
+  it('traces driving predecessors back to the data date', () => {
+    const path = traceDrivingPath(network(), relationships, 4);
+
+    expect(path).toEqual({ activities: [1, 2, 4], relationships: [link(1, 2), link(2, 4)] });
+  });
+
+  it('follows the activities an activity drives forward when asked', () => {
+    const path = traceDrivingPath(network(), relationships, 2, { successors: true });
+
+    expect(path!.activities).toEqual([1, 2, 6, 4, 5]);
+    expect(path!.relationships).toEqual([link(1, 2), link(2, 4), link(4, 5), link(2, 6, 'SS', 1)]);
+  });
+
+  it('follows both links where they tie', () => {
+    // 1 (2d) and 2 (2d) both finish as 3 can start
+    const ties = [link(1, 3), link(2, 3)];
+    const result = schedule([activity(1, 2), activity(2, 2), activity(3, 1)], ties);
+
+    expect(traceDrivingPath(result, ties, 3)!.activities).toEqual([1, 2, 3]);
+  });
+
+  it('traces only the activity when nothing drives it', () => {
+    expect(traceDrivingPath(network(), relationships, 1)).toEqual({ activities: [1], relationships: [] });
+  });
+
+  it('returns null for activities outside the network', () => {
+    const result = schedule([activity(1, 5, { status: 'complete' }), activity(2, 3)], [link(1, 2)]);
+
+    expect(traceDrivingPath(result, [link(1, 2)], 1)).toBeNull();
+    expect(traceDrivingPath(result, [link(1, 2)], 2)).toEqual({ activities: [2], relationships: [] });
+  });
+});
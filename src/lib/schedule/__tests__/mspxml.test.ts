@@ -0,0 +1,110 @@
+/**
+ * Microsoft Project XML Reader Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * fixtures/north-wharf-msp.xml is a trimmed Microsoft Project 2010 save
+ * with two summary tasks, four tasks, one cross-project link and one link
+ * on a summary task.
+ *
+ * Test coverage:
+ * - Summary tasks as WBS, tasks outside any summary on the project node
+ * - Object IDs derived from the project GUID
+ * - ISO durations, slack and lag in tenths of a minute
+ * - Relationship types; cross-project and summary links as warnings
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { ScheduleFileError } from '../errors';
+import { parseMspXml } from '../mspxml';
+
+const sample = () => readFileSync(path.join(__dirname, 'fixtures', 'north-wharf-msp.xml'), 'utf8');
+
+describe('parseMspXml', () => {
+  it('derives stable object IDs above the P6 range from the project GUID', () => {
+    const { project, activities } = parseMspXml(sample()).schedules[0];
+    const renamed = parseMspXml(sample().replace('<Title>North Wharf Piling</Title>', '<Title>Renamed</Title>'));
+    const otherGuid = parseMspXml(sample().replace('00000000A001', '00000000A002'));
+
+    expect(project.object_id).toBeGreaterThanOrEqual(2 ** 31);
+    expect(Number.isSafeInteger(project.object_id)).toBe(true);
+    expect(activities.map((activity) => activity.object_id - project.object_id)).toEqual([2, 4, 5, 6]);
+    expect(renamed.schedules[0].project.object_id).toBe(project.object_id);
+    expect(otherGuid.schedules[0].project.object_id).not.toBe(project.object_id);
+  });
+
+  it('reads the project header', () => {
+    const file = parseMspXml(sample());
+
+    expect(file.format).toBe('mspxml');
+    expect(file.version).toBe('14');
+    expect(file.schedules[0].project).toMatchObject({
+      project_code: 'North Wharf',
+      project_name: 'North Wharf Piling',
+      status: null,
+      planned_start: '2025-01-06T08:00:00',
+      planned_finish: '2025-02-07T17:00:00',
+      data_date: '2025-02-03T08:00:00',
+    });
+    expect(file.calendars).toEqual([{ objectId: 1, name: 'Standard', hoursPerDay: null, isDefault: true }]);
+    expect(file.resources).toEqual([{ objectId: 1, code: 'CC', name: 'Crane crew', type: 'Labor' }]);
+  });
+
+  it('turns summary tasks into WBS elements', () => {
+    const { project, wbs, activities } = parseMspXml(sample()).schedules[0];
+    const local = (objectId: number | null) => (objectId === null ? null : objectId - project.object_id);
+
+    expect(wbs.map((row) => [local(row.object_id), local(row.parent_object_id), row.code, row.name])).toEqual([
+      [1, null, '1', 'Engineering'],
+      [3, null, '2', 'Piling'],
+    ]);
+    expect(activities.map((activity) => [activity.activity_code, local(activity.wbs_object_id)])).toEqual([
+      ['2', 1],
+      ['4', 3],
+      ['5', 3],
+      // Outside any summary task: the project node
+      ['6', 0],
+    ]);
+  });
+
+  it('converts durations and slack to days and derives status from actuals', () => {
+    const [design, drive, milestone] = parseMspXml(sample()).schedules[0].activities;
+
+    expect(design).toMatchObject({ status: 'Completed', percent_complete: 100, planned_duration: 10, total_float: 0 });
+    expect(drive).toMatchObject({
+      status: 'In Progress',
+      percent_complete: 50,
+      planned_duration: 10,
+      remaining_duration: 5,
+      total_float: -2,
+    });
+    expect(milestone).toMatchObject({ status: 'Not Started', activity_type: 'Finish Milestone', planned_duration: 0 });
+  });
+
+  it('maps link types and lags and skips links it cannot keep', () => {
+    const { schedules, warnings } = parseMspXml(sample());
+    const { project, relationships } = schedules[0];
+
+    expect(
+      relationships.map((link) => [
+        link.predecessor_activity_object_id - project.object_id,
+        link.successor_activity_object_id - project.object_id,
+        link.type,
+        link.lag,
+      ])
+    ).toEqual([
+      [2, 4, 'Finish to Start', 2],
+      [4, 5, 'Finish to Finish', -1],
+    ]);
+    expect(new Set(relationships.map((link) => link.object_id)).size).toBe(2);
+    expect(warnings).toEqual([
+      'North Wharf: skipped 1 relationship to tasks outside the file',
+      'North Wharf: skipped 1 relationship on summary tasks',
+    ]);
+  });
+
+  it('rejects documents that are not MSP XML', () => {
+    expect(() => parseMspXml('<APIBusinessObjects/>')).toThrow(ScheduleFileError);
+  });
+});
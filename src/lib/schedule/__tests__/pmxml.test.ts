@@ -0,0 +1,128 @@
+/**
+ * PMXML Reader and Writer Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * fixtures/north-wharf.pmxml holds the north-wharf.xer schedule as P6 21.12
+ * exports it to XML, with one relationship written at the root and one to
+ * an activity outside the file.
+ *
+ * Test coverage:
+ * - Project, WBS and activity fields; percent complete types
+ * - Hours to days with the activity's calendar, negative float and lag
+ * - Relationships at the project and the root, external links as warnings
+ * - Round trip through writePmxml
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { ScheduleFileError } from '../errors';
+import { parsePmxml, writePmxml } from '../pmxml';
+import { parseXer } from '../xer';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parsePmxml', () => {
+  it('reads the project with its version, calendars and resources', () => {
+    const file = parsePmxml(fixture('north-wharf.pmxml'));
+
+    expect(file.format).toBe('pmxml');
+    expect(file.version).toBe('21.12');
+    expect(file.schedules[0].project).toEqual({
+      object_id: 4001,
+      project_code: 'NWP-01',
+      project_name: 'North Wharf Piling & Dredging',
+      status: 'Active',
+      percent_complete: 75,
+      planned_start: '2025-01-06T08:00:00',
+      planned_finish: '2025-07-04T17:00:00',
+      actual_start: '2025-01-06T08:00:00',
+      data_date: '2025-02-03T08:00:00',
+    });
+    expect(file.calendars.map((calendar) => [calendar.objectId, calendar.hoursPerDay, calendar.isDefault])).toEqual([
+      [1, 8, true],
+      [2, 10, false],
+    ]);
+    expect(file.resources).toEqual([{ objectId: 501, code: 'ELEC', name: 'Electrician', type: 'Labor' }]);
+  });
+
+  it('makes elements parented to the project WBS roots', () => {
+    const { wbs } = parsePmxml(fixture('north-wharf.pmxml')).schedules[0];
+
+    expect(wbs.map((row) => [row.object_id, row.parent_object_id, row.code, row.sequence_number])).toEqual([
+      [7001, null, 'ENG', 10],
+      [7003, 7001, 'PIL', 20],
+    ]);
+  });
+
+  it('converts hours with the activity calendar and reads the percent complete type', () => {
+    const [design, drive, milestone] = parsePmxml(fixture('north-wharf.pmxml')).schedules[0].activities;
+
+    expect(design).toMatchObject({ percent_complete: 100, planned_duration: 10, status: 'Completed' });
+    // Ten hour calendar; duration percent rather than the physical 20%
+    expect(drive).toMatchObject({ percent_complete: 50, planned_duration: 10, remaining_duration: 5, total_float: -2 });
+    // No WBSObjectId: the project node
+    expect(milestone).toMatchObject({ wbs_object_id: 7000, activity_type: 'Finish Milestone', total_float: 5 });
+  });
+
+  it('reads relationships wherever they are written and skips links outside the file', () => {
+    const { schedules, warnings } = parsePmxml(fixture('north-wharf.pmxml'));
+
+    expect(
+      schedules[0].relationships.map((link) => [
+        link.object_id,
+        link.predecessor_activity_object_id,
+        link.successor_activity_object_id,
+        link.type,
+        link.lag,
+      ])
+    ).toEqual([
+      [8001, 9001, 9002, 'Finish to Start', 2],
+      [8002, 9002, 9003, 'Finish to Finish', 0],
+    ]);
+    expect(warnings).toEqual(['NWP-01: skipped 1 relationship to activities outside the file']);
+  });
+
+  it('rejects documents that are not PMXML', () => {
+    expect(() => parsePmxml('<Project xmlns="http://schemas.microsoft.com/project"/>')).toThrow(ScheduleFileError);
+    expect(() => parsePmxml('<APIBusinessObjects/>')).toThrow('The file contains no Project elements');
+  });
+});
+
+describe('writePmxml', () => {
+  it('writes a schedule P6 reads back unchanged', () => {
+    const schedule = parseXer(fixture('north-wharf.xer')).schedules[0];
+
+    const { schedules } = parsePmxml(writePmxml([schedule]));
+
+    // Written at 8 hours per day, so the ten-hour activity's hours differ but its days do not
+    expect(schedules[0].wbs).toEqual(schedule.wbs);
+    expect(schedules[0].relationships).toEqual(
+      schedule.relationships.map((link) => ({
+        ...link,
+        type: { PR_FS: 'Finish to Start', PR_FF: 'Finish to Finish' }[link.type],
+      }))
+    );
+    expect(schedules[0].activities).toEqual(
+      schedule.activities.map((activity) => ({
+        ...activity,
+        activity_type: activity.activity_type === 'TT_FinMile' ? 'Finish Milestone' : 'Task Dependent',
+      }))
+    );
+    expect(schedules[0].project).toMatchObject({ project_code: 'NWP-01', project_name: 'North Wharf Piling' });
+  });
+
+  it('escapes text and leaves out empty fields', () => {
+    const schedule = parseXer(fixture('north-wharf.xer')).schedules[0];
+    schedule.activities[0].activity_name = 'Piles <600mm> & caps';
+
+    const xml = writePmxml([schedule]);
+
+    expect(xml).toContain('<Name>Piles &lt;600mm&gt; &amp; caps</Name>');
+    // A3000 has not started
+    expect(xml.match(/<ActualStartDate>/g)).toHaveLength(2);
+    expect(xml).toMatch(
+      /^<\?xml version="1.0" encoding="UTF-8"\?>\n<APIBusinessObjects xmlns="http:\/\/xmlns.oracle.com/
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * XER Reader Tests
+ * @governance COMPONENT-001, DATA-001
+ *
+ * fixtures/north-wharf.xer is a trimmed P6 19.12 export: two calendars
+ * (8 and 10 hours per day), one project with a project node and three WBS
+ * elements, four activities and three relationships, one of them to a
+ * project outside the file.
+ *
+ * Test coverage:
+ * - Table splitting, header version and line markers
+ * - Project node handling and WBS parents
+ * - Hours to days with the activity's calendar, percent complete types
+ * - Skipped activities and external relationships as warnings (DATA-001)
+ * - windows-1252 decoding
+ * - Gantt view of an import
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { decodeXer, parseXer, readXerTables, XerParseError } from '../xer';
+import { scheduleView } from '../view';
+
+const sample = () => readFileSync(path.join(__dirname, 'fixtures', 'north-wharf.xer'), 'utf8');
+
+describe('readXerTables', () => {
+  it('splits the file into tables keyed by field name', () => {
+    const { version, tables } = readXerTables(sample());
+
+    expect(version).toBe('19.12');
+    expect([...tables.keys()]).toEqual(['CALENDAR', 'RSRC', 'PROJECT', 'PROJWBS', 'TASK', 'TASKPRED']);
+    expect(tables.get('CALENDAR')![1]).toEqual({
+      clndr_id: '2',
+      default_flag: 'N',
+      clndr_name: 'Ten Hour Shifts',
+      day_hr_cnt: '10',
+    });
+  });
+
+  it('rejects files without an ERMHDR header', () => {
+    expect(() => readXerTables('%T\tPROJECT\n')).toThrow(XerParseError);
+  });
+
+  it('reports the line of an unexpected marker', () => {
+    expect(() => readXerTables('ERMHDR\t19.12\n%T\tPROJECT\n%F\tproj_id\n%X\t1\n')).toThrow(/line 4/);
+  });
+
+  it('rejects rows before a field line', () => {
+    expect(() => readXerTables('ERMHDR\t19.12\n%T\tPROJECT\n%R\t1\n')).toThrow(/Row before the field line of PROJECT/);
+  });
+});
+
+describe('parseXer', () => {
+  it('maps the project node onto the project row', () => {
+    const { schedules } = parseXer(sample());
+
+    expect(schedules).toHaveLength(1);
+    expect(schedules[0].project).toEqual({
+      object_id: 4001,
+      project_code: 'NWP-01',
+      project_name: 'North Wharf Piling',
+      status: 'Active',
+      percent_complete: 75,
+      planned_start: '2025-01-06T08:00:00',
+      planned_finish: '2025-07-04T17:00:00',
+      actual_start: '2025-01-06T08:00:00',
+      data_date: '2025-02-03T08:00:00',
+    });
+  });
+
+  it('makes children of the project node WBS roots', () => {
+    const { wbs } = parseXer(sample()).schedules[0];
+
+    expect(
+      wbs.map(({ object_id, parent_object_id, code, status }) => [object_id, parent_object_id, code, status])
+    ).toEqual([
+      [7001, null, 'ENG', 'Active'],
+      [7002, null, 'CON', 'Planned'],
+      [7003, 7002, 'PIL', 'Planned'],
+    ]);
+  });
+
+  it('converts hours to days with the activity calendar and falls back to the project calendar', () => {
+    const { activities } = parseXer(sample()).schedules[0];
+    const byCode = Object.fromEntries(activities.map((activity) => [activity.activity_code, activity]));
+
+    expect(byCode.A1000).toMatchObject({ planned_duration: 10, remaining_duration: 0, total_float: 0 });
+    // Ten hour calendar
+    expect(byCode.A2000).toMatchObject({ planned_duration: 10, remaining_duration: 5, total_float: 5 });
+    // No calendar of its own: the project's 8 hour calendar
+    expect(byCode.A3000).toMatchObject({ planned_duration: 0, total_float: 5 });
+  });
+
+  it('reads statuses, percent complete and falls back to early dates', () => {
+    const { activities } = parseXer(sample()).schedules[0];
+    const [design, drive, milestone] = activities;
+
+    expect(design).toMatchObject({ status: 'Completed', percent_complete: 100, actual_finish: '2025-01-17T17:00:00' });
+    // Duration percent complete from original and remaining duration
+    expect(drive).toMatchObject({ status: 'In Progress', percent_complete: 50, actual_finish: null });
+    expect(milestone).toMatchObject({
+      activity_type: 'TT_FinMile',
+      status: 'Not Started',
+      planned_start: '2025-02-07T17:00:00',
+      planned_finish: '2025-02-07T17:00:00',
+    });
+  });
+
+  it('skips unmappable activities and external relationships with warnings', () => {
+    const { schedules, warnings } = parseXer(sample());
+
+    expect(schedules[0].activities.map((activity) => activity.activity_code)).toEqual(['A1000', 'A2000', 'A3000']);
+    expect(warnings).toEqual([
+      'Skipped activity A4000: missing object ID, WBS or planned dates',
+      'NWP-01: skipped 1 relationship to activities outside the file',
+    ]);
+  });
+
+  it('converts lag with the successor calendar and keeps P6 relationship types', () => {
+    const { relationships } = parseXer(sample()).schedules[0];
+
+    expect(relationships).toEqual([
+      {
+        object_id: 8001,
+        project_object_id: 4001,
+        predecessor_activity_object_id: 9001,
+        successor_activity_object_id: 9002,
+        type: 'PR_FS',
+        lag: 2,
+      },
+      {
+        object_id: 8002,
+        project_object_id: 4001,
+        predecessor_activity_object_id: 9002,
+        successor_activity_object_id: 9003,
+        type: 'PR_FF',
+        lag: 0,
+      },
+    ]);
+  });
+
+  it('reads calendars and resources', () => {
+    const { calendars, resources } = parseXer(sample());
+
+    expect(calendars).toEqual([
+      { objectId: 1, name: 'Standard 5 Day', hoursPerDay: 8, isDefault: true },
+      { objectId: 2, name: 'Ten Hour Shifts', hoursPerDay: 10, isDefault: false },
+    ]);
+    expect(resources).toEqual([
+      { objectId: 501, code: 'ELEC', name: 'Electrician', type: 'Labor' },
+      { objectId: 502, code: 'CRANE', name: 'Mobile crane', type: 'Nonlabor' },
+    ]);
+  });
+
+  it('rejects files without projects', () => {
+    expect(() => parseXer('ERMHDR\t19.12\n%T\tCALENDAR\n%F\tclndr_id\n%R\t1\n%E\n')).toThrow(
+      'The file contains no PROJECT table rows'
+    );
+  });
+});
+
+describe('decodeXer', () => {
+  it('falls back to windows-1252 for non UTF-8 exports', () => {
+    const bytes = Uint8Array.from([...new TextEncoder().encode('ERMHDR\t19.12\tCaf'), 0xe9]);
+
+    expect(decodeXer(bytes)).toBe('ERMHDR\t19.12\tCafé');
+  });
+});
+
+describe('scheduleView', () => {
+  it('builds the WBS tree and Gantt activities with their links', () => {
+    const view = scheduleView(parseXer(sample()).schedules[0]);
+
+    expect(view.wbs.map((node) => node.wbsCode)).toEqual(['ENG', 'CON']);
+    expect(view.wbs[1].children.map((node) => node.wbsCode)).toEqual(['PIL']);
+
+    const drive = view.activities.find((activity) => activity.activityId === 'A2000')!;
+    expect(drive.id).toBe('import:activity:9002');
+    expect(drive.predecessors).toEqual([9001]);
+    expect(drive.successors).toEqual([9003]);
+    expect(view.relationships).toHaveLength(2);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Critical Path Method
+ * @governance DATA-001, DOC-002
+ *
+ * Forward and backward passes over GanttActivity and ActivityRelationship,
+ * so critical path and float can be worked out wherever activities are:
+ * imported files without float, filtered Gantt views and what-if edits.
+ * Pure functions with no browser or database access; the Gantt and the BFF
+ * routes call the same code.
+ *
+ * Scheduling follows P6's retained logic from the data date:
+ * - Completed activities keep their actual dates and are left out of the
+ *   network, as are level of effort and WBS summary activities
+ * - Started activities keep their actual start; their remaining duration
+ *   is scheduled from the data date after their predecessors
+ * - Other activities start as early as their predecessors allow, never
+ *   before the data date or a Start On or After constraint
+ * - Activities without successors finish by the project's early finish
+ *
+ * Durations and lags are in days and dates advance by elapsed days: the
+ * portal keeps no work calendars, so dates are indicative while float,
+ * which only compares durations and lags, is in the same days P6 reports.
+ */
+
+import type { ActivityRelationship, GanttActivity } from '@/components/gantt/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CpmOptions {
+  /** Data date (ISO 8601); defaults to the earliest start of the open activities */
+  dataDate?: string | null;
+  /** Activities with total float at or below this many days are critical; P6 defaults to 0 */
+  criticalFloat?: number;
+  /**
+   * Start On or After constraints (ISO 8601) by object ID, as P6 applies
+   * them: they hold back unstarted activities and leave late dates alone
+   */
+  startOnOrAfter?: Map<number, string>;
+}
+
+/**
+ * Scheduled dates and float of one activity
+ */
+export interface CpmActivity {
+  objectId: number;
+  /** Early start (ISO 8601); the actual start once started */
+  earlyStart: string;
+  earlyFinish: string;
+  /** Late start (ISO 8601); the actual start once started */
+  lateStart: string;
+  lateFinish: string;
+  /** Days the activity can slip without delaying the project finish */
+  totalFloat: number;
+  /** Days the activity can slip without delaying any successor */
+  freeFloat: number;
+  /** Total float at or below CpmOptions.criticalFloat */
+  isCritical: boolean;
+  /** On the chain of driving links that ends at the project finish */
+  isLongestPath: boolean;
+  /** Predecessors whose links set this activity's early dates */
+  drivingPredecessors: number[];
+}
+
+/**
+ * Driving logic of one activity, as traced by traceDrivingPath
+ */
+export interface DrivingPath {
+  /** Object IDs on the path in early start order, the traced activity included */
+  activities: number[];
+  /** Driving links between them, in the order given */
+  relationships: ActivityRelationship[];
+}
+
+export interface CpmSchedule {
+  /** Scheduled activities by object ID; completed and excluded activities are absent */
+  activities: Map<number, CpmActivity>;
+  /** Data date the passes started from (ISO 8601), null without open activities */
+  dataDate: string | null;
+  /** Latest early finish (ISO 8601), null without open activities */
+  projectFinish: string | null;
+  /** Longest path object IDs in early start order */
+  longestPath: number[];
+  /** Activities in a logic loop or after one; they are left unscheduled */
+  loops: number[];
+}
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Offsets closer than a minute are the same time */
+const EPSILON = 1 / (24 * 60);
+
+/** Activity types outside the network: they span other activities rather than drive them */
+const EXCLUDED_TYPES = new Set(['Level of Effort', 'WBS Summary']);
+
+/** P6 dates carry no zone; they are read and written as UTC so offsets never shift */
+function toTime(value: string): number {
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/i.test(value) || !value.includes('T');
+  return Date.parse(zoned ? value : `${value}Z`);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// =============================================================================
+// NETWORK
+// =============================================================================
+
+interface Node {
+  activity: GanttActivity;
+  duration: number;
+  /** Actual start offset of a started activity */
+  actualStart: number | null;
+  /** Earliest remaining start: the data date, or a later Start On or After constraint */
+  notBefore: number;
+  predecessors: ActivityRelationship[];
+  successors: ActivityRelationship[];
+  /** Early start of the remaining work */
+  early: number;
+  late: number;
+}
+
+/**
+ * Remaining days: milestones take none, unstarted work falls back to its
+ * planned duration, and a duration P6 did not report to the planned dates' span
+ */
+function remainingDays(activity: GanttActivity): number {
+  if (activity.isMilestone) return 0;
+  const planned =
+    activity.plannedDuration ?? (Date.parse(activity.plannedFinish) - Date.parse(activity.plannedStart)) / DAY_MS;
+  const remaining = activity.remainingDuration;
+  const days = remaining === null || (activity.status === 'not_started' && remaining <= 0) ? planned : remaining;
+  return Math.max(days, 0);
+}
+
+/** Whether a link holds back the successor; work that has started cannot be held back at its start */
+const holdsSuccessor = (link: ActivityRelationship, successor: Node) =>
+  !(link.type === 'SS' && successor.actualStart !== null);
+
+/**
+ * Whether the predecessor's remaining work can delay the successor through
+ * a link; a started predecessor's start no longer moves
+ */
+const drivenByRemaining = (link: ActivityRelationship, predecessor: Node, successor: Node) =>
+  holdsSuccessor(link, successor) && !(predecessor.actualStart !== null && (link.type === 'SS' || link.type === 'SF'));
+
+/** Earliest remaining start a link allows the successor */
+function forwardBound(link: ActivityRelationship, predecessor: Node, successor: Node): number {
+  const start = predecessor.actualStart ?? predecessor.early;
+  const finish = predecessor.early + predecessor.duration;
+  switch (link.type) {
+    case 'FS':
+      return finish + link.lag;
+    case 'SS':
+      return start + link.lag;
+    case 'FF':
+      return finish + link.lag - successor.duration;
+    case 'SF':
+      return start + link.lag - successor.duration;
+  }
+}
+
+/** Latest finish a link allows the predecessor */
+function backwardBound(link: ActivityRelationship, predecessor: Node, successor: Node): number {
+  const lateStart = successor.late - successor.duration;
+  switch (link.type) {
+    case 'FS':
+      return lateStart - link.lag;
+    case 'SS':
+      return lateStart - link.lag + predecessor.duration;
+    case 'FF':
+      return successor.late - link.lag;
+    case 'SF':
+      return successor.late - link.lag + predecessor.duration;
+  }
+}
+
+/**
+ * Activities in dependency order (Kahn). Activities that never reach
+ * in-degree zero sit in or after a loop.
+ */
+function topologicalOrder(nodes: Map<number, Node>): { order: Node[]; loops: number[] } {
+  const inDegree = new Map<number, number>();
+  for (const [objectId, node] of nodes) inDegree.set(objectId, node.predecessors.length);
+
+  const order = [...nodes.values()].filter((node) => node.predecessors.length === 0);
+  for (let index = 0; index < order.length; index++) {
+    for (const link of order[index].successors) {
+      const remaining = inDegree.get(link.successorObjectId)! - 1;
+      inDegree.set(link.successorObjectId, remaining);
+      if (remaining === 0) order.push(nodes.get(link.successorObjectId)!);
+    }
+  }
+
+  const loops = [...inDegree].filter(([, remaining]) => remaining > 0).map(([objectId]) => objectId);
+  return { order, loops };
+}
+
+// =============================================================================
+// PASSES
+// =============================================================================
+
+/**
+ * Schedule the open activities and work out their float. Links to
+ * activities outside the list are ignored, so a filtered list is scheduled
+ * on its own logic.
+ */
+export function computeCriticalPath(
+  activities: GanttActivity[],
+  relationships: ActivityRelationship[],
+  options: CpmOptions = {}
+): CpmSchedule {
+  const criticalFloat = options.criticalFloat ?? 0;
+  const open = activities.filter(
+    (activity) => activity.status !== 'complete' && !EXCLUDED_TYPES.has(activity.activityType)
+  );
+  const origin = options.dataDate
+    ? toTime(options.dataDate)
+    : open.reduce((min, activity) => Math.min(min, toTime(activity.actualStart ?? activity.plannedStart)), Infinity);
+  if (!Number.isFinite(origin)) {
+    return { activities: new Map(), dataDate: null, projectFinish: null, longestPath: [], loops: [] };
+  }
+  const toDate = (offset: number) =>
+    new Date(Math.round((origin + offset * DAY_MS) / 1000) * 1000).toISOString().slice(0, 19);
+
+  const constraintOffset = (date: string | undefined) => (date ? Math.max(0, (toTime(date) - origin) / DAY_MS) : 0);
+
+  const nodes = new Map<number, Node>();
+  for (const activity of open) {
+    const started = activity.status === 'in_progress' && activity.actualStart !== null;
+    nodes.set(activity.objectId, {
+      activity,
+      duration: remainingDays(activity),
+      actualStart: started ? (toTime(activity.actualStart!) - origin) / DAY_MS : null,
+      notBefore: constraintOffset(started ? undefined : options.startOnOrAfter?.get(activity.objectId)),
+      predecessors: [],
+      successors: [],
+      early: 0,
+      late: 0,
+    });
+  }
+  for (const link of relationships) {
+    const predecessor = nodes.get(link.predecessorObjectId);
+    const successor = nodes.get(link.successorObjectId);
+    if (!predecessor || !successor || predecessor === successor) continue;
+    predecessor.successors.push(link);
+    successor.predecessors.push(link);
+  }
+
+  const { order, loops } = topologicalOrder(nodes);
+  if (order.length === 0) {
+    return { activities: new Map(), dataDate: null, projectFinish: null, longestPath: [], loops };
+  }
+  for (const objectId of loops) nodes.delete(objectId);
+  for (const current of order) {
+    current.successors = current.successors.filter((link) => nodes.has(link.successorObjectId));
+  }
+  const node = (objectId: number) => nodes.get(objectId)!;
+
+  // Forward pass: remaining work starts at the data date, its constraint or after its predecessors
+  for (const current of order) {
+    current.early = current.notBefore;
+    for (const link of current.predecessors) {
+      if (holdsSuccessor(link, current)) {
+        current.early = Math.max(current.early, forwardBound(link, node(link.predecessorObjectId), current));
+      }
+    }
+  }
+  const finish = order.reduce((max, current) => Math.max(max, current.early + current.duration), -Infinity);
+
+  // Backward pass: open ends finish by the project finish
+  for (let index = order.length - 1; index >= 0; index--) {
+    const current = order[index];
+    current.late = finish;
+    for (const link of current.successors) {
+      const successor = node(link.successorObjectId);
+      if (drivenByRemaining(link, current, successor)) {
+        current.late = Math.min(current.late, backwardBound(link, current, successor));
+      }
+    }
+  }
+
+  const scheduled = new Map<number, CpmActivity>();
+  for (const current of order) {
+    const earlyFinish = current.early + current.duration;
+    let freeFloat = finish - earlyFinish;
+    for (const link of current.successors) {
+      const successor = node(link.successorObjectId);
+      if (drivenByRemaining(link, current, successor)) {
+        freeFloat = Math.min(freeFloat, successor.early - forwardBound(link, current, successor));
+      }
+    }
+    const drivingPredecessors = current.predecessors
+      .filter(
+        (link) =>
+          holdsSuccessor(link, current) &&
+          current.early - forwardBound(link, node(link.predecessorObjectId), current) < EPSILON
+      )
+      .map((link) => link.predecessorObjectId);
+    const totalFloat = round(current.late - earlyFinish);
+
+    scheduled.set(current.activity.objectId, {
+      objectId: current.activity.objectId,
+      earlyStart: toDate(current.actualStart ?? current.early),
+      earlyFinish: toDate(earlyFinish),
+      lateStart: toDate(current.actualStart ?? current.late - current.duration),
+      lateFinish: toDate(current.late),
+      totalFloat,
+      freeFloat: round(freeFloat),
+      isCritical: totalFloat <= criticalFloat,
+      isLongestPath: false,
+      drivingPredecessors,
+    });
+  }
+
+  // Longest path: driving links back from the activities that finish last
+  const pending = order
+    .filter((current) => finish - (current.early + current.duration) < EPSILON)
+    .map((current) => current.activity.objectId);
+  while (pending.length) {
+    const activity = scheduled.get(pending.pop()!)!;
+    if (activity.isLongestPath) continue;
+    activity.isLongestPath = true;
+    pending.push(...activity.drivingPredecessors);
+  }
+  const longestPath = order
+    .filter((current) => scheduled.get(current.activity.objectId)!.isLongestPath)
+    .sort((a, b) => (a.actualStart ?? a.early) - (b.actualStart ?? b.early))
+    .map((current) => current.activity.objectId);
+
+  return {
+    activities: scheduled,
+    dataDate: toDate(0),
+    projectFinish: toDate(finish),
+    longestPath,
+    loops,
+  };
+}
+
+// =============================================================================
+// DRIVING PATH
+// =============================================================================
+
+/**
+ * Trace an activity's driving predecessors back to the data date and, with
+ * `successors`, the activities it drives forward: the logic that explains
+ * its dates. Where two links tie, both are followed. Activities left out of
+ * the network (completed, level of effort, summary or in a loop) have no
+ * driving logic and trace to null.
+ */
+export function traceDrivingPath(
+  schedule: CpmSchedule,
+  relationships: ActivityRelationship[],
+  objectId: number,
+  options: { successors?: boolean } = {}
+): DrivingPath | null {
+  if (!schedule.activities.has(objectId)) return null;
+
+  const into = new Map<number, ActivityRelationship[]>();
+  const out = new Map<number, ActivityRelationship[]>();
+  for (const link of relationships) {
+    const successor = schedule.activities.get(link.successorObjectId);
+    if (!successor?.drivingPredecessors.includes(link.predecessorObjectId)) continue;
+    const inbound = into.get(link.successorObjectId);
+    if (inbound) inbound.push(link);
+    else into.set(link.successorObjectId, [link]);
+    const outbound = out.get(link.predecessorObjectId);
+    if (outbound) outbound.push(link);
+    else out.set(link.predecessorObjectId, [link]);
+  }
+
+  const onPath = new Set([objectId]);
+  const links = new Set<ActivityRelationship>();
+  const walk = (next: Map<number, ActivityRelationship[]>, end: (link: ActivityRelationship) => number) => {
+    const pending = [objectId];
+    while (pending.length) {
+      for (const link of next.get(pending.pop()!) ?? []) {
+        links.add(link);
+        if (!onPath.has(end(link))) {
+          onPath.add(end(link));
+          pending.push(end(link));
+        }
+      }
+    }
+  };
+  walk(into, (link) => link.predecessorObjectId);
+  if (options.successors) walk(out, (link) => link.successorObjectId);
+
+  const dates = (id: number) => schedule.activities.get(id)!;
+  const activities = [...onPath].sort(
+    (a, b) =>
+      dates(a).earlyStart.localeCompare(dates(b).earlyStart) || dates(a).earlyFinish.localeCompare(dates(b).earlyFinish)
+  );
+  return { activities, relationships: relationships.filter((link) => links.has(link)) };
+}
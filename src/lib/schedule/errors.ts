@@ -0,0 +1,16 @@
+/**
+ * Schedule File Errors
+ * @governance DOC-002
+ */
+
+/**
+ * A file that cannot be read as a schedule: wrong structure, or no
+ * project in it. Rows that merely cannot be mapped are skipped with a
+ * warning instead.
+ */
+export class ScheduleFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleFileError';
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Schedule Files
+ * @governance DATA-001, DOC-002
+ *
+ * Schedules read from exported files as an alternative to P6 Web Services:
+ * XER, PMXML and MSP XML readers, format detection (read.ts), the row shapes
+ * they produce (types.ts), the WBS tree and Gantt view of an import
+ * (view.ts) and the PMXML writer for exports. The critical path method
+ * (cpm.ts) schedules any set of Gantt activities, imported or synced.
+ */
+
+export { ScheduleFileError } from './errors';
+export { decodeXer, parseXer, readXerTables, XerParseError, type XerRow, type XerTables } from './xer';
+export { parsePmxml, writePmxml } from './pmxml';
+export { parseMspXml } from './mspxml';
+export { decodeXml, detectScheduleFormat, readScheduleFile } from './read';
+export { scheduleView, type ScheduleView } from './view';
+export {
+  computeCriticalPath,
+  traceDrivingPath,
+  type CpmActivity,
+  type CpmOptions,
+  type CpmSchedule,
+  type DrivingPath,
+} from './cpm';
+export type {
+  ImportedActivityRow,
+  ImportedCalendar,
+  ImportedProjectRow,
+  ImportedRelationshipRow,
+  ImportedResource,
+  ImportedSchedule,
+  ImportedWbsRow,
+  ScheduleFile,
+  ScheduleFileFormat,
+} from './types';
@@ -0,0 +1,285 @@
+/**
+ * Microsoft Project XML Reader
+ * @governance DATA-001, DOC-002
+ *
+ * Reads the XML format Microsoft Project saves (a Project root in the
+ * http://schemas.microsoft.com/project namespace). MSP has no WBS of its
+ * own: summary tasks become WBS elements and the other tasks activities of
+ * their nearest summary task. Tasks outside any summary task sit on the
+ * project node, as P6 places them when it imports an MSP file.
+ *
+ * Task UIDs are only unique within one file, so object IDs are derived from
+ * the project: its GUID (or name) hashes to a key, and every ID is that key
+ * shifted above the int32 range P6 assigns from, plus the task's UID.
+ * Importing the same file again therefore replaces the same project.
+ *
+ * Durations are ISO 8601 working time; slack and lag are tenths of a
+ * minute. Both are converted to days with the project's minutes per day.
+ */
+
+import { parseXml, type XmlElement } from '../p6/xml';
+import type {
+  ImportedActivityRow,
+  ImportedCalendar,
+  ImportedProjectRow,
+  ImportedRelationshipRow,
+  ImportedResource,
+  ImportedWbsRow,
+  ScheduleFile,
+} from './types';
+import { ScheduleFileError } from './errors';
+import { DEFAULT_HOURS_PER_DAY, date, earliest, id, num, text, weightedPercent } from './values';
+
+// =============================================================================
+// OBJECT IDS
+// =============================================================================
+
+/** IDs per project: task UIDs below RELATIONSHIP_BASE, relationships above */
+const ID_SPACE = 2 ** 20;
+const RELATIONSHIP_BASE = 2 ** 19;
+/** Keys start at 2^11 so every ID is at least 2^31 */
+const KEY_OFFSET = 2 ** 11;
+
+/** FNV-1a; keys stay below 2^33 so IDs stay safe integers */
+function projectKey(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(index), 0x01000193) >>> 0;
+  }
+  return KEY_OFFSET + hash;
+}
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+type Fields = Record<string, string>;
+
+function fields(element: XmlElement): Fields {
+  const values: Fields = {};
+  for (const child of element.children) {
+    if (child.children.length === 0) values[child.name] = child.text;
+  }
+  return values;
+}
+
+const children = (element: XmlElement | null, name: string) =>
+  element?.children.filter((child) => child.name === name) ?? [];
+
+const child = (element: XmlElement, name: string) => element.children.find((entry) => entry.name === name) ?? null;
+
+/** "PT16H30M0S" -> 16.5; days count as working days */
+function isoHours(value: string | undefined, hoursPerDay: number): number | null {
+  const match = text(value)?.match(
+    /^(-)?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match) return null;
+  const [, sign, dayCount = '0', hourCount = '0', minuteCount = '0', secondCount = '0'] = match;
+  const total =
+    Number(dayCount) * hoursPerDay + Number(hourCount) + Number(minuteCount) / 60 + Number(secondCount) / 3600;
+  return sign ? -total : total;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** PredecessorLink Type */
+const RELATIONSHIP_TYPES: Record<string, string> = {
+  '0': 'Finish to Finish',
+  '1': 'Finish to Start',
+  '2': 'Start to Finish',
+  '3': 'Start to Start',
+};
+
+/** Resource Type; cost resources have no P6 equivalent */
+const RESOURCE_TYPES: Record<string, string> = {
+  '0': 'Material',
+  '1': 'Labor',
+};
+
+// =============================================================================
+// READER
+// =============================================================================
+
+function toCalendar(element: XmlElement, projectCalendarUid: number | null): ImportedCalendar | null {
+  const calendar = fields(element);
+  const uid = id(calendar.UID);
+  if (uid === null) return null;
+  return {
+    objectId: uid,
+    name: text(calendar.Name) ?? String(uid),
+    // Calendars state working times, not a day length
+    hoursPerDay: null,
+    isDefault: uid === projectCalendarUid,
+  };
+}
+
+function toResource(element: XmlElement): ImportedResource | null {
+  const resource = fields(element);
+  const uid = id(resource.UID);
+  const name = text(resource.Name);
+  // UID 0 is MSP's unnamed placeholder resource
+  if (uid === null || uid === 0 || name === null) return null;
+  return {
+    objectId: uid,
+    code: text(resource.Initials) ?? name,
+    name,
+    type: RESOURCE_TYPES[resource.Type] ?? null,
+  };
+}
+
+/**
+ * Read the project in an MSP XML document. Tasks that cannot be mapped are
+ * skipped with a warning.
+ */
+export function parseMspXml(source: string): ScheduleFile {
+  const root = parseXml(source);
+  if (root.name !== 'Project') {
+    throw new ScheduleFileError(`Not a Microsoft Project XML file: the root element is <${root.name}>`);
+  }
+
+  const project = fields(root);
+  const projectName = text(project.Name)?.replace(/\.(mpp|xml)$/i, '') ?? null;
+  const projectCode = projectName ?? text(project.Title);
+  if (projectCode === null) {
+    throw new ScheduleFileError('The project has neither a Name nor a Title');
+  }
+
+  const key = projectKey(text(project.GUID) ?? projectCode);
+  const projectId = key * ID_SPACE;
+  const objectId = (uid: number) => projectId + uid;
+  const hoursPerDay = (num(project.MinutesPerDay) ?? DEFAULT_HOURS_PER_DAY * 60) / 60;
+  const warnings: string[] = [];
+
+  // Tasks are listed in outline order; the stack holds the open summary tasks
+  const wbs: ImportedWbsRow[] = [];
+  const activities: ImportedActivityRow[] = [];
+  const summaries = new Set<number>();
+  const stack: { level: number; uid: number }[] = [];
+  const taskElements = children(child(root, 'Tasks'), 'Task');
+
+  taskElements.forEach((element, sequence) => {
+    const task = fields(element);
+    const uid = id(task.UID);
+    const level = num(task.OutlineLevel) ?? 1;
+    const code = text(task.ID) ?? text(task.UID) ?? '?';
+    // Outline level 0 is the project summary task; IsNull marks blank rows
+    if (uid === null || level === 0 || task.IsNull === '1') return;
+    if (uid >= RELATIONSHIP_BASE) {
+      warnings.push(`Skipped task ${code}: UID ${uid} is out of range`);
+      return;
+    }
+
+    while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+    const parent = stack.length ? objectId(stack[stack.length - 1].uid) : null;
+
+    if (task.Summary === '1') {
+      summaries.add(uid);
+      stack.push({ level, uid });
+      wbs.push({
+        object_id: objectId(uid),
+        project_object_id: projectId,
+        parent_object_id: parent,
+        code: text(task.WBS) ?? text(task.OutlineNumber) ?? code,
+        name: text(task.Name) ?? code,
+        status: 'Active',
+        sequence_number: sequence,
+      });
+      return;
+    }
+
+    const plannedStart = date(task.Start);
+    const plannedFinish = date(task.Finish);
+    if (plannedStart === null || plannedFinish === null) {
+      warnings.push(`Skipped task ${code}: missing start or finish`);
+      return;
+    }
+    const actualStart = date(task.ActualStart);
+    const actualFinish = date(task.ActualFinish);
+    const slack = num(task.TotalSlack);
+    const duration = isoHours(task.Duration, hoursPerDay);
+    const remaining = isoHours(task.RemainingDuration, hoursPerDay);
+    activities.push({
+      object_id: objectId(uid),
+      project_object_id: projectId,
+      wbs_object_id: parent ?? projectId,
+      activity_code: code,
+      activity_name: text(task.Name) ?? code,
+      activity_type: task.Milestone === '1' ? 'Finish Milestone' : 'Task Dependent',
+      status: actualFinish ? 'Completed' : actualStart ? 'In Progress' : 'Not Started',
+      percent_complete: num(task.PercentComplete),
+      planned_start: plannedStart,
+      planned_finish: plannedFinish,
+      actual_start: actualStart,
+      actual_finish: actualFinish,
+      planned_duration: duration === null ? null : round(duration / hoursPerDay),
+      remaining_duration: remaining === null ? null : round(remaining / hoursPerDay),
+      total_float: slack === null ? null : round(slack / 10 / 60 / hoursPerDay),
+    });
+  });
+
+  // PredecessorLink elements sit on the successor task
+  const activityIds = new Set(activities.map((activity) => activity.object_id));
+  const relationships: ImportedRelationshipRow[] = [];
+  let external = 0;
+  let onSummaries = 0;
+  for (const element of taskElements) {
+    const successor = id(fields(element).UID);
+    if (successor === null) continue;
+    for (const link of children(element, 'PredecessorLink').map(fields)) {
+      const predecessor = id(link.PredecessorUID);
+      if (predecessor === null) continue;
+      if (summaries.has(successor) || summaries.has(predecessor)) {
+        onSummaries += 1;
+        continue;
+      }
+      if (!activityIds.has(objectId(successor))) continue;
+      if (link.CrossProject === '1' || !activityIds.has(objectId(predecessor))) {
+        external += 1;
+        continue;
+      }
+      const lag = num(link.LinkLag);
+      relationships.push({
+        object_id: projectId + RELATIONSHIP_BASE + relationships.length,
+        project_object_id: projectId,
+        predecessor_activity_object_id: objectId(predecessor),
+        successor_activity_object_id: objectId(successor),
+        type: RELATIONSHIP_TYPES[link.Type] ?? 'Finish to Start',
+        lag: lag === null ? 0 : round(lag / 10 / 60 / hoursPerDay),
+      });
+    }
+  }
+  if (external) {
+    warnings.push(
+      `${projectCode}: skipped ${external} ${external === 1 ? 'relationship' : 'relationships'} to tasks outside the file`
+    );
+  }
+  if (onSummaries) {
+    warnings.push(
+      `${projectCode}: skipped ${onSummaries} ${onSummaries === 1 ? 'relationship' : 'relationships'} on summary tasks`
+    );
+  }
+
+  const projectRow: ImportedProjectRow = {
+    object_id: projectId,
+    project_code: projectCode,
+    project_name: text(project.Title) ?? projectCode,
+    status: null,
+    percent_complete: weightedPercent(activities),
+    planned_start: date(project.StartDate) ?? earliest(activities.map((activity) => activity.planned_start)),
+    planned_finish: date(project.FinishDate),
+    actual_start: earliest(activities.map((activity) => activity.actual_start)),
+    data_date: date(project.StatusDate),
+  };
+
+  const projectCalendarUid = id(project.CalendarUID);
+  return {
+    format: 'mspxml',
+    version: text(project.SaveVersion),
+    schedules: [{ project: projectRow, wbs, activities, relationships }],
+    calendars: children(child(root, 'Calendars'), 'Calendar').flatMap(
+      (calendar) => toCalendar(calendar, projectCalendarUid) ?? []
+    ),
+    resources: children(child(root, 'Resources'), 'Resource').flatMap((resource) => toResource(resource) ?? []),
+    warnings,
+  };
+}
@@ -0,0 +1,410 @@
+/**
+ * Primavera PMXML Reader and Writer
+ * @governance DATA-001, DOC-002
+ *
+ * PMXML is the XML export of P6: an APIBusinessObjects root holding
+ * calendars and resources, and Project elements holding their WBS,
+ * Activity and Relationship elements (some exports put relationships at
+ * the root instead). Field names are those of the P6 API and ObjectIds are
+ * kept unchanged, as in XER. Durations, float and lag are hours, converted
+ * to days with the activity's calendar; percentages are fractions.
+ *
+ * writePmxml() writes imported or synced rows back out for P6 to import.
+ * The portal keeps no calendars, so durations are written at P6's default
+ * 8 hours per day and activities take the project's default calendar.
+ */
+
+import { escapeXml, isNil, parseXml, type XmlElement } from '../p6/xml';
+import { normalizeActivityStatus, normalizeActivityType, normalizeRelationshipType } from '../bff/p6Activities';
+import type {
+  ImportedActivityRow,
+  ImportedCalendar,
+  ImportedProjectRow,
+  ImportedRelationshipRow,
+  ImportedResource,
+  ImportedSchedule,
+  ImportedWbsRow,
+  ScheduleFile,
+} from './types';
+import { ScheduleFileError } from './errors';
+import { DEFAULT_HOURS_PER_DAY, date, days, earliest, id, num, text, weightedPercent } from './values';
+
+/** Namespace of the exports written here; readers accept any version */
+const PMXML_NAMESPACE = 'http://xmlns.oracle.com/Primavera/P6/V19.12/API/BusinessObjects';
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+type Fields = Record<string, string>;
+
+/** Leaf children of a business object by name; xsi:nil values are left out */
+function fields(element: XmlElement): Fields {
+  const values: Fields = {};
+  for (const child of element.children) {
+    if (child.children.length === 0 && !isNil(child)) values[child.name] = child.text;
+  }
+  return values;
+}
+
+const children = (element: XmlElement, name: string) => element.children.filter((child) => child.name === name);
+
+/** 0.255 -> 25.5 */
+function percent(value: string | null | undefined): number | null {
+  const fraction = num(value);
+  return fraction === null ? null : Math.round(fraction * 10000) / 100;
+}
+
+/** Percent complete of the activity's percent complete type */
+function percentComplete(activity: Fields): number | null {
+  const byType: Record<string, string | undefined> = {
+    Physical: activity.PhysicalPercentComplete,
+    Duration: activity.DurationPercentComplete,
+    Units: activity.UnitsPercentComplete,
+  };
+  return percent(byType[activity.PercentCompleteType]) ?? percent(activity.PercentComplete);
+}
+
+const RESOURCE_TYPES = new Set(['Labor', 'Nonlabor', 'Material']);
+
+// =============================================================================
+// READER
+// =============================================================================
+
+function toCalendar(element: XmlElement): ImportedCalendar | null {
+  const calendar = fields(element);
+  const objectId = id(calendar.ObjectId);
+  if (objectId === null) return null;
+  const hoursPerDay = num(calendar.HoursPerDay);
+  return {
+    objectId,
+    name: text(calendar.Name) ?? String(objectId),
+    hoursPerDay: hoursPerDay !== null && hoursPerDay > 0 ? hoursPerDay : null,
+    isDefault: calendar.IsDefault === 'true',
+  };
+}
+
+function toResource(element: XmlElement): ImportedResource | null {
+  const resource = fields(element);
+  const objectId = id(resource.ObjectId);
+  if (objectId === null) return null;
+  const type = text(resource.ResourceType);
+  return {
+    objectId,
+    code: text(resource.Id) ?? String(objectId),
+    name: text(resource.Name) ?? text(resource.Id) ?? String(objectId),
+    type: type !== null && RESOURCE_TYPES.has(type) ? type : null,
+  };
+}
+
+interface ProjectContext {
+  projectId: number;
+  /** WBS ObjectId of the project node, for activities directly under the project */
+  projectWbsId: number | null;
+  hoursPerDay: (calendarId: number | null) => number;
+  warnings: string[];
+}
+
+function toActivity(
+  activity: Fields,
+  { projectId, projectWbsId, hoursPerDay, warnings }: ProjectContext
+): ImportedActivityRow | null {
+  const objectId = id(activity.ObjectId);
+  const wbsId = id(activity.WBSObjectId) ?? projectWbsId;
+  const code = text(activity.Id) ?? String(objectId);
+  const plannedStart = date(activity.PlannedStartDate) ?? date(activity.StartDate);
+  const plannedFinish = date(activity.PlannedFinishDate) ?? date(activity.FinishDate);
+  if (objectId === null || wbsId === null || plannedStart === null || plannedFinish === null) {
+    warnings.push(`Skipped activity ${code}: missing object ID, WBS or planned dates`);
+    return null;
+  }
+
+  const perDay = hoursPerDay(id(activity.CalendarObjectId));
+  return {
+    object_id: objectId,
+    project_object_id: projectId,
+    wbs_object_id: wbsId,
+    activity_code: code,
+    activity_name: text(activity.Name) ?? code,
+    activity_type: text(activity.Type) ?? 'Task Dependent',
+    status: text(activity.Status),
+    percent_complete: percentComplete(activity),
+    planned_start: plannedStart,
+    planned_finish: plannedFinish,
+    actual_start: date(activity.ActualStartDate),
+    actual_finish: date(activity.ActualFinishDate),
+    planned_duration: days(num(activity.PlannedDuration), perDay),
+    remaining_duration: days(num(activity.RemainingDuration), perDay),
+    total_float: days(num(activity.TotalFloat), perDay),
+  };
+}
+
+interface FileContext {
+  calendars: Map<number, ImportedCalendar>;
+  /** Every relationship in the file, wherever it was written */
+  links: Fields[];
+  /** Every activity ObjectId in the file */
+  fileActivityIds: Set<number | null>;
+  warnings: string[];
+}
+
+function toSchedule(
+  element: XmlElement,
+  { calendars, links, fileActivityIds, warnings }: FileContext
+): ImportedSchedule | null {
+  const project = fields(element);
+  const projectId = id(project.ObjectId);
+  const projectCode = text(project.Id);
+  if (projectId === null || projectCode === null) {
+    warnings.push('Skipped a Project without ObjectId or Id');
+    return null;
+  }
+
+  const defaultCalendar = [...calendars.values()].find((calendar) => calendar.isDefault) ?? null;
+  const projectCalendar = calendars.get(id(project.ActivityDefaultCalendarObjectId) ?? -1) ?? defaultCalendar;
+  const context: ProjectContext = {
+    projectId,
+    projectWbsId: id(project.WBSObjectId),
+    hoursPerDay: (calendarId) =>
+      (calendarId !== null ? calendars.get(calendarId)?.hoursPerDay : null) ??
+      projectCalendar?.hoursPerDay ??
+      DEFAULT_HOURS_PER_DAY,
+    warnings,
+  };
+
+  const wbsElements = children(element, 'WBS').map(fields);
+  const wbsIds = new Set(wbsElements.map((wbs) => id(wbs.ObjectId)));
+  const wbs = wbsElements.flatMap((row): ImportedWbsRow[] => {
+    const objectId = id(row.ObjectId);
+    if (objectId === null) return [];
+    // Top-level elements name the project (or its WBS node) as parent
+    const parent = id(row.ParentObjectId);
+    return [
+      {
+        object_id: objectId,
+        project_object_id: projectId,
+        parent_object_id: parent !== null && wbsIds.has(parent) ? parent : null,
+        code: text(row.Code) ?? String(objectId),
+        name: text(row.Name) ?? text(row.Code) ?? String(objectId),
+        status: text(row.Status) ?? 'Active',
+        sequence_number: num(row.SequenceNumber) ?? 0,
+      },
+    ];
+  });
+
+  const activityElements = children(element, 'Activity').map(fields);
+  const activities = activityElements.flatMap((activity) => toActivity(activity, context) ?? []);
+  const activityIds = new Set(activities.map((activity) => activity.object_id));
+  const activityCalendars = new Map(
+    activityElements.map((activity) => [id(activity.ObjectId), context.hoursPerDay(id(activity.CalendarObjectId))])
+  );
+
+  // Links belong to the successor's project; both ends must be in the file
+  let external = 0;
+  const relationships = links.flatMap((link): ImportedRelationshipRow[] => {
+    const objectId = id(link.ObjectId);
+    const successor = id(link.SuccessorActivityObjectId);
+    const predecessor = id(link.PredecessorActivityObjectId);
+    if (objectId === null || successor === null || predecessor === null || !activityIds.has(successor)) return [];
+    if (!fileActivityIds.has(predecessor)) {
+      external += 1;
+      return [];
+    }
+    return [
+      {
+        object_id: objectId,
+        project_object_id: projectId,
+        predecessor_activity_object_id: predecessor,
+        successor_activity_object_id: successor,
+        type: text(link.Type) ?? 'Finish to Start',
+        lag: days(num(link.Lag), activityCalendars.get(successor) ?? context.hoursPerDay(null)) ?? 0,
+      },
+    ];
+  });
+  if (external) {
+    warnings.push(
+      `${projectCode}: skipped ${external} ${external === 1 ? 'relationship' : 'relationships'} to activities outside the file`
+    );
+  }
+
+  const projectRow: ImportedProjectRow = {
+    object_id: projectId,
+    project_code: projectCode,
+    project_name: text(project.Name) ?? projectCode,
+    status: text(project.Status),
+    percent_complete: weightedPercent(activities),
+    planned_start: date(project.PlannedStartDate) ?? earliest(activities.map((activity) => activity.planned_start)),
+    planned_finish: date(project.ScheduledFinishDate) ?? date(project.MustFinishByDate),
+    actual_start: earliest(activities.map((activity) => activity.actual_start)),
+    data_date: date(project.DataDate),
+  };
+
+  return { project: projectRow, wbs, activities, relationships };
+}
+
+/**
+ * Read every project in a PMXML document. A document without Project
+ * elements is rejected; business objects that cannot be mapped are skipped
+ * with a warning.
+ */
+export function parsePmxml(source: string): ScheduleFile {
+  const root = parseXml(source);
+  if (root.name !== 'APIBusinessObjects') {
+    throw new ScheduleFileError(`Not a P6 XML file: the root element is <${root.name}>`);
+  }
+  const projects = children(root, 'Project');
+  if (projects.length === 0) {
+    throw new ScheduleFileError('The file contains no Project elements');
+  }
+
+  const calendarList = [root, ...projects]
+    .flatMap((element) => children(element, 'Calendar'))
+    .flatMap((calendar) => toCalendar(calendar) ?? []);
+  const context: FileContext = {
+    calendars: new Map(calendarList.map((calendar) => [calendar.objectId, calendar])),
+    // A link between projects can be written under both
+    links: [
+      ...new Map(
+        [...projects, root]
+          .flatMap((element) => children(element, 'Relationship').map(fields))
+          .map((link) => [link.ObjectId, link])
+      ).values(),
+    ],
+    fileActivityIds: new Set(
+      projects.flatMap((project) => children(project, 'Activity').map((activity) => id(fields(activity).ObjectId)))
+    ),
+    warnings: [],
+  };
+
+  return {
+    format: 'pmxml',
+    version: root.attributes.xmlns?.match(/\/V(\d+(?:\.\d+)*)\//)?.[1] ?? null,
+    schedules: projects.flatMap((project) => toSchedule(project, context) ?? []),
+    calendars: calendarList,
+    resources: children(root, 'Resource').flatMap((resource) => toResource(resource) ?? []),
+    warnings: context.warnings,
+  };
+}
+
+// =============================================================================
+// WRITER
+// =============================================================================
+
+const STATUS_NAMES = { not_started: 'Not Started', in_progress: 'In Progress', complete: 'Completed' } as const;
+
+const RELATIONSHIP_NAMES = {
+  FS: 'Finish to Start',
+  SS: 'Start to Start',
+  FF: 'Finish to Finish',
+  SF: 'Start to Finish',
+} as const;
+
+const hours = (value: number | null) => (value === null ? null : Math.round(value * DEFAULT_HOURS_PER_DAY * 100) / 100);
+
+/**
+ * One business object; fields are listed in the schema's (alphabetical)
+ * order and null fields are left out
+ */
+function businessObject(
+  name: string,
+  values: [string, string | number | null][],
+  indent: string,
+  nested: string[] = []
+): string[] {
+  return [
+    `${indent}<${name}>`,
+    ...values.flatMap(([field, value]) =>
+      value === null ? [] : [`${indent}  <${field}>${escapeXml(String(value))}</${field}>`]
+    ),
+    ...nested,
+    `${indent}</${name}>`,
+  ];
+}
+
+function writeProject({ project, wbs, activities, relationships }: ImportedSchedule): string[] {
+  const wbsLines = wbs.flatMap((row) =>
+    businessObject(
+      'WBS',
+      [
+        ['Code', row.code],
+        ['Name', row.name],
+        ['ObjectId', row.object_id],
+        // P6 parents top-level elements to the project
+        ['ParentObjectId', row.parent_object_id ?? project.object_id],
+        ['ProjectObjectId', project.object_id],
+        ['SequenceNumber', row.sequence_number],
+        ['Status', row.status],
+      ],
+      '    '
+    )
+  );
+  const activityLines = activities.flatMap((row) =>
+    businessObject(
+      'Activity',
+      [
+        ['ActualFinishDate', date(row.actual_finish)],
+        ['ActualStartDate', date(row.actual_start)],
+        ['Id', row.activity_code],
+        ['Name', row.activity_name],
+        ['ObjectId', row.object_id],
+        ['PercentCompleteType', 'Physical'],
+        [
+          'PhysicalPercentComplete',
+          row.percent_complete === null ? null : Math.round(row.percent_complete * 100) / 10000,
+        ],
+        ['PlannedDuration', hours(row.planned_duration)],
+        ['PlannedFinishDate', date(row.planned_finish)],
+        ['PlannedStartDate', date(row.planned_start)],
+        ['ProjectObjectId', project.object_id],
+        ['RemainingDuration', hours(row.remaining_duration)],
+        ['Status', STATUS_NAMES[normalizeActivityStatus(row)]],
+        ['TotalFloat', hours(row.total_float)],
+        ['Type', normalizeActivityType(row.activity_type)],
+        ['WBSObjectId', row.wbs_object_id],
+      ],
+      '    '
+    )
+  );
+  const relationshipLines = relationships.flatMap((row) =>
+    businessObject(
+      'Relationship',
+      [
+        ['Lag', hours(row.lag ?? 0)],
+        ['ObjectId', row.object_id],
+        ['PredecessorActivityObjectId', row.predecessor_activity_object_id],
+        ['SuccessorActivityObjectId', row.successor_activity_object_id],
+        ['SuccessorProjectObjectId', project.object_id],
+        ['Type', RELATIONSHIP_NAMES[normalizeRelationshipType(row.type)]],
+      ],
+      '    '
+    )
+  );
+
+  return businessObject(
+    'Project',
+    [
+      ['DataDate', date(project.data_date)],
+      ['Id', project.project_code],
+      ['Name', project.project_name],
+      ['ObjectId', project.object_id],
+      ['PlannedStartDate', date(project.planned_start)],
+      ['ScheduledFinishDate', date(project.planned_finish)],
+      ['Status', project.status],
+    ],
+    '  ',
+    [...wbsLines, ...activityLines, ...relationshipLines]
+  );
+}
+
+/**
+ * Write schedules as a PMXML document P6 can import
+ */
+export function writePmxml(schedules: ImportedSchedule[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<APIBusinessObjects xmlns="${PMXML_NAMESPACE}">`,
+    ...schedules.flatMap(writeProject),
+    '</APIBusinessObjects>',
+    '',
+  ].join('\n');
+}
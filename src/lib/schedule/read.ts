@@ -0,0 +1,68 @@
+/**
+ * Schedule File Detection
+ * @governance DATA-001, DOC-002
+ *
+ * Picks the reader for an uploaded file from its content rather than its
+ * name: XER files open with an ERMHDR line, PMXML documents with an
+ * APIBusinessObjects root and MSP XML with a Project root in the Microsoft
+ * Project namespace.
+ */
+
+import { parseMspXml } from './mspxml';
+import { parsePmxml } from './pmxml';
+import type { ScheduleFile, ScheduleFileFormat } from './types';
+import { decodeXer, parseXer } from './xer';
+
+/** Enough of the file for the prolog, comments and the root start tag */
+const SNIFF_BYTES = 4096;
+
+const MSP_NAMESPACE = 'http://schemas.microsoft.com/project';
+
+/** First bytes as windows-1252, which decodes anything; a UTF-8 BOM is dropped */
+function sniff(bytes: Uint8Array, length: number): string {
+  return new TextDecoder('windows-1252').decode(bytes.subarray(0, length)).replace(/^ï»¿/, '');
+}
+
+/**
+ * Decode an XML document with the encoding its declaration names (UTF-8
+ * when it names none or one the runtime does not know)
+ */
+export function decodeXml(bytes: Uint8Array): string {
+  const encoding = sniff(bytes, 200).match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([\w.:-]+)["']/)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * The format of a schedule file, or null when it is none of the supported ones
+ */
+export function detectScheduleFormat(bytes: Uint8Array): ScheduleFileFormat | null {
+  const head = sniff(bytes, SNIFF_BYTES);
+  if (/^\s*ERMHDR/.test(head)) return 'xer';
+
+  const root = head
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '')
+    .match(/^\s*<(?:[\w.-]+:)?([\w.-]+)([^>]*)>/);
+  if (!root) return null;
+  const [, name, attributes] = root;
+  if (name === 'APIBusinessObjects') return 'pmxml';
+  if (name === 'Project' && attributes.includes(MSP_NAMESPACE)) return 'mspxml';
+  return null;
+}
+
+/**
+ * Read a schedule file of a known format
+ */
+export function readScheduleFile(bytes: Uint8Array, format: ScheduleFileFormat): ScheduleFile {
+  switch (format) {
+    case 'xer':
+      return parseXer(decodeXer(bytes));
+    case 'pmxml':
+      return parsePmxml(decodeXml(bytes));
+    case 'mspxml':
+      return parseMspXml(decodeXml(bytes));
+  }
+}
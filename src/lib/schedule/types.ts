@@ -0,0 +1,89 @@
+/**
+ * Schedule File Types
+ * @governance DATA-001, DOC-002
+ *
+ * A schedule read from a file rather than P6 Web Services. Each project is
+ * held in the row shapes of the tables the P6 BFF routes read, so loading
+ * an import writes exactly what a P6 sync would and the WBS tree, Gantt and
+ * dashboards need no import-specific path. scheduleView() maps the rows
+ * onto WBSNode, GanttActivity and ActivityRelationship the way those routes
+ * do.
+ *
+ * Durations, float and lag are in days, converted with the hours per day
+ * of the activity's calendar. Values the file leaves empty are null
+ * (DATA-001).
+ */
+
+import type { ActivityTableRow, RelationshipTableRow } from '../bff/p6Activities';
+import type { WbsTableRow } from '../bff/p6Wbs';
+
+// =============================================================================
+// TABLE ROWS
+// =============================================================================
+
+/**
+ * Projects table columns an import writes (client_demo.projects / orion_core.projects)
+ */
+export interface ImportedProjectRow {
+  object_id: number;
+  project_code: string;
+  project_name: string;
+  status: string | null;
+  /** Planned-duration weighted over the project's activities */
+  percent_complete: number | null;
+  planned_start: string | null;
+  planned_finish: string | null;
+  actual_start: string | null;
+  data_date: string | null;
+}
+
+/** The database assigns `id` */
+export type ImportedWbsRow = Omit<WbsTableRow, 'id'>;
+
+export type ImportedActivityRow = Omit<ActivityTableRow, 'id'>;
+
+export interface ImportedRelationshipRow extends RelationshipTableRow {
+  object_id: number;
+  /** Project of the successor activity */
+  project_object_id: number;
+}
+
+// =============================================================================
+// FILE CONTENTS
+// =============================================================================
+
+export interface ImportedSchedule {
+  project: ImportedProjectRow;
+  wbs: ImportedWbsRow[];
+  activities: ImportedActivityRow[];
+  relationships: ImportedRelationshipRow[];
+}
+
+export interface ImportedCalendar {
+  objectId: number;
+  name: string;
+  /** Null when the file does not say; conversions then assume 8 */
+  hoursPerDay: number | null;
+  isDefault: boolean;
+}
+
+export interface ImportedResource {
+  objectId: number;
+  code: string;
+  name: string;
+  /** Labor, Nonlabor or Material */
+  type: string | null;
+}
+
+export type ScheduleFileFormat = 'xer' | 'pmxml' | 'mspxml';
+
+export interface ScheduleFile {
+  format: ScheduleFileFormat;
+  /** Version of the exporting tool, from the file header */
+  version: string | null;
+  schedules: ImportedSchedule[];
+  calendars: ImportedCalendar[];
+  resources: ImportedResource[];
+  /** Rows skipped or adjusted while reading, for the import summary */
+  warnings: string[];
+}
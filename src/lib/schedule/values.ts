@@ -0,0 +1,53 @@
+/**
+ * Schedule File Values
+ * @governance DATA-001, DOC-002
+ *
+ * Field conversions shared by the XER and XML readers. Every reader gets
+ * raw strings; blanks and unparseable values become null, never zero.
+ */
+
+import type { ImportedActivityRow } from './types';
+
+/** P6's fallback when a calendar does not state its hours per day */
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+export const text = (value: string | null | undefined) => (value && value.trim() !== '' ? value.trim() : null);
+
+export function num(value: string | null | undefined): number | null {
+  const raw = text(value);
+  if (raw === null) return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export const id = (value: string | null | undefined) => {
+  const parsed = num(value);
+  return parsed !== null && Number.isInteger(parsed) ? parsed : null;
+};
+
+/** "2025-01-06 08:00" or "2025-01-06T08:00:00+00:00" -> "2025-01-06T08:00:00" */
+export function date(value: string | null | undefined): string | null {
+  const match = text(value)?.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+  const [, day, hours = '00', minutes = '00', seconds = '00'] = match;
+  return `${day}T${hours}:${minutes}:${seconds}`;
+}
+
+export const days = (hours: number | null, hoursPerDay: number) =>
+  hours === null ? null : Math.round((hours / hoursPerDay) * 100) / 100;
+
+export const earliest = (values: (string | null)[]) =>
+  values.reduce<string | null>((min, value) => (value !== null && (min === null || value < min) ? value : min), null);
+
+/** Project percent complete, weighted by planned duration */
+export function weightedPercent(activities: ImportedActivityRow[]): number | null {
+  let weight = 0;
+  let earned = 0;
+  for (const activity of activities) {
+    if (activity.percent_complete === null) continue;
+    const duration = Math.max(activity.planned_duration ?? 0, 0);
+    weight += duration;
+    earned += duration * activity.percent_complete;
+  }
+  return weight > 0 ? Math.round((earned / weight) * 100) / 100 : null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Imported Schedule View
+ * @governance DATA-001, DOC-002
+ *
+ * Maps an imported schedule onto the WBSNode, GanttActivity and
+ * ActivityRelationship shapes with the same functions the P6 BFF routes
+ * use, so a file shows exactly as it will once loaded.
+ */
+
+import type { ActivityRelationship, GanttActivity } from '@/components/gantt/types';
+import type { WBSNode } from '@/components/wbs-tree/types';
+import { relationshipLinks, toActivityRelationship, toGanttActivity } from '../bff/p6Activities';
+import { buildWbsHierarchy } from '../bff/p6Wbs';
+import type { ImportedSchedule } from './types';
+
+export interface ScheduleView {
+  wbs: WBSNode[];
+  activities: GanttActivity[];
+  relationships: ActivityRelationship[];
+}
+
+/** Rows have no database id yet; views key them by object ID */
+const importedId = (kind: string, objectId: number) => `import:${kind}:${objectId}`;
+
+export function scheduleView(schedule: ImportedSchedule): ScheduleView {
+  const { predecessors, successors } = relationshipLinks(schedule.relationships);
+
+  const { nodes } = buildWbsHierarchy(
+    schedule.wbs.map((row) => ({ ...row, id: importedId('wbs', row.object_id) })),
+    schedule.activities.map((activity) => ({
+      object_id: activity.object_id,
+      wbs_object_id: activity.wbs_object_id,
+      percent_complete: activity.percent_complete,
+      budget_at_completion: null,
+      planned_total_cost: null,
+      actual_total_cost: null,
+      remaining_total_cost: null,
+      planned_start: activity.planned_start,
+      planned_finish: activity.planned_finish,
+    }))
+  );
+
+  return {
+    wbs: nodes,
+    activities: schedule.activities.map((activity) =>
+      toGanttActivity({ ...activity, id: importedId('activity', activity.object_id) }, predecessors, successors)
+    ),
+    relationships: schedule.relationships.map(toActivityRelationship),
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Primavera XER Reader
+ * @governance DATA-001, DOC-002
+ *
+ * Reads the tab-separated XER export of P6 (ERMHDR header, then per table
+ * a %T name line, a %F field line and %R row lines) and maps PROJECT,
+ * PROJWBS, TASK, TASKPRED, CALENDAR and RSRC onto ImportedSchedule rows.
+ *
+ * XER stores object IDs as P6 assigns them, so they become the object_id
+ * columns unchanged. The project node of PROJWBS carries the project name
+ * and status and is not itself a WBS element; its children become roots.
+ * Durations, float and lag are hours in XER and are converted to days with
+ * the activity's calendar (the successor's, for lag).
+ */
+
+import type {
+  ImportedActivityRow,
+  ImportedCalendar,
+  ImportedProjectRow,
+  ImportedRelationshipRow,
+  ImportedResource,
+  ImportedSchedule,
+  ImportedWbsRow,
+  ScheduleFile,
+} from './types';
+import { ScheduleFileError } from './errors';
+import { DEFAULT_HOURS_PER_DAY, date, days, earliest, id, num, text, weightedPercent } from './values';
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+export class XerParseError extends ScheduleFileError {
+  constructor(
+    message: string,
+    /** 1-based line number, or 0 for the whole file */
+    readonly line: number
+  ) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = 'XerParseError';
+  }
+}
+
+// =============================================================================
+// TABLES
+// =============================================================================
+
+export type XerRow = Record<string, string>;
+
+export interface XerTables {
+  /** Exporting P6 version from the ERMHDR line */
+  version: string | null;
+  tables: Map<string, XerRow[]>;
+}
+
+/**
+ * XER files are written in the exporting machine's code page, which for P6
+ * on Windows is almost always windows-1252. UTF-8 is tried first because it
+ * fails loudly on anything else.
+ */
+export function decodeXer(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Split an XER file into its tables, each row keyed by field name. Empty
+ * values stay empty strings here.
+ */
+export function readXerTables(source: string): XerTables {
+  const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const first = lines.findIndex((line) => line.trim() !== '');
+  if (first === -1 || !lines[first].startsWith('ERMHDR')) {
+    throw new XerParseError('Not an XER file: missing ERMHDR header', first + 1);
+  }
+
+  const tables = new Map<string, XerRow[]>();
+  let table: string | null = null;
+  let fields: string[] | null = null;
+
+  for (let index = first + 1; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === '') continue;
+    const [marker, ...values] = line.split('\t');
+
+    switch (marker) {
+      case '%T':
+        table = values[0]?.trim() ?? '';
+        if (!table) throw new XerParseError('Table line without a name', index + 1);
+        fields = null;
+        if (!tables.has(table)) tables.set(table, []);
+        break;
+      case '%F':
+        if (!table) throw new XerParseError('Field line outside a table', index + 1);
+        fields = values.map((field) => field.trim());
+        break;
+      case '%R': {
+        if (!table || !fields) throw new XerParseError(`Row before the field line of ${table ?? 'a table'}`, index + 1);
+        const row: XerRow = {};
+        fields.forEach((field, position) => (row[field] = values[position] ?? ''));
+        tables.get(table)!.push(row);
+        break;
+      }
+      case '%E':
+        return { version: lines[first].split('\t')[1]?.trim() || null, tables };
+      default:
+        throw new XerParseError(`Unexpected line marker ${JSON.stringify(marker.slice(0, 8))}`, index + 1);
+    }
+  }
+
+  // Truncated files lose %E; whatever was read completely is still usable
+  return { version: lines[first].split('\t')[1]?.trim() || null, tables };
+}
+
+// =============================================================================
+// CODES
+// =============================================================================
+
+/** PROJWBS status_code, shared by the project node and WBS elements */
+const WBS_STATUSES: Record<string, string> = {
+  WS_Open: 'Active',
+  WS_Planned: 'Planned',
+  WS_Whatif: 'What-If',
+  WS_Requested: 'Requested',
+  WS_Closed: 'Inactive',
+};
+
+const TASK_STATUSES: Record<string, string> = {
+  TK_NotStart: 'Not Started',
+  TK_Active: 'In Progress',
+  TK_Complete: 'Completed',
+};
+
+const RESOURCE_TYPES: Record<string, string> = {
+  RT_Labor: 'Labor',
+  RT_Equip: 'Nonlabor',
+  RT_Mat: 'Material',
+};
+
+// =============================================================================
+// MAPPING
+// =============================================================================
+
+function toCalendar(row: XerRow): ImportedCalendar | null {
+  const objectId = id(row.clndr_id);
+  if (objectId === null) return null;
+  const hoursPerDay = num(row.day_hr_cnt);
+  return {
+    objectId,
+    name: text(row.clndr_name) ?? String(objectId),
+    hoursPerDay: hoursPerDay !== null && hoursPerDay > 0 ? hoursPerDay : null,
+    isDefault: row.default_flag === 'Y',
+  };
+}
+
+function toResource(row: XerRow): ImportedResource | null {
+  const objectId = id(row.rsrc_id);
+  if (objectId === null) return null;
+  return {
+    objectId,
+    code: text(row.rsrc_short_name) ?? String(objectId),
+    name: text(row.rsrc_name) ?? text(row.rsrc_short_name) ?? String(objectId),
+    type: RESOURCE_TYPES[row.rsrc_type] ?? text(row.rsrc_type),
+  };
+}
+
+/**
+ * Percent complete as P6 shows it: duration percent for CP_Drtn activities,
+ * physical percent otherwise (units percent needs TASKRSRC, which is not read)
+ */
+function percentComplete(row: XerRow): number | null {
+  if (row.complete_pct_type === 'CP_Drtn') {
+    if (row.status_code === 'TK_Complete') return 100;
+    const planned = num(row.target_drtn_hr_cnt);
+    const remaining = num(row.remain_drtn_hr_cnt);
+    if (planned !== null && remaining !== null && planned > 0) {
+      return Math.round(Math.min(100, Math.max(0, ((planned - remaining) / planned) * 100)) * 100) / 100;
+    }
+    return row.status_code === 'TK_NotStart' ? 0 : null;
+  }
+  return num(row.phys_complete_pct);
+}
+
+interface ProjectContext {
+  projectId: number;
+  hoursPerDay: (calendarId: number | null) => number;
+  warnings: string[];
+}
+
+function toActivity(row: XerRow, { projectId, hoursPerDay, warnings }: ProjectContext): ImportedActivityRow | null {
+  const objectId = id(row.task_id);
+  const wbsId = id(row.wbs_id);
+  const code = text(row.task_code) ?? String(objectId);
+  // Planned dates; an unscheduled activity still has early dates
+  const plannedStart = date(row.target_start_date) ?? date(row.early_start_date);
+  const plannedFinish = date(row.target_end_date) ?? date(row.early_end_date);
+  if (objectId === null || wbsId === null || plannedStart === null || plannedFinish === null) {
+    warnings.push(`Skipped activity ${code}: missing object ID, WBS or planned dates`);
+    return null;
+  }
+
+  const perDay = hoursPerDay(id(row.clndr_id));
+  return {
+    object_id: objectId,
+    project_object_id: projectId,
+    wbs_object_id: wbsId,
+    activity_code: code,
+    activity_name: text(row.task_name) ?? code,
+    activity_type: text(row.task_type) ?? 'TT_Task',
+    status: TASK_STATUSES[row.status_code] ?? text(row.status_code),
+    percent_complete: percentComplete(row),
+    planned_start: plannedStart,
+    planned_finish: plannedFinish,
+    actual_start: date(row.act_start_date),
+    actual_finish: date(row.act_end_date),
+    planned_duration: days(num(row.target_drtn_hr_cnt), perDay),
+    remaining_duration: days(num(row.remain_drtn_hr_cnt), perDay),
+    total_float: days(num(row.total_float_hr_cnt), perDay),
+  };
+}
+
+function toSchedule(
+  project: XerRow,
+  tables: Map<string, XerRow[]>,
+  calendars: Map<number, ImportedCalendar>,
+  warnings: string[]
+): ImportedSchedule | null {
+  const projectId = id(project.proj_id);
+  const projectCode = text(project.proj_short_name);
+  if (projectId === null || projectCode === null) {
+    warnings.push('Skipped a PROJECT row without proj_id or proj_short_name');
+    return null;
+  }
+  const ofProject = (table: string) => (tables.get(table) ?? []).filter((row) => id(row.proj_id) === projectId);
+
+  const defaultCalendar = [...calendars.values()].find((calendar) => calendar.isDefault) ?? null;
+  const projectCalendar = calendars.get(id(project.clndr_id) ?? -1) ?? defaultCalendar;
+  const context: ProjectContext = {
+    projectId,
+    hoursPerDay: (calendarId) =>
+      (calendarId !== null ? calendars.get(calendarId)?.hoursPerDay : null) ??
+      projectCalendar?.hoursPerDay ??
+      DEFAULT_HOURS_PER_DAY,
+    warnings,
+  };
+
+  const wbsRows = ofProject('PROJWBS');
+  const projectNode = wbsRows.find((row) => row.proj_node_flag === 'Y') ?? null;
+  const projectNodeId = projectNode ? id(projectNode.wbs_id) : null;
+
+  const wbs = wbsRows.flatMap((row): ImportedWbsRow[] => {
+    const objectId = id(row.wbs_id);
+    if (row === projectNode || objectId === null) return [];
+    const parent = id(row.parent_wbs_id);
+    return [
+      {
+        object_id: objectId,
+        project_object_id: projectId,
+        parent_object_id: parent === projectNodeId ? null : parent,
+        code: text(row.wbs_short_name) ?? String(objectId),
+        name: text(row.wbs_name) ?? text(row.wbs_short_name) ?? String(objectId),
+        status: WBS_STATUSES[row.status_code] ?? text(row.status_code) ?? 'Active',
+        sequence_number: num(row.seq_num) ?? 0,
+      },
+    ];
+  });
+
+  const activities = ofProject('TASK').flatMap((row) => toActivity(row, context) ?? []);
+  const activityCalendars = new Map(
+    ofProject('TASK').map((row) => [id(row.task_id), context.hoursPerDay(id(row.clndr_id))])
+  );
+
+  // Links are stored on the successor's project; both ends must be in the file
+  const taskIds = new Set((tables.get('TASK') ?? []).map((row) => id(row.task_id)));
+  let external = 0;
+  const relationships = ofProject('TASKPRED').flatMap((row): ImportedRelationshipRow[] => {
+    const objectId = id(row.task_pred_id);
+    const successor = id(row.task_id);
+    const predecessor = id(row.pred_task_id);
+    if (objectId === null || successor === null || predecessor === null) return [];
+    if (!taskIds.has(successor) || !taskIds.has(predecessor)) {
+      external += 1;
+      return [];
+    }
+    return [
+      {
+        object_id: objectId,
+        project_object_id: projectId,
+        predecessor_activity_object_id: predecessor,
+        successor_activity_object_id: successor,
+        type: text(row.pred_type) ?? 'PR_FS',
+        lag: days(num(row.lag_hr_cnt), activityCalendars.get(successor) ?? context.hoursPerDay(null)) ?? 0,
+      },
+    ];
+  });
+  if (external) {
+    warnings.push(
+      `${projectCode}: skipped ${external} ${external === 1 ? 'relationship' : 'relationships'} to activities outside the file`
+    );
+  }
+
+  const projectRow: ImportedProjectRow = {
+    object_id: projectId,
+    project_code: projectCode,
+    project_name: text(projectNode?.wbs_name) ?? projectCode,
+    status: projectNode ? (WBS_STATUSES[projectNode.status_code] ?? text(projectNode.status_code)) : null,
+    percent_complete: weightedPercent(activities),
+    planned_start: date(project.plan_start_date) ?? earliest(activities.map((activity) => activity.planned_start)),
+    planned_finish: date(project.scd_end_date) ?? date(project.plan_end_date),
+    actual_start: earliest(activities.map((activity) => activity.actual_start)),
+    data_date: date(project.last_recalc_date) ?? date(project.next_data_date),
+  };
+
+  return { project: projectRow, wbs, activities, relationships };
+}
+
+// =============================================================================
+// READER
+// =============================================================================
+
+/**
+ * Read every project in an XER file. An XER without a PROJECT table is
+ * rejected; rows that cannot be mapped are skipped with a warning.
+ */
+export function parseXer(source: string): ScheduleFile {
+  const { version, tables } = readXerTables(source);
+  const projects = tables.get('PROJECT') ?? [];
+  if (projects.length === 0) {
+    throw new XerParseError('The file contains no PROJECT table rows', 0);
+  }
+
+  const warnings: string[] = [];
+  const calendarList = (tables.get('CALENDAR') ?? []).flatMap((row) => toCalendar(row) ?? []);
+  const calendars = new Map(calendarList.map((calendar) => [calendar.objectId, calendar]));
+
+  return {
+    format: 'xer',
+    version,
+    schedules: projects.flatMap((project) => toSchedule(project, tables, calendars, warnings) ?? []),
+    calendars: calendarList,
+    resources: (tables.get('RSRC') ?? []).flatMap((row) => toResource(row) ?? []),
+    warnings,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * ORION PMS Runtime Schema Validation
+ * @governance DATA-001, DOC-002
+ *
+ * Minimal schema combinators used to check backend responses against the
+ * shapes declared in types.ts. A missing or mistyped field is a contract
+ * violation - we fail loudly rather than render `undefined` as 0 or "NaN%".
+ * Fields the backend sends that we don't declare are reported as drift.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single mismatch between a response and its schema
+ * - violation: declared field missing or of the wrong type
+ * - unknown_field: backend sent a field the frontend does not declare
+ */
+export interface SchemaIssue {
+  kind: 'violation' | 'unknown_field';
+  /** JSON path, e.g. `projects[3].spi` */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+interface ValidationContext {
+  issues: SchemaIssue[];
+}
+
+export interface Schema<T> {
+  /** Human readable type description used in issue messages */
+  readonly description: string;
+  /** Collect issues for `value` at `path` */
+  check(value: unknown, path: string, ctx: ValidationContext): void;
+  /** Phantom field carrying the validated TypeScript type */
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export interface ValidationResult<T> {
+  /** True when there are no violations (unknown fields are allowed) */
+  valid: boolean;
+  data: T;
+  violations: SchemaIssue[];
+  unknownFields: SchemaIssue[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    check(value, path, ctx) {
+      if (!test(value)) {
+        ctx.issues.push({ kind: 'violation', path: path || '(root)', expected: description, received: describeValue(value) });
+      }
+    },
+  };
+}
+
+// =============================================================================
+// COMBINATORS
+// =============================================================================
+
+export const s = {
+  string: (): Schema<string> => primitive('string', (v) => typeof v === 'string'),
+
+  /** Finite number - NaN and Infinity are violations */
+  number: (): Schema<number> => primitive('number', (v) => typeof v === 'number' && Number.isFinite(v)),
+
+  boolean: (): Schema<boolean> => primitive('boolean', (v) => typeof v === 'boolean'),
+
+  /** Accept anything (for fields whose shape the frontend does not use) */
+  unknown: (): Schema<unknown> => primitive('unknown', () => true),
+
+  literal: <const L extends string | number | boolean>(expected: L): Schema<L> =>
+    primitive(JSON.stringify(expected), (v) => v === expected),
+
+  enum: <const E extends readonly string[]>(values: E): Schema<E[number]> =>
+    primitive(values.map((v) => `'${v}'`).join(' | '), (v) => typeof v === 'string' && values.includes(v)),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> => ({
+    description: `${inner.description} | null`,
+    check(value, path, ctx) {
+      if (value !== null) inner.check(value, path, ctx);
+    },
+  }),
+
+  /** Field may be absent; present values must match */
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    description: `${inner.description} | undefined`,
+    check(value, path, ctx) {
+      if (value !== undefined) inner.check(value, path, ctx);
+    },
+  }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> => ({
+    description: `${item.description}[]`,
+    check(value, path, ctx) {
+      if (!Array.isArray(value)) {
+        ctx.issues.push({ kind: 'violation', path: path || '(root)', expected: `${item.description}[]`, received: describeValue(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, joinPath(path, index), ctx));
+    },
+  }),
+
+  record: <T>(valueSchema: Schema<T>): Schema<Record<string, T>> => ({
+    description: `Record<string, ${valueSchema.description}>`,
+    check(value, path, ctx) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        ctx.issues.push({ kind: 'violation', path: path || '(root)', expected: 'object', received: describeValue(value) });
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        valueSchema.check(entry, joinPath(path, key), ctx);
+      }
+    },
+  }),
+
+  object: <Shape extends Record<string, Schema<unknown>>>(
+    shape: Shape
+  ): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+    description: 'object',
+    check(value, path, ctx) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        ctx.issues.push({ kind: 'violation', path: path || '(root)', expected: 'object', received: describeValue(value) });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        fieldSchema.check(record[key], joinPath(path, key), ctx);
+      }
+      for (const key of Object.keys(record)) {
+        if (!(key in shape)) {
+          ctx.issues.push({ kind: 'unknown_field', path: joinPath(path, key), expected: 'undeclared', received: describeValue(record[key]) });
+        }
+      }
+    },
+  }),
+
+  union: <T extends Schema<unknown>[]>(...options: T): Schema<Infer<T[number]>> => ({
+    description: options.map((o) => o.description).join(' | '),
+    check(value, path, ctx) {
+      let best: SchemaIssue[] | null = null;
+      for (const option of options) {
+        const attempt: ValidationContext = { issues: [] };
+        option.check(value, path, attempt);
+        const violations = attempt.issues.filter((issue) => issue.kind === 'violation');
+        if (violations.length === 0) {
+          ctx.issues.push(...attempt.issues);
+          return;
+        }
+        if (!best || violations.length < best.length) best = attempt.issues;
+      }
+      ctx.issues.push(...(best ?? []));
+    },
+  }),
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const ctx: ValidationContext = { issues: [] };
+  schema.check(value, '', ctx);
+  const violations = ctx.issues.filter((issue) => issue.kind === 'violation');
+  const unknownFields = ctx.issues.filter((issue) => issue.kind === 'unknown_field');
+
+  return {
+    valid: violations.length === 0,
+    data: value as T,
+    violations,
+    unknownFields,
+  };
+}
+
+/**
+ * Render issues as `path: expected X, received Y` lines
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.kind === 'unknown_field'
+        ? `${issue.path}: unexpected field (${issue.received})`
+        : `${issue.path}: expected ${issue.expected}, received ${issue.received}`
+    )
+    .join('\n');
+}
@@ -0,0 +1,89 @@
+/**
+ * Schema Drift Registry
+ * @governance DATA-001, DOC-002
+ *
+ * Collects mismatches between backend responses and the frontend schemas
+ * so the dev overlay can list them. One entry per endpoint path (query
+ * string stripped), updated on every validated response.
+ */
+
+import type { SchemaIssue } from './schema';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SchemaDrift {
+  /** Endpoint path without query string */
+  endpoint: string;
+  /** Declared fields missing or mistyped (the response was rejected) */
+  violations: SchemaIssue[];
+  /** Fields the backend sends that types.ts does not declare */
+  unknownFields: SchemaIssue[];
+  /** Number of responses with drift from this endpoint */
+  occurrences: number;
+  /** ISO timestamp of the latest occurrence */
+  lastSeen: string;
+}
+
+type Listener = (drifts: SchemaDrift[]) => void;
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const drifts = new Map<string, SchemaDrift>();
+const listeners = new Set<Listener>();
+
+function notify(): void {
+  const snapshot = getSchemaDrifts();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+/**
+ * Record the outcome of validating one response
+ */
+export function recordSchemaDrift(
+  endpoint: string,
+  violations: SchemaIssue[],
+  unknownFields: SchemaIssue[]
+): void {
+  if (violations.length === 0 && unknownFields.length === 0) return;
+
+  const path = endpoint.split('?')[0];
+  const previous = drifts.get(path);
+  drifts.set(path, {
+    endpoint: path,
+    violations,
+    unknownFields,
+    occurrences: (previous?.occurrences ?? 0) + 1,
+    lastSeen: new Date().toISOString(),
+  });
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.warn(
+      `[ORION schema] ${path}: ${violations.length} violation(s), ${unknownFields.length} unknown field(s)`
+    );
+  }
+
+  notify();
+}
+
+export function getSchemaDrifts(): SchemaDrift[] {
+  return Array.from(drifts.values()).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+export function clearSchemaDrifts(): void {
+  drifts.clear();
+  notify();
+}
+
+/**
+ * Subscribe to drift updates. Returns an unsubscribe function.
+ */
+export function subscribeToSchemaDrift(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,1001 @@
+/**
+ * ORION PMS Response Schemas
+ * @governance DATA-001, DOC-002
+ *
+ * Runtime counterparts of the interfaces in types.ts. Each schema is typed
+ * against its interface, so a field added to types.ts without a schema
+ * update (or vice versa) fails the type-check.
+ *
+ * Endpoints consumed only by a page component are typed against that
+ * component's DATA HOLDER types (components/<page>/types.ts) instead.
+ */
+
+import { s, type Schema } from './schema';
+import type {
+  PortfolioSummary,
+  PortfolioFinancials,
+  DomainProgress,
+  ProjectCard,
+  ProjectSummary,
+  ProjectDetail,
+  ProjectHealth,
+  ProjectHealthResponse,
+  ScheduleSummary,
+  CriticalPathActivity,
+  WBSNode,
+  WBSHierarchy,
+  Activity,
+  FinancialSummary,
+  EVMMetrics,
+  EVMByPhase,
+  EVMTrend,
+  EVMReference,
+  DomainProgressDetail,
+  SystemSyncStatus,
+  SyncDashboard,
+  SyncBatch,
+  SyncHistory,
+  SyncError,
+  SyncErrorList,
+  SyncJobStatus,
+  SyncEntityProgress,
+  SyncJobError,
+  SyncResponse,
+  ProjectUniverse,
+} from './types';
+import type { SyncStatus as DashboardSyncStatus, SystemSyncStatus as DashboardSystemSyncStatus } from '@/components/dashboard/types';
+import type {
+  PortfolioHealth as CfoPortfolioHealth,
+  PortfolioFinancials as CfoPortfolioFinancials,
+  ProjectBudget,
+  ProjectComparison,
+} from '@/components/cfo/types';
+import type {
+  ProjectHeader,
+  PerformanceMetrics,
+  DomainProgress as ProjectDomainProgress,
+  BudgetAnalytics,
+  ScheduleIntelligence,
+} from '@/components/project/types';
+import type { EVMProjectSnapshot } from '@/components/evm/types';
+import type { P6Project, PaginationState, StatusOption, ProjectsResponse } from '@/components/project-list/types';
+import type { WBSNode as P6WBSNode, WBSDetail, WBSTreeResponse } from '@/components/wbs-tree/types';
+import type {
+  GanttActivity,
+  ActivityRelationship,
+  ActivitiesResponse,
+  ActivityDetailResponse,
+  ScheduleBaseline,
+  BaselinesResponse,
+  BaselineScheduleResponse,
+  ScheduleScenario,
+  ScenariosResponse,
+} from '@/components/gantt/types';
+import type {
+  P6ConnectionConfig,
+  SAPConnectionConfig,
+  SyncConfig,
+  UserPreferences,
+  TenantConfig,
+  SettingsResponse,
+  ConnectionTestResult,
+  ScheduleImportResponse,
+  SaveSettingsResult,
+} from '@/components/settings/types';
+
+const nullableNumber = s.nullable(s.number());
+const nullableString = s.nullable(s.string());
+
+// =============================================================================
+// PORTFOLIO SCHEMAS
+// =============================================================================
+
+export const portfolioSummarySchema: Schema<PortfolioSummary> = s.object({
+  totalProjects: s.number(),
+  activeProjects: s.number(),
+  onTrack: s.number(),
+  atRisk: s.number(),
+  critical: s.number(),
+  totalActivities: s.number(),
+  completedActivities: s.number(),
+  inProgressActivities: s.number(),
+  avgPercentComplete: s.number(),
+  lastSync: nullableString,
+});
+
+export const portfolioFinancialsSchema: Schema<PortfolioFinancials> = s.object({
+  totalBAC: s.number(),
+  totalActualCost: s.number(),
+  totalEAC: s.number(),
+  totalEarnedValue: s.number(),
+  currency: s.string(),
+  asOfDate: nullableString,
+});
+
+export const domainProgressSchema: Schema<DomainProgress> = s.object({
+  engineering: nullableNumber,
+  procurement: nullableNumber,
+  construction: nullableNumber,
+  commissioning: nullableNumber,
+});
+
+export const projectCardSchema: Schema<ProjectCard> = s.object({
+  projectId: s.string(),
+  projectCode: s.string(),
+  projectName: s.string(),
+  status: s.enum(['on-track', 'at-risk', 'critical', 'unknown']),
+  cpi: nullableNumber,
+  spi: nullableNumber,
+  percentComplete: nullableNumber,
+  domains: s.optional(domainProgressSchema),
+});
+
+// =============================================================================
+// PROJECT SCHEMAS
+// =============================================================================
+
+export const projectSummarySchema: Schema<ProjectSummary> = s.object({
+  objectId: s.number(),
+  code: s.string(),
+  name: s.string(),
+  status: nullableString,
+  startDate: nullableString,
+  finishDate: nullableString,
+  dataDate: nullableString,
+});
+
+export const projectDetailSchema: Schema<ProjectDetail> = s.object({
+  objectId: s.number(),
+  code: s.string(),
+  name: s.string(),
+  status: nullableString,
+  startDate: nullableString,
+  finishDate: nullableString,
+  plannedStart: nullableString,
+  plannedFinish: nullableString,
+  actualStart: nullableString,
+  actualFinish: nullableString,
+  percentComplete: nullableNumber,
+  dataDate: nullableString,
+  wbsCount: s.number(),
+  activityCount: s.number(),
+});
+
+export const projectHealthSchema: Schema<ProjectHealth> = s.object({
+  id: s.string(),
+  name: s.string(),
+  percentComplete: nullableNumber,
+  spi: nullableNumber,
+  cpi: nullableNumber,
+  status: s.enum(['on-track', 'at-risk', 'critical', 'unknown']),
+  plannedFinish: nullableString,
+  dataDate: nullableString,
+});
+
+export const projectHealthResponseSchema: Schema<ProjectHealthResponse> = s.object({
+  projects: s.array(projectHealthSchema),
+  total: s.number(),
+});
+
+// =============================================================================
+// SCHEDULE SCHEMAS
+// =============================================================================
+
+export const scheduleSummarySchema: Schema<ScheduleSummary> = s.object({
+  projectId: s.string(),
+  totalActivities: s.number(),
+  completedActivities: s.number(),
+  inProgressActivities: s.number(),
+  notStartedActivities: s.number(),
+  criticalPathActivities: s.number(),
+  milestones: s.number(),
+  dataDate: nullableString,
+});
+
+export const criticalPathActivitySchema: Schema<CriticalPathActivity> = s.object({
+  activityId: s.string(),
+  activityCode: s.string(),
+  activityName: s.string(),
+  startDate: nullableString,
+  finishDate: nullableString,
+  totalFloat: nullableNumber,
+  remainingDuration: nullableNumber,
+});
+
+/**
+ * WBS nodes are recursive, so the schema resolves children lazily
+ */
+export const wbsNodeSchema: Schema<WBSNode> = {
+  description: 'WBSNode',
+  check(value, path, ctx) {
+    s.object({
+      ObjectId: s.number(),
+      Id: s.string(),
+      Name: s.string(),
+      ParentObjectId: nullableNumber,
+      SequenceNumber: s.number(),
+      children: s.optional(s.array(wbsNodeSchema)),
+    }).check(value, path, ctx);
+  },
+};
+
+export const wbsHierarchySchema: Schema<WBSHierarchy> = s.object({
+  hierarchy: s.array(wbsNodeSchema),
+  total_wbs_count: s.number(),
+});
+
+export const wbsListSchema: Schema<{ wbs: unknown[]; total: number }> = s.object({
+  wbs: s.array(s.unknown()),
+  total: s.number(),
+});
+
+export const activitySchema: Schema<Activity> = s.object({
+  ObjectId: s.number(),
+  Id: s.string(),
+  Name: s.string(),
+  Status: s.enum(['NotStarted', 'InProgress', 'Completed']),
+  Type: s.string(),
+  StartDate: nullableString,
+  FinishDate: nullableString,
+  PercentComplete: nullableNumber,
+  IsCritical: s.boolean(),
+  TotalFloat: nullableNumber,
+  RemainingDuration: nullableNumber,
+  WBSObjectId: nullableNumber,
+});
+
+export const activityListSchema: Schema<{ activities: unknown[]; total: number; returned: number }> = s.object({
+  activities: s.array(activitySchema),
+  total: s.number(),
+  returned: s.number(),
+});
+
+// =============================================================================
+// FINANCIAL & EVM SCHEMAS
+// =============================================================================
+
+export const financialSummarySchema: Schema<FinancialSummary> = s.object({
+  projectId: s.string(),
+  bac: nullableNumber,
+  actualCost: nullableNumber,
+  earnedValue: nullableNumber,
+  eac: nullableNumber,
+  variance: nullableNumber,
+  currency: s.string(),
+  asOfDate: nullableString,
+});
+
+export const evmMetricsSchema: Schema<EVMMetrics> = s.object({
+  projectId: s.string(),
+  dataDate: nullableString,
+  bac: nullableNumber,
+  bcws: nullableNumber,
+  bcwp: nullableNumber,
+  acwp: nullableNumber,
+  spi: nullableNumber,
+  cpi: nullableNumber,
+  sv: nullableNumber,
+  cv: nullableNumber,
+  eac: nullableNumber,
+  etc: nullableNumber,
+  vac: nullableNumber,
+  asOfDate: nullableString,
+  tcpi: nullableNumber,
+  currency: s.string(),
+  currencyLayer: s.string(),
+  dataSource: s.enum(['real', 'partial', 'no_data', 'error']),
+});
+
+export const evmByPhaseSchema: Schema<EVMByPhase> = s.object({
+  phase: s.string(),
+  phaseName: s.string(),
+  planned: nullableNumber,
+  actual: nullableNumber,
+  earned: nullableNumber,
+  percentComplete: nullableNumber,
+  spi: nullableNumber,
+  cpi: nullableNumber,
+});
+
+export const evmByPhaseResponseSchema = s.object({
+  projectId: s.number(),
+  phases: s.array(evmByPhaseSchema),
+  currency: s.string(),
+  currencyLayer: s.string(),
+  dataSource: s.string(),
+});
+
+export const evmTrendSchema: Schema<EVMTrend> = s.object({
+  projectId: s.number(),
+  trend: s.array(
+    s.object({
+      period: s.string(),
+      dataDate: s.string(),
+      bcws: nullableNumber,
+      bcwp: nullableNumber,
+      acwp: nullableNumber,
+      spi: nullableNumber,
+      cpi: nullableNumber,
+    })
+  ),
+  currency: s.string(),
+  currencyLayer: s.string(),
+});
+
+export const evmReferenceSchema: Schema<EVMReference> = s.object({
+  term: s.string(),
+  abbreviation: s.string(),
+  formula: nullableString,
+  interpretation: s.string(),
+  category: s.enum(['value', 'variance', 'index', 'forecast']),
+});
+
+export const evmReferenceResponseSchema = s.object({
+  definitions: s.array(evmReferenceSchema),
+  categories: s.record(s.string()),
+});
+
+// =============================================================================
+// EPCIC DOMAIN SCHEMAS
+// =============================================================================
+
+export const domainProgressDetailSchema: Schema<DomainProgressDetail> = s.object({
+  domain: s.string(),
+  domainName: s.string(),
+  totalActivities: s.number(),
+  completedActivities: s.number(),
+  progressPercent: nullableNumber,
+  budgetedCost: nullableNumber,
+  actualCost: nullableNumber,
+});
+
+// =============================================================================
+// SYNC SCHEMAS
+// =============================================================================
+
+export const systemSyncStatusSchema: Schema<SystemSyncStatus> = s.object({
+  connected: s.boolean(),
+  lastSync: nullableString,
+  status: s.enum(['success', 'failed', 'running', 'never', 'error']),
+  recordCount: nullableNumber,
+});
+
+export const syncDashboardSchema: Schema<SyncDashboard> = s.object({
+  p6: systemSyncStatusSchema,
+  sap: systemSyncStatusSchema,
+  nextScheduled: nullableString,
+  activeJobs: s.number(),
+  totalBatches: s.number(),
+  totalErrors: s.number(),
+});
+
+export const syncBatchSchema: Schema<SyncBatch> = s.object({
+  batchId: s.string(),
+  batchType: s.enum(['full', 'p6_only', 'sap_only', 'incremental']),
+  status: s.enum(['pending', 'running', 'completed', 'failed']),
+  startedAt: nullableString,
+  completedAt: nullableString,
+  p6RecordCount: s.number(),
+  sapRecordCount: s.number(),
+  errorCount: s.number(),
+  triggeredBy: nullableString,
+  durationSeconds: nullableNumber,
+});
+
+export const syncHistorySchema: Schema<SyncHistory> = s.object({
+  batches: s.array(syncBatchSchema),
+  total: s.number(),
+  page: s.number(),
+  pageSize: s.number(),
+});
+
+export const syncErrorSchema: Schema<SyncError> = s.object({
+  errorId: s.string(),
+  batchId: nullableString,
+  errorSource: s.enum(['p6', 'sap', 'transform', 'load']),
+  errorType: s.enum(['connection', 'timeout', 'validation', 'data', 'unknown']),
+  errorMessage: s.string(),
+  recordType: nullableString,
+  recordId: nullableString,
+  occurredAt: s.string(),
+  resolved: s.boolean(),
+  resolvedAt: nullableString,
+});
+
+export const syncErrorListSchema: Schema<SyncErrorList> = s.object({
+  errors: s.array(syncErrorSchema),
+  total: s.number(),
+  unresolvedCount: s.number(),
+  page: s.number(),
+  pageSize: s.number(),
+});
+
+export const syncJobStatusSchema: Schema<SyncJobStatus> = s.object({
+  jobId: s.string(),
+  status: s.enum(['pending', 'running', 'completed', 'failed']),
+  progress: s.number(),
+  recordsSynced: s.object({
+    p6: s.number(),
+    sap: s.number(),
+  }),
+  startedAt: s.string(),
+  completedAt: nullableString,
+  error: nullableString,
+});
+
+export const syncEntityProgressSchema: Schema<SyncEntityProgress> = s.object({
+  jobId: s.string(),
+  system: s.enum(['p6', 'sap']),
+  entity: s.enum(['projects', 'wbs', 'activities', 'relationships', 'wbs_elements', 'cost_lines']),
+  synced: s.number(),
+  total: s.number(),
+});
+
+export const syncJobErrorSchema: Schema<SyncJobError> = s.object({
+  errorId: s.string(),
+  jobId: s.string(),
+  errorSource: s.enum(['p6', 'sap', 'transform', 'load']),
+  errorType: s.enum(['connection', 'timeout', 'validation', 'data', 'unknown']),
+  errorMessage: s.string(),
+  recordType: nullableString,
+  recordId: nullableString,
+  occurredAt: s.string(),
+});
+
+export const syncJobListSchema = s.object({
+  jobs: s.array(syncJobStatusSchema),
+  total: s.number(),
+});
+
+export const syncResponseSchema: Schema<SyncResponse> = s.object({
+  jobId: s.string(),
+  status: s.string(),
+  message: s.string(),
+  startedAt: s.string(),
+});
+
+export const resolveErrorResponseSchema = s.object({
+  success: s.boolean(),
+  errorId: s.string(),
+  resolved: s.boolean(),
+});
+
+// =============================================================================
+// PROJECT UNIVERSE SCHEMA
+// =============================================================================
+
+export const projectUniverseSchema: Schema<ProjectUniverse> = s.object({
+  project: s.object({
+    objectId: s.number(),
+    code: s.string(),
+    name: s.string(),
+    status: nullableString,
+    percentComplete: nullableNumber,
+    dataDate: nullableString,
+  }),
+  metrics: s.object({
+    totalWbs: s.number(),
+    totalActivities: s.number(),
+    completedActivities: s.number(),
+    inProgressActivities: s.number(),
+    criticalActivities: s.number(),
+  }),
+  wbsHierarchy: s.array(wbsNodeSchema),
+  financials: s.object({
+    bac: nullableNumber,
+    actualCost: nullableNumber,
+    earnedValue: nullableNumber,
+    eac: nullableNumber,
+    variance: nullableNumber,
+    currency: s.string(),
+    asOfDate: nullableString,
+  }),
+  evm: s.object({
+    spi: nullableNumber,
+    cpi: nullableNumber,
+    sv: nullableNumber,
+    cv: nullableNumber,
+    eac: nullableNumber,
+    etc: nullableNumber,
+    vac: nullableNumber,
+  }),
+  domains: s.array(domainProgressDetailSchema),
+});
+
+// =============================================================================
+// HEALTH SCHEMAS
+// =============================================================================
+
+export const healthCheckSchema = s.object({
+  status: s.string(),
+  timestamp: s.string(),
+});
+
+export const readinessSchema = s.object({
+  status: s.string(),
+  services: s.record(s.string()),
+});
+
+// =============================================================================
+// DASHBOARD SCHEMAS (components/dashboard)
+// =============================================================================
+
+const dashboardSystemSyncStatusSchema: Schema<DashboardSystemSyncStatus> = s.object({
+  connected: s.boolean(),
+  lastSync: nullableString,
+  status: s.enum(['success', 'failed', 'running', 'never']),
+});
+
+export const dashboardSyncStatusSchema: Schema<DashboardSyncStatus> = s.object({
+  p6: dashboardSystemSyncStatusSchema,
+  sap: dashboardSystemSyncStatusSchema,
+  nextScheduled: nullableString,
+});
+
+// =============================================================================
+// CFO SCHEMAS (components/cfo)
+// =============================================================================
+
+export const cfoPortfolioHealthSchema: Schema<CfoPortfolioHealth> = s.object({
+  status: s.enum(['ON_TRACK', 'AT_RISK', 'CRITICAL', 'NO_DATA']),
+  avgCPI: nullableNumber,
+  avgSPI: nullableNumber,
+  totalProjects: s.number(),
+  onTrackCount: s.number(),
+  atRiskCount: s.number(),
+  criticalCount: s.number(),
+});
+
+export const cfoPortfolioFinancialsSchema: Schema<CfoPortfolioFinancials> = s.object({
+  totalBAC: s.number(),
+  actualCosts: s.number(),
+  openCommitments: s.number(),
+  revenueReceived: s.number(),
+  netCashPosition: s.number(),
+  currency: nullableString,
+});
+
+export const projectBudgetSchema: Schema<ProjectBudget> = s.object({
+  projectId: s.string(),
+  projectName: s.string(),
+  bac: s.number(),
+  actualCost: s.number(),
+  earnedValue: s.number(),
+  eac: nullableNumber,
+});
+
+export const projectBudgetResponseSchema: Schema<{ projects: ProjectBudget[] }> = s.object({
+  projects: s.array(projectBudgetSchema),
+});
+
+export const projectComparisonSchema: Schema<ProjectComparison> = s.object({
+  projectId: s.string(),
+  projectName: s.string(),
+  percentComplete: s.number(),
+  spi: nullableNumber,
+  cpi: nullableNumber,
+  bac: s.number(),
+  ac: s.number(),
+  ev: s.number(),
+  eac: nullableNumber,
+  vac: nullableNumber,
+  status: s.nullable(s.enum(['on_track', 'at_risk', 'critical'])),
+});
+
+export const projectComparisonResponseSchema: Schema<{ projects: ProjectComparison[] }> = s.object({
+  projects: s.array(projectComparisonSchema),
+});
+
+// =============================================================================
+// PROJECT DASHBOARD SCHEMAS (components/project)
+// =============================================================================
+
+export const projectHeaderSchema: Schema<ProjectHeader> = s.object({
+  projectId: s.string(),
+  projectName: s.string(),
+  projectCode: s.string(),
+  percentComplete: s.number(),
+  status: s.nullable(s.enum(['on_track', 'at_risk', 'critical'])),
+  dataDate: s.string(),
+  plannedStart: s.string(),
+  plannedFinish: s.string(),
+  p6ProjectId: s.string(),
+  sapWbsElement: nullableString,
+});
+
+export const performanceMetricsSchema: Schema<PerformanceMetrics> = s.object({
+  spi: nullableNumber,
+  cpi: nullableNumber,
+  healthScore: nullableNumber,
+  sv: s.number(),
+  cv: s.number(),
+  tcpi: nullableNumber,
+});
+
+export const projectDomainProgressSchema: Schema<ProjectDomainProgress> = s.object({
+  domain: s.enum(['engineering', 'procurement', 'construction', 'installation', 'commissioning']),
+  label: s.string(),
+  plannedValue: nullableNumber,
+  earnedValue: nullableNumber,
+  actualCost: nullableNumber,
+  percentComplete: nullableNumber,
+  spi: nullableNumber,
+  cpi: nullableNumber,
+});
+
+export const projectDomainsResponseSchema: Schema<{ domains: ProjectDomainProgress[] }> = s.object({
+  domains: s.array(projectDomainProgressSchema),
+});
+
+export const budgetAnalyticsSchema: Schema<BudgetAnalytics> = s.object({
+  bac: s.number(),
+  ev: s.number(),
+  ac: s.number(),
+  pv: s.number(),
+  eac: nullableNumber,
+  etc: nullableNumber,
+  vac: nullableNumber,
+  currency: nullableString,
+});
+
+export const scheduleIntelligenceSchema: Schema<ScheduleIntelligence> = s.object({
+  totalActivities: s.number(),
+  completedActivities: s.number(),
+  inProgressActivities: s.number(),
+  notStartedActivities: s.number(),
+  criticalPathActivities: s.number(),
+  wbsElements: s.number(),
+  originalDuration: s.number(),
+  remainingDuration: s.number(),
+  totalFloat: nullableNumber,
+});
+
+// =============================================================================
+// EVM MODULE SCHEMAS (components/evm)
+// =============================================================================
+
+export const evmProjectSnapshotSchema: Schema<EVMProjectSnapshot> = s.object({
+  projectId: s.string(),
+  projectName: s.string(),
+  snapshotDate: s.string(),
+  percentComplete: s.number(),
+  bac: s.number(),
+  pv: s.number(),
+  ev: s.number(),
+  ac: s.number(),
+  sv: s.number(),
+  cv: s.number(),
+  vac: s.number(),
+  spi: s.number(),
+  cpi: s.number(),
+  tcpi: s.number(),
+  eac: s.number(),
+  etc: s.number(),
+});
+
+export const evmProjectsResponseSchema: Schema<{ projects: EVMProjectSnapshot[] }> = s.object({
+  projects: s.array(evmProjectSnapshotSchema),
+});
+
+// =============================================================================
+// P6 SCHEMAS (components/project-list, wbs-tree, gantt)
+// =============================================================================
+
+export const p6ProjectSchema: Schema<P6Project> = s.object({
+  id: s.string(),
+  objectId: s.number(),
+  projectId: s.string(),
+  name: s.string(),
+  status: s.string(),
+  percentComplete: s.number(),
+  plannedStart: s.string(),
+  plannedFinish: s.string(),
+  actualStart: nullableString,
+  dataDate: s.string(),
+  budgetAtCompletion: s.number(),
+  spi: nullableNumber,
+  cpi: nullableNumber,
+});
+
+export const paginationSchema: Schema<PaginationState> = s.object({
+  page: s.number(),
+  pageSize: s.number(),
+  total: s.number(),
+  totalPages: s.number(),
+});
+
+export const p6ProjectsResponseSchema: Schema<ProjectsResponse> = s.object({
+  data: s.array(p6ProjectSchema),
+  pagination: paginationSchema,
+});
+
+export const statusOptionSchema: Schema<StatusOption> = s.object({
+  value: s.string(),
+  label: s.string(),
+  count: s.number(),
+});
+
+/**
+ * WBS tree nodes are recursive, so the schema resolves children lazily
+ */
+export const p6WbsNodeSchema: Schema<P6WBSNode> = {
+  description: 'WBSNode',
+  check(value, path, ctx) {
+    s.object({
+      id: s.string(),
+      objectId: s.number(),
+      parentObjectId: nullableNumber,
+      wbsCode: s.string(),
+      name: s.string(),
+      percentComplete: nullableNumber,
+      budgetAtCompletion: nullableNumber,
+      plannedTotalCost: nullableNumber,
+      actualTotalCost: nullableNumber,
+      hierarchyLevel: s.number(),
+      activityCount: s.number(),
+      children: s.array(p6WbsNodeSchema),
+      isExpanded: s.boolean(),
+      sapMapped: s.boolean(),
+    }).check(value, path, ctx);
+  },
+};
+
+export const wbsTreeResponseSchema: Schema<WBSTreeResponse> = s.object({
+  nodes: s.array(p6WbsNodeSchema),
+  totalCount: s.number(),
+});
+
+export const wbsDetailSchema: Schema<WBSDetail> = s.object({
+  objectId: s.number(),
+  wbsCode: s.string(),
+  name: s.string(),
+  status: s.string(),
+  percentComplete: nullableNumber,
+  plannedStart: nullableString,
+  plannedFinish: nullableString,
+  budgetAtCompletion: nullableNumber,
+  plannedTotalCost: nullableNumber,
+  actualTotalCost: nullableNumber,
+  remainingTotalCost: nullableNumber,
+  sapMapping: s.nullable(s.object({
+    posid: nullableString,
+    post1: nullableString,
+    mappingStrategy: nullableString,
+    confidenceScore: nullableNumber,
+    isVerified: s.boolean(),
+  })),
+  sapFinancials: s.nullable(s.object({
+    budget: s.number(),
+    actuals: s.number(),
+    commitments: s.number(),
+  })),
+  activityCount: s.number(),
+  resourceCount: s.number(),
+});
+
+export const ganttActivitySchema: Schema<GanttActivity> = s.object({
+  id: s.string(),
+  objectId: s.number(),
+  wbsObjectId: s.number(),
+  activityId: s.string(),
+  name: s.string(),
+  activityType: s.string(),
+  status: s.enum(['not_started', 'in_progress', 'complete']),
+  percentComplete: nullableNumber,
+  plannedStart: s.string(),
+  plannedFinish: s.string(),
+  actualStart: nullableString,
+  actualFinish: nullableString,
+  plannedDuration: nullableNumber,
+  remainingDuration: nullableNumber,
+  totalFloat: s.optional(s.nullable(s.number())),
+  isCritical: s.boolean(),
+  isMilestone: s.boolean(),
+  predecessors: s.array(s.number()),
+  successors: s.array(s.number()),
+});
+
+export const activityRelationshipSchema: Schema<ActivityRelationship> = s.object({
+  predecessorObjectId: s.number(),
+  successorObjectId: s.number(),
+  type: s.enum(['FS', 'SS', 'FF', 'SF']),
+  lag: s.number(),
+});
+
+export const ganttActivitiesResponseSchema: Schema<ActivitiesResponse> = s.object({
+  activities: s.array(ganttActivitySchema),
+  relationships: s.array(activityRelationshipSchema),
+  dataDate: s.string(),
+  totalCount: s.number(),
+});
+
+export const activityDetailResponseSchema: Schema<ActivityDetailResponse> = s.object({
+  activity: ganttActivitySchema,
+  resources: s.array(s.object({
+    name: s.string(),
+    role: nullableString,
+    units: nullableNumber,
+  })),
+  costs: s.object({
+    plannedCost: nullableNumber,
+    actualCost: nullableNumber,
+    remainingCost: nullableNumber,
+  }),
+});
+
+export const scheduleBaselineSchema: Schema<ScheduleBaseline> = s.object({
+  id: s.string(),
+  source: s.enum(['p6', 'sync']),
+  name: s.string(),
+  baselineType: nullableString,
+  date: nullableString,
+});
+
+export const baselinesResponseSchema: Schema<BaselinesResponse> = s.object({
+  baselines: s.array(scheduleBaselineSchema),
+});
+
+export const baselineScheduleResponseSchema: Schema<BaselineScheduleResponse> = s.object({
+  baseline: scheduleBaselineSchema,
+  activities: s.array(s.object({
+    objectId: s.number(),
+    start: s.string(),
+    finish: s.string(),
+  })),
+});
+
+export const scheduleScenarioSchema: Schema<ScheduleScenario> = s.object({
+  id: s.number(),
+  projectObjectId: s.number(),
+  name: s.string(),
+  edits: s.object({
+    activities: s.array(s.object({
+      objectId: s.number(),
+      startOnOrAfter: s.optional(s.string()),
+      duration: s.optional(s.number()),
+    })),
+    relationships: s.array(s.object({
+      predecessorObjectId: s.number(),
+      successorObjectId: s.number(),
+      type: s.enum(['FS', 'SS', 'FF', 'SF']),
+      lag: s.number(),
+    })),
+  }),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+});
+
+export const scenariosResponseSchema: Schema<ScenariosResponse> = s.object({
+  scenarios: s.array(scheduleScenarioSchema),
+});
+
+// =============================================================================
+// SETTINGS SCHEMAS (components/settings)
+// =============================================================================
+
+const connectionStatusSchema = s.enum(['connected', 'disconnected', 'error']);
+
+export const p6ConnectionConfigSchema: Schema<P6ConnectionConfig> = s.object({
+  id: s.string(),
+  wsdlUrl: s.string(),
+  username: s.string(),
+  password: s.optional(s.string()),
+  databaseInstance: s.string(),
+  status: connectionStatusSchema,
+  lastTestedAt: nullableString,
+  lastError: nullableString,
+  isEnabled: s.boolean(),
+});
+
+export const sapConnectionConfigSchema: Schema<SAPConnectionConfig> = s.object({
+  id: s.string(),
+  hostUrl: s.string(),
+  client: s.string(),
+  username: s.string(),
+  password: s.optional(s.string()),
+  systemNumber: s.string(),
+  instanceNumber: s.string(),
+  connectionType: s.enum(['hana', 'rfc']),
+  status: connectionStatusSchema,
+  lastTestedAt: nullableString,
+  lastError: nullableString,
+  isEnabled: s.boolean(),
+});
+
+export const syncConfigSchema: Schema<SyncConfig> = s.object({
+  id: s.string(),
+  frequency: s.enum(['manual', 'hourly', 'daily', 'weekly']),
+  cronExpression: nullableString,
+  isEnabled: s.boolean(),
+  lastSyncAt: nullableString,
+  lastSyncStatus: s.nullable(s.enum(['success', 'partial', 'failed'])),
+  lastSyncDurationSeconds: nullableNumber,
+  lastSyncRecordCount: nullableNumber,
+  nextScheduledAt: nullableString,
+  p6Entities: s.array(s.object({
+    name: s.enum(['projects', 'wbs', 'activities', 'relationships', 'resources', 'assignments']),
+    isEnabled: s.boolean(),
+    lastSyncCount: nullableNumber,
+    lastSyncAt: nullableString,
+  })),
+  sapEntities: s.array(s.object({
+    name: s.enum(['acdoca', 'prps', 'bseg', 'ekko', 'ekpo', 'tcurr']),
+    isEnabled: s.boolean(),
+    lastSyncCount: nullableNumber,
+    lastSyncAt: nullableString,
+    wrttpFilter: s.optional(s.string()),
+  })),
+});
+
+export const userPreferencesSchema: Schema<UserPreferences> = s.object({
+  userId: s.string(),
+  theme: s.enum(['light', 'dark', 'system']),
+  dateFormat: s.enum(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']),
+  numberFormat: s.enum(['en-US', 'en-GB', 'de-DE']),
+  currency: s.string(),
+  timezone: s.string(),
+  showNotifications: s.boolean(),
+  emailNotifications: s.boolean(),
+  defaultGanttScale: s.enum(['day', 'week', 'month', 'quarter', 'year']),
+  defaultDashboardView: s.enum(['portfolio', 'project', 'sync']),
+});
+
+export const tenantConfigSchema: Schema<TenantConfig> = s.object({
+  id: s.string(),
+  name: s.string(),
+  tier: s.enum(['starter', 'professional', 'enterprise']),
+  maxProjects: s.number(),
+  maxUsers: s.number(),
+  currentProjectCount: s.number(),
+  currentUserCount: s.number(),
+  features: s.object({
+    aiChat: s.boolean(),
+    advancedEvm: s.boolean(),
+    customReports: s.boolean(),
+    apiAccess: s.boolean(),
+    sso: s.boolean(),
+    auditLogging: s.boolean(),
+  }),
+  subscriptionStatus: s.enum(['active', 'trial', 'expired', 'cancelled']),
+  trialEndsAt: nullableString,
+  billingEmail: s.string(),
+});
+
+export const settingsResponseSchema: Schema<SettingsResponse> = s.object({
+  p6Connection: s.nullable(p6ConnectionConfigSchema),
+  sapConnection: s.nullable(sapConnectionConfigSchema),
+  syncConfig: syncConfigSchema,
+  preferences: userPreferencesSchema,
+  tenant: tenantConfigSchema,
+});
+
+export const connectionTestResultSchema: Schema<ConnectionTestResult> = s.object({
+  success: s.boolean(),
+  message: s.string(),
+  responseTimeMs: s.number(),
+  details: s.optional(s.record(s.unknown())),
+});
+
+export const saveSettingsResultSchema: Schema<SaveSettingsResult> = s.object({
+  success: s.boolean(),
+  message: s.string(),
+  config: s.optional(s.unknown()),
+});
+
+export const scheduleImportResponseSchema: Schema<ScheduleImportResponse> = s.object({
+  format: s.enum(['xer', 'pmxml', 'mspxml']),
+  version: s.nullable(s.string()),
+  projects: s.array(
+    s.object({
+      projectObjectId: s.number(),
+      projectCode: s.string(),
+      projectName: s.string(),
+      wbsCount: s.number(),
+      activityCount: s.number(),
+      relationshipCount: s.number(),
+    })
+  ),
+  calendarCount: s.number(),
+  resourceCount: s.number(),
+  warnings: s.array(s.string()),
+});
@@ -0,0 +1,134 @@
+/**
+ * Tenant Resolution
+ * @governance SEC-001, DOC-002
+ *
+ * Maps the signed-in Clerk organization onto an ORION tenant. Server only:
+ * pages resolve the tenant here and hand it to TenantProvider, and the
+ * middleware rejects API requests that name any other tenant.
+ *
+ * The tenant id comes from the organization's public metadata
+ * (`orion_tenant_id`, set by the onboarding backend), exposed on the session
+ * token as the `orionTenantId` claim:
+ *
+ *   { "orionTenantId": "{{org.public_metadata.orion_tenant_id}}" }
+ *
+ * Organization names and slugs are editable by org admins, so they are never
+ * used as a fallback.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { redirect } from 'next/navigation';
+import { auth } from '@clerk/nextjs/server';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** The ORION tenant behind the current Clerk session */
+export interface TenantSession {
+  /** Null until the organization has been onboarded */
+  tenantId: string | null;
+  userId: string;
+  orgId: string | null;
+  /** Clerk organization role, e.g. "org:admin"; null without an organization */
+  orgRole: string | null;
+}
+
+/** The subset of Clerk's auth object the resolver reads */
+export interface ClerkAuthLike {
+  userId: string | null;
+  orgId?: string | null;
+  orgRole?: string | null;
+  sessionClaims?: Record<string, unknown> | null;
+}
+
+export const TENANT_CLAIM = 'orionTenantId';
+export const TENANT_HEADER = 'X-Tenant-ID';
+/** Query parameters the backend accepts as a tenant selector */
+export const TENANT_QUERY_PARAMS = ['tenant', 'tenantId'] as const;
+/** Clerk's built-in organization admin role */
+export const ORG_ADMIN_ROLE = 'org:admin';
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Map a Clerk auth object onto a tenant session. Returns null when signed out.
+ */
+export function tenantFromAuth(authObject: ClerkAuthLike): TenantSession | null {
+  if (!authObject.userId) return null;
+
+  const claim = authObject.orgId ? authObject.sessionClaims?.[TENANT_CLAIM] : undefined;
+
+  return {
+    tenantId: typeof claim === 'string' && claim.length > 0 ? claim : null,
+    userId: authObject.userId,
+    orgId: authObject.orgId ?? null,
+    orgRole: authObject.orgId ? (authObject.orgRole ?? null) : null,
+  };
+}
+
+/**
+ * Resolve the tenant for the current request (server components, route handlers)
+ */
+export async function resolveTenant(): Promise<TenantSession | null> {
+  return tenantFromAuth(await auth());
+}
+
+/**
+ * Resolve the tenant for a page that cannot render without one. Signed-out
+ * users go to sign-in; organizations without a tenant go to onboarding.
+ */
+export async function requireTenant(): Promise<TenantSession & { tenantId: string }> {
+  const session = await resolveTenant();
+  if (!session) redirect('/sign-in');
+  if (!session.tenantId) redirect('/onboarding');
+  return { ...session, tenantId: session.tenantId };
+}
+
+// =============================================================================
+// REQUEST CHECKS
+// =============================================================================
+
+/**
+ * Every tenant a request names, via the X-Tenant-ID header or query string
+ */
+export function getRequestedTenants(request: NextRequest): string[] {
+  const requested: string[] = [];
+
+  const header = request.headers.get(TENANT_HEADER);
+  if (header) requested.push(header);
+
+  for (const param of TENANT_QUERY_PARAMS) {
+    requested.push(...request.nextUrl.searchParams.getAll(param).filter(Boolean));
+  }
+
+  return requested;
+}
+
+/**
+ * Reject a request that names a tenant other than the session's.
+ * Returns the error response, or null when the request may proceed.
+ * Body follows the backend's `{ detail, code }` error shape.
+ */
+export function checkTenantAccess(
+  request: NextRequest,
+  session: TenantSession | null
+): NextResponse | null {
+  if (!session) {
+    return NextResponse.json({ detail: 'Not signed in', code: 'UNAUTHENTICATED' }, { status: 401 });
+  }
+
+  const requested = getRequestedTenants(request);
+  if (requested.length === 0) return null;
+
+  if (!session.tenantId || requested.some((tenant) => tenant !== session.tenantId)) {
+    return NextResponse.json(
+      { detail: 'Requested tenant does not match your organization', code: 'TENANT_MISMATCH' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -51,27 +51,6 @@ export interface ProjectCard {
   domains?: DomainProgress;
 }
 
-export interface PortfolioHealth {
-  status: 'ON_TRACK' | 'AT_RISK' | 'CRITICAL' | 'NO_DATA' | 'ERROR';
-  avgCPI: number | null;
-  avgSPI: number | null;
-  projectCounts: {
-    total: number;
-    onTrack: number;
-    atRisk: number;
-    critical: number;
-  };
-}
-
-export interface BudgetComparison {
-  projectId: string;
-  projectName: string;
-  bac: number;
-  actualCost: number;
-  eac: number;
-  variance: number;
-}
-
 // =============================================================================
 // PROJECT TYPES (Galaxy Level)
 // =============================================================================
@@ -340,6 +319,40 @@ export interface SyncJobStatus {
   error: string | null;
 }
 
+export type SyncEntity = 'projects' | 'wbs' | 'activities' | 'relationships' | 'wbs_elements' | 'cost_lines';
+
+/** `entity` event on the sync job stream - records synced for one entity */
+export interface SyncEntityProgress {
+  jobId: string;
+  system: 'p6' | 'sap';
+  entity: SyncEntity;
+  synced: number;
+  total: number;
+}
+
+/** `job-error` event on the sync job stream */
+export interface SyncJobError {
+  errorId: string;
+  jobId: string;
+  errorSource: SyncError['errorSource'];
+  errorType: SyncError['errorType'];
+  errorMessage: string;
+  recordType: string | null;
+  recordId: string | null;
+  occurredAt: string;
+}
+
+/**
+ * Events on GET /api/v1/sync/jobs/{jobId}/events (text/event-stream).
+ * `progress` carries the same payload as GET /api/v1/sync/jobs/{jobId};
+ * `done` is sent once the job is completed or failed, then the stream closes.
+ */
+export type SyncJobEvent =
+  | { event: 'progress'; data: SyncJobStatus }
+  | { event: 'entity'; data: SyncEntityProgress }
+  | { event: 'job-error'; data: SyncJobError }
+  | { event: 'done'; data: SyncJobStatus };
+
 export interface SyncRequest {
   projectId?: number;
   syncType: 'full' | 'p6_only' | 'sap_only';
@@ -0,0 +1,114 @@
+/**
+ * Zip Archive Writer
+ * @governance COMPONENT-001
+ *
+ * Packs files into one zip archive for a single download. Files are
+ * stored uncompressed: the archives hold SVG and PNG pages, which gain
+ * little from deflate, and storing keeps the writer small.
+ */
+
+/**
+ * File to pack
+ */
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/** CRC-32 as zip checks it */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date fields, local time */
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Write the files as one zip archive, every file stored. Names are UTF-8.
+ */
+export function zipFiles(entries: ZipEntry[], modifiedAt = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modifiedAt);
+  const files = entries.map((entry) => ({ ...entry, path: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = files.reduce((size, file) => size + 30 + file.path.length + file.data.length, 0);
+  const centralSize = files.reduce((size, file) => size + 46 + file.path.length, 0);
+
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+  let offset = 0;
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const bytes = (data: Uint8Array) => {
+    zip.set(data, offset);
+    offset += data.length;
+  };
+  // Version needed, UTF-8 names flag, stored, time, date, CRC, sizes, name length
+  const header = (file: (typeof files)[number]) => {
+    u16(20);
+    u16(0x0800);
+    u16(0);
+    u16(time);
+    u16(date);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.path.length);
+  };
+
+  const localOffsets = files.map((file) => {
+    const start = offset;
+    u32(0x04034b50);
+    header(file);
+    // No extra field
+    u16(0);
+    bytes(file.path);
+    bytes(file.data);
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, i) => {
+    u32(0x02014b50);
+    // Version made by
+    u16(20);
+    header(file);
+    // Extra field, comment, disk, internal and external attributes
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(0);
+    u32(0);
+    u32(localOffsets[i]);
+    bytes(file.path);
+  });
+
+  // End of central directory: one disk holding every entry
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralSize);
+  u32(centralStart);
+  // Comment length
+  u16(0);
+  return zip;
+}
@@ -0,0 +1,67 @@
+/**
+ * Clerk Middleware for ORION
+ * @governance SEC-001
+ *
+ * Protects routes and enforces the session tenant.
+ * Public routes: /sign-in, /sign-up, /onboarding, health checks, /api/mock
+ * (the mock backend 404s unless ORION_MOCK_BACKEND=true)
+ * Protected routes: Everything else
+ *
+ * /api/v1 requests naming a tenant other than the session's (X-Tenant-ID or
+ * ?tenant=) are rejected, and the session tenant is forwarded to the backend
+ * as X-Tenant-ID so requests that name no tenant are still scoped to it.
+ */
+
+import { NextResponse } from 'next/server';
+import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
+import { checkTenantAccess, tenantFromAuth, TENANT_HEADER } from '@/lib/tenant';
+
+// Define public routes that don't require authentication
+const isPublicRoute = createRouteMatcher([
+  '/sign-in(.*)',
+  '/sign-up(.*)',
+  '/onboarding(.*)',
+  '/api/health',
+  '/api/v1/health',
+  '/health',
+  '/ready',
+  '/api/mock(.*)',
+]);
+const isApiRoute = createRouteMatcher(['/api/v1/(.*)']);
+// Onboarding creates the tenant, so it is the only API allowed without one
+const isOnboardingApiRoute = createRouteMatcher(['/api/v1/onboarding/(.*)']);
+
+export default clerkMiddleware(async (auth, request) => {
+  if (isPublicRoute(request)) return NextResponse.next();
+
+  if (!isApiRoute(request)) {
+    await auth.protect();
+    return NextResponse.next();
+  }
+
+  const session = tenantFromAuth(await auth());
+
+  const rejection = checkTenantAccess(request, session);
+  if (rejection) return rejection;
+
+  if (!session?.tenantId) {
+    if (isOnboardingApiRoute(request)) return NextResponse.next();
+    return NextResponse.json(
+      { detail: 'Your organization has no ORION tenant yet', code: 'TENANT_REQUIRED' },
+      { status: 403 }
+    );
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set(TENANT_HEADER, session.tenantId);
+  return NextResponse.next({ request: { headers } });
+});
+
+export const config = {
+  matcher: [
+    // Skip Next.js internals and static files
+    '/((?!_next|[^?]*\\.(?:html?|css|js(?!on)|jpe?g|webp|png|gif|svg|ttf|woff2?|ico|csv|docx?|xlsx?|zip|webmanifest)).*)',
+    // Always run for API routes
+    '/(api|trpc)(.*)',
+  ],
+};
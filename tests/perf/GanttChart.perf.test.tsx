@@ -0,0 +1,266 @@
+/**
+ * Gantt Chart Performance Tests
+ * @governance COMPONENT-001
+ *
+ * A 20,000-activity schedule under 420 WBS elements, the size of a large
+ * offshore EPC project, must stay responsive: the DOM holds only the rows,
+ * bars and links in the viewport, and a scroll, zoom or WBS expand
+ * re-renders within the frame budget.
+ *
+ * jsdom renders several times slower than a browser and CI machines vary,
+ * so the budgets are upper bounds that rendering every row would blow
+ * through many times over, not targets.
+ *
+ * Run with: npm run test:perf
+ */
+
+import type { ReactElement, ReactNode } from 'react';
+import { act, render as rtlRender, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DataModeProvider } from '@/contexts/DataModeContext';
+import { TenantProvider } from '@/contexts/TenantContext';
+import { GanttChart } from '@/components/gantt/GanttChart';
+import type { ActivitiesResponse, ActivityRelationship, GanttActivity } from '@/components/gantt/types';
+import type { WBSNode, WBSTreeResponse } from '@/components/wbs-tree/types';
+
+const ACTIVITY_COUNT = 20_000;
+/** 20 areas of 20 WBS elements, each holding one chain */
+const AREA_COUNT = 20;
+const WBS_COUNT = ACTIVITY_COUNT / 50;
+const ROW_COUNT = ACTIVITY_COUNT + WBS_COUNT + AREA_COUNT;
+const ROW_HEIGHT = 32;
+
+/** Median time to re-render after a scroll, zoom or WBS expand; 60 fps is 16 ms in a browser */
+const FRAME_BUDGET_MS = 100;
+/** Time from data arriving to the first bars */
+const FIRST_RENDER_BUDGET_MS = 5_000;
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROJECT_START = Date.UTC(2025, 0, 6);
+
+/** Chains of 50 finish-to-start activities per WBS, staggered over four years */
+function largeSchedule(): ActivitiesResponse {
+  const activities: GanttActivity[] = [];
+  const relationships: ActivityRelationship[] = [];
+  for (let index = 0; index < ACTIVITY_COUNT; index++) {
+    const wbs = Math.floor(index / 50);
+    const start = PROJECT_START + ((wbs * 3 + (index % 50) * 5) % 1400) * DAY_MS;
+    const objectId = 100_000 + index;
+    activities.push({
+      id: `act-${index}`,
+      objectId,
+      wbsObjectId: 1_000 + wbs,
+      activityId: `A${objectId}`,
+      name: `Activity ${index + 1}`,
+      activityType: 'Task Dependent',
+      status: index % 7 === 0 ? 'in_progress' : 'not_started',
+      percentComplete: index % 7 === 0 ? 40 : 0,
+      plannedStart: new Date(start).toISOString(),
+      plannedFinish: new Date(start + 5 * DAY_MS).toISOString(),
+      actualStart: index % 7 === 0 ? new Date(start).toISOString() : null,
+      actualFinish: null,
+      plannedDuration: 5,
+      remainingDuration: index % 7 === 0 ? 3 : 5,
+      isCritical: false,
+      isMilestone: index % 50 === 49,
+      predecessors: index % 50 === 0 ? [] : [objectId - 1],
+      successors: index % 50 === 49 ? [] : [objectId + 1],
+    });
+    if (index % 50 !== 0) {
+      relationships.push({ predecessorObjectId: objectId - 1, successorObjectId: objectId, type: 'FS', lag: 0 });
+    }
+  }
+  return { activities, relationships, dataDate: new Date(PROJECT_START).toISOString(), totalCount: ACTIVITY_COUNT };
+}
+
+const wbsNode = (objectId: number, level: number, children: WBSNode[] = []): WBSNode => ({
+  id: `wbs-${objectId}`,
+  objectId,
+  parentObjectId: null,
+  wbsCode: `W${objectId}`,
+  name: `WBS ${objectId}`,
+  percentComplete: 5,
+  budgetAtCompletion: 0,
+  plannedTotalCost: 0,
+  actualTotalCost: 0,
+  hierarchyLevel: level,
+  activityCount: 0,
+  children,
+  isExpanded: false,
+  sapMapped: false,
+});
+
+/** Areas holding the WBS elements of largeSchedule's chains */
+function largeWbsTree(): WBSTreeResponse {
+  const perArea = WBS_COUNT / AREA_COUNT;
+  const nodes = Array.from({ length: AREA_COUNT }, (_, area) =>
+    wbsNode(
+      500 + area,
+      0,
+      Array.from({ length: perArea }, (_, index) => wbsNode(1_000 + area * perArea + index, 1))
+    )
+  );
+  return { nodes, totalCount: WBS_COUNT + AREA_COUNT };
+}
+
+const schedule = largeSchedule();
+const wbsTree = largeWbsTree();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function render(ui: ReactElement) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <TenantProvider tenantId="tenant-001">
+        <DataModeProvider>{children}</DataModeProvider>
+      </TenantProvider>
+    </QueryClientProvider>
+  );
+  return rtlRender(ui, { wrapper });
+}
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+beforeEach(() => {
+  mockFetch.mockImplementation((url: string) =>
+    url.includes('/baselines')
+      ? Promise.reject(new Error('No baselines'))
+      : Promise.resolve({ ok: true, json: () => Promise.resolve(url.includes('/wbs') ? wbsTree : schedule) })
+  );
+});
+
+/** Milliseconds a synchronous update takes to commit */
+function timed(update: () => void): number {
+  const start = performance.now();
+  act(update);
+  return performance.now() - start;
+}
+
+/** Median frame after three warm-up frames, so JIT compilation is not measured */
+function medianFrame(updates: (() => void)[]): number {
+  updates.slice(0, 3).forEach((update) => act(update));
+  const frames = updates
+    .slice(3)
+    .map(timed)
+    .sort((a, b) => a - b);
+  return frames[Math.floor(frames.length / 2)];
+}
+
+async function renderChart() {
+  const start = performance.now();
+  render(<GanttChart projectObjectId={12345} tenantId="tenant-001" rowHeight={ROW_HEIGHT} />);
+  // Grouped once the WBS tree arrives
+  await waitFor(() => expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-setsize', String(ROW_COUNT)), {
+    timeout: 20_000,
+  });
+  return { chart: screen.getByRole('application'), firstRender: performance.now() - start };
+}
+
+const domCounts = () => ({
+  rows: screen.queryAllByRole('option').length,
+  bars: screen.queryAllByRole('graphics-symbol').length,
+  links: screen.queryAllByTestId(/^dependency-line/).length,
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GanttChart with 20,000 activities', () => {
+  it('renders the first screen within budget', async () => {
+    const { firstRender } = await renderChart();
+
+    console.info(`first render: ${firstRender.toFixed(0)} ms`);
+    expect(firstRender).toBeLessThan(FIRST_RENDER_BUDGET_MS);
+  }, 30_000);
+
+  it('keeps only the viewport in the DOM', async () => {
+    await renderChart();
+
+    const counts = domCounts();
+    expect(counts.rows).toBeLessThan(100);
+    expect(counts.bars).toBeLessThan(100);
+    expect(counts.links).toBeLessThan(200);
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-setsize', String(ROW_COUNT));
+  }, 30_000);
+
+  it('scrolls vertically within the frame budget', async () => {
+    const { chart } = await renderChart();
+
+    // A page of rows per frame from the middle of the schedule
+    const frame = medianFrame(
+      Array.from({ length: 23 }, (_, step) => () => {
+        fireEvent.scroll(chart, { target: { scrollTop: (10_000 + step * 25) * ROW_HEIGHT } });
+      })
+    );
+
+    console.info(`vertical scroll: median frame ${frame.toFixed(1)} ms`);
+    expect(frame).toBeLessThan(FRAME_BUDGET_MS);
+    expect(domCounts().rows).toBeLessThan(100);
+  }, 30_000);
+
+  it('jumps to the end of the schedule', async () => {
+    const { chart } = await renderChart();
+
+    const frame = timed(() => {
+      fireEvent.scroll(chart, { target: { scrollTop: (ROW_COUNT - 25) * ROW_HEIGHT } });
+    });
+
+    console.info(`jump to end: ${frame.toFixed(1)} ms`);
+    const rows = screen.getAllByRole('option');
+    expect(rows[rows.length - 1]).toHaveAttribute('aria-posinset', String(ROW_COUNT));
+    expect(rows.length).toBeLessThan(100);
+  }, 30_000);
+
+  it('scrolls along the time axis within the frame budget', async () => {
+    const { chart } = await renderChart();
+
+    const frame = medianFrame(
+      Array.from({ length: 23 }, (_, step) => () => {
+        fireEvent.scroll(chart, { target: { scrollLeft: (step + 1) * 557 } });
+      })
+    );
+
+    console.info(`horizontal scroll: median frame ${frame.toFixed(1)} ms`);
+    expect(frame).toBeLessThan(FRAME_BUDGET_MS);
+    expect(domCounts().bars).toBeLessThan(100);
+  }, 30_000);
+
+  it('zooms within the frame budget', async () => {
+    const { chart } = await renderChart();
+    fireEvent.scroll(chart, { target: { scrollTop: 10_000 * ROW_HEIGHT } });
+    // The toolbar keeps its buttons, so they are looked up outside the timed frames
+    const scales = ['week', 'day', 'quarter', 'year', 'month'].map((scale) =>
+      screen.getByRole('button', { name: new RegExp(`^${scale}$`, 'i') })
+    );
+
+    const frame = medianFrame([...scales, ...scales].map((button) => () => fireEvent.click(button)));
+
+    console.info(`zoom: median frame ${frame.toFixed(1)} ms`);
+    expect(frame).toBeLessThan(FRAME_BUDGET_MS);
+    expect(domCounts().bars).toBeLessThan(100);
+  }, 30_000);
+
+  it('collapses and expands the WBS within the frame budget', async () => {
+    await renderChart();
+    const levels = [1, 2].map((level) => screen.getByRole('button', { name: `Expand to level ${level}` }));
+    const all = screen.getByRole('button', { name: 'Expand all' });
+
+    const frame = medianFrame(
+      [...levels, all, ...levels, all, ...levels, all].map((button) => () => fireEvent.click(button))
+    );
+
+    console.info(`expand to level: median frame ${frame.toFixed(1)} ms`);
+    expect(frame).toBeLessThan(FRAME_BUDGET_MS);
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute('aria-setsize', String(ROW_COUNT));
+  }, 30_000);
+});